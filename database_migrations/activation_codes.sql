@@ -0,0 +1,96 @@
+-- Migration: Hashed activation codes
+-- Description: Activation codes for user invitations and tenant admins are
+-- generated by the API (server/src/lib/activationCodes.ts) and stored only as
+-- SHA-256 hashes. The plaintext is returned once to whoever issued it.
+-- Activating claims the row with a single conditional UPDATE (claimed_at), so
+-- two concurrent requests with the same code cannot both create an account.
+
+-- 1. User invitations: hash outstanding codes, then drop the plaintext
+ALTER TABLE public.user_invitations
+  ADD COLUMN IF NOT EXISTS activation_code_hash TEXT,
+  ADD COLUMN IF NOT EXISTS claimed_at TIMESTAMPTZ; -- set while an activation is in flight
+
+DO $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_schema = 'public' AND table_name = 'user_invitations' AND column_name = 'activation_code'
+  ) THEN
+    -- Same normalisation as the API: uppercase, letters and digits only
+    UPDATE public.user_invitations
+    SET activation_code_hash = encode(
+      sha256(convert_to(upper(regexp_replace(activation_code, '[^A-Za-z0-9]', '', 'g')), 'UTF8')),
+      'hex'
+    )
+    WHERE activation_code IS NOT NULL AND activation_code_hash IS NULL;
+
+    ALTER TABLE public.user_invitations DROP COLUMN activation_code;
+    ALTER TABLE public.user_invitations DROP COLUMN IF EXISTS activation_link;
+  END IF;
+END $$;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_user_invitations_code_hash
+  ON public.user_invitations (activation_code_hash);
+
+-- Codes come from the API only; a client-chosen hash would be a known code
+CREATE OR REPLACE FUNCTION public.protect_invitation_code_hash()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF (TG_OP = 'INSERT' OR NEW.activation_code_hash IS DISTINCT FROM OLD.activation_code_hash
+      OR NEW.claimed_at IS DISTINCT FROM OLD.claimed_at)
+     AND COALESCE(auth.role(), 'service_role') <> 'service_role' THEN
+    RAISE EXCEPTION 'Invitations are issued by the activation API';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS protect_invitation_code_hash ON public.user_invitations;
+CREATE TRIGGER protect_invitation_code_hash
+  BEFORE INSERT OR UPDATE ON public.user_invitations
+  FOR EACH ROW EXECUTE FUNCTION public.protect_invitation_code_hash();
+
+-- 2. Tenant activation codes (first agency admin), previously kept in
+-- tenants.metadata.activation_code
+CREATE TABLE IF NOT EXISTS public.tenant_activation_codes (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id TEXT NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+  code_hash TEXT NOT NULL UNIQUE,
+  created_by TEXT REFERENCES users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  expires_at TIMESTAMPTZ NOT NULL,
+  claimed_at TIMESTAMPTZ,
+  used_at TIMESTAMPTZ,
+  used_by TEXT, -- email of the admin account created with it
+  revoked_at TIMESTAMPTZ -- replaced by a newer code
+);
+
+CREATE INDEX IF NOT EXISTS idx_tenant_activation_codes_tenant
+  ON public.tenant_activation_codes (tenant_id, created_at DESC);
+
+COMMENT ON TABLE public.tenant_activation_codes IS 'Hashed one-time codes for creating a tenant''s first agency admin';
+
+-- Service role only: RLS on, no policies
+ALTER TABLE public.tenant_activation_codes ENABLE ROW LEVEL SECURITY;
+
+INSERT INTO public.tenant_activation_codes (tenant_id, code_hash, created_at, expires_at)
+SELECT
+  t.id,
+  encode(sha256(convert_to(upper(regexp_replace(t.metadata->>'activation_code', '[^A-Za-z0-9]', '', 'g')), 'UTF8')), 'hex'),
+  COALESCE((t.metadata->>'activation_sent_at')::timestamptz, NOW()),
+  NOW() + INTERVAL '7 days'
+FROM public.tenants t
+WHERE t.metadata->>'activation_code' IS NOT NULL
+  AND COALESCE((t.metadata->>'activation_used')::boolean, false) = false
+ON CONFLICT (code_hash) DO NOTHING;
+
+UPDATE public.tenants
+SET metadata = metadata - 'activation_code'
+WHERE metadata ? 'activation_code';
+
+-- 3. Old audit entries recorded the code itself
+UPDATE public.audit_logs
+SET metadata = metadata - 'activation_code_used'
+WHERE action = 'tenant_activated' AND metadata ? 'activation_code_used';
@@ -0,0 +1,29 @@
+-- Migration: Allow access-denied entries in audit_logs
+-- Description: The API's role and tenant guards record every denied request
+-- with action 'access_denied'. 'tenant_activated' is written by
+-- /api/activate-tenant and is listed here so the constraint matches reality.
+
+ALTER TABLE public.audit_logs DROP CONSTRAINT IF EXISTS audit_logs_action_check;
+
+ALTER TABLE public.audit_logs ADD CONSTRAINT audit_logs_action_check
+  CHECK (action IN (
+    'created',
+    'updated',
+    'deleted',
+    'finalized',
+    'delivered',
+    'returned',
+    'exported',
+    'viewed',
+    'tenant_activated',
+    'access_denied'
+  ));
+
+-- Denied requests are looked up by actor when reviewing suspicious activity
+CREATE INDEX IF NOT EXISTS idx_audit_logs_user_action
+  ON public.audit_logs USING btree (user_id, action, created_at DESC);
+
+-- Verify the constraint was added
+SELECT conname, pg_get_constraintdef(oid)
+FROM pg_constraint
+WHERE conname = 'audit_logs_action_check';
@@ -0,0 +1,234 @@
+-- Migration: Tamper-evident audit log
+-- Description: Every audit_logs row gets a per-tenant sequence number and a
+-- SHA-256 hash over its contents and the previous row's hash, so an edited,
+-- removed or reordered entry breaks the chain. The latest link of each chain
+-- is kept in audit_chain_heads, which also catches entries cut off the end.
+-- Rows can no longer be updated or deleted; verify_audit_chain() walks a
+-- tenant's chain and reports where it breaks (GET /api/audit/verify).
+
+-- 1. Chain columns
+ALTER TABLE public.audit_logs
+  ADD COLUMN IF NOT EXISTS seq BIGINT,
+  ADD COLUMN IF NOT EXISTS prev_hash TEXT,
+  ADD COLUMN IF NOT EXISTS hash TEXT;
+
+COMMENT ON COLUMN public.audit_logs.seq IS 'Position in the tenant''s audit chain, starting at 1';
+COMMENT ON COLUMN public.audit_logs.hash IS 'SHA-256 of the entry and prev_hash (audit_log_hash)';
+
+-- Last link of each tenant's chain. Written only by the chain trigger.
+CREATE TABLE IF NOT EXISTS public.audit_chain_heads (
+  tenant_id TEXT PRIMARY KEY REFERENCES tenants(id) ON DELETE CASCADE,
+  seq BIGINT NOT NULL DEFAULT 0,
+  hash TEXT NOT NULL DEFAULT repeat('0', 64),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+ALTER TABLE public.audit_chain_heads ENABLE ROW LEVEL SECURITY;
+
+-- 2. Entry hash. Fields are serialized as a JSON array so NULLs and
+-- separators are unambiguous; created_at is rendered in UTC so the result
+-- does not depend on the session time zone.
+CREATE OR REPLACE FUNCTION public.audit_log_hash(p_entry public.audit_logs)
+RETURNS TEXT
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT encode(sha256(convert_to(jsonb_build_array(
+    p_entry.seq,
+    p_entry.prev_hash,
+    p_entry.id,
+    p_entry.tenant_id,
+    p_entry.user_id,
+    p_entry.entity_type,
+    p_entry.entity_id,
+    p_entry.action,
+    p_entry.changes,
+    p_entry.metadata,
+    p_entry.ip_address::text,
+    p_entry.user_agent,
+    to_char(p_entry.created_at AT TIME ZONE 'UTC', 'YYYY-MM-DD"T"HH24:MI:SS.US"Z"')
+  )::text, 'UTF8')), 'hex');
+$$;
+
+-- 3. Chain existing entries in the order they were written
+DO $$
+DECLARE
+  v_tenant TEXT;
+  v_entry public.audit_logs;
+  v_seq BIGINT;
+  v_hash TEXT;
+BEGIN
+  FOR v_tenant IN SELECT DISTINCT tenant_id FROM public.audit_logs WHERE hash IS NULL LOOP
+    v_seq := 0;
+    v_hash := repeat('0', 64);
+
+    FOR v_entry IN
+      SELECT * FROM public.audit_logs WHERE tenant_id = v_tenant ORDER BY created_at, id
+    LOOP
+      v_seq := v_seq + 1;
+      v_entry.seq := v_seq;
+      v_entry.prev_hash := v_hash;
+      v_hash := public.audit_log_hash(v_entry);
+
+      UPDATE public.audit_logs
+      SET seq = v_seq, prev_hash = v_entry.prev_hash, hash = v_hash
+      WHERE id = v_entry.id;
+    END LOOP;
+
+    INSERT INTO public.audit_chain_heads (tenant_id, seq, hash)
+    VALUES (v_tenant, v_seq, v_hash)
+    ON CONFLICT (tenant_id) DO UPDATE SET seq = EXCLUDED.seq, hash = EXCLUDED.hash, updated_at = NOW();
+  END LOOP;
+END;
+$$;
+
+ALTER TABLE public.audit_logs
+  ALTER COLUMN seq SET NOT NULL,
+  ALTER COLUMN prev_hash SET NOT NULL,
+  ALTER COLUMN hash SET NOT NULL;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_audit_logs_tenant_seq ON public.audit_logs (tenant_id, seq);
+
+-- 4. Link each new entry to its tenant's chain. The head row is locked for the
+-- rest of the transaction, so concurrent writers for a tenant are serialized.
+-- created_at is taken from the database clock; clients cannot backdate.
+-- Triggers fire in name order: this one runs after tag_impersonated_audit_log
+-- so the hash covers the impersonation metadata.
+CREATE OR REPLACE FUNCTION public.link_audit_log()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_head audit_chain_heads;
+BEGIN
+  NEW.created_at := NOW();
+
+  INSERT INTO audit_chain_heads (tenant_id) VALUES (NEW.tenant_id) ON CONFLICT (tenant_id) DO NOTHING;
+  SELECT * INTO v_head FROM audit_chain_heads WHERE tenant_id = NEW.tenant_id FOR UPDATE;
+
+  NEW.seq := v_head.seq + 1;
+  NEW.prev_hash := v_head.hash;
+  NEW.hash := audit_log_hash(NEW);
+
+  UPDATE audit_chain_heads
+  SET seq = NEW.seq, hash = NEW.hash, updated_at = NOW()
+  WHERE tenant_id = NEW.tenant_id;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS tag_with_chain_link ON public.audit_logs;
+CREATE TRIGGER tag_with_chain_link
+  BEFORE INSERT ON public.audit_logs
+  FOR EACH ROW EXECUTE FUNCTION public.link_audit_log();
+
+-- 5. Append-only. Deleting a tenant still removes its whole chain (and head)
+-- through the foreign key cascade.
+CREATE OR REPLACE FUNCTION public.prevent_audit_log_changes()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    IF NOT EXISTS (SELECT 1 FROM tenants WHERE id = OLD.tenant_id) THEN
+      RETURN OLD;
+    END IF;
+  END IF;
+  RAISE EXCEPTION 'audit_logs is append-only' USING ERRCODE = '42501';
+END;
+$$;
+
+DROP TRIGGER IF EXISTS audit_logs_append_only ON public.audit_logs;
+CREATE TRIGGER audit_logs_append_only
+  BEFORE UPDATE OR DELETE ON public.audit_logs
+  FOR EACH ROW EXECUTE FUNCTION public.prevent_audit_log_changes();
+
+DROP TRIGGER IF EXISTS audit_logs_no_truncate ON public.audit_logs;
+CREATE TRIGGER audit_logs_no_truncate
+  BEFORE TRUNCATE ON public.audit_logs
+  FOR EACH STATEMENT EXECUTE FUNCTION public.prevent_audit_log_changes();
+
+REVOKE UPDATE, DELETE, TRUNCATE ON public.audit_logs FROM anon, authenticated, service_role;
+REVOKE INSERT, UPDATE, DELETE, TRUNCATE ON public.audit_chain_heads FROM anon, authenticated, service_role;
+
+-- Super admins kept "for all" access from super_admin_tables.sql; narrow it
+-- to reading and writing new entries
+DROP POLICY IF EXISTS "Super admins have full access to audit logs" ON public.audit_logs;
+
+CREATE POLICY "Super admins can view audit logs"
+  ON public.audit_logs FOR SELECT
+  USING (EXISTS (SELECT 1 FROM users WHERE users.id = auth.uid() AND users.role = 'super_admin'));
+
+CREATE POLICY "Super admins can write audit logs"
+  ON public.audit_logs FOR INSERT
+  WITH CHECK (EXISTS (SELECT 1 FROM users WHERE users.id = auth.uid() AND users.role = 'super_admin'));
+
+-- 6. Verification. Walks the chain in order and reports each break:
+--   gap            a sequence number is missing (entry removed)
+--   broken_link    prev_hash does not match the previous entry's hash
+--   hash_mismatch  the entry's contents no longer match its hash (entry edited)
+--   head_mismatch  the chain ends before the recorded head (entries cut off)
+-- At most p_max_breaks breaks are returned.
+CREATE OR REPLACE FUNCTION public.verify_audit_chain(p_tenant_id TEXT, p_max_breaks INTEGER DEFAULT 100)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_entry audit_logs;
+  v_head audit_chain_heads;
+  v_expected_seq BIGINT := 1;
+  v_prev_hash TEXT := repeat('0', 64);
+  v_checked BIGINT := 0;
+  v_breaks JSONB := '[]'::jsonb;
+BEGIN
+  FOR v_entry IN SELECT * FROM audit_logs WHERE tenant_id = p_tenant_id ORDER BY seq LOOP
+    EXIT WHEN jsonb_array_length(v_breaks) >= p_max_breaks;
+    v_checked := v_checked + 1;
+
+    IF v_entry.seq <> v_expected_seq THEN
+      v_breaks := v_breaks || jsonb_build_object(
+        'seq', v_expected_seq, 'id', NULL, 'problem', 'gap', 'missing', v_entry.seq - v_expected_seq
+      );
+    END IF;
+
+    IF v_entry.prev_hash IS DISTINCT FROM v_prev_hash THEN
+      v_breaks := v_breaks || jsonb_build_object('seq', v_entry.seq, 'id', v_entry.id, 'problem', 'broken_link');
+    END IF;
+
+    IF v_entry.hash IS DISTINCT FROM audit_log_hash(v_entry) THEN
+      v_breaks := v_breaks || jsonb_build_object('seq', v_entry.seq, 'id', v_entry.id, 'problem', 'hash_mismatch');
+    END IF;
+
+    v_expected_seq := v_entry.seq + 1;
+    v_prev_hash := v_entry.hash;
+  END LOOP;
+
+  SELECT * INTO v_head FROM audit_chain_heads WHERE tenant_id = p_tenant_id;
+
+  IF jsonb_array_length(v_breaks) < p_max_breaks
+     AND (COALESCE(v_head.seq, 0) <> v_expected_seq - 1 OR COALESCE(v_head.hash, repeat('0', 64)) <> v_prev_hash) THEN
+    v_breaks := v_breaks || jsonb_build_object(
+      'seq', v_expected_seq - 1, 'id', NULL, 'problem', 'head_mismatch', 'head_seq', COALESCE(v_head.seq, 0)
+    );
+  END IF;
+
+  RETURN jsonb_build_object(
+    'tenant_id', p_tenant_id,
+    'valid', jsonb_array_length(v_breaks) = 0,
+    'entries', v_checked,
+    'head_seq', COALESCE(v_head.seq, 0),
+    'head_hash', v_head.hash,
+    'breaks', v_breaks,
+    'verified_at', NOW()
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.verify_audit_chain(TEXT, INTEGER) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.verify_audit_chain(TEXT, INTEGER) TO service_role;
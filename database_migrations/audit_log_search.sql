@@ -0,0 +1,37 @@
+-- Migration: Audit log search
+-- Description: Indexes behind GET /api/audit/logs (server/src/lib/auditSearch.ts).
+-- Free-text search matches a lower-cased copy of the entry's text columns
+-- through a trigram index; the other filters use btree indexes scoped to a
+-- tenant and ordered newest first.
+
+CREATE EXTENSION IF NOT EXISTS pg_trgm WITH SCHEMA extensions;
+
+-- 1. Searchable text. Generated, so it is filled for existing rows without an
+-- UPDATE (audit_logs is append-only) and is not part of the entry hash.
+ALTER TABLE public.audit_logs
+  ADD COLUMN IF NOT EXISTS search_text TEXT GENERATED ALWAYS AS (
+    -- || rather than concat_ws, which is not immutable
+    lower(
+      action || ' ' || entity_type || ' ' || entity_id
+      || ' ' || COALESCE(user_agent, '')
+      || ' ' || COALESCE(ip_address::text, '')
+      || ' ' || COALESCE(changes::text, '')
+      || ' ' || COALESCE(metadata::text, '')
+    )
+  ) STORED;
+
+CREATE INDEX IF NOT EXISTS idx_audit_logs_search_text
+  ON public.audit_logs USING gin (search_text extensions.gin_trgm_ops);
+
+-- 2. Filtered listings, newest first
+CREATE INDEX IF NOT EXISTS idx_audit_logs_tenant_created
+  ON public.audit_logs (tenant_id, created_at DESC, id DESC);
+
+CREATE INDEX IF NOT EXISTS idx_audit_logs_tenant_entity
+  ON public.audit_logs (tenant_id, entity_type, entity_id, created_at DESC);
+
+-- Chart timelines also pick up entries about the chart's medications and
+-- documents, which carry metadata.chart_id
+CREATE INDEX IF NOT EXISTS idx_audit_logs_chart
+  ON public.audit_logs ((metadata ->> 'chart_id'), created_at DESC)
+  WHERE metadata ? 'chart_id';
@@ -0,0 +1,134 @@
+-- Migration: Server-owned chart lifecycle
+-- Description: Chart status transitions are decided by the API
+-- (server/src/lib/chartStateMachine.ts) and applied through
+-- apply_chart_transition(), which updates the chart, adds the review note,
+-- clears the patient assignment and writes the audit log in one transaction.
+-- Triggers stop browser clients from changing status directly and from
+-- editing medications or documents on locked charts.
+
+-- 1. Atomic transition (service role only)
+CREATE OR REPLACE FUNCTION public.apply_chart_transition(
+  p_chart_id text,
+  p_expected_status text,
+  p_new_status text,
+  p_patch jsonb,
+  p_note text,
+  p_actor_id text,
+  p_clear_patient_assignment boolean,
+  p_audit jsonb
+) RETURNS jsonb
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_patch charts;
+  v_chart charts;
+BEGIN
+  -- Cast the patch to the charts row type so column types are respected
+  v_patch := jsonb_populate_record(NULL::charts, p_patch);
+
+  UPDATE charts c SET
+    status = p_new_status,
+    awaiting_clinician_review = CASE WHEN p_patch ? 'awaiting_clinician_review' THEN v_patch.awaiting_clinician_review ELSE c.awaiting_clinician_review END,
+    finalized_at = CASE WHEN p_patch ? 'finalized_at' THEN v_patch.finalized_at ELSE c.finalized_at END,
+    finalized_by = CASE WHEN p_patch ? 'finalized_by' THEN v_patch.finalized_by ELSE c.finalized_by END,
+    delivered_by = CASE WHEN p_patch ? 'delivered_by' THEN v_patch.delivered_by ELSE c.delivered_by END,
+    first_delivered_at = CASE WHEN p_patch ? 'first_delivered_at' THEN v_patch.first_delivered_at ELSE c.first_delivered_at END,
+    updated_at = now()
+  WHERE c.id::text = p_chart_id
+    AND c.status = p_expected_status
+  RETURNING c.* INTO v_chart;
+
+  -- Another request moved the chart first
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Chart % is no longer %', p_chart_id, p_expected_status
+      USING ERRCODE = 'LR409';
+  END IF;
+
+  IF p_note IS NOT NULL THEN
+    INSERT INTO chart_review_notes (chart_id, note, created_by)
+    SELECT r.chart_id, r.note, r.created_by
+    FROM jsonb_populate_record(
+      NULL::chart_review_notes,
+      jsonb_build_object('chart_id', p_chart_id, 'note', p_note, 'created_by', p_actor_id)
+    ) r;
+  END IF;
+
+  IF p_clear_patient_assignment THEN
+    UPDATE patients SET assigned_clinician_id = NULL WHERE id = v_chart.patient_id;
+  END IF;
+
+  INSERT INTO audit_logs (tenant_id, user_id, entity_type, entity_id, action, changes, metadata, ip_address, user_agent)
+  VALUES (
+    v_chart.tenant_id::text,
+    p_actor_id,
+    'chart',
+    p_chart_id,
+    p_audit->>'action',
+    jsonb_build_object('status', jsonb_build_object('from', p_expected_status, 'to', p_new_status)) || COALESCE(p_patch, '{}'::jsonb),
+    p_audit->'metadata',
+    NULLIF(p_audit->>'ip_address', '')::inet,
+    p_audit->>'user_agent'
+  );
+
+  RETURN to_jsonb(v_chart);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.apply_chart_transition(text, text, text, jsonb, text, text, boolean, jsonb) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.apply_chart_transition(text, text, text, jsonb, text, text, boolean, jsonb) TO service_role;
+
+-- 2. Only the API (service role) may change status or finalization
+CREATE OR REPLACE FUNCTION public.guard_chart_status_change()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF COALESCE(auth.role(), '') <> 'service_role' AND (
+    NEW.status IS DISTINCT FROM OLD.status
+    OR NEW.finalized_at IS DISTINCT FROM OLD.finalized_at
+    OR NEW.finalized_by IS DISTINCT FROM OLD.finalized_by
+  ) THEN
+    RAISE EXCEPTION 'Chart status can only be changed through the chart lifecycle API'
+      USING ERRCODE = '42501';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS charts_guard_status_change ON public.charts;
+CREATE TRIGGER charts_guard_status_change
+  BEFORE UPDATE ON public.charts
+  FOR EACH ROW EXECUTE FUNCTION public.guard_chart_status_change();
+
+-- 3. Delivered and archived charts are read-only for clients
+CREATE OR REPLACE FUNCTION public.guard_locked_chart_children()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_status text;
+BEGIN
+  IF COALESCE(auth.role(), '') = 'service_role' THEN
+    RETURN COALESCE(NEW, OLD);
+  END IF;
+
+  SELECT status INTO v_status FROM charts WHERE id = COALESCE(NEW.chart_id, OLD.chart_id);
+
+  IF v_status IN ('delivered_locked', 'archived') THEN
+    RAISE EXCEPTION 'Chart is % and cannot be edited', v_status
+      USING ERRCODE = '42501';
+  END IF;
+
+  RETURN COALESCE(NEW, OLD);
+END;
+$$;
+
+DROP TRIGGER IF EXISTS medications_guard_locked_chart ON public.medications;
+CREATE TRIGGER medications_guard_locked_chart
+  BEFORE INSERT OR UPDATE OR DELETE ON public.medications
+  FOR EACH ROW EXECUTE FUNCTION public.guard_locked_chart_children();
+
+DROP TRIGGER IF EXISTS documents_guard_locked_chart ON public.documents;
+CREATE TRIGGER documents_guard_locked_chart
+  BEFORE INSERT OR UPDATE OR DELETE ON public.documents
+  FOR EACH ROW EXECUTE FUNCTION public.guard_locked_chart_children();
@@ -0,0 +1,140 @@
+-- Migration: Immutable chart version history
+-- Description: Every time a chart is finalized (-> pending_review) or
+-- delivered (-> delivered_locked) a snapshot of the chart, its patient, its
+-- medications and its review notes is stored in chart_versions. Snapshots are
+-- taken by a deferred trigger so they include the review note written in the
+-- same transition, and rows can never be updated or deleted.
+
+CREATE TABLE IF NOT EXISTS public.chart_versions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  chart_id TEXT NOT NULL REFERENCES charts(id) ON DELETE CASCADE,
+  tenant_id TEXT NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+  version_number INTEGER NOT NULL,
+  reason TEXT NOT NULL CHECK (reason IN ('finalized', 'delivered')),
+  chart_status TEXT NOT NULL,
+  snapshot JSONB NOT NULL,
+  created_by TEXT REFERENCES users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CONSTRAINT chart_versions_chart_version_key UNIQUE (chart_id, version_number)
+);
+
+CREATE INDEX IF NOT EXISTS idx_chart_versions_chart_id ON public.chart_versions (chart_id, version_number DESC);
+CREATE INDEX IF NOT EXISTS idx_chart_versions_tenant_id ON public.chart_versions (tenant_id);
+
+COMMENT ON TABLE public.chart_versions IS 'Append-only snapshots of a chart taken at each finalization and delivery';
+
+-- Snapshot builder. Scanned label images are left out to keep versions small;
+-- they remain on the medication rows.
+CREATE OR REPLACE FUNCTION public.build_chart_snapshot(p_chart_id TEXT)
+RETURNS JSONB
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT jsonb_build_object(
+    'chart', to_jsonb(c),
+    'patient', (SELECT to_jsonb(p) FROM patients p WHERE p.id = c.patient_id),
+    'medications', COALESCE(
+      (SELECT jsonb_agg(to_jsonb(m) - 'scanned_image' ORDER BY m.created_at)
+       FROM medications m WHERE m.chart_id = c.id),
+      '[]'::jsonb
+    ),
+    'review_notes', COALESCE(
+      (SELECT jsonb_agg(to_jsonb(n) ORDER BY n.created_at)
+       FROM chart_review_notes n WHERE n.chart_id = c.id),
+      '[]'::jsonb
+    )
+  )
+  FROM charts c
+  WHERE c.id::text = p_chart_id;
+$$;
+
+CREATE OR REPLACE FUNCTION public.record_chart_version()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_reason TEXT;
+  v_next INTEGER;
+BEGIN
+  IF NEW.status IS NOT DISTINCT FROM OLD.status THEN
+    RETURN NULL;
+  END IF;
+
+  IF NEW.status = 'pending_review' THEN
+    v_reason := 'finalized';
+  ELSIF NEW.status = 'delivered_locked' THEN
+    v_reason := 'delivered';
+  ELSE
+    RETURN NULL;
+  END IF;
+
+  -- Serialize version numbering per chart
+  PERFORM pg_advisory_xact_lock(hashtext('chart_versions:' || NEW.id::text));
+
+  SELECT COALESCE(MAX(version_number), 0) + 1 INTO v_next
+  FROM chart_versions WHERE chart_id = NEW.id::text;
+
+  INSERT INTO chart_versions (chart_id, tenant_id, version_number, reason, chart_status, snapshot, created_by)
+  VALUES (
+    NEW.id::text,
+    NEW.tenant_id::text,
+    v_next,
+    v_reason,
+    NEW.status,
+    build_chart_snapshot(NEW.id::text),
+    CASE WHEN v_reason = 'delivered' THEN NEW.delivered_by::text ELSE NEW.finalized_by::text END
+  );
+
+  RETURN NULL;
+END;
+$$;
+
+-- Deferred to commit so notes inserted later in the same transition are captured
+DROP TRIGGER IF EXISTS charts_record_version ON public.charts;
+CREATE CONSTRAINT TRIGGER charts_record_version
+  AFTER UPDATE ON public.charts
+  DEFERRABLE INITIALLY DEFERRED
+  FOR EACH ROW EXECUTE FUNCTION public.record_chart_version();
+
+-- Versions are immutable
+CREATE OR REPLACE FUNCTION public.prevent_chart_version_changes()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  RAISE EXCEPTION 'chart_versions rows are immutable' USING ERRCODE = '42501';
+END;
+$$;
+
+DROP TRIGGER IF EXISTS chart_versions_immutable ON public.chart_versions;
+CREATE TRIGGER chart_versions_immutable
+  BEFORE UPDATE OR DELETE ON public.chart_versions
+  FOR EACH ROW EXECUTE FUNCTION public.prevent_chart_version_changes();
+
+-- Read access: agency admins of the tenant and super admins (writes only via trigger)
+ALTER TABLE public.chart_versions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Agency admins can view their tenant chart versions"
+  ON public.chart_versions
+  FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM users
+      WHERE users.id = auth.uid()::text
+        AND users.tenant_id = chart_versions.tenant_id
+        AND users.role = 'agency_admin'
+    )
+  );
+
+CREATE POLICY "Super admins can view all chart versions"
+  ON public.chart_versions
+  FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM users
+      WHERE users.id = auth.uid()::text
+        AND users.role = 'super_admin'
+    )
+  );
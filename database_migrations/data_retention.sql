@@ -0,0 +1,492 @@
+-- Migration: Per-tenant data retention, legal holds and purging
+-- Description: Each tenant decides how long archived charts, notifications
+-- and audit log entries are kept (tenant_retention_policies; no policy means
+-- keep forever). Charts and documents are soft-deleted first: hidden from
+-- every client, restorable by an agency admin, and purged for good once the
+-- tenant's grace period has passed. Active legal holds stop both steps. The
+-- API's retention job (server/src/lib/retention.ts) calls the functions here
+-- and writes a 'purged' report to the audit log.
+
+-- 1. Settings. Minimums guard against purging by mistake: audit entries are
+-- kept at least six years (HIPAA), archived charts at least one year.
+ALTER TABLE public.tenants
+  ADD COLUMN IF NOT EXISTS retention_grace_days INTEGER NOT NULL DEFAULT 30
+    CONSTRAINT tenants_retention_grace_days_check CHECK (retention_grace_days BETWEEN 1 AND 365);
+
+CREATE TABLE IF NOT EXISTS public.tenant_retention_policies (
+  tenant_id TEXT NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+  entity_type TEXT NOT NULL CHECK (entity_type IN ('archived_chart', 'notification', 'audit_log')),
+  retain_days INTEGER NOT NULL,
+  updated_by TEXT REFERENCES users(id) ON DELETE SET NULL,
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (tenant_id, entity_type),
+  CONSTRAINT tenant_retention_policies_days_check CHECK (
+    retain_days <= 36500 AND retain_days >= CASE entity_type
+      WHEN 'audit_log' THEN 2190
+      WHEN 'archived_chart' THEN 365
+      ELSE 7
+    END
+  )
+);
+
+COMMENT ON TABLE public.tenant_retention_policies IS 'Days each kind of record is kept before the retention job removes it';
+
+-- 2. Legal holds. A tenant hold stops all purging for the tenant; a patient
+-- hold protects that patient's charts, documents and notifications. Any
+-- active hold also stops audit log purging, since entries can only be removed
+-- from the start of the tenant's chain. Holds are released, never deleted, and
+-- a patient with holds cannot be deleted (NO ACTION still lets the tenant go).
+CREATE TABLE IF NOT EXISTS public.legal_holds (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id TEXT NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+  scope TEXT NOT NULL CHECK (scope IN ('tenant', 'patient')),
+  patient_id TEXT REFERENCES patients(id),
+  reason TEXT NOT NULL CHECK (length(btrim(reason)) > 0),
+  created_by TEXT REFERENCES users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  released_by TEXT REFERENCES users(id) ON DELETE SET NULL,
+  released_at TIMESTAMPTZ,
+  CONSTRAINT legal_holds_scope_check CHECK ((scope = 'patient') = (patient_id IS NOT NULL))
+);
+
+CREATE INDEX IF NOT EXISTS idx_legal_holds_active ON public.legal_holds (tenant_id) WHERE released_at IS NULL;
+
+-- Service role only: RLS on, no policies
+ALTER TABLE public.tenant_retention_policies ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.legal_holds ENABLE ROW LEVEL SECURITY;
+
+CREATE OR REPLACE FUNCTION public.retention_hold_active(p_tenant_id TEXT, p_patient_id TEXT DEFAULT NULL)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM legal_holds h
+    WHERE h.tenant_id = p_tenant_id
+      AND h.released_at IS NULL
+      AND (h.scope = 'tenant' OR h.patient_id = p_patient_id)
+  );
+$$;
+
+-- 3. Soft delete. archived_at is kept by the trigger below; deleted_at marks
+-- a chart or document as deleted (by a user, or by the archived_chart policy).
+ALTER TABLE public.charts
+  ADD COLUMN IF NOT EXISTS archived_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS deleted_by TEXT;
+
+ALTER TABLE public.documents
+  ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS deleted_by TEXT;
+
+UPDATE public.charts SET archived_at = updated_at WHERE status = 'archived' AND archived_at IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_charts_archived_at ON public.charts (tenant_id, archived_at) WHERE status = 'archived';
+CREATE INDEX IF NOT EXISTS idx_charts_deleted_at ON public.charts (tenant_id, deleted_at) WHERE deleted_at IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_documents_deleted_at ON public.documents (tenant_id, deleted_at) WHERE deleted_at IS NOT NULL;
+
+CREATE OR REPLACE FUNCTION public.track_chart_archived_at()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NEW.status IS DISTINCT FROM OLD.status THEN
+    NEW.archived_at := CASE WHEN NEW.status = 'archived' THEN NOW() END;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS charts_track_archived_at ON public.charts;
+CREATE TRIGGER charts_track_archived_at
+  BEFORE UPDATE ON public.charts
+  FOR EACH ROW EXECUTE FUNCTION public.track_chart_archived_at();
+
+-- 4. Deleted rows are invisible to clients, along with the medications and
+-- documents of a deleted chart. Only the API deletes and restores (the check
+-- also stops clients from setting deleted_at themselves).
+CREATE OR REPLACE FUNCTION public.chart_is_deleted(p_chart_id TEXT)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (SELECT 1 FROM charts WHERE id::text = p_chart_id AND deleted_at IS NOT NULL);
+$$;
+
+DROP POLICY IF EXISTS "Hide deleted charts" ON public.charts;
+CREATE POLICY "Hide deleted charts" ON public.charts
+  AS RESTRICTIVE FOR ALL TO authenticated
+  USING (deleted_at IS NULL) WITH CHECK (deleted_at IS NULL);
+
+DROP POLICY IF EXISTS "Hide deleted documents" ON public.documents;
+CREATE POLICY "Hide deleted documents" ON public.documents
+  AS RESTRICTIVE FOR ALL TO authenticated
+  USING (deleted_at IS NULL AND NOT public.chart_is_deleted(chart_id::text))
+  WITH CHECK (deleted_at IS NULL);
+
+DROP POLICY IF EXISTS "Documents are deleted through the API" ON public.documents;
+CREATE POLICY "Documents are deleted through the API" ON public.documents
+  AS RESTRICTIVE FOR DELETE TO authenticated
+  USING (false);
+
+DROP POLICY IF EXISTS "Hide medications of deleted charts" ON public.medications;
+CREATE POLICY "Hide medications of deleted charts" ON public.medications
+  AS RESTRICTIVE FOR ALL TO authenticated
+  USING (NOT public.chart_is_deleted(chart_id::text));
+
+-- 5. Purging is the only way chart versions and audit entries are ever
+-- removed. The purge functions set app.retention_purge for their own
+-- transaction; audit entries additionally have to lie at or before the
+-- tenant's recorded purge point.
+ALTER TABLE public.audit_chain_heads
+  ADD COLUMN IF NOT EXISTS purged_through_seq BIGINT NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS purged_through_hash TEXT;
+
+COMMENT ON COLUMN public.audit_chain_heads.purged_through_seq IS 'Entries up to this seq were removed by retention; verification starts after it';
+
+CREATE OR REPLACE FUNCTION public.retention_purge_running()
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT COALESCE(current_setting('app.retention_purge', true), '') = 'on'
+    AND COALESCE(auth.role(), 'service_role') = 'service_role';
+$$;
+
+CREATE OR REPLACE FUNCTION public.prevent_chart_version_changes()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF TG_OP = 'DELETE' AND public.retention_purge_running() THEN
+    RETURN OLD;
+  END IF;
+  RAISE EXCEPTION 'chart_versions rows are immutable' USING ERRCODE = '42501';
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.prevent_audit_log_changes()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    IF NOT EXISTS (SELECT 1 FROM tenants WHERE id = OLD.tenant_id) THEN
+      RETURN OLD;
+    END IF;
+    IF public.retention_purge_running() AND OLD.seq <= (
+      SELECT purged_through_seq FROM audit_chain_heads WHERE tenant_id = OLD.tenant_id
+    ) THEN
+      RETURN OLD;
+    END IF;
+  END IF;
+  RAISE EXCEPTION 'audit_logs is append-only' USING ERRCODE = '42501';
+END;
+$$;
+
+-- 6. Purge reports are written by the retention job, not by a user
+ALTER TABLE public.audit_logs ALTER COLUMN user_id DROP NOT NULL;
+
+COMMENT ON COLUMN public.audit_logs.user_id IS 'Acting user; NULL for entries written by scheduled jobs';
+
+ALTER TABLE public.audit_logs DROP CONSTRAINT IF EXISTS audit_logs_action_check;
+
+ALTER TABLE public.audit_logs ADD CONSTRAINT audit_logs_action_check
+  CHECK (action IN (
+    'created',
+    'updated',
+    'deleted',
+    'finalized',
+    'delivered',
+    'returned',
+    'exported',
+    'viewed',
+    'tenant_activated',
+    'access_denied',
+    'impersonation_started',
+    'impersonation_ended',
+    'sso_login',
+    'purged'
+  ));
+
+ALTER TABLE public.audit_logs DROP CONSTRAINT IF EXISTS audit_logs_entity_type_check;
+
+ALTER TABLE public.audit_logs ADD CONSTRAINT audit_logs_entity_type_check
+  CHECK (entity_type IN (
+    'tenant',
+    'user',
+    'patient',
+    'chart',
+    'medication',
+    'document',
+    'export',
+    'legal_hold'
+  ));
+
+-- 7. Archived charts past the tenant's policy are soft-deleted. Returns the
+-- ids deleted.
+CREATE OR REPLACE FUNCTION public.retention_delete_archived_charts(p_tenant_id TEXT, p_archived_before TIMESTAMPTZ)
+RETURNS TABLE (chart_id TEXT)
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  UPDATE charts c
+  SET deleted_at = NOW(), deleted_by = NULL
+  WHERE c.tenant_id::text = p_tenant_id
+    AND c.status = 'archived'
+    AND c.archived_at < p_archived_before
+    AND c.deleted_at IS NULL
+    AND NOT retention_hold_active(p_tenant_id, c.patient_id::text)
+  RETURNING c.id::text;
+$$;
+
+-- 8. Hard delete of charts soft-deleted before p_deleted_before, with their
+-- medications, documents, review notes and versions. Returns the chart ids
+-- and the file URLs of the removed documents so the API can delete the files.
+CREATE OR REPLACE FUNCTION public.retention_purge_charts(
+  p_tenant_id TEXT,
+  p_deleted_before TIMESTAMPTZ,
+  p_limit INTEGER DEFAULT 100
+) RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_ids TEXT[];
+  v_files JSONB;
+  v_medications INTEGER;
+  v_documents INTEGER;
+BEGIN
+  SELECT COALESCE(array_agg(id), '{}') INTO v_ids FROM (
+    SELECT c.id::text AS id
+    FROM charts c
+    WHERE c.tenant_id::text = p_tenant_id
+      AND c.deleted_at < p_deleted_before
+      AND NOT retention_hold_active(p_tenant_id, c.patient_id::text)
+    ORDER BY c.deleted_at
+    LIMIT p_limit
+    FOR UPDATE SKIP LOCKED
+  ) due;
+
+  IF cardinality(v_ids) = 0 THEN
+    RETURN jsonb_build_object('charts', '[]'::jsonb, 'medications', 0, 'documents', 0, 'file_urls', '[]'::jsonb);
+  END IF;
+
+  PERFORM set_config('app.retention_purge', 'on', true);
+
+  SELECT COALESCE(jsonb_agg(file_url) FILTER (WHERE file_url IS NOT NULL), '[]'::jsonb)
+  INTO v_files
+  FROM documents WHERE chart_id::text = ANY (v_ids);
+
+  DELETE FROM documents WHERE chart_id::text = ANY (v_ids);
+  GET DIAGNOSTICS v_documents = ROW_COUNT;
+  DELETE FROM medications WHERE chart_id::text = ANY (v_ids);
+  GET DIAGNOSTICS v_medications = ROW_COUNT;
+  DELETE FROM chart_review_notes WHERE chart_id::text = ANY (v_ids);
+  DELETE FROM chart_versions WHERE chart_id = ANY (v_ids);
+  DELETE FROM charts WHERE id::text = ANY (v_ids);
+
+  PERFORM set_config('app.retention_purge', 'off', true);
+
+  RETURN jsonb_build_object(
+    'charts', to_jsonb(v_ids),
+    'medications', v_medications,
+    'documents', v_documents,
+    'file_urls', v_files
+  );
+END;
+$$;
+
+-- 9. Hard delete of documents soft-deleted before p_deleted_before
+CREATE OR REPLACE FUNCTION public.retention_purge_documents(
+  p_tenant_id TEXT,
+  p_deleted_before TIMESTAMPTZ,
+  p_limit INTEGER DEFAULT 500
+) RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_purged JSONB;
+BEGIN
+  WITH due AS (
+    SELECT d.id
+    FROM documents d
+    LEFT JOIN charts c ON c.id = d.chart_id
+    WHERE d.tenant_id::text = p_tenant_id
+      AND d.deleted_at < p_deleted_before
+      AND NOT retention_hold_active(p_tenant_id, c.patient_id::text)
+    ORDER BY d.deleted_at
+    LIMIT p_limit
+    FOR UPDATE OF d SKIP LOCKED
+  ), removed AS (
+    DELETE FROM documents d USING due WHERE d.id = due.id
+    RETURNING d.id::text AS id, d.file_url
+  )
+  SELECT jsonb_build_object(
+    'documents', COALESCE(jsonb_agg(id), '[]'::jsonb),
+    'file_urls', COALESCE(jsonb_agg(file_url) FILTER (WHERE file_url IS NOT NULL), '[]'::jsonb)
+  ) INTO v_purged
+  FROM removed;
+
+  RETURN v_purged;
+END;
+$$;
+
+-- 10. Notifications older than p_before for the tenant's users. Those about a
+-- patient under hold (metadata.patient_id) are kept.
+CREATE OR REPLACE FUNCTION public.retention_purge_notifications(p_tenant_id TEXT, p_before TIMESTAMPTZ)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_count INTEGER;
+BEGIN
+  IF retention_hold_active(p_tenant_id) THEN
+    RETURN 0;
+  END IF;
+
+  DELETE FROM notifications n
+  USING users u
+  WHERE u.id::text = n.user_id
+    AND u.tenant_id::text = p_tenant_id
+    AND n.created_at < p_before
+    AND NOT retention_hold_active(p_tenant_id, n.metadata->>'patient_id');
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  RETURN v_count;
+END;
+$$;
+
+-- 11. Audit entries older than p_before, from the start of the tenant's
+-- chain up to the first newer entry (at most p_limit per call). The hash of
+-- the last removed entry is kept on the chain head so verification can start
+-- from it.
+CREATE OR REPLACE FUNCTION public.retention_purge_audit_logs(
+  p_tenant_id TEXT,
+  p_before TIMESTAMPTZ,
+  p_limit INTEGER DEFAULT 10000
+) RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_head audit_chain_heads;
+  v_through BIGINT;
+  v_hash TEXT;
+  v_count INTEGER;
+BEGIN
+  IF EXISTS (SELECT 1 FROM legal_holds WHERE tenant_id = p_tenant_id AND released_at IS NULL) THEN
+    RETURN jsonb_build_object('purged', 0, 'held', true);
+  END IF;
+
+  SELECT * INTO v_head FROM audit_chain_heads WHERE tenant_id = p_tenant_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('purged', 0, 'held', false);
+  END IF;
+
+  SELECT COALESCE(MIN(seq) - 1, v_head.seq) INTO v_through
+  FROM audit_logs
+  WHERE tenant_id = p_tenant_id AND seq > v_head.purged_through_seq AND created_at >= p_before;
+
+  v_through := LEAST(v_through, v_head.purged_through_seq + p_limit);
+  IF v_through <= v_head.purged_through_seq THEN
+    RETURN jsonb_build_object('purged', 0, 'held', false, 'through_seq', v_head.purged_through_seq);
+  END IF;
+
+  SELECT hash INTO v_hash FROM audit_logs WHERE tenant_id = p_tenant_id AND seq = v_through;
+
+  UPDATE audit_chain_heads
+  SET purged_through_seq = v_through, purged_through_hash = v_hash
+  WHERE tenant_id = p_tenant_id;
+
+  PERFORM set_config('app.retention_purge', 'on', true);
+  DELETE FROM audit_logs WHERE tenant_id = p_tenant_id AND seq <= v_through;
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  PERFORM set_config('app.retention_purge', 'off', true);
+
+  RETURN jsonb_build_object('purged', v_count, 'held', false, 'through_seq', v_through);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.retention_delete_archived_charts(TEXT, TIMESTAMPTZ) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.retention_purge_charts(TEXT, TIMESTAMPTZ, INTEGER) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.retention_purge_documents(TEXT, TIMESTAMPTZ, INTEGER) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.retention_purge_notifications(TEXT, TIMESTAMPTZ) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.retention_purge_audit_logs(TEXT, TIMESTAMPTZ, INTEGER) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.retention_delete_archived_charts(TEXT, TIMESTAMPTZ) TO service_role;
+GRANT EXECUTE ON FUNCTION public.retention_purge_charts(TEXT, TIMESTAMPTZ, INTEGER) TO service_role;
+GRANT EXECUTE ON FUNCTION public.retention_purge_documents(TEXT, TIMESTAMPTZ, INTEGER) TO service_role;
+GRANT EXECUTE ON FUNCTION public.retention_purge_notifications(TEXT, TIMESTAMPTZ) TO service_role;
+GRANT EXECUTE ON FUNCTION public.retention_purge_audit_logs(TEXT, TIMESTAMPTZ, INTEGER) TO service_role;
+
+-- 12. Verification starts after the purge point instead of at seq 1
+CREATE OR REPLACE FUNCTION public.verify_audit_chain(p_tenant_id TEXT, p_max_breaks INTEGER DEFAULT 100)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_entry audit_logs;
+  v_head audit_chain_heads;
+  v_expected_seq BIGINT;
+  v_prev_hash TEXT;
+  v_checked BIGINT := 0;
+  v_breaks JSONB := '[]'::jsonb;
+BEGIN
+  SELECT * INTO v_head FROM audit_chain_heads WHERE tenant_id = p_tenant_id;
+  v_expected_seq := COALESCE(v_head.purged_through_seq, 0) + 1;
+  v_prev_hash := COALESCE(v_head.purged_through_hash, repeat('0', 64));
+
+  FOR v_entry IN SELECT * FROM audit_logs WHERE tenant_id = p_tenant_id ORDER BY seq LOOP
+    EXIT WHEN jsonb_array_length(v_breaks) >= p_max_breaks;
+    v_checked := v_checked + 1;
+
+    IF v_entry.seq <> v_expected_seq THEN
+      v_breaks := v_breaks || jsonb_build_object(
+        'seq', v_expected_seq, 'id', NULL, 'problem', 'gap', 'missing', v_entry.seq - v_expected_seq
+      );
+    END IF;
+
+    IF v_entry.prev_hash IS DISTINCT FROM v_prev_hash THEN
+      v_breaks := v_breaks || jsonb_build_object('seq', v_entry.seq, 'id', v_entry.id, 'problem', 'broken_link');
+    END IF;
+
+    IF v_entry.hash IS DISTINCT FROM audit_log_hash(v_entry) THEN
+      v_breaks := v_breaks || jsonb_build_object('seq', v_entry.seq, 'id', v_entry.id, 'problem', 'hash_mismatch');
+    END IF;
+
+    v_expected_seq := v_entry.seq + 1;
+    v_prev_hash := v_entry.hash;
+  END LOOP;
+
+  IF jsonb_array_length(v_breaks) < p_max_breaks
+     AND (COALESCE(v_head.seq, 0) <> v_expected_seq - 1 OR COALESCE(v_head.hash, repeat('0', 64)) <> v_prev_hash) THEN
+    v_breaks := v_breaks || jsonb_build_object(
+      'seq', v_expected_seq - 1, 'id', NULL, 'problem', 'head_mismatch', 'head_seq', COALESCE(v_head.seq, 0)
+    );
+  END IF;
+
+  RETURN jsonb_build_object(
+    'tenant_id', p_tenant_id,
+    'valid', jsonb_array_length(v_breaks) = 0,
+    'entries', v_checked,
+    'head_seq', COALESCE(v_head.seq, 0),
+    'head_hash', v_head.hash,
+    'purged_through_seq', COALESCE(v_head.purged_through_seq, 0),
+    'breaks', v_breaks,
+    'verified_at', NOW()
+  );
+END;
+$$;
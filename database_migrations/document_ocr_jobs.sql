@@ -0,0 +1,103 @@
+-- Migration: Server-side OCR jobs for uploaded documents
+-- Description: Uploads enqueue a job that the API's OCR worker
+-- (server/src/lib/ocrWorker.ts) claims, rasterizes (PDFs), recognizes and
+-- writes back to the document. documents.ocr_status moves pending ->
+-- processing -> completed | failed. Also lets schedulers upload documents
+-- before they are attached to a chart (chart_id NULL).
+
+-- 1. Unassigned uploads
+ALTER TABLE public.documents ALTER COLUMN chart_id DROP NOT NULL;
+
+-- 2. OCR output on the document
+ALTER TABLE public.documents
+  ADD COLUMN IF NOT EXISTS ocr_status TEXT,
+  ADD COLUMN IF NOT EXISTS ocr_text TEXT,
+  ADD COLUMN IF NOT EXISTS ocr_words JSONB,
+  ADD COLUMN IF NOT EXISTS ocr_confidence NUMERIC(5,2),
+  ADD COLUMN IF NOT EXISTS ocr_page_count INTEGER,
+  ADD COLUMN IF NOT EXISTS ocr_error TEXT,
+  ADD COLUMN IF NOT EXISTS ocr_completed_at TIMESTAMPTZ;
+
+ALTER TABLE public.documents DROP CONSTRAINT IF EXISTS documents_ocr_status_check;
+ALTER TABLE public.documents
+  ADD CONSTRAINT documents_ocr_status_check
+  CHECK (ocr_status IS NULL OR ocr_status IN ('pending', 'processing', 'completed', 'failed'));
+
+COMMENT ON COLUMN public.documents.ocr_words IS 'Recognized words: [{ page, text, confidence, bbox: { x0, y0, x1, y1 } }] in page pixels';
+
+-- 3. Job queue
+CREATE TABLE IF NOT EXISTS public.document_ocr_jobs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  document_id TEXT NOT NULL REFERENCES documents(id) ON DELETE CASCADE,
+  tenant_id TEXT NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+  status TEXT NOT NULL DEFAULT 'pending'
+    CHECK (status IN ('pending', 'processing', 'completed', 'failed')),
+  attempts INTEGER NOT NULL DEFAULT 0,
+  max_attempts INTEGER NOT NULL DEFAULT 3,
+  run_after TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  locked_at TIMESTAMPTZ,
+  last_error TEXT,
+  requested_by TEXT REFERENCES users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  completed_at TIMESTAMPTZ
+);
+
+-- At most one live job per document
+CREATE UNIQUE INDEX IF NOT EXISTS idx_document_ocr_jobs_active
+  ON public.document_ocr_jobs (document_id)
+  WHERE status IN ('pending', 'processing');
+
+CREATE INDEX IF NOT EXISTS idx_document_ocr_jobs_queue
+  ON public.document_ocr_jobs (status, run_after);
+
+COMMENT ON TABLE public.document_ocr_jobs IS 'Queue of OCR work for uploaded documents, drained by the API worker';
+
+-- 4. Claim the next runnable job. SKIP LOCKED lets several API instances
+-- drain the queue without double-processing; a job stuck in processing past
+-- the stale window (worker crashed) is picked up again.
+CREATE OR REPLACE FUNCTION public.claim_document_ocr_job(p_stale_after INTERVAL DEFAULT INTERVAL '15 minutes')
+RETURNS SETOF public.document_ocr_jobs
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_job document_ocr_jobs;
+BEGIN
+  SELECT * INTO v_job
+  FROM document_ocr_jobs
+  WHERE (status = 'pending' AND run_after <= NOW())
+     OR (status = 'processing' AND locked_at < NOW() - p_stale_after)
+  ORDER BY run_after, created_at
+  FOR UPDATE SKIP LOCKED
+  LIMIT 1;
+
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  UPDATE document_ocr_jobs
+  SET status = 'processing', attempts = attempts + 1, locked_at = NOW()
+  WHERE id = v_job.id
+  RETURNING * INTO v_job;
+
+  UPDATE documents SET ocr_status = 'processing', ocr_error = NULL WHERE id = v_job.document_id;
+
+  RETURN NEXT v_job;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.claim_document_ocr_job(INTERVAL) FROM PUBLIC, anon, authenticated;
+
+ALTER TABLE public.document_ocr_jobs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their tenant OCR jobs"
+  ON public.document_ocr_jobs
+  FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM users
+      WHERE users.id = auth.uid()::text
+        AND (users.tenant_id = document_ocr_jobs.tenant_id OR users.role = 'super_admin')
+    )
+  );
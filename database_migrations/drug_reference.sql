@@ -0,0 +1,64 @@
+-- Migration: Local drug reference (NDC directory)
+-- Description: A copy of the FDA NDC directory so barcode scans resolve
+-- without calling api.fda.gov. Loaded and refreshed with
+-- `npm run import:ndc -- <drug-ndc.json>` in server/ (see
+-- server/src/scripts/importNdcDataset.ts). NDCs are stored normalized to the
+-- 11-digit 5-4-2 form (packages) and its 9-digit prefix (products).
+
+CREATE TABLE IF NOT EXISTS public.ndc_products (
+  product_ndc TEXT PRIMARY KEY,             -- as published, e.g. 0002-3227
+  ndc9 TEXT NOT NULL,                       -- labeler+product, 5-4 digits
+  brand_name TEXT,
+  generic_name TEXT,
+  labeler_name TEXT,
+  dosage_form TEXT,
+  route TEXT[] NOT NULL DEFAULT '{}',
+  strength TEXT,
+  active_ingredients JSONB NOT NULL DEFAULT '[]'::jsonb,
+  product_type TEXT,
+  marketing_end_date DATE,
+  dataset_version TEXT NOT NULL,
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_ndc_products_ndc9 ON public.ndc_products (ndc9);
+
+CREATE TABLE IF NOT EXISTS public.ndc_packages (
+  ndc11 TEXT PRIMARY KEY,                   -- 5-4-2 digits
+  package_ndc TEXT NOT NULL,                -- as published, e.g. 0002-3227-30
+  product_ndc TEXT NOT NULL REFERENCES ndc_products(product_ndc) ON DELETE CASCADE,
+  description TEXT,
+  dataset_version TEXT NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_ndc_packages_product_ndc ON public.ndc_packages (product_ndc);
+
+CREATE TABLE IF NOT EXISTS public.ndc_dataset_imports (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  dataset_version TEXT NOT NULL,
+  source TEXT,
+  product_count INTEGER NOT NULL,
+  package_count INTEGER NOT NULL,
+  removed_count INTEGER NOT NULL DEFAULT 0,
+  imported_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+COMMENT ON TABLE public.ndc_products IS 'FDA NDC directory products, imported from the openFDA bulk download';
+COMMENT ON TABLE public.ndc_packages IS 'FDA NDC directory packages; ndc11 is what barcodes resolve to';
+
+-- Reference data: readable by any signed-in user, written only by the importer
+ALTER TABLE public.ndc_products ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.ndc_packages ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.ndc_dataset_imports ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Signed-in users can read NDC products"
+  ON public.ndc_products FOR SELECT
+  USING (auth.role() = 'authenticated');
+
+CREATE POLICY "Signed-in users can read NDC packages"
+  ON public.ndc_packages FOR SELECT
+  USING (auth.role() = 'authenticated');
+
+CREATE POLICY "Signed-in users can read NDC imports"
+  ON public.ndc_dataset_imports FOR SELECT
+  USING (auth.role() = 'authenticated');
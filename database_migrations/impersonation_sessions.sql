@@ -0,0 +1,152 @@
+-- Migration: Super-admin impersonation sessions
+-- Description: Support staff act inside one tenant with a short-lived token
+-- minted by the API (server/src/lib/impersonation.ts). The token carries an
+-- `impersonation` claim { sid, tenant_id, mode }. While it is used, RLS limits
+-- PHI tables to that tenant, allows writes only in read_write mode and stops
+-- working as soon as the session is ended or expires. Every audit_logs row
+-- written under it is tagged with the session.
+
+-- 1. Sessions
+CREATE TABLE IF NOT EXISTS public.impersonation_sessions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  actor_user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  tenant_id TEXT NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+  reason TEXT NOT NULL CHECK (length(btrim(reason)) > 0),
+  mode TEXT NOT NULL DEFAULT 'read_only' CHECK (mode IN ('read_only', 'read_write')),
+  started_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  expires_at TIMESTAMPTZ NOT NULL,
+  ended_at TIMESTAMPTZ,
+  ended_reason TEXT CHECK (ended_reason IS NULL OR ended_reason IN ('ended', 'expired')),
+  auth_session_id TEXT, -- the super admin's own session the token was issued from
+  ip_address INET,
+  user_agent TEXT
+);
+
+CREATE INDEX IF NOT EXISTS idx_impersonation_sessions_actor
+  ON public.impersonation_sessions (actor_user_id, started_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_impersonation_sessions_tenant
+  ON public.impersonation_sessions (tenant_id, started_at DESC);
+
+COMMENT ON TABLE public.impersonation_sessions IS 'Time-boxed support access to a tenant by a super admin';
+
+ALTER TABLE public.impersonation_sessions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Super admins can view impersonation sessions"
+  ON public.impersonation_sessions
+  FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM users
+      WHERE users.id = auth.uid()::text AND users.role = 'super_admin'
+    )
+  );
+
+-- 2. Scope check for the current token. Ordinary tokens pass; impersonation
+-- tokens must name a live session for this tenant, and writes need read_write.
+CREATE OR REPLACE FUNCTION public.impersonation_permits(p_tenant_id TEXT, p_write BOOLEAN)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    auth.jwt() -> 'impersonation' IS NULL
+    OR EXISTS (
+      SELECT 1 FROM impersonation_sessions s
+      WHERE s.id::text = auth.jwt() -> 'impersonation' ->> 'sid'
+        AND s.actor_user_id = auth.uid()::text
+        AND s.ended_at IS NULL
+        AND s.expires_at > NOW()
+        AND s.tenant_id = p_tenant_id
+        AND (NOT p_write OR s.mode = 'read_write')
+    );
+$$;
+
+-- 3. Restrictive policies on tenant data
+DO $$
+DECLARE
+  t TEXT;
+BEGIN
+  FOREACH t IN ARRAY ARRAY['patients', 'charts', 'medications', 'documents'] LOOP
+    EXECUTE format('DROP POLICY IF EXISTS "Impersonation scope (read)" ON public.%I', t);
+    EXECUTE format('DROP POLICY IF EXISTS "Impersonation scope (insert)" ON public.%I', t);
+    EXECUTE format('DROP POLICY IF EXISTS "Impersonation scope (update)" ON public.%I', t);
+    EXECUTE format('DROP POLICY IF EXISTS "Impersonation scope (delete)" ON public.%I', t);
+
+    EXECUTE format(
+      'CREATE POLICY "Impersonation scope (read)" ON public.%I AS RESTRICTIVE FOR SELECT TO authenticated
+         USING (public.impersonation_permits(tenant_id::text, false))', t);
+    EXECUTE format(
+      'CREATE POLICY "Impersonation scope (insert)" ON public.%I AS RESTRICTIVE FOR INSERT TO authenticated
+         WITH CHECK (public.impersonation_permits(tenant_id::text, true))', t);
+    EXECUTE format(
+      'CREATE POLICY "Impersonation scope (update)" ON public.%I AS RESTRICTIVE FOR UPDATE TO authenticated
+         USING (public.impersonation_permits(tenant_id::text, true))
+         WITH CHECK (public.impersonation_permits(tenant_id::text, true))', t);
+    EXECUTE format(
+      'CREATE POLICY "Impersonation scope (delete)" ON public.%I AS RESTRICTIVE FOR DELETE TO authenticated
+         USING (public.impersonation_permits(tenant_id::text, true))', t);
+  END LOOP;
+END;
+$$;
+
+-- Users: the tenant's staff plus the super admin's own row
+DROP POLICY IF EXISTS "Impersonation scope (read)" ON public.users;
+CREATE POLICY "Impersonation scope (read)" ON public.users
+  AS RESTRICTIVE FOR SELECT TO authenticated
+  USING (users.id = auth.uid()::text OR public.impersonation_permits(users.tenant_id, false));
+
+DROP POLICY IF EXISTS "Impersonation scope (update)" ON public.users;
+CREATE POLICY "Impersonation scope (update)" ON public.users
+  AS RESTRICTIVE FOR UPDATE TO authenticated
+  USING (public.impersonation_permits(users.tenant_id, true))
+  WITH CHECK (public.impersonation_permits(users.tenant_id, true));
+
+-- 4. Tag audit entries written under an impersonation token
+CREATE OR REPLACE FUNCTION public.tag_impersonated_audit_log()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_claim JSONB := auth.jwt() -> 'impersonation';
+BEGIN
+  IF v_claim IS NOT NULL THEN
+    NEW.metadata := COALESCE(NEW.metadata, '{}'::jsonb) || jsonb_build_object(
+      'impersonation',
+      jsonb_build_object(
+        'session_id', v_claim ->> 'sid',
+        'tenant_id', v_claim ->> 'tenant_id',
+        'mode', v_claim ->> 'mode',
+        'actor_user_id', auth.uid()::text
+      )
+    );
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS tag_impersonated_audit_log ON public.audit_logs;
+CREATE TRIGGER tag_impersonated_audit_log
+  BEFORE INSERT ON public.audit_logs
+  FOR EACH ROW EXECUTE FUNCTION public.tag_impersonated_audit_log();
+
+-- 5. Start and end of each session are audited as tenant events
+ALTER TABLE public.audit_logs DROP CONSTRAINT IF EXISTS audit_logs_action_check;
+
+ALTER TABLE public.audit_logs ADD CONSTRAINT audit_logs_action_check
+  CHECK (action IN (
+    'created',
+    'updated',
+    'deleted',
+    'finalized',
+    'delivered',
+    'returned',
+    'exported',
+    'viewed',
+    'tenant_activated',
+    'access_denied',
+    'impersonation_started',
+    'impersonation_ended'
+  ));
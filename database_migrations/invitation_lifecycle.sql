@@ -0,0 +1,54 @@
+-- Migration: Server-owned invitation lifecycle
+-- Description: Invitations are created, resent and revoked only through
+-- /api/invitations (server/src/lib/invitations.ts), and a sweep in the API
+-- moves pending invitations past expires_at to 'expired'. Clients keep read
+-- access through the existing RLS policies but can no longer write.
+
+ALTER TABLE public.user_invitations
+  ADD COLUMN IF NOT EXISTS last_sent_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS send_count INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS revoked_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS revoked_by TEXT REFERENCES users(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS expired_at TIMESTAMPTZ;
+
+-- One open invitation per email address. Older duplicates are closed first.
+UPDATE public.user_invitations i
+SET status = 'revoked', revoked_at = NOW()
+WHERE i.status = 'pending'
+  AND EXISTS (
+    SELECT 1 FROM public.user_invitations newer
+    WHERE newer.status = 'pending'
+      AND lower(newer.email) = lower(i.email)
+      AND (newer.created_at, newer.id) > (i.created_at, i.id)
+  );
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_user_invitations_pending_email
+  ON public.user_invitations (lower(email))
+  WHERE status = 'pending';
+
+-- Used by the expiry sweep
+CREATE INDEX IF NOT EXISTS idx_user_invitations_pending_expiry
+  ON public.user_invitations (expires_at)
+  WHERE status = 'pending';
+
+-- Replaces protect_invitation_code_hash (activation_codes.sql): every write
+-- now goes through the API
+DROP TRIGGER IF EXISTS protect_invitation_code_hash ON public.user_invitations;
+DROP FUNCTION IF EXISTS public.protect_invitation_code_hash();
+
+CREATE OR REPLACE FUNCTION public.user_invitations_server_only()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF COALESCE(auth.role(), 'service_role') <> 'service_role' THEN
+    RAISE EXCEPTION 'Invitations are managed by the invitations API';
+  END IF;
+  RETURN COALESCE(NEW, OLD);
+END;
+$$;
+
+DROP TRIGGER IF EXISTS user_invitations_server_only ON public.user_invitations;
+CREATE TRIGGER user_invitations_server_only
+  BEFORE INSERT OR UPDATE OR DELETE ON public.user_invitations
+  FOR EACH ROW EXECUTE FUNCTION public.user_invitations_server_only();
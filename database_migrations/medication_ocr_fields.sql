@@ -0,0 +1,15 @@
+-- Migration: Per-field OCR confidence and provenance on medications
+-- Description: The label extractor (src/utils/ocrService.ts) reports a
+-- confidence for each field and the OCR words each value was read from. They
+-- are stored with the scanned medication so the verification screen can show
+-- the real confidence per field and highlight its source region on the
+-- scanned image. NULL for manually entered medications.
+--
+-- Shape: { "image": { "width", "height" } | null,
+--          "fields": { "<name|dosage|frequency|route|prescriber|quantity|refills>":
+--                      { "value", "confidence" (0-100), "words": [{ "text", "confidence", "bbox": { x0, y0, x1, y1 } }] } } }
+
+ALTER TABLE public.medications
+  ADD COLUMN IF NOT EXISTS ocr_fields JSONB;
+
+COMMENT ON COLUMN public.medications.ocr_fields IS 'Per-field OCR confidence and source word boxes (pixels of image.width x image.height)';
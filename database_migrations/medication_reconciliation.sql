@@ -0,0 +1,49 @@
+-- Migration: Medication reconciliation
+-- Description: Records where each medication row was captured from (bottle
+-- scan, PDF import or manual entry) so the API can reconcile the lists against
+-- each other (server/src/lib/medicationReconciliation.ts). Discrepancies are
+-- computed on demand; only the clinician's resolution of each one is stored.
+-- A resolution applies to the exact set of medications it was made against
+-- (fingerprint) and lapses if any of them change.
+
+-- 1. Capture source on medications
+ALTER TABLE public.medications
+  ADD COLUMN IF NOT EXISTS source TEXT NOT NULL DEFAULT 'manual';
+
+ALTER TABLE public.medications DROP CONSTRAINT IF EXISTS medications_source_check;
+ALTER TABLE public.medications
+  ADD CONSTRAINT medications_source_check
+  CHECK (source IN ('bottle_scan', 'pdf_import', 'manual'));
+
+COMMENT ON COLUMN public.medications.source IS 'How the medication was captured: bottle_scan, pdf_import or manual';
+
+-- 2. Resolutions (written by the API with the service role)
+CREATE TABLE IF NOT EXISTS public.medication_discrepancy_resolutions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  chart_id TEXT NOT NULL REFERENCES charts(id) ON DELETE CASCADE,
+  tenant_id TEXT NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+  discrepancy_key TEXT NOT NULL,
+  fingerprint TEXT NOT NULL,
+  note TEXT NOT NULL,
+  resolved_by TEXT REFERENCES users(id) ON DELETE SET NULL,
+  resolved_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CONSTRAINT medication_discrepancy_resolutions_chart_key UNIQUE (chart_id, discrepancy_key)
+);
+
+CREATE INDEX IF NOT EXISTS idx_medication_discrepancy_resolutions_tenant_id
+  ON public.medication_discrepancy_resolutions (tenant_id);
+
+COMMENT ON TABLE public.medication_discrepancy_resolutions IS 'Clinician sign-off on medication reconciliation discrepancies';
+
+ALTER TABLE public.medication_discrepancy_resolutions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their tenant discrepancy resolutions"
+  ON public.medication_discrepancy_resolutions
+  FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM users
+      WHERE users.id = auth.uid()::text
+        AND (users.tenant_id = medication_discrepancy_resolutions.tenant_id OR users.role = 'super_admin')
+    )
+  );
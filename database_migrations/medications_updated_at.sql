@@ -0,0 +1,23 @@
+-- Migration: Track medication updates for offline sync
+-- Description: The clinician app queues medication edits made offline and
+-- replays them on reconnect (src/services/offlineSyncService.ts). Each queued
+-- edit carries the row's updated_at from when it was made; if the server row
+-- has moved on since, the edit is reported as a conflict instead of applied.
+
+ALTER TABLE public.medications
+  ADD COLUMN IF NOT EXISTS updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW();
+
+-- Same helper as notifications_system.sql
+CREATE OR REPLACE FUNCTION update_updated_at_column()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = NOW();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS update_medications_updated_at ON public.medications;
+CREATE TRIGGER update_medications_updated_at
+  BEFORE UPDATE ON public.medications
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
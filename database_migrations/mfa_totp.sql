@@ -0,0 +1,134 @@
+-- Migration: TOTP multi-factor authentication
+-- Description: Authenticator-app factors, single-use recovery codes and the
+-- record of which Supabase sessions have passed their second factor
+-- (server/src/lib/mfa.ts). Agency admins can require MFA for their whole
+-- tenant. Sessions that still owe a second factor are refused by the API and,
+-- through restrictive RLS policies, cannot read PHI tables directly either.
+
+-- 1. Tenant-wide policy
+ALTER TABLE public.tenants
+  ADD COLUMN IF NOT EXISTS require_mfa BOOLEAN NOT NULL DEFAULT false;
+
+-- 2. One authenticator factor per user. The secret is AES-256-GCM encrypted
+-- by the API (MFA_ENCRYPTION_KEY) and never leaves the server after enrollment.
+CREATE TABLE IF NOT EXISTS public.user_mfa_factors (
+  user_id TEXT PRIMARY KEY REFERENCES users(id) ON DELETE CASCADE,
+  secret_encrypted TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'active')),
+  -- Last accepted TOTP time step; codes at or before it are rejected (replay)
+  last_used_step BIGINT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  activated_at TIMESTAMPTZ
+);
+
+COMMENT ON TABLE public.user_mfa_factors IS 'TOTP authenticator factors; pending until the first code is confirmed';
+
+-- 3. Recovery codes, stored as HMAC-SHA256 hashes
+CREATE TABLE IF NOT EXISTS public.user_mfa_recovery_codes (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  code_hash TEXT NOT NULL,
+  used_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_user_mfa_recovery_codes_user
+  ON public.user_mfa_recovery_codes (user_id, code_hash);
+
+-- 4. Sessions that completed their second factor, keyed by the access
+-- token's session_id claim
+CREATE TABLE IF NOT EXISTS public.mfa_verified_sessions (
+  session_id TEXT PRIMARY KEY,
+  user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  method TEXT NOT NULL CHECK (method IN ('totp', 'recovery_code')),
+  verified_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  expires_at TIMESTAMPTZ NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_mfa_verified_sessions_user
+  ON public.mfa_verified_sessions (user_id);
+
+-- Service role only: RLS on, no policies
+ALTER TABLE public.user_mfa_factors ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.user_mfa_recovery_codes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.mfa_verified_sessions ENABLE ROW LEVEL SECURITY;
+
+-- 5. True when the current session has no outstanding second factor
+CREATE OR REPLACE FUNCTION public.mfa_satisfied()
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    NOT (
+      EXISTS (
+        SELECT 1 FROM user_mfa_factors f
+        WHERE f.user_id = auth.uid()::text AND f.status = 'active'
+      )
+      OR EXISTS (
+        SELECT 1 FROM users u JOIN tenants t ON t.id = u.tenant_id
+        WHERE u.id = auth.uid()::text AND t.require_mfa
+      )
+    )
+    OR EXISTS (
+      SELECT 1 FROM mfa_verified_sessions s
+      WHERE s.session_id = auth.jwt() ->> 'session_id'
+        AND s.user_id = auth.uid()::text
+        AND s.expires_at > NOW()
+    );
+$$;
+
+-- 6. PHI tables are out of reach until MFA is satisfied. users stays
+-- readable because sign-in loads the profile before the second factor.
+DROP POLICY IF EXISTS "Require MFA for patients" ON public.patients;
+CREATE POLICY "Require MFA for patients" ON public.patients
+  AS RESTRICTIVE FOR ALL TO authenticated
+  USING (public.mfa_satisfied()) WITH CHECK (public.mfa_satisfied());
+
+DROP POLICY IF EXISTS "Require MFA for charts" ON public.charts;
+CREATE POLICY "Require MFA for charts" ON public.charts
+  AS RESTRICTIVE FOR ALL TO authenticated
+  USING (public.mfa_satisfied()) WITH CHECK (public.mfa_satisfied());
+
+DROP POLICY IF EXISTS "Require MFA for medications" ON public.medications;
+CREATE POLICY "Require MFA for medications" ON public.medications
+  AS RESTRICTIVE FOR ALL TO authenticated
+  USING (public.mfa_satisfied()) WITH CHECK (public.mfa_satisfied());
+
+DROP POLICY IF EXISTS "Require MFA for documents" ON public.documents;
+CREATE POLICY "Require MFA for documents" ON public.documents
+  AS RESTRICTIVE FOR ALL TO authenticated
+  USING (public.mfa_satisfied()) WITH CHECK (public.mfa_satisfied());
+
+-- Snapshots and sign-offs carry the same PHI as the live rows
+DROP POLICY IF EXISTS "Require MFA for chart_versions" ON public.chart_versions;
+CREATE POLICY "Require MFA for chart_versions" ON public.chart_versions
+  AS RESTRICTIVE FOR ALL TO authenticated
+  USING (public.mfa_satisfied()) WITH CHECK (public.mfa_satisfied());
+
+DROP POLICY IF EXISTS "Require MFA for medication_discrepancy_resolutions" ON public.medication_discrepancy_resolutions;
+CREATE POLICY "Require MFA for medication_discrepancy_resolutions" ON public.medication_discrepancy_resolutions
+  AS RESTRICTIVE FOR ALL TO authenticated
+  USING (public.mfa_satisfied()) WITH CHECK (public.mfa_satisfied());
+
+-- 7. users.mfa_enabled mirrors the factor for display; only the API
+-- (service role) may change it
+CREATE OR REPLACE FUNCTION public.protect_users_mfa_enabled()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NEW.mfa_enabled IS DISTINCT FROM OLD.mfa_enabled
+     AND COALESCE(auth.role(), 'service_role') <> 'service_role' THEN
+    RAISE EXCEPTION 'mfa_enabled is managed by the MFA API';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS protect_users_mfa_enabled ON public.users;
+CREATE TRIGGER protect_users_mfa_enabled
+  BEFORE UPDATE ON public.users
+  FOR EACH ROW EXECUTE FUNCTION public.protect_users_mfa_enabled();
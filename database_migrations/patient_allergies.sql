@@ -0,0 +1,86 @@
+-- Migration: Patient allergies
+-- Description: A structured allergy list per patient (allergen, reaction,
+-- severity, source) and clinician overrides of the drug-allergy conflicts
+-- the API finds on a chart (server/src/lib/allergyConflicts.ts). Conflicts
+-- are computed on demand from a bundled ruleset; only overrides are stored.
+-- An override applies to the exact allergy and medications it was made
+-- against (fingerprint) and lapses if any of them change.
+
+-- 1. Allergies (written by the API with the service role)
+CREATE TABLE IF NOT EXISTS public.patient_allergies (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id TEXT NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+  patient_id TEXT NOT NULL REFERENCES patients(id) ON DELETE CASCADE,
+  allergen TEXT NOT NULL,
+  reaction TEXT,
+  severity TEXT NOT NULL DEFAULT 'unknown',
+  source TEXT NOT NULL DEFAULT 'patient_reported',
+  created_by TEXT REFERENCES users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_by TEXT REFERENCES users(id) ON DELETE SET NULL,
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CONSTRAINT patient_allergies_allergen_check CHECK (btrim(allergen) <> ''),
+  CONSTRAINT patient_allergies_severity_check CHECK (severity IN ('mild', 'moderate', 'severe', 'unknown')),
+  CONSTRAINT patient_allergies_source_check
+    CHECK (source IN ('patient_reported', 'caregiver_reported', 'medical_record', 'clinician_observed'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_patient_allergies_patient_id ON public.patient_allergies (patient_id);
+CREATE INDEX IF NOT EXISTS idx_patient_allergies_tenant_id ON public.patient_allergies (tenant_id);
+
+COMMENT ON TABLE public.patient_allergies IS 'Structured allergy list; checked against chart medications by the API';
+
+ALTER TABLE public.patient_allergies ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their tenant patient allergies"
+  ON public.patient_allergies
+  FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM users
+      WHERE users.id = auth.uid()::text
+        AND (users.tenant_id = patient_allergies.tenant_id OR users.role = 'super_admin')
+    )
+  );
+
+-- 2. Overrides of blocking conflicts (written by the API with the service role)
+CREATE TABLE IF NOT EXISTS public.allergy_conflict_overrides (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  chart_id TEXT NOT NULL REFERENCES charts(id) ON DELETE CASCADE,
+  tenant_id TEXT NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+  conflict_key TEXT NOT NULL,
+  fingerprint TEXT NOT NULL,
+  note TEXT NOT NULL,
+  overridden_by TEXT REFERENCES users(id) ON DELETE SET NULL,
+  overridden_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CONSTRAINT allergy_conflict_overrides_chart_key UNIQUE (chart_id, conflict_key)
+);
+
+CREATE INDEX IF NOT EXISTS idx_allergy_conflict_overrides_tenant_id
+  ON public.allergy_conflict_overrides (tenant_id);
+
+COMMENT ON TABLE public.allergy_conflict_overrides IS 'Clinician sign-off on blocking drug-allergy conflicts';
+
+ALTER TABLE public.allergy_conflict_overrides ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their tenant allergy conflict overrides"
+  ON public.allergy_conflict_overrides
+  FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM users
+      WHERE users.id = auth.uid()::text
+        AND (users.tenant_id = allergy_conflict_overrides.tenant_id OR users.role = 'super_admin')
+    )
+  );
+
+-- 3. Like the other PHI tables (mfa_totp.sql), out of reach until MFA is satisfied
+DROP POLICY IF EXISTS "Require MFA for patient_allergies" ON public.patient_allergies;
+CREATE POLICY "Require MFA for patient_allergies" ON public.patient_allergies
+  AS RESTRICTIVE FOR ALL TO authenticated
+  USING (public.mfa_satisfied()) WITH CHECK (public.mfa_satisfied());
+
+DROP POLICY IF EXISTS "Require MFA for allergy_conflict_overrides" ON public.allergy_conflict_overrides;
+CREATE POLICY "Require MFA for allergy_conflict_overrides" ON public.allergy_conflict_overrides
+  AS RESTRICTIVE FOR ALL TO authenticated
+  USING (public.mfa_satisfied()) WITH CHECK (public.mfa_satisfied());
@@ -0,0 +1,160 @@
+-- Migration: Duplicate patient merge
+-- Description: An agency admin can merge a duplicate patient into the record
+-- that survives (server/src/lib/patientMerge.ts). The duplicate's charts, and
+-- with them its documents and medications, move onto the survivor. The
+-- duplicate itself is kept, hidden from clients and pointing at the survivor,
+-- and patient_merges records what moved, so a merge can be undone.
+
+-- 1. Merged patients
+ALTER TABLE public.patients
+  ADD COLUMN IF NOT EXISTS merged_into TEXT REFERENCES patients(id),
+  ADD COLUMN IF NOT EXISTS merged_at TIMESTAMPTZ;
+
+CREATE INDEX IF NOT EXISTS idx_patients_merged_into ON public.patients (merged_into) WHERE merged_into IS NOT NULL;
+
+-- Clients never see merged patients and cannot mark one merged themselves
+DROP POLICY IF EXISTS "Hide merged patients" ON public.patients;
+CREATE POLICY "Hide merged patients" ON public.patients
+  AS RESTRICTIVE FOR ALL TO authenticated
+  USING (merged_into IS NULL) WITH CHECK (merged_into IS NULL);
+
+-- 2. Merge history (service role only: RLS on, no policies)
+CREATE TABLE IF NOT EXISTS public.patient_merges (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id TEXT NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+  survivor_id TEXT NOT NULL REFERENCES patients(id) ON DELETE CASCADE,
+  merged_id TEXT NOT NULL REFERENCES patients(id) ON DELETE CASCADE,
+  chart_ids TEXT[] NOT NULL DEFAULT '{}',
+  document_count INTEGER NOT NULL DEFAULT 0,
+  medication_count INTEGER NOT NULL DEFAULT 0,
+  match_score INTEGER,
+  reason TEXT,
+  merged_by TEXT REFERENCES users(id) ON DELETE SET NULL,
+  merged_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  undone_by TEXT REFERENCES users(id) ON DELETE SET NULL,
+  undone_at TIMESTAMPTZ,
+  CONSTRAINT patient_merges_distinct_check CHECK (survivor_id <> merged_id)
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_patient_merges_active
+  ON public.patient_merges (merged_id) WHERE undone_at IS NULL;
+CREATE INDEX IF NOT EXISTS idx_patient_merges_survivor
+  ON public.patient_merges (survivor_id, merged_at DESC);
+
+ALTER TABLE public.patient_merges ENABLE ROW LEVEL SECURITY;
+
+-- 3. Merge. Both patients are locked first; a duplicate that is already
+-- merged, has patients merged into it, or is on legal hold is refused.
+CREATE OR REPLACE FUNCTION public.merge_patients(
+  p_survivor_id TEXT,
+  p_merged_id TEXT,
+  p_actor_id TEXT,
+  p_match_score INTEGER DEFAULT NULL,
+  p_reason TEXT DEFAULT NULL
+) RETURNS JSONB
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_survivor patients;
+  v_merged patients;
+  v_chart_ids TEXT[];
+  v_merge patient_merges;
+BEGIN
+  -- Lock in id order so two opposite merges cannot deadlock
+  PERFORM 1 FROM patients WHERE id IN (p_survivor_id, p_merged_id) ORDER BY id FOR UPDATE;
+  SELECT * INTO v_survivor FROM patients WHERE id = p_survivor_id;
+  SELECT * INTO v_merged FROM patients WHERE id = p_merged_id;
+
+  IF v_survivor.id IS NULL OR v_merged.id IS NULL OR v_survivor.tenant_id <> v_merged.tenant_id THEN
+    RAISE EXCEPTION 'Both patients must exist in the same tenant' USING ERRCODE = 'LR404';
+  END IF;
+  IF p_survivor_id = p_merged_id
+     OR v_survivor.merged_into IS NOT NULL
+     OR v_merged.merged_into IS NOT NULL
+     OR EXISTS (SELECT 1 FROM patients WHERE merged_into = p_merged_id)
+     OR retention_hold_active(v_merged.tenant_id::text, p_merged_id) THEN
+    RAISE EXCEPTION 'Patient % cannot be merged into %', p_merged_id, p_survivor_id USING ERRCODE = 'LR409';
+  END IF;
+
+  SELECT COALESCE(array_agg(id::text ORDER BY created_at), '{}') INTO v_chart_ids
+  FROM charts WHERE patient_id = p_merged_id;
+
+  INSERT INTO patient_merges (
+    tenant_id, survivor_id, merged_id, chart_ids, document_count, medication_count, match_score, reason, merged_by
+  )
+  VALUES (
+    v_survivor.tenant_id,
+    p_survivor_id,
+    p_merged_id,
+    v_chart_ids,
+    (SELECT COUNT(*) FROM documents WHERE chart_id::text = ANY (v_chart_ids)),
+    (SELECT COUNT(*) FROM medications WHERE chart_id::text = ANY (v_chart_ids)),
+    p_match_score,
+    NULLIF(btrim(p_reason), ''),
+    p_actor_id
+  )
+  RETURNING * INTO v_merge;
+
+  UPDATE charts SET patient_id = p_survivor_id, updated_at = NOW() WHERE id::text = ANY (v_chart_ids);
+  UPDATE patients SET merged_into = p_survivor_id, merged_at = NOW() WHERE id = p_merged_id;
+
+  RETURN to_jsonb(v_merge);
+END;
+$$;
+
+-- 4. Undo. Charts that moved go back unless they have since been purged;
+-- charts created on the survivor after the merge stay where they are.
+CREATE OR REPLACE FUNCTION public.undo_patient_merge(p_merge_id UUID, p_actor_id TEXT)
+RETURNS JSONB
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_merge patient_merges;
+BEGIN
+  SELECT * INTO v_merge FROM patient_merges WHERE id = p_merge_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Merge % not found', p_merge_id USING ERRCODE = 'LR404';
+  END IF;
+  IF v_merge.undone_at IS NOT NULL THEN
+    RAISE EXCEPTION 'Merge % was already undone', p_merge_id USING ERRCODE = 'LR409';
+  END IF;
+
+  UPDATE charts SET patient_id = v_merge.merged_id, updated_at = NOW()
+  WHERE id::text = ANY (v_merge.chart_ids) AND patient_id = v_merge.survivor_id;
+  UPDATE patients SET merged_into = NULL, merged_at = NULL WHERE id = v_merge.merged_id;
+
+  UPDATE patient_merges SET undone_by = p_actor_id, undone_at = NOW()
+  WHERE id = p_merge_id
+  RETURNING * INTO v_merge;
+
+  RETURN to_jsonb(v_merge);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.merge_patients(TEXT, TEXT, TEXT, INTEGER, TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.undo_patient_merge(UUID, TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.merge_patients(TEXT, TEXT, TEXT, INTEGER, TEXT) TO service_role;
+GRANT EXECUTE ON FUNCTION public.undo_patient_merge(UUID, TEXT) TO service_role;
+
+-- 5. Merges are audited as 'merged' and 'unmerged'
+ALTER TABLE public.audit_logs DROP CONSTRAINT IF EXISTS audit_logs_action_check;
+
+ALTER TABLE public.audit_logs ADD CONSTRAINT audit_logs_action_check
+  CHECK (action IN (
+    'created',
+    'updated',
+    'deleted',
+    'finalized',
+    'delivered',
+    'returned',
+    'exported',
+    'viewed',
+    'tenant_activated',
+    'access_denied',
+    'impersonation_started',
+    'impersonation_ended',
+    'sso_login',
+    'purged',
+    'merged',
+    'unmerged'
+  ));
@@ -0,0 +1,252 @@
+-- Migration: Field-level encryption of patient PHI
+-- Description: Patient date of birth, address lines, phone and email, and
+-- scanned medication label images, are encrypted by the API with per-tenant
+-- keys (server/src/lib/phiEncryption.ts). The database only ever sees
+-- ciphertext plus HMAC blind indexes that allow exact name + date of birth
+-- lookups. Existing plaintext rows are encrypted by the API's re-encryption
+-- job, which also moves rows onto a new key after a rotation.
+
+-- 1. Tenant keys. Each version holds a data key (AES-256-GCM) and an index
+-- key (HMAC-SHA256), both sealed with the API's PHI_MASTER_KEY. One version
+-- per tenant is active; after a rotation the previous one is 'retiring' until
+-- no rows use it, then 'retired'. Keys are never deleted: chart versions keep
+-- the ciphertext they were taken with.
+CREATE TABLE IF NOT EXISTS public.tenant_encryption_keys (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id TEXT NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+  version INTEGER NOT NULL,
+  data_key_sealed TEXT NOT NULL,
+  index_key_sealed TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'retiring', 'retired')),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  retired_at TIMESTAMPTZ,
+  UNIQUE (tenant_id, version)
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_tenant_encryption_keys_active
+  ON public.tenant_encryption_keys (tenant_id) WHERE status = 'active';
+
+COMMENT ON TABLE public.tenant_encryption_keys IS 'Versioned per-tenant PHI keys, sealed with the API master key';
+
+-- Service role only: RLS on, no policies
+ALTER TABLE public.tenant_encryption_keys ENABLE ROW LEVEL SECURITY;
+
+-- 2. Encrypted patient columns. The plaintext columns stay for rows the job
+-- has not reached yet and are NULL afterwards. phi_key_version is the key
+-- version the row's ciphertext and blind indexes were made with (NULL: not
+-- encrypted yet).
+ALTER TABLE public.patients
+  ADD COLUMN IF NOT EXISTS date_of_birth_encrypted TEXT,
+  ADD COLUMN IF NOT EXISTS address_line1_encrypted TEXT,
+  ADD COLUMN IF NOT EXISTS address_line2_encrypted TEXT,
+  ADD COLUMN IF NOT EXISTS phone_encrypted TEXT,
+  ADD COLUMN IF NOT EXISTS email_encrypted TEXT,
+  ADD COLUMN IF NOT EXISTS dob_bidx TEXT,
+  ADD COLUMN IF NOT EXISTS identity_bidx TEXT,
+  ADD COLUMN IF NOT EXISTS phi_key_version INTEGER;
+
+ALTER TABLE public.patients ALTER COLUMN date_of_birth DROP NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_patients_dob_bidx ON public.patients (tenant_id, dob_bidx);
+CREATE INDEX IF NOT EXISTS idx_patients_identity_bidx ON public.patients (tenant_id, identity_bidx);
+
+ALTER TABLE public.medications
+  ADD COLUMN IF NOT EXISTS scanned_image_encrypted TEXT,
+  ADD COLUMN IF NOT EXISTS phi_key_version INTEGER;
+
+-- 3. No new plaintext. Clearing a plaintext column (to NULL) is allowed so
+-- the job can encrypt old rows; columns other than PHI and names can still be
+-- written directly.
+CREATE OR REPLACE FUNCTION public.patient_name_key(p_name TEXT)
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT lower(regexp_replace(btrim(normalize(p_name, NFKC)), '\s+', ' ', 'g'));
+$$;
+
+CREATE OR REPLACE FUNCTION public.reject_plaintext_patient_phi()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF (NEW.date_of_birth IS NOT NULL AND (TG_OP = 'INSERT' OR NEW.date_of_birth IS DISTINCT FROM OLD.date_of_birth))
+     OR (NEW.address_line1 IS NOT NULL AND (TG_OP = 'INSERT' OR NEW.address_line1 IS DISTINCT FROM OLD.address_line1))
+     OR (NEW.address_line2 IS NOT NULL AND (TG_OP = 'INSERT' OR NEW.address_line2 IS DISTINCT FROM OLD.address_line2))
+     OR (NEW.phone IS NOT NULL AND (TG_OP = 'INSERT' OR NEW.phone IS DISTINCT FROM OLD.phone))
+     OR (NEW.email IS NOT NULL AND (TG_OP = 'INSERT' OR NEW.email IS DISTINCT FROM OLD.email)) THEN
+    RAISE EXCEPTION 'Patient PHI is encrypted by the API; use POST or PATCH /api/patients';
+  END IF;
+  -- Names are part of identity_bidx, which only the API can compute. Names
+  -- are compared as the API normalizes them (trimmed, spaces collapsed, lower
+  -- case), since changing only the case keeps the same index.
+  IF TG_OP = 'UPDATE' AND OLD.identity_bidx IS NOT NULL
+     AND NEW.identity_bidx IS NOT DISTINCT FROM OLD.identity_bidx
+     AND (public.patient_name_key(NEW.first_name) IS DISTINCT FROM public.patient_name_key(OLD.first_name)
+          OR public.patient_name_key(NEW.last_name) IS DISTINCT FROM public.patient_name_key(OLD.last_name)) THEN
+    RAISE EXCEPTION 'Patient names are indexed by the API; use PATCH /api/patients';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS reject_plaintext_patient_phi ON public.patients;
+CREATE TRIGGER reject_plaintext_patient_phi
+  BEFORE INSERT OR UPDATE ON public.patients
+  FOR EACH ROW EXECUTE FUNCTION public.reject_plaintext_patient_phi();
+
+CREATE OR REPLACE FUNCTION public.reject_plaintext_scanned_image()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NEW.scanned_image IS NOT NULL AND (TG_OP = 'INSERT' OR NEW.scanned_image IS DISTINCT FROM OLD.scanned_image) THEN
+    RAISE EXCEPTION 'Label images are encrypted by the API; use PUT /api/charts/:chartId/medications/:medicationId/image';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS reject_plaintext_scanned_image ON public.medications;
+CREATE TRIGGER reject_plaintext_scanned_image
+  BEFORE INSERT OR UPDATE ON public.medications
+  FOR EACH ROW EXECUTE FUNCTION public.reject_plaintext_scanned_image();
+
+-- Moving an image between keys is not an edit: keep updated_at, which
+-- offline sync compares to detect conflicting edits (medications_updated_at.sql)
+CREATE OR REPLACE FUNCTION public.update_medication_updated_at()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF to_jsonb(NEW) - 'scanned_image' - 'scanned_image_encrypted' - 'phi_key_version' - 'updated_at'
+     = to_jsonb(OLD) - 'scanned_image' - 'scanned_image_encrypted' - 'phi_key_version' - 'updated_at' THEN
+    NEW.updated_at = OLD.updated_at;
+  ELSE
+    NEW.updated_at = NOW();
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS update_medications_updated_at ON public.medications;
+CREATE TRIGGER update_medications_updated_at
+  BEFORE UPDATE ON public.medications
+  FOR EACH ROW EXECUTE FUNCTION public.update_medication_updated_at();
+
+-- 4. Chart versions keep the patient ciphertext and its key version, which
+-- the API decrypts when a version is read, but not the blind indexes or the
+-- encrypted image
+CREATE OR REPLACE FUNCTION public.build_chart_snapshot(p_chart_id TEXT)
+RETURNS JSONB
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT jsonb_build_object(
+    'chart', to_jsonb(c),
+    'patient', (SELECT to_jsonb(p) - 'dob_bidx' - 'identity_bidx' FROM patients p WHERE p.id = c.patient_id),
+    'medications', COALESCE(
+      (SELECT jsonb_agg(to_jsonb(m) - 'scanned_image' - 'scanned_image_encrypted' - 'phi_key_version' ORDER BY m.created_at)
+       FROM medications m WHERE m.chart_id = c.id),
+      '[]'::jsonb
+    ),
+    'review_notes', COALESCE(
+      (SELECT jsonb_agg(to_jsonb(n) ORDER BY n.created_at)
+       FROM chart_review_notes n WHERE n.chart_id = c.id),
+      '[]'::jsonb
+    )
+  )
+  FROM charts c
+  WHERE c.id::text = p_chart_id;
+$$;
+
+-- 5. Rotation: the active version becomes 'retiring' and the new one active,
+-- in one transaction so a tenant never has two active keys or none
+CREATE OR REPLACE FUNCTION public.rotate_tenant_encryption_key(
+  p_tenant_id TEXT,
+  p_data_key_sealed TEXT,
+  p_index_key_sealed TEXT
+)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_version INTEGER;
+BEGIN
+  PERFORM 1 FROM tenants WHERE id = p_tenant_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Tenant % not found', p_tenant_id;
+  END IF;
+
+  UPDATE tenant_encryption_keys SET status = 'retiring'
+  WHERE tenant_id = p_tenant_id AND status = 'active';
+
+  SELECT COALESCE(MAX(version), 0) + 1 INTO v_version
+  FROM tenant_encryption_keys WHERE tenant_id = p_tenant_id;
+
+  INSERT INTO tenant_encryption_keys (tenant_id, version, data_key_sealed, index_key_sealed)
+  VALUES (p_tenant_id, v_version, p_data_key_sealed, p_index_key_sealed);
+
+  RETURN v_version;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.rotate_tenant_encryption_key(TEXT, TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.rotate_tenant_encryption_key(TEXT, TEXT, TEXT) TO service_role;
+
+-- 6. Rows the re-encryption job still has to visit: never encrypted, or
+-- encrypted with a version other than the tenant's active one
+CREATE OR REPLACE FUNCTION public.phi_reencryption_queue(p_limit INTEGER DEFAULT 50)
+RETURNS TABLE (kind TEXT, id TEXT, tenant_id TEXT, phi_key_version INTEGER)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  (SELECT 'patient', p.id::text, p.tenant_id, p.phi_key_version
+   FROM patients p
+   LEFT JOIN tenant_encryption_keys k ON k.tenant_id = p.tenant_id AND k.status = 'active'
+   WHERE p.phi_key_version IS NULL OR k.version IS NULL OR p.phi_key_version <> k.version
+   LIMIT p_limit)
+  UNION ALL
+  (SELECT 'medication', m.id::text, m.tenant_id, m.phi_key_version
+   FROM medications m
+   LEFT JOIN tenant_encryption_keys k ON k.tenant_id = m.tenant_id AND k.status = 'active'
+   WHERE (m.scanned_image IS NOT NULL OR m.scanned_image_encrypted IS NOT NULL)
+     AND (m.phi_key_version IS NULL OR k.version IS NULL OR m.phi_key_version <> k.version)
+   LIMIT p_limit);
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.phi_reencryption_queue(INTEGER) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.phi_reencryption_queue(INTEGER) TO service_role;
+
+-- Per tenant: how many rows are not on the active key yet
+CREATE OR REPLACE FUNCTION public.phi_reencryption_pending(p_tenant_id TEXT)
+RETURNS JSONB
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH active AS (
+    SELECT version FROM tenant_encryption_keys WHERE tenant_id = p_tenant_id AND status = 'active'
+  )
+  SELECT jsonb_build_object(
+    'patients', (
+      SELECT COUNT(*) FROM patients p
+      WHERE p.tenant_id = p_tenant_id
+        AND (p.phi_key_version IS NULL OR p.phi_key_version IS DISTINCT FROM (SELECT version FROM active))
+    ),
+    'medications', (
+      SELECT COUNT(*) FROM medications m
+      WHERE m.tenant_id = p_tenant_id
+        AND (m.scanned_image IS NOT NULL OR m.scanned_image_encrypted IS NOT NULL)
+        AND (m.phi_key_version IS NULL OR m.phi_key_version IS DISTINCT FROM (SELECT version FROM active))
+    )
+  );
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.phi_reencryption_pending(TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.phi_reencryption_pending(TEXT) TO service_role;
@@ -0,0 +1,25 @@
+-- Migration: PHI access logging
+-- Description: Reads of patients, charts, medications and documents through
+-- the API are written to audit_logs as 'viewed' rows carrying
+-- metadata.patient_id (server/src/lib/phiAccess.ts). Documents become an
+-- audited entity type, and an index serves the per-patient "accessed by"
+-- report.
+
+-- 1. Documents are audited entities
+ALTER TABLE public.audit_logs DROP CONSTRAINT IF EXISTS audit_logs_entity_type_check;
+
+ALTER TABLE public.audit_logs ADD CONSTRAINT audit_logs_entity_type_check
+  CHECK (entity_type IN (
+    'tenant',
+    'user',
+    'patient',
+    'chart',
+    'medication',
+    'document',
+    'export'
+  ));
+
+-- 2. "Accessed by" report: a tenant's views of one patient, newest first
+CREATE INDEX IF NOT EXISTS idx_audit_logs_patient_views
+  ON public.audit_logs (tenant_id, (metadata ->> 'patient_id'), created_at DESC)
+  WHERE action = 'viewed';
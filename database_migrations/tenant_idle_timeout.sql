@@ -0,0 +1,27 @@
+-- Migration: Idle timeout per tenant
+-- Description: Minutes of inactivity after which the app signs a user out and
+-- clears PHI cached on the device (src/context/AuthContext.tsx). Part of the
+-- tenant's security settings; only the API (service role) may change it
+-- (PUT /api/tenants/:tenantId/security).
+
+ALTER TABLE public.tenants
+  ADD COLUMN IF NOT EXISTS idle_timeout_minutes INTEGER NOT NULL DEFAULT 15
+    CONSTRAINT tenants_idle_timeout_minutes_check CHECK (idle_timeout_minutes BETWEEN 2 AND 480);
+
+CREATE OR REPLACE FUNCTION public.protect_tenant_idle_timeout()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NEW.idle_timeout_minutes IS DISTINCT FROM OLD.idle_timeout_minutes
+     AND COALESCE(auth.role(), 'service_role') <> 'service_role' THEN
+    RAISE EXCEPTION 'The idle timeout is managed by the tenant security API';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS protect_tenant_idle_timeout ON public.tenants;
+CREATE TRIGGER protect_tenant_idle_timeout
+  BEFORE UPDATE ON public.tenants
+  FOR EACH ROW EXECUTE FUNCTION public.protect_tenant_idle_timeout();
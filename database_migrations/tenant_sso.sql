@@ -0,0 +1,123 @@
+-- Migration: Per-tenant single sign-on
+-- Description: OIDC or SAML settings stored with each tenant, the link
+-- between IdP identities and users, and SSO-only enforcement
+-- (server/src/lib/sso.ts). Users are provisioned just in time on their first
+-- SSO login with a role mapped from their IdP groups. When a tenant enforces
+-- SSO, sessions that did not come through its IdP are refused by the API and,
+-- through restrictive RLS policies, cannot read PHI tables directly either.
+
+-- 1. Tenant settings. sso_config holds the IdP details and group → role
+-- mapping; an OIDC client secret is AES-256-GCM encrypted by the API
+-- (SSO_ENCRYPTION_KEY). Only the API (service role) may change either column.
+ALTER TABLE public.tenants
+  ADD COLUMN IF NOT EXISTS sso_config JSONB,
+  ADD COLUMN IF NOT EXISTS sso_enforced BOOLEAN NOT NULL DEFAULT false;
+
+CREATE OR REPLACE FUNCTION public.protect_tenant_sso()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF (NEW.sso_config IS DISTINCT FROM OLD.sso_config OR NEW.sso_enforced IS DISTINCT FROM OLD.sso_enforced)
+     AND COALESCE(auth.role(), 'service_role') <> 'service_role' THEN
+    RAISE EXCEPTION 'SSO settings are managed by the SSO API';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS protect_tenant_sso ON public.tenants;
+CREATE TRIGGER protect_tenant_sso
+  BEFORE UPDATE ON public.tenants
+  FOR EACH ROW EXECUTE FUNCTION public.protect_tenant_sso();
+
+-- 2. 'sso' once an SSO login has been bound to the session
+ALTER TABLE public.user_sessions
+  ADD COLUMN IF NOT EXISTS auth_method TEXT CHECK (auth_method IN ('sso'));
+
+-- 3. IdP identities (issuer + subject) per user, so a changed email at the
+-- IdP still lands on the same account
+CREATE TABLE IF NOT EXISTS public.user_sso_identities (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  tenant_id TEXT NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+  issuer TEXT NOT NULL,
+  subject TEXT NOT NULL,
+  email TEXT NOT NULL,
+  groups TEXT[] NOT NULL DEFAULT '{}', -- as sent on the last login
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  last_login_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (tenant_id, issuer, subject)
+);
+
+CREATE INDEX IF NOT EXISTS idx_user_sso_identities_user
+  ON public.user_sso_identities (user_id);
+
+COMMENT ON TABLE public.user_sso_identities IS 'IdP subjects linked to users by SSO just-in-time provisioning';
+
+-- Service role only: RLS on, no policies
+ALTER TABLE public.user_sso_identities ENABLE ROW LEVEL SECURITY;
+
+-- 4. True unless the user's tenant enforces SSO and this session did not
+-- come through it. Super admins are exempt, as in the API.
+CREATE OR REPLACE FUNCTION public.sso_satisfied()
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    NOT EXISTS (
+      SELECT 1 FROM users u JOIN tenants t ON t.id = u.tenant_id
+      WHERE u.id = auth.uid()::text AND t.sso_enforced AND u.role <> 'super_admin'
+    )
+    OR EXISTS (
+      SELECT 1 FROM user_sessions s
+      WHERE s.session_id = auth.jwt() ->> 'session_id'
+        AND s.user_id = auth.uid()::text
+        AND s.auth_method = 'sso'
+        AND s.revoked_at IS NULL
+    );
+$$;
+
+-- 5. PHI tables are out of reach for password sessions in SSO-only tenants
+DROP POLICY IF EXISTS "Require SSO for patients" ON public.patients;
+CREATE POLICY "Require SSO for patients" ON public.patients
+  AS RESTRICTIVE FOR ALL TO authenticated
+  USING (public.sso_satisfied()) WITH CHECK (public.sso_satisfied());
+
+DROP POLICY IF EXISTS "Require SSO for charts" ON public.charts;
+CREATE POLICY "Require SSO for charts" ON public.charts
+  AS RESTRICTIVE FOR ALL TO authenticated
+  USING (public.sso_satisfied()) WITH CHECK (public.sso_satisfied());
+
+DROP POLICY IF EXISTS "Require SSO for medications" ON public.medications;
+CREATE POLICY "Require SSO for medications" ON public.medications
+  AS RESTRICTIVE FOR ALL TO authenticated
+  USING (public.sso_satisfied()) WITH CHECK (public.sso_satisfied());
+
+DROP POLICY IF EXISTS "Require SSO for documents" ON public.documents;
+CREATE POLICY "Require SSO for documents" ON public.documents
+  AS RESTRICTIVE FOR ALL TO authenticated
+  USING (public.sso_satisfied()) WITH CHECK (public.sso_satisfied());
+
+-- 6. SSO sign-ins are audited
+ALTER TABLE public.audit_logs DROP CONSTRAINT IF EXISTS audit_logs_action_check;
+
+ALTER TABLE public.audit_logs ADD CONSTRAINT audit_logs_action_check
+  CHECK (action IN (
+    'created',
+    'updated',
+    'deleted',
+    'finalized',
+    'delivered',
+    'returned',
+    'exported',
+    'viewed',
+    'tenant_activated',
+    'access_denied',
+    'impersonation_started',
+    'impersonation_ended',
+    'sso_login'
+  ));
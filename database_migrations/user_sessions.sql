@@ -0,0 +1,62 @@
+-- Migration: Login session tracking and revocation
+-- Description: One row per Supabase auth session, recorded by the API the
+-- first time it sees the session's access token and touched as requests
+-- arrive (server/src/lib/sessions.ts). Revoking a session marks the row,
+-- which makes the API reject its token on the next request, and deletes the
+-- underlying auth.sessions row so its refresh token stops working.
+
+CREATE TABLE IF NOT EXISTS public.user_sessions (
+  session_id TEXT PRIMARY KEY, -- access token session_id claim (auth.sessions.id)
+  user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  tenant_id TEXT REFERENCES tenants(id) ON DELETE CASCADE,
+  device TEXT,
+  user_agent TEXT,
+  ip_address INET,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  last_seen_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  revoked_at TIMESTAMPTZ,
+  revoked_by TEXT REFERENCES users(id) ON DELETE SET NULL,
+  revoked_reason TEXT
+);
+
+CREATE INDEX IF NOT EXISTS idx_user_sessions_user
+  ON public.user_sessions (user_id, last_seen_at DESC);
+
+COMMENT ON TABLE public.user_sessions IS 'Signed-in devices per user; revoked_at set means the token is refused';
+
+-- Service role only: RLS on, no policies
+ALTER TABLE public.user_sessions ENABLE ROW LEVEL SECURITY;
+
+-- Which of a user's sessions still exist in Supabase Auth (signed out or
+-- expired sessions are removed there)
+CREATE OR REPLACE FUNCTION public.live_auth_session_ids(p_user_id TEXT)
+RETURNS SETOF TEXT
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public, auth
+AS $$
+  SELECT s.id::text
+  FROM auth.sessions s
+  WHERE s.user_id::text = p_user_id
+    AND (s.not_after IS NULL OR s.not_after > NOW());
+$$;
+
+-- End the auth session behind a revoked row; refresh tokens cascade
+CREATE OR REPLACE FUNCTION public.delete_auth_sessions(p_session_ids TEXT[])
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, auth
+AS $$
+DECLARE
+  v_count INTEGER;
+BEGIN
+  DELETE FROM auth.sessions WHERE id::text = ANY (p_session_ids);
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  RETURN v_count;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.live_auth_session_ids(TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.delete_auth_sessions(TEXT[]) FROM PUBLIC, anon, authenticated;
@@ -3,10 +3,42 @@ require("dotenv/config");
 const express = require("express");
 const cors = require("cors");
 const { requireAuth } = require("./middleware/auth");
-const { supabaseAdmin, supabaseUserScoped } = require("./lib/supabase");
+const { supabaseAdmin } = require("./lib/supabase");
+const { chartsRouter } = require("./routes/charts");
+const { drugsRouter } = require("./routes/drugs");
+const { documentsRouter } = require("./routes/documents");
+const { mfaRouter } = require("./routes/mfa");
+const { sessionsRouter } = require("./routes/sessions");
+const { impersonationRouter } = require("./routes/impersonation");
+const { invitationsRouter } = require("./routes/invitations");
+const { tenantsRouter } = require("./routes/tenants");
+const { ssoRouter } = require("./routes/sso");
+const { patientsRouter } = require("./routes/patients");
+const { auditRouter } = require("./routes/audit");
+const {
+  ActivationError,
+  assertActivationAttemptAllowed,
+  claimInvitation,
+  completeInvitation,
+  releaseInvitation,
+  claimTenantActivationCode,
+  completeTenantActivationCode,
+  releaseTenantActivationCode,
+} = require("./lib/activationCodes");
+const { startOcrWorker } = require("./lib/ocrWorker");
+const { startInvitationSweeper } = require("./lib/invitations");
+const { startPhiReencryption } = require("./lib/phiEncryption");
+const { startRetentionPurge } = require("./lib/retention");
+const { getMailer } = require("./lib/mailer");
 
 const app = express();
 
+// Behind a load balancer, set TRUST_PROXY (e.g. 1) so req.ip is the client's
+// address; activation attempts are rate-limited per IP.
+if (process.env.TRUST_PROXY) {
+  app.set("trust proxy", Number(process.env.TRUST_PROXY) || process.env.TRUST_PROXY);
+}
+
 // CORS configuration - update with your actual frontend URLs
 const allowedOrigins = [
   "http://localhost:3000",
@@ -83,7 +115,7 @@ app.post("/api/send-email", async (req: any, res: any) => {
 app.get("/api/protected-data", requireAuth, async (req: any, res: any) => {
   const { orgId } = req.params;
 
-  const { data, error } = await supabaseUserScoped
+  const { data, error } = await req.supabase
     .from("protected_table")
     .select("*")
     .eq("org_id", orgId)
@@ -96,6 +128,24 @@ app.get("/api/protected-data", requireAuth, async (req: any, res: any) => {
   res.json({ data });
 });
 
+// Chart lifecycle (status transitions)
+app.use("/api/charts", chartsRouter);
+app.use("/api/drugs", drugsRouter);
+app.use("/api/documents", documentsRouter);
+app.use("/api/mfa", mfaRouter);
+app.use("/api/sessions", sessionsRouter);
+app.use("/api/impersonation", impersonationRouter);
+app.use("/api/invitations", invitationsRouter);
+app.use("/api/tenants", tenantsRouter);
+app.use("/api/sso", ssoRouter);
+app.use("/api/patients", patientsRouter);
+app.use("/api/audit", auditRouter);
+
+function sendActivationError(res: any, error: any) {
+  if (error.retryAfterSeconds) res.set("Retry-After", String(error.retryAfterSeconds));
+  return res.status(error.status).json({ error: error.message, code: error.code });
+}
+
 // User activation endpoint (uses admin API with service role key)
 app.post("/api/activate-user", async (req: any, res: any) => {
   try {
@@ -107,30 +157,21 @@ app.post("/api/activate-user", async (req: any, res: any) => {
         .json({ error: "Missing activation code or password" });
     }
 
-    // Verify the invitation
-    const { data: invitation, error: inviteError } = await supabaseAdmin
-      .from("user_invitations")
-      .select("*")
-      .eq("activation_code", activationCode)
-      .eq("status", "pending")
-      .single();
-
-    if (inviteError || !invitation) {
-      return res
-        .status(400)
-        .json({ error: "Invalid or expired activation code" });
+    // Rate limit, then claim the invitation so a concurrent request with the
+    // same code cannot activate it too
+    let invitation: any;
+    try {
+      assertActivationAttemptAllowed(req.ip, activationCode);
+      invitation = await claimInvitation(String(activationCode));
+    } catch (error: any) {
+      if (error instanceof ActivationError) return sendActivationError(res, error);
+      throw error;
     }
 
-    // Check expiration
-    if (new Date(invitation.expires_at) < new Date()) {
-      await supabaseAdmin
-        .from("user_invitations")
-        .update({ status: "expired" })
-        .eq("id", invitation.id);
-      return res
-        .status(400)
-        .json({ error: "Activation code has expired" });
-    }
+    const failed = async (status: number, body: Record<string, any>) => {
+      await releaseInvitation(invitation.id);
+      return res.status(status).json(body);
+    };
 
     // Create auth user with admin API (auto-confirm email)
     const { data: authData, error: authError } =
@@ -151,7 +192,7 @@ app.post("/api/activate-user", async (req: any, res: any) => {
 
       // Handle rate limiting
       if ((authError as any).status === 429) {
-        return res.status(429).json({
+        return failed(429, {
           error:
             "Rate limit exceeded. Please wait a few minutes before trying again.",
         });
@@ -162,20 +203,18 @@ app.post("/api/activate-user", async (req: any, res: any) => {
         (authError as any).status === 422 ||
         (authError as any).code === "email_exists"
       ) {
-        return res.status(409).json({
+        return failed(409, {
           error: `An account with email ${invitation.email} already exists. Please contact your administrator.`,
         });
       }
 
-      return res.status(500).json({
+      return failed(500, {
         error: `Failed to create account: ${authError.message}`,
       });
     }
 
     if (!authData.user) {
-      return res
-        .status(500)
-        .json({ error: "Failed to create user account" });
+      return failed(500, { error: "Failed to create user account" });
     }
 
     // Create user record in users table
@@ -206,19 +245,13 @@ app.post("/api/activate-user", async (req: any, res: any) => {
       } catch (cleanupError) {
         console.error("Failed to cleanup auth user:", cleanupError);
       }
-      return res.status(500).json({
+      return failed(500, {
         error: `Failed to create user record: ${userError.message}`,
       });
     }
 
     // Mark invitation as activated
-    await supabaseAdmin
-      .from("user_invitations")
-      .update({
-        status: "activated",
-        activated_at: new Date().toISOString(),
-      })
-      .eq("id", invitation.id);
+    await completeInvitation(invitation.id);
 
     res.json({
       success: true,
@@ -256,6 +289,13 @@ app.post("/api/activate-tenant", async (req: any, res: any) => {
       return res.status(400).json({ error: "Missing required fields" });
     }
 
+    try {
+      assertActivationAttemptAllowed(req.ip, activationCode);
+    } catch (error: any) {
+      if (error instanceof ActivationError) return sendActivationError(res, error);
+      throw error;
+    }
+
     // 1. Verify tenant exists and get metadata
     const { data: tenant, error: tenantError } = await supabaseAdmin
       .from("tenants")
@@ -277,17 +317,19 @@ app.post("/api/activate-tenant", async (req: any, res: any) => {
         .json({ error: "BAA must be signed before activation" });
     }
 
-    // 2. Verify activation code
-    const metadata = tenant.metadata || {};
-    if (!metadata.activation_code || metadata.activation_code !== activationCode) {
-      return res.status(400).json({ error: "Invalid activation code" });
+    // 2. Claim the activation code (hashed, single use)
+    let activationId: string;
+    try {
+      activationId = await claimTenantActivationCode(tenant.id, String(activationCode));
+    } catch (error: any) {
+      if (error instanceof ActivationError) return sendActivationError(res, error);
+      throw error;
     }
 
-    if (metadata.activation_used) {
-      return res
-        .status(400)
-        .json({ error: "Activation code has already been used" });
-    }
+    const failed = async (status: number, body: Record<string, any>) => {
+      await releaseTenantActivationCode(activationId);
+      return res.status(status).json(body);
+    };
 
     // 3. Create auth user
     const { data: authData, error: authError } =
@@ -308,7 +350,7 @@ app.post("/api/activate-tenant", async (req: any, res: any) => {
 
       // Handle rate limiting
       if ((authError as any).status === 429) {
-        return res.status(429).json({
+        return failed(429, {
           error:
             "Rate limit exceeded. Please wait a few minutes before trying again.",
         });
@@ -319,20 +361,18 @@ app.post("/api/activate-tenant", async (req: any, res: any) => {
         (authError as any).status === 422 ||
         (authError as any).code === "email_exists"
       ) {
-        return res.status(409).json({
+        return failed(409, {
           error: `An account with email ${email} already exists. Please use a different email or contact support to recover your account.`,
         });
       }
 
-      return res.status(500).json({
+      return failed(500, {
         error: `Failed to create auth user: ${authError.message}`,
       });
     }
 
     if (!authData.user) {
-      return res
-        .status(500)
-        .json({ error: "Failed to create auth user" });
+      return failed(500, { error: "Failed to create auth user" });
     }
 
     // 4. Create user record in users table
@@ -360,22 +400,24 @@ app.post("/api/activate-tenant", async (req: any, res: any) => {
       } catch (cleanupError) {
         console.error("Failed to cleanup auth user:", cleanupError);
       }
-      return res.status(500).json({
+      return failed(500, {
         error: `Failed to create user record: ${userError.message}`,
       });
     }
 
     // 5. Mark activation code as used
-    const updatedMetadata = {
-      ...metadata,
-      activation_used: true,
-      activation_used_at: new Date().toISOString(),
-      activation_used_by: email,
-    };
+    await completeTenantActivationCode(activationId, email);
 
     await supabaseAdmin
       .from("tenants")
-      .update({ metadata: updatedMetadata })
+      .update({
+        metadata: {
+          ...(tenant.metadata || {}),
+          activation_used: true,
+          activation_used_at: new Date().toISOString(),
+          activation_used_by: email,
+        },
+      })
       .eq("id", tenant.id);
 
     // 6. Create audit log
@@ -390,7 +432,7 @@ app.post("/api/activate-tenant", async (req: any, res: any) => {
         admin_email: email,
       },
       metadata: {
-        activation_code_used: activationCode,
+        activation_id: activationId,
       },
     });
 
@@ -413,8 +455,14 @@ app.post("/api/activate-tenant", async (req: any, res: any) => {
 
 app.listen(process.env.PORT || 8080, () => {
   console.log(`Server running on port ${process.env.PORT || 8080}`);
-  console.log("⚠️  Email delivery disabled for HIPAA compliance");
-  console.log(
-    "ℹ️  To enable email: Set up SendGrid with BAA and add SENDGRID_API_KEY"
-  );
+  startOcrWorker();
+  startInvitationSweeper();
+  startPhiReencryption();
+  startRetentionPurge();
+  if (getMailer().name === "console") {
+    console.log("⚠️  Email delivery disabled for HIPAA compliance (MAILER=console)");
+    console.log(
+      "ℹ️  To enable email: Set up SendGrid with BAA, then set MAILER=sendgrid, SENDGRID_API_KEY and MAIL_FROM"
+    );
+  }
 });
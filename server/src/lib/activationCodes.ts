@@ -0,0 +1,293 @@
+import crypto from "crypto";
+import { supabaseAdmin } from "./supabase";
+
+// One-time activation codes for user invitations and tenant admins
+// (database_migrations/activation_codes.sql). Codes are generated here and
+// only their SHA-256 hash is stored; the plaintext goes back to the admin who
+// issued it and nowhere else. Redeeming claims the row with one conditional
+// UPDATE, so concurrent requests with the same code cannot both succeed.
+
+export const ACTIVATION_CODE_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+// A claim left behind by a crashed request stops blocking the code after this
+const CLAIM_TIMEOUT_MS = 5 * 60 * 1000;
+const ATTEMPT_WINDOW_MS = 15 * 60 * 1000;
+const MAX_ATTEMPTS_PER_IP = 10;
+const MAX_ATTEMPTS_PER_CODE = 5;
+
+export type InvitationRole = "clinician" | "scheduler";
+
+export class ActivationError extends Error {
+  status: number;
+  code: string;
+  retryAfterSeconds?: number;
+
+  constructor(message: string, status: number, code: string, retryAfterSeconds?: number) {
+    super(message);
+    this.name = "ActivationError";
+    this.status = status;
+    this.code = code;
+    this.retryAfterSeconds = retryAfterSeconds;
+  }
+}
+
+// ─── Codes ───────────────────────────────────────────────────────
+
+// Uppercase letters and digits only; dashes and case are ignored when redeeming
+const normalizeCode = (code: string) => code.toUpperCase().replace(/[^A-Z0-9]/g, "");
+
+export function hashActivationCode(code: string) {
+  return crypto.createHash("sha256").update(normalizeCode(code)).digest("hex");
+}
+
+// XXXX-XXXX-XXXX-XXXX from an unambiguous alphabet (no 0/O, 1/I/L), ~79 bits
+export function generateActivationCode() {
+  const alphabet = "ABCDEFGHJKMNPQRSTUVWXYZ23456789";
+  const chars = Array.from({ length: 16 }, () => alphabet[crypto.randomInt(alphabet.length)]).join("");
+  return chars.match(/.{4}/g)!.join("-");
+}
+
+// PostgREST filter: not claimed, or claimed by a request that never finished
+export const staleClaimFilter = () =>
+  `claimed_at.is.null,claimed_at.lt.${new Date(Date.now() - CLAIM_TIMEOUT_MS).toISOString()}`;
+
+// ─── Attempt limiting ────────────────────────────────────────────
+
+// In-memory, per API process. Every redemption attempt counts, successful or not.
+const attempts = new Map<string, { count: number; resetAt: number }>();
+
+function hitLimit(key: string, max: number, now: number) {
+  const entry = attempts.get(key);
+  if (!entry || entry.resetAt <= now) {
+    attempts.set(key, { count: 1, resetAt: now + ATTEMPT_WINDOW_MS });
+    return null;
+  }
+  entry.count++;
+  return entry.count > max ? Math.ceil((entry.resetAt - now) / 1000) : null;
+}
+
+// Throws 429 once an IP or a single code has been tried too often
+export function assertActivationAttemptAllowed(ip: string | undefined, code: string) {
+  const now = Date.now();
+  for (const [key, entry] of attempts) {
+    if (entry.resetAt <= now) attempts.delete(key);
+  }
+
+  const retryAfter = Math.max(
+    hitLimit(`ip:${ip || "unknown"}`, MAX_ATTEMPTS_PER_IP, now) || 0,
+    hitLimit(`code:${hashActivationCode(code)}`, MAX_ATTEMPTS_PER_CODE, now) || 0
+  );
+  if (retryAfter) {
+    throw new ActivationError(
+      "Too many activation attempts. Please wait a few minutes before trying again.",
+      429,
+      "too_many_attempts",
+      retryAfter
+    );
+  }
+}
+
+// ─── User invitations ────────────────────────────────────────────
+
+export interface InvitationInput {
+  tenantId: string;
+  createdBy: string;
+  email: string;
+  firstName: string;
+  lastName: string;
+  role: InvitationRole;
+  phoneNumber?: string | null;
+  occupation?: string | null;
+}
+
+export async function createInvitation(input: InvitationInput) {
+  const activationCode = generateActivationCode();
+
+  const { data, error } = await supabaseAdmin
+    .from("user_invitations")
+    .insert({
+      tenant_id: input.tenantId,
+      created_by: input.createdBy,
+      email: input.email,
+      first_name: input.firstName,
+      last_name: input.lastName,
+      role: input.role,
+      phone_number: input.phoneNumber || null,
+      occupation: input.occupation || null,
+      activation_code_hash: hashActivationCode(activationCode),
+      status: "pending",
+      expires_at: new Date(Date.now() + ACTIVATION_CODE_TTL_MS).toISOString(),
+    })
+    .select("*")
+    .single();
+
+  if (error) throw error;
+  return { invitation: data, activationCode };
+}
+
+// New code for a pending or expired invitation; the old code stops working
+export async function reissueInvitationCode(invitationId: string) {
+  const activationCode = generateActivationCode();
+
+  const { data, error } = await supabaseAdmin
+    .from("user_invitations")
+    .update({
+      activation_code_hash: hashActivationCode(activationCode),
+      claimed_at: null,
+      status: "pending",
+      expires_at: new Date(Date.now() + ACTIVATION_CODE_TTL_MS).toISOString(),
+    })
+    .eq("id", invitationId)
+    .in("status", ["pending", "expired"])
+    .select("*")
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!data) {
+    throw new ActivationError("Only pending or expired invitations can be resent", 409, "invitation_closed");
+  }
+  return { invitation: data, activationCode };
+}
+
+// Claim a pending invitation for this request. Release or complete it afterwards.
+export async function claimInvitation(code: string) {
+  const codeHash = hashActivationCode(code);
+
+  const { data: invitation, error } = await supabaseAdmin
+    .from("user_invitations")
+    .update({ claimed_at: new Date().toISOString() })
+    .eq("activation_code_hash", codeHash)
+    .eq("status", "pending")
+    .or(staleClaimFilter())
+    .select("*")
+    .maybeSingle();
+
+  if (error) throw error;
+
+  if (!invitation) {
+    const { data: existing } = await supabaseAdmin
+      .from("user_invitations")
+      .select("status")
+      .eq("activation_code_hash", codeHash)
+      .maybeSingle();
+    if (existing?.status === "activated") {
+      throw new ActivationError("Activation code has already been used", 409, "code_used");
+    }
+    if (existing?.status === "pending") {
+      throw new ActivationError("This code is already being activated", 409, "activation_in_progress");
+    }
+    throw new ActivationError("Invalid or expired activation code", 400, "invalid_code");
+  }
+
+  if (new Date(invitation.expires_at) < new Date()) {
+    await supabaseAdmin
+      .from("user_invitations")
+      .update({ status: "expired", expired_at: new Date().toISOString(), claimed_at: null })
+      .eq("id", invitation.id);
+    throw new ActivationError("Activation code has expired", 400, "code_expired");
+  }
+
+  return invitation;
+}
+
+export async function completeInvitation(invitationId: string) {
+  const { error } = await supabaseAdmin
+    .from("user_invitations")
+    .update({ status: "activated", activated_at: new Date().toISOString() })
+    .eq("id", invitationId);
+  if (error) throw error;
+}
+
+// Give the code back after a failed activation so the user can retry
+export async function releaseInvitation(invitationId: string) {
+  const { error } = await supabaseAdmin
+    .from("user_invitations")
+    .update({ claimed_at: null })
+    .eq("id", invitationId)
+    .eq("status", "pending");
+  if (error) console.error("Failed to release invitation claim:", error);
+}
+
+// ─── Tenant activation ───────────────────────────────────────────
+
+// Issue a tenant's admin activation code, replacing any unused earlier one
+export async function issueTenantActivationCode(tenantId: string, createdBy: string) {
+  const activationCode = generateActivationCode();
+  const now = new Date();
+
+  const { error: revokeError } = await supabaseAdmin
+    .from("tenant_activation_codes")
+    .update({ revoked_at: now.toISOString() })
+    .eq("tenant_id", tenantId)
+    .is("used_at", null)
+    .is("revoked_at", null);
+  if (revokeError) throw revokeError;
+
+  const { data, error } = await supabaseAdmin
+    .from("tenant_activation_codes")
+    .insert({
+      tenant_id: tenantId,
+      code_hash: hashActivationCode(activationCode),
+      created_by: createdBy,
+      expires_at: new Date(now.getTime() + ACTIVATION_CODE_TTL_MS).toISOString(),
+    })
+    .select("id, tenant_id, created_at, expires_at")
+    .single();
+
+  if (error) throw error;
+  return { activation: data, activationCode };
+}
+
+export async function claimTenantActivationCode(tenantId: string, code: string) {
+  const codeHash = hashActivationCode(code);
+  const now = new Date().toISOString();
+
+  const { data: claimed, error } = await supabaseAdmin
+    .from("tenant_activation_codes")
+    .update({ claimed_at: now })
+    .eq("tenant_id", tenantId)
+    .eq("code_hash", codeHash)
+    .is("used_at", null)
+    .is("revoked_at", null)
+    .gt("expires_at", now)
+    .or(staleClaimFilter())
+    .select("id")
+    .maybeSingle();
+
+  if (error) throw error;
+  if (claimed) return claimed.id as string;
+
+  const { data: existing } = await supabaseAdmin
+    .from("tenant_activation_codes")
+    .select("used_at, revoked_at, expires_at")
+    .eq("tenant_id", tenantId)
+    .eq("code_hash", codeHash)
+    .maybeSingle();
+
+  if (existing?.used_at) {
+    throw new ActivationError("Activation code has already been used", 409, "code_used");
+  }
+  if (existing && !existing.revoked_at && new Date(existing.expires_at) < new Date()) {
+    throw new ActivationError("Activation code has expired", 400, "code_expired");
+  }
+  if (existing && !existing.revoked_at) {
+    throw new ActivationError("This code is already being activated", 409, "activation_in_progress");
+  }
+  throw new ActivationError("Invalid activation code", 400, "invalid_code");
+}
+
+export async function completeTenantActivationCode(activationId: string, usedBy: string) {
+  const { error } = await supabaseAdmin
+    .from("tenant_activation_codes")
+    .update({ used_at: new Date().toISOString(), used_by: usedBy })
+    .eq("id", activationId);
+  if (error) throw error;
+}
+
+export async function releaseTenantActivationCode(activationId: string) {
+  const { error } = await supabaseAdmin
+    .from("tenant_activation_codes")
+    .update({ claimed_at: null })
+    .eq("id", activationId)
+    .is("used_at", null);
+  if (error) console.error("Failed to release tenant activation claim:", error);
+}
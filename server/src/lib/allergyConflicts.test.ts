@@ -0,0 +1,50 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { findAllergyConflicts } from "./allergyConflicts";
+import type { CheckableAllergy, CheckableMedication } from "./allergyConflicts";
+
+const allergy = (allergen: string, fields: Partial<CheckableAllergy> = {}): CheckableAllergy => ({
+  id: `allergy-${allergen}`,
+  allergen,
+  reaction: null,
+  severity: "severe",
+  ...fields,
+});
+
+const meds = (...names: string[]): CheckableMedication[] => names.map((drug_name, i) => ({ id: `med-${i}`, drug_name }));
+
+const summary = (allergies: CheckableAllergy[], medications: CheckableMedication[]) =>
+  findAllergyConflicts(allergies, medications).map((c) => [c.level, c.reason, c.drug_name]);
+
+test("a class allergy blocks drugs in the class", () => {
+  assert.deepEqual(summary([allergy("Penicillin")], meds("Amoxicillin 500 mg", "Lisinopril")), [
+    ["blocking", "same_class", "Amoxicillin 500 mg"],
+  ]);
+});
+
+test("mineral salts are checked", () => {
+  assert.deepEqual(summary([allergy("Magnesium sulfate")], meds("Magnesium Sulfate 2 g", "Calcium Citrate")), [
+    ["blocking", "same_drug", "Magnesium Sulfate 2 g"],
+  ]);
+  assert.deepEqual(summary([allergy("Calcium citrate")], meds("Calcium Citrate")), [
+    ["blocking", "same_drug", "Calcium Citrate"],
+  ]);
+});
+
+test("a cation allergy is not dropped", () => {
+  assert.deepEqual(summary([allergy("Potassium")], meds("Potassium Chloride 20 mEq", "Sodium Chloride 0.9%")), [
+    ["blocking", "same_drug", "Potassium Chloride 20 mEq"],
+  ]);
+});
+
+test("potassium chloride and sodium chloride get separate conflicts", () => {
+  const conflicts = findAllergyConflicts(
+    [allergy("Chloride")],
+    meds("Potassium Chloride", "Sodium Chloride")
+  );
+
+  assert.equal(conflicts.length, 2);
+  assert.notEqual(conflicts[0].key, conflicts[1].key);
+  assert.notEqual(conflicts[0].fingerprint, conflicts[1].fingerprint);
+  assert.deepEqual(conflicts.map((c) => c.medication_ids), [["med-0"], ["med-1"]]);
+});
@@ -0,0 +1,263 @@
+import { createHash } from "crypto";
+import { normalizeDrugName } from "./medicationReconciliation";
+import { ALLERGY_CLASSES, ALLERGY_RULES_VERSION } from "./allergyRules";
+import type { AllergyClass } from "./allergyRules";
+
+// Drug-allergy conflict checking. Each allergy on the patient is resolved
+// against the bundled ruleset (allergyRules.ts) to a drug and/or drug class,
+// then every chart medication is checked against it:
+//
+//   same drug                 blocking
+//   same class                blocking (warning when the reaction was mild)
+//   cross-reactive class      warning
+//
+// Allergens the ruleset does not know (foods, latex, rare drugs) still block a
+// medication whose name contains them. Pure: callers load the rows and stored
+// overrides.
+
+export type AllergySeverity = "mild" | "moderate" | "severe" | "unknown";
+
+export const ALLERGY_SEVERITIES: AllergySeverity[] = ["mild", "moderate", "severe", "unknown"];
+
+export type AllergySource = "patient_reported" | "caregiver_reported" | "medical_record" | "clinician_observed";
+
+export const ALLERGY_SOURCES: AllergySource[] = [
+  "patient_reported",
+  "caregiver_reported",
+  "medical_record",
+  "clinician_observed",
+];
+
+export interface CheckableAllergy {
+  id: string;
+  allergen: string;
+  reaction: string | null;
+  severity: AllergySeverity;
+}
+
+export interface CheckableMedication {
+  id: string;
+  drug_name: string | null;
+}
+
+export type ConflictLevel = "blocking" | "warning";
+
+export type ConflictReason = "same_drug" | "same_class" | "cross_reactive";
+
+export interface AllergyConflict {
+  // Stable across reloads as long as the allergy and drug are still there
+  key: string;
+  level: ConflictLevel;
+  reason: ConflictReason;
+  allergy_id: string;
+  allergen: string;
+  drug_name: string;
+  drug_class: string | null;
+  message: string;
+  medication_ids: string[];
+  // Changes whenever the allergy or any involved medication changes, which
+  // voids an override
+  fingerprint: string;
+}
+
+export interface AllergyConflictOverride {
+  conflict_key: string;
+  fingerprint: string;
+  note: string;
+  overridden_by: string | null;
+  overridden_at: string;
+}
+
+export interface AllergyConflictReport {
+  rules_version: string;
+  conflicts: (AllergyConflict & { override: AllergyConflictOverride | null })[];
+  // Blocking conflicts without a current override; finalizing waits on these
+  blocking: number;
+  warnings: number;
+}
+
+interface Resolved {
+  drugs: Set<string>;
+  classes: Set<string>;
+  // Matched through a class alias ("sulfa") rather than a drug
+  byAlias: boolean;
+}
+
+const CLASS_BY_ID = new Map(ALLERGY_CLASSES.map((c) => [c.id, c]));
+
+// Every name the ruleset knows, normalized, pointing at its generic and classes
+const TERMS: { term: string; drug: string | null; classIds: string[] }[] = (() => {
+  const byTerm = new Map<string, { drug: string | null; classIds: Set<string> }>();
+  const add = (raw: string, drug: string | null, classId: string) => {
+    const term = normalizeDrugName(raw);
+    if (!term) return;
+    const entry = byTerm.get(term) || { drug, classIds: new Set<string>() };
+    entry.classIds.add(classId);
+    byTerm.set(term, entry);
+  };
+
+  for (const drugClass of ALLERGY_CLASSES) {
+    for (const [generic, brands] of Object.entries(drugClass.drugs)) {
+      add(generic, generic, drugClass.id);
+      brands.forEach((brand) => add(brand, generic, drugClass.id));
+    }
+    drugClass.aliases.forEach((alias) => add(alias, null, drugClass.id));
+  }
+
+  // Longest first, so "pen vk" wins over "pen"
+  return Array.from(byTerm.entries())
+    .map(([term, { drug, classIds }]) => ({ term, drug, classIds: Array.from(classIds) }))
+    .sort((a, b) => b.term.length - a.term.length);
+})();
+
+const containsPhrase = (text: string, phrase: string) => ` ${text} `.includes(` ${phrase} `);
+
+function resolve(name: string | null | undefined): Resolved & { normalized: string } {
+  const normalized = normalizeDrugName(name);
+  const resolved: Resolved = { drugs: new Set(), classes: new Set(), byAlias: false };
+
+  for (const { term, drug, classIds } of TERMS) {
+    if (!containsPhrase(normalized, term)) continue;
+    if (drug) {
+      resolved.drugs.add(drug);
+      // A generic shared by two classes (celecoxib) belongs to both
+      ALLERGY_CLASSES.filter((c) => drug in c.drugs).forEach((c) => resolved.classes.add(c.id));
+    } else {
+      classIds.forEach((id) => resolved.classes.add(id));
+      resolved.byAlias = true;
+    }
+  }
+
+  return { ...resolved, normalized };
+}
+
+function fingerprintOf(allergy: CheckableAllergy, medications: CheckableMedication[]) {
+  const material = [
+    [allergy.id, normalizeDrugName(allergy.allergen), allergy.severity, allergy.reaction || ""].join("|"),
+    ...medications.map((m) => [m.id, normalizeDrugName(m.drug_name)].join("|")).sort(),
+  ].join("\n");
+  return createHash("sha256").update(material).digest("hex").slice(0, 16);
+}
+
+function describeAllergy(allergy: CheckableAllergy) {
+  const details = [allergy.reaction?.trim(), allergy.severity !== "unknown" ? allergy.severity : null].filter(Boolean);
+  return details.length > 0 ? `${allergy.allergen} (${details.join(", ")})` : allergy.allergen;
+}
+
+const intersect = (a: Set<string>, b: Set<string>) => Array.from(a).filter((value) => b.has(value));
+
+function match(
+  allergy: CheckableAllergy,
+  allergen: ReturnType<typeof resolve>,
+  drug: ReturnType<typeof resolve>,
+  drugName: string
+): Pick<AllergyConflict, "level" | "reason" | "drug_class" | "message"> | null {
+  const recorded = describeAllergy(allergy);
+
+  const sameDrug =
+    intersect(allergen.drugs, drug.drugs).length > 0 ||
+    allergen.normalized === drug.normalized ||
+    // Not in the ruleset: the medication names the allergen itself
+    (allergen.drugs.size === 0 &&
+      allergen.classes.size === 0 &&
+      allergen.normalized.length >= 3 &&
+      containsPhrase(drug.normalized, allergen.normalized));
+  if (sameDrug) {
+    return {
+      level: "blocking",
+      reason: "same_drug",
+      drug_class: null,
+      message: `${drugName} matches the recorded allergy to ${recorded}`,
+    };
+  }
+
+  const [sharedClass] = intersect(allergen.classes, drug.classes).map((id) => CLASS_BY_ID.get(id)!);
+  if (sharedClass) {
+    return {
+      level: allergy.severity === "mild" ? "warning" : "blocking",
+      reason: "same_class",
+      drug_class: sharedClass.id,
+      message: allergen.byAlias
+        ? `${drugName} is one of the ${sharedClass.label}; allergy recorded as ${recorded}`
+        : `${drugName} and ${allergy.allergen} are both ${sharedClass.label}; allergy recorded as ${recorded}`,
+    };
+  }
+
+  for (const classId of allergen.classes) {
+    const source = CLASS_BY_ID.get(classId) as AllergyClass;
+    const cross = (source.crossReactive || []).find((c) => drug.classes.has(c.classId));
+    if (cross) {
+      const target = CLASS_BY_ID.get(cross.classId)!;
+      return {
+        level: "warning",
+        reason: "cross_reactive",
+        drug_class: target.id,
+        message: `${drugName} is one of the ${target.label}, which can cross-react with ${source.label}; allergy recorded as ${recorded}. ${cross.note}`,
+      };
+    }
+  }
+
+  return null;
+}
+
+// One conflict per allergy and drug (copies of a drug on the chart share it).
+// normalizeDrugName only returns "" for a blank name, so every allergy and
+// medication with a name is checked, known to the ruleset or not.
+export function findAllergyConflicts(
+  allergies: CheckableAllergy[],
+  medications: CheckableMedication[]
+): AllergyConflict[] {
+  const groups = new Map<string, CheckableMedication[]>();
+  for (const med of medications) {
+    const name = normalizeDrugName(med.drug_name);
+    // No drug name: nothing to check yet
+    if (!name) continue;
+    groups.set(name, [...(groups.get(name) || []), med]);
+  }
+
+  const conflicts: AllergyConflict[] = [];
+  for (const allergy of allergies) {
+    const allergen = resolve(allergy.allergen);
+    // Blank allergen; the API refuses these
+    if (!allergen.normalized) continue;
+
+    for (const [name, group] of Array.from(groups.entries()).sort(([a], [b]) => a.localeCompare(b))) {
+      const drugName = group[0].drug_name || name;
+      const found = match(allergy, allergen, resolve(name), drugName);
+      if (!found) continue;
+      conflicts.push({
+        key: `${allergy.id}:${name}`,
+        ...found,
+        allergy_id: allergy.id,
+        allergen: allergy.allergen,
+        drug_name: drugName,
+        medication_ids: group.map((m) => m.id),
+        fingerprint: fingerprintOf(allergy, group),
+      });
+    }
+  }
+
+  // Blocking first
+  return conflicts.sort((a, b) => (a.level === b.level ? 0 : a.level === "blocking" ? -1 : 1));
+}
+
+// Attach stored overrides; an override only counts if nothing changed since,
+// and only blocking conflicts need one
+export function buildAllergyConflictReport(
+  allergies: CheckableAllergy[],
+  medications: CheckableMedication[],
+  overrides: AllergyConflictOverride[]
+): AllergyConflictReport {
+  const byKey = new Map(overrides.map((o) => [o.conflict_key, o]));
+  const conflicts = findAllergyConflicts(allergies, medications).map((c) => {
+    const override = byKey.get(c.key);
+    return { ...c, override: override && override.fingerprint === c.fingerprint ? override : null };
+  });
+
+  return {
+    rules_version: ALLERGY_RULES_VERSION,
+    conflicts,
+    blocking: conflicts.filter((c) => c.level === "blocking" && !c.override).length,
+    warnings: conflicts.filter((c) => c.level === "warning").length,
+  };
+}
@@ -0,0 +1,265 @@
+// Bundled drug-allergy ruleset for allergyConflicts.ts: drug classes a
+// reaction is known to carry across, their member drugs (generic names, with
+// common US brand names) and the classes that cross-react with them. Names
+// are compared after normalizeDrugName, so salts and dosage forms are ignored.
+// Kept deliberately small; a drug missing here is still caught when the
+// allergy names it directly.
+
+export const ALLERGY_RULES_VERSION = "2026-10";
+
+export interface CrossReactivity {
+  classId: string;
+  note: string;
+}
+
+export interface AllergyClass {
+  id: string;
+  // Plural, as it reads in a sentence ("both are cephalosporins")
+  label: string;
+  // Words an allergy entry may use for the whole class ("sulfa", "PCN")
+  aliases: string[];
+  // Generic name -> brand names
+  drugs: Record<string, string[]>;
+  // Classes a reaction may carry over to: warned about, never blocking
+  crossReactive?: CrossReactivity[];
+}
+
+export const ALLERGY_CLASSES: AllergyClass[] = [
+  {
+    id: "penicillins",
+    label: "penicillins",
+    aliases: ["penicillin", "penicillins", "pcn", "aminopenicillin", "aminopenicillins"],
+    drugs: {
+      penicillin: ["pen vk", "veetids", "bicillin", "pfizerpen"],
+      amoxicillin: ["amoxil", "moxatag", "augmentin"],
+      ampicillin: ["unasyn", "principen"],
+      dicloxacillin: [],
+      nafcillin: [],
+      oxacillin: [],
+      piperacillin: ["zosyn"],
+    },
+    crossReactive: [
+      { classId: "cephalosporins", note: "About 1-2% of penicillin-allergic patients react to cephalosporins." },
+      { classId: "carbapenems", note: "Fewer than 1% of penicillin-allergic patients react to carbapenems." },
+    ],
+  },
+  {
+    id: "cephalosporins",
+    label: "cephalosporins",
+    aliases: ["cephalosporin", "cephalosporins"],
+    drugs: {
+      cephalexin: ["keflex"],
+      cefadroxil: ["duricef"],
+      cefazolin: ["ancef"],
+      cefaclor: [],
+      cefuroxime: ["ceftin", "zinacef"],
+      cefprozil: [],
+      cefdinir: ["omnicef"],
+      cefpodoxime: [],
+      cefixime: ["suprax"],
+      ceftriaxone: ["rocephin"],
+      cefotaxime: [],
+      ceftazidime: ["fortaz", "tazicef"],
+      cefepime: ["maxipime"],
+      ceftaroline: ["teflaro"],
+    },
+    crossReactive: [
+      { classId: "penicillins", note: "Cephalosporin-allergic patients occasionally react to penicillins." },
+    ],
+  },
+  {
+    id: "carbapenems",
+    label: "carbapenems",
+    aliases: ["carbapenem", "carbapenems"],
+    drugs: {
+      meropenem: ["merrem"],
+      imipenem: ["primaxin"],
+      ertapenem: ["invanz"],
+      doripenem: [],
+    },
+    crossReactive: [
+      { classId: "penicillins", note: "Carbapenem-allergic patients occasionally react to penicillins." },
+    ],
+  },
+  {
+    id: "sulfonamide_antibiotics",
+    label: "sulfonamide antibiotics",
+    aliases: ["sulfa", "sulfas", "sulfa drugs", "sulfonamide", "sulfonamides", "sulfa antibiotics"],
+    drugs: {
+      sulfamethoxazole: ["bactrim", "septra", "smz"],
+      sulfadiazine: [],
+      sulfisoxazole: [],
+      sulfasalazine: ["azulfidine"],
+    },
+    crossReactive: [
+      {
+        classId: "sulfonamide_nonantibiotics",
+        note: "Reactions to non-antibiotic sulfonamides in sulfa-allergic patients are uncommon but reported.",
+      },
+    ],
+  },
+  {
+    id: "sulfonamide_nonantibiotics",
+    label: "non-antibiotic sulfonamides",
+    aliases: [],
+    drugs: {
+      furosemide: ["lasix"],
+      bumetanide: ["bumex"],
+      torsemide: ["demadex"],
+      hydrochlorothiazide: ["microzide"],
+      chlorthalidone: ["thalitone"],
+      acetazolamide: ["diamox"],
+      celecoxib: ["celebrex"],
+      glipizide: ["glucotrol"],
+      glyburide: ["diabeta", "glynase"],
+      glimepiride: ["amaryl"],
+      topiramate: ["topamax"],
+      zonisamide: ["zonegran"],
+    },
+  },
+  {
+    id: "nsaids",
+    label: "NSAIDs",
+    aliases: ["nsaid", "nsaids", "non steroidal anti inflammatory", "anti inflammatories"],
+    drugs: {
+      ibuprofen: ["advil", "motrin"],
+      naproxen: ["aleve", "naprosyn", "anaprox"],
+      diclofenac: ["voltaren", "cataflam"],
+      meloxicam: ["mobic"],
+      indomethacin: ["indocin"],
+      ketorolac: ["toradol"],
+      celecoxib: ["celebrex"],
+      etodolac: [],
+      nabumetone: [],
+      piroxicam: ["feldene"],
+      sulindac: ["clinoril"],
+      oxaprozin: ["daypro"],
+      ketoprofen: [],
+    },
+    crossReactive: [
+      { classId: "salicylates", note: "Patients who react to one NSAID often react to aspirin." },
+    ],
+  },
+  {
+    id: "salicylates",
+    label: "salicylates",
+    aliases: ["salicylate", "salicylates", "asa"],
+    drugs: {
+      aspirin: ["bayer", "ecotrin", "bufferin"],
+      salsalate: [],
+      diflunisal: [],
+    },
+    crossReactive: [
+      { classId: "nsaids", note: "Aspirin-sensitive patients often react to other NSAIDs." },
+    ],
+  },
+  {
+    id: "opioids",
+    label: "opioids",
+    aliases: ["opioid", "opioids", "opiate", "opiates", "narcotic", "narcotics"],
+    drugs: {
+      morphine: ["ms contin", "kadian"],
+      codeine: [],
+      hydrocodone: ["norco", "vicodin", "lortab", "hysingla"],
+      oxycodone: ["oxycontin", "percocet", "roxicodone"],
+      hydromorphone: ["dilaudid"],
+      oxymorphone: ["opana"],
+      fentanyl: ["duragesic"],
+      tramadol: ["ultram"],
+      tapentadol: ["nucynta"],
+      methadone: ["dolophine"],
+      meperidine: ["demerol"],
+      buprenorphine: ["subutex", "butrans", "suboxone"],
+    },
+  },
+  {
+    id: "macrolides",
+    label: "macrolides",
+    aliases: ["macrolide", "macrolides"],
+    drugs: {
+      azithromycin: ["zithromax", "zpak"],
+      clarithromycin: ["biaxin"],
+      erythromycin: ["eryc", "erythrocin"],
+    },
+  },
+  {
+    id: "fluoroquinolones",
+    label: "fluoroquinolones",
+    aliases: ["quinolone", "quinolones", "fluoroquinolone", "fluoroquinolones"],
+    drugs: {
+      ciprofloxacin: ["cipro"],
+      levofloxacin: ["levaquin"],
+      moxifloxacin: ["avelox"],
+      ofloxacin: [],
+    },
+  },
+  {
+    id: "tetracyclines",
+    label: "tetracyclines",
+    aliases: ["tetracyclines"],
+    drugs: {
+      tetracycline: [],
+      doxycycline: ["vibramycin", "doryx"],
+      minocycline: ["minocin", "solodyn"],
+    },
+  },
+  {
+    id: "ace_inhibitors",
+    label: "ACE inhibitors",
+    aliases: ["ace inhibitor", "ace inhibitors", "acei"],
+    drugs: {
+      lisinopril: ["zestril", "prinivil"],
+      enalapril: ["vasotec"],
+      ramipril: ["altace"],
+      benazepril: ["lotensin"],
+      captopril: [],
+      quinapril: ["accupril"],
+      fosinopril: [],
+      perindopril: [],
+      trandolapril: [],
+    },
+    crossReactive: [
+      { classId: "arbs", note: "Angioedema on an ACE inhibitor recurs on ARBs in a small share of patients." },
+    ],
+  },
+  {
+    id: "arbs",
+    label: "angiotensin receptor blockers",
+    aliases: ["arb", "arbs", "angiotensin receptor blocker", "angiotensin receptor blockers"],
+    drugs: {
+      losartan: ["cozaar"],
+      valsartan: ["diovan"],
+      irbesartan: ["avapro"],
+      olmesartan: ["benicar"],
+      candesartan: ["atacand"],
+      telmisartan: ["micardis"],
+    },
+  },
+  {
+    id: "statins",
+    label: "statins",
+    aliases: ["statin", "statins"],
+    drugs: {
+      atorvastatin: ["lipitor"],
+      simvastatin: ["zocor"],
+      rosuvastatin: ["crestor"],
+      pravastatin: ["pravachol"],
+      lovastatin: ["mevacor"],
+      pitavastatin: ["livalo"],
+    },
+  },
+  {
+    id: "aromatic_anticonvulsants",
+    label: "aromatic anticonvulsants",
+    aliases: ["aromatic anticonvulsant", "aromatic anticonvulsants", "aromatic antiepileptics"],
+    drugs: {
+      carbamazepine: ["tegretol"],
+      oxcarbazepine: ["trileptal"],
+      phenytoin: ["dilantin"],
+      fosphenytoin: ["cerebyx"],
+      phenobarbital: [],
+      lamotrigine: ["lamictal"],
+      primidone: ["mysoline"],
+    },
+  },
+];
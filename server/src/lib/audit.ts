@@ -0,0 +1,102 @@
+import { supabaseAdmin } from "./supabase";
+import type { ImpersonationContext } from "./impersonation";
+
+export interface AuditEntry {
+  tenantId: string;
+  // null for entries written by scheduled jobs (e.g. retention purge reports)
+  userId: string | null;
+  entityType: string;
+  entityId: string;
+  action: string;
+  changes?: Record<string, any> | null;
+  metadata?: Record<string, any> | null;
+}
+
+// Minimal request shape we read client details from
+interface RequestLike {
+  ip?: string;
+  headers?: Record<string, string | string[] | undefined>;
+  auth?: { impersonation?: ImpersonationContext | null };
+}
+
+function requestDetails(req?: RequestLike) {
+  if (!req) return { ip_address: null, user_agent: null };
+  const userAgent = req.headers?.["user-agent"];
+  return {
+    ip_address: req.ip || null,
+    user_agent: Array.isArray(userAgent) ? userAgent[0] : userAgent || null,
+  };
+}
+
+// Anything done under an impersonation token is tagged with its session
+function withImpersonation(metadata: Record<string, any> | null, req?: RequestLike) {
+  const impersonation = req?.auth?.impersonation;
+  if (!impersonation) return metadata;
+  return {
+    ...(metadata || {}),
+    impersonation: {
+      session_id: impersonation.sessionId,
+      tenant_id: impersonation.tenantId,
+      mode: impersonation.mode,
+      actor_user_id: impersonation.actorUserId,
+    },
+  };
+}
+
+function auditRow(entry: AuditEntry, req?: RequestLike) {
+  return {
+    tenant_id: entry.tenantId,
+    user_id: entry.userId,
+    entity_type: entry.entityType,
+    entity_id: entry.entityId,
+    action: entry.action,
+    changes: entry.changes || null,
+    metadata: withImpersonation(entry.metadata || null, req),
+    ...requestDetails(req),
+  };
+}
+
+// Write an audit_logs row with the service role. Failures are logged and
+// returned, never thrown, so callers decide whether a missing entry matters.
+export async function writeAuditLog(entry: AuditEntry, req?: RequestLike) {
+  return writeAuditLogs([entry], req);
+}
+
+// Several rows from one request in a single insert (e.g. a list of records read)
+export async function writeAuditLogs(entries: AuditEntry[], req?: RequestLike) {
+  if (entries.length === 0) return { error: null };
+  const { error } = await supabaseAdmin.from("audit_logs").insert(entries.map((entry) => auditRow(entry, req)));
+
+  if (error) {
+    console.error("Audit log write failed:", error);
+  }
+  return { error };
+}
+
+export interface AuditChainBreak {
+  seq: number;
+  id: string | null;
+  problem: "gap" | "broken_link" | "hash_mismatch" | "head_mismatch";
+  missing?: number;
+  head_seq?: number;
+}
+
+export interface AuditChainReport {
+  tenant_id: string;
+  valid: boolean;
+  entries: number;
+  head_seq: number;
+  head_hash: string | null;
+  // Entries up to here were removed under the tenant's retention policy
+  purged_through_seq: number;
+  breaks: AuditChainBreak[];
+  verified_at: string;
+}
+
+// Recompute a tenant's hash chain (database_migrations/audit_log_hash_chain.sql)
+// and report every gap, edited entry or missing tail found.
+export async function verifyAuditChain(tenantId: string): Promise<AuditChainReport> {
+  const { data, error } = await supabaseAdmin.rpc("verify_audit_chain", { p_tenant_id: tenantId });
+  if (error) throw error;
+  return data as AuditChainReport;
+}
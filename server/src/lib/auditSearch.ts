@@ -0,0 +1,189 @@
+import { supabaseAdmin } from "./supabase";
+
+// Audit log search and export (database_migrations/audit_log_search.sql).
+// Callers resolve which tenant may be searched; everything here runs with the
+// service role.
+
+export class AuditQueryError extends Error {
+  status: number;
+  code: string;
+
+  constructor(message: string, code: string, status = 400) {
+    super(message);
+    this.name = "AuditQueryError";
+    this.status = status;
+    this.code = code;
+  }
+}
+
+export interface AuditLogFilters {
+  tenantId?: string; // omitted only for super admins searching every tenant
+  userId?: string;
+  entityType?: string;
+  entityId?: string;
+  // The chart and entries about its medications and documents
+  chartId?: string;
+  actions?: string[];
+  from?: string;
+  to?: string;
+  q?: string;
+}
+
+export const MAX_PAGE_SIZE = 200;
+export const EXPORT_LIMIT = 50000;
+const EXPORT_BATCH = 1000;
+
+const ID_PATTERN = /^[\w-]+$/;
+
+const SELECT = `
+  id, seq, tenant_id, user_id, entity_type, entity_id, action, changes, metadata,
+  ip_address, user_agent, created_at, hash,
+  user:users!audit_logs_user_id_fkey ( first_name, last_name, email, role ),
+  tenant:tenants!audit_logs_tenant_id_fkey ( name )
+`;
+
+function single(value: unknown): string | undefined {
+  if (Array.isArray(value)) value = value[0];
+  if (typeof value !== "string") return undefined;
+  const trimmed = value.trim();
+  return trimmed || undefined;
+}
+
+function isoDate(value: string | undefined, name: string) {
+  if (value && Number.isNaN(Date.parse(value))) {
+    throw new AuditQueryError(`${name} must be an ISO date`, "invalid_date");
+  }
+  return value;
+}
+
+// Read filters from a query string (?user_id=&entity_type=&entity_id=
+// &chart_id=&action=a,b&from=&to=&q=). The tenant is set by the caller.
+export function parseAuditFilters(query: Record<string, unknown>): Omit<AuditLogFilters, "tenantId"> {
+  const chartId = single(query.chart_id);
+  if (chartId && !ID_PATTERN.test(chartId)) {
+    throw new AuditQueryError("chart_id is not a valid id", "invalid_chart_id");
+  }
+
+  const q = single(query.q);
+  if (q && q.length > 200) {
+    throw new AuditQueryError("q must be at most 200 characters", "invalid_query");
+  }
+
+  const action = single(query.action);
+  return {
+    userId: single(query.user_id),
+    entityType: single(query.entity_type),
+    entityId: single(query.entity_id),
+    chartId,
+    actions: action ? action.split(",").map((value) => value.trim()).filter(Boolean) : undefined,
+    from: isoDate(single(query.from), "from"),
+    to: isoDate(single(query.to), "to"),
+    q,
+  };
+}
+
+function applyFilters(query: any, filters: AuditLogFilters) {
+  if (filters.tenantId) query = query.eq("tenant_id", filters.tenantId);
+  if (filters.userId) query = query.eq("user_id", filters.userId);
+  if (filters.entityType) query = query.eq("entity_type", filters.entityType);
+  if (filters.entityId) query = query.eq("entity_id", filters.entityId);
+  if (filters.chartId) {
+    query = query.or(`and(entity_type.eq.chart,entity_id.eq.${filters.chartId}),metadata->>chart_id.eq.${filters.chartId}`);
+  }
+  if (filters.actions?.length) query = query.in("action", filters.actions);
+  if (filters.from) query = query.gte("created_at", filters.from);
+  if (filters.to) query = query.lt("created_at", filters.to);
+  if (filters.q) {
+    // search_text is lower-cased; escape LIKE wildcards typed by the user
+    const term = filters.q.toLowerCase().replace(/[\\%_]/g, (char) => `\\${char}`);
+    query = query.ilike("search_text", `%${term}%`);
+  }
+  return query.order("created_at", { ascending: false }).order("id", { ascending: false });
+}
+
+// One page of matching entries, newest first
+export async function searchAuditLogs(filters: AuditLogFilters, options: { page?: number; pageSize?: number } = {}) {
+  const pageSize = Math.min(Math.max(Math.floor(options.pageSize || 50), 1), MAX_PAGE_SIZE);
+  const page = Math.max(Math.floor(options.page || 1), 1);
+  const offset = (page - 1) * pageSize;
+
+  const { data, error, count } = await applyFilters(
+    supabaseAdmin.from("audit_logs").select(SELECT, { count: "exact" }),
+    filters
+  ).range(offset, offset + pageSize - 1);
+  if (error) throw error;
+
+  const total = count ?? 0;
+  return {
+    logs: data || [],
+    page,
+    page_size: pageSize,
+    total,
+    total_pages: Math.ceil(total / pageSize),
+  };
+}
+
+// Every matching entry for an export, read in batches. Refuses result sets
+// over EXPORT_LIMIT rather than returning a silently truncated file.
+export async function exportAuditLogs(filters: AuditLogFilters) {
+  const { count, error: countError } = await applyFilters(
+    supabaseAdmin.from("audit_logs").select("id", { count: "exact", head: true }),
+    filters
+  );
+  if (countError) throw countError;
+  if ((count ?? 0) > EXPORT_LIMIT) {
+    throw new AuditQueryError(
+      `Export matches ${count} entries; narrow the filters to at most ${EXPORT_LIMIT}`,
+      "export_too_large",
+      413
+    );
+  }
+
+  const rows: any[] = [];
+  for (let offset = 0; offset < (count ?? 0); offset += EXPORT_BATCH) {
+    const { data, error } = await applyFilters(supabaseAdmin.from("audit_logs").select(SELECT), filters).range(
+      offset,
+      offset + EXPORT_BATCH - 1
+    );
+    if (error) throw error;
+    rows.push(...(data || []));
+    if (!data || data.length < EXPORT_BATCH) break;
+  }
+  return rows;
+}
+
+const CSV_COLUMNS: [string, (row: any) => unknown][] = [
+  ["created_at", (row) => row.created_at],
+  ["tenant_id", (row) => row.tenant_id],
+  ["tenant_name", (row) => row.tenant?.name],
+  ["seq", (row) => row.seq],
+  ["id", (row) => row.id],
+  ["user_id", (row) => row.user_id],
+  ["user_name", (row) => (row.user ? `${row.user.first_name || ""} ${row.user.last_name || ""}`.trim() : "")],
+  ["user_email", (row) => row.user?.email],
+  ["user_role", (row) => row.user?.role],
+  ["action", (row) => row.action],
+  ["entity_type", (row) => row.entity_type],
+  ["entity_id", (row) => row.entity_id],
+  ["ip_address", (row) => row.ip_address],
+  ["user_agent", (row) => row.user_agent],
+  ["changes", (row) => row.changes && JSON.stringify(row.changes)],
+  ["metadata", (row) => row.metadata && JSON.stringify(row.metadata)],
+  ["hash", (row) => row.hash],
+];
+
+function csvCell(value: unknown) {
+  if (value === null || value === undefined) return "";
+  let text = String(value);
+  // Keep spreadsheet apps from evaluating cells as formulas
+  if (/^[=+\-@\t\r]/.test(text)) text = `'${text}`;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function auditLogsToCsv(rows: any[]) {
+  const lines = [CSV_COLUMNS.map(([name]) => name).join(",")];
+  for (const row of rows) {
+    lines.push(CSV_COLUMNS.map(([, value]) => csvCell(value(row))).join(","));
+  }
+  return lines.join("\r\n") + "\r\n";
+}
@@ -0,0 +1,93 @@
+// Field-level diff between two chart_versions snapshots
+// (see build_chart_snapshot in database_migrations/chart_versions.sql).
+
+export interface ChartSnapshot {
+  chart: Record<string, any>;
+  patient: Record<string, any> | null;
+  medications: Record<string, any>[];
+  review_notes: Record<string, any>[];
+}
+
+export interface FieldChange {
+  field: string;
+  before: any;
+  after: any;
+}
+
+export interface MedicationChange {
+  id: string;
+  drug_name: string;
+  changes: FieldChange[];
+}
+
+export interface ChartSnapshotDiff {
+  chart: FieldChange[];
+  patient: FieldChange[];
+  medications: {
+    added: Record<string, any>[];
+    removed: Record<string, any>[];
+    changed: MedicationChange[];
+  };
+  review_notes: {
+    added: Record<string, any>[];
+    removed: Record<string, any>[];
+  };
+}
+
+// Bookkeeping columns that change on every write and say nothing about content
+const IGNORED_FIELDS = new Set(["id", "created_at", "updated_at"]);
+
+function isEqual(a: any, b: any): boolean {
+  return JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+}
+
+export function diffRecords(
+  before: Record<string, any> | null | undefined,
+  after: Record<string, any> | null | undefined
+): FieldChange[] {
+  const fields = new Set([...Object.keys(before || {}), ...Object.keys(after || {})]);
+  const changes: FieldChange[] = [];
+
+  for (const field of Array.from(fields).sort()) {
+    if (IGNORED_FIELDS.has(field)) continue;
+    const a = before?.[field] ?? null;
+    const b = after?.[field] ?? null;
+    if (!isEqual(a, b)) changes.push({ field, before: a, after: b });
+  }
+  return changes;
+}
+
+function byId(rows: Record<string, any>[]) {
+  return new Map(rows.map((row) => [String(row.id), row]));
+}
+
+export function diffChartSnapshots(before: ChartSnapshot, after: ChartSnapshot): ChartSnapshotDiff {
+  const beforeMeds = byId(before.medications || []);
+  const afterMeds = byId(after.medications || []);
+  const beforeNotes = byId(before.review_notes || []);
+  const afterNotes = byId(after.review_notes || []);
+
+  const changed: MedicationChange[] = [];
+  for (const [id, med] of afterMeds) {
+    const previous = beforeMeds.get(id);
+    if (!previous) continue;
+    const changes = diffRecords(previous, med);
+    if (changes.length > 0) {
+      changed.push({ id, drug_name: med.drug_name || previous.drug_name, changes });
+    }
+  }
+
+  return {
+    chart: diffRecords(before.chart, after.chart),
+    patient: diffRecords(before.patient, after.patient),
+    medications: {
+      added: Array.from(afterMeds.values()).filter((m) => !beforeMeds.has(String(m.id))),
+      removed: Array.from(beforeMeds.values()).filter((m) => !afterMeds.has(String(m.id))),
+      changed,
+    },
+    review_notes: {
+      added: Array.from(afterNotes.values()).filter((n) => !beforeNotes.has(String(n.id))),
+      removed: Array.from(beforeNotes.values()).filter((n) => !afterNotes.has(String(n.id))),
+    },
+  };
+}
@@ -0,0 +1,38 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { planTransition } from "./chartStateMachine";
+import type { ChartRow, TransitionContext } from "./chartStateMachine";
+
+// Finalized, then sent back and re-verified: approval is the next check
+const chart: ChartRow = {
+  id: "chart-1",
+  tenant_id: "tenant-a",
+  patient_id: "patient-a1",
+  status: "verified_ready",
+  finalized_at: "2026-10-01T00:00:00.000Z",
+  finalized_by: "clinician-1",
+  first_delivered_at: null,
+};
+
+const admin = (ctx: Partial<TransitionContext> = {}): TransitionContext => ({
+  actorId: "admin-1",
+  actorRole: "agency_admin",
+  medications: { total: 2, unverified: 0 },
+  ...ctx,
+});
+
+test("approving waits on unresolved reconciliation discrepancies", () => {
+  const plan = planTransition(chart, "approve", admin({ unresolvedDiscrepancies: 1 }));
+  assert.equal(plan.ok, false);
+  assert.equal(!plan.ok && plan.code, "unresolved_discrepancies");
+});
+
+test("approving waits on blocking allergy conflicts", () => {
+  const plan = planTransition(chart, "approve", admin({ unresolvedDiscrepancies: 0, blockingAllergyConflicts: 1 }));
+  assert.equal(!plan.ok && plan.code, "allergy_conflicts");
+});
+
+test("a reconciled chart can be approved", () => {
+  const plan = planTransition(chart, "approve", admin({ unresolvedDiscrepancies: 0, blockingAllergyConflicts: 0 }));
+  assert.equal(plan.ok && plan.to, "delivered_locked");
+});
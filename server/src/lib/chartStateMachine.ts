@@ -0,0 +1,280 @@
+import type { UserRole } from "../middleware/auth";
+
+// Chart lifecycle state machine. CHART_TRANSITIONS is the single source of
+// truth for which role may move a chart from which status to which; the
+// server is the only writer of charts.status (enforced by a trigger in
+// database_migrations/chart_lifecycle.sql), so every move goes through here.
+
+export type ChartStatus =
+  | "active"
+  | "verified_ready"
+  | "pending_review"
+  | "needs_reverification"
+  | "delivered_locked"
+  | "archived";
+
+export type ChartAction =
+  | "verify"
+  | "finalize"
+  | "approve"
+  | "reject"
+  | "request_changes"
+  | "unlock"
+  | "archive"
+  | "unarchive"
+  | "unassign";
+
+export interface ChartRow {
+  id: string;
+  tenant_id: string;
+  patient_id: string;
+  status: ChartStatus;
+  finalized_at: string | null;
+  finalized_by: string | null;
+  first_delivered_at: string | null;
+}
+
+export interface MedicationVerificationState {
+  total: number;
+  unverified: number;
+}
+
+interface TransitionRule {
+  from: ChartStatus[];
+  to: ChartStatus | "unchanged";
+  roles: UserRole[];
+  requiresNotes?: boolean;
+  requiresAllVerified?: boolean;
+  requiresReconciliation?: boolean;
+  requiresAllergyReview?: boolean;
+}
+
+export const CHART_TRANSITIONS: Record<ChartAction, TransitionRule> = {
+  verify: {
+    from: ["active", "needs_reverification"],
+    to: "verified_ready",
+    roles: ["clinician"],
+    requiresAllVerified: true,
+  },
+  finalize: {
+    from: ["active", "verified_ready", "needs_reverification"],
+    to: "pending_review",
+    roles: ["clinician"],
+    requiresAllVerified: true,
+    requiresReconciliation: true,
+    requiresAllergyReview: true,
+  },
+  approve: {
+    from: ["pending_review", "verified_ready"],
+    to: "delivered_locked",
+    roles: ["agency_admin"],
+    requiresReconciliation: true,
+    requiresAllergyReview: true,
+  },
+  reject: {
+    from: ["pending_review", "verified_ready"],
+    to: "needs_reverification",
+    roles: ["agency_admin"],
+    requiresNotes: true,
+  },
+  request_changes: {
+    from: ["pending_review", "verified_ready"],
+    to: "needs_reverification",
+    roles: ["agency_admin"],
+    requiresNotes: true,
+  },
+  unlock: {
+    from: ["delivered_locked"],
+    to: "active",
+    roles: ["agency_admin", "clinician"],
+  },
+  archive: {
+    from: ["active", "verified_ready", "pending_review", "needs_reverification", "delivered_locked"],
+    to: "archived",
+    roles: ["agency_admin"],
+  },
+  unarchive: {
+    from: ["archived"],
+    to: "active",
+    roles: ["agency_admin"],
+  },
+  unassign: {
+    from: ["active", "needs_reverification"],
+    to: "unchanged",
+    roles: ["scheduler", "agency_admin"],
+  },
+};
+
+export const CHART_ACTIONS = Object.keys(CHART_TRANSITIONS) as ChartAction[];
+
+// Statuses in which medications and documents may not be edited
+export const LOCKED_CHART_STATUSES: ChartStatus[] = ["delivered_locked", "archived"];
+
+export interface TransitionContext {
+  actorId: string;
+  actorRole: UserRole;
+  notes?: string;
+  medications: MedicationVerificationState;
+  // Open medication reconciliation discrepancies (see medicationReconciliation.ts)
+  unresolvedDiscrepancies?: number;
+  // Blocking drug-allergy conflicts nobody has overridden (see allergyConflicts.ts)
+  blockingAllergyConflicts?: number;
+  now?: Date;
+}
+
+export interface TransitionPlan {
+  ok: true;
+  from: ChartStatus;
+  to: ChartStatus;
+  // Columns to write on charts alongside the new status
+  patch: Record<string, any>;
+  // Review note to add in the same transaction, if any
+  note: string | null;
+  clearPatientAssignment: boolean;
+  auditAction: string;
+}
+
+export interface TransitionRejection {
+  ok: false;
+  status: 403 | 409 | 422;
+  code:
+    | "role_not_allowed"
+    | "illegal_transition"
+    | "notes_required"
+    | "unverified_medications"
+    | "unresolved_discrepancies"
+    | "allergy_conflicts"
+    | "not_finalized";
+  error: string;
+}
+
+export function isChartAction(value: unknown): value is ChartAction {
+  return typeof value === "string" && (CHART_ACTIONS as string[]).includes(value);
+}
+
+// Actions the given role may take from the chart's current status
+export function availableActions(status: ChartStatus, role: UserRole): ChartAction[] {
+  return CHART_ACTIONS.filter((action) => {
+    const rule = CHART_TRANSITIONS[action];
+    return rule.from.includes(status) && (rule.roles.includes(role) || role === "super_admin");
+  });
+}
+
+// Decide whether `action` is legal for `chart` and, if so, what to write.
+// Pure: all database reads happen before, all writes after.
+export function planTransition(
+  chart: ChartRow,
+  action: ChartAction,
+  ctx: TransitionContext
+): TransitionPlan | TransitionRejection {
+  const rule = CHART_TRANSITIONS[action];
+  const now = (ctx.now || new Date()).toISOString();
+  const notes = (ctx.notes || "").trim();
+
+  if (!rule.roles.includes(ctx.actorRole) && ctx.actorRole !== "super_admin") {
+    return {
+      ok: false,
+      status: 403,
+      code: "role_not_allowed",
+      error: `Role '${ctx.actorRole}' cannot ${action.replace("_", " ")} charts`,
+    };
+  }
+
+  if (!rule.from.includes(chart.status)) {
+    return {
+      ok: false,
+      status: 409,
+      code: "illegal_transition",
+      error: `Cannot ${action.replace("_", " ")} a chart that is ${chart.status}`,
+    };
+  }
+
+  if (rule.requiresNotes && !notes) {
+    return {
+      ok: false,
+      status: 422,
+      code: "notes_required",
+      error: "Notes are required for this action",
+    };
+  }
+
+  if (rule.requiresAllVerified && ctx.medications.unverified > 0) {
+    return {
+      ok: false,
+      status: 422,
+      code: "unverified_medications",
+      error: `${ctx.medications.unverified} of ${ctx.medications.total} medications still need verification`,
+    };
+  }
+
+  if (rule.requiresReconciliation && (ctx.unresolvedDiscrepancies || 0) > 0) {
+    return {
+      ok: false,
+      status: 422,
+      code: "unresolved_discrepancies",
+      error: `${ctx.unresolvedDiscrepancies} medication reconciliation discrepancies must be resolved first`,
+    };
+  }
+
+  if (rule.requiresAllergyReview && (ctx.blockingAllergyConflicts || 0) > 0) {
+    return {
+      ok: false,
+      status: 422,
+      code: "allergy_conflicts",
+      error: `${ctx.blockingAllergyConflicts} drug-allergy conflicts must be reviewed first`,
+    };
+  }
+
+  const to = rule.to === "unchanged" ? chart.status : rule.to;
+  const plan: TransitionPlan = {
+    ok: true,
+    from: chart.status,
+    to,
+    patch: {},
+    note: notes || null,
+    clearPatientAssignment: false,
+    auditAction: "updated",
+  };
+
+  switch (action) {
+    case "finalize":
+      plan.patch = { finalized_at: now, finalized_by: ctx.actorId, awaiting_clinician_review: false };
+      plan.auditAction = "finalized";
+      break;
+    case "approve":
+      // Keep the clinician's finalized_at/finalized_by; the admin becomes the deliverer
+      if (!chart.finalized_at || !chart.finalized_by) {
+        return {
+          ok: false,
+          status: 422,
+          code: "not_finalized",
+          error: "Chart must be finalized by a clinician before it can be approved",
+        };
+      }
+      plan.patch = {
+        awaiting_clinician_review: false,
+        delivered_by: ctx.actorId,
+        ...(chart.first_delivered_at ? {} : { first_delivered_at: now }),
+      };
+      plan.note = notes || "Chart approved and finalized.";
+      plan.auditAction = "delivered";
+      break;
+    case "reject":
+      plan.patch = { awaiting_clinician_review: true, finalized_at: null, finalized_by: null };
+      plan.auditAction = "returned";
+      break;
+    case "request_changes":
+      plan.patch = { awaiting_clinician_review: true };
+      plan.auditAction = "returned";
+      break;
+    case "unlock":
+      plan.patch = { finalized_at: null, finalized_by: null };
+      break;
+    case "unassign":
+      plan.patch = { awaiting_clinician_review: false };
+      plan.clearPatientAssignment = true;
+      break;
+  }
+
+  return plan;
+}
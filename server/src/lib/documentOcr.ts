@@ -0,0 +1,127 @@
+import path from "path";
+import Tesseract from "tesseract.js";
+import { createCanvas } from "@napi-rs/canvas";
+
+// Text recognition for uploaded documents. One Tesseract worker is shared by
+// every job (starting one costs more than recognizing a page); PDFs are
+// rendered page by page at the same scale the browser scanner uses.
+
+const PDF_RENDER_SCALE = 2;
+// Scanned referral packets rarely exceed this; anything longer is truncated
+const MAX_PDF_PAGES = Number(process.env.OCR_MAX_PDF_PAGES || 30);
+// Glyphs for PDFs that use the 14 standard fonts without embedding them
+const STANDARD_FONT_DATA_URL =
+  path.join(path.dirname(require.resolve("pdfjs-dist/package.json")), "standard_fonts") + path.sep;
+
+export interface OcrWord {
+  page: number;
+  text: string;
+  confidence: number;
+  bbox: { x0: number; y0: number; x1: number; y1: number };
+}
+
+export interface OcrOutput {
+  text: string;
+  // Mean word confidence, 0-100
+  confidence: number;
+  words: OcrWord[];
+  pageCount: number;
+}
+
+let workerPromise: Promise<Tesseract.Worker> | null = null;
+
+function getWorker() {
+  if (!workerPromise) {
+    workerPromise = Tesseract.createWorker("eng", 1, {
+      // Point at a local copy of eng.traineddata to avoid the CDN download
+      ...(process.env.OCR_LANG_PATH ? { langPath: process.env.OCR_LANG_PATH } : {}),
+      ...(process.env.OCR_CACHE_PATH ? { cachePath: process.env.OCR_CACHE_PATH } : {}),
+    }).catch((error) => {
+      workerPromise = null;
+      throw error;
+    });
+  }
+  return workerPromise;
+}
+
+export async function shutdownOcr() {
+  if (!workerPromise) return;
+  const worker = await workerPromise.catch(() => null);
+  workerPromise = null;
+  await worker?.terminate();
+}
+
+export function isOcrSupported(fileType: string | null | undefined) {
+  return !!fileType && (fileType.includes("image") || fileType.includes("pdf"));
+}
+
+// Render each PDF page to a PNG
+export async function rasterizePdf(data: Uint8Array): Promise<Buffer[]> {
+  const pdfjs = await import("pdfjs-dist/legacy/build/pdf.mjs");
+  const pdf = await pdfjs.getDocument({
+    data,
+    isEvalSupported: false,
+    standardFontDataUrl: STANDARD_FONT_DATA_URL,
+  }).promise;
+
+  try {
+    const pageCount = Math.min(pdf.numPages, MAX_PDF_PAGES);
+    const images: Buffer[] = [];
+
+    for (let pageNum = 1; pageNum <= pageCount; pageNum++) {
+      const page = await pdf.getPage(pageNum);
+      const viewport = page.getViewport({ scale: PDF_RENDER_SCALE });
+      const canvas = createCanvas(Math.ceil(viewport.width), Math.ceil(viewport.height));
+
+      await page.render({
+        canvas: canvas as any,
+        canvasContext: canvas.getContext("2d") as any,
+        viewport,
+      }).promise;
+
+      images.push(canvas.toBuffer("image/png"));
+      page.cleanup();
+    }
+
+    return images;
+  } finally {
+    await pdf.destroy();
+  }
+}
+
+export async function recognizeImages(images: Buffer[]): Promise<OcrOutput> {
+  const worker = await getWorker();
+  const texts: string[] = [];
+  const words: OcrWord[] = [];
+
+  for (let i = 0; i < images.length; i++) {
+    const { data } = await worker.recognize(images[i]);
+    texts.push(data.text.trim());
+    for (const word of data.words || []) {
+      if (!word.text.trim()) continue;
+      words.push({
+        page: i + 1,
+        text: word.text,
+        confidence: Math.round(word.confidence * 100) / 100,
+        bbox: word.bbox,
+      });
+    }
+  }
+
+  const confidence = words.length > 0
+    ? Math.round((words.reduce((sum, w) => sum + w.confidence, 0) / words.length) * 100) / 100
+    : 0;
+
+  return {
+    text: texts.join("\n\n"),
+    confidence,
+    words,
+    pageCount: images.length,
+  };
+}
+
+export async function recognizeDocument(data: Uint8Array, fileType: string): Promise<OcrOutput> {
+  const images = fileType.includes("pdf") ? await rasterizePdf(data) : [Buffer.from(data)];
+  if (images.length === 0) throw new Error("Document has no pages");
+  return recognizeImages(images);
+}
@@ -0,0 +1,100 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import type { DrugReferenceSource } from "./drugReference";
+
+// Resolution runs against an in-memory directory. Any network call fails the
+// test, so lookups are shown to work offline.
+
+process.env.SUPABASE_URL = "http://supabase.test";
+process.env.SUPABASE_ANON_KEY = "anon-key";
+process.env.SUPABASE_SERVICE_ROLE_KEY = "service-role-key";
+
+globalThis.fetch = (async (input: any) => {
+  throw new Error(`Unexpected network request: ${String(input)}`);
+}) as typeof fetch;
+
+const PRODUCT = {
+  product_ndc: "0002-3227",
+  ndc9: "000023227",
+  brand_name: "Strattera",
+  generic_name: "Atomoxetine",
+  labeler_name: "Eli Lilly and Company",
+  dosage_form: "CAPSULE",
+  route: ["ORAL"],
+  strength: "10 mg",
+  active_ingredients: [{ name: "ATOMOXETINE HYDROCHLORIDE", strength: "10 mg/1" }],
+};
+
+const PACKAGE = { ndc11: "00002322730", package_ndc: "0002-3227-30", description: "30 CAPSULE in 1 BOTTLE", product: PRODUCT };
+
+// Records what was asked of it
+function stubSource({ packages = [PACKAGE], products = [PRODUCT] } = {}) {
+  const calls: { packages: string[][]; products: string[][] } = { packages: [], products: [] };
+  const source: DrugReferenceSource = {
+    async findPackages(ndc11s) {
+      calls.packages.push(ndc11s);
+      return packages.filter((p) => ndc11s.includes(p.ndc11));
+    },
+    async findProducts(ndc9s) {
+      calls.products.push(ndc9s);
+      return products.filter((p) => ndc9s.includes(p.ndc9));
+    },
+  };
+  return { source, calls };
+}
+
+test("barcode resolution", async (t) => {
+  const { resolveBarcode } = await import("./drugReference");
+
+  await t.test("a UPC-A barcode matches the package in one lookup", async () => {
+    const { source, calls } = stubSource();
+    const match = await resolveBarcode("300023227306", source);
+
+    assert.equal(match?.level, "package");
+    assert.equal(match?.matched, "00002322730");
+    assert.equal(match?.product.package_ndc, "0002-3227-30");
+    assert.equal(match?.product.generic_name, "Atomoxetine");
+    assert.deepEqual(match?.product.route, ["ORAL"]);
+    assert.equal(calls.packages.length, 1);
+    assert.equal(calls.products.length, 0);
+  });
+
+  await t.test("a product-level NDC falls back to the product", async () => {
+    const { source, calls } = stubSource();
+    const match = await resolveBarcode("0002-3227", source);
+
+    assert.equal(match?.level, "product");
+    assert.equal(match?.matched, "000023227");
+    assert.equal(match?.product.package_ndc, null);
+    assert.equal(calls.packages.length, 0);
+  });
+
+  await t.test("an unknown package falls back to its product", async () => {
+    const { source } = stubSource({ packages: [] });
+    const match = await resolveBarcode("00002322799", source);
+
+    assert.equal(match?.level, "product");
+    assert.equal(match?.product.brand_name, "Strattera");
+  });
+
+  await t.test("a code that is not in the directory resolves to null", async () => {
+    const { source } = stubSource();
+    assert.equal(await resolveBarcode("99999999999", source), null);
+  });
+
+  await t.test("an unrecognizable code is never looked up", async () => {
+    const { source, calls } = stubSource();
+    assert.equal(await resolveBarcode("hello", source), null);
+    assert.deepEqual(calls, { packages: [], products: [] });
+  });
+
+  await t.test("directory errors surface to the caller", async () => {
+    const source: DrugReferenceSource = {
+      findPackages: async () => {
+        throw new Error("directory unavailable");
+      },
+      findProducts: async () => [],
+    };
+    await assert.rejects(resolveBarcode("300023227306", source), /directory unavailable/);
+  });
+});
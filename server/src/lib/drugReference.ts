@@ -0,0 +1,96 @@
+import { supabaseAdmin } from "./supabase";
+import { ndc11Candidates, ndc9Candidates } from "./ndc";
+
+// Barcode -> product resolution against the local NDC directory
+// (database_migrations/drug_reference.sql).
+
+export interface DrugProduct {
+  product_ndc: string;
+  package_ndc: string | null;
+  package_description: string | null;
+  brand_name: string | null;
+  generic_name: string | null;
+  labeler_name: string | null;
+  dosage_form: string | null;
+  route: string[];
+  strength: string | null;
+  active_ingredients: { name: string; strength: string }[];
+}
+
+export interface BarcodeMatch {
+  product: DrugProduct;
+  // ndc11 or ndc9 that matched
+  matched: string;
+  level: "package" | "product";
+}
+
+const PRODUCT_COLUMNS =
+  "product_ndc, ndc9, brand_name, generic_name, labeler_name, dosage_form, route, strength, active_ingredients";
+
+// Lookups are injected so resolution can be exercised without a database
+export interface DrugReferenceSource {
+  findPackages(ndc11s: string[]): Promise<{ ndc11: string; package_ndc: string; description: string | null; product: Record<string, any> }[]>;
+  findProducts(ndc9s: string[]): Promise<Record<string, any>[]>;
+}
+
+export const supabaseDrugReference: DrugReferenceSource = {
+  async findPackages(ndc11s) {
+    const { data, error } = await supabaseAdmin
+      .from("ndc_packages")
+      .select(`ndc11, package_ndc, description, product:ndc_products!ndc_packages_product_ndc_fkey (${PRODUCT_COLUMNS})`)
+      .in("ndc11", ndc11s);
+    if (error) throw error;
+    return (data || []) as any[];
+  },
+  async findProducts(ndc9s) {
+    const { data, error } = await supabaseAdmin
+      .from("ndc_products")
+      .select(PRODUCT_COLUMNS)
+      .in("ndc9", ndc9s);
+    if (error) throw error;
+    return data || [];
+  },
+};
+
+function toDrugProduct(row: Record<string, any>, pkg?: { package_ndc: string; description: string | null }): DrugProduct {
+  return {
+    product_ndc: row.product_ndc,
+    package_ndc: pkg?.package_ndc ?? null,
+    package_description: pkg?.description ?? null,
+    brand_name: row.brand_name ?? null,
+    generic_name: row.generic_name ?? null,
+    labeler_name: row.labeler_name ?? null,
+    dosage_form: row.dosage_form ?? null,
+    route: row.route || [],
+    strength: row.strength ?? null,
+    active_ingredients: row.active_ingredients || [],
+  };
+}
+
+// Try package-level matches in candidate order, then fall back to the product
+export async function resolveBarcode(
+  code: string,
+  source: DrugReferenceSource = supabaseDrugReference
+): Promise<BarcodeMatch | null> {
+  const ndc11s = ndc11Candidates(code);
+  if (ndc11s.length > 0) {
+    const packages = await source.findPackages(ndc11s);
+    for (const ndc11 of ndc11s) {
+      const pkg = packages.find((p) => p.ndc11 === ndc11);
+      if (pkg?.product) {
+        return { product: toDrugProduct(pkg.product, pkg), matched: ndc11, level: "package" };
+      }
+    }
+  }
+
+  const ndc9s = ndc9Candidates(code);
+  if (ndc9s.length > 0) {
+    const products = await source.findProducts(ndc9s);
+    for (const ndc9 of ndc9s) {
+      const product = products.find((p) => p.ndc9 === ndc9);
+      if (product) return { product: toDrugProduct(product), matched: ndc9, level: "product" };
+    }
+  }
+
+  return null;
+}
@@ -0,0 +1,159 @@
+import jwt from "jsonwebtoken";
+import { supabaseAdmin } from "./supabase";
+
+// Super-admin impersonation (database_migrations/impersonation_sessions.sql).
+// The API mints a Supabase-compatible access token for the super admin with
+// an `impersonation` claim. requireAuth and RLS both scope that token to the
+// tenant, refuse writes unless the session is read_write, and stop honouring
+// it once the session is ended or past expires_at.
+
+const DEFAULT_MINUTES = 30;
+const MAX_MINUTES = Number(process.env.IMPERSONATION_MAX_MINUTES || 60);
+
+export type ImpersonationMode = "read_only" | "read_write";
+
+export interface ImpersonationClaim {
+  sid: string;
+  tenant_id: string;
+  mode: ImpersonationMode;
+}
+
+export interface ImpersonationSession {
+  id: string;
+  actor_user_id: string;
+  tenant_id: string;
+  reason: string;
+  mode: ImpersonationMode;
+  started_at: string;
+  expires_at: string;
+  ended_at: string | null;
+  ended_reason: "ended" | "expired" | null;
+}
+
+// What requireAuth attaches to req.auth while a session is in use
+export interface ImpersonationContext {
+  sessionId: string;
+  actorUserId: string;
+  tenantId: string;
+  mode: ImpersonationMode;
+  reason: string;
+}
+
+export class ImpersonationError extends Error {
+  status: number;
+  code: string;
+
+  constructor(message: string, status: number, code: string) {
+    super(message);
+    this.name = "ImpersonationError";
+    this.status = status;
+    this.code = code;
+  }
+}
+
+const SESSION_COLUMNS = "id, actor_user_id, tenant_id, reason, mode, started_at, expires_at, ended_at, ended_reason";
+
+export const isSessionLive = (session: Pick<ImpersonationSession, "ended_at" | "expires_at">) =>
+  !session.ended_at && new Date(session.expires_at).getTime() > Date.now();
+
+export async function startImpersonation(input: {
+  actor: { userId: string; email: string; sessionId: string | null };
+  tenantId: string;
+  reason: string;
+  mode?: ImpersonationMode;
+  minutes?: number;
+  client: { ip_address: string | null; user_agent: string | null };
+}) {
+  const reason = (input.reason || "").trim();
+  if (!reason) throw new ImpersonationError("A reason is required", 422, "reason_required");
+
+  const mode: ImpersonationMode = input.mode === "read_write" ? "read_write" : "read_only";
+  const minutes = Math.min(Math.max(Math.round(input.minutes || DEFAULT_MINUTES), 1), MAX_MINUTES);
+
+  const { data: tenant, error: tenantError } = await supabaseAdmin
+    .from("tenants")
+    .select("id, name")
+    .eq("id", input.tenantId)
+    .maybeSingle();
+  if (tenantError) throw tenantError;
+  if (!tenant) throw new ImpersonationError("Tenant not found", 404, "not_found");
+
+  const expiresAt = new Date(Date.now() + minutes * 60 * 1000);
+  const { data: session, error } = await supabaseAdmin
+    .from("impersonation_sessions")
+    .insert({
+      actor_user_id: input.actor.userId,
+      tenant_id: tenant.id,
+      reason,
+      mode,
+      expires_at: expiresAt.toISOString(),
+      auth_session_id: input.actor.sessionId,
+      ...input.client,
+    })
+    .select(SESSION_COLUMNS)
+    .single();
+  if (error) throw error;
+
+  const claim: ImpersonationClaim = { sid: session.id, tenant_id: tenant.id, mode };
+  const token = jwt.sign(
+    {
+      sub: input.actor.userId,
+      email: input.actor.email,
+      role: "authenticated",
+      aud: "authenticated",
+      // Keeps the super admin's own session revocation and MFA state in force
+      session_id: input.actor.sessionId || undefined,
+      impersonation: claim,
+      exp: Math.floor(expiresAt.getTime() / 1000),
+    },
+    process.env.SUPABASE_JWT_SECRET as string,
+    { algorithm: "HS256" }
+  );
+
+  return { session: session as ImpersonationSession, tenant, token };
+}
+
+export async function loadImpersonationSession(id: string): Promise<ImpersonationSession | null> {
+  const { data, error } = await supabaseAdmin
+    .from("impersonation_sessions")
+    .select(SESSION_COLUMNS)
+    .eq("id", id)
+    .maybeSingle();
+  if (error) throw error;
+  return data as ImpersonationSession | null;
+}
+
+// End a session early, or record that it ran out. Returns null if it had already ended.
+export async function endImpersonation(id: string, reason: "ended" | "expired") {
+  const session = await loadImpersonationSession(id);
+  if (!session) throw new ImpersonationError("Impersonation session not found", 404, "not_found");
+  if (session.ended_at) return null;
+
+  const expired = new Date(session.expires_at).getTime() <= Date.now();
+  const { data, error } = await supabaseAdmin
+    .from("impersonation_sessions")
+    .update({
+      ended_at: expired ? session.expires_at : new Date().toISOString(),
+      ended_reason: expired ? "expired" : reason,
+    })
+    .eq("id", id)
+    .is("ended_at", null)
+    .select(SESSION_COLUMNS)
+    .maybeSingle();
+  if (error) throw error;
+  return data as ImpersonationSession | null;
+}
+
+export async function listImpersonationSessions(filter: { tenantId?: string; actorUserId?: string; limit?: number }) {
+  let query = supabaseAdmin
+    .from("impersonation_sessions")
+    .select(SESSION_COLUMNS)
+    .order("started_at", { ascending: false })
+    .limit(Math.min(filter.limit || 50, 200));
+  if (filter.tenantId) query = query.eq("tenant_id", filter.tenantId);
+  if (filter.actorUserId) query = query.eq("actor_user_id", filter.actorUserId);
+
+  const { data, error } = await query;
+  if (error) throw error;
+  return (data || []) as ImpersonationSession[];
+}
@@ -0,0 +1,250 @@
+import { supabaseAdmin } from "./supabase";
+import { sendMail } from "./mailer";
+import { createInvitation, reissueInvitationCode, staleClaimFilter } from "./activationCodes";
+import type { InvitationInput } from "./activationCodes";
+
+// Invitation lifecycle (database_migrations/invitation_lifecycle.sql):
+// pending → activated | revoked | expired. Only the API writes invitations.
+// The sweeper here expires stale ones on a timer instead of waiting for
+// someone to try the code.
+
+const APP_URL = (process.env.APP_URL || "http://localhost:3000").replace(/\/+$/, "");
+const SWEEP_INTERVAL_MS = Number(process.env.INVITATION_SWEEP_INTERVAL_MS || 15 * 60 * 1000);
+
+export type InvitationStatus = "pending" | "activated" | "expired" | "revoked";
+
+export class InvitationError extends Error {
+  status: number;
+  code: string;
+  details?: Record<string, any>;
+
+  constructor(message: string, status: number, code: string, details?: Record<string, any>) {
+    super(message);
+    this.name = "InvitationError";
+    this.status = status;
+    this.code = code;
+    this.details = details;
+  }
+}
+
+export interface InvitationDelivery {
+  delivered: boolean;
+  transport?: string;
+  error?: string;
+}
+
+const INVITATION_COLUMNS = `
+  id, tenant_id, email, first_name, last_name, role, phone_number, occupation,
+  status, created_by, created_at, expires_at, activated_at, expired_at,
+  revoked_at, revoked_by, last_sent_at, send_count,
+  created_by_user:users!user_invitations_created_by_fkey ( first_name, last_name, email )
+`;
+
+const normalizeEmail = (email: string) => email.trim().toLowerCase();
+
+// Literal match for ilike (emails can contain _ )
+const likeLiteral = (value: string) => value.replace(/[\\%_]/g, (c) => `\\${c}`);
+
+export function activationLink(activationCode: string) {
+  return `${APP_URL}/activate?code=${encodeURIComponent(activationCode)}`;
+}
+
+// ─── Checks ──────────────────────────────────────────────────────
+
+// Refuse emails that already have an account or an open invitation
+async function assertEmailInvitable(tenantId: string, email: string, exceptInvitationId?: string) {
+  const { data: existingUser, error: userError } = await supabaseAdmin
+    .from("users")
+    .select("id")
+    .ilike("email", likeLiteral(email))
+    .limit(1)
+    .maybeSingle();
+  if (userError) throw userError;
+  if (existingUser) {
+    throw new InvitationError("An account with this email already exists", 409, "user_exists");
+  }
+
+  let pendingQuery = supabaseAdmin
+    .from("user_invitations")
+    .select("id, tenant_id")
+    .ilike("email", likeLiteral(email))
+    .eq("status", "pending");
+  if (exceptInvitationId) pendingQuery = pendingQuery.neq("id", exceptInvitationId);
+
+  const { data: pending, error: pendingError } = await pendingQuery.limit(1).maybeSingle();
+  if (pendingError) throw pendingError;
+  if (pending?.tenant_id === tenantId) {
+    throw new InvitationError("This email already has a pending invitation", 409, "invitation_pending", {
+      invitation_id: pending.id,
+    });
+  }
+  if (pending) {
+    // Another tenant's invitation: don't say whose
+    throw new InvitationError("This email cannot be invited right now", 409, "email_in_use");
+  }
+}
+
+// ─── Email ───────────────────────────────────────────────────────
+
+async function deliverInvitation(invitation: any, activationCode: string): Promise<InvitationDelivery> {
+  const { data: tenant } = await supabaseAdmin
+    .from("tenants")
+    .select("name")
+    .eq("id", invitation.tenant_id)
+    .maybeSingle();
+  const organization = tenant?.name || "Luminous Rehab";
+  const link = activationLink(activationCode);
+  const expires = new Date(invitation.expires_at).toDateString();
+
+  let delivery: InvitationDelivery;
+  try {
+    const result = await sendMail({
+      to: invitation.email,
+      subject: `You're invited to join ${organization} on Luminous Rehab`,
+      text:
+        `Hi ${invitation.first_name},\n\n` +
+        `${organization} has invited you to Luminous Rehab as a ${invitation.role}.\n\n` +
+        `Activate your account: ${link}\nActivation code: ${activationCode}\n\n` +
+        `This invitation expires on ${expires}.`,
+      html:
+        `<p>Hi ${escapeHtml(invitation.first_name)},</p>` +
+        `<p>${escapeHtml(organization)} has invited you to Luminous Rehab as a ${escapeHtml(invitation.role)}.</p>` +
+        `<p><a href="${link}">Activate your account</a></p>` +
+        `<p>Activation code: <strong>${activationCode}</strong></p>` +
+        `<p>This invitation expires on ${expires}.</p>`,
+    });
+    delivery = { delivered: result.delivered, transport: result.transport };
+  } catch (error: any) {
+    console.error(`Invitation email to ${invitation.id} failed:`, error);
+    delivery = { delivered: false, error: error.message || "Email could not be sent" };
+  }
+
+  const { error } = await supabaseAdmin
+    .from("user_invitations")
+    .update({ last_sent_at: new Date().toISOString(), send_count: (invitation.send_count || 0) + 1 })
+    .eq("id", invitation.id);
+  if (error) console.error("Failed to record invitation send:", error);
+
+  return delivery;
+}
+
+function escapeHtml(value: string) {
+  return String(value).replace(/[&<>"']/g, (c) => `&#${c.charCodeAt(0)};`);
+}
+
+// ─── Lifecycle ───────────────────────────────────────────────────
+
+export async function listInvitations(tenantId: string, status?: InvitationStatus) {
+  let query = supabaseAdmin
+    .from("user_invitations")
+    .select(INVITATION_COLUMNS)
+    .eq("tenant_id", tenantId)
+    .order("created_at", { ascending: false });
+  if (status) query = query.eq("status", status);
+
+  const { data, error } = await query;
+  if (error) throw error;
+  return data || [];
+}
+
+export async function loadInvitation(invitationId: string) {
+  const { data, error } = await supabaseAdmin
+    .from("user_invitations")
+    .select(INVITATION_COLUMNS)
+    .eq("id", invitationId)
+    .maybeSingle();
+  if (error) throw error;
+  return data;
+}
+
+export async function inviteUser(input: InvitationInput) {
+  const email = normalizeEmail(input.email);
+  await assertEmailInvitable(input.tenantId, email);
+
+  let created;
+  try {
+    created = await createInvitation({ ...input, email });
+  } catch (error: any) {
+    // Lost a race with another invite for the same email
+    if (error?.code === "23505") {
+      throw new InvitationError("This email already has a pending invitation", 409, "invitation_pending");
+    }
+    throw error;
+  }
+
+  const delivery = await deliverInvitation(created.invitation, created.activationCode);
+  return { invitation: await loadInvitation(created.invitation.id), activationCode: created.activationCode, delivery };
+}
+
+// Fresh code and a new expiry window; the previous code stops working
+export async function resendInvitation(invitationId: string) {
+  const existing = await loadInvitation(invitationId);
+  if (!existing) throw new InvitationError("Invitation not found", 404, "not_found");
+
+  await assertEmailInvitable(existing.tenant_id, normalizeEmail(existing.email), existing.id);
+
+  const { invitation, activationCode } = await reissueInvitationCode(invitationId);
+  const delivery = await deliverInvitation(invitation, activationCode);
+  return { invitation: await loadInvitation(invitationId), activationCode, delivery };
+}
+
+export async function revokeInvitation(invitationId: string, revokedBy: string) {
+  const { data, error } = await supabaseAdmin
+    .from("user_invitations")
+    .update({ status: "revoked", revoked_at: new Date().toISOString(), revoked_by: revokedBy, claimed_at: null })
+    .eq("id", invitationId)
+    .in("status", ["pending", "expired"])
+    .select("id")
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!data) {
+    throw new InvitationError("Only pending or expired invitations can be revoked", 409, "invitation_closed");
+  }
+  return loadInvitation(invitationId);
+}
+
+// ─── Expiry sweep ────────────────────────────────────────────────
+
+// Move pending invitations past expires_at to expired; returns how many.
+// Rows claimed by an in-flight activation are left alone.
+export async function expireStaleInvitations() {
+  const now = new Date().toISOString();
+  const { data, error } = await supabaseAdmin
+    .from("user_invitations")
+    .update({ status: "expired", expired_at: now })
+    .eq("status", "pending")
+    .lt("expires_at", now)
+    .or(staleClaimFilter())
+    .select("id");
+
+  if (error) throw error;
+  return data?.length || 0;
+}
+
+let timer: NodeJS.Timeout | null = null;
+let sweeping: Promise<void> | null = null;
+
+function sweep() {
+  if (sweeping) return;
+  sweeping = expireStaleInvitations()
+    .then((count) => {
+      if (count) console.log(`Expired ${count} stale invitation(s)`);
+    })
+    .catch((error) => console.error("Invitation sweep error:", error))
+    .finally(() => {
+      sweeping = null;
+    });
+}
+
+export function startInvitationSweeper() {
+  if (timer || process.env.INVITATION_SWEEPER_ENABLED === "false") return;
+  timer = setInterval(sweep, SWEEP_INTERVAL_MS);
+  sweep();
+}
+
+export async function stopInvitationSweeper() {
+  if (timer) clearInterval(timer);
+  timer = null;
+  await sweeping;
+}
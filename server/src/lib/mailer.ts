@@ -0,0 +1,104 @@
+// Outgoing email behind one small interface so the transport can be swapped
+// without touching callers. MAILER picks the transport ("console" by default).
+// "console" only logs recipient and subject: bodies can carry activation
+// codes and must not end up in logs. Any real transport needs a BAA before
+// it may carry PHI.
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  html: string;
+  text?: string;
+}
+
+export interface MailResult {
+  delivered: boolean;
+  transport: string;
+  id?: string;
+}
+
+export interface Mailer {
+  name: string;
+  send(message: MailMessage): Promise<MailResult>;
+}
+
+export class MailerError extends Error {
+  transport: string;
+
+  constructor(message: string, transport: string) {
+    super(message);
+    this.name = "MailerError";
+    this.transport = transport;
+  }
+}
+
+const consoleMailer: Mailer = {
+  name: "console",
+  async send(message) {
+    console.log(`📧 Email not sent (console mailer) → ${message.to}: ${message.subject}`);
+    return { delivered: false, transport: "console" };
+  },
+};
+
+// SendGrid v3 API; needs SENDGRID_API_KEY and MAIL_FROM
+function sendgridMailer(): Mailer {
+  const apiKey = process.env.SENDGRID_API_KEY;
+  const from = process.env.MAIL_FROM;
+  if (!apiKey || !from) throw new Error("MAILER=sendgrid requires SENDGRID_API_KEY and MAIL_FROM");
+
+  return {
+    name: "sendgrid",
+    async send(message) {
+      const response = await fetch("https://api.sendgrid.com/v3/mail/send", {
+        method: "POST",
+        headers: { Authorization: `Bearer ${apiKey}`, "Content-Type": "application/json" },
+        body: JSON.stringify({
+          personalizations: [{ to: [{ email: message.to }] }],
+          from: { email: from },
+          subject: message.subject,
+          content: [
+            ...(message.text ? [{ type: "text/plain", value: message.text }] : []),
+            { type: "text/html", value: message.html },
+          ],
+        }),
+      });
+
+      if (!response.ok) {
+        throw new MailerError(`SendGrid responded ${response.status}: ${await response.text()}`, "sendgrid");
+      }
+      return { delivered: true, transport: "sendgrid", id: response.headers.get("x-message-id") || undefined };
+    },
+  };
+}
+
+const transports: Record<string, () => Mailer> = {
+  console: () => consoleMailer,
+  sendgrid: sendgridMailer,
+};
+
+let active: Mailer | null = null;
+
+// Make another transport selectable through MAILER
+export function registerMailer(name: string, create: () => Mailer) {
+  transports[name] = create;
+  if (active?.name === name) active = null;
+}
+
+export function getMailer(): Mailer {
+  if (!active) {
+    const name = process.env.MAILER || "console";
+    const create = transports[name];
+    if (!create) throw new Error(`Unknown MAILER "${name}" (available: ${Object.keys(transports).join(", ")})`);
+    active = create();
+  }
+  return active;
+}
+
+// Replace the transport outright, e.g. from a custom entry point
+export function setMailer(mailer: Mailer | null) {
+  active = mailer;
+}
+
+export function sendMail(message: MailMessage) {
+  return getMailer().send(message);
+}
@@ -0,0 +1,60 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { normalizeDrugName, reconcileMedications } from "./medicationReconciliation";
+import type { ReconcilableMedication } from "./medicationReconciliation";
+
+const med = (id: string, drug_name: string, fields: Partial<ReconcilableMedication> = {}): ReconcilableMedication => ({
+  id,
+  drug_name,
+  strength: null,
+  route: null,
+  source: "bottle_scan",
+  ...fields,
+});
+
+test("salt forms and dosage forms are dropped from a drug name", () => {
+  assert.equal(normalizeDrugName("Metoprolol Tartrate 25mg tablet"), "metoprolol");
+  assert.equal(normalizeDrugName("Metformin HCl 500 mg"), "metformin");
+});
+
+test("mineral salts keep their cation and salt", () => {
+  assert.equal(normalizeDrugName("Potassium Chloride 20 mEq"), "potassium chloride");
+  assert.equal(normalizeDrugName("Sodium Chloride 0.9%"), "sodium chloride");
+  assert.equal(normalizeDrugName("Magnesium Sulfate"), "magnesium sulfate");
+  assert.equal(normalizeDrugName("Calcium Citrate"), "calcium citrate");
+  assert.equal(normalizeDrugName("potassium citrate"), "potassium citrate");
+});
+
+test("a name is never normalized away", () => {
+  assert.equal(normalizeDrugName("Tablets"), "tablets");
+  assert.equal(normalizeDrugName("500 mg"), "500 mg");
+  assert.equal(normalizeDrugName("  "), "");
+  assert.equal(normalizeDrugName(null), "");
+});
+
+test("potassium chloride and sodium chloride are reconciled as different drugs", () => {
+  const discrepancies = reconcileMedications([
+    med("kcl", "Potassium Chloride", { source: "bottle_scan" }),
+    med("nacl", "Sodium Chloride", { source: "pdf_import" }),
+  ]);
+
+  assert.deepEqual(
+    discrepancies.map((d) => [d.type, d.medication_ids]),
+    [
+      ["missing", ["kcl"]],
+      ["missing", ["nacl"]],
+    ]
+  );
+});
+
+test("magnesium sulfate is reconciled rather than skipped", () => {
+  const discrepancies = reconcileMedications([
+    med("scan", "Magnesium Sulfate", { strength: "1 g", source: "bottle_scan" }),
+    med("pdf", "magnesium sulfate", { strength: "2 g", source: "pdf_import" }),
+  ]);
+
+  assert.deepEqual(
+    discrepancies.map((d) => [d.type, d.key]),
+    [["dose_mismatch", "dose_mismatch:magnesium sulfate"]]
+  );
+});
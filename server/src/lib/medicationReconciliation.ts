@@ -0,0 +1,297 @@
+import { createHash } from "crypto";
+
+// Medication reconciliation. A chart's medications arrive from bottle scans,
+// imported PDF med lists and manual entry; this matches them by normalized
+// drug name, strength and route and reports what does not line up. Pure:
+// callers load the rows and stored resolutions.
+
+export type MedicationSource = "bottle_scan" | "pdf_import" | "manual";
+
+export const MEDICATION_SOURCES: MedicationSource[] = ["bottle_scan", "pdf_import", "manual"];
+
+export type DiscrepancyType = "duplicate" | "missing" | "dose_mismatch" | "route_mismatch";
+
+export interface ReconcilableMedication {
+  id: string;
+  drug_name: string | null;
+  strength: string | null;
+  route: string | null;
+  source: MedicationSource | null;
+}
+
+export interface Discrepancy {
+  // Stable across reloads as long as the drug is on the chart
+  key: string;
+  type: DiscrepancyType;
+  drug_name: string;
+  message: string;
+  medication_ids: string[];
+  details: Record<string, any>;
+  // Changes whenever any involved medication changes, which voids a resolution
+  fingerprint: string;
+}
+
+export interface DiscrepancyResolution {
+  discrepancy_key: string;
+  fingerprint: string;
+  note: string;
+  resolved_by: string | null;
+  resolved_at: string;
+}
+
+export interface ReconciliationReport {
+  sources: MedicationSource[];
+  discrepancies: (Discrepancy & { resolution: DiscrepancyResolution | null })[];
+  unresolved: number;
+}
+
+const SOURCE_LABELS: Record<MedicationSource, string> = {
+  bottle_scan: "bottle scan",
+  pdf_import: "PDF import",
+  manual: "manual entry",
+};
+
+// Salt forms that do not change what the drug is ("metoprolol succinate").
+// Only dropped while a drug name is left: in "magnesium sulfate" the salt is
+// the drug.
+const SALT_WORDS = new Set([
+  "hcl", "hydrochloride", "succinate", "tartrate", "besylate", "maleate", "mesylate", "citrate", "sulfate",
+]);
+
+// Always kept: "potassium chloride" and "sodium chloride" are different drugs
+const CATION_WORDS = new Set(["sodium", "potassium", "calcium", "magnesium"]);
+
+// Dosage-form words
+const FORM_WORDS = new Set([
+  "tablet", "tablets", "tab", "tabs", "capsule", "capsules", "cap", "caps",
+  "oral", "solution", "suspension", "usp",
+]);
+
+const ROUTE_ALIASES: Record<string, string> = {
+  po: "oral",
+  oral: "oral",
+  orally: "oral",
+  "by mouth": "oral",
+  mouth: "oral",
+  sl: "sublingual",
+  sublingual: "sublingual",
+  top: "topical",
+  topical: "topical",
+  topically: "topical",
+  inh: "inhalation",
+  inhaled: "inhalation",
+  inhalation: "inhalation",
+  inhale: "inhalation",
+  iv: "intravenous",
+  intravenous: "intravenous",
+  im: "intramuscular",
+  intramuscular: "intramuscular",
+  sc: "subcutaneous",
+  sq: "subcutaneous",
+  subq: "subcutaneous",
+  subcutaneous: "subcutaneous",
+  injection: "injection",
+  inj: "injection",
+  td: "transdermal",
+  transdermal: "transdermal",
+  patch: "transdermal",
+  pr: "rectal",
+  rectal: "rectal",
+  rectally: "rectal",
+};
+
+const UNIT_ALIASES: Record<string, string> = {
+  mg: "mg",
+  mgs: "mg",
+  milligram: "mg",
+  milligrams: "mg",
+  mcg: "mcg",
+  ug: "mcg",
+  "µg": "mcg",
+  microgram: "mcg",
+  micrograms: "mcg",
+  g: "g",
+  gm: "g",
+  gram: "g",
+  grams: "g",
+  ml: "ml",
+  l: "l",
+  unit: "unit",
+  units: "unit",
+  u: "unit",
+  iu: "unit",
+  meq: "meq",
+  "%": "%",
+};
+
+const nameWords = (text: string) => text.replace(/[^a-z0-9\s-]/g, " ").split(/[\s-]+/).filter(Boolean);
+
+// Never empty for a name with any text in it: when nothing is left after
+// dropping strengths and dosage forms, the whole name is used as written
+export function normalizeDrugName(name: string | null | undefined): string {
+  const lower = (name || "").toLowerCase();
+  const words = nameWords(
+    // Strengths often end up in the name field on scanned labels
+    lower.replace(/\d+(\.\d+)?\s*(mg|mcg|ug|µg|g|ml|units?|iu|meq|%)(?![a-z0-9])/g, " ")
+  ).filter((word) => !FORM_WORDS.has(word));
+
+  const hasBase = words.some((word) => !SALT_WORDS.has(word) && !CATION_WORDS.has(word));
+  const kept = hasBase ? words.filter((word) => !SALT_WORDS.has(word)) : words;
+  if (kept.length > 0) return kept.join(" ");
+
+  return nameWords(lower).join(" ") || lower.trim();
+}
+
+export function normalizeStrength(strength: string | null | undefined): string | null {
+  const text = (strength || "").toLowerCase().replace(/,/g, "");
+  const parts: string[] = [];
+  const pattern = /(\d+(?:\.\d+)?)\s*(mg|mgs|milligrams?|mcg|ug|µg|micrograms?|gm|grams?|g|ml|l|units?|u|iu|meq|%)?/g;
+
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(text))) {
+    let value = Number(match[1]);
+    let unit = match[2] ? UNIT_ALIASES[match[2]] : "";
+    // Compare grams and milligrams on the same scale
+    if (unit === "g") {
+      value *= 1000;
+      unit = "mg";
+    }
+    parts.push(`${Number(value.toFixed(4))}${unit}`);
+  }
+
+  return parts.length > 0 ? parts.join("/") : null;
+}
+
+export function normalizeRoute(route: string | null | undefined): string | null {
+  const text = (route || "").toLowerCase().replace(/[^a-z\s]/g, " ").replace(/\s+/g, " ").trim();
+  if (!text) return null;
+  return ROUTE_ALIASES[text] || ROUTE_ALIASES[text.split(" ")[0]] || text;
+}
+
+function fingerprintOf(rows: ReconcilableMedication[]) {
+  const material = rows
+    .map((m) => [m.id, normalizeDrugName(m.drug_name), normalizeStrength(m.strength), normalizeRoute(m.route), m.source].join("|"))
+    .sort()
+    .join("\n");
+  return createHash("sha256").update(material).digest("hex").slice(0, 16);
+}
+
+function describeSources(sources: Iterable<MedicationSource>) {
+  return Array.from(sources).map((s) => SOURCE_LABELS[s]).join(", ");
+}
+
+function distinct(values: (string | null)[]) {
+  return Array.from(new Set(values.filter((v): v is string => !!v)));
+}
+
+export function reconcileMedications(medications: ReconcilableMedication[]): Discrepancy[] {
+  const rows = medications.map((m) => ({ ...m, source: m.source || "manual" }) as ReconcilableMedication & { source: MedicationSource });
+  const chartSources = new Set(rows.map((m) => m.source));
+
+  const groups = new Map<string, typeof rows>();
+  for (const med of rows) {
+    const name = normalizeDrugName(med.drug_name);
+    // No drug name at all: nothing to match it on
+    if (!name) continue;
+    groups.set(name, [...(groups.get(name) || []), med]);
+  }
+
+  const discrepancies: Discrepancy[] = [];
+  const push = (d: Omit<Discrepancy, "fingerprint">, involved: ReconcilableMedication[]) =>
+    discrepancies.push({ ...d, fingerprint: fingerprintOf(involved) });
+
+  for (const [name, group] of Array.from(groups.entries()).sort(([a], [b]) => a.localeCompare(b))) {
+    const displayName = group[0].drug_name || name;
+    const ids = group.map((m) => m.id);
+
+    // Same drug, strength and route captured more than once
+    const bySignature = new Map<string, typeof rows>();
+    for (const med of group) {
+      const signature = `${normalizeStrength(med.strength) || ""}|${normalizeRoute(med.route) || ""}`;
+      bySignature.set(signature, [...(bySignature.get(signature) || []), med]);
+    }
+    for (const [signature, copies] of bySignature) {
+      if (copies.length < 2) continue;
+      push(
+        {
+          key: `duplicate:${name}:${signature}`,
+          type: "duplicate",
+          drug_name: displayName,
+          message: `${displayName} is listed ${copies.length} times (${describeSources(copies.map((m) => m.source))})`,
+          medication_ids: copies.map((m) => m.id),
+          details: { count: copies.length },
+        },
+        copies
+      );
+    }
+
+    const strengths = distinct(group.map((m) => normalizeStrength(m.strength)));
+    if (strengths.length > 1) {
+      push(
+        {
+          key: `dose_mismatch:${name}`,
+          type: "dose_mismatch",
+          drug_name: displayName,
+          message: `${displayName} has different strengths: ${group.map((m) => `${m.strength || "none"} (${SOURCE_LABELS[m.source]})`).join(" vs ")}`,
+          medication_ids: ids,
+          details: { strengths },
+        },
+        group
+      );
+    }
+
+    const routes = distinct(group.map((m) => normalizeRoute(m.route)));
+    if (routes.length > 1) {
+      push(
+        {
+          key: `route_mismatch:${name}`,
+          type: "route_mismatch",
+          drug_name: displayName,
+          message: `${displayName} has different routes: ${routes.join(" vs ")}`,
+          medication_ids: ids,
+          details: { routes },
+        },
+        group
+      );
+    }
+
+    // Only meaningful once the chart has lists from more than one source
+    if (chartSources.size > 1) {
+      const presentIn = new Set(group.map((m) => m.source));
+      const missingFrom = MEDICATION_SOURCES.filter((s) => chartSources.has(s) && !presentIn.has(s));
+      if (missingFrom.length > 0) {
+        push(
+          {
+            key: `missing:${name}`,
+            type: "missing",
+            drug_name: displayName,
+            message: `${displayName} is on the ${describeSources(presentIn)} list but missing from ${describeSources(missingFrom)}`,
+            medication_ids: ids,
+            details: { present_in: Array.from(presentIn), missing_from: missingFrom },
+          },
+          group
+        );
+      }
+    }
+  }
+
+  return discrepancies;
+}
+
+// Attach stored resolutions; a resolution only counts if nothing changed since
+export function buildReconciliationReport(
+  medications: ReconcilableMedication[],
+  resolutions: DiscrepancyResolution[]
+): ReconciliationReport {
+  const byKey = new Map(resolutions.map((r) => [r.discrepancy_key, r]));
+  const discrepancies = reconcileMedications(medications).map((d) => {
+    const resolution = byKey.get(d.key);
+    return { ...d, resolution: resolution && resolution.fingerprint === d.fingerprint ? resolution : null };
+  });
+
+  return {
+    sources: MEDICATION_SOURCES.filter((s) => medications.some((m) => (m.source || "manual") === s)),
+    discrepancies,
+    unresolved: discrepancies.filter((d) => !d.resolution).length,
+  };
+}
@@ -0,0 +1,335 @@
+import crypto from "crypto";
+import QRCode from "qrcode";
+import { supabaseAdmin } from "./supabase";
+import { generateTotpSecret, otpauthUrl, verifyTotp } from "./totp";
+import { keyFromEnv, openSecret, sealSecret } from "./secretBox";
+
+// TOTP second factor (database_migrations/mfa_totp.sql). A Supabase session
+// counts as verified only once its session_id is recorded in
+// mfa_verified_sessions; until then requireAuth refuses it and RLS hides PHI
+// tables from it (mfa_satisfied()).
+
+const ISSUER = process.env.MFA_ISSUER || "Luminous Rehab";
+const RECOVERY_CODE_COUNT = 10;
+const SESSION_TTL_MS = Number(process.env.MFA_SESSION_TTL_HOURS || 12) * 60 * 60 * 1000;
+const MAX_FAILED_ATTEMPTS = 5;
+const LOCKOUT_MS = 15 * 60 * 1000;
+
+export type MfaState = "not_required" | "verified" | "pending";
+export type MfaMethod = "totp" | "recovery_code";
+
+export interface MfaStatus {
+  enrolled: boolean;
+  required: boolean;
+  required_by_tenant: boolean;
+  session_verified: boolean;
+  recovery_codes_remaining: number;
+}
+
+export class MfaError extends Error {
+  status: number;
+  code: string;
+
+  constructor(message: string, status: number, code: string) {
+    super(message);
+    this.name = "MfaError";
+    this.status = status;
+    this.code = code;
+  }
+}
+
+// ─── Secret storage ──────────────────────────────────────────────
+
+const encryptionKey = () => keyFromEnv("MFA_ENCRYPTION_KEY", "store MFA secrets");
+const encryptSecret = (secret: string) => sealSecret(secret, encryptionKey());
+const decryptSecret = (stored: string) => openSecret(stored, encryptionKey());
+
+// ─── Recovery codes ──────────────────────────────────────────────
+
+const normalizeRecoveryCode = (code: string) => code.toLowerCase().replace(/[^a-z0-9]/g, "");
+
+function hashRecoveryCode(code: string) {
+  return crypto.createHmac("sha256", encryptionKey()).update(normalizeRecoveryCode(code)).digest("hex");
+}
+
+// xxxxx-xxxxx from an unambiguous alphabet (no 0/o, 1/l/i)
+function generateRecoveryCode() {
+  const alphabet = "abcdefghjkmnpqrstuvwxyz23456789";
+  const chars = Array.from({ length: 10 }, () => alphabet[crypto.randomInt(alphabet.length)]).join("");
+  return `${chars.slice(0, 5)}-${chars.slice(5)}`;
+}
+
+async function replaceRecoveryCodes(userId: string) {
+  const codes = Array.from({ length: RECOVERY_CODE_COUNT }, generateRecoveryCode);
+
+  const { error: deleteError } = await supabaseAdmin.from("user_mfa_recovery_codes").delete().eq("user_id", userId);
+  if (deleteError) throw deleteError;
+
+  const { error } = await supabaseAdmin
+    .from("user_mfa_recovery_codes")
+    .insert(codes.map((code) => ({ user_id: userId, code_hash: hashRecoveryCode(code) })));
+  if (error) throw error;
+
+  return codes;
+}
+
+// ─── Failed attempt limiting ─────────────────────────────────────
+
+const failedAttempts = new Map<string, { count: number; resetAt: number }>();
+
+function assertNotLockedOut(userId: string) {
+  const entry = failedAttempts.get(userId);
+  if (entry && entry.resetAt > Date.now() && entry.count >= MAX_FAILED_ATTEMPTS) {
+    throw new MfaError("Too many incorrect codes. Try again in a few minutes.", 429, "too_many_attempts");
+  }
+}
+
+function recordFailure(userId: string) {
+  const now = Date.now();
+  const entry = failedAttempts.get(userId);
+  if (!entry || entry.resetAt <= now) {
+    failedAttempts.set(userId, { count: 1, resetAt: now + LOCKOUT_MS });
+  } else {
+    entry.count++;
+  }
+}
+
+// ─── Requirement and session state ───────────────────────────────
+
+async function loadFactor(userId: string) {
+  const { data, error } = await supabaseAdmin
+    .from("user_mfa_factors")
+    .select("user_id, secret_encrypted, status, last_used_step")
+    .eq("user_id", userId)
+    .maybeSingle();
+  if (error) throw error;
+  return data;
+}
+
+async function tenantRequiresMfa(tenantId: string | null) {
+  if (!tenantId) return false;
+  const { data, error } = await supabaseAdmin.from("tenants").select("require_mfa").eq("id", tenantId).maybeSingle();
+  if (error) throw error;
+  return !!data?.require_mfa;
+}
+
+async function isSessionVerified(userId: string, sessionId: string | null) {
+  if (!sessionId) return false;
+  const { data, error } = await supabaseAdmin
+    .from("mfa_verified_sessions")
+    .select("session_id")
+    .eq("session_id", sessionId)
+    .eq("user_id", userId)
+    .gt("expires_at", new Date().toISOString())
+    .maybeSingle();
+  if (error) throw error;
+  return !!data;
+}
+
+// MFA state of the session behind a request. The active factor, not the
+// users.mfa_enabled display flag, decides whether a user has opted in.
+export async function mfaStateForSession(
+  user: { id: string; tenant_id: string | null },
+  sessionId: string | null
+): Promise<MfaState> {
+  const [factor, requiredByTenant] = await Promise.all([loadFactor(user.id), tenantRequiresMfa(user.tenant_id)]);
+  if (factor?.status !== "active" && !requiredByTenant) return "not_required";
+  return (await isSessionVerified(user.id, sessionId)) ? "verified" : "pending";
+}
+
+export async function getMfaStatus(
+  user: { id: string; tenant_id: string | null },
+  sessionId: string | null
+): Promise<MfaStatus> {
+  const [factor, requiredByTenant, sessionVerified, { count, error }] = await Promise.all([
+    loadFactor(user.id),
+    tenantRequiresMfa(user.tenant_id),
+    isSessionVerified(user.id, sessionId),
+    supabaseAdmin
+      .from("user_mfa_recovery_codes")
+      .select("id", { count: "exact", head: true })
+      .eq("user_id", user.id)
+      .is("used_at", null),
+  ]);
+  if (error) throw error;
+
+  const enrolled = factor?.status === "active";
+  return {
+    enrolled,
+    required: enrolled || requiredByTenant,
+    required_by_tenant: requiredByTenant,
+    session_verified: sessionVerified,
+    recovery_codes_remaining: count || 0,
+  };
+}
+
+async function markSessionVerified(userId: string, sessionId: string | null, method: MfaMethod) {
+  if (!sessionId) throw new MfaError("This session cannot be verified; sign in again", 400, "no_session");
+
+  const { error } = await supabaseAdmin.from("mfa_verified_sessions").upsert(
+    {
+      session_id: sessionId,
+      user_id: userId,
+      method,
+      verified_at: new Date().toISOString(),
+      expires_at: new Date(Date.now() + SESSION_TTL_MS).toISOString(),
+    },
+    { onConflict: "session_id" }
+  );
+  if (error) throw error;
+}
+
+// ─── Enrollment ──────────────────────────────────────────────────
+
+// New pending secret; replaces an unfinished enrollment but never an active factor
+export async function startEnrollment(userId: string, email: string) {
+  const existing = await loadFactor(userId);
+  if (existing?.status === "active") {
+    throw new MfaError("Two-factor authentication is already enabled", 409, "already_enrolled");
+  }
+
+  const secret = generateTotpSecret();
+  const { error } = await supabaseAdmin.from("user_mfa_factors").upsert(
+    {
+      user_id: userId,
+      secret_encrypted: encryptSecret(secret),
+      status: "pending",
+      last_used_step: null,
+      created_at: new Date().toISOString(),
+      activated_at: null,
+    },
+    { onConflict: "user_id" }
+  );
+  if (error) throw error;
+
+  const url = otpauthUrl(secret, email, ISSUER);
+  return { secret, otpauth_url: url, qr_code: await QRCode.toDataURL(url) };
+}
+
+// First code from the app activates the factor; returns the recovery codes (shown once)
+export async function confirmEnrollment(userId: string, code: string, sessionId: string | null) {
+  assertNotLockedOut(userId);
+
+  const factor = await loadFactor(userId);
+  if (!factor || factor.status !== "pending") {
+    throw new MfaError("Start enrollment first", 409, "enrollment_not_started");
+  }
+
+  const step = verifyTotp(decryptSecret(factor.secret_encrypted), code);
+  if (step === null) {
+    recordFailure(userId);
+    throw new MfaError("Incorrect code", 401, "invalid_code");
+  }
+
+  const { error } = await supabaseAdmin
+    .from("user_mfa_factors")
+    .update({ status: "active", activated_at: new Date().toISOString(), last_used_step: step })
+    .eq("user_id", userId);
+  if (error) throw error;
+
+  const { error: userError } = await supabaseAdmin.from("users").update({ mfa_enabled: true }).eq("id", userId);
+  if (userError) throw userError;
+
+  failedAttempts.delete(userId);
+  const recoveryCodes = await replaceRecoveryCodes(userId);
+  await markSessionVerified(userId, sessionId, "totp");
+  return recoveryCodes;
+}
+
+// ─── Verification ────────────────────────────────────────────────
+
+// Check a TOTP or recovery code without touching the session
+export async function checkSecondFactor(
+  userId: string,
+  input: { code?: string; recoveryCode?: string }
+): Promise<MfaMethod> {
+  assertNotLockedOut(userId);
+
+  const factor = await loadFactor(userId);
+  if (!factor || factor.status !== "active") {
+    throw new MfaError("Two-factor authentication is not set up", 409, "not_enrolled");
+  }
+
+  if (input.code) {
+    const step = verifyTotp(decryptSecret(factor.secret_encrypted), input.code, {
+      lastUsedStep: factor.last_used_step,
+    });
+    if (step !== null) {
+      // Conditional update so two requests racing with the same code cannot both pass
+      let update = supabaseAdmin
+        .from("user_mfa_factors")
+        .update({ last_used_step: step })
+        .eq("user_id", userId);
+      update = factor.last_used_step == null
+        ? update.is("last_used_step", null)
+        : update.eq("last_used_step", factor.last_used_step);
+      const { data, error } = await update.select("user_id");
+      if (error) throw error;
+      if (data && data.length > 0) {
+        failedAttempts.delete(userId);
+        return "totp";
+      }
+    }
+  } else if (input.recoveryCode) {
+    const { data, error } = await supabaseAdmin
+      .from("user_mfa_recovery_codes")
+      .update({ used_at: new Date().toISOString() })
+      .eq("user_id", userId)
+      .eq("code_hash", hashRecoveryCode(input.recoveryCode))
+      .is("used_at", null)
+      .select("id");
+    if (error) throw error;
+    if (data && data.length > 0) {
+      failedAttempts.delete(userId);
+      return "recovery_code";
+    }
+  } else {
+    throw new MfaError("code or recovery_code is required", 400, "code_required");
+  }
+
+  recordFailure(userId);
+  throw new MfaError("Incorrect code", 401, "invalid_code");
+}
+
+// Second step of sign-in: verify and mark this session as verified
+export async function verifySession(
+  userId: string,
+  sessionId: string | null,
+  input: { code?: string; recoveryCode?: string }
+) {
+  const method = await checkSecondFactor(userId, input);
+  await markSessionVerified(userId, sessionId, method);
+  return method;
+}
+
+export async function regenerateRecoveryCodes(userId: string, code: string) {
+  await checkSecondFactor(userId, { code });
+  return replaceRecoveryCodes(userId);
+}
+
+export async function disableMfa(user: { id: string; tenant_id: string | null }, code: string) {
+  if (await tenantRequiresMfa(user.tenant_id)) {
+    throw new MfaError("Your organization requires two-factor authentication", 409, "required_by_tenant");
+  }
+  await checkSecondFactor(user.id, { code });
+
+  const { error } = await supabaseAdmin.from("user_mfa_factors").delete().eq("user_id", user.id);
+  if (error) throw error;
+  await supabaseAdmin.from("user_mfa_recovery_codes").delete().eq("user_id", user.id);
+  await supabaseAdmin.from("mfa_verified_sessions").delete().eq("user_id", user.id);
+
+  const { error: userError } = await supabaseAdmin.from("users").update({ mfa_enabled: false }).eq("id", user.id);
+  if (userError) throw userError;
+}
+
+export async function setTenantMfaPolicy(tenantId: string, required: boolean) {
+  const { data, error } = await supabaseAdmin
+    .from("tenants")
+    .update({ require_mfa: required })
+    .eq("id", tenantId)
+    .select("id, require_mfa")
+    .maybeSingle();
+  if (error) throw error;
+  if (!data) throw new MfaError("Tenant not found", 404, "not_found");
+  return data;
+}
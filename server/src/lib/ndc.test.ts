@@ -0,0 +1,52 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { formatStrength, hyphenatedToNormalized, ndc11Candidates, ndc9Candidates } from "./ndc";
+
+// NDC 0002-3227-30 (4-4-2) is 00002-3227-30 in the 11-digit form
+const NDC11 = "00002322730";
+
+test("hyphenated NDCs are padded to 5-4-2 whatever their layout", () => {
+  assert.equal(hyphenatedToNormalized("0002-3227-30"), NDC11);
+  assert.equal(hyphenatedToNormalized("12345-678-90"), "12345067890");
+  assert.equal(hyphenatedToNormalized("12345-6789-1"), "12345678901");
+  assert.equal(hyphenatedToNormalized("0002-3227"), "000023227");
+  assert.equal(hyphenatedToNormalized("123456-1-1"), null);
+  assert.equal(hyphenatedToNormalized("12a45-678-90"), null);
+});
+
+test("an 11-digit NDC is used as is", () => {
+  assert.deepEqual(ndc11Candidates(NDC11), [NDC11]);
+  assert.deepEqual(ndc11Candidates("0002-3227-30"), [NDC11]);
+});
+
+test("a bare 10-digit NDC yields each layout, 4-4-2 first", () => {
+  assert.deepEqual(ndc11Candidates("0002322730"), [NDC11, "00023022730", "00023227300"]);
+});
+
+test("UPC-A, EAN-13 and GS1 barcodes unwrap to the NDC inside", () => {
+  const expected = [NDC11, "00023022730", "00023227300"];
+  // UPC-A: number system 3 + NDC10 + check digit
+  assert.deepEqual(ndc11Candidates("300023227306"), expected);
+  assert.deepEqual(ndc11Candidates("0300023227306"), expected);
+  assert.deepEqual(ndc11Candidates("(01)00300023227306(17)271231(10)A1B2"), expected);
+  assert.deepEqual(ndc11Candidates("010030002322730617271231"), expected);
+});
+
+test("unrecognizable codes have no candidates", () => {
+  assert.deepEqual(ndc11Candidates("hello"), []);
+  assert.deepEqual(ndc11Candidates("12345"), []);
+  assert.deepEqual(ndc9Candidates("12345"), []);
+});
+
+test("product-level NDCs only resolve through ndc9", () => {
+  assert.deepEqual(ndc11Candidates("0002-3227"), []);
+  assert.deepEqual(ndc9Candidates("0002-3227"), ["000023227"]);
+  assert.deepEqual(ndc9Candidates("0002322730"), ["000023227", "000230227", "000232273"]);
+});
+
+test("strengths drop the per-unit suffix", () => {
+  assert.equal(formatStrength([{ name: "A", strength: "10 mg/1" }]), "10 mg");
+  assert.equal(formatStrength([{ strength: "5 mg/1" }, { strength: "325 mg/1" }]), "5 mg / 325 mg");
+  assert.equal(formatStrength([]), null);
+  assert.equal(formatStrength(null), null);
+});
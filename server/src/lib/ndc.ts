@@ -0,0 +1,78 @@
+// NDC (National Drug Code) normalization. Labels print NDCs in three
+// 10-digit layouts (4-4-2, 5-3-2, 5-4-1) and barcodes wrap them in UPC-A,
+// EAN-13 or GS1 GTIN-14; everything is normalized to the 11-digit 5-4-2 form
+// (ndc11) and its 9-digit labeler+product prefix (ndc9) for lookups.
+
+const SEGMENT_WIDTHS = [5, 4, 2];
+
+// "0002-3227-30" -> "00002322730"; "0002-3227" -> "000023227"
+export function hyphenatedToNormalized(ndc: string): string | null {
+  const segments = ndc.trim().split("-");
+  if (segments.length < 2 || segments.length > 3) return null;
+  if (!segments.every((s) => /^\d+$/.test(s))) return null;
+  if (segments.some((s, i) => s.length > SEGMENT_WIDTHS[i])) return null;
+  return segments.map((s, i) => s.padStart(SEGMENT_WIDTHS[i], "0")).join("");
+}
+
+// A bare 10-digit NDC could be any of the three layouts
+function ndc10ToNdc11Candidates(d: string): string[] {
+  return [
+    `0${d}`,                                   // 4-4-2
+    `${d.slice(0, 5)}0${d.slice(5)}`,          // 5-3-2
+    `${d.slice(0, 9)}0${d.slice(9)}`,          // 5-4-1
+  ];
+}
+
+// 14-digit GTIN from a GS1 element string, e.g. DataMatrix "(01)00312345678906(17)..."
+function gtinFromGs1(code: string): string | null {
+  const parenthesized = code.match(/\(01\)(\d{14})/);
+  if (parenthesized) return parenthesized[1];
+  const raw = code.replace(/[^\d]/g, "");
+  if (raw.startsWith("01") && raw.length > 16) return raw.slice(2, 16);
+  return null;
+}
+
+// Candidate 11-digit NDCs for a scanned barcode or typed NDC, most likely first
+export function ndc11Candidates(code: string): string[] {
+  const text = code.trim();
+  const candidates: string[] = [];
+
+  if (text.includes("-") && !text.includes("(")) {
+    const normalized = hyphenatedToNormalized(text);
+    if (normalized?.length === 11) return [normalized];
+    // Product-level NDC without a package segment is resolved via ndc9
+    return [];
+  }
+
+  let digits = gtinFromGs1(text) || text.replace(/\D/g, "");
+
+  // GTIN-14 -> UPC-A: drop the packaging indicator and leading zero
+  if (digits.length === 14) digits = digits.slice(2);
+  // EAN-13 -> UPC-A
+  if (digits.length === 13 && digits.startsWith("0")) digits = digits.slice(1);
+  // UPC-A: number system digit (3 for drugs) + NDC10 + check digit
+  if (digits.length === 12) digits = digits.slice(1, 11);
+
+  if (digits.length === 11) candidates.push(digits);
+  if (digits.length === 10) candidates.push(...ndc10ToNdc11Candidates(digits));
+
+  return Array.from(new Set(candidates));
+}
+
+// Labeler+product prefixes to fall back on when no package matches
+export function ndc9Candidates(code: string): string[] {
+  const text = code.trim();
+  if (text.includes("-") && !text.includes("(")) {
+    const normalized = hyphenatedToNormalized(text);
+    return normalized ? [normalized.slice(0, 9)] : [];
+  }
+  return Array.from(new Set(ndc11Candidates(code).map((ndc11) => ndc11.slice(0, 9))));
+}
+
+// "10 mg/1" -> "10 mg"; multiple ingredients joined with " / "
+export function formatStrength(ingredients: { name?: string; strength?: string }[] | null | undefined) {
+  const strengths = (ingredients || [])
+    .map((i) => (i.strength || "").replace(/\/1$/, "").trim())
+    .filter(Boolean);
+  return strengths.length > 0 ? strengths.join(" / ") : null;
+}
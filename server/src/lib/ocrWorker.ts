@@ -0,0 +1,220 @@
+import { supabaseAdmin } from "./supabase";
+import { isOcrSupported, recognizeDocument, shutdownOcr } from "./documentOcr";
+
+// Queue of OCR work for uploaded documents (database_migrations/document_ocr_jobs.sql).
+// Uploads enqueue a job; the worker in this process claims jobs one at a
+// time, so a bulk upload drains in the background whether or not the
+// uploader's tab stays open. Failed jobs are retried with backoff until
+// max_attempts, then the document is marked failed.
+
+const POLL_INTERVAL_MS = Number(process.env.OCR_POLL_INTERVAL_MS || 5000);
+export const STORAGE_BUCKET = "chart-documents";
+
+export type OcrJobStatus = "pending" | "processing" | "completed" | "failed";
+
+export interface OcrJob {
+  id: string;
+  document_id: string;
+  tenant_id: string;
+  status: OcrJobStatus;
+  attempts: number;
+  max_attempts: number;
+  run_after: string;
+  locked_at: string | null;
+  last_error: string | null;
+  requested_by: string | null;
+  created_at: string;
+  completed_at: string | null;
+}
+
+export class OcrEnqueueError extends Error {
+  status: number;
+  code: string;
+
+  constructor(message: string, status: number, code: string) {
+    super(message);
+    this.name = "OcrEnqueueError";
+    this.status = status;
+    this.code = code;
+  }
+}
+
+// https://<project>.supabase.co/storage/v1/object/public/chart-documents/<path>
+export function storagePathFromUrl(fileUrl: string) {
+  const marker = `/storage/v1/object/public/${STORAGE_BUCKET}/`;
+  const idx = fileUrl.indexOf(marker);
+  return idx === -1 ? null : decodeURIComponent(fileUrl.substring(idx + marker.length));
+}
+
+// Enqueue OCR for a document; returns the live job if one already exists
+export async function enqueueDocumentOcr(documentId: string, requestedBy: string | null): Promise<OcrJob> {
+  const { data: document, error: docError } = await supabaseAdmin
+    .from("documents")
+    .select("id, tenant_id, file_type")
+    .eq("id", documentId)
+    .maybeSingle();
+
+  if (docError) throw docError;
+  if (!document) throw new OcrEnqueueError("Document not found", 404, "not_found");
+  if (!isOcrSupported(document.file_type)) {
+    throw new OcrEnqueueError("Only images and PDFs can be processed", 422, "unsupported_file_type");
+  }
+
+  const { data: job, error } = await supabaseAdmin
+    .from("document_ocr_jobs")
+    .insert({ document_id: documentId, tenant_id: document.tenant_id, requested_by: requestedBy })
+    .select()
+    .single();
+
+  if (error) {
+    // Unique index on live jobs: already queued or running
+    if (error.code === "23505") {
+      const existing = await latestJobForDocument(documentId);
+      if (existing) return existing;
+    }
+    throw error;
+  }
+
+  await supabaseAdmin
+    .from("documents")
+    .update({ ocr_status: "pending", ocr_error: null })
+    .eq("id", documentId);
+
+  wakeOcrWorker();
+  return job as OcrJob;
+}
+
+export async function latestJobForDocument(documentId: string): Promise<OcrJob | null> {
+  const { data, error } = await supabaseAdmin
+    .from("document_ocr_jobs")
+    .select("*")
+    .eq("document_id", documentId)
+    .order("created_at", { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data as OcrJob | null;
+}
+
+async function claimJob(): Promise<OcrJob | null> {
+  const { data, error } = await supabaseAdmin.rpc("claim_document_ocr_job");
+  if (error) throw error;
+  return ((data as OcrJob[] | null) || [])[0] || null;
+}
+
+async function downloadDocument(fileUrl: string) {
+  const path = storagePathFromUrl(fileUrl);
+  if (!path) throw new Error("Document is not stored in the chart-documents bucket");
+
+  const { data, error } = await supabaseAdmin.storage.from(STORAGE_BUCKET).download(path);
+  if (error || !data) throw error || new Error("Document file is missing");
+  return new Uint8Array(await data.arrayBuffer());
+}
+
+async function runJob(job: OcrJob) {
+  const { data: document, error } = await supabaseAdmin
+    .from("documents")
+    .select("id, file_url, file_type")
+    .eq("id", job.document_id)
+    .single();
+  if (error) throw error;
+
+  const file = await downloadDocument(document.file_url);
+  const result = await recognizeDocument(file, document.file_type || "");
+  const completedAt = new Date().toISOString();
+
+  const { error: updateError } = await supabaseAdmin
+    .from("documents")
+    .update({
+      ocr_status: "completed",
+      ocr_text: result.text,
+      ocr_words: result.words,
+      ocr_confidence: result.confidence,
+      ocr_page_count: result.pageCount,
+      ocr_error: null,
+      ocr_completed_at: completedAt,
+    })
+    .eq("id", job.document_id);
+  if (updateError) throw updateError;
+
+  await supabaseAdmin
+    .from("document_ocr_jobs")
+    .update({ status: "completed", completed_at: completedAt, last_error: null })
+    .eq("id", job.id);
+}
+
+async function failJob(job: OcrJob, error: any) {
+  const message = String(error?.message || error).slice(0, 1000);
+  const retry = job.attempts < job.max_attempts;
+
+  await supabaseAdmin
+    .from("document_ocr_jobs")
+    .update(
+      retry
+        ? {
+            status: "pending",
+            last_error: message,
+            // 1, 4, 9... minutes
+            run_after: new Date(Date.now() + job.attempts * job.attempts * 60_000).toISOString(),
+          }
+        : { status: "failed", last_error: message, completed_at: new Date().toISOString() }
+    )
+    .eq("id", job.id);
+
+  await supabaseAdmin
+    .from("documents")
+    .update({ ocr_status: retry ? "pending" : "failed", ocr_error: message })
+    .eq("id", job.document_id);
+}
+
+// Process queued jobs until none are runnable; returns how many ran
+export async function drainOcrQueue() {
+  let processed = 0;
+  for (;;) {
+    const job = await claimJob();
+    if (!job) return processed;
+
+    try {
+      await runJob(job);
+      console.log(`OCR completed for document ${job.document_id}`);
+    } catch (error) {
+      console.error(`OCR failed for document ${job.document_id} (attempt ${job.attempts}):`, error);
+      await failJob(job, error);
+    }
+    processed++;
+  }
+}
+
+let timer: NodeJS.Timeout | null = null;
+let draining: Promise<number> | null = null;
+
+function tick() {
+  if (draining) return;
+  draining = drainOcrQueue()
+    .catch((error) => {
+      console.error("OCR queue error:", error);
+      return 0;
+    })
+    .finally(() => {
+      draining = null;
+    });
+}
+
+// Start work on a fresh job now rather than at the next poll
+export function wakeOcrWorker() {
+  if (timer) setImmediate(tick);
+}
+
+export function startOcrWorker() {
+  if (timer || process.env.OCR_WORKER_ENABLED === "false") return;
+  timer = setInterval(tick, POLL_INTERVAL_MS);
+  tick();
+}
+
+export async function stopOcrWorker() {
+  if (timer) clearInterval(timer);
+  timer = null;
+  await draining;
+  await shutdownOcr();
+}
@@ -0,0 +1,133 @@
+import crypto from "crypto";
+import jwt from "jsonwebtoken";
+
+// Minimal OpenID Connect relying party: discovery, authorization code flow
+// with PKCE, and ID token verification against the provider's JWKS.
+
+const CACHE_TTL_MS = 10 * 60 * 1000;
+const SIGNING_ALGORITHMS: jwt.Algorithm[] = ["RS256", "RS384", "RS512", "ES256", "ES384", "PS256"];
+
+export interface OidcDiscovery {
+  issuer: string;
+  authorization_endpoint: string;
+  token_endpoint: string;
+  jwks_uri: string;
+}
+
+export interface OidcClient {
+  issuer: string;
+  clientId: string;
+  clientSecret: string | null;
+  redirectUri: string;
+  scopes: string;
+}
+
+export interface OidcAuthRequest {
+  url: string;
+  state: string;
+  nonce: string;
+  codeVerifier: string;
+}
+
+const discoveryCache = new Map<string, { value: OidcDiscovery; expiresAt: number }>();
+const jwksCache = new Map<string, { keys: any[]; expiresAt: number }>();
+
+const base64url = (buffer: Buffer) => buffer.toString("base64url");
+
+async function fetchJson(url: string, init?: RequestInit): Promise<any> {
+  const response = await fetch(url, init);
+  const body: any = await response.json().catch(() => null);
+  if (!response.ok) {
+    const detail = body?.error_description || body?.error || response.statusText;
+    throw new Error(`${url} responded ${response.status}: ${detail}`);
+  }
+  return body;
+}
+
+export async function discover(issuer: string): Promise<OidcDiscovery> {
+  const cached = discoveryCache.get(issuer);
+  if (cached && cached.expiresAt > Date.now()) return cached.value;
+
+  const value = await fetchJson(`${issuer.replace(/\/+$/, "")}/.well-known/openid-configuration`);
+  if (value.issuer !== issuer) {
+    throw new Error(`Discovery issuer ${value.issuer} does not match configured issuer ${issuer}`);
+  }
+  discoveryCache.set(issuer, { value, expiresAt: Date.now() + CACHE_TTL_MS });
+  return value;
+}
+
+export async function buildAuthorizationRequest(client: OidcClient): Promise<OidcAuthRequest> {
+  const discovery = await discover(client.issuer);
+  const state = base64url(crypto.randomBytes(24));
+  const nonce = base64url(crypto.randomBytes(24));
+  const codeVerifier = base64url(crypto.randomBytes(32));
+  const codeChallenge = base64url(crypto.createHash("sha256").update(codeVerifier).digest());
+
+  const url = new URL(discovery.authorization_endpoint);
+  url.search = new URLSearchParams({
+    response_type: "code",
+    client_id: client.clientId,
+    redirect_uri: client.redirectUri,
+    scope: client.scopes,
+    state,
+    nonce,
+    code_challenge: codeChallenge,
+    code_challenge_method: "S256",
+  }).toString();
+
+  return { url: url.toString(), state, nonce, codeVerifier };
+}
+
+async function signingKey(jwksUri: string, kid: string | undefined) {
+  const find = (keys: any[]) => keys.find((key) => key.use !== "enc" && (!kid || key.kid === kid));
+
+  let cached = jwksCache.get(jwksUri);
+  let key = cached && cached.expiresAt > Date.now() ? find(cached.keys) : undefined;
+  if (!key) {
+    // Unknown kid usually means the provider rotated keys
+    const { keys } = await fetchJson(jwksUri);
+    cached = { keys: keys || [], expiresAt: Date.now() + CACHE_TTL_MS };
+    jwksCache.set(jwksUri, cached);
+    key = find(cached.keys);
+  }
+  if (!key) throw new Error("No matching signing key in the provider's JWKS");
+  return crypto.createPublicKey({ key, format: "jwk" });
+}
+
+// Exchange the authorization code and return the verified ID token claims
+export async function completeAuthorization(
+  client: OidcClient,
+  params: { code: string; codeVerifier: string; nonce: string }
+): Promise<Record<string, any>> {
+  const discovery = await discover(client.issuer);
+
+  const body = new URLSearchParams({
+    grant_type: "authorization_code",
+    code: params.code,
+    redirect_uri: client.redirectUri,
+    client_id: client.clientId,
+    code_verifier: params.codeVerifier,
+  });
+  const headers: Record<string, string> = { "Content-Type": "application/x-www-form-urlencoded" };
+  if (client.clientSecret) {
+    const credentials = `${encodeURIComponent(client.clientId)}:${encodeURIComponent(client.clientSecret)}`;
+    headers.Authorization = `Basic ${Buffer.from(credentials).toString("base64")}`;
+  }
+
+  const tokens = await fetchJson(discovery.token_endpoint, { method: "POST", headers, body: body.toString() });
+  if (!tokens?.id_token) throw new Error("Token response did not include an id_token");
+
+  const decoded = jwt.decode(tokens.id_token, { complete: true });
+  if (!decoded || typeof decoded.payload === "string") throw new Error("Malformed id_token");
+
+  const key = await signingKey(discovery.jwks_uri, decoded.header.kid);
+  const claims = jwt.verify(tokens.id_token, key, {
+    algorithms: SIGNING_ALGORITHMS,
+    issuer: client.issuer,
+    audience: client.clientId,
+    clockTolerance: 60,
+  }) as Record<string, any>;
+
+  if (claims.nonce !== params.nonce) throw new Error("id_token nonce does not match the login request");
+  return claims;
+}
@@ -0,0 +1,142 @@
+import { supabaseAdmin } from "./supabase";
+import { ALLERGY_SEVERITIES, ALLERGY_SOURCES } from "./allergyConflicts";
+import type { AllergySeverity, AllergySource } from "./allergyConflicts";
+
+// A patient's structured allergy list (database_migrations/patient_allergies.sql).
+// Allergies recorded on duplicates merged into the patient (patientMerge.ts)
+// count as the patient's own, so a merge never hides one and undoing it puts
+// them back where they were.
+
+export class AllergyError extends Error {
+  status: number;
+  code: string;
+
+  constructor(message: string, status: number, code: string) {
+    super(message);
+    this.name = "AllergyError";
+    this.status = status;
+    this.code = code;
+  }
+}
+
+export interface PatientAllergy {
+  id: string;
+  tenant_id: string;
+  patient_id: string;
+  allergen: string;
+  reaction: string | null;
+  severity: AllergySeverity;
+  source: AllergySource;
+  created_by: string | null;
+  created_at: string;
+  updated_by: string | null;
+  updated_at: string;
+}
+
+export interface AllergyInput {
+  allergen?: string;
+  reaction?: string | null;
+  severity?: AllergySeverity;
+  source?: AllergySource;
+}
+
+const ALLERGY_COLUMNS = `
+  id, tenant_id, patient_id, allergen, reaction, severity, source,
+  created_by, created_at, updated_by, updated_at,
+  created_by_user:users!patient_allergies_created_by_fkey ( first_name, last_name )
+`;
+
+const MAX_TEXT = 200;
+
+// Validated columns from a request body; `partial` for updates
+export function allergyFields(body: any, { partial = false } = {}) {
+  const fields: AllergyInput = {};
+
+  if (!partial || "allergen" in (body || {})) {
+    const allergen = typeof body?.allergen === "string" ? body.allergen.trim() : "";
+    if (!allergen) throw new AllergyError("allergen is required", 400, "missing_fields");
+    if (allergen.length > MAX_TEXT) throw new AllergyError(`allergen must be at most ${MAX_TEXT} characters`, 400, "invalid_allergy");
+    fields.allergen = allergen;
+  }
+  if ("reaction" in (body || {})) {
+    const reaction = typeof body.reaction === "string" ? body.reaction.trim() : "";
+    if (reaction.length > MAX_TEXT) throw new AllergyError(`reaction must be at most ${MAX_TEXT} characters`, 400, "invalid_allergy");
+    fields.reaction = reaction || null;
+  }
+  if ("severity" in (body || {})) {
+    if (!ALLERGY_SEVERITIES.includes(body.severity)) {
+      throw new AllergyError(`severity must be one of ${ALLERGY_SEVERITIES.join(", ")}`, 400, "invalid_allergy");
+    }
+    fields.severity = body.severity;
+  }
+  if ("source" in (body || {})) {
+    if (!ALLERGY_SOURCES.includes(body.source)) {
+      throw new AllergyError(`source must be one of ${ALLERGY_SOURCES.join(", ")}`, 400, "invalid_allergy");
+    }
+    fields.source = body.source;
+  }
+
+  if (partial && Object.keys(fields).length === 0) {
+    throw new AllergyError("Nothing to update", 400, "missing_fields");
+  }
+  return fields;
+}
+
+// The patient and every duplicate currently merged into it
+async function patientIdsOf(patientId: string) {
+  const { data, error } = await supabaseAdmin.from("patients").select("id").eq("merged_into", patientId);
+  if (error) throw error;
+  return [patientId, ...(data || []).map((row) => row.id as string)];
+}
+
+export async function listAllergies(patientId: string) {
+  const { data, error } = await supabaseAdmin
+    .from("patient_allergies")
+    .select(ALLERGY_COLUMNS)
+    .in("patient_id", await patientIdsOf(patientId))
+    .order("created_at", { ascending: true });
+  if (error) throw error;
+  return (data || []) as unknown as PatientAllergy[];
+}
+
+export async function addAllergy(tenantId: string, patientId: string, fields: AllergyInput, actorId: string) {
+  const { data, error } = await supabaseAdmin
+    .from("patient_allergies")
+    .insert({ ...fields, tenant_id: tenantId, patient_id: patientId, created_by: actorId, updated_by: actorId })
+    .select(ALLERGY_COLUMNS)
+    .single();
+  if (error) throw error;
+  return data as unknown as PatientAllergy;
+}
+
+async function findAllergy(patientId: string, allergyId: string) {
+  const { data, error } = await supabaseAdmin
+    .from("patient_allergies")
+    .select(ALLERGY_COLUMNS)
+    .eq("id", allergyId)
+    .in("patient_id", await patientIdsOf(patientId))
+    .maybeSingle();
+  if (error) throw error;
+  if (!data) throw new AllergyError("Allergy not found", 404, "not_found");
+  return data as unknown as PatientAllergy;
+}
+
+// Returns the allergy before and after the change
+export async function updateAllergy(patientId: string, allergyId: string, fields: AllergyInput, actorId: string) {
+  const before = await findAllergy(patientId, allergyId);
+  const { data, error } = await supabaseAdmin
+    .from("patient_allergies")
+    .update({ ...fields, updated_by: actorId, updated_at: new Date().toISOString() })
+    .eq("id", allergyId)
+    .select(ALLERGY_COLUMNS)
+    .single();
+  if (error) throw error;
+  return { before, after: data as unknown as PatientAllergy };
+}
+
+export async function removeAllergy(patientId: string, allergyId: string) {
+  const allergy = await findAllergy(patientId, allergyId);
+  const { error } = await supabaseAdmin.from("patient_allergies").delete().eq("id", allergyId);
+  if (error) throw error;
+  return allergy;
+}
@@ -0,0 +1,400 @@
+import JSZip from "jszip";
+import { jsPDF } from "jspdf";
+import { supabaseAdmin } from "./supabase";
+import { openPatient, openScannedImage } from "./phiEncryption";
+import { patientAccessHistory } from "./phiAccess";
+import { listAllergies } from "./patientAllergies";
+import { STORAGE_BUCKET, storagePathFromUrl } from "./ocrWorker";
+
+// A patient's copy of their record, for HIPAA right-of-access requests: one
+// zip holding record.json (everything, machine-readable), record.pdf (the
+// same, for people), each medication's scanned label image and each document
+// file. Soft-deleted charts and documents are left out.
+
+export const PATIENT_EXPORT_FORMAT_VERSION = 1;
+
+export class PatientExportError extends Error {
+  status: number;
+  code: string;
+
+  constructor(message: string, status: number, code: string) {
+    super(message);
+    this.name = "PatientExportError";
+    this.status = status;
+    this.code = code;
+  }
+}
+
+// Encryption bookkeeping that means nothing to the patient
+const HIDDEN_PATIENT_COLUMNS = ["phi_key_version", "dob_bidx", "identity_bidx"];
+const HIDDEN_MEDICATION_COLUMNS = ["scanned_image", "scanned_image_encrypted", "phi_key_version"];
+
+const IMAGE_EXTENSIONS: Record<string, string> = {
+  "image/jpeg": "jpg",
+  "image/png": "png",
+  "image/webp": "webp",
+  "image/gif": "gif",
+};
+
+interface BundleFile {
+  path: string;
+  data: Buffer;
+}
+
+export interface PatientExport {
+  filename: string;
+  zip: Buffer;
+  summary: {
+    charts: number;
+    medications: number;
+    documents: number;
+    versions: number;
+    allergies: number;
+    access_log_entries: number;
+    files: number;
+    missing_files: number;
+  };
+}
+
+const omit = (row: Record<string, any>, columns: string[]) =>
+  Object.fromEntries(Object.entries(row).filter(([column]) => !columns.includes(column)));
+
+const personName = (user: { first_name?: string | null; last_name?: string | null } | null | undefined) =>
+  user ? `${user.first_name || ""} ${user.last_name || ""}`.trim() || null : null;
+
+// "Mary O'Neil.pdf" → "Mary_O_Neil.pdf"
+const safeFileName = (name: string) => name.replace(/[^A-Za-z0-9._-]+/g, "_").slice(0, 100) || "file";
+
+function imageFile(medicationId: string, dataUrl: string): BundleFile | null {
+  const match = /^data:(image\/[a-z+.-]+);base64,(.*)$/i.exec(dataUrl);
+  if (!match) return null;
+  const extension = IMAGE_EXTENSIONS[match[1].toLowerCase()] || "img";
+  return { path: `images/${medicationId}.${extension}`, data: Buffer.from(match[2], "base64") };
+}
+
+async function downloadFile(fileUrl: string) {
+  const path = storagePathFromUrl(fileUrl || "");
+  if (!path) throw new Error(`File is not stored in the ${STORAGE_BUCKET} bucket`);
+  const { data, error } = await supabaseAdmin.storage.from(STORAGE_BUCKET).download(path);
+  if (error || !data) throw error || new Error("File is missing");
+  return Buffer.from(await data.arrayBuffer());
+}
+
+// ─── Collect ─────────────────────────────────────────────────────
+
+async function collectRecord(patientId: string, requestedBy: string) {
+  const { data: row, error } = await supabaseAdmin
+    .from("patients")
+    .select("*, assigned_clinician:users!patients_assigned_clinician_id_fkey ( id, first_name, last_name, role )")
+    .eq("id", patientId)
+    .maybeSingle();
+  if (error) throw error;
+  if (!row) throw new PatientExportError("Patient not found", 404, "not_found");
+  const patient = omit(await openPatient(row), HIDDEN_PATIENT_COLUMNS);
+
+  const [{ data: tenant, error: tenantError }, { data: requester, error: requesterError }, { data: charts, error: chartsError }] =
+    await Promise.all([
+      supabaseAdmin.from("tenants").select("id, name").eq("id", row.tenant_id).maybeSingle(),
+      supabaseAdmin.from("users").select("id, first_name, last_name, email").eq("id", requestedBy).maybeSingle(),
+      supabaseAdmin
+        .from("charts")
+        .select("*")
+        .eq("patient_id", patientId)
+        .is("deleted_at", null)
+        .order("created_at", { ascending: true }),
+    ]);
+  if (tenantError) throw tenantError;
+  if (requesterError) throw requesterError;
+  if (chartsError) throw chartsError;
+
+  const chartIds = (charts || []).map((chart) => chart.id);
+  const [
+    { data: medications, error: medicationsError },
+    { data: documents, error: documentsError },
+    { data: notes, error: notesError },
+    { data: versions, error: versionsError },
+    accessLog,
+    allergies,
+  ] = await Promise.all([
+    supabaseAdmin.from("medications").select("*").in("chart_id", chartIds).order("created_at", { ascending: true }),
+    supabaseAdmin
+      .from("documents")
+      .select("id, chart_id, file_name, file_type, file_url, created_at, uploaded_by, ocr_status, ocr_text")
+      .in("chart_id", chartIds)
+      .is("deleted_at", null)
+      .order("created_at", { ascending: true }),
+    supabaseAdmin
+      .from("chart_review_notes")
+      .select("*, reviewer:users!chart_review_notes_created_by_fkey ( first_name, last_name )")
+      .in("chart_id", chartIds)
+      .order("created_at", { ascending: true }),
+    supabaseAdmin
+      .from("chart_versions")
+      .select(
+        "id, chart_id, version_number, reason, chart_status, created_at, created_by, snapshot, created_by_user:users!chart_versions_created_by_fkey ( first_name, last_name )"
+      )
+      .in("chart_id", chartIds)
+      .order("version_number", { ascending: true }),
+    patientAccessHistory(row.tenant_id, patientId),
+    listAllergies(patientId),
+  ]);
+  if (medicationsError) throw medicationsError;
+  if (documentsError) throw documentsError;
+  if (notesError) throw notesError;
+  if (versionsError) throw versionsError;
+
+  const files: BundleFile[] = [];
+  let missingFiles = 0;
+
+  const medicationRows: Record<string, any>[] = [];
+  for (const medication of medications || []) {
+    const image = await openScannedImage(medication);
+    const file = image ? imageFile(medication.id, image) : null;
+    if (file) files.push(file);
+    medicationRows.push({ ...omit(medication, HIDDEN_MEDICATION_COLUMNS), scanned_image_file: file?.path ?? null });
+  }
+
+  const documentRows: Record<string, any>[] = [];
+  for (const { file_url, ...document } of documents || []) {
+    try {
+      const file = { path: `documents/${document.id}-${safeFileName(document.file_name)}`, data: await downloadFile(file_url) };
+      files.push(file);
+      documentRows.push({ ...document, file: file.path });
+    } catch (downloadError: any) {
+      console.error(`Patient export could not include document ${document.id}:`, downloadError);
+      missingFiles += 1;
+      documentRows.push({ ...document, file: null, file_error: "The stored file could not be read" });
+    }
+  }
+
+  const versionRows: Record<string, any>[] = [];
+  for (const version of versions || []) {
+    if (version.snapshot?.patient) {
+      version.snapshot.patient = omit(await openPatient(version.snapshot.patient), HIDDEN_PATIENT_COLUMNS);
+    }
+    versionRows.push(version);
+  }
+
+  const byChart = (rows: Record<string, any>[], chartId: string) => rows.filter((item) => item.chart_id === chartId);
+
+  const record = {
+    format_version: PATIENT_EXPORT_FORMAT_VERSION,
+    generated_at: new Date().toISOString(),
+    generated_by: requester
+      ? { id: requester.id, name: personName(requester), email: requester.email }
+      : { id: requestedBy, name: null, email: null },
+    tenant: tenant ? { id: tenant.id, name: tenant.name } : { id: row.tenant_id, name: null },
+    patient,
+    allergies,
+    charts: (charts || []).map((chart) => ({
+      ...chart,
+      medications: byChart(medicationRows, chart.id),
+      documents: byChart(documentRows, chart.id),
+      review_notes: byChart(notes || [], chart.id),
+      versions: byChart(versionRows, chart.id),
+    })),
+    access_log: accessLog,
+  };
+
+  return { record, files, missingFiles };
+}
+
+type PatientRecord = Awaited<ReturnType<typeof collectRecord>>["record"];
+
+// ─── PDF ─────────────────────────────────────────────────────────
+
+const PAGE_MARGIN = 48;
+const LINE_HEIGHT = 14;
+
+const formatDate = (value: string | null | undefined) => (value ? new Date(value).toISOString().slice(0, 10) : "—");
+const formatDateTime = (value: string | null | undefined) =>
+  value ? new Date(value).toISOString().replace("T", " ").slice(0, 16) + " UTC" : "—";
+const label = (value: string | null | undefined) => (value ? value.replace(/_/g, " ") : "—");
+
+// Top-to-bottom text writer that starts a new page when one fills up
+class PdfWriter {
+  readonly doc = new jsPDF({ unit: "pt", format: "letter" });
+  private y = PAGE_MARGIN;
+  private readonly width = this.doc.internal.pageSize.getWidth() - PAGE_MARGIN * 2;
+  private readonly bottom = this.doc.internal.pageSize.getHeight() - PAGE_MARGIN;
+
+  private ensure(height: number) {
+    if (this.y + height <= this.bottom) return;
+    this.doc.addPage();
+    this.y = PAGE_MARGIN;
+  }
+
+  title(text: string) {
+    this.doc.setFont("helvetica", "bold").setFontSize(18);
+    this.ensure(28);
+    this.doc.text(text, PAGE_MARGIN, this.y);
+    this.y += 28;
+  }
+
+  heading(text: string) {
+    this.doc.setFont("helvetica", "bold").setFontSize(13);
+    this.ensure(LINE_HEIGHT * 3);
+    this.y += LINE_HEIGHT / 2;
+    this.doc.text(text, PAGE_MARGIN, this.y);
+    this.y += LINE_HEIGHT + 4;
+  }
+
+  subheading(text: string) {
+    this.doc.setFont("helvetica", "bold").setFontSize(11);
+    this.ensure(LINE_HEIGHT * 2);
+    this.y += 4;
+    this.doc.text(text, PAGE_MARGIN, this.y);
+    this.y += LINE_HEIGHT;
+  }
+
+  text(text: string, indent = 0) {
+    this.doc.setFont("helvetica", "normal").setFontSize(10);
+    for (const line of this.doc.splitTextToSize(text, this.width - indent) as string[]) {
+      this.ensure(LINE_HEIGHT);
+      this.doc.text(line, PAGE_MARGIN + indent, this.y);
+      this.y += LINE_HEIGHT;
+    }
+  }
+
+  field(name: string, value: unknown, indent = 0) {
+    if (value === null || value === undefined || value === "") return;
+    this.text(`${name}: ${value}`, indent);
+  }
+
+  gap() {
+    this.y += LINE_HEIGHT / 2;
+  }
+
+  footer(caption: string) {
+    const pages = this.doc.getNumberOfPages();
+    this.doc.setFont("helvetica", "normal").setFontSize(8);
+    for (let page = 1; page <= pages; page++) {
+      this.doc.setPage(page);
+      this.doc.text(`${caption} · Page ${page} of ${pages}`, PAGE_MARGIN, this.bottom + PAGE_MARGIN / 2);
+    }
+  }
+}
+
+function buildPdf(record: PatientRecord) {
+  const { patient } = record;
+  const name = `${patient.first_name} ${patient.last_name}`;
+  const pdf = new PdfWriter();
+
+  pdf.title(`Patient record: ${name}`);
+  pdf.field("Provided by", record.tenant.name);
+  pdf.field("Generated", formatDateTime(record.generated_at));
+  pdf.field("Requested by", record.generated_by.name || record.generated_by.email);
+  pdf.text(
+    "Scanned label images and document files are in the images and documents folders of this bundle. " +
+      "record.json holds the same record in machine-readable form."
+  );
+
+  pdf.heading("Demographics");
+  pdf.field("Name", name);
+  pdf.field("Date of birth", patient.date_of_birth);
+  pdf.field("Address", [patient.address_line1, patient.address_line2].filter(Boolean).join(", "));
+  pdf.field("City / State / ZIP", [patient.city, patient.state, patient.zip_code].filter(Boolean).join(", "));
+  pdf.field("Phone", patient.phone);
+  pdf.field("Email", patient.email);
+  pdf.field("Assigned clinician", personName(patient.assigned_clinician));
+  pdf.field("Record created", formatDate(patient.created_at));
+
+  pdf.heading(`Allergies (${record.allergies.length})`);
+  if (record.allergies.length === 0) pdf.text("No allergies recorded.");
+  for (const allergy of record.allergies) {
+    pdf.text(
+      [allergy.allergen, allergy.reaction, allergy.severity !== "unknown" ? allergy.severity : null, label(allergy.source)]
+        .filter(Boolean)
+        .join(" · ")
+    );
+  }
+
+  if (record.charts.length === 0) {
+    pdf.heading("Charts");
+    pdf.text("No charts.");
+  }
+  record.charts.forEach((chart, index) => {
+    pdf.heading(`Chart ${index + 1} of ${record.charts.length} (${formatDate(chart.created_at)})`);
+    pdf.field("Status", label(chart.status));
+    pdf.field("Source", label(chart.source));
+    pdf.field("Finalized", chart.finalized_at && formatDateTime(chart.finalized_at));
+    pdf.field("First delivered", chart.first_delivered_at && formatDateTime(chart.first_delivered_at));
+
+    pdf.subheading(`Medications (${chart.medications.length})`);
+    if (chart.medications.length === 0) pdf.text("None recorded.");
+    for (const medication of chart.medications) {
+      pdf.text([medication.drug_name, medication.strength].filter(Boolean).join(" "), 8);
+      pdf.field("Route / frequency", [medication.route, medication.frequency].filter(Boolean).join(", "), 20);
+      pdf.field("Prescriber", medication.prescriber, 20);
+      pdf.field("Instructions", medication.instructions, 20);
+      pdf.field("Notes", medication.notes, 20);
+      pdf.field("Verified", medication.verified ? "Yes" : "No", 20);
+      pdf.field("Scanned label", medication.scanned_image_file, 20);
+    }
+
+    pdf.subheading(`Documents (${chart.documents.length})`);
+    if (chart.documents.length === 0) pdf.text("None.");
+    for (const document of chart.documents) {
+      pdf.text(`${document.file_name} (uploaded ${formatDate(document.created_at)})`, 8);
+      pdf.field("File", document.file || "could not be included", 20);
+    }
+
+    pdf.subheading(`Review notes (${chart.review_notes.length})`);
+    if (chart.review_notes.length === 0) pdf.text("None.");
+    for (const note of chart.review_notes) {
+      pdf.text(`${formatDateTime(note.created_at)}, ${personName(note.reviewer) || "unknown reviewer"}:`, 8);
+      pdf.text(note.note || "", 20);
+    }
+
+    pdf.subheading(`Version history (${chart.versions.length})`);
+    if (chart.versions.length === 0) pdf.text("No versions.");
+    for (const version of chart.versions) {
+      pdf.text(
+        `#${version.version_number} ${formatDateTime(version.created_at)} · ${label(version.reason)} · ` +
+          `${label(version.chart_status)} · ${personName(version.created_by_user as any) || "system"}`,
+        8
+      );
+    }
+    pdf.gap();
+  });
+
+  pdf.heading(`Access log (${record.access_log.length})`);
+  pdf.text("Every time staff opened this patient's records through the application, newest first.");
+  pdf.gap();
+  if (record.access_log.length === 0) pdf.text("No recorded access.");
+  for (const access of record.access_log) {
+    const who = personName(access.user) || access.user?.email || "unknown user";
+    pdf.text(`${formatDateTime(access.created_at)} · ${who} (${label(access.user?.role)}) · ${access.entity_type}`, 8);
+  }
+
+  pdf.footer(`${name} · generated ${formatDate(record.generated_at)}`);
+  return Buffer.from(pdf.doc.output("arraybuffer"));
+}
+
+// ─── Bundle ──────────────────────────────────────────────────────
+
+export async function buildPatientExport(patientId: string, requestedBy: string): Promise<PatientExport> {
+  const { record, files, missingFiles } = await collectRecord(patientId, requestedBy);
+
+  const zip = new JSZip();
+  zip.file("record.json", JSON.stringify(record, null, 2));
+  zip.file("record.pdf", buildPdf(record));
+  for (const file of files) zip.file(file.path, file.data);
+
+  const { patient } = record;
+  const stem = safeFileName(`${patient.last_name}_${patient.first_name}`);
+  return {
+    filename: `patient-record-${stem}-${record.generated_at.slice(0, 10)}.zip`,
+    zip: await zip.generateAsync({ type: "nodebuffer", compression: "DEFLATE" }),
+    summary: {
+      charts: record.charts.length,
+      medications: record.charts.reduce((total, chart) => total + chart.medications.length, 0),
+      documents: record.charts.reduce((total, chart) => total + chart.documents.length, 0),
+      versions: record.charts.reduce((total, chart) => total + chart.versions.length, 0),
+      allergies: record.allergies.length,
+      access_log_entries: record.access_log.length,
+      files: files.length,
+      missing_files: missingFiles,
+    },
+  };
+}
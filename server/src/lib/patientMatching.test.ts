@@ -0,0 +1,125 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+
+// Duplicate-patient scoring is pure; the Supabase environment is only there
+// because phiEncryption loads the client, and any network call fails the test.
+
+process.env.SUPABASE_URL = "http://supabase.test";
+process.env.SUPABASE_ANON_KEY = "anon-key";
+process.env.SUPABASE_SERVICE_ROLE_KEY = "service-role-key";
+
+globalThis.fetch = (async (input: any) => {
+  throw new Error(`Unexpected network request to ${String(input)}`);
+}) as typeof fetch;
+
+const MARGARET = { first_name: "Margaret", last_name: "Johnson", date_of_birth: "1948-03-15" };
+
+test("jaroWinkler", async (t) => {
+  const { jaroWinkler } = await import("./patientMatching");
+
+  await t.test("matches the textbook values", () => {
+    assert.ok(Math.abs(jaroWinkler("martha", "marhta") - 0.961) < 0.001);
+    assert.ok(Math.abs(jaroWinkler("dwayne", "duane") - 0.84) < 0.001);
+    assert.ok(Math.abs(jaroWinkler("dixon", "dicksonx") - 0.813) < 0.001);
+  });
+
+  await t.test("identical strings score 1 and empty input 0", () => {
+    assert.equal(jaroWinkler("johnson", "johnson"), 1);
+    assert.equal(jaroWinkler("johnson", ""), 0);
+  });
+});
+
+test("scorePatientMatch", async (t) => {
+  const { scorePatientMatch, LIKELY_MATCH_SCORE, POSSIBLE_MATCH_SCORE } = await import("./patientMatching");
+
+  const levelFor = (score: number) =>
+    score >= LIKELY_MATCH_SCORE ? "likely" : score >= POSSIBLE_MATCH_SCORE ? "possible" : null;
+
+  await t.test("the same name and date of birth is a likely match", () => {
+    const match = scorePatientMatch(MARGARET, { ...MARGARET });
+    assert.equal(match.score, 80);
+    assert.equal(match.level, "likely");
+    assert.deepEqual(match.reasons, ["Same name", "Same date of birth"]);
+  });
+
+  await t.test("a typo in either name is a similar name", () => {
+    for (const other of [{ ...MARGARET, last_name: "Jonhson" }, { ...MARGARET, first_name: "Margret" }]) {
+      const match = scorePatientMatch(MARGARET, other);
+      assert.equal(match.level, "possible");
+      assert.deepEqual(match.reasons, ["Similar name", "Same date of birth"]);
+    }
+  });
+
+  await t.test("a nickname is possible, and likely with a shared ZIP code", () => {
+    const nickname = scorePatientMatch(MARGARET, { ...MARGARET, first_name: "Peggy" });
+    assert.equal(nickname.level, "possible");
+    assert.deepEqual(nickname.reasons, ["Nickname of the same first name", "Same date of birth"]);
+
+    const withZip = scorePatientMatch(
+      { ...MARGARET, zip_code: "02139" },
+      { ...MARGARET, first_name: "Peggy", zip_code: "02139-1234" }
+    );
+    assert.equal(withZip.level, "likely");
+    assert.deepEqual(withZip.reasons, ["Nickname of the same first name", "Same date of birth", "Same ZIP code"]);
+  });
+
+  await t.test("swapped first and last names", () => {
+    const match = scorePatientMatch(MARGARET, { ...MARGARET, first_name: "Johnson", last_name: "Margaret" });
+    assert.equal(match.level, "possible");
+    assert.deepEqual(match.reasons, ["First and last name swapped", "Same date of birth"]);
+  });
+
+  await t.test("dates of birth keyed in wrong", () => {
+    const cases: [string, string, string][] = [
+      ["1948-03-05", "1948-05-03", "Date of birth with month and day swapped"],
+      ["1948-03-15", "1984-03-15", "Date of birth with two digits transposed"],
+      ["1948-03-15", "1948-03-16", "Date of birth one digit apart"],
+      ["1948-03-20", "1948-03-19", "Date of birth a day apart"],
+    ];
+    for (const [probe, other, reason] of cases) {
+      const match = scorePatientMatch(
+        { ...MARGARET, date_of_birth: probe },
+        { ...MARGARET, date_of_birth: other }
+      );
+      assert.equal(match.level, "possible", `${probe} vs ${other}`);
+      assert.deepEqual(match.reasons, ["Same name", reason]);
+    }
+  });
+
+  await t.test("the same phone, address and ZIP despite formatting", () => {
+    const match = scorePatientMatch(
+      { first_name: "Margaret", last_name: "Johnson", phone: "(555) 123-4567", address_line1: "12 Oak Street", zip_code: "02139" },
+      { first_name: "Maggie", last_name: "Johnston", phone: "555.123.4567", address_line1: "12 oak st", zip_code: "02139" }
+    );
+    assert.equal(match.level, "possible");
+    assert.deepEqual(match.reasons, ["Nickname of the same first name", "Same phone", "Same address", "Same ZIP code"]);
+  });
+
+  await t.test("the same name alone is not enough", () => {
+    const match = scorePatientMatch(MARGARET, { ...MARGARET, date_of_birth: "1970-01-01" });
+    assert.equal(match.score, 50);
+    assert.equal(match.level, null);
+  });
+
+  await t.test("a different person is no match", () => {
+    const match = scorePatientMatch(MARGARET, { first_name: "Robert", last_name: "Smith", date_of_birth: "1960-07-01" });
+    assert.equal(match.level, null);
+    assert.deepEqual(match.reasons, []);
+  });
+
+  await t.test("levels follow the likely and possible thresholds", () => {
+    const others = [
+      { ...MARGARET },
+      { ...MARGARET, first_name: "Peggy" },
+      { ...MARGARET, date_of_birth: "1948-05-03" },
+      { ...MARGARET, date_of_birth: "1970-01-01" },
+      { first_name: "Robert", last_name: "Smith" },
+    ];
+    const levels = others.map((other) => {
+      const match = scorePatientMatch(MARGARET, other);
+      assert.equal(match.level, levelFor(match.score), `score ${match.score}`);
+      return match.level;
+    });
+    assert.deepEqual(new Set(levels), new Set(["likely", "possible", null]));
+  });
+});
@@ -0,0 +1,315 @@
+import type { UserScopedClient } from "./supabase";
+import { dateOfBirthIndexes, normalizeDateOfBirth, openPatients } from "./phiEncryption";
+
+// Possible duplicate patients. Exact lookups (GET /api/patients/lookup) miss
+// typos, nicknames and mistyped dates of birth, so candidates are scored on
+// name similarity, date-of-birth distance, phone and address. Names are
+// stored in plaintext and narrow the field; the date of birth blind index adds
+// exact-DOB matches whatever the name. Only those candidates are decrypted and
+// scored in full.
+
+export interface PatientProbe {
+  first_name: string;
+  last_name: string;
+  date_of_birth?: string | null;
+  phone?: string | null;
+  address_line1?: string | null;
+  zip_code?: string | null;
+}
+
+export type MatchLevel = "likely" | "possible";
+
+export interface MatchScore {
+  score: number; // 0-100
+  level: MatchLevel | null;
+  reasons: string[];
+}
+
+// Weights add up to 100
+const NAME_WEIGHT = 50;
+const DOB_WEIGHT = 30;
+const PHONE_WEIGHT = 10;
+const ADDRESS_WEIGHT = 7;
+const ZIP_WEIGHT = 3;
+
+export const LIKELY_MATCH_SCORE = 80;
+export const POSSIBLE_MATCH_SCORE = 60;
+
+// Name similarity (0-1) a patient needs to be scored at all
+const NAME_PREFILTER = 0.75;
+const MAX_SCORED = 200;
+const MAX_RESULTS = 10;
+const NAME_PAGE = 1000;
+
+// Common given-name variants, both ways
+const NICKNAME_GROUPS = [
+  ["robert", "bob", "bobby", "rob", "robbie", "bert"],
+  ["william", "bill", "billy", "will", "willie", "liam"],
+  ["richard", "rick", "ricky", "dick", "rich"],
+  ["james", "jim", "jimmy", "jamie"],
+  ["john", "jack", "johnny", "jon"],
+  ["joseph", "joe", "joey"],
+  ["thomas", "tom", "tommy"],
+  ["charles", "charlie", "chuck", "chas"],
+  ["michael", "mike", "mikey", "mick"],
+  ["edward", "ed", "eddie", "ted", "ned"],
+  ["anthony", "tony"],
+  ["daniel", "dan", "danny"],
+  ["david", "dave", "davey"],
+  ["steven", "stephen", "steve"],
+  ["christopher", "chris", "kit"],
+  ["nicholas", "nick", "nicky"],
+  ["matthew", "matt"],
+  ["andrew", "andy", "drew"],
+  ["benjamin", "ben", "benny"],
+  ["samuel", "sam", "sammy"],
+  ["alexander", "alex", "al"],
+  ["lawrence", "larry"],
+  ["gerald", "gerry", "jerry"],
+  ["patrick", "pat", "paddy"],
+  ["margaret", "maggie", "meg", "peggy", "marge", "margie"],
+  ["elizabeth", "liz", "lizzie", "beth", "betty", "betsy", "eliza", "libby"],
+  ["katherine", "catherine", "kathryn", "kate", "katie", "kathy", "cathy", "kat"],
+  ["patricia", "pat", "patty", "trish", "tricia"],
+  ["jennifer", "jen", "jenny"],
+  ["susan", "sue", "suzy"],
+  ["deborah", "debra", "deb", "debbie"],
+  ["barbara", "barb", "barbie"],
+  ["dorothy", "dot", "dottie"],
+  ["rebecca", "becky", "becca"],
+  ["victoria", "vicky", "tori"],
+  ["christine", "christina", "chris", "tina"],
+  ["theresa", "teresa", "terry", "tess"],
+  ["virginia", "ginny", "ginger"],
+  ["josephine", "jo", "josie"],
+  ["alexandra", "alex", "sandra", "sandy"],
+];
+
+const NICKNAMES = new Map<string, Set<string>>();
+for (const group of NICKNAME_GROUPS) {
+  for (const name of group) {
+    const variants = NICKNAMES.get(name) ?? new Set<string>();
+    group.forEach((other) => other !== name && variants.add(other));
+    NICKNAMES.set(name, variants);
+  }
+}
+
+// "  José-María " → "josemaria"
+function normalizeName(value: string | null | undefined) {
+  return (value || "")
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[^a-z]/g, "");
+}
+
+const digits = (value: string | null | undefined) => (value || "").replace(/\D/g, "");
+
+function normalizeAddress(value: string | null | undefined) {
+  return (value || "")
+    .toLowerCase()
+    .replace(/\b(street|st)\b/g, "st")
+    .replace(/\b(avenue|ave)\b/g, "ave")
+    .replace(/\b(road|rd)\b/g, "rd")
+    .replace(/\b(drive|dr)\b/g, "dr")
+    .replace(/\b(lane|ln)\b/g, "ln")
+    .replace(/\b(boulevard|blvd)\b/g, "blvd")
+    .replace(/\b(apartment|apt|unit|suite|ste)\b/g, "#")
+    .replace(/[^a-z0-9#]/g, "");
+}
+
+// Jaro-Winkler similarity, 0-1
+export function jaroWinkler(a: string, b: string) {
+  if (!a || !b) return 0;
+  if (a === b) return 1;
+
+  const window = Math.max(0, Math.floor(Math.max(a.length, b.length) / 2) - 1);
+  const aMatched = new Array<boolean>(a.length).fill(false);
+  const bMatched = new Array<boolean>(b.length).fill(false);
+  let matches = 0;
+  for (let i = 0; i < a.length; i++) {
+    for (let j = Math.max(0, i - window); j < Math.min(b.length, i + window + 1); j++) {
+      if (bMatched[j] || a[i] !== b[j]) continue;
+      aMatched[i] = bMatched[j] = true;
+      matches++;
+      break;
+    }
+  }
+  if (matches === 0) return 0;
+
+  let transpositions = 0;
+  for (let i = 0, j = 0; i < a.length; i++) {
+    if (!aMatched[i]) continue;
+    while (!bMatched[j]) j++;
+    if (a[i] !== b[j]) transpositions++;
+    j++;
+  }
+  const jaro = (matches / a.length + matches / b.length + (matches - transpositions / 2) / matches) / 3;
+
+  let prefix = 0;
+  while (prefix < Math.min(4, a.length, b.length) && a[prefix] === b[prefix]) prefix++;
+  return jaro + prefix * 0.1 * (1 - jaro);
+}
+
+function firstNameSimilarity(a: string, b: string) {
+  if (NICKNAMES.get(a)?.has(b)) return { similarity: 0.95, nickname: true };
+  // "J" for "James"
+  const initial = (a.length === 1 || b.length === 1) && a[0] === b[0] ? 0.85 : 0;
+  return { similarity: Math.max(jaroWinkler(a, b), initial), nickname: false };
+}
+
+// Name similarity 0-1: last name weighs a little more than first name, and
+// first and last swapped counts with a small penalty
+function nameSimilarity(probe: { first_name: string; last_name: string }, other: { first_name: string; last_name: string }) {
+  const [pFirst, pLast] = [normalizeName(probe.first_name), normalizeName(probe.last_name)];
+  const [oFirst, oLast] = [normalizeName(other.first_name), normalizeName(other.last_name)];
+
+  const first = firstNameSimilarity(pFirst, oFirst);
+  const direct = 0.55 * jaroWinkler(pLast, oLast) + 0.45 * first.similarity;
+  const swapped = 0.9 * (0.55 * jaroWinkler(pLast, oFirst) + 0.45 * jaroWinkler(pFirst, oLast));
+  return direct >= swapped
+    ? { similarity: direct, nickname: first.nickname, swapped: false }
+    : { similarity: swapped, nickname: false, swapped: true };
+}
+
+// How close two YYYY-MM-DD dates are as typed: 1 the same, 0.8 month and
+// day swapped, 0.75 one digit wrong or two neighbours swapped, 0.6 a day apart
+function dateOfBirthSimilarity(a: string | null, b: string | null) {
+  if (!a || !b) return { similarity: 0, reason: null };
+  if (a === b) return { similarity: 1, reason: "Same date of birth" };
+
+  const [ay, am, ad] = a.split("-");
+  const [by, bm, bd] = b.split("-");
+  if (ay === by && am === bd && ad === bm) {
+    return { similarity: 0.8, reason: "Date of birth with month and day swapped" };
+  }
+
+  const aDigits = a.replace(/-/g, "");
+  const bDigits = b.replace(/-/g, "");
+  const differing = [...aDigits].map((digit, i) => (digit === bDigits[i] ? -1 : i)).filter((i) => i >= 0);
+  if (differing.length === 1) return { similarity: 0.75, reason: "Date of birth one digit apart" };
+  if (
+    differing.length === 2 &&
+    differing[1] === differing[0] + 1 &&
+    aDigits[differing[0]] === bDigits[differing[1]] &&
+    aDigits[differing[1]] === bDigits[differing[0]]
+  ) {
+    return { similarity: 0.75, reason: "Date of birth with two digits transposed" };
+  }
+
+  const days = Math.abs(Date.parse(a) - Date.parse(b)) / (24 * 60 * 60 * 1000);
+  if (days <= 1) return { similarity: 0.6, reason: "Date of birth a day apart" };
+  return { similarity: 0, reason: null };
+}
+
+export function scorePatientMatch(probe: PatientProbe, other: PatientProbe): MatchScore {
+  const reasons: string[] = [];
+  let score = 0;
+
+  const name = nameSimilarity(probe, other);
+  score += NAME_WEIGHT * name.similarity;
+  if (name.similarity >= 0.99) reasons.push("Same name");
+  else if (name.swapped) reasons.push("First and last name swapped");
+  else if (name.nickname) reasons.push("Nickname of the same first name");
+  else if (name.similarity >= NAME_PREFILTER) reasons.push("Similar name");
+
+  let probeDob: string | null = null;
+  let otherDob: string | null = null;
+  try {
+    probeDob = normalizeDateOfBirth(probe.date_of_birth);
+    otherDob = normalizeDateOfBirth(other.date_of_birth);
+  } catch {
+    // An unreadable date simply does not count
+  }
+  const dob = dateOfBirthSimilarity(probeDob, otherDob);
+  score += DOB_WEIGHT * dob.similarity;
+  if (dob.reason) reasons.push(dob.reason);
+
+  const [probePhone, otherPhone] = [digits(probe.phone).slice(-10), digits(other.phone).slice(-10)];
+  if (probePhone.length >= 7 && probePhone === otherPhone) {
+    score += PHONE_WEIGHT;
+    reasons.push("Same phone");
+  }
+
+  const [probeAddress, otherAddress] = [normalizeAddress(probe.address_line1), normalizeAddress(other.address_line1)];
+  if (probeAddress && probeAddress === otherAddress) {
+    score += ADDRESS_WEIGHT;
+    reasons.push("Same address");
+  }
+
+  const [probeZip, otherZip] = [digits(probe.zip_code).slice(0, 5), digits(other.zip_code).slice(0, 5)];
+  if (probeZip.length === 5 && probeZip === otherZip) {
+    score += ZIP_WEIGHT;
+    reasons.push("Same ZIP code");
+  }
+
+  const rounded = Math.round(score);
+  const level = rounded >= LIKELY_MATCH_SCORE ? "likely" : rounded >= POSSIBLE_MATCH_SCORE ? "possible" : null;
+  return { score: rounded, level, reasons };
+}
+
+// Patients in the tenant that may be the same person as `probe`, best first.
+// Read with the caller's client, so RLS decides who can be suggested (merged
+// patients are hidden there too).
+export async function findDuplicateCandidates(
+  client: UserScopedClient,
+  tenantId: string,
+  probe: PatientProbe,
+  { excludeId }: { excludeId?: string } = {}
+) {
+  const byName: { id: string; similarity: number }[] = [];
+  for (let offset = 0; ; offset += NAME_PAGE) {
+    const { data, error } = await client
+      .from("patients")
+      .select("id, first_name, last_name")
+      .eq("tenant_id", tenantId)
+      .order("id")
+      .range(offset, offset + NAME_PAGE - 1);
+    if (error) throw error;
+    for (const row of data || []) {
+      const { similarity } = nameSimilarity(probe, row);
+      if (similarity >= NAME_PREFILTER) byName.push({ id: row.id, similarity });
+    }
+    if (!data || data.length < NAME_PAGE) break;
+  }
+
+  const ids = new Set(
+    byName
+      .sort((a, b) => b.similarity - a.similarity)
+      .slice(0, MAX_SCORED)
+      .map((candidate) => candidate.id)
+  );
+
+  const dob = (() => {
+    try {
+      return normalizeDateOfBirth(probe.date_of_birth);
+    } catch {
+      return null;
+    }
+  })();
+  if (dob) {
+    const { data, error } = await client
+      .from("patients")
+      .select("id")
+      .eq("tenant_id", tenantId)
+      .in("dob_bidx", await dateOfBirthIndexes(tenantId, dob))
+      .limit(MAX_SCORED);
+    if (error) throw error;
+    (data || []).forEach((row: { id: string }) => ids.add(row.id));
+  }
+  if (excludeId) ids.delete(excludeId);
+  if (ids.size === 0) return [];
+
+  const { data: rows, error } = await client
+    .from("patients")
+    .select("*, charts:charts!charts_patient_id_fkey ( id, status, created_at )")
+    .in("id", [...ids]);
+  if (error) throw error;
+
+  const patients = await openPatients((rows || []) as any[]);
+  return patients
+    .map((patient) => ({ patient, match: scorePatientMatch(probe, patient) }))
+    .filter(({ match }) => match.level !== null)
+    .sort((a, b) => b.match.score - a.match.score)
+    .slice(0, MAX_RESULTS);
+}
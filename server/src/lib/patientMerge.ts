@@ -0,0 +1,120 @@
+import { supabaseAdmin } from "./supabase";
+import { openPatients } from "./phiEncryption";
+import { scorePatientMatch } from "./patientMatching";
+
+// Merging a duplicate patient into the record that survives
+// (database_migrations/patient_merge.sql). The duplicate's charts move over,
+// taking their documents and medications with them; the duplicate is kept,
+// hidden, so undoMerge can move everything back.
+
+export class PatientMergeError extends Error {
+  status: number;
+  code: string;
+
+  constructor(message: string, status: number, code: string) {
+    super(message);
+    this.name = "PatientMergeError";
+    this.status = status;
+    this.code = code;
+  }
+}
+
+export interface PatientMerge {
+  id: string;
+  tenant_id: string;
+  survivor_id: string;
+  merged_id: string;
+  chart_ids: string[];
+  document_count: number;
+  medication_count: number;
+  match_score: number | null;
+  reason: string | null;
+  merged_by: string | null;
+  merged_at: string;
+  undone_by: string | null;
+  undone_at: string | null;
+}
+
+const MERGE_COLUMNS = `
+  *,
+  survivor:patients!patient_merges_survivor_id_fkey ( id, first_name, last_name ),
+  merged:patients!patient_merges_merged_id_fkey ( id, first_name, last_name ),
+  merged_by_user:users!patient_merges_merged_by_fkey ( first_name, last_name ),
+  undone_by_user:users!patient_merges_undone_by_fkey ( first_name, last_name )
+`;
+
+// The functions re-check everything under lock; these codes mean another
+// request changed one of the patients first
+function mergeRpcError(error: any) {
+  if (error?.code === "LR404") return new PatientMergeError("Patient or merge not found", 404, "not_found");
+  if (error?.code === "LR409") return new PatientMergeError(error.message, 409, "merge_conflict");
+  return error;
+}
+
+export async function mergePatients(
+  survivorId: string,
+  mergedId: string,
+  actorId: string,
+  { reason }: { reason?: string | null } = {}
+) {
+  if (survivorId === mergedId) {
+    throw new PatientMergeError("A patient cannot be merged into itself", 400, "same_patient");
+  }
+
+  const { data: rows, error } = await supabaseAdmin.from("patients").select("*").in("id", [survivorId, mergedId]);
+  if (error) throw error;
+  const [survivor, merged] = [survivorId, mergedId].map((id) => (rows || []).find((row) => row.id === id));
+  if (!survivor || !merged || survivor.tenant_id !== merged.tenant_id) {
+    throw new PatientMergeError("Patient not found", 404, "not_found");
+  }
+  if (survivor.merged_into || merged.merged_into) {
+    throw new PatientMergeError("One of the patients has already been merged", 409, "already_merged");
+  }
+
+  const [{ count: mergedInto, error: mergedIntoError }, { data: held, error: holdError }] = await Promise.all([
+    supabaseAdmin.from("patients").select("id", { count: "exact", head: true }).eq("merged_into", mergedId),
+    supabaseAdmin.rpc("retention_hold_active", { p_tenant_id: merged.tenant_id, p_patient_id: mergedId }),
+  ]);
+  if (mergedIntoError) throw mergedIntoError;
+  if (holdError) throw holdError;
+  if (mergedInto) {
+    throw new PatientMergeError(
+      "Other patients were merged into this one; merge it the other way or undo those merges first",
+      409,
+      "has_merged_patients"
+    );
+  }
+  if (held) {
+    throw new PatientMergeError("The patient being merged is under a legal hold", 409, "legal_hold");
+  }
+
+  const [openedSurvivor, openedMerged] = await openPatients([survivor, merged]);
+  const { score } = scorePatientMatch(openedSurvivor, openedMerged);
+
+  const { data, error: mergeError } = await supabaseAdmin.rpc("merge_patients", {
+    p_survivor_id: survivorId,
+    p_merged_id: mergedId,
+    p_actor_id: actorId,
+    p_match_score: score,
+    p_reason: reason ?? null,
+  });
+  if (mergeError) throw mergeRpcError(mergeError);
+  return data as PatientMerge;
+}
+
+export async function undoMerge(mergeId: string, actorId: string) {
+  const { data, error } = await supabaseAdmin.rpc("undo_patient_merge", { p_merge_id: mergeId, p_actor_id: actorId });
+  if (error) throw mergeRpcError(error);
+  return data as PatientMerge;
+}
+
+// Merges into or out of a patient, newest first
+export async function listMerges(patientId: string) {
+  const { data, error } = await supabaseAdmin
+    .from("patient_merges")
+    .select(MERGE_COLUMNS)
+    .or(`survivor_id.eq.${patientId},merged_id.eq.${patientId}`)
+    .order("merged_at", { ascending: false });
+  if (error) throw error;
+  return data || [];
+}
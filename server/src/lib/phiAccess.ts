@@ -0,0 +1,149 @@
+import { supabaseAdmin } from "./supabase";
+import { writeAuditLogs } from "./audit";
+
+// PHI access log (database_migrations/phi_access_logging.sql). Every read of a
+// patient, chart, medication or document through the API is written to
+// audit_logs as a 'viewed' row with metadata.patient_id, so a patient's
+// "accessed by" report is one indexed query.
+
+export type PhiEntityType = "patient" | "chart" | "medication" | "document";
+
+export interface PhiAccess {
+  tenantId: string;
+  patientId: string | null; // null for documents not yet attached to a chart
+  entityType: PhiEntityType;
+  entityId: string;
+  chartId?: string | null; // the chart the record belongs to, for chart audit timelines
+}
+
+interface RequestLike {
+  ip?: string;
+  method?: string;
+  originalUrl?: string;
+  url?: string;
+  headers?: Record<string, string | string[] | undefined>;
+  auth?: { userId: string; impersonation?: any };
+}
+
+const REPORT_LIMIT = 500;
+const HISTORY_BATCH = 1000;
+
+// Tenant and patient behind a record, or null if it does not exist
+export async function phiOwner(entityType: PhiEntityType, entityId: string): Promise<PhiAccess | null> {
+  if (entityType === "patient") {
+    const { data, error } = await supabaseAdmin.from("patients").select("id, tenant_id").eq("id", entityId).maybeSingle();
+    if (error) throw error;
+    return data && { tenantId: data.tenant_id, patientId: data.id, entityType, entityId };
+  }
+
+  if (entityType === "chart") {
+    const { data, error } = await supabaseAdmin
+      .from("charts")
+      .select("tenant_id, patient_id")
+      .eq("id", entityId)
+      .maybeSingle();
+    if (error) throw error;
+    return data && { tenantId: data.tenant_id, patientId: data.patient_id, entityType, entityId, chartId: entityId };
+  }
+
+  const { data, error } = await supabaseAdmin
+    .from(entityType === "medication" ? "medications" : "documents")
+    .select("tenant_id, chart_id, chart:charts ( patient_id )")
+    .eq("id", entityId)
+    .maybeSingle();
+  if (error) throw error;
+  const chart = data?.chart as { patient_id: string } | { patient_id: string }[] | null | undefined;
+  const patientId = (Array.isArray(chart) ? chart[0]?.patient_id : chart?.patient_id) ?? null;
+  return data && { tenantId: data.tenant_id, patientId, entityType, entityId, chartId: data.chart_id ?? null };
+}
+
+// Write one 'viewed' row per record read by the request. Unlike writeAuditLog
+// a failed write throws: the caller must not hand out PHI it could not log.
+export async function recordPhiAccess(req: RequestLike, accesses: PhiAccess[]) {
+  if (!req.auth || accesses.length === 0) return;
+
+  const path = (req.originalUrl || req.url || "").split("?")[0];
+  const { error } = await writeAuditLogs(
+    accesses.map((access) => ({
+      tenantId: access.tenantId,
+      userId: req.auth!.userId,
+      entityType: access.entityType,
+      entityId: access.entityId,
+      action: "viewed",
+      metadata: {
+        patient_id: access.patientId,
+        ...(access.chartId ? { chart_id: access.chartId } : {}),
+        phi_access: { method: req.method, path },
+      },
+    })),
+    req
+  );
+  if (error) throw error;
+}
+
+const patientAccessQuery = (tenantId: string, patientId: string) =>
+  supabaseAdmin
+    .from("audit_logs")
+    .select(`
+      id, user_id, entity_type, entity_id, created_at, ip_address, user_agent, metadata,
+      user:users!audit_logs_user_id_fkey ( first_name, last_name, email, role )
+    `)
+    .eq("tenant_id", tenantId)
+    .eq("action", "viewed")
+    .eq("metadata->>patient_id", patientId)
+    .order("created_at", { ascending: false });
+
+const toAccess = ({ metadata, ...row }: any) => ({
+  ...row,
+  path: metadata?.phi_access?.path ?? null,
+  impersonation: metadata?.impersonation ?? null,
+});
+
+// Who viewed a patient's records, newest first, plus a per-user summary
+export async function patientAccessReport(
+  tenantId: string,
+  patientId: string,
+  options: { since?: string; until?: string; limit?: number } = {}
+) {
+  const limit = Math.min(Math.max(options.limit || REPORT_LIMIT, 1), REPORT_LIMIT);
+
+  let query = patientAccessQuery(tenantId, patientId).limit(limit);
+  if (options.since) query = query.gte("created_at", options.since);
+  if (options.until) query = query.lt("created_at", options.until);
+
+  const { data, error } = await query;
+  if (error) throw error;
+
+  const accesses = (data || []).map(toAccess);
+
+  const byUser = new Map<string, { user_id: string; user: any; views: number; first_viewed_at: string; last_viewed_at: string }>();
+  for (const access of accesses) {
+    const entry = byUser.get(access.user_id);
+    if (!entry) {
+      byUser.set(access.user_id, {
+        user_id: access.user_id,
+        user: access.user,
+        views: 1,
+        first_viewed_at: access.created_at,
+        last_viewed_at: access.created_at,
+      });
+    } else {
+      entry.views += 1;
+      entry.first_viewed_at = access.created_at;
+    }
+  }
+
+  return { accesses, users: Array.from(byUser.values()), truncated: accesses.length === limit };
+}
+
+// Every logged read of a patient's records, newest first (for the patient's
+// own copy of their record, where the 500 entry cap does not apply)
+export async function patientAccessHistory(tenantId: string, patientId: string) {
+  const accesses: ReturnType<typeof toAccess>[] = [];
+  for (let offset = 0; ; offset += HISTORY_BATCH) {
+    const { data, error } = await patientAccessQuery(tenantId, patientId).range(offset, offset + HISTORY_BATCH - 1);
+    if (error) throw error;
+    accesses.push(...(data || []).map(toAccess));
+    if (!data || data.length < HISTORY_BATCH) return accesses;
+  }
+}
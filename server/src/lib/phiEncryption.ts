@@ -0,0 +1,396 @@
+import crypto from "crypto";
+import { supabaseAdmin } from "./supabase";
+import { keyFromEnv, openSecret, sealSecret } from "./secretBox";
+
+// Field-level encryption of patient PHI (database_migrations/patient_phi_encryption.sql).
+// Each tenant has versioned keys, sealed with PHI_MASTER_KEY. A version has a
+// data key that encrypts fields (AES-256-GCM, see secretBox) and an index key
+// for blind indexes: HMACs of the normalized date of birth and of name + date
+// of birth, so exact lookups work without the plaintext. Rotating adds a new
+// active version; the re-encryption job at the bottom moves rows onto it and
+// retires the old one once nothing uses it.
+
+const KEY_CACHE_MS = 60 * 1000;
+const SWEEP_INTERVAL_MS = Number(process.env.PHI_REENCRYPTION_INTERVAL_MS || 60 * 1000);
+const SWEEP_BATCH_SIZE = 50;
+// Batches per sweep, so one sweep cannot run for ever
+const SWEEP_MAX_BATCHES = 20;
+
+export class PhiEncryptionError extends Error {
+  status: number;
+  code: string;
+
+  constructor(message: string, status: number, code: string) {
+    super(message);
+    this.name = "PhiEncryptionError";
+    this.status = status;
+    this.code = code;
+  }
+}
+
+export const PATIENT_PHI_FIELDS = ["date_of_birth", "address_line1", "address_line2", "phone", "email"] as const;
+export type PatientPhiField = (typeof PATIENT_PHI_FIELDS)[number];
+export type PatientPhi = Partial<Record<PatientPhiField, string | null>>;
+
+// Stored with the row, never returned to clients
+const PATIENT_CIPHER_COLUMNS = [
+  ...PATIENT_PHI_FIELDS.map((field) => `${field}_encrypted`),
+  "dob_bidx",
+  "identity_bidx",
+  "phi_key_version",
+];
+
+// Select these with any patient columns that include PHI, so openPatient can
+// decrypt them (nested selects too)
+export const PATIENT_PHI_COLUMNS = ["tenant_id", ...PATIENT_PHI_FIELDS, ...PATIENT_CIPHER_COLUMNS].join(", ");
+
+export type KeyStatus = "active" | "retiring" | "retired";
+
+interface TenantKey {
+  version: number;
+  status: KeyStatus;
+  dataKey: Buffer;
+  indexKey: Buffer;
+}
+
+const masterKey = () => keyFromEnv("PHI_MASTER_KEY", "encrypt patient PHI");
+
+const keyCache = new Map<string, { keys: TenantKey[]; loadedAt: number }>();
+
+function newKeyMaterial() {
+  const master = masterKey();
+  return {
+    data_key_sealed: sealSecret(crypto.randomBytes(32).toString("base64"), master),
+    index_key_sealed: sealSecret(crypto.randomBytes(32).toString("base64"), master),
+  };
+}
+
+async function loadTenantKeys(tenantId: string): Promise<TenantKey[]> {
+  const { data, error } = await supabaseAdmin
+    .from("tenant_encryption_keys")
+    .select("version, status, data_key_sealed, index_key_sealed")
+    .eq("tenant_id", tenantId)
+    .order("version", { ascending: false });
+  if (error) throw error;
+
+  const master = masterKey();
+  return (data || []).map((row: any) => ({
+    version: row.version,
+    status: row.status,
+    dataKey: Buffer.from(openSecret(row.data_key_sealed, master), "base64"),
+    indexKey: Buffer.from(openSecret(row.index_key_sealed, master), "base64"),
+  }));
+}
+
+// Every key the tenant has had, newest first. The first call for a tenant
+// without keys creates version 1.
+async function tenantKeys(tenantId: string, { refresh = false } = {}) {
+  const cached = keyCache.get(tenantId);
+  if (!refresh && cached && Date.now() - cached.loadedAt < KEY_CACHE_MS) return cached.keys;
+
+  let keys = await loadTenantKeys(tenantId);
+  if (!keys.some((key) => key.status === "active")) {
+    const { error } = await supabaseAdmin
+      .from("tenant_encryption_keys")
+      .insert({ tenant_id: tenantId, version: 1, ...newKeyMaterial() });
+    // 23505: another request created it first
+    if (error && error.code !== "23505") throw error;
+    keys = await loadTenantKeys(tenantId);
+  }
+
+  keyCache.set(tenantId, { keys, loadedAt: Date.now() });
+  return keys;
+}
+
+async function activeKey(tenantId: string) {
+  const key = (await tenantKeys(tenantId)).find((candidate) => candidate.status === "active");
+  if (!key) throw new Error(`No active PHI key for tenant ${tenantId}`);
+  return key;
+}
+
+async function keyVersion(tenantId: string, version: number) {
+  let key = (await tenantKeys(tenantId)).find((candidate) => candidate.version === version);
+  // Possibly rotated by another API instance since the cache was filled
+  if (!key) key = (await tenantKeys(tenantId, { refresh: true })).find((candidate) => candidate.version === version);
+  if (!key) throw new Error(`PHI key version ${version} not found for tenant ${tenantId}`);
+  return key;
+}
+
+// ─── Fields and blind indexes ────────────────────────────────────
+
+const seal = (value: string | null | undefined, key: TenantKey) =>
+  value === null || value === undefined || value === "" ? null : sealSecret(value, key.dataKey);
+
+const open = (stored: string | null | undefined, key: TenantKey) => (stored ? openSecret(stored, key.dataKey) : null);
+
+function normalizeName(value: string) {
+  return value.normalize("NFKC").trim().replace(/\s+/g, " ").toLowerCase();
+}
+
+// YYYY-MM-DD, or null when empty
+export function normalizeDateOfBirth(value: unknown): string | null {
+  if (value === null || value === undefined || value === "") return null;
+  const match = typeof value === "string" ? /^(\d{4}-\d{2}-\d{2})(T.*)?$/.exec(value.trim()) : null;
+  if (!match || Number.isNaN(Date.parse(match[1]))) {
+    throw new PhiEncryptionError("date_of_birth must be a date (YYYY-MM-DD)", 400, "invalid_date_of_birth");
+  }
+  return match[1];
+}
+
+function blindIndex(key: TenantKey, ...parts: string[]) {
+  return crypto.createHmac("sha256", key.indexKey).update(parts.join("\u001f")).digest("hex");
+}
+
+const dobIndex = (key: TenantKey, dob: string) => blindIndex(key, "dob", dob);
+
+const identityIndex = (key: TenantKey, firstName: string, lastName: string, dob: string) =>
+  blindIndex(key, "identity", normalizeName(firstName), normalizeName(lastName), dob);
+
+// Blind indexes under every key the tenant has had, so lookups still find
+// rows the re-encryption job has not moved yet
+export async function identityIndexes(tenantId: string, firstName: string, lastName: string, dateOfBirth: string) {
+  const dob = normalizeDateOfBirth(dateOfBirth)!;
+  return (await tenantKeys(tenantId)).map((key) => identityIndex(key, firstName, lastName, dob));
+}
+
+export async function dateOfBirthIndexes(tenantId: string, dateOfBirth: string) {
+  const dob = normalizeDateOfBirth(dateOfBirth)!;
+  return (await tenantKeys(tenantId)).map((key) => dobIndex(key, dob));
+}
+
+// ─── Rows ────────────────────────────────────────────────────────
+
+// Column values that store a patient's PHI: each field sealed with the
+// tenant's active key, the plaintext columns cleared, and fresh blind
+// indexes. Takes the full plaintext (see openPatient); fields left out are
+// stored as NULL, so updates merge the change into the current row first.
+export async function sealPatient(
+  tenantId: string,
+  patient: PatientPhi & { first_name?: string | null; last_name?: string | null }
+) {
+  const key = await activeKey(tenantId);
+  const dob = normalizeDateOfBirth(patient.date_of_birth);
+
+  const row: Record<string, any> = {
+    phi_key_version: key.version,
+    dob_bidx: dob ? dobIndex(key, dob) : null,
+    identity_bidx:
+      dob && patient.first_name && patient.last_name ? identityIndex(key, patient.first_name, patient.last_name, dob) : null,
+  };
+  for (const field of PATIENT_PHI_FIELDS) {
+    row[field] = null;
+    row[`${field}_encrypted`] = seal(field === "date_of_birth" ? dob : patient[field], key);
+  }
+  return row;
+}
+
+// A patient row as clients see it: PHI decrypted into the usual columns,
+// ciphertext, blind indexes and key version removed. Rows not encrypted yet
+// are returned as stored. The row needs tenant_id.
+export async function openPatient<T extends Record<string, any> | null | undefined>(row: T): Promise<T> {
+  if (!row) return row;
+
+  const opened: Record<string, any> = { ...row };
+  if (row.phi_key_version !== null && row.phi_key_version !== undefined) {
+    if (!row.tenant_id) throw new Error("tenant_id must be selected to decrypt a patient");
+    const key = await keyVersion(row.tenant_id, row.phi_key_version);
+    for (const field of PATIENT_PHI_FIELDS) {
+      if (`${field}_encrypted` in row) opened[field] = open(row[`${field}_encrypted`], key);
+    }
+  }
+  for (const column of PATIENT_CIPHER_COLUMNS) delete opened[column];
+  return opened as T;
+}
+
+export function openPatients<T extends Record<string, any>>(rows: T[] | null | undefined) {
+  return Promise.all((rows || []).map((row) => openPatient(row)));
+}
+
+// Column values that store a scanned label image
+export async function sealScannedImage(tenantId: string, image: string | null) {
+  const key = await activeKey(tenantId);
+  return { scanned_image: null, scanned_image_encrypted: seal(image, key), phi_key_version: key.version };
+}
+
+export async function openScannedImage(row: {
+  tenant_id: string;
+  scanned_image?: string | null;
+  scanned_image_encrypted?: string | null;
+  phi_key_version?: number | null;
+}) {
+  if (row.phi_key_version === null || row.phi_key_version === undefined) return row.scanned_image ?? null;
+  return open(row.scanned_image_encrypted, await keyVersion(row.tenant_id, row.phi_key_version));
+}
+
+// ─── Key rotation ────────────────────────────────────────────────
+
+// Make a new active key version; returns it. Rows move over in the background.
+export async function rotateTenantKey(tenantId: string) {
+  const material = newKeyMaterial();
+  const { data, error } = await supabaseAdmin.rpc("rotate_tenant_encryption_key", {
+    p_tenant_id: tenantId,
+    p_data_key_sealed: material.data_key_sealed,
+    p_index_key_sealed: material.index_key_sealed,
+  });
+  if (error) {
+    if (error.code === "P0001") throw new PhiEncryptionError("Tenant not found", 404, "not_found");
+    throw error;
+  }
+  keyCache.delete(tenantId);
+  return data as number;
+}
+
+export interface TenantEncryptionStatus {
+  tenant_id: string;
+  keys: { version: number; status: KeyStatus; created_at: string; retired_at: string | null }[];
+  // Rows not on the active key yet
+  pending: { patients: number; medications: number };
+}
+
+export async function tenantEncryptionStatus(tenantId: string): Promise<TenantEncryptionStatus> {
+  const [{ data: keys, error: keysError }, { data: pending, error: pendingError }] = await Promise.all([
+    supabaseAdmin
+      .from("tenant_encryption_keys")
+      .select("version, status, created_at, retired_at")
+      .eq("tenant_id", tenantId)
+      .order("version", { ascending: false }),
+    supabaseAdmin.rpc("phi_reencryption_pending", { p_tenant_id: tenantId }),
+  ]);
+  if (keysError) throw keysError;
+  if (pendingError) throw pendingError;
+  return { tenant_id: tenantId, keys: keys || [], pending };
+}
+
+// ─── Re-encryption job ───────────────────────────────────────────
+
+interface QueuedRow {
+  kind: "patient" | "medication";
+  id: string;
+  tenant_id: string;
+  phi_key_version: number | null;
+}
+
+// Writes only if the row is still on the version it was read with; a row
+// changed in between is already on the active key or is picked up next time
+function onVersion(query: any, version: number | null) {
+  return version === null ? query.is("phi_key_version", null) : query.eq("phi_key_version", version);
+}
+
+async function reencryptPatient(item: QueuedRow) {
+  const { data: row, error } = await supabaseAdmin.from("patients").select("*").eq("id", item.id).maybeSingle();
+  if (error) throw error;
+  if (!row) return;
+
+  const sealed = await sealPatient(row.tenant_id, await openPatient(row));
+  const { error: updateError } = await onVersion(
+    supabaseAdmin.from("patients").update(sealed).eq("id", item.id),
+    row.phi_key_version ?? null
+  );
+  if (updateError) throw updateError;
+}
+
+async function reencryptMedication(item: QueuedRow) {
+  const { data: row, error } = await supabaseAdmin
+    .from("medications")
+    .select("id, tenant_id, scanned_image, scanned_image_encrypted, phi_key_version")
+    .eq("id", item.id)
+    .maybeSingle();
+  if (error) throw error;
+  if (!row) return;
+
+  const sealed = await sealScannedImage(row.tenant_id, await openScannedImage(row));
+  const { error: updateError } = await onVersion(
+    supabaseAdmin.from("medications").update(sealed).eq("id", item.id),
+    row.phi_key_version ?? null
+  );
+  if (updateError) throw updateError;
+}
+
+// Mark retiring keys that no row uses any more as retired
+async function retireDrainedKeys() {
+  const { data: retiring, error } = await supabaseAdmin
+    .from("tenant_encryption_keys")
+    .select("tenant_id, version")
+    .eq("status", "retiring");
+  if (error) throw error;
+
+  for (const key of retiring || []) {
+    const counts = await Promise.all(
+      ["patients", "medications"].map((table) =>
+        supabaseAdmin
+          .from(table)
+          .select("id", { count: "exact", head: true })
+          .eq("tenant_id", key.tenant_id)
+          .eq("phi_key_version", key.version)
+      )
+    );
+    const failed = counts.find((result) => result.error);
+    if (failed) throw failed.error;
+    if (counts.some((result) => (result.count ?? 0) > 0)) continue;
+
+    const { error: retireError } = await supabaseAdmin
+      .from("tenant_encryption_keys")
+      .update({ status: "retired", retired_at: new Date().toISOString() })
+      .eq("tenant_id", key.tenant_id)
+      .eq("version", key.version)
+      .eq("status", "retiring");
+    if (retireError) throw retireError;
+    keyCache.delete(key.tenant_id);
+  }
+}
+
+// Encrypt rows still holding plaintext and move rows onto their tenant's
+// active key. Returns how many rows were processed; rows that fail are logged
+// and retried on the next sweep.
+export async function reencryptPendingRows() {
+  let processed = 0;
+
+  for (let batch = 0; batch < SWEEP_MAX_BATCHES; batch++) {
+    const { data, error } = await supabaseAdmin.rpc("phi_reencryption_queue", { p_limit: SWEEP_BATCH_SIZE });
+    if (error) throw error;
+    const queue = (data || []) as QueuedRow[];
+
+    let failures = 0;
+    for (const item of queue) {
+      try {
+        await (item.kind === "patient" ? reencryptPatient(item) : reencryptMedication(item));
+        processed++;
+      } catch (rowError) {
+        failures++;
+        console.error(`PHI re-encryption failed for ${item.kind} ${item.id}:`, rowError);
+      }
+    }
+    // Rows that failed come back in the next batch; stop if nothing else does
+    if (queue.length === 0 || failures === queue.length) break;
+  }
+
+  await retireDrainedKeys();
+  return processed;
+}
+
+let timer: NodeJS.Timeout | null = null;
+let sweeping: Promise<void> | null = null;
+
+function sweep() {
+  if (sweeping) return;
+  sweeping = reencryptPendingRows()
+    .then((count) => {
+      if (count) console.log(`Re-encrypted ${count} PHI row(s)`);
+    })
+    .catch((error) => console.error("PHI re-encryption sweep error:", error))
+    .finally(() => {
+      sweeping = null;
+    });
+}
+
+export function startPhiReencryption() {
+  if (timer || process.env.PHI_REENCRYPTION_ENABLED === "false") return;
+  timer = setInterval(sweep, SWEEP_INTERVAL_MS);
+  sweep();
+}
+
+export async function stopPhiReencryption() {
+  if (timer) clearInterval(timer);
+  timer = null;
+  await sweeping;
+}
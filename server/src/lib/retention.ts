@@ -0,0 +1,547 @@
+import { supabaseAdmin } from "./supabase";
+import { writeAuditLog } from "./audit";
+import { LOCKED_CHART_STATUSES } from "./chartStateMachine";
+import { STORAGE_BUCKET, storagePathFromUrl } from "./ocrWorker";
+
+// Data retention (database_migrations/data_retention.sql). Tenants set how
+// long archived charts, notifications and audit entries are kept. Charts and
+// documents are soft-deleted first and stay restorable for the tenant's grace
+// period; the purge job below then removes them, their files and everything
+// attached. Legal holds stop both steps. Each run that changes anything leaves
+// a 'purged' report in the tenant's audit log.
+
+const SWEEP_INTERVAL_MS = Number(process.env.RETENTION_PURGE_INTERVAL_MS || 6 * 60 * 60 * 1000);
+const CHART_BATCH_SIZE = 100;
+const DOCUMENT_BATCH_SIZE = 500;
+const AUDIT_BATCH_SIZE = 10000;
+// Batches per kind per tenant per sweep, so one sweep cannot run for ever
+const SWEEP_MAX_BATCHES = 20;
+const STORAGE_REMOVE_BATCH = 100;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export class RetentionError extends Error {
+  status: number;
+  code: string;
+
+  constructor(message: string, status: number, code: string) {
+    super(message);
+    this.name = "RetentionError";
+    this.status = status;
+    this.code = code;
+  }
+}
+
+export const RETENTION_ENTITY_TYPES = ["archived_chart", "notification", "audit_log"] as const;
+export type RetentionEntityType = (typeof RETENTION_ENTITY_TYPES)[number];
+
+// Bounds match tenant_retention_policies_days_check and tenants_retention_grace_days_check
+export const RETENTION_MIN_DAYS: Record<RetentionEntityType, number> = {
+  archived_chart: 365,
+  notification: 7,
+  audit_log: 2190,
+};
+export const RETENTION_MAX_DAYS = 36500;
+export const GRACE_MIN_DAYS = 1;
+export const GRACE_MAX_DAYS = 365;
+
+export interface RetentionSettings {
+  tenant_id: string;
+  // Days soft-deleted charts and documents stay restorable
+  grace_days: number;
+  // Days each kind of record is kept; null keeps it forever
+  policies: Record<RetentionEntityType, number | null>;
+}
+
+export interface LegalHold {
+  id: string;
+  tenant_id: string;
+  scope: "tenant" | "patient";
+  patient_id: string | null;
+  reason: string;
+  created_by: string | null;
+  created_at: string;
+  released_by: string | null;
+  released_at: string | null;
+  patient?: { first_name: string; last_name: string } | null;
+}
+
+const isEntityType = (value: string): value is RetentionEntityType =>
+  (RETENTION_ENTITY_TYPES as readonly string[]).includes(value);
+
+const daysBefore = (now: Date, days: number) => new Date(now.getTime() - days * DAY_MS).toISOString();
+
+// ─── Settings ────────────────────────────────────────────────────
+
+export async function getRetentionSettings(tenantId: string): Promise<RetentionSettings> {
+  const [{ data: tenant, error: tenantError }, { data: rows, error: policyError }] = await Promise.all([
+    supabaseAdmin.from("tenants").select("id, retention_grace_days").eq("id", tenantId).maybeSingle(),
+    supabaseAdmin.from("tenant_retention_policies").select("entity_type, retain_days").eq("tenant_id", tenantId),
+  ]);
+  if (tenantError) throw tenantError;
+  if (policyError) throw policyError;
+  if (!tenant) throw new RetentionError("Tenant not found", 404, "not_found");
+
+  const policies = Object.fromEntries(RETENTION_ENTITY_TYPES.map((type) => [type, null])) as RetentionSettings["policies"];
+  for (const row of rows || []) {
+    if (isEntityType(row.entity_type)) policies[row.entity_type] = row.retain_days;
+  }
+  return { tenant_id: tenantId, grace_days: tenant.retention_grace_days, policies };
+}
+
+function validDays(value: unknown, min: number, max: number) {
+  return typeof value === "number" && Number.isInteger(value) && value >= min && value <= max;
+}
+
+// Change the grace period and/or policies ({ grace_days?, policies?: { type: days | null } });
+// types left out keep their current policy
+export async function updateRetentionSettings(
+  tenantId: string,
+  input: { grace_days?: unknown; policies?: Record<string, unknown> },
+  actorId: string
+) {
+  const policies = input.policies ?? {};
+  if (typeof policies !== "object" || Array.isArray(policies)) {
+    throw new RetentionError("policies must be an object", 400, "invalid_policies");
+  }
+  if (input.grace_days !== undefined && !validDays(input.grace_days, GRACE_MIN_DAYS, GRACE_MAX_DAYS)) {
+    throw new RetentionError(
+      `grace_days must be a whole number from ${GRACE_MIN_DAYS} to ${GRACE_MAX_DAYS}`,
+      400,
+      "invalid_grace_days"
+    );
+  }
+  for (const [type, days] of Object.entries(policies)) {
+    if (!isEntityType(type)) {
+      throw new RetentionError(`Unknown record type: ${type}`, 400, "invalid_entity_type");
+    }
+    if (days !== null && !validDays(days, RETENTION_MIN_DAYS[type], RETENTION_MAX_DAYS)) {
+      throw new RetentionError(
+        `${type} must be kept from ${RETENTION_MIN_DAYS[type]} to ${RETENTION_MAX_DAYS} days, or null to keep forever`,
+        400,
+        "invalid_retain_days"
+      );
+    }
+  }
+
+  const before = await getRetentionSettings(tenantId);
+
+  if (input.grace_days !== undefined) {
+    const { error } = await supabaseAdmin
+      .from("tenants")
+      .update({ retention_grace_days: input.grace_days })
+      .eq("id", tenantId);
+    if (error) throw error;
+  }
+
+  const kept = Object.entries(policies).filter(([, days]) => days !== null);
+  const dropped = Object.entries(policies)
+    .filter(([, days]) => days === null)
+    .map(([type]) => type);
+
+  if (kept.length > 0) {
+    const { error } = await supabaseAdmin.from("tenant_retention_policies").upsert(
+      kept.map(([type, days]) => ({
+        tenant_id: tenantId,
+        entity_type: type,
+        retain_days: days,
+        updated_by: actorId,
+        updated_at: new Date().toISOString(),
+      })),
+      { onConflict: "tenant_id,entity_type" }
+    );
+    if (error) throw error;
+  }
+  if (dropped.length > 0) {
+    const { error } = await supabaseAdmin
+      .from("tenant_retention_policies")
+      .delete()
+      .eq("tenant_id", tenantId)
+      .in("entity_type", dropped);
+    if (error) throw error;
+  }
+
+  return { before, after: await getRetentionSettings(tenantId) };
+}
+
+// ─── Legal holds ─────────────────────────────────────────────────
+
+const HOLD_COLUMNS =
+  "id, tenant_id, scope, patient_id, reason, created_by, created_at, released_by, released_at, patient:patients ( first_name, last_name )";
+
+export async function listLegalHolds(tenantId: string, { includeReleased = false } = {}) {
+  let query = supabaseAdmin
+    .from("legal_holds")
+    .select(HOLD_COLUMNS)
+    .eq("tenant_id", tenantId)
+    .order("created_at", { ascending: false });
+  if (!includeReleased) query = query.is("released_at", null);
+
+  const { data, error } = await query;
+  if (error) throw error;
+  return (data || []) as unknown as LegalHold[];
+}
+
+export async function placeLegalHold(
+  tenantId: string,
+  input: { scope?: unknown; patient_id?: unknown; reason?: unknown },
+  actorId: string
+) {
+  const scope = input.scope;
+  const reason = typeof input.reason === "string" ? input.reason.trim() : "";
+  if (scope !== "tenant" && scope !== "patient") {
+    throw new RetentionError("scope must be 'tenant' or 'patient'", 400, "invalid_scope");
+  }
+  if (!reason || reason.length > 500) {
+    throw new RetentionError("A reason of up to 500 characters is required", 400, "invalid_reason");
+  }
+
+  let patientId: string | null = null;
+  if (scope === "patient") {
+    if (typeof input.patient_id !== "string" || !input.patient_id) {
+      throw new RetentionError("patient_id is required for a patient hold", 400, "missing_patient");
+    }
+    const { data: patient, error } = await supabaseAdmin
+      .from("patients")
+      .select("id")
+      .eq("id", input.patient_id)
+      .eq("tenant_id", tenantId)
+      .maybeSingle();
+    if (error) throw error;
+    if (!patient) throw new RetentionError("Patient not found", 404, "patient_not_found");
+    patientId = patient.id;
+  }
+
+  const { data, error } = await supabaseAdmin
+    .from("legal_holds")
+    .insert({ tenant_id: tenantId, scope, patient_id: patientId, reason, created_by: actorId })
+    .select(HOLD_COLUMNS)
+    .single();
+  if (error) throw error;
+  return data as unknown as LegalHold;
+}
+
+export async function releaseLegalHold(tenantId: string, holdId: string, actorId: string) {
+  const { data, error } = await supabaseAdmin
+    .from("legal_holds")
+    .update({ released_at: new Date().toISOString(), released_by: actorId })
+    .eq("id", holdId)
+    .eq("tenant_id", tenantId)
+    .is("released_at", null)
+    .select(HOLD_COLUMNS)
+    .maybeSingle();
+  if (error) throw error;
+  if (!data) throw new RetentionError("No active hold with that id", 404, "not_found");
+  return data as unknown as LegalHold;
+}
+
+// ─── Soft delete ─────────────────────────────────────────────────
+
+// Soft-delete a document. Like edits, deletes are refused on locked charts.
+export async function softDeleteDocument(documentId: string, actorId: string) {
+  const { data: document, error } = await supabaseAdmin
+    .from("documents")
+    .select("id, tenant_id, chart_id, file_name, deleted_at, chart:charts ( status )")
+    .eq("id", documentId)
+    .maybeSingle();
+  if (error) throw error;
+  if (!document || document.deleted_at) throw new RetentionError("Document not found", 404, "not_found");
+
+  const chartStatus = (document as any).chart?.status;
+  if (LOCKED_CHART_STATUSES.includes(chartStatus)) {
+    throw new RetentionError(`Chart is ${chartStatus} and cannot be edited`, 409, "chart_locked");
+  }
+
+  const { error: updateError } = await supabaseAdmin
+    .from("documents")
+    .update({ deleted_at: new Date().toISOString(), deleted_by: actorId })
+    .eq("id", documentId)
+    .is("deleted_at", null);
+  if (updateError) throw updateError;
+  return { id: document.id, tenant_id: document.tenant_id, chart_id: document.chart_id, file_name: document.file_name };
+}
+
+export async function restoreDocument(documentId: string) {
+  const { data: document, error } = await supabaseAdmin
+    .from("documents")
+    .select("id, tenant_id, chart_id, file_name, deleted_at, chart:charts ( deleted_at )")
+    .eq("id", documentId)
+    .maybeSingle();
+  if (error) throw error;
+  if (!document) throw new RetentionError("Document not found", 404, "not_found");
+  if (!document.deleted_at) throw new RetentionError("Document is not deleted", 409, "not_deleted");
+  if ((document as any).chart?.deleted_at) {
+    throw new RetentionError("The document's chart is deleted; restore the chart first", 409, "chart_deleted");
+  }
+
+  const { error: updateError } = await supabaseAdmin
+    .from("documents")
+    .update({ deleted_at: null, deleted_by: null })
+    .eq("id", documentId);
+  if (updateError) throw updateError;
+  return { id: document.id, tenant_id: document.tenant_id, chart_id: document.chart_id, file_name: document.file_name };
+}
+
+// Restoring an archived chart starts its retention period over
+export async function restoreChart(chartId: string) {
+  const { data: chart, error } = await supabaseAdmin
+    .from("charts")
+    .select("id, tenant_id, patient_id, status, deleted_at")
+    .eq("id", chartId)
+    .maybeSingle();
+  if (error) throw error;
+  if (!chart) throw new RetentionError("Chart not found", 404, "not_found");
+  if (!chart.deleted_at) throw new RetentionError("Chart is not deleted", 409, "not_deleted");
+
+  const { error: updateError } = await supabaseAdmin
+    .from("charts")
+    .update({
+      deleted_at: null,
+      deleted_by: null,
+      ...(chart.status === "archived" ? { archived_at: new Date().toISOString() } : {}),
+    })
+    .eq("id", chartId);
+  if (updateError) throw updateError;
+  return { id: chart.id, tenant_id: chart.tenant_id, patient_id: chart.patient_id };
+}
+
+// Soft-deleted charts and documents, with when each will be purged
+export async function listDeletedRecords(tenantId: string) {
+  const [settings, holds, { data: charts, error: chartsError }, { data: documents, error: documentsError }] =
+    await Promise.all([
+      getRetentionSettings(tenantId),
+      listLegalHolds(tenantId),
+      supabaseAdmin
+        .from("charts")
+        .select("id, patient_id, status, deleted_at, deleted_by, patient:patients!charts_patient_id_fkey ( first_name, last_name )")
+        .eq("tenant_id", tenantId)
+        .not("deleted_at", "is", null)
+        .order("deleted_at", { ascending: false }),
+      supabaseAdmin
+        .from("documents")
+        .select("id, chart_id, file_name, file_type, deleted_at, deleted_by, chart:charts ( patient_id, deleted_at )")
+        .eq("tenant_id", tenantId)
+        .not("deleted_at", "is", null)
+        .order("deleted_at", { ascending: false }),
+    ]);
+  if (chartsError) throw chartsError;
+  if (documentsError) throw documentsError;
+
+  const tenantHeld = holds.some((hold) => hold.scope === "tenant");
+  const heldPatients = new Set(holds.map((hold) => hold.patient_id).filter(Boolean));
+  const held = (patientId: string | null | undefined) => tenantHeld || (!!patientId && heldPatients.has(patientId));
+  const purgeAt = (deletedAt: string) => new Date(new Date(deletedAt).getTime() + settings.grace_days * DAY_MS).toISOString();
+
+  return {
+    grace_days: settings.grace_days,
+    charts: (charts || []).map((chart: any) => ({
+      ...chart,
+      purge_at: purgeAt(chart.deleted_at),
+      held: held(chart.patient_id),
+    })),
+    // Documents of a deleted chart go with the chart
+    documents: (documents || [])
+      .filter((document: any) => !document.chart?.deleted_at)
+      .map(({ chart, ...document }: any) => ({
+        ...document,
+        purge_at: purgeAt(document.deleted_at),
+        held: held(chart?.patient_id),
+      })),
+  };
+}
+
+// ─── Purge job ───────────────────────────────────────────────────
+
+export interface PurgeReport {
+  tenant_id: string;
+  charts_deleted: string[];
+  charts_purged: string[];
+  documents_purged: string[];
+  medications_purged: number;
+  notifications_purged: number;
+  audit_logs_purged: number;
+  audit_logs_purged_through_seq: number | null;
+  audit_logs_held: boolean;
+  files_not_removed: number;
+}
+
+// Remove stored files; returns how many could not be removed
+async function removeFiles(fileUrls: string[]) {
+  const paths = fileUrls.map((url) => storagePathFromUrl(url)).filter((path): path is string => !!path);
+  let failed = 0;
+  for (let start = 0; start < paths.length; start += STORAGE_REMOVE_BATCH) {
+    const batch = paths.slice(start, start + STORAGE_REMOVE_BATCH);
+    const { error } = await supabaseAdmin.storage.from(STORAGE_BUCKET).remove(batch);
+    if (error) {
+      console.error("Retention purge could not remove stored files:", error);
+      failed += batch.length;
+    }
+  }
+  return failed;
+}
+
+const changed = (report: PurgeReport) =>
+  report.charts_deleted.length > 0 ||
+  report.charts_purged.length > 0 ||
+  report.documents_purged.length > 0 ||
+  report.notifications_purged > 0 ||
+  report.audit_logs_purged > 0;
+
+// Apply one tenant's policies
+export async function purgeTenant(tenantId: string, now = new Date()): Promise<PurgeReport> {
+  const settings = await getRetentionSettings(tenantId);
+  const graceCutoff = daysBefore(now, settings.grace_days);
+  const report: PurgeReport = {
+    tenant_id: tenantId,
+    charts_deleted: [],
+    charts_purged: [],
+    documents_purged: [],
+    medications_purged: 0,
+    notifications_purged: 0,
+    audit_logs_purged: 0,
+    audit_logs_purged_through_seq: null,
+    audit_logs_held: false,
+    files_not_removed: 0,
+  };
+  const fileUrls: string[] = [];
+
+  // 1. Archived charts past the policy are soft-deleted; the grace period starts now
+  if (settings.policies.archived_chart !== null) {
+    const { data, error } = await supabaseAdmin.rpc("retention_delete_archived_charts", {
+      p_tenant_id: tenantId,
+      p_archived_before: daysBefore(now, settings.policies.archived_chart),
+    });
+    if (error) throw error;
+    report.charts_deleted = (data || []).map((row: any) => row.chart_id);
+  }
+
+  // 2. Charts and documents deleted longer ago than the grace period
+  for (let batch = 0; batch < SWEEP_MAX_BATCHES; batch++) {
+    const { data, error } = await supabaseAdmin.rpc("retention_purge_charts", {
+      p_tenant_id: tenantId,
+      p_deleted_before: graceCutoff,
+      p_limit: CHART_BATCH_SIZE,
+    });
+    if (error) throw error;
+    report.charts_purged.push(...data.charts);
+    report.medications_purged += data.medications;
+    fileUrls.push(...data.file_urls);
+    if (data.charts.length < CHART_BATCH_SIZE) break;
+  }
+
+  for (let batch = 0; batch < SWEEP_MAX_BATCHES; batch++) {
+    const { data, error } = await supabaseAdmin.rpc("retention_purge_documents", {
+      p_tenant_id: tenantId,
+      p_deleted_before: graceCutoff,
+      p_limit: DOCUMENT_BATCH_SIZE,
+    });
+    if (error) throw error;
+    report.documents_purged.push(...data.documents);
+    fileUrls.push(...data.file_urls);
+    if (data.documents.length < DOCUMENT_BATCH_SIZE) break;
+  }
+
+  // 3. Notifications
+  if (settings.policies.notification !== null) {
+    const { data, error } = await supabaseAdmin.rpc("retention_purge_notifications", {
+      p_tenant_id: tenantId,
+      p_before: daysBefore(now, settings.policies.notification),
+    });
+    if (error) throw error;
+    report.notifications_purged = data || 0;
+  }
+
+  // 4. Audit entries, from the start of the chain
+  if (settings.policies.audit_log !== null) {
+    for (let batch = 0; batch < SWEEP_MAX_BATCHES; batch++) {
+      const { data, error } = await supabaseAdmin.rpc("retention_purge_audit_logs", {
+        p_tenant_id: tenantId,
+        p_before: daysBefore(now, settings.policies.audit_log),
+        p_limit: AUDIT_BATCH_SIZE,
+      });
+      if (error) throw error;
+      report.audit_logs_held = data.held;
+      report.audit_logs_purged += data.purged;
+      if (data.through_seq !== undefined) report.audit_logs_purged_through_seq = data.through_seq;
+      if (data.purged < AUDIT_BATCH_SIZE) break;
+    }
+  }
+
+  // Files go after their rows, so a failure leaves an orphaned file rather
+  // than a document pointing at nothing
+  report.files_not_removed = await removeFiles(fileUrls);
+
+  if (changed(report)) {
+    const { error } = await writeAuditLog({
+      tenantId,
+      userId: null,
+      entityType: "tenant",
+      entityId: tenantId,
+      action: "purged",
+      changes: {
+        charts_deleted: report.charts_deleted.length,
+        charts_purged: report.charts_purged.length,
+        documents_purged: report.documents_purged.length,
+        medications_purged: report.medications_purged,
+        notifications_purged: report.notifications_purged,
+        audit_logs_purged: report.audit_logs_purged,
+      },
+      metadata: {
+        retention: { grace_days: settings.grace_days, policies: settings.policies },
+        chart_ids_deleted: report.charts_deleted,
+        chart_ids_purged: report.charts_purged,
+        document_ids_purged: report.documents_purged,
+        audit_logs_purged_through_seq: report.audit_logs_purged_through_seq,
+        audit_logs_held: report.audit_logs_held,
+        files_not_removed: report.files_not_removed,
+      },
+    });
+    // The rows are gone either way; make sure a missing report is noticed
+    if (error) console.error(`Retention purge report for tenant ${tenantId} was not written`);
+  }
+  return report;
+}
+
+// Apply every tenant's policies. A tenant that fails is logged and retried
+// on the next sweep.
+export async function runRetentionPurge(now = new Date()) {
+  const { data: tenants, error } = await supabaseAdmin.from("tenants").select("id");
+  if (error) throw error;
+
+  const reports: PurgeReport[] = [];
+  for (const tenant of tenants || []) {
+    try {
+      reports.push(await purgeTenant(tenant.id, now));
+    } catch (tenantError) {
+      console.error(`Retention purge failed for tenant ${tenant.id}:`, tenantError);
+    }
+  }
+  return reports;
+}
+
+let timer: NodeJS.Timeout | null = null;
+let sweeping: Promise<void> | null = null;
+
+function sweep() {
+  if (sweeping) return;
+  sweeping = runRetentionPurge()
+    .then((reports) => {
+      const touched = reports.filter(changed).length;
+      if (touched) console.log(`Retention purge changed records in ${touched} tenant(s)`);
+    })
+    .catch((error) => console.error("Retention purge sweep error:", error))
+    .finally(() => {
+      sweeping = null;
+    });
+}
+
+export function startRetentionPurge() {
+  if (timer || process.env.RETENTION_PURGE_ENABLED === "false") return;
+  timer = setInterval(sweep, SWEEP_INTERVAL_MS);
+  sweep();
+}
+
+export async function stopRetentionPurge() {
+  if (timer) clearInterval(timer);
+  timer = null;
+  await sweeping;
+}
@@ -0,0 +1,28 @@
+import crypto from "crypto";
+
+// AES-256-GCM for small secrets kept in the database (TOTP seeds, IdP client
+// secrets). Each caller names the env var holding its 32-byte base64 key.
+
+export function keyFromEnv(name: string, purpose: string) {
+  const raw = process.env[name];
+  if (!raw) throw new Error(`Missing ${name} - required to ${purpose}`);
+  const key = Buffer.from(raw, "base64");
+  if (key.length !== 32) throw new Error(`${name} must be 32 bytes, base64-encoded`);
+  return key;
+}
+
+// Stored as "v1:<iv>:<tag>:<ciphertext>" (base64 parts)
+export function sealSecret(secret: string, key: Buffer) {
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv("aes-256-gcm", key, iv);
+  const ciphertext = Buffer.concat([cipher.update(secret, "utf8"), cipher.final()]);
+  return ["v1", iv.toString("base64"), cipher.getAuthTag().toString("base64"), ciphertext.toString("base64")].join(":");
+}
+
+export function openSecret(stored: string, key: Buffer) {
+  const [version, iv, tag, ciphertext] = stored.split(":");
+  if (version !== "v1") throw new Error("Unknown secret format");
+  const decipher = crypto.createDecipheriv("aes-256-gcm", key, Buffer.from(iv, "base64"));
+  decipher.setAuthTag(Buffer.from(tag, "base64"));
+  return Buffer.concat([decipher.update(Buffer.from(ciphertext, "base64")), decipher.final()]).toString("utf8");
+}
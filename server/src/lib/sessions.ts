@@ -0,0 +1,165 @@
+import { supabaseAdmin } from "./supabase";
+
+// Signed-in devices (database_migrations/user_sessions.sql). requireAuth
+// records each Supabase session the first time its token reaches the API and
+// refuses tokens whose session has been revoked.
+
+// last_seen_at is refreshed at most this often per session
+const TOUCH_INTERVAL_MS = 60 * 1000;
+
+export interface UserSession {
+  session_id: string;
+  device: string | null;
+  user_agent: string | null;
+  ip_address: string | null;
+  created_at: string;
+  last_seen_at: string;
+}
+
+interface RequestLike {
+  ip?: string;
+  headers?: Record<string, string | string[] | undefined>;
+}
+
+function clientDetails(req: RequestLike) {
+  const header = req.headers?.["user-agent"];
+  const userAgent = (Array.isArray(header) ? header[0] : header) || null;
+  return { user_agent: userAgent, device: describeDevice(userAgent), ip_address: req.ip || null };
+}
+
+// "Chrome on Windows", "Safari on iPhone", ...
+export function describeDevice(userAgent: string | null) {
+  if (!userAgent) return null;
+
+  const browser =
+    /Edg\//.test(userAgent) ? "Edge"
+    : /OPR\//.test(userAgent) ? "Opera"
+    : /Firefox\//.test(userAgent) ? "Firefox"
+    : /Chrome\//.test(userAgent) ? "Chrome"
+    : /Safari\//.test(userAgent) ? "Safari"
+    : null;
+  const platform =
+    /iPhone/.test(userAgent) ? "iPhone"
+    : /iPad/.test(userAgent) ? "iPad"
+    : /Android/.test(userAgent) ? "Android"
+    : /Windows/.test(userAgent) ? "Windows"
+    : /Mac OS X|Macintosh/.test(userAgent) ? "macOS"
+    : /Linux/.test(userAgent) ? "Linux"
+    : null;
+
+  if (browser && platform) return `${browser} on ${platform}`;
+  return browser || platform || "Unknown device";
+}
+
+// Record or refresh the session behind a request. active is false if it was
+// revoked; authMethod is "sso" once an SSO login has been bound to it.
+export async function trackSession(
+  session: { sessionId: string; userId: string; tenantId: string | null },
+  req: RequestLike
+): Promise<{ active: boolean; authMethod: string | null }> {
+  const { data: existing, error } = await supabaseAdmin
+    .from("user_sessions")
+    .select("revoked_at, last_seen_at, auth_method")
+    .eq("session_id", session.sessionId)
+    .maybeSingle();
+  if (error) throw error;
+
+  if (existing?.revoked_at) return { active: false, authMethod: existing.auth_method };
+
+  if (!existing) {
+    const { error: insertError } = await supabaseAdmin.from("user_sessions").upsert(
+      {
+        session_id: session.sessionId,
+        user_id: session.userId,
+        tenant_id: session.tenantId,
+        ...clientDetails(req),
+      },
+      { onConflict: "session_id", ignoreDuplicates: true }
+    );
+    if (insertError) throw insertError;
+  } else if (Date.now() - new Date(existing.last_seen_at).getTime() > TOUCH_INTERVAL_MS) {
+    const { ip_address } = clientDetails(req);
+    await supabaseAdmin
+      .from("user_sessions")
+      .update({ last_seen_at: new Date().toISOString(), ip_address })
+      .eq("session_id", session.sessionId);
+  }
+  return { active: true, authMethod: existing?.auth_method ?? null };
+}
+
+async function liveAuthSessionIds(userId: string) {
+  const { data, error } = await supabaseAdmin.rpc("live_auth_session_ids", { p_user_id: userId });
+  if (error) throw error;
+  return new Set<string>((data as string[] | null) || []);
+}
+
+// Sessions that are neither revoked nor signed out / expired in Supabase Auth
+export async function listSessions(userId: string): Promise<UserSession[]> {
+  const [{ data, error }, live] = await Promise.all([
+    supabaseAdmin
+      .from("user_sessions")
+      .select("session_id, device, user_agent, ip_address, created_at, last_seen_at")
+      .eq("user_id", userId)
+      .is("revoked_at", null)
+      .order("last_seen_at", { ascending: false }),
+    liveAuthSessionIds(userId),
+  ]);
+  if (error) throw error;
+  return ((data || []) as UserSession[]).filter((row) => live.has(row.session_id));
+}
+
+// Revoke some or all of a user's sessions; returns the revoked session ids.
+// With "all", sessions that never reached the API are ended too.
+export async function revokeSessions(
+  userId: string,
+  sessionIds: string[] | "all",
+  options: { revokedBy: string; reason: string; except?: string | null }
+): Promise<string[]> {
+  let ids: string[];
+  if (sessionIds === "all") {
+    const { data, error } = await supabaseAdmin
+      .from("user_sessions")
+      .select("session_id")
+      .eq("user_id", userId)
+      .is("revoked_at", null);
+    if (error) throw error;
+    const live = await liveAuthSessionIds(userId);
+    ids = Array.from(new Set([...(data || []).map((row) => row.session_id as string), ...Array.from(live)]));
+  } else {
+    ids = sessionIds;
+  }
+  ids = ids.filter((id) => id !== options.except);
+  if (ids.length === 0) return [];
+
+  const revokedAt = new Date().toISOString();
+  const { error } = await supabaseAdmin.from("user_sessions").upsert(
+    ids.map((sessionId) => ({
+      session_id: sessionId,
+      user_id: userId,
+      revoked_at: revokedAt,
+      revoked_by: options.revokedBy,
+      revoked_reason: options.reason,
+    })),
+    { onConflict: "session_id" }
+  );
+  if (error) throw error;
+
+  const { error: authError } = await supabaseAdmin.rpc("delete_auth_sessions", { p_session_ids: ids });
+  if (authError) console.error("Failed to end auth sessions:", authError);
+
+  await supabaseAdmin.from("mfa_verified_sessions").delete().in("session_id", ids);
+  return ids;
+}
+
+// Whether sessionId belongs to userId and is still revocable
+export async function sessionBelongsTo(sessionId: string, userId: string) {
+  const { data, error } = await supabaseAdmin
+    .from("user_sessions")
+    .select("session_id")
+    .eq("session_id", sessionId)
+    .eq("user_id", userId)
+    .is("revoked_at", null)
+    .maybeSingle();
+  if (error) throw error;
+  return !!data;
+}
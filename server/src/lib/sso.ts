@@ -0,0 +1,608 @@
+import crypto from "crypto";
+import { SAML, ValidateInResponseTo } from "@node-saml/node-saml";
+import type { CacheItem, CacheProvider, Profile } from "@node-saml/node-saml";
+import { supabaseAdmin } from "./supabase";
+import { keyFromEnv, openSecret, sealSecret } from "./secretBox";
+import { buildAuthorizationRequest, completeAuthorization } from "./oidc";
+import type { OidcClient } from "./oidc";
+import type { UserRole } from "../middleware/auth";
+
+// Tenant single sign-on (database_migrations/tenant_sso.sql). A login starts
+// from the tenant's subdomain, goes to the tenant's IdP (OIDC or SAML) and
+// comes back to the API, which provisions or updates the user from the IdP's
+// claims. The browser then gets a one-time Supabase magic-link token to open
+// a normal session, and binds that session to the SSO login
+// (user_sessions.auth_method = 'sso') so SSO-only tenants can refuse
+// password sessions.
+
+const API_URL = (process.env.API_URL || `http://localhost:${process.env.PORT || 8080}`).replace(/\/+$/, "");
+const APP_URL = (process.env.APP_URL || "http://localhost:3000").replace(/\/+$/, "");
+const LOGIN_REQUEST_TTL_MS = 10 * 60 * 1000;
+const HANDOFF_TTL_MS = 2 * 60 * 1000;
+
+export const SSO_ROLES: UserRole[] = ["clinician", "scheduler", "agency_admin", "super_admin"];
+// When a user's groups map to several roles, the most privileged wins
+const ROLE_RANK: Record<UserRole, number> = { clinician: 1, scheduler: 2, agency_admin: 3, super_admin: 4 };
+
+export type SsoProtocol = "oidc" | "saml";
+
+// Stored in tenants.sso_config. The OIDC client secret is encrypted with
+// SSO_ENCRYPTION_KEY and never returned by the API.
+export interface SsoConfig {
+  enabled: boolean;
+  protocol: SsoProtocol;
+  oidc?: {
+    issuer: string;
+    client_id: string;
+    client_secret_encrypted?: string | null;
+    scopes?: string;
+  };
+  saml?: {
+    entry_point: string;
+    idp_issuer?: string | null;
+    idp_cert: string;
+  };
+  // Claim (OIDC) or attribute (SAML) holding the user's groups
+  groups_attribute?: string;
+  role_mapping: Record<string, UserRole>;
+  default_role?: UserRole | null;
+  allowed_domains?: string[];
+}
+
+interface SsoTenant {
+  id: string;
+  name: string;
+  subdomain: string;
+  status: string;
+  sso_config: SsoConfig | null;
+  sso_enforced: boolean;
+}
+
+export interface SsoIdentity {
+  issuer: string;
+  subject: string;
+  email: string;
+  firstName: string;
+  lastName: string;
+  groups: string[];
+}
+
+export class SsoError extends Error {
+  status: number;
+  code: string;
+
+  constructor(message: string, status: number, code: string) {
+    super(message);
+    this.name = "SsoError";
+    this.status = status;
+    this.code = code;
+  }
+}
+
+const secretKey = () => keyFromEnv("SSO_ENCRYPTION_KEY", "store SSO client secrets");
+
+// ─── Tenants and endpoints ───────────────────────────────────────
+
+async function loadSsoTenant(subdomain: string): Promise<SsoTenant> {
+  const { data, error } = await supabaseAdmin
+    .from("tenants")
+    .select("id, name, subdomain, status, sso_config, sso_enforced")
+    .eq("subdomain", subdomain)
+    .maybeSingle();
+  if (error) throw error;
+  if (!data) throw new SsoError("Organization not found", 404, "tenant_not_found");
+  return data as SsoTenant;
+}
+
+function activeConfig(tenant: SsoTenant) {
+  const config = tenant.sso_config;
+  if (!config?.enabled) throw new SsoError("Single sign-on is not set up for this organization", 404, "sso_not_configured");
+  if (tenant.status !== "active") throw new SsoError("This organization is not active", 403, "tenant_inactive");
+  return config;
+}
+
+// Where the IdP must send users back; shown to admins for IdP setup
+export function serviceProviderUrls(subdomain: string) {
+  const base = `${API_URL}/api/sso/${encodeURIComponent(subdomain)}`;
+  return {
+    oidc_redirect_uri: `${base}/oidc/callback`,
+    saml_acs_url: `${base}/saml/acs`,
+    saml_entity_id: `${base}/saml/metadata`,
+    saml_metadata_url: `${base}/saml/metadata`,
+  };
+}
+
+// What the login screen needs to know about a subdomain (no secrets)
+export async function publicSsoInfo(subdomain: string) {
+  const tenant = await loadSsoTenant(subdomain);
+  const enabled = !!tenant.sso_config?.enabled && tenant.status === "active";
+  return {
+    tenant_name: tenant.name,
+    subdomain: tenant.subdomain,
+    enabled,
+    protocol: enabled ? tenant.sso_config!.protocol : null,
+    enforced: enabled && tenant.sso_enforced,
+  };
+}
+
+function oidcClient(tenant: SsoTenant, config: SsoConfig): OidcClient {
+  if (!config.oidc?.issuer || !config.oidc.client_id) {
+    throw new SsoError("OIDC is not fully configured for this organization", 500, "sso_misconfigured");
+  }
+  return {
+    issuer: config.oidc.issuer,
+    clientId: config.oidc.client_id,
+    clientSecret: config.oidc.client_secret_encrypted ? openSecret(config.oidc.client_secret_encrypted, secretKey()) : null,
+    redirectUri: serviceProviderUrls(tenant.subdomain).oidc_redirect_uri,
+    scopes: config.oidc.scopes || "openid email profile",
+  };
+}
+
+// AuthnRequest IDs we issued, so responses must answer one of them (shared by all tenants)
+const samlRequests = new Map<string, CacheItem>();
+const samlRequestCache: CacheProvider = {
+  async saveAsync(key, value) {
+    if (samlRequests.has(key)) return null;
+    const item = { value, createdAt: Date.now() };
+    samlRequests.set(key, item);
+    return item;
+  },
+  async getAsync(key) {
+    const item = samlRequests.get(key);
+    if (!item || item.createdAt + LOGIN_REQUEST_TTL_MS < Date.now()) return null;
+    return item.value;
+  },
+  async removeAsync(key) {
+    if (!key) return null;
+    const item = samlRequests.get(key);
+    samlRequests.delete(key);
+    return item ? key : null;
+  },
+};
+
+function samlClient(tenant: SsoTenant, config: SsoConfig) {
+  if (!config.saml?.entry_point || !config.saml.idp_cert) {
+    throw new SsoError("SAML is not fully configured for this organization", 500, "sso_misconfigured");
+  }
+  const urls = serviceProviderUrls(tenant.subdomain);
+  return new SAML({
+    callbackUrl: urls.saml_acs_url,
+    entryPoint: config.saml.entry_point,
+    issuer: urls.saml_entity_id,
+    audience: urls.saml_entity_id,
+    idpCert: config.saml.idp_cert,
+    idpIssuer: config.saml.idp_issuer || undefined,
+    wantAssertionsSigned: true,
+    wantAuthnResponseSigned: false,
+    validateInResponseTo: ValidateInResponseTo.always,
+    requestIdExpirationPeriodMs: LOGIN_REQUEST_TTL_MS,
+    cacheProvider: samlRequestCache,
+  });
+}
+
+export async function samlMetadata(subdomain: string) {
+  const tenant = await loadSsoTenant(subdomain);
+  const config = tenant.sso_config;
+  if (config?.protocol !== "saml") throw new SsoError("SAML is not set up for this organization", 404, "sso_not_configured");
+  return samlClient(tenant, config).generateServiceProviderMetadata(null);
+}
+
+// ─── Login requests ──────────────────────────────────────────────
+
+interface PendingLogin {
+  tenantId: string;
+  protocol: SsoProtocol;
+  nonce?: string;
+  codeVerifier?: string;
+  expiresAt: number;
+}
+
+// In-memory, per API process: a login must finish on the instance that started it
+const pendingLogins = new Map<string, PendingLogin>();
+
+function prune<T extends { expiresAt: number }>(map: Map<string, T>) {
+  const now = Date.now();
+  for (const [key, value] of map) {
+    if (value.expiresAt <= now) map.delete(key);
+  }
+}
+
+function takePendingLogin(state: string | undefined, tenant: SsoTenant, protocol: SsoProtocol) {
+  prune(pendingLogins);
+  const pending = state ? pendingLogins.get(state) : undefined;
+  if (state) pendingLogins.delete(state);
+  if (!pending || pending.tenantId !== tenant.id || pending.protocol !== protocol) {
+    throw new SsoError("This sign-in link has expired. Please start again.", 400, "login_expired");
+  }
+  return pending;
+}
+
+// URL of the IdP to send the browser to
+export async function startSsoLogin(subdomain: string) {
+  const tenant = await loadSsoTenant(subdomain);
+  const config = activeConfig(tenant);
+  prune(pendingLogins);
+
+  if (config.protocol === "oidc") {
+    const request = await buildAuthorizationRequest(oidcClient(tenant, config));
+    pendingLogins.set(request.state, {
+      tenantId: tenant.id,
+      protocol: "oidc",
+      nonce: request.nonce,
+      codeVerifier: request.codeVerifier,
+      expiresAt: Date.now() + LOGIN_REQUEST_TTL_MS,
+    });
+    return request.url;
+  }
+
+  const state = crypto.randomBytes(24).toString("base64url");
+  pendingLogins.set(state, { tenantId: tenant.id, protocol: "saml", expiresAt: Date.now() + LOGIN_REQUEST_TTL_MS });
+  return samlClient(tenant, config).getAuthorizeUrlAsync(state, undefined, {});
+}
+
+// ─── Claims ──────────────────────────────────────────────────────
+
+const asList = (value: unknown): string[] =>
+  Array.isArray(value) ? value.map(String) : typeof value === "string" && value ? value.split(/[,;]\s*/) : [];
+
+const firstString = (...values: unknown[]) =>
+  (values.find((value) => typeof value === "string" && value.trim()) as string | undefined)?.trim() || "";
+
+function oidcIdentity(claims: Record<string, any>, config: SsoConfig): SsoIdentity {
+  if (claims.email_verified === false) {
+    throw new SsoError("Your identity provider has not verified your email address", 403, "email_unverified");
+  }
+  const [given, ...rest] = firstString(claims.name).split(" ");
+  return {
+    issuer: claims.iss,
+    subject: claims.sub,
+    email: firstString(claims.email),
+    firstName: firstString(claims.given_name, given),
+    lastName: firstString(claims.family_name, rest.join(" ")),
+    groups: asList(claims[config.groups_attribute || "groups"]),
+  };
+}
+
+function samlIdentity(profile: Profile, config: SsoConfig): SsoIdentity {
+  const claim = (name: string) => profile[`http://schemas.xmlsoap.org/ws/2005/05/identity/claims/${name}`];
+  return {
+    issuer: profile.issuer,
+    subject: profile.nameID,
+    email: firstString(
+      profile.email,
+      profile.mail,
+      profile["urn:oid:0.9.2342.19200300.100.1.3"],
+      claim("emailaddress"),
+      profile.nameID.includes("@") ? profile.nameID : null
+    ),
+    firstName: firstString(profile.firstName, profile.givenName, claim("givenname")),
+    lastName: firstString(profile.lastName, profile.surname, profile.sn, claim("surname")),
+    groups: asList(
+      profile[config.groups_attribute || "groups"] ??
+        profile["http://schemas.microsoft.com/ws/2008/06/identity/claims/groups"]
+    ),
+  };
+}
+
+export function roleForGroups(groups: string[], config: SsoConfig): UserRole | null {
+  const mapped = groups
+    .map((group) => config.role_mapping?.[group])
+    .filter((role): role is UserRole => !!role && SSO_ROLES.includes(role));
+  if (!mapped.length) return config.default_role || null;
+  return mapped.reduce((best, role) => (ROLE_RANK[role] > ROLE_RANK[best] ? role : best));
+}
+
+// ─── Just-in-time provisioning ───────────────────────────────────
+
+async function createAuthUser(identity: SsoIdentity, tenantId: string, role: UserRole) {
+  const { data, error } = await supabaseAdmin.auth.admin.createUser({
+    email: identity.email,
+    email_confirm: true,
+    user_metadata: { first_name: identity.firstName, last_name: identity.lastName, role, tenant_id: tenantId },
+  });
+  if (error) {
+    if ((error as any).code === "email_exists" || (error as any).status === 422) {
+      throw new SsoError("An account with this email already exists outside your organization", 409, "email_in_use");
+    }
+    throw error;
+  }
+  return data.user!;
+}
+
+// Create or update the users row for an SSO login. Roles follow the IdP's
+// groups on every login, so removing someone from a group takes effect at
+// their next sign-in.
+export async function provisionSsoUser(tenant: SsoTenant, config: SsoConfig, identity: SsoIdentity) {
+  if (!identity.subject || !identity.email) {
+    throw new SsoError("Your identity provider did not send an email address", 400, "email_missing");
+  }
+  const email = identity.email.toLowerCase();
+  const domain = email.split("@")[1];
+  if (config.allowed_domains?.length && !config.allowed_domains.map((d) => d.toLowerCase()).includes(domain)) {
+    throw new SsoError("Your email domain is not allowed for this organization", 403, "domain_not_allowed");
+  }
+
+  const role = roleForGroups(identity.groups, config);
+  if (!role) {
+    throw new SsoError("Your account is not in a group that has access. Contact your administrator.", 403, "no_role_mapping");
+  }
+
+  const { data: link, error: linkError } = await supabaseAdmin
+    .from("user_sso_identities")
+    .select("user_id")
+    .eq("tenant_id", tenant.id)
+    .eq("issuer", identity.issuer)
+    .eq("subject", identity.subject)
+    .maybeSingle();
+  if (linkError) throw linkError;
+
+  let userId: string | null = link?.user_id ?? null;
+  if (!userId) {
+    // First SSO login: adopt an existing account in this tenant with the same email
+    const { data: existing, error } = await supabaseAdmin
+      .from("users")
+      .select("id, tenant_id")
+      .ilike("email", email.replace(/[\\%_]/g, (c) => `\\${c}`))
+      .maybeSingle();
+    if (error) throw error;
+    if (existing && existing.tenant_id !== tenant.id) {
+      throw new SsoError("An account with this email already exists outside your organization", 409, "email_in_use");
+    }
+    userId = existing?.id ?? null;
+  }
+
+  const profile = {
+    first_name: identity.firstName || email.split("@")[0],
+    last_name: identity.lastName || "",
+    role,
+    last_login: new Date().toISOString(),
+  };
+
+  let user;
+  if (userId) {
+    const { data, error } = await supabaseAdmin
+      .from("users")
+      .update(profile)
+      .eq("id", userId)
+      .select("id, tenant_id, email, role, active")
+      .single();
+    if (error) throw error;
+    user = data;
+  } else {
+    const authUser = await createAuthUser({ ...identity, email }, tenant.id, role);
+    const { data, error } = await supabaseAdmin
+      .from("users")
+      .insert({ id: authUser.id, tenant_id: tenant.id, email, active: true, mfa_enabled: false, ...profile })
+      .select("id, tenant_id, email, role, active")
+      .single();
+    if (error) {
+      await supabaseAdmin.auth.admin.deleteUser(authUser.id).catch((cleanupError) => {
+        console.error("Failed to clean up SSO auth user:", cleanupError);
+      });
+      throw error;
+    }
+    user = data;
+  }
+
+  if (!user.active) throw new SsoError("Your account is not active", 403, "account_inactive");
+
+  const { error: upsertError } = await supabaseAdmin.from("user_sso_identities").upsert(
+    {
+      user_id: user.id,
+      tenant_id: tenant.id,
+      issuer: identity.issuer,
+      subject: identity.subject,
+      email,
+      groups: identity.groups,
+      last_login_at: new Date().toISOString(),
+    },
+    { onConflict: "tenant_id,issuer,subject" }
+  );
+  if (upsertError) throw upsertError;
+
+  return { user, created: !userId };
+}
+
+// ─── Handoff to a Supabase session ───────────────────────────────
+
+const handoffs = new Map<string, { userId: string; expiresAt: number }>();
+
+// One-time magic-link token for the browser plus the handoff id that binds
+// the resulting session to this SSO login. Both travel in the URL fragment.
+async function issueHandoff(user: { id: string; email: string }) {
+  const { data, error } = await supabaseAdmin.auth.admin.generateLink({ type: "magiclink", email: user.email });
+  if (error) throw error;
+
+  prune(handoffs);
+  const handoff = crypto.randomBytes(32).toString("base64url");
+  handoffs.set(handoff, { userId: user.id, expiresAt: Date.now() + HANDOFF_TTL_MS });
+
+  const fragment = new URLSearchParams({ sso_token_hash: data.properties.hashed_token, sso_handoff: handoff });
+  return `${APP_URL}/#${fragment.toString()}`;
+}
+
+export function ssoErrorRedirect(error: any) {
+  const code = error instanceof SsoError ? error.code : "sso_failed";
+  const message = error instanceof SsoError ? error.message : "Single sign-on failed. Please try again.";
+  return `${APP_URL}/#${new URLSearchParams({ sso_error: code, sso_message: message }).toString()}`;
+}
+
+// Mark the caller's new session as an SSO session
+export async function bindSsoSession(handoff: string, userId: string, sessionId: string | null) {
+  prune(handoffs);
+  const entry = handoffs.get(handoff);
+  if (!entry || entry.userId !== userId || !sessionId) {
+    throw new SsoError("This sign-in has expired. Please start again.", 400, "handoff_invalid");
+  }
+  handoffs.delete(handoff);
+
+  const { error } = await supabaseAdmin
+    .from("user_sessions")
+    .update({ auth_method: "sso" })
+    .eq("session_id", sessionId)
+    .eq("user_id", userId);
+  if (error) throw error;
+}
+
+async function finishLogin(tenant: SsoTenant, config: SsoConfig, identity: SsoIdentity) {
+  const { user, created } = await provisionSsoUser(tenant, config, identity);
+  return { redirectUrl: await issueHandoff(user), user, created, issuer: identity.issuer };
+}
+
+// IdP callbacks; both return the app URL to send the browser to and who signed in
+export async function finishOidcLogin(subdomain: string, query: Record<string, any>) {
+  const tenant = await loadSsoTenant(subdomain);
+  const config = activeConfig(tenant);
+  if (query.error) {
+    throw new SsoError(String(query.error_description || query.error), 401, "idp_error");
+  }
+  const pending = takePendingLogin(query.state, tenant, "oidc");
+
+  const claims = await completeAuthorization(oidcClient(tenant, config), {
+    code: String(query.code || ""),
+    codeVerifier: pending.codeVerifier!,
+    nonce: pending.nonce!,
+  });
+  return finishLogin(tenant, config, oidcIdentity(claims, config));
+}
+
+export async function finishSamlLogin(subdomain: string, body: Record<string, string>) {
+  const tenant = await loadSsoTenant(subdomain);
+  const config = activeConfig(tenant);
+  takePendingLogin(body.RelayState, tenant, "saml");
+
+  let profile: Profile | null;
+  try {
+    ({ profile } = await samlClient(tenant, config).validatePostResponseAsync(body));
+  } catch (error: any) {
+    console.error("SAML response rejected:", error);
+    throw new SsoError("The identity provider's response could not be verified", 401, "invalid_assertion");
+  }
+  if (!profile) throw new SsoError("The identity provider did not sign you in", 401, "invalid_assertion");
+  return finishLogin(tenant, config, samlIdentity(profile, config));
+}
+
+// ─── Enforcement ─────────────────────────────────────────────────
+
+// SSO-only tenants refuse sessions that did not come through SSO. Super
+// admins are exempt so a broken IdP can always be fixed.
+export async function ssoRequiredFor(user: { tenant_id: string | null; role: string }, authMethod: string | null) {
+  if (authMethod === "sso" || user.role === "super_admin" || !user.tenant_id) return false;
+  const { data, error } = await supabaseAdmin
+    .from("tenants")
+    .select("sso_enforced")
+    .eq("id", user.tenant_id)
+    .maybeSingle();
+  if (error) throw error;
+  return !!data?.sso_enforced;
+}
+
+// ─── Configuration ───────────────────────────────────────────────
+
+export interface SsoSettingsInput {
+  enabled?: boolean;
+  enforced?: boolean;
+  protocol?: SsoProtocol;
+  oidc?: { issuer?: string; client_id?: string; client_secret?: string | null; scopes?: string };
+  saml?: { entry_point?: string; idp_issuer?: string | null; idp_cert?: string };
+  groups_attribute?: string;
+  role_mapping?: Record<string, string>;
+  default_role?: string | null;
+  allowed_domains?: string[];
+}
+
+function redact(tenant: SsoTenant) {
+  const config = tenant.sso_config;
+  const { client_secret_encrypted, ...oidc } = config?.oidc || ({} as NonNullable<SsoConfig["oidc"]>);
+  return {
+    tenant_id: tenant.id,
+    enforced: tenant.sso_enforced,
+    config: config && {
+      ...config,
+      oidc: config.oidc ? { ...oidc, has_client_secret: !!client_secret_encrypted } : undefined,
+    },
+    service_provider: serviceProviderUrls(tenant.subdomain),
+  };
+}
+
+async function loadTenantById(tenantId: string) {
+  const { data, error } = await supabaseAdmin
+    .from("tenants")
+    .select("id, name, subdomain, status, sso_config, sso_enforced")
+    .eq("id", tenantId)
+    .maybeSingle();
+  if (error) throw error;
+  if (!data) throw new SsoError("Tenant not found", 404, "not_found");
+  return data as SsoTenant;
+}
+
+export async function getTenantSsoSettings(tenantId: string) {
+  return redact(await loadTenantById(tenantId));
+}
+
+// Merge changes into the tenant's config. Mapping a group to super_admin is
+// reserved for super admins.
+export async function updateTenantSsoSettings(tenantId: string, input: SsoSettingsInput, actorRole: UserRole) {
+  const tenant = await loadTenantById(tenantId);
+  const current: SsoConfig = tenant.sso_config || { enabled: false, protocol: "oidc", role_mapping: {} };
+
+  const roleMapping = (input.role_mapping ?? current.role_mapping) as Record<string, UserRole>;
+  const defaultRole = (input.default_role === undefined ? current.default_role : input.default_role) as UserRole | null;
+  for (const role of [...Object.values(roleMapping), ...(defaultRole ? [defaultRole] : [])]) {
+    if (!SSO_ROLES.includes(role)) throw new SsoError(`Unknown role "${role}"`, 400, "invalid_role");
+    if (role === "super_admin" && actorRole !== "super_admin") {
+      throw new SsoError("Only super admins can map groups to super_admin", 403, "role_not_allowed");
+    }
+  }
+
+  let clientSecret = current.oidc?.client_secret_encrypted ?? null;
+  if (input.oidc && input.oidc.client_secret !== undefined) {
+    clientSecret = input.oidc.client_secret ? sealSecret(input.oidc.client_secret, secretKey()) : null;
+  }
+
+  const next: SsoConfig = {
+    enabled: input.enabled ?? current.enabled,
+    protocol: input.protocol ?? current.protocol,
+    oidc:
+      input.oidc || current.oidc
+        ? {
+            issuer: input.oidc?.issuer ?? current.oidc?.issuer ?? "",
+            client_id: input.oidc?.client_id ?? current.oidc?.client_id ?? "",
+            client_secret_encrypted: clientSecret,
+            scopes: input.oidc?.scopes ?? current.oidc?.scopes,
+          }
+        : undefined,
+    saml:
+      input.saml || current.saml
+        ? {
+            entry_point: input.saml?.entry_point ?? current.saml?.entry_point ?? "",
+            idp_issuer: input.saml?.idp_issuer === undefined ? current.saml?.idp_issuer : input.saml.idp_issuer,
+            idp_cert: input.saml?.idp_cert ?? current.saml?.idp_cert ?? "",
+          }
+        : undefined,
+    groups_attribute: input.groups_attribute ?? current.groups_attribute,
+    role_mapping: roleMapping,
+    default_role: defaultRole,
+    allowed_domains: input.allowed_domains ?? current.allowed_domains,
+  };
+
+  if (!["oidc", "saml"].includes(next.protocol)) throw new SsoError("protocol must be oidc or saml", 400, "invalid_protocol");
+  if (next.enabled) {
+    const complete =
+      next.protocol === "oidc"
+        ? !!(next.oidc?.issuer && next.oidc.client_id)
+        : !!(next.saml?.entry_point && next.saml.idp_cert);
+    if (!complete) {
+      throw new SsoError(`Finish the ${next.protocol.toUpperCase()} settings before enabling SSO`, 400, "sso_incomplete");
+    }
+  }
+  const enforced = (input.enforced ?? tenant.sso_enforced) && next.enabled;
+
+  const { error } = await supabaseAdmin
+    .from("tenants")
+    .update({ sso_config: next, sso_enforced: enforced })
+    .eq("id", tenantId);
+  if (error) throw error;
+
+  return redact({ ...tenant, sso_config: next, sso_enforced: enforced });
+}
@@ -17,11 +17,23 @@ if (!SUPABASE_SERVICE_ROLE_KEY) {
   );
 }
 
-// Client-scoped (RLS-enforced) operations, using anon key
-export const supabaseUserScoped = createClient(
-  SUPABASE_URL,
-  SUPABASE_ANON_KEY
-);
+// Client-scoped (RLS-enforced) operations, using anon key.
+// Build one per request: the client is bound to the caller's JWT through its
+// headers, so concurrent requests never share auth state.
+export function createUserScopedClient(accessToken: string) {
+  return createClient(SUPABASE_URL as string, SUPABASE_ANON_KEY as string, {
+    global: {
+      headers: { Authorization: `Bearer ${accessToken}` },
+    },
+    auth: {
+      persistSession: false,
+      autoRefreshToken: false,
+      detectSessionInUrl: false,
+    },
+  });
+}
+
+export type UserScopedClient = ReturnType<typeof createUserScopedClient>;
 
 // Admin client for server-side use only (SERVICE_ROLE)
 // WARNING: never expose this key in frontend code.
@@ -0,0 +1,71 @@
+import { supabaseAdmin } from "./supabase";
+
+// Tenant security settings that the app enforces on every signed-in device
+// (database_migrations/tenant_idle_timeout.sql). MFA and SSO have their own
+// APIs for changing them; they are reported here so clients load one record.
+
+export class TenantSecurityError extends Error {
+  status: number;
+  code: string;
+
+  constructor(message: string, status: number, code: string) {
+    super(message);
+    this.name = "TenantSecurityError";
+    this.status = status;
+    this.code = code;
+  }
+}
+
+// Bounds match tenants_idle_timeout_minutes_check
+export const IDLE_TIMEOUT_MIN_MINUTES = 2;
+export const IDLE_TIMEOUT_MAX_MINUTES = 480;
+
+export interface TenantSecuritySettings {
+  tenant_id: string;
+  idle_timeout_minutes: number;
+  require_mfa: boolean;
+  sso_enforced: boolean;
+}
+
+const COLUMNS = "id, idle_timeout_minutes, require_mfa, sso_enforced";
+
+function toSettings(row: any): TenantSecuritySettings {
+  return {
+    tenant_id: row.id,
+    idle_timeout_minutes: row.idle_timeout_minutes,
+    require_mfa: !!row.require_mfa,
+    sso_enforced: !!row.sso_enforced,
+  };
+}
+
+export async function getTenantSecuritySettings(tenantId: string) {
+  const { data, error } = await supabaseAdmin.from("tenants").select(COLUMNS).eq("id", tenantId).maybeSingle();
+  if (error) throw error;
+  if (!data) throw new TenantSecurityError("Tenant not found", 404, "not_found");
+  return toSettings(data);
+}
+
+export async function setTenantIdleTimeout(tenantId: string, minutes: unknown) {
+  if (
+    typeof minutes !== "number" ||
+    !Number.isInteger(minutes) ||
+    minutes < IDLE_TIMEOUT_MIN_MINUTES ||
+    minutes > IDLE_TIMEOUT_MAX_MINUTES
+  ) {
+    throw new TenantSecurityError(
+      `idle_timeout_minutes must be a whole number from ${IDLE_TIMEOUT_MIN_MINUTES} to ${IDLE_TIMEOUT_MAX_MINUTES}`,
+      400,
+      "invalid_idle_timeout"
+    );
+  }
+
+  const { data, error } = await supabaseAdmin
+    .from("tenants")
+    .update({ idle_timeout_minutes: minutes })
+    .eq("id", tenantId)
+    .select(COLUMNS)
+    .maybeSingle();
+  if (error) throw error;
+  if (!data) throw new TenantSecurityError("Tenant not found", 404, "not_found");
+  return toSettings(data);
+}
@@ -0,0 +1,100 @@
+import crypto from "crypto";
+
+// RFC 6238 TOTP (HMAC-SHA1, 6 digits, 30 s steps) - the parameters every
+// authenticator app supports. Secrets are exchanged base32-encoded.
+
+const STEP_SECONDS = 30;
+const DIGITS = 6;
+const BASE32_ALPHABET = "ABCDEFGHIJKLMNOPQRSTUVWXYZ234567";
+
+export function base32Encode(buffer: Buffer): string {
+  let bits = 0;
+  let value = 0;
+  let output = "";
+
+  for (const byte of buffer) {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  if (bits > 0) output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  return output;
+}
+
+export function base32Decode(input: string): Buffer {
+  const clean = input.toUpperCase().replace(/=+$/, "").replace(/\s/g, "");
+  let bits = 0;
+  let value = 0;
+  const bytes: number[] = [];
+
+  for (const char of clean) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index === -1) throw new Error("Invalid base32 secret");
+    value = (value << 5) | index;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+  return Buffer.from(bytes);
+}
+
+// 160-bit secret, as recommended by RFC 4226
+export function generateTotpSecret(): string {
+  return base32Encode(crypto.randomBytes(20));
+}
+
+export function currentStep(now: number = Date.now()) {
+  return Math.floor(now / 1000 / STEP_SECONDS);
+}
+
+export function totpAt(secret: string, step: number): string {
+  const counter = Buffer.alloc(8);
+  counter.writeBigUInt64BE(BigInt(step));
+
+  const hmac = crypto.createHmac("sha1", base32Decode(secret)).update(counter).digest();
+  const offset = hmac[hmac.length - 1] & 0x0f;
+  const binary = hmac.readUInt32BE(offset) & 0x7fffffff;
+  return String(binary % 10 ** DIGITS).padStart(DIGITS, "0");
+}
+
+// Returns the matching time step, or null. Accepts one step of clock drift
+// either way; steps at or before lastUsedStep are rejected so a code can only
+// be used once.
+export function verifyTotp(
+  secret: string,
+  code: string,
+  options: { lastUsedStep?: number | null; window?: number; now?: number } = {}
+): number | null {
+  const normalized = code.replace(/\s/g, "");
+  if (!/^\d{6}$/.test(normalized)) return null;
+
+  const window = options.window ?? 1;
+  const step = currentStep(options.now);
+
+  for (let offset = -window; offset <= window; offset++) {
+    const candidate = step + offset;
+    if (options.lastUsedStep != null && candidate <= options.lastUsedStep) continue;
+
+    const expected = Buffer.from(totpAt(secret, candidate));
+    if (crypto.timingSafeEqual(expected, Buffer.from(normalized))) return candidate;
+  }
+  return null;
+}
+
+// otpauth:// URI that authenticator apps read from the enrollment QR code
+export function otpauthUrl(secret: string, accountName: string, issuer: string) {
+  const label = encodeURIComponent(`${issuer}:${accountName}`);
+  const params = new URLSearchParams({
+    secret,
+    issuer,
+    algorithm: "SHA1",
+    digits: String(DIGITS),
+    period: String(STEP_SECONDS),
+  });
+  return `otpauth://totp/${label}?${params.toString()}`;
+}
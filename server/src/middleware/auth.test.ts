@@ -0,0 +1,110 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import type { AddressInfo } from "net";
+import jwt from "jsonwebtoken";
+
+// Overlapping requests from two tenants' users must each query through their
+// own Supabase client. A fake PostgREST stands in for Supabase: it applies
+// "RLS" from the bearer token it receives and records which token each query
+// carried.
+
+const SUPABASE_URL = "http://supabase.test";
+const JWT_SECRET = "test-jwt-secret";
+const SERVICE_ROLE_KEY = "service-role-key";
+
+process.env.SUPABASE_URL = SUPABASE_URL;
+process.env.SUPABASE_ANON_KEY = "anon-key";
+process.env.SUPABASE_SERVICE_ROLE_KEY = SERVICE_ROLE_KEY;
+process.env.SUPABASE_JWT_SECRET = JWT_SECRET;
+
+const USERS = [
+  { id: "user-a", tenant_id: "tenant-a", role: "clinician", email: "a@example.com", active: true },
+  { id: "user-b", tenant_id: "tenant-b", role: "clinician", email: "b@example.com", active: true },
+];
+
+const PATIENTS = [
+  { id: "patient-a1", tenant_id: "tenant-a" },
+  { id: "patient-a2", tenant_id: "tenant-a" },
+  { id: "patient-b1", tenant_id: "tenant-b" },
+];
+
+const delay = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+// probe → Authorization header of the patients query made for it
+const seenTokens = new Map<string, string>();
+
+const realFetch = globalThis.fetch;
+
+async function fakeSupabase(url: URL, headers: Headers) {
+  const table = url.pathname.replace(/^\/rest\/v1\//, "");
+  const eq = (column: string) => url.searchParams.get(column)?.replace(/^eq\./, "");
+  let rows: object[] = [];
+
+  if (table === "users") {
+    rows = USERS.filter((u) => u.id === eq("id"));
+  } else if (table === "patients") {
+    const authorization = headers.get("authorization") || "";
+    seenTokens.set(eq("probe") as string, authorization);
+    // Give the other request a chance to run in between
+    await delay(Math.random() * 20);
+    const claims = jwt.verify(authorization.replace(/^Bearer /, ""), JWT_SECRET) as { sub: string };
+    const tenantId = USERS.find((u) => u.id === claims.sub)?.tenant_id;
+    rows = PATIENTS.filter((p) => p.tenant_id === tenantId);
+  }
+
+  const single = (headers.get("accept") || "").includes("vnd.pgrst.object");
+  return new Response(JSON.stringify(single ? rows[0] ?? null : rows), {
+    status: 200,
+    headers: { "Content-Type": "application/json" },
+  });
+}
+
+globalThis.fetch = (async (input: any, init?: any) => {
+  const request = new Request(input, init);
+  const url = new URL(request.url);
+  if (url.origin !== SUPABASE_URL) return realFetch(input, init);
+  return fakeSupabase(url, request.headers);
+}) as typeof fetch;
+
+const tokenFor = (userId: string) =>
+  jwt.sign({ sub: userId, aud: "authenticated" }, JWT_SECRET, { algorithm: "HS256", expiresIn: "5m" });
+
+test("interleaved requests only see their own user's rows", async (t) => {
+  // Loaded after the environment and fetch are in place
+  const { default: express } = await import("express");
+  const { requireAuth } = await import("./auth");
+  type AuthenticatedRequest = import("./auth").AuthenticatedRequest;
+
+  const app = express();
+  app.get("/patients/:probe", requireAuth, async (req: AuthenticatedRequest, res: any) => {
+    await delay(Math.random() * 20);
+    const { data, error } = await req.supabase!.from("patients").select("id, tenant_id").eq("probe", req.params.probe);
+    if (error) return res.status(500).json({ error: error.message });
+    res.json({ patients: data });
+  });
+
+  const server = app.listen(0);
+  t.after(() => {
+    server.closeAllConnections();
+    server.close();
+  });
+  const { port } = server.address() as AddressInfo;
+
+  const tokens: Record<string, string> = { "user-a": tokenFor("user-a"), "user-b": tokenFor("user-b") };
+  const calls = Array.from({ length: 20 }, (_, i) => {
+    const user = USERS[i % 2];
+    const probe = `${user.id}-${i}`;
+    return realFetch(`http://127.0.0.1:${port}/patients/${probe}`, {
+      headers: { Authorization: `Bearer ${tokens[user.id]}` },
+    }).then(async (res) => ({ user, probe, status: res.status, body: (await res.json()) as { patients: { id: string; tenant_id: string }[] } }));
+  });
+
+  for (const { user, probe, status, body } of await Promise.all(calls)) {
+    assert.equal(status, 200);
+    assert.equal(seenTokens.get(probe), `Bearer ${tokens[user.id]}`, `${probe} queried with another user's token`);
+    assert.ok(body.patients.length > 0);
+    for (const patient of body.patients) {
+      assert.equal(patient.tenant_id, user.tenant_id, `${probe} saw ${patient.id}`);
+    }
+  }
+});
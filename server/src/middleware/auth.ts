@@ -1,19 +1,217 @@
-const { supabaseUserScoped } = require('../lib/supabase');
+import jwt from "jsonwebtoken";
+import { supabaseAdmin, createUserScopedClient } from "../lib/supabase";
+import type { UserScopedClient } from "../lib/supabase";
+import { mfaStateForSession } from "../lib/mfa";
+import type { MfaState } from "../lib/mfa";
+import { trackSession } from "../lib/sessions";
+import { ssoRequiredFor } from "../lib/sso";
+import { isSessionLive, loadImpersonationSession } from "../lib/impersonation";
+import type { ImpersonationClaim, ImpersonationContext } from "../lib/impersonation";
 
-interface AuthRequest {
-    headers: {
-        authorization?: string;
+const SUPABASE_JWT_SECRET = process.env.SUPABASE_JWT_SECRET;
+
+if (!SUPABASE_JWT_SECRET) {
+  throw new Error(
+    "Missing SUPABASE_JWT_SECRET - required to verify access tokens (Supabase → Settings → API → JWT Secret)."
+  );
+}
+
+export type UserRole = "clinician" | "scheduler" | "agency_admin" | "super_admin";
+
+// Identity attached to every request that passes requireAuth
+export interface AuthIdentity {
+  userId: string;
+  tenantId: string;
+  role: UserRole;
+  email: string;
+  token: string;
+  expiresAt: number; // unix seconds, from the token's exp claim
+  sessionId: string | null; // Supabase auth session, from the session_id claim
+  mfa: MfaState;
+  // Set when a super admin is acting inside a tenant; tenantId/role are the tenant's
+  impersonation: ImpersonationContext | null;
+}
+
+export interface AuthenticatedRequest {
+  headers: {
+    authorization?: string;
+    [header: string]: string | string[] | undefined;
+  };
+  auth?: AuthIdentity;
+  supabase?: UserScopedClient;
+  userId?: string;
+  [key: string]: any;
+}
+
+interface SupabaseJwtPayload {
+  sub?: string;
+  exp?: number;
+  email?: string;
+  session_id?: string;
+  impersonation?: ImpersonationClaim;
+}
+
+const SAFE_METHODS = new Set(["GET", "HEAD", "OPTIONS"]);
+
+function extractBearerToken(req: AuthenticatedRequest): string {
+  const header = req.headers.authorization || "";
+  return header.replace(/^Bearer\s+/i, "").trim();
+}
+
+interface AuthOptions {
+  allowPendingMfa: boolean;
+  allowPendingSso: boolean;
+}
+
+async function authenticate(
+  req: AuthenticatedRequest,
+  res: any,
+  next: (error?: any) => void,
+  { allowPendingMfa, allowPendingSso }: AuthOptions
+) {
+  const token = extractBearerToken(req);
+  if (!token) return res.status(401).json({ error: "Missing token" });
+
+  // 1. Verify signature and expiry
+  let payload: SupabaseJwtPayload;
+  try {
+    payload = jwt.verify(token, SUPABASE_JWT_SECRET as string, {
+      algorithms: ["HS256"],
+      audience: "authenticated",
+    }) as SupabaseJwtPayload;
+  } catch (err: any) {
+    if (err instanceof jwt.TokenExpiredError) {
+      return res.status(401).json({ error: "Token expired" });
+    }
+    return res.status(401).json({ error: "Invalid token" });
+  }
+
+  if (!payload.sub || !payload.exp) {
+    return res.status(401).json({ error: "Invalid token" });
+  }
+
+  // 2. Load the matching users row (service role, so RLS cannot hide it)
+  const { data: user, error: userError } = await supabaseAdmin
+    .from("users")
+    .select("id, tenant_id, role, email, active")
+    .eq("id", payload.sub)
+    .maybeSingle();
+
+  if (userError) {
+    console.error("Auth user lookup failed:", userError);
+    return res.status(500).json({ error: "Failed to load user profile" });
+  }
+
+  if (!user) {
+    return res.status(401).json({ error: "No user profile for this token" });
+  }
+
+  if (!user.active) {
+    return res.status(403).json({ error: "Account is not active" });
+  }
+
+  // 3. Record the device; revoked sessions are refused even if the token is still valid
+  const sessionId = payload.session_id || null;
+  let authMethod: string | null = null;
+  if (sessionId) {
+    try {
+      const session = await trackSession({ sessionId, userId: user.id, tenantId: user.tenant_id }, req);
+      if (!session.active) {
+        return res.status(401).json({ error: "This session has been signed out", code: "session_revoked" });
+      }
+      authMethod = session.authMethod;
+    } catch (err) {
+      console.error("Session lookup failed:", err);
+      return res.status(500).json({ error: "Failed to load session" });
+    }
+  }
+
+  // SSO-only tenants refuse sessions that did not come through their IdP
+  if (!allowPendingSso) {
+    try {
+      if (await ssoRequiredFor(user, authMethod)) {
+        return res.status(403).json({ error: "Your organization requires single sign-on", code: "sso_required" });
+      }
+    } catch (err) {
+      console.error("SSO policy lookup failed:", err);
+      return res.status(500).json({ error: "Failed to load sign-in policy" });
+    }
+  }
+
+  // 4. Sessions that still owe a second factor may only finish MFA
+  let mfa: MfaState;
+  try {
+    mfa = await mfaStateForSession(user, sessionId);
+  } catch (err) {
+    console.error("MFA state lookup failed:", err);
+    return res.status(500).json({ error: "Failed to load MFA state" });
+  }
+
+  if (mfa === "pending" && !allowPendingMfa) {
+    return res.status(403).json({ error: "Two-factor verification required", code: "mfa_required" });
+  }
+
+  // 5. Impersonation tokens act as the tenant's agency admin, within the session's limits
+  let impersonation: ImpersonationContext | null = null;
+  if (payload.impersonation) {
+    if (user.role !== "super_admin") {
+      return res.status(401).json({ error: "Invalid token" });
+    }
+
+    let session;
+    try {
+      session = await loadImpersonationSession(payload.impersonation.sid);
+    } catch (err) {
+      console.error("Impersonation lookup failed:", err);
+      return res.status(500).json({ error: "Failed to load impersonation session" });
+    }
+
+    if (!session || session.actor_user_id !== user.id || !isSessionLive(session)) {
+      return res.status(401).json({ error: "Impersonation session has ended", code: "impersonation_ended" });
+    }
+    if (session.mode === "read_only" && !SAFE_METHODS.has(req.method)) {
+      return res.status(403).json({ error: "Impersonation session is read-only", code: "impersonation_read_only" });
+    }
+
+    impersonation = {
+      sessionId: session.id,
+      actorUserId: user.id,
+      tenantId: session.tenant_id,
+      mode: session.mode,
+      reason: session.reason,
     };
-    userId?: string;
+  }
+
+  // 6. Attach identity
+  req.auth = {
+    userId: user.id,
+    tenantId: impersonation ? impersonation.tenantId : user.tenant_id,
+    role: impersonation ? "agency_admin" : (user.role as UserRole),
+    email: user.email || payload.email || "",
+    token,
+    expiresAt: payload.exp,
+    sessionId,
+    mfa,
+    impersonation,
+  };
+  req.userId = user.id;
+
+  // Per-request client bound to this token so RLS sees auth.uid()
+  req.supabase = createUserScopedClient(token);
+  next();
+}
+
+export function requireAuth(req: AuthenticatedRequest, res: any, next: (error?: any) => void) {
+  return authenticate(req, res, next, { allowPendingMfa: false, allowPendingSso: false });
 }
 
-function requireAuth(req: AuthRequest, res: any, next: (error?: any) => void) {
-    const token = (req.headers.authorization || "").replace(/^Bearer\s+/i,"");
-    if(!token) return res.status(401).json({error: "Missing token"});
-    //pass token through so RLS sees auth.uid()
-    (supabaseUserScoped as any).auth.setAuth(token);
-    req.userId = "jwt";
-    next();
+// Like requireAuth, but also admits sessions still waiting on their second
+// factor. Only for the /api/mfa endpoints that complete sign-in.
+export function requirePasswordAuth(req: AuthenticatedRequest, res: any, next: (error?: any) => void) {
+  return authenticate(req, res, next, { allowPendingMfa: true, allowPendingSso: false });
 }
 
-module.exports = { requireAuth };
\ No newline at end of file
+// For POST /api/sso/session, which turns a fresh session into an SSO session
+export function requireSsoHandoffAuth(req: AuthenticatedRequest, res: any, next: (error?: any) => void) {
+  return authenticate(req, res, next, { allowPendingMfa: true, allowPendingSso: true });
+}
@@ -0,0 +1,92 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import type { AddressInfo } from "net";
+
+// PHI only leaves the server once its access has been written to audit_logs.
+// A fake Supabase accepts or refuses the audit insert.
+
+const SUPABASE_URL = "http://supabase.test";
+
+process.env.SUPABASE_URL = SUPABASE_URL;
+process.env.SUPABASE_ANON_KEY = "anon-key";
+process.env.SUPABASE_SERVICE_ROLE_KEY = "service-role-key";
+
+let auditWrites: any[] = [];
+let failAuditWrites = false;
+
+const realFetch = globalThis.fetch;
+
+globalThis.fetch = (async (input: any, init?: any) => {
+  const request = new Request(input, init);
+  const url = new URL(request.url);
+  if (url.origin !== SUPABASE_URL) return realFetch(input, init);
+
+  if (failAuditWrites) {
+    return new Response(JSON.stringify({ message: "audit_logs is unavailable" }), {
+      status: 503,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+  auditWrites.push(...((await request.json()) as any[]));
+  return new Response(null, { status: 201 });
+}) as typeof fetch;
+
+test("PHI reads are logged before the response is sent", async (t) => {
+  const { default: express } = await import("express");
+  const { logPhiAccess } = await import("./phiAccess");
+
+  const app = express();
+  app.use((req: any, _res, next) => {
+    req.auth = { userId: "user-a", impersonation: null };
+    next();
+  });
+  app.get("/patients", logPhiAccess(), (_req, res) => {
+    res.locals.phiAccess = [
+      { tenantId: "tenant-a", patientId: "patient-a1", entityType: "patient", entityId: "patient-a1", chartId: null },
+    ];
+    res.json({ patients: [{ id: "patient-a1" }] });
+  });
+  app.get("/export", logPhiAccess(), (_req, res) => {
+    res.locals.phiAccess = [
+      { tenantId: "tenant-a", patientId: "patient-a1", entityType: "patient", entityId: "patient-a1", chartId: null },
+    ];
+    res.setHeader("Content-Disposition", 'attachment; filename="record.zip"');
+    res.type("application/zip").send(Buffer.from("zip"));
+  });
+
+  const server = app.listen(0);
+  t.after(() => {
+    server.closeAllConnections();
+    server.close();
+  });
+  const base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+  await t.test("the access is written, then the PHI sent", async () => {
+    auditWrites = [];
+    failAuditWrites = false;
+    const res = await realFetch(`${base}/patients`);
+
+    assert.equal(res.status, 200);
+    assert.deepEqual(await res.json(), { patients: [{ id: "patient-a1" }] });
+    assert.equal(auditWrites.length, 1);
+    assert.equal(auditWrites[0].action, "viewed");
+    assert.equal(auditWrites[0].entity_id, "patient-a1");
+  });
+
+  await t.test("a failed write withholds the PHI", async () => {
+    failAuditWrites = true;
+    const res = await realFetch(`${base}/patients`);
+
+    assert.equal(res.status, 500);
+    assert.deepEqual(await res.json(), { error: "Failed to record PHI access", code: "phi_access_log_failed" });
+  });
+
+  await t.test("a failed write withholds a file download", async () => {
+    failAuditWrites = true;
+    const res = await realFetch(`${base}/export`);
+
+    assert.equal(res.status, 500);
+    assert.equal(res.headers.get("content-disposition"), null);
+    assert.match(res.headers.get("content-type") || "", /application\/json/);
+  });
+});
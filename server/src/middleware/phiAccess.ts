@@ -0,0 +1,41 @@
+import { phiOwner, recordPhiAccess } from "../lib/phiAccess";
+import type { PhiAccess, PhiEntityType } from "../lib/phiAccess";
+import type { AuthenticatedRequest } from "./auth";
+
+// Log PHI reads before the response goes out. Must run after requireAuth.
+// With (entityType, param) the record in req.params[param] is logged;
+// handlers that return several records (lists) set res.locals.phiAccess to
+// what they returned instead. A successful response is held until the access
+// is written; if the write fails the caller gets a 500 instead of the PHI.
+export function logPhiAccess(entityType?: PhiEntityType, param?: string) {
+  return (req: AuthenticatedRequest, res: any, next: (error?: any) => void) => {
+    const send = res.send;
+    let logged = false;
+
+    // res.json goes through res.send, so this covers both
+    res.send = (body?: any) => {
+      if (logged || res.statusCode < 200 || res.statusCode >= 300) return send.call(res, body);
+      logged = true;
+
+      (async () => {
+        let accesses: PhiAccess[] | undefined = res.locals.phiAccess;
+        if (!accesses && entityType && param && req.params?.[param]) {
+          const owner = await phiOwner(entityType, req.params[param]);
+          accesses = owner ? [owner] : [];
+        }
+        await recordPhiAccess(req, accesses || []);
+      })().then(
+        () => send.call(res, body),
+        (error) => {
+          console.error("PHI access log failed; response withheld:", error);
+          res.removeHeader("Content-Disposition");
+          res.removeHeader("Content-Type");
+          res.status(500).json({ error: "Failed to record PHI access", code: "phi_access_log_failed" });
+        }
+      );
+      return res;
+    };
+
+    next();
+  };
+}
@@ -0,0 +1,102 @@
+import express from "express";
+import { requireAuth } from "../middleware/auth";
+import type { AuthenticatedRequest } from "../middleware/auth";
+import { requireRole, requireSameTenant } from "../middleware/authorize";
+import { verifyAuditChain, writeAuditLog } from "../lib/audit";
+import { AuditQueryError, auditLogsToCsv, exportAuditLogs, parseAuditFilters, searchAuditLogs } from "../lib/auditSearch";
+
+export const auditRouter = express.Router();
+
+// Agency admins are held to their own tenant by requireSameTenant; super
+// admins may name any tenant, or none to search across tenants.
+const tenantFromQuery = (req: AuthenticatedRequest) => (req.query.tenant_id as string) || req.auth?.tenantId;
+
+function searchTenant(req: AuthenticatedRequest) {
+  if (req.auth!.role === "super_admin") return (req.query.tenant_id as string) || undefined;
+  return req.auth!.tenantId;
+}
+
+function sendError(res: any, error: any, fallback: string) {
+  if (error instanceof AuditQueryError) {
+    return res.status(error.status).json({ error: error.message, code: error.code });
+  }
+  console.error(`${fallback}:`, error);
+  res.status(500).json({ error: error.message || fallback });
+}
+
+const auditReaders = [requireAuth, requireRole("agency_admin", "super_admin"), requireSameTenant(tenantFromQuery)];
+
+// Search entries, newest first. Filters: ?tenant_id= (super admins),
+// user_id, entity_type, entity_id, chart_id (the chart plus its medications
+// and documents), action (comma-separated), from, to (ISO dates), q (free
+// text). Paged with ?page= (from 1) and ?page_size= (max 200).
+auditRouter.get("/logs", ...auditReaders, async (req: AuthenticatedRequest, res: any) => {
+  try {
+    const filters = { ...parseAuditFilters(req.query), tenantId: searchTenant(req) };
+    const result = await searchAuditLogs(filters, {
+      page: Number(req.query.page) || undefined,
+      pageSize: Number(req.query.page_size) || undefined,
+    });
+    res.json(result);
+  } catch (error: any) {
+    sendError(res, error, "Failed to search audit log");
+  }
+});
+
+// Download every matching entry as CSV (default) or JSON, for auditors. Takes
+// the same filters as /logs; a tenant is required and the export itself is
+// audited.
+auditRouter.get("/logs/export", ...auditReaders, async (req: AuthenticatedRequest, res: any) => {
+  const format = (req.query.format as string) || "csv";
+  if (format !== "csv" && format !== "json") {
+    return res.status(400).json({ error: "format must be csv or json", code: "invalid_format" });
+  }
+  const tenantId = searchTenant(req);
+  if (!tenantId) return res.status(400).json({ error: "tenant_id is required", code: "tenant_required" });
+
+  try {
+    const filters = { ...parseAuditFilters(req.query), tenantId };
+    const rows = await exportAuditLogs(filters);
+
+    const { error: auditError } = await writeAuditLog(
+      {
+        tenantId,
+        userId: req.auth!.userId,
+        entityType: "export",
+        entityId: `audit-log-${Date.now()}`,
+        action: "exported",
+        metadata: { export: "audit_log", format, filters, rows: rows.length },
+      },
+      req
+    );
+    // An export nobody can trace is not handed out
+    if (auditError) throw auditError;
+
+    const filename = `audit-log-${tenantId}-${new Date().toISOString().slice(0, 10)}.${format}`;
+    res.setHeader("Content-Disposition", `attachment; filename="${filename}"`);
+    if (format === "json") {
+      res.json({ tenant_id: tenantId, exported_at: new Date().toISOString(), filters, logs: rows });
+    } else {
+      res.type("text/csv").send(auditLogsToCsv(rows));
+    }
+  } catch (error: any) {
+    sendError(res, error, "Failed to export audit log");
+  }
+});
+
+// Check that a tenant's audit log is complete and unaltered (?tenant_id= for
+// super admins). Always 200; `valid` and `breaks` carry the result.
+auditRouter.get("/verify", ...auditReaders, async (req: AuthenticatedRequest, res: any) => {
+  const tenantId = tenantFromQuery(req);
+  if (!tenantId) return res.status(400).json({ error: "tenant_id is required", code: "tenant_required" });
+
+  try {
+    const report = await verifyAuditChain(tenantId);
+    if (!report.valid) {
+      console.warn(`Audit chain for tenant ${tenantId} is broken:`, report.breaks);
+    }
+    res.json(report);
+  } catch (error: any) {
+    sendError(res, error, "Failed to verify audit log");
+  }
+});
@@ -0,0 +1,736 @@
+import express from "express";
+import { supabaseAdmin } from "../lib/supabase";
+import { requireAuth } from "../middleware/auth";
+import type { AuthenticatedRequest } from "../middleware/auth";
+import { denyAccess, requireRole, requireSameTenant, tenantOfRow } from "../middleware/authorize";
+import { writeAuditLog } from "../lib/audit";
+import { logPhiAccess } from "../middleware/phiAccess";
+import {
+  CHART_ACTIONS,
+  CHART_TRANSITIONS,
+  LOCKED_CHART_STATUSES,
+  availableActions,
+  planTransition,
+} from "../lib/chartStateMachine";
+import type { ChartAction, ChartRow } from "../lib/chartStateMachine";
+import { buildReconciliationReport } from "../lib/medicationReconciliation";
+import type { DiscrepancyResolution, ReconcilableMedication } from "../lib/medicationReconciliation";
+import { buildAllergyConflictReport } from "../lib/allergyConflicts";
+import type { AllergyConflictOverride } from "../lib/allergyConflicts";
+import { listAllergies } from "../lib/patientAllergies";
+import { diffChartSnapshots } from "../lib/chartDiff";
+import type { ChartSnapshot } from "../lib/chartDiff";
+import { PhiEncryptionError, openPatient, openScannedImage, sealScannedImage } from "../lib/phiEncryption";
+import { RetentionError, restoreChart } from "../lib/retention";
+
+export const chartsRouter = express.Router();
+
+const sameTenantAsChart = requireSameTenant(tenantOfRow("charts", "chartId"));
+
+async function loadChart(chartId: string) {
+  const { data, error } = await supabaseAdmin
+    .from("charts")
+    .select(`
+      id,
+      tenant_id,
+      patient_id,
+      status,
+      finalized_at,
+      finalized_by,
+      first_delivered_at,
+      deleted_at,
+      patient:patients!charts_patient_id_fkey (
+        assigned_clinician_id
+      )
+    `)
+    .eq("id", chartId)
+    .single();
+
+  if (error) throw error;
+  return data as unknown as ChartRow & {
+    deleted_at: string | null;
+    patient: { assigned_clinician_id: string | null } | null;
+  };
+}
+
+async function countMedications(chartId: string) {
+  const [{ count: total, error: totalError }, { count: unverified, error: unverifiedError }] =
+    await Promise.all([
+      supabaseAdmin
+        .from("medications")
+        .select("id", { count: "exact", head: true })
+        .eq("chart_id", chartId),
+      supabaseAdmin
+        .from("medications")
+        .select("id", { count: "exact", head: true })
+        .eq("chart_id", chartId)
+        .or("verified.eq.false,changed_after_verify.eq.true"),
+    ]);
+
+  if (totalError) throw totalError;
+  if (unverifiedError) throw unverifiedError;
+  return { total: total || 0, unverified: unverified || 0 };
+}
+
+async function loadReconciliation(chartId: string) {
+  const [{ data: medications, error: medsError }, { data: resolutions, error: resolutionsError }] =
+    await Promise.all([
+      supabaseAdmin
+        .from("medications")
+        .select("id, drug_name, strength, route, source")
+        .eq("chart_id", chartId),
+      supabaseAdmin
+        .from("medication_discrepancy_resolutions")
+        .select("discrepancy_key, fingerprint, note, resolved_by, resolved_at")
+        .eq("chart_id", chartId),
+    ]);
+
+  if (medsError) throw medsError;
+  if (resolutionsError) throw resolutionsError;
+  return buildReconciliationReport(
+    (medications || []) as ReconcilableMedication[],
+    (resolutions || []) as DiscrepancyResolution[]
+  );
+}
+
+async function loadAllergyConflicts(chart: { id: string; patient_id: string }) {
+  const [allergies, { data: medications, error: medsError }, { data: overrides, error: overridesError }] =
+    await Promise.all([
+      listAllergies(chart.patient_id),
+      supabaseAdmin.from("medications").select("id, drug_name").eq("chart_id", chart.id),
+      supabaseAdmin
+        .from("allergy_conflict_overrides")
+        .select("conflict_key, fingerprint, note, overridden_by, overridden_at")
+        .eq("chart_id", chart.id),
+    ]);
+
+  if (medsError) throw medsError;
+  if (overridesError) throw overridesError;
+  return buildAllergyConflictReport(
+    allergies,
+    (medications || []) as { id: string; drug_name: string | null }[],
+    (overrides || []) as AllergyConflictOverride[]
+  );
+}
+
+// Clinicians may only act on charts for patients assigned to them
+function isAssignedClinician(req: AuthenticatedRequest, chart: Awaited<ReturnType<typeof loadChart>>) {
+  return req.auth!.role !== "clinician" || chart.patient?.assigned_clinician_id === req.auth!.userId;
+}
+
+// ─── Record reads ────────────────────────────────────────────────
+// Read with the caller's own client so RLS decides what is visible; every
+// successful read is written to the PHI access log.
+
+// Chart with its patient and the users who created and finalized it
+chartsRouter.get(
+  "/:chartId",
+  requireAuth,
+  sameTenantAsChart,
+  logPhiAccess(),
+  async (req: AuthenticatedRequest, res: any) => {
+    const { data: chart, error } = await req.supabase!
+      .from("charts")
+      .select(`
+        *,
+        patient:patients!charts_patient_id_fkey (
+          id, tenant_id, first_name, last_name, date_of_birth, date_of_birth_encrypted, phi_key_version
+        ),
+        created_by_user:users!charts_created_by_fkey ( first_name, last_name ),
+        finalized_by_user:users!charts_finalized_by_fkey ( first_name, last_name )
+      `)
+      .eq("id", req.params.chartId)
+      .maybeSingle();
+
+    if (error) {
+      console.error("Chart lookup error:", error);
+      return res.status(500).json({ error: error.message });
+    }
+    if (!chart) return res.status(404).json({ error: "Chart not found", code: "not_found" });
+
+    try {
+      if (chart.patient) {
+        const { id, first_name, last_name, date_of_birth } = await openPatient(chart.patient as any);
+        chart.patient = { id, first_name, last_name, date_of_birth } as any;
+      }
+    } catch (openError: any) {
+      console.error("Chart patient decrypt error:", openError);
+      return res.status(500).json({ error: "Failed to decrypt patient" });
+    }
+
+    res.locals.phiAccess = [
+      { tenantId: chart.tenant_id, patientId: chart.patient_id, entityType: "chart", entityId: chart.id, chartId: chart.id },
+      { tenantId: chart.tenant_id, patientId: chart.patient_id, entityType: "patient", entityId: chart.patient_id },
+    ];
+    res.json({ chart });
+  }
+);
+
+// Medications on a chart, oldest first (scanned images are left out)
+chartsRouter.get(
+  "/:chartId/medications",
+  requireAuth,
+  sameTenantAsChart,
+  logPhiAccess(),
+  async (req: AuthenticatedRequest, res: any) => {
+    const { data, error } = await req.supabase!
+      .from("medications")
+      .select("*, chart:charts ( patient_id )")
+      .eq("chart_id", req.params.chartId)
+      .order("created_at", { ascending: true });
+
+    if (error) {
+      console.error("Medications lookup error:", error);
+      return res.status(500).json({ error: error.message });
+    }
+
+    const medications = (data || []).map(
+      ({ scanned_image, scanned_image_encrypted, phi_key_version, chart, ...medication }: any) => medication
+    );
+    res.locals.phiAccess = (data || []).map((medication: any) => ({
+      tenantId: medication.tenant_id,
+      patientId: medication.chart?.patient_id ?? null,
+      entityType: "medication",
+      entityId: medication.id,
+      chartId: medication.chart_id,
+    }));
+    res.json({ medications });
+  }
+);
+
+// A medication's scanned label image ({ image }: a data URL, or null)
+chartsRouter.get(
+  "/:chartId/medications/:medicationId/image",
+  requireAuth,
+  sameTenantAsChart,
+  logPhiAccess("medication", "medicationId"),
+  async (req: AuthenticatedRequest, res: any) => {
+    const { data, error } = await req.supabase!
+      .from("medications")
+      .select("tenant_id, scanned_image, scanned_image_encrypted, phi_key_version")
+      .eq("id", req.params.medicationId)
+      .eq("chart_id", req.params.chartId)
+      .maybeSingle();
+
+    if (error) {
+      console.error("Medication image lookup error:", error);
+      return res.status(500).json({ error: error.message });
+    }
+    if (!data) return res.status(404).json({ error: "Medication not found", code: "not_found" });
+
+    try {
+      res.json({ image: await openScannedImage(data) });
+    } catch (openError: any) {
+      console.error("Medication image decrypt error:", openError);
+      res.status(500).json({ error: "Failed to decrypt image" });
+    }
+  }
+);
+
+// Store (encrypted) or clear a medication's scanned label image: { image }.
+// Written with the caller's client, so RLS and the locked-chart guard apply.
+chartsRouter.put(
+  "/:chartId/medications/:medicationId/image",
+  requireAuth,
+  requireRole("clinician", "scheduler", "agency_admin", "super_admin"),
+  sameTenantAsChart,
+  async (req: AuthenticatedRequest, res: any) => {
+    const image = req.body?.image ?? null;
+    if (image !== null && (typeof image !== "string" || !image.startsWith("data:image/"))) {
+      return res.status(400).json({ error: "image must be an image data URL or null", code: "invalid_image" });
+    }
+
+    try {
+      const tenantId = await tenantOfRow("charts", "chartId")(req);
+      if (!tenantId) return res.status(404).json({ error: "Chart not found", code: "not_found" });
+
+      const { data, error } = await req.supabase!
+        .from("medications")
+        .update(await sealScannedImage(tenantId, image))
+        .eq("id", req.params.medicationId)
+        .eq("chart_id", req.params.chartId)
+        .select("id")
+        .maybeSingle();
+      if (error) throw error;
+      if (!data) return res.status(404).json({ error: "Medication not found", code: "not_found" });
+
+      res.json({ ok: true });
+    } catch (error: any) {
+      if (error instanceof PhiEncryptionError) {
+        return res.status(error.status).json({ error: error.message, code: error.code });
+      }
+      console.error("Medication image update error:", error);
+      res.status(500).json({ error: error.message || "Failed to save image" });
+    }
+  }
+);
+
+// Documents attached to a chart, newest first (metadata only; see
+// GET /api/documents/:documentId/url for the file)
+chartsRouter.get(
+  "/:chartId/documents",
+  requireAuth,
+  sameTenantAsChart,
+  logPhiAccess("chart", "chartId"),
+  async (req: AuthenticatedRequest, res: any) => {
+    const { data, error } = await req.supabase!
+      .from("documents")
+      .select("*")
+      .eq("chart_id", req.params.chartId)
+      .order("created_at", { ascending: false });
+
+    if (error) {
+      console.error("Documents lookup error:", error);
+      return res.status(500).json({ error: error.message });
+    }
+    res.json({ documents: data || [] });
+  }
+);
+
+// Current status and the actions the caller may take from it
+chartsRouter.get(
+  "/:chartId/transitions",
+  requireAuth,
+  sameTenantAsChart,
+  async (req: AuthenticatedRequest, res: any) => {
+    try {
+      const chart = await loadChart(req.params.chartId);
+      const actions = isAssignedClinician(req, chart)
+        ? availableActions(chart.status, req.auth!.role)
+        : [];
+      res.json({ status: chart.status, actions });
+    } catch (error: any) {
+      console.error("Chart transitions lookup error:", error);
+      res.status(500).json({ error: error.message || "Failed to load chart" });
+    }
+  }
+);
+
+async function handleTransition(action: ChartAction, req: AuthenticatedRequest, res: any) {
+  const { chartId } = req.params;
+  const auth = req.auth!;
+
+  try {
+    const chart = await loadChart(chartId);
+    // Soft-deleted charts must be restored before anything else happens to them
+    if (chart.deleted_at) return res.status(404).json({ error: "Chart not found", code: "not_found" });
+
+    if (!isAssignedClinician(req, chart)) {
+      return denyAccess(req, res, "role_not_allowed", "This chart is not assigned to you", {
+        chart_id: chartId,
+        action,
+      });
+    }
+
+    const medications = await countMedications(chartId);
+    const reconciliation = CHART_TRANSITIONS[action].requiresReconciliation
+      ? await loadReconciliation(chartId)
+      : null;
+    const allergyConflicts = CHART_TRANSITIONS[action].requiresAllergyReview
+      ? await loadAllergyConflicts(chart)
+      : null;
+    const plan = planTransition(chart, action, {
+      actorId: auth.userId,
+      actorRole: auth.role,
+      notes: req.body?.notes,
+      medications,
+      unresolvedDiscrepancies: reconciliation?.unresolved,
+      blockingAllergyConflicts: allergyConflicts?.blocking,
+    });
+
+    if (!plan.ok) {
+      if (plan.code === "role_not_allowed") {
+        return denyAccess(req, res, "role_not_allowed", plan.error, { chart_id: chartId, action });
+      }
+      return res.status(plan.status).json({ error: plan.error, code: plan.code });
+    }
+
+    const userAgent = req.headers["user-agent"];
+    const { data, error } = await supabaseAdmin.rpc("apply_chart_transition", {
+      p_chart_id: chartId,
+      p_expected_status: plan.from,
+      p_new_status: plan.to,
+      p_patch: plan.patch,
+      p_note: plan.note,
+      p_actor_id: auth.userId,
+      p_clear_patient_assignment: plan.clearPatientAssignment,
+      p_audit: {
+        action: plan.auditAction,
+        metadata: { transition: action },
+        ip_address: req.ip || null,
+        user_agent: Array.isArray(userAgent) ? userAgent[0] : userAgent || null,
+      },
+    });
+
+    if (error) {
+      if (error.code === "LR409") {
+        return res.status(409).json({
+          error: "Chart was changed by someone else. Reload and try again.",
+          code: "concurrent_transition",
+        });
+      }
+      throw error;
+    }
+
+    res.json({
+      chart: data,
+      actions: availableActions(data.status, auth.role),
+    });
+  } catch (error: any) {
+    console.error(`Chart ${action} error:`, error);
+    res.status(500).json({ error: error.message || `Failed to ${action.replace("_", " ")} chart` });
+  }
+}
+
+// POST /api/charts/:chartId/finalize, /approve, /request-changes, ...
+for (const action of CHART_ACTIONS) {
+  chartsRouter.post(
+    `/:chartId/${action.replace("_", "-")}`,
+    requireAuth,
+    sameTenantAsChart,
+    (req: AuthenticatedRequest, res: any) => handleTransition(action, req, res)
+  );
+}
+
+// Bring back a soft-deleted chart (with its documents and medications) that
+// has not been purged yet. An archived chart's retention period starts over.
+chartsRouter.post(
+  "/:chartId/restore",
+  requireAuth,
+  requireRole("agency_admin", "super_admin"),
+  sameTenantAsChart,
+  async (req: AuthenticatedRequest, res: any) => {
+    try {
+      const chart = await restoreChart(req.params.chartId);
+      void writeAuditLog(
+        {
+          tenantId: chart.tenant_id,
+          userId: req.auth!.userId,
+          entityType: "chart",
+          entityId: chart.id,
+          action: "updated",
+          changes: { deleted_at: { from: "deleted", to: null } },
+          metadata: { patient_id: chart.patient_id, restored: true },
+        },
+        req
+      );
+      res.json({ id: chart.id, restored: true });
+    } catch (error: any) {
+      if (error instanceof RetentionError) {
+        return res.status(error.status).json({ error: error.message, code: error.code });
+      }
+      console.error("Chart restore error:", error);
+      res.status(500).json({ error: error.message || "Failed to restore chart" });
+    }
+  }
+);
+
+// ─── Medication reconciliation ───────────────────────────────────
+
+// Discrepancies between the bottle-scan, PDF-import and manual medication lists
+chartsRouter.get(
+  "/:chartId/reconciliation",
+  requireAuth,
+  sameTenantAsChart,
+  logPhiAccess("chart", "chartId"),
+  async (req: AuthenticatedRequest, res: any) => {
+    try {
+      res.json({ report: await loadReconciliation(req.params.chartId) });
+    } catch (error: any) {
+      console.error("Medication reconciliation error:", error);
+      res.status(500).json({ error: error.message || "Failed to reconcile medications" });
+    }
+  }
+);
+
+// Sign off one discrepancy: { key, fingerprint, note }. The fingerprint must
+// match the current report so a resolution never covers changes made after it.
+chartsRouter.post(
+  "/:chartId/reconciliation/resolve",
+  requireAuth,
+  requireRole("clinician", "agency_admin", "super_admin"),
+  sameTenantAsChart,
+  async (req: AuthenticatedRequest, res: any) => {
+    const { chartId } = req.params;
+    const { key, fingerprint } = req.body || {};
+    const note = typeof req.body?.note === "string" ? req.body.note.trim() : "";
+
+    if (typeof key !== "string" || typeof fingerprint !== "string") {
+      return res.status(400).json({ error: "key and fingerprint are required" });
+    }
+    if (!note) {
+      return res.status(422).json({ error: "A note explaining the resolution is required", code: "notes_required" });
+    }
+
+    try {
+      const chart = await loadChart(chartId);
+      if (chart.deleted_at) return res.status(404).json({ error: "Chart not found", code: "not_found" });
+      if (!isAssignedClinician(req, chart)) {
+        return denyAccess(req, res, "role_not_allowed", "This chart is not assigned to you", {
+          chart_id: chartId,
+          action: "resolve_discrepancy",
+        });
+      }
+      if (LOCKED_CHART_STATUSES.includes(chart.status)) {
+        return res.status(409).json({ error: `Chart is ${chart.status} and cannot be edited`, code: "chart_locked" });
+      }
+
+      const current = (await loadReconciliation(chartId)).discrepancies.find((d) => d.key === key);
+      if (!current) {
+        return res.status(404).json({ error: "Discrepancy not found" });
+      }
+      if (current.fingerprint !== fingerprint) {
+        return res.status(409).json({
+          error: "Medications changed since this report was loaded. Reload and try again.",
+          code: "stale_discrepancy",
+        });
+      }
+
+      const { error } = await supabaseAdmin.from("medication_discrepancy_resolutions").upsert(
+        {
+          chart_id: chartId,
+          tenant_id: chart.tenant_id,
+          discrepancy_key: key,
+          fingerprint,
+          note,
+          resolved_by: req.auth!.userId,
+          resolved_at: new Date().toISOString(),
+        },
+        { onConflict: "chart_id,discrepancy_key" }
+      );
+      if (error) throw error;
+
+      void writeAuditLog(
+        {
+          tenantId: chart.tenant_id,
+          userId: req.auth!.userId,
+          entityType: "chart",
+          entityId: chartId,
+          action: "updated",
+          changes: { discrepancy_key: key, type: current.type, note },
+          metadata: { reconciliation: "resolved", medication_ids: current.medication_ids },
+        },
+        req
+      );
+
+      res.json({ report: await loadReconciliation(chartId) });
+    } catch (error: any) {
+      console.error("Resolve discrepancy error:", error);
+      res.status(500).json({ error: error.message || "Failed to resolve discrepancy" });
+    }
+  }
+);
+
+// ─── Drug-allergy conflicts ──────────────────────────────────────
+
+// The chart's medications checked against the patient's allergies
+chartsRouter.get(
+  "/:chartId/allergy-conflicts",
+  requireAuth,
+  sameTenantAsChart,
+  logPhiAccess("chart", "chartId"),
+  async (req: AuthenticatedRequest, res: any) => {
+    try {
+      const chart = await loadChart(req.params.chartId);
+      res.json({ report: await loadAllergyConflicts(chart) });
+    } catch (error: any) {
+      console.error("Allergy conflict check error:", error);
+      res.status(500).json({ error: error.message || "Failed to check allergy conflicts" });
+    }
+  }
+);
+
+// Override one blocking conflict: { key, fingerprint, note }. As with
+// reconciliation, the fingerprint must match the current report so an
+// override never covers a changed allergy or medication.
+chartsRouter.post(
+  "/:chartId/allergy-conflicts/override",
+  requireAuth,
+  requireRole("clinician", "agency_admin", "super_admin"),
+  sameTenantAsChart,
+  async (req: AuthenticatedRequest, res: any) => {
+    const { chartId } = req.params;
+    const { key, fingerprint } = req.body || {};
+    const note = typeof req.body?.note === "string" ? req.body.note.trim() : "";
+
+    if (typeof key !== "string" || typeof fingerprint !== "string") {
+      return res.status(400).json({ error: "key and fingerprint are required" });
+    }
+    if (!note) {
+      return res.status(422).json({ error: "A note explaining the override is required", code: "notes_required" });
+    }
+
+    try {
+      const chart = await loadChart(chartId);
+      if (chart.deleted_at) return res.status(404).json({ error: "Chart not found", code: "not_found" });
+      if (!isAssignedClinician(req, chart)) {
+        return denyAccess(req, res, "role_not_allowed", "This chart is not assigned to you", {
+          chart_id: chartId,
+          action: "override_allergy_conflict",
+        });
+      }
+      if (LOCKED_CHART_STATUSES.includes(chart.status)) {
+        return res.status(409).json({ error: `Chart is ${chart.status} and cannot be edited`, code: "chart_locked" });
+      }
+
+      const current = (await loadAllergyConflicts(chart)).conflicts.find((c) => c.key === key);
+      if (!current) {
+        return res.status(404).json({ error: "Conflict not found" });
+      }
+      if (current.level !== "blocking") {
+        return res.status(409).json({ error: "Only blocking conflicts need an override", code: "not_blocking" });
+      }
+      if (current.fingerprint !== fingerprint) {
+        return res.status(409).json({
+          error: "Allergies or medications changed since this report was loaded. Reload and try again.",
+          code: "stale_conflict",
+        });
+      }
+
+      const { error } = await supabaseAdmin.from("allergy_conflict_overrides").upsert(
+        {
+          chart_id: chartId,
+          tenant_id: chart.tenant_id,
+          conflict_key: key,
+          fingerprint,
+          note,
+          overridden_by: req.auth!.userId,
+          overridden_at: new Date().toISOString(),
+        },
+        { onConflict: "chart_id,conflict_key" }
+      );
+      if (error) throw error;
+
+      void writeAuditLog(
+        {
+          tenantId: chart.tenant_id,
+          userId: req.auth!.userId,
+          entityType: "chart",
+          entityId: chartId,
+          action: "updated",
+          changes: { conflict_key: key, reason: current.reason, note },
+          metadata: {
+            allergy_conflict: "overridden",
+            allergy_id: current.allergy_id,
+            medication_ids: current.medication_ids,
+          },
+        },
+        req
+      );
+
+      res.json({ report: await loadAllergyConflicts(chart) });
+    } catch (error: any) {
+      console.error("Override allergy conflict error:", error);
+      res.status(500).json({ error: error.message || "Failed to override allergy conflict" });
+    }
+  }
+);
+
+// ─── Version history ─────────────────────────────────────────────
+
+const canReadVersions = requireRole("agency_admin", "super_admin");
+
+const VERSION_SUMMARY_COLUMNS = `
+  id,
+  chart_id,
+  version_number,
+  reason,
+  chart_status,
+  created_at,
+  created_by,
+  created_by_user:users!chart_versions_created_by_fkey (
+    first_name,
+    last_name
+  )
+`;
+
+async function loadVersion(chartId: string, versionId: string) {
+  const { data, error } = await supabaseAdmin
+    .from("chart_versions")
+    .select(`${VERSION_SUMMARY_COLUMNS}, snapshot`)
+    .eq("chart_id", chartId)
+    .eq("id", versionId)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (data?.snapshot?.patient) data.snapshot.patient = await openPatient(data.snapshot.patient);
+  return data as (Record<string, any> & { snapshot: ChartSnapshot }) | null;
+}
+
+// List versions, newest first
+chartsRouter.get(
+  "/:chartId/versions",
+  requireAuth,
+  canReadVersions,
+  sameTenantAsChart,
+  async (req: AuthenticatedRequest, res: any) => {
+    const { data, error } = await supabaseAdmin
+      .from("chart_versions")
+      .select(VERSION_SUMMARY_COLUMNS)
+      .eq("chart_id", req.params.chartId)
+      .order("version_number", { ascending: false });
+
+    if (error) {
+      console.error("Chart versions lookup error:", error);
+      return res.status(500).json({ error: error.message });
+    }
+    res.json({ versions: data || [] });
+  }
+);
+
+// Diff two versions: ?from=<versionId>&to=<versionId>
+chartsRouter.get(
+  "/:chartId/versions/diff",
+  requireAuth,
+  canReadVersions,
+  sameTenantAsChart,
+  logPhiAccess("chart", "chartId"),
+  async (req: AuthenticatedRequest, res: any) => {
+    const { from, to } = req.query || {};
+    if (typeof from !== "string" || typeof to !== "string") {
+      return res.status(400).json({ error: "Query parameters 'from' and 'to' are required" });
+    }
+
+    try {
+      const [fromVersion, toVersion] = await Promise.all([
+        loadVersion(req.params.chartId, from),
+        loadVersion(req.params.chartId, to),
+      ]);
+
+      if (!fromVersion || !toVersion) {
+        return res.status(404).json({ error: "Version not found" });
+      }
+
+      const { snapshot: _fromSnapshot, ...fromSummary } = fromVersion;
+      const { snapshot: _toSnapshot, ...toSummary } = toVersion;
+
+      res.json({
+        from: fromSummary,
+        to: toSummary,
+        diff: diffChartSnapshots(fromVersion.snapshot, toVersion.snapshot),
+      });
+    } catch (error: any) {
+      console.error("Chart version diff error:", error);
+      res.status(500).json({ error: error.message || "Failed to diff versions" });
+    }
+  }
+);
+
+// Full snapshot of one version
+chartsRouter.get(
+  "/:chartId/versions/:versionId",
+  requireAuth,
+  canReadVersions,
+  sameTenantAsChart,
+  logPhiAccess("chart", "chartId"),
+  async (req: AuthenticatedRequest, res: any) => {
+    try {
+      const version = await loadVersion(req.params.chartId, req.params.versionId);
+      if (!version) return res.status(404).json({ error: "Version not found" });
+      res.json({ version });
+    } catch (error: any) {
+      console.error("Chart version lookup error:", error);
+      res.status(500).json({ error: error.message || "Failed to load version" });
+    }
+  }
+);
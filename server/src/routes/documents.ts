@@ -0,0 +1,174 @@
+import express from "express";
+import { supabaseAdmin } from "../lib/supabase";
+import { requireAuth } from "../middleware/auth";
+import type { AuthenticatedRequest } from "../middleware/auth";
+import { requireRole, requireSameTenant, tenantOfRow } from "../middleware/authorize";
+import { logPhiAccess } from "../middleware/phiAccess";
+import { writeAuditLog } from "../lib/audit";
+import { RetentionError, restoreDocument, softDeleteDocument } from "../lib/retention";
+import {
+  OcrEnqueueError,
+  STORAGE_BUCKET,
+  enqueueDocumentOcr,
+  latestJobForDocument,
+  storagePathFromUrl,
+} from "../lib/ocrWorker";
+
+export const documentsRouter = express.Router();
+
+const sameTenantAsDocument = requireSameTenant(tenantOfRow("documents", "documentId"));
+
+const SIGNED_URL_TTL_SECONDS = 60 * 60;
+
+function sendError(res: any, error: any, fallback: string) {
+  if (error instanceof RetentionError) {
+    return res.status(error.status).json({ error: error.message, code: error.code });
+  }
+  console.error(`${fallback}:`, error);
+  res.status(500).json({ error: error.message || fallback });
+}
+
+// Short-lived URL for opening the file. The caller must be able to read the
+// document row (RLS) before one is issued; each one is a logged PHI read.
+documentsRouter.get(
+  "/:documentId/url",
+  requireAuth,
+  sameTenantAsDocument,
+  logPhiAccess("document", "documentId"),
+  async (req: AuthenticatedRequest, res: any) => {
+    try {
+      const { data: document, error } = await req.supabase!
+        .from("documents")
+        .select("id, file_url")
+        .eq("id", req.params.documentId)
+        .maybeSingle();
+      if (error) throw error;
+      if (!document) return res.status(404).json({ error: "Document not found", code: "not_found" });
+
+      const path = storagePathFromUrl(document.file_url || "");
+      if (!path) {
+        return res.status(422).json({ error: "Document is not stored in the documents bucket", code: "not_stored" });
+      }
+
+      const { data, error: signError } = await supabaseAdmin.storage
+        .from(STORAGE_BUCKET)
+        .createSignedUrl(path, SIGNED_URL_TTL_SECONDS);
+      if (signError) throw signError;
+
+      res.json({ url: data.signedUrl, expires_in: SIGNED_URL_TTL_SECONDS });
+    } catch (error: any) {
+      console.error("Signed document URL error:", error);
+      res.status(500).json({ error: error.message || "Failed to open document" });
+    }
+  }
+);
+
+// Queue server-side OCR for an uploaded document (also used to retry a failed one)
+documentsRouter.post(
+  "/:documentId/ocr",
+  requireAuth,
+  sameTenantAsDocument,
+  async (req: AuthenticatedRequest, res: any) => {
+    try {
+      const job = await enqueueDocumentOcr(req.params.documentId, req.auth!.userId);
+      res.status(202).json({ job });
+    } catch (error: any) {
+      if (error instanceof OcrEnqueueError) {
+        return res.status(error.status).json({ error: error.message, code: error.code });
+      }
+      console.error("OCR enqueue error:", error);
+      res.status(500).json({ error: error.message || "Failed to queue OCR" });
+    }
+  }
+);
+
+// OCR status and output for a document
+documentsRouter.get(
+  "/:documentId/ocr",
+  requireAuth,
+  sameTenantAsDocument,
+  logPhiAccess("document", "documentId"),
+  async (req: AuthenticatedRequest, res: any) => {
+    const { documentId } = req.params;
+    try {
+      const { data: document, error } = await supabaseAdmin
+        .from("documents")
+        .select("ocr_status, ocr_text, ocr_words, ocr_confidence, ocr_page_count, ocr_error, ocr_completed_at")
+        .eq("id", documentId)
+        .single();
+      if (error) throw error;
+
+      res.json({ ...document, job: await latestJobForDocument(documentId) });
+    } catch (error: any) {
+      console.error("OCR status error:", error);
+      res.status(500).json({ error: error.message || "Failed to load OCR status" });
+    }
+  }
+);
+
+// Soft-delete a document. It disappears for every client straight away; an
+// agency admin can restore it until the tenant's grace period has passed and
+// the retention job purges the row and its file.
+documentsRouter.delete(
+  "/:documentId",
+  requireAuth,
+  sameTenantAsDocument,
+  async (req: AuthenticatedRequest, res: any) => {
+    const { documentId } = req.params;
+
+    try {
+      // Only documents the caller can read (RLS) can be deleted
+      const { data: visible, error } = await req.supabase!
+        .from("documents")
+        .select("id")
+        .eq("id", documentId)
+        .maybeSingle();
+      if (error) throw error;
+      if (!visible) return res.status(404).json({ error: "Document not found", code: "not_found" });
+
+      const document = await softDeleteDocument(documentId, req.auth!.userId);
+      void writeAuditLog(
+        {
+          tenantId: document.tenant_id,
+          userId: req.auth!.userId,
+          entityType: "document",
+          entityId: document.id,
+          action: "deleted",
+          metadata: { chart_id: document.chart_id, file_name: document.file_name, soft_delete: true },
+        },
+        req
+      );
+      res.status(204).end();
+    } catch (error: any) {
+      sendError(res, error, "Failed to delete document");
+    }
+  }
+);
+
+// Bring back a soft-deleted document that has not been purged yet
+documentsRouter.post(
+  "/:documentId/restore",
+  requireAuth,
+  requireRole("agency_admin", "super_admin"),
+  sameTenantAsDocument,
+  async (req: AuthenticatedRequest, res: any) => {
+    try {
+      const document = await restoreDocument(req.params.documentId);
+      void writeAuditLog(
+        {
+          tenantId: document.tenant_id,
+          userId: req.auth!.userId,
+          entityType: "document",
+          entityId: document.id,
+          action: "updated",
+          changes: { deleted_at: { from: "deleted", to: null } },
+          metadata: { chart_id: document.chart_id, file_name: document.file_name, restored: true },
+        },
+        req
+      );
+      res.json({ id: document.id, restored: true });
+    } catch (error: any) {
+      sendError(res, error, "Failed to restore document");
+    }
+  }
+);
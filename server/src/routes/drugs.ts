@@ -0,0 +1,44 @@
+import express from "express";
+import { supabaseAdmin } from "../lib/supabase";
+import { requireAuth } from "../middleware/auth";
+import type { AuthenticatedRequest } from "../middleware/auth";
+import { resolveBarcode } from "../lib/drugReference";
+import { ndc11Candidates, ndc9Candidates } from "../lib/ndc";
+
+export const drugsRouter = express.Router();
+
+// Resolve a scanned barcode (UPC-A, EAN-13, GS1 DataMatrix) or typed NDC
+drugsRouter.get("/barcode/:code", requireAuth, async (req: AuthenticatedRequest, res: any) => {
+  const code = String(req.params.code || "");
+
+  if (ndc11Candidates(code).length === 0 && ndc9Candidates(code).length === 0) {
+    return res.status(400).json({ error: "Not a recognizable NDC barcode", code: "invalid_barcode" });
+  }
+
+  try {
+    const match = await resolveBarcode(code);
+    if (!match) {
+      return res.status(404).json({ error: "No product found for this barcode", code: "not_found" });
+    }
+    res.json(match);
+  } catch (error: any) {
+    console.error("Barcode lookup error:", error);
+    res.status(500).json({ error: error.message || "Failed to look up barcode" });
+  }
+});
+
+// Version of the loaded NDC directory
+drugsRouter.get("/dataset", requireAuth, async (_req: AuthenticatedRequest, res: any) => {
+  const { data, error } = await supabaseAdmin
+    .from("ndc_dataset_imports")
+    .select("dataset_version, source, product_count, package_count, removed_count, imported_at")
+    .order("imported_at", { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) {
+    console.error("NDC dataset lookup error:", error);
+    return res.status(500).json({ error: error.message });
+  }
+  res.json({ dataset: data });
+});
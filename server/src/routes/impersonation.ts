@@ -0,0 +1,123 @@
+import express from "express";
+import { requireAuth } from "../middleware/auth";
+import type { AuthenticatedRequest } from "../middleware/auth";
+import { requireRole } from "../middleware/authorize";
+import { writeAuditLog } from "../lib/audit";
+import {
+  ImpersonationError,
+  endImpersonation,
+  isSessionLive,
+  listImpersonationSessions,
+  loadImpersonationSession,
+  startImpersonation,
+} from "../lib/impersonation";
+import type { ImpersonationSession } from "../lib/impersonation";
+
+export const impersonationRouter = express.Router();
+
+// Impersonation tokens carry role agency_admin, so they can never start or manage sessions
+const superAdminOnly = [requireAuth, requireRole("super_admin")];
+
+const withStatus = (session: ImpersonationSession) => ({
+  ...session,
+  status: session.ended_at ? session.ended_reason || "ended" : isSessionLive(session) ? "active" : "expired",
+});
+
+function sendError(res: any, error: any, fallback: string) {
+  if (error instanceof ImpersonationError) {
+    return res.status(error.status).json({ error: error.message, code: error.code });
+  }
+  console.error(`${fallback}:`, error);
+  res.status(500).json({ error: error.message || fallback });
+}
+
+// Start a session: { tenant_id, reason, mode?: "read_only" | "read_write", minutes? }
+impersonationRouter.post("/", ...superAdminOnly, async (req: AuthenticatedRequest, res: any) => {
+  const { tenant_id, reason, mode, minutes } = req.body || {};
+  if (!tenant_id) return res.status(400).json({ error: "tenant_id is required", code: "tenant_required" });
+
+  try {
+    const userAgent = req.headers["user-agent"];
+    const { session, tenant, token } = await startImpersonation({
+      actor: { userId: req.auth!.userId, email: req.auth!.email, sessionId: req.auth!.sessionId },
+      tenantId: String(tenant_id),
+      reason: String(reason || ""),
+      mode,
+      minutes: Number(minutes) || undefined,
+      client: {
+        ip_address: req.ip || null,
+        user_agent: (Array.isArray(userAgent) ? userAgent[0] : userAgent) || null,
+      },
+    });
+
+    void writeAuditLog(
+      {
+        tenantId: tenant.id,
+        userId: req.auth!.userId,
+        entityType: "tenant",
+        entityId: tenant.id,
+        action: "impersonation_started",
+        metadata: {
+          impersonation: { session_id: session.id, mode: session.mode, actor_user_id: req.auth!.userId },
+          reason: session.reason,
+          expires_at: session.expires_at,
+        },
+      },
+      req
+    );
+
+    res.status(201).json({ session: withStatus(session), tenant, token });
+  } catch (error: any) {
+    sendError(res, error, "Failed to start impersonation");
+  }
+});
+
+// Recent sessions, optionally for one tenant (?tenant_id=)
+impersonationRouter.get("/", ...superAdminOnly, async (req: AuthenticatedRequest, res: any) => {
+  try {
+    const sessions = await listImpersonationSessions({
+      tenantId: typeof req.query.tenant_id === "string" ? req.query.tenant_id : undefined,
+      limit: Number(req.query.limit) || undefined,
+    });
+    res.json({ sessions: sessions.map(withStatus) });
+  } catch (error: any) {
+    sendError(res, error, "Failed to load impersonation sessions");
+  }
+});
+
+impersonationRouter.get("/:sessionId", ...superAdminOnly, async (req: AuthenticatedRequest, res: any) => {
+  try {
+    const session = await loadImpersonationSession(req.params.sessionId);
+    if (!session) return res.status(404).json({ error: "Impersonation session not found", code: "not_found" });
+    res.json({ session: withStatus(session) });
+  } catch (error: any) {
+    sendError(res, error, "Failed to load impersonation session");
+  }
+});
+
+// End a session now (or record that it expired)
+impersonationRouter.post("/:sessionId/end", ...superAdminOnly, async (req: AuthenticatedRequest, res: any) => {
+  try {
+    const ended = await endImpersonation(req.params.sessionId, "ended");
+    if (ended) {
+      void writeAuditLog(
+        {
+          tenantId: ended.tenant_id,
+          userId: req.auth!.userId,
+          entityType: "tenant",
+          entityId: ended.tenant_id,
+          action: "impersonation_ended",
+          metadata: {
+            impersonation: { session_id: ended.id, mode: ended.mode, actor_user_id: ended.actor_user_id },
+            ended_reason: ended.ended_reason,
+          },
+        },
+        req
+      );
+    }
+    const session = ended || (await loadImpersonationSession(req.params.sessionId));
+    res.json({ session: session && withStatus(session) });
+  } catch (error: any) {
+    sendError(res, error, "Failed to end impersonation");
+  }
+});
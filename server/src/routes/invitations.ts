@@ -0,0 +1,136 @@
+import express from "express";
+import { requireAuth } from "../middleware/auth";
+import type { AuthenticatedRequest } from "../middleware/auth";
+import { requireRole, requireSameTenant, tenantOfRow } from "../middleware/authorize";
+import { writeAuditLog } from "../lib/audit";
+import { ActivationError } from "../lib/activationCodes";
+import {
+  InvitationError,
+  inviteUser,
+  listInvitations,
+  loadInvitation,
+  resendInvitation,
+  revokeInvitation,
+} from "../lib/invitations";
+import type { InvitationStatus } from "../lib/invitations";
+
+export const invitationsRouter = express.Router();
+
+const INVITABLE_ROLES = ["clinician", "scheduler"];
+const STATUSES: InvitationStatus[] = ["pending", "activated", "expired", "revoked"];
+
+const tenantAdmin = [requireAuth, requireRole("agency_admin", "super_admin")];
+const adminOfInvitation = [...tenantAdmin, requireSameTenant(tenantOfRow("user_invitations", "invitationId"))];
+
+function sendError(res: any, error: any, fallback: string) {
+  if (error instanceof InvitationError) {
+    return res.status(error.status).json({ error: error.message, code: error.code, ...error.details });
+  }
+  if (error instanceof ActivationError) {
+    return res.status(error.status).json({ error: error.message, code: error.code });
+  }
+  console.error(`${fallback}:`, error);
+  res.status(500).json({ error: error.message || fallback });
+}
+
+function auditInvitation(req: AuthenticatedRequest, invitation: any, action: string, event: string) {
+  void writeAuditLog(
+    {
+      tenantId: invitation.tenant_id,
+      userId: req.auth!.userId,
+      entityType: "user",
+      entityId: invitation.id,
+      action,
+      metadata: { invitation: event, email: invitation.email, role: invitation.role },
+    },
+    req
+  );
+}
+
+// Invitations for a tenant (?tenant_id= for super admins, ?status= to filter)
+invitationsRouter.get(
+  "/",
+  ...tenantAdmin,
+  requireSameTenant((req) => (req.query.tenant_id as string) || req.auth?.tenantId),
+  async (req: AuthenticatedRequest, res: any) => {
+    const status = req.query.status as InvitationStatus | undefined;
+    if (status && !STATUSES.includes(status)) {
+      return res.status(400).json({ error: `status must be one of ${STATUSES.join(", ")}`, code: "invalid_status" });
+    }
+
+    try {
+      const tenantId = (req.query.tenant_id as string) || req.auth!.tenantId;
+      res.json({ invitations: await listInvitations(tenantId, status) });
+    } catch (error: any) {
+      sendError(res, error, "Failed to load invitations");
+    }
+  }
+);
+
+invitationsRouter.get("/:invitationId", ...adminOfInvitation, async (req: AuthenticatedRequest, res: any) => {
+  try {
+    const invitation = await loadInvitation(req.params.invitationId);
+    if (!invitation) return res.status(404).json({ error: "Invitation not found", code: "not_found" });
+    res.json({ invitation });
+  } catch (error: any) {
+    sendError(res, error, "Failed to load invitation");
+  }
+});
+
+// Invite a clinician or scheduler and email them the activation link:
+// { email, first_name, last_name, role, tenant_id?, phone_number?, occupation? }
+// The code is only ever in this response and the email; the database keeps its hash.
+invitationsRouter.post(
+  "/",
+  ...tenantAdmin,
+  requireSameTenant((req) => req.body?.tenant_id || req.auth?.tenantId),
+  async (req: AuthenticatedRequest, res: any) => {
+    const { email, first_name, last_name, role, tenant_id, phone_number, occupation } = req.body || {};
+
+    if (!email || !first_name || !last_name) {
+      return res.status(400).json({ error: "email, first_name and last_name are required", code: "missing_fields" });
+    }
+    if (!INVITABLE_ROLES.includes(role)) {
+      return res.status(400).json({ error: "role must be clinician or scheduler", code: "invalid_role" });
+    }
+
+    try {
+      const { invitation, activationCode, delivery } = await inviteUser({
+        tenantId: tenant_id || req.auth!.tenantId,
+        createdBy: req.auth!.userId,
+        email: String(email),
+        firstName: first_name,
+        lastName: last_name,
+        role,
+        phoneNumber: phone_number,
+        occupation,
+      });
+
+      auditInvitation(req, invitation, "created", "created");
+      res.status(201).json({ invitation, activation_code: activationCode, email: delivery });
+    } catch (error: any) {
+      sendError(res, error, "Failed to create invitation");
+    }
+  }
+);
+
+// Issue a fresh code with a new 7-day window and email it again
+invitationsRouter.post("/:invitationId/resend", ...adminOfInvitation, async (req: AuthenticatedRequest, res: any) => {
+  try {
+    const { invitation, activationCode, delivery } = await resendInvitation(req.params.invitationId);
+    auditInvitation(req, invitation, "updated", "resent");
+    res.json({ invitation, activation_code: activationCode, email: delivery });
+  } catch (error: any) {
+    sendError(res, error, "Failed to resend invitation");
+  }
+});
+
+invitationsRouter.post("/:invitationId/revoke", ...adminOfInvitation, async (req: AuthenticatedRequest, res: any) => {
+  try {
+    const invitation = await revokeInvitation(req.params.invitationId, req.auth!.userId);
+    auditInvitation(req, invitation, "updated", "revoked");
+    res.json({ invitation });
+  } catch (error: any) {
+    sendError(res, error, "Failed to revoke invitation");
+  }
+});
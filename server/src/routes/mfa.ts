@@ -0,0 +1,143 @@
+import express from "express";
+import { requirePasswordAuth, requireAuth } from "../middleware/auth";
+import type { AuthenticatedRequest } from "../middleware/auth";
+import { requireRole, requireSameTenant } from "../middleware/authorize";
+import { writeAuditLog } from "../lib/audit";
+import {
+  MfaError,
+  confirmEnrollment,
+  disableMfa,
+  getMfaStatus,
+  regenerateRecoveryCodes,
+  setTenantMfaPolicy,
+  startEnrollment,
+  verifySession,
+} from "../lib/mfa";
+
+export const mfaRouter = express.Router();
+
+const currentUser = (req: AuthenticatedRequest) => ({ id: req.auth!.userId, tenant_id: req.auth!.tenantId });
+
+function auditMfa(req: AuthenticatedRequest, action: string, metadata: Record<string, any>) {
+  void writeAuditLog(
+    {
+      tenantId: req.auth!.tenantId,
+      userId: req.auth!.userId,
+      entityType: "user",
+      entityId: req.auth!.userId,
+      action,
+      metadata,
+    },
+    req
+  );
+}
+
+function sendError(req: AuthenticatedRequest, res: any, error: any, fallback: string) {
+  if (error instanceof MfaError) {
+    if (error.code === "invalid_code" || error.code === "too_many_attempts") {
+      auditMfa(req, "access_denied", { code: `mfa_${error.code}`, path: req.originalUrl || req.url });
+    }
+    return res.status(error.status).json({ error: error.message, code: error.code });
+  }
+  console.error(`${fallback}:`, error);
+  res.status(500).json({ error: error.message || fallback });
+}
+
+// Enrollment and verification state for the signed-in user
+mfaRouter.get("/status", requirePasswordAuth, async (req: AuthenticatedRequest, res: any) => {
+  try {
+    res.json(await getMfaStatus(currentUser(req), req.auth!.sessionId));
+  } catch (error: any) {
+    sendError(req, res, error, "Failed to load MFA status");
+  }
+});
+
+// Start enrollment: new secret plus a QR code for the authenticator app
+mfaRouter.post("/enroll", requirePasswordAuth, async (req: AuthenticatedRequest, res: any) => {
+  try {
+    res.json(await startEnrollment(req.auth!.userId, req.auth!.email));
+  } catch (error: any) {
+    sendError(req, res, error, "Failed to start MFA enrollment");
+  }
+});
+
+// Confirm enrollment with the first code; returns recovery codes once
+mfaRouter.post("/enroll/verify", requirePasswordAuth, async (req: AuthenticatedRequest, res: any) => {
+  try {
+    const recoveryCodes = await confirmEnrollment(req.auth!.userId, String(req.body?.code || ""), req.auth!.sessionId);
+    auditMfa(req, "updated", { mfa: "enrolled" });
+    res.json({ recovery_codes: recoveryCodes });
+  } catch (error: any) {
+    sendError(req, res, error, "Failed to confirm MFA enrollment");
+  }
+});
+
+// Second step of sign-in
+mfaRouter.post("/verify", requirePasswordAuth, async (req: AuthenticatedRequest, res: any) => {
+  const { code, recovery_code } = req.body || {};
+  try {
+    const method = await verifySession(req.auth!.userId, req.auth!.sessionId, {
+      code: code ? String(code) : undefined,
+      recoveryCode: recovery_code ? String(recovery_code) : undefined,
+    });
+    if (method === "recovery_code") auditMfa(req, "updated", { mfa: "recovery_code_used" });
+    res.json({ verified: true, method });
+  } catch (error: any) {
+    sendError(req, res, error, "Failed to verify MFA code");
+  }
+});
+
+// Replace all recovery codes (requires a current authenticator code)
+mfaRouter.post("/recovery-codes", requireAuth, async (req: AuthenticatedRequest, res: any) => {
+  try {
+    const recoveryCodes = await regenerateRecoveryCodes(req.auth!.userId, String(req.body?.code || ""));
+    auditMfa(req, "updated", { mfa: "recovery_codes_regenerated" });
+    res.json({ recovery_codes: recoveryCodes });
+  } catch (error: any) {
+    sendError(req, res, error, "Failed to regenerate recovery codes");
+  }
+});
+
+// Turn MFA off (requires a current authenticator code; refused if the tenant requires MFA)
+mfaRouter.post("/disable", requireAuth, async (req: AuthenticatedRequest, res: any) => {
+  try {
+    await disableMfa(currentUser(req), String(req.body?.code || ""));
+    auditMfa(req, "updated", { mfa: "disabled" });
+    res.json({ disabled: true });
+  } catch (error: any) {
+    sendError(req, res, error, "Failed to disable MFA");
+  }
+});
+
+// Tenant-wide requirement, set by agency admins
+mfaRouter.put(
+  "/tenants/:tenantId/policy",
+  requireAuth,
+  requireRole("agency_admin", "super_admin"),
+  requireSameTenant(),
+  async (req: AuthenticatedRequest, res: any) => {
+    const { tenantId } = req.params;
+    const required = req.body?.required;
+    if (typeof required !== "boolean") {
+      return res.status(400).json({ error: "required must be true or false", code: "invalid_policy" });
+    }
+
+    try {
+      const tenant = await setTenantMfaPolicy(tenantId, required);
+      void writeAuditLog(
+        {
+          tenantId,
+          userId: req.auth!.userId,
+          entityType: "tenant",
+          entityId: tenantId,
+          action: "updated",
+          changes: { require_mfa: required },
+        },
+        req
+      );
+      res.json({ tenant_id: tenant.id, require_mfa: tenant.require_mfa });
+    } catch (error: any) {
+      sendError(req, res, error, "Failed to update MFA policy");
+    }
+  }
+);
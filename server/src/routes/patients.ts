@@ -0,0 +1,788 @@
+import express from "express";
+import { requireAuth } from "../middleware/auth";
+import type { AuthenticatedRequest } from "../middleware/auth";
+import { requireRole, requireSameTenant, tenantOfRow } from "../middleware/authorize";
+import { logPhiAccess } from "../middleware/phiAccess";
+import { patientAccessReport } from "../lib/phiAccess";
+import { writeAuditLog, writeAuditLogs } from "../lib/audit";
+import { PatientExportError, buildPatientExport } from "../lib/patientExport";
+import { findDuplicateCandidates } from "../lib/patientMatching";
+import { PatientMergeError, listMerges, mergePatients, undoMerge } from "../lib/patientMerge";
+import { findAllergyConflicts } from "../lib/allergyConflicts";
+import { AllergyError, addAllergy, allergyFields, listAllergies, removeAllergy, updateAllergy } from "../lib/patientAllergies";
+import {
+  PATIENT_PHI_COLUMNS,
+  PATIENT_PHI_FIELDS,
+  PhiEncryptionError,
+  dateOfBirthIndexes,
+  identityIndexes,
+  normalizeDateOfBirth,
+  openPatient,
+  openPatients,
+  sealPatient,
+} from "../lib/phiEncryption";
+
+export const patientsRouter = express.Router();
+
+const sameTenantAsPatient = requireSameTenant(tenantOfRow("patients", "patientId"));
+const sameTenantAsQuery = requireSameTenant((req) => (req.query.tenant_id as string) || req.auth?.tenantId);
+
+// Patients are read and written with the caller's own client so RLS decides
+// what is visible; every successful read is written to the PHI access log.
+// Date of birth, address lines, phone and email are stored encrypted
+// (lib/phiEncryption.ts), so clients create and change patients here rather
+// than writing the table directly.
+
+// Columns clients may set on create and update
+const WRITABLE_COLUMNS = [
+  "first_name",
+  "last_name",
+  ...PATIENT_PHI_FIELDS,
+  "city",
+  "state",
+  "zip_code",
+  "assigned_clinician_id",
+];
+const SEARCH_LIMIT = 10;
+const PHI_BATCH_LIMIT = 200;
+
+class PatientRequestError extends Error {
+  status: number;
+  code: string;
+
+  constructor(message: string, status: number, code: string) {
+    super(message);
+    this.name = "PatientRequestError";
+    this.status = status;
+    this.code = code;
+  }
+}
+
+function sendError(res: any, error: any, fallback: string) {
+  if (
+    error instanceof PhiEncryptionError ||
+    error instanceof PatientRequestError ||
+    error instanceof PatientExportError ||
+    error instanceof PatientMergeError ||
+    error instanceof AllergyError
+  ) {
+    return res.status(error.status).json({ error: error.message, code: error.code });
+  }
+  console.error(`${fallback}:`, error);
+  res.status(500).json({ error: error.message || fallback });
+}
+
+function writableFields(body: any) {
+  const fields: Record<string, any> = {};
+  for (const column of WRITABLE_COLUMNS) {
+    if (body && column in body) fields[column] = body[column] === "" ? null : body[column];
+  }
+  return fields;
+}
+
+// The demographics duplicate matching compares (lib/patientMatching.ts)
+function matchProbe(body: any) {
+  const probe = {
+    first_name: String(body?.first_name || "").trim(),
+    last_name: String(body?.last_name || "").trim(),
+    date_of_birth: body?.date_of_birth || null,
+    phone: body?.phone || null,
+    address_line1: body?.address_line1 || null,
+    zip_code: body?.zip_code || null,
+  };
+  if (!probe.first_name || !probe.last_name) {
+    throw new PatientRequestError("first_name and last_name are required", 400, "missing_fields");
+  }
+  return probe;
+}
+
+const candidateView = ({ patient, match }: { patient: any; match: any }) => ({ patient, ...match });
+
+const patientAccesses = (patients: any[]) =>
+  patients.map((patient) => ({
+    tenantId: patient.tenant_id,
+    patientId: patient.id,
+    entityType: "patient" as const,
+    entityId: patient.id,
+  }));
+
+// Accepts YYYY-MM-DD or MM/DD/YYYY; null if the text is not a date
+function dateQuery(text: string) {
+  const us = /^(\d{1,2})\/(\d{1,2})\/(\d{4})$/.exec(text);
+  const iso = us ? `${us[3]}-${us[1].padStart(2, "0")}-${us[2].padStart(2, "0")}` : text;
+  try {
+    return /^\d{4}-\d{2}-\d{2}$/.test(iso) ? normalizeDateOfBirth(iso) : null;
+  } catch {
+    return null;
+  }
+}
+
+// A tenant's patients with their assigned clinician, charts and documents
+// (?tenant_id= for super admins)
+patientsRouter.get(
+  "/",
+  requireAuth,
+  requireSameTenant((req) => (req.query.tenant_id as string) || req.auth?.tenantId),
+  logPhiAccess(),
+  async (req: AuthenticatedRequest, res: any) => {
+    const tenantId = (req.query.tenant_id as string) || req.auth!.tenantId;
+
+    const { data, error } = await req.supabase!
+      .from("patients")
+      .select(`
+        *,
+        assigned_clinician:users!patients_assigned_clinician_id_fkey ( id, first_name, last_name, role ),
+        charts:charts!charts_patient_id_fkey (
+          id,
+          status,
+          documents:documents!fk_documents_chart ( id, file_name, file_type, file_url, created_at )
+        )
+      `)
+      .eq("tenant_id", tenantId)
+      .order("created_at", { ascending: false });
+
+    if (error) {
+      console.error("Patients lookup error:", error);
+      return res.status(500).json({ error: error.message });
+    }
+
+    let opened: any[];
+    try {
+      opened = await openPatients(data as any[]);
+    } catch (openError: any) {
+      return sendError(res, openError, "Failed to decrypt patients");
+    }
+    const patients = opened.map(({ charts, ...patient }: any) => ({
+      ...patient,
+      charts: (charts || []).map(({ documents, ...chart }: any) => chart),
+      documents: (charts || []).flatMap((chart: any) => chart.documents || []),
+    }));
+    res.locals.phiAccess = patients.map((patient) => ({
+      tenantId: patient.tenant_id,
+      patientId: patient.id,
+      entityType: "patient",
+      entityId: patient.id,
+    }));
+    res.json({ patients });
+  }
+);
+
+// Exact match on name + date of birth through the blind index (plus rows the
+// re-encryption job has not reached yet). ?first_name=&last_name=
+// &date_of_birth=&tenant_id=; ?include=charts adds each patient's charts.
+patientsRouter.get(
+  "/lookup",
+  requireAuth,
+  sameTenantAsQuery,
+  logPhiAccess(),
+  async (req: AuthenticatedRequest, res: any) => {
+    const tenantId = (req.query.tenant_id as string) || req.auth!.tenantId;
+    const { first_name: firstName, last_name: lastName, date_of_birth: dateOfBirth } = req.query as Record<
+      string,
+      string | undefined
+    >;
+
+    try {
+      if (!firstName?.trim() || !lastName?.trim() || !dateOfBirth) {
+        throw new PatientRequestError(
+          "first_name, last_name and date_of_birth are required",
+          400,
+          "missing_fields"
+        );
+      }
+      const dob = normalizeDateOfBirth(dateOfBirth)!;
+      const select =
+        req.query.include === "charts"
+          ? "*, charts:charts!charts_patient_id_fkey ( id, status, source, created_at, created_by, medication_count )"
+          : "*";
+
+      const [indexed, legacy] = await Promise.all([
+        req.supabase!
+          .from("patients")
+          .select(select)
+          .eq("tenant_id", tenantId)
+          .in("identity_bidx", await identityIndexes(tenantId, firstName, lastName, dob)),
+        req.supabase!
+          .from("patients")
+          .select(select)
+          .eq("tenant_id", tenantId)
+          .is("phi_key_version", null)
+          .eq("first_name", firstName)
+          .eq("last_name", lastName)
+          .eq("date_of_birth", dob),
+      ]);
+      if (indexed.error) throw indexed.error;
+      if (legacy.error) throw legacy.error;
+
+      const patients = await openPatients([...(indexed.data || []), ...(legacy.data || [])] as any[]);
+      res.locals.phiAccess = patientAccesses(patients);
+      res.json({ patients });
+    } catch (error: any) {
+      sendError(res, error, "Failed to look up patient");
+    }
+  }
+);
+
+// Up to 10 patients whose first or last name contains ?q=, or whose date of
+// birth is ?q= when it is a date (YYYY-MM-DD or MM/DD/YYYY)
+patientsRouter.get(
+  "/search",
+  requireAuth,
+  sameTenantAsQuery,
+  logPhiAccess(),
+  async (req: AuthenticatedRequest, res: any) => {
+    const tenantId = (req.query.tenant_id as string) || req.auth!.tenantId;
+    const q = String(req.query.q || "").trim();
+
+    try {
+      if (!q) return res.json({ patients: [] });
+      if (q.length > 100) throw new PatientRequestError("q must be at most 100 characters", 400, "invalid_query");
+
+      let query = req.supabase!.from("patients").select("*").eq("tenant_id", tenantId);
+      const dob = dateQuery(q);
+      if (dob) {
+        const indexes = await dateOfBirthIndexes(tenantId, dob);
+        query = query.or(`dob_bidx.in.(${indexes.join(",")}),and(phi_key_version.is.null,date_of_birth.eq.${dob})`);
+      } else {
+        // Characters that would change the filter or act as wildcards
+        const term = q.replace(/[,()\\%_*"]/g, " ").trim();
+        if (!term) return res.json({ patients: [] });
+        query = query.or(`first_name.ilike.%${term}%,last_name.ilike.%${term}%`);
+      }
+
+      const { data, error } = await query.order("last_name", { ascending: true }).limit(SEARCH_LIMIT);
+      if (error) throw error;
+
+      const patients = await openPatients(data as any[]);
+      res.locals.phiAccess = patientAccesses(patients);
+      res.json({ patients });
+    } catch (error: any) {
+      sendError(res, error, "Failed to search patients");
+    }
+  }
+);
+
+// Decrypted PHI for patients the caller already listed (?ids=a,b, at most
+// 200), for screens that load patients through other tables
+patientsRouter.get("/phi", requireAuth, logPhiAccess(), async (req: AuthenticatedRequest, res: any) => {
+  const ids = String(req.query.ids || "")
+    .split(",")
+    .map((id) => id.trim())
+    .filter(Boolean);
+
+  try {
+    if (ids.length > PHI_BATCH_LIMIT) {
+      throw new PatientRequestError(`At most ${PHI_BATCH_LIMIT} ids per request`, 400, "too_many_ids");
+    }
+    if (ids.length === 0) return res.json({ patients: [] });
+
+    // RLS limits the result to patients the caller may read
+    const { data, error } = await req.supabase!.from("patients").select(`id, ${PATIENT_PHI_COLUMNS}`).in("id", ids);
+    if (error) throw error;
+
+    const patients = await openPatients(data as any[]);
+    res.locals.phiAccess = patientAccesses(patients);
+    res.json({ patients });
+  } catch (error: any) {
+    sendError(res, error, "Failed to load patient details");
+  }
+});
+
+// Existing patients that may be the person about to be created, best first
+// ({ first_name, last_name, date_of_birth?, phone?, address_line1?, zip_code?,
+// tenant_id? for super admins }). Each candidate carries its score, level
+// ('likely' or 'possible') and the reasons behind it.
+patientsRouter.post(
+  "/duplicates",
+  requireAuth,
+  requireSameTenant((req) => req.body?.tenant_id || req.auth?.tenantId),
+  logPhiAccess(),
+  async (req: AuthenticatedRequest, res: any) => {
+    const tenantId = req.body?.tenant_id || req.auth!.tenantId;
+
+    try {
+      const candidates = await findDuplicateCandidates(req.supabase!, tenantId, matchProbe(req.body));
+      res.locals.phiAccess = patientAccesses(candidates.map(({ patient }) => patient));
+      res.json({ candidates: candidates.map(candidateView) });
+    } catch (error: any) {
+      sendError(res, error, "Failed to check for duplicate patients");
+    }
+  }
+);
+
+// Undo a merge: the charts that moved go back and the duplicate reappears.
+// Audited as 'unmerged' on both patients.
+patientsRouter.post(
+  "/merges/:mergeId/undo",
+  requireAuth,
+  requireRole("agency_admin", "super_admin"),
+  requireSameTenant(tenantOfRow("patient_merges", "mergeId")),
+  async (req: AuthenticatedRequest, res: any) => {
+    try {
+      const merge = await undoMerge(req.params.mergeId, req.auth!.userId);
+
+      void writeAuditLogs(
+        [
+          { patientId: merge.survivor_id, role: "survivor" },
+          { patientId: merge.merged_id, role: "merged" },
+        ].map(({ patientId, role }) => ({
+          tenantId: merge.tenant_id,
+          userId: req.auth!.userId,
+          entityType: "patient",
+          entityId: patientId,
+          action: "unmerged",
+          metadata: { merge_id: merge.id, role, chart_ids: merge.chart_ids },
+        })),
+        req
+      );
+      res.json({ merge });
+    } catch (error: any) {
+      sendError(res, error, "Failed to undo patient merge");
+    }
+  }
+);
+
+// Create a patient ({ first_name, last_name, date_of_birth, address_line1?,
+// address_line2?, city?, state?, zip_code?, phone?, email?,
+// assigned_clinician_id?, tenant_id? for super admins })
+patientsRouter.post(
+  "/",
+  requireAuth,
+  requireSameTenant((req) => req.body?.tenant_id || req.auth?.tenantId),
+  async (req: AuthenticatedRequest, res: any) => {
+    const tenantId = req.body?.tenant_id || req.auth!.tenantId;
+    const fields = writableFields(req.body);
+
+    try {
+      if (!fields.first_name?.trim() || !fields.last_name?.trim()) {
+        throw new PatientRequestError("first_name and last_name are required", 400, "missing_fields");
+      }
+
+      const row = {
+        ...fields,
+        ...(await sealPatient(tenantId, fields)),
+        tenant_id: tenantId,
+        created_by: req.auth!.userId,
+      };
+      const { data, error } = await req.supabase!.from("patients").insert(row).select("*").single();
+      if (error) throw error;
+
+      void writeAuditLog(
+        {
+          tenantId,
+          userId: req.auth!.userId,
+          entityType: "patient",
+          entityId: data.id,
+          action: "created",
+          // Field names only: values would put PHI back in plaintext
+          changes: { fields: Object.keys(fields) },
+        },
+        req
+      );
+      res.status(201).json({ patient: await openPatient(data) });
+    } catch (error: any) {
+      sendError(res, error, "Failed to create patient");
+    }
+  }
+);
+
+// Change a patient; body as for POST, only the columns to change
+patientsRouter.patch(
+  "/:patientId",
+  requireAuth,
+  sameTenantAsPatient,
+  async (req: AuthenticatedRequest, res: any) => {
+    const { patientId } = req.params;
+    const fields = writableFields(req.body);
+
+    try {
+      if (Object.keys(fields).length === 0) {
+        throw new PatientRequestError("Nothing to update", 400, "missing_fields");
+      }
+      if (("first_name" in fields && !fields.first_name?.trim()) || ("last_name" in fields && !fields.last_name?.trim())) {
+        throw new PatientRequestError("first_name and last_name cannot be empty", 400, "missing_fields");
+      }
+
+      const { data: current, error: loadError } = await req.supabase!
+        .from("patients")
+        .select("*")
+        .eq("id", patientId)
+        .maybeSingle();
+      if (loadError) throw loadError;
+      if (!current) throw new PatientRequestError("Patient not found", 404, "not_found");
+
+      // PHI and names are re-sealed together so the row stays on one key and
+      // its blind indexes match
+      const resealed = ["first_name", "last_name", ...PATIENT_PHI_FIELDS].some((column) => column in fields);
+      const update = resealed
+        ? { ...fields, ...(await sealPatient(current.tenant_id, { ...(await openPatient(current)), ...fields })) }
+        : fields;
+
+      const { data, error } = await req.supabase!
+        .from("patients")
+        .update(update)
+        .eq("id", patientId)
+        .select("*")
+        .single();
+      if (error) throw error;
+
+      void writeAuditLog(
+        {
+          tenantId: current.tenant_id,
+          userId: req.auth!.userId,
+          entityType: "patient",
+          entityId: patientId,
+          action: "updated",
+          changes: { fields: Object.keys(fields) },
+        },
+        req
+      );
+      res.json({ patient: await openPatient(data) });
+    } catch (error: any) {
+      sendError(res, error, "Failed to update patient");
+    }
+  }
+);
+
+patientsRouter.get(
+  "/:patientId",
+  requireAuth,
+  sameTenantAsPatient,
+  logPhiAccess("patient", "patientId"),
+  async (req: AuthenticatedRequest, res: any) => {
+    const { data, error } = await req.supabase!
+      .from("patients")
+      .select(`
+        *,
+        assigned_clinician:users!patients_assigned_clinician_id_fkey ( id, first_name, last_name, role )
+      `)
+      .eq("id", req.params.patientId)
+      .maybeSingle();
+
+    if (error) {
+      console.error("Patient lookup error:", error);
+      return res.status(500).json({ error: error.message });
+    }
+    if (!data) return res.status(404).json({ error: "Patient not found", code: "not_found" });
+    try {
+      res.json({ patient: await openPatient(data) });
+    } catch (openError: any) {
+      sendError(res, openError, "Failed to decrypt patient");
+    }
+  }
+);
+
+// "Accessed by" report: every logged read of the patient's records, newest
+// first, and a summary per user. ?since=&until= (ISO dates), ?limit= (max 500)
+patientsRouter.get(
+  "/:patientId/access-log",
+  requireAuth,
+  requireRole("agency_admin", "super_admin"),
+  sameTenantAsPatient,
+  async (req: AuthenticatedRequest, res: any) => {
+    const { since, until, limit } = req.query as Record<string, string | undefined>;
+    for (const [name, value] of Object.entries({ since, until })) {
+      if (value && Number.isNaN(Date.parse(value))) {
+        return res.status(400).json({ error: `${name} must be an ISO date`, code: "invalid_date" });
+      }
+    }
+
+    try {
+      const tenantId = await tenantOfRow("patients", "patientId")(req);
+      if (!tenantId) return res.status(404).json({ error: "Patient not found", code: "not_found" });
+
+      const report = await patientAccessReport(tenantId, req.params.patientId, {
+        since,
+        until,
+        limit: limit ? Number(limit) : undefined,
+      });
+      res.json(report);
+    } catch (error: any) {
+      console.error("Patient access report error:", error);
+      res.status(500).json({ error: error.message || "Failed to load access report" });
+    }
+  }
+);
+
+// Right-of-access bundle: a zip with the patient's whole record as record.json
+// and record.pdf, plus scanned label images and document files
+// (lib/patientExport.ts). Audited as 'exported'; no audit entry, no bundle.
+patientsRouter.get(
+  "/:patientId/export",
+  requireAuth,
+  requireRole("agency_admin", "super_admin"),
+  sameTenantAsPatient,
+  logPhiAccess("patient", "patientId"),
+  async (req: AuthenticatedRequest, res: any) => {
+    const { patientId } = req.params;
+
+    try {
+      const tenantId = await tenantOfRow("patients", "patientId")(req);
+      if (!tenantId) return res.status(404).json({ error: "Patient not found", code: "not_found" });
+
+      const bundle = await buildPatientExport(patientId, req.auth!.userId);
+
+      const { error: auditError } = await writeAuditLog(
+        {
+          tenantId,
+          userId: req.auth!.userId,
+          entityType: "patient",
+          entityId: patientId,
+          action: "exported",
+          metadata: {
+            export: "patient_record",
+            patient_id: patientId,
+            filename: bundle.filename,
+            bytes: bundle.zip.length,
+            ...bundle.summary,
+          },
+        },
+        req
+      );
+      if (auditError) throw auditError;
+
+      res.setHeader("Content-Disposition", `attachment; filename="${bundle.filename}"`);
+      res.type("application/zip").send(bundle.zip);
+    } catch (error: any) {
+      sendError(res, error, "Failed to export patient record");
+    }
+  }
+);
+
+// Likely and possible duplicates of an existing patient, for the merge tool
+patientsRouter.get(
+  "/:patientId/duplicates",
+  requireAuth,
+  requireRole("agency_admin", "super_admin"),
+  sameTenantAsPatient,
+  logPhiAccess("patient", "patientId"),
+  async (req: AuthenticatedRequest, res: any) => {
+    try {
+      const { data, error } = await req.supabase!.from("patients").select("*").eq("id", req.params.patientId).maybeSingle();
+      if (error) throw error;
+      if (!data) return res.status(404).json({ error: "Patient not found", code: "not_found" });
+
+      const patient = await openPatient(data);
+      const candidates = await findDuplicateCandidates(req.supabase!, patient.tenant_id, patient, {
+        excludeId: patient.id,
+      });
+      res.locals.phiAccess = patientAccesses(candidates.map(({ patient: candidate }) => candidate));
+      res.json({ candidates: candidates.map(candidateView) });
+    } catch (error: any) {
+      sendError(res, error, "Failed to find duplicate patients");
+    }
+  }
+);
+
+// Merges into or out of the patient, newest first, undone ones included
+patientsRouter.get(
+  "/:patientId/merges",
+  requireAuth,
+  requireRole("agency_admin", "super_admin"),
+  sameTenantAsPatient,
+  async (req: AuthenticatedRequest, res: any) => {
+    try {
+      res.json({ merges: await listMerges(req.params.patientId) });
+    } catch (error: any) {
+      sendError(res, error, "Failed to load patient merges");
+    }
+  }
+);
+
+// Merge { merged_patient_id, reason? } into this patient: the duplicate's
+// charts, documents and medications move here and the duplicate is hidden.
+// Audited as 'merged' on both patients.
+patientsRouter.post(
+  "/:patientId/merge",
+  requireAuth,
+  requireRole("agency_admin", "super_admin"),
+  sameTenantAsPatient,
+  async (req: AuthenticatedRequest, res: any) => {
+    const { merged_patient_id: mergedId, reason } = req.body || {};
+
+    try {
+      if (!mergedId || typeof mergedId !== "string") {
+        throw new PatientRequestError("merged_patient_id is required", 400, "missing_fields");
+      }
+      const merge = await mergePatients(req.params.patientId, mergedId, req.auth!.userId, { reason });
+
+      void writeAuditLogs(
+        [
+          { patientId: merge.survivor_id, role: "survivor" },
+          { patientId: merge.merged_id, role: "merged" },
+        ].map(({ patientId, role }) => ({
+          tenantId: merge.tenant_id,
+          userId: req.auth!.userId,
+          entityType: "patient",
+          entityId: patientId,
+          action: "merged",
+          metadata: {
+            merge_id: merge.id,
+            role,
+            survivor_id: merge.survivor_id,
+            merged_id: merge.merged_id,
+            chart_ids: merge.chart_ids,
+            document_count: merge.document_count,
+            medication_count: merge.medication_count,
+            match_score: merge.match_score,
+            reason: merge.reason,
+          },
+        })),
+        req
+      );
+      res.status(201).json({ merge });
+    } catch (error: any) {
+      sendError(res, error, "Failed to merge patients");
+    }
+  }
+);
+
+// ─── Allergies ───────────────────────────────────────────────────
+// Read and changed through the API; charts check their medications against
+// them (lib/allergyConflicts.ts). Changes are audited on the patient.
+
+const canEditAllergies = requireRole("clinician", "agency_admin", "super_admin");
+
+// Allergy values for the audit log: what was recorded, not who the patient is
+const allergySummary = (allergy: { allergen: string; reaction: string | null; severity: string; source: string }) => ({
+  allergen: allergy.allergen,
+  reaction: allergy.reaction,
+  severity: allergy.severity,
+  source: allergy.source,
+});
+
+patientsRouter.get(
+  "/:patientId/allergies",
+  requireAuth,
+  sameTenantAsPatient,
+  logPhiAccess("patient", "patientId"),
+  async (req: AuthenticatedRequest, res: any) => {
+    try {
+      res.json({ allergies: await listAllergies(req.params.patientId) });
+    } catch (error: any) {
+      sendError(res, error, "Failed to load allergies");
+    }
+  }
+);
+
+// { allergen, reaction?, severity? (mild, moderate, severe, unknown),
+// source? (patient_reported, caregiver_reported, medical_record,
+// clinician_observed) }
+patientsRouter.post(
+  "/:patientId/allergies",
+  requireAuth,
+  canEditAllergies,
+  sameTenantAsPatient,
+  async (req: AuthenticatedRequest, res: any) => {
+    const { patientId } = req.params;
+
+    try {
+      const fields = allergyFields(req.body);
+      const tenantId = await tenantOfRow("patients", "patientId")(req);
+      if (!tenantId) throw new PatientRequestError("Patient not found", 404, "not_found");
+
+      const allergy = await addAllergy(tenantId, patientId, fields, req.auth!.userId);
+      void writeAuditLog(
+        {
+          tenantId,
+          userId: req.auth!.userId,
+          entityType: "patient",
+          entityId: patientId,
+          action: "updated",
+          changes: { allergy: { from: null, to: allergySummary(allergy) } },
+          metadata: { allergy_id: allergy.id },
+        },
+        req
+      );
+      res.status(201).json({ allergy });
+    } catch (error: any) {
+      sendError(res, error, "Failed to add allergy");
+    }
+  }
+);
+
+patientsRouter.patch(
+  "/:patientId/allergies/:allergyId",
+  requireAuth,
+  canEditAllergies,
+  sameTenantAsPatient,
+  async (req: AuthenticatedRequest, res: any) => {
+    const { patientId, allergyId } = req.params;
+
+    try {
+      const { before, after } = await updateAllergy(
+        patientId,
+        allergyId,
+        allergyFields(req.body, { partial: true }),
+        req.auth!.userId
+      );
+      void writeAuditLog(
+        {
+          tenantId: after.tenant_id,
+          userId: req.auth!.userId,
+          entityType: "patient",
+          entityId: patientId,
+          action: "updated",
+          changes: { allergy: { from: allergySummary(before), to: allergySummary(after) } },
+          metadata: { allergy_id: allergyId },
+        },
+        req
+      );
+      res.json({ allergy: after });
+    } catch (error: any) {
+      sendError(res, error, "Failed to update allergy");
+    }
+  }
+);
+
+patientsRouter.delete(
+  "/:patientId/allergies/:allergyId",
+  requireAuth,
+  canEditAllergies,
+  sameTenantAsPatient,
+  async (req: AuthenticatedRequest, res: any) => {
+    const { patientId, allergyId } = req.params;
+
+    try {
+      const allergy = await removeAllergy(patientId, allergyId);
+      void writeAuditLog(
+        {
+          tenantId: allergy.tenant_id,
+          userId: req.auth!.userId,
+          entityType: "patient",
+          entityId: patientId,
+          action: "updated",
+          changes: { allergy: { from: allergySummary(allergy), to: null } },
+          metadata: { allergy_id: allergyId },
+        },
+        req
+      );
+      res.status(204).end();
+    } catch (error: any) {
+      sendError(res, error, "Failed to remove allergy");
+    }
+  }
+);
+
+// Check a medication that is not saved yet ({ drug_name }) against the
+// patient's allergies, e.g. while it is being entered or verified
+patientsRouter.post(
+  "/:patientId/allergies/check",
+  requireAuth,
+  sameTenantAsPatient,
+  logPhiAccess("patient", "patientId"),
+  async (req: AuthenticatedRequest, res: any) => {
+    const drugName = typeof req.body?.drug_name === "string" ? req.body.drug_name.trim() : "";
+
+    try {
+      if (!drugName) throw new PatientRequestError("drug_name is required", 400, "missing_fields");
+      const allergies = await listAllergies(req.params.patientId);
+      const conflicts = findAllergyConflicts(allergies, [{ id: "unsaved", drug_name: drugName }]).map(
+        ({ key, fingerprint, medication_ids, ...conflict }) => conflict
+      );
+      res.json({ conflicts });
+    } catch (error: any) {
+      sendError(res, error, "Failed to check medication against allergies");
+    }
+  }
+);
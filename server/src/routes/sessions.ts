@@ -0,0 +1,130 @@
+import express from "express";
+import { requireAuth } from "../middleware/auth";
+import type { AuthenticatedRequest } from "../middleware/auth";
+import { requireRole, requireSameTenant, tenantOfRow } from "../middleware/authorize";
+import { writeAuditLog } from "../lib/audit";
+import { listSessions, revokeSessions, sessionBelongsTo } from "../lib/sessions";
+
+export const sessionsRouter = express.Router();
+
+const adminOfUser = [
+  requireRole("agency_admin", "super_admin"),
+  requireSameTenant(tenantOfRow("users", "userId")),
+];
+
+function auditRevocation(req: AuthenticatedRequest, targetUserId: string, sessionIds: string[], scope: string) {
+  void writeAuditLog(
+    {
+      tenantId: req.auth!.tenantId,
+      userId: req.auth!.userId,
+      entityType: "user",
+      entityId: targetUserId,
+      action: "updated",
+      metadata: { sessions: "revoked", scope, session_ids: sessionIds },
+    },
+    req
+  );
+}
+
+// Signed-in devices for the current user
+sessionsRouter.get("/", requireAuth, async (req: AuthenticatedRequest, res: any) => {
+  try {
+    const sessions = await listSessions(req.auth!.userId);
+    res.json({
+      sessions: sessions.map((session) => ({ ...session, current: session.session_id === req.auth!.sessionId })),
+    });
+  } catch (error: any) {
+    console.error("List sessions error:", error);
+    res.status(500).json({ error: error.message || "Failed to load sessions" });
+  }
+});
+
+// Sign out every other device (or all, including this one, with { include_current: true })
+sessionsRouter.post("/revoke-all", requireAuth, async (req: AuthenticatedRequest, res: any) => {
+  try {
+    const revoked = await revokeSessions(req.auth!.userId, "all", {
+      revokedBy: req.auth!.userId,
+      reason: "user_revoked_all",
+      except: req.body?.include_current ? null : req.auth!.sessionId,
+    });
+    auditRevocation(req, req.auth!.userId, revoked, "all");
+    res.json({ revoked });
+  } catch (error: any) {
+    console.error("Revoke sessions error:", error);
+    res.status(500).json({ error: error.message || "Failed to revoke sessions" });
+  }
+});
+
+// Sign out one of the current user's devices
+sessionsRouter.delete("/:sessionId", requireAuth, async (req: AuthenticatedRequest, res: any) => {
+  const { sessionId } = req.params;
+  try {
+    if (!(await sessionBelongsTo(sessionId, req.auth!.userId))) {
+      return res.status(404).json({ error: "Session not found", code: "not_found" });
+    }
+    const revoked = await revokeSessions(req.auth!.userId, [sessionId], {
+      revokedBy: req.auth!.userId,
+      reason: sessionId === req.auth!.sessionId ? "signed_out" : "user_revoked",
+    });
+    auditRevocation(req, req.auth!.userId, revoked, "single");
+    res.json({ revoked });
+  } catch (error: any) {
+    console.error("Revoke session error:", error);
+    res.status(500).json({ error: error.message || "Failed to revoke session" });
+  }
+});
+
+// ─── Agency admins: sessions of users in their tenant ─────────────
+
+sessionsRouter.get("/users/:userId", requireAuth, ...adminOfUser, async (req: AuthenticatedRequest, res: any) => {
+  try {
+    res.json({ sessions: await listSessions(req.params.userId) });
+  } catch (error: any) {
+    console.error("List user sessions error:", error);
+    res.status(500).json({ error: error.message || "Failed to load sessions" });
+  }
+});
+
+sessionsRouter.post(
+  "/users/:userId/revoke-all",
+  requireAuth,
+  ...adminOfUser,
+  async (req: AuthenticatedRequest, res: any) => {
+    const { userId } = req.params;
+    try {
+      const revoked = await revokeSessions(userId, "all", {
+        revokedBy: req.auth!.userId,
+        reason: "admin_revoked_all",
+        except: userId === req.auth!.userId ? req.auth!.sessionId : null,
+      });
+      auditRevocation(req, userId, revoked, "all");
+      res.json({ revoked });
+    } catch (error: any) {
+      console.error("Revoke user sessions error:", error);
+      res.status(500).json({ error: error.message || "Failed to revoke sessions" });
+    }
+  }
+);
+
+sessionsRouter.delete(
+  "/users/:userId/:sessionId",
+  requireAuth,
+  ...adminOfUser,
+  async (req: AuthenticatedRequest, res: any) => {
+    const { userId, sessionId } = req.params;
+    try {
+      if (!(await sessionBelongsTo(sessionId, userId))) {
+        return res.status(404).json({ error: "Session not found", code: "not_found" });
+      }
+      const revoked = await revokeSessions(userId, [sessionId], {
+        revokedBy: req.auth!.userId,
+        reason: "admin_revoked",
+      });
+      auditRevocation(req, userId, revoked, "single");
+      res.json({ revoked });
+    } catch (error: any) {
+      console.error("Revoke user session error:", error);
+      res.status(500).json({ error: error.message || "Failed to revoke session" });
+    }
+  }
+);
@@ -0,0 +1,147 @@
+import express from "express";
+import { requireAuth, requireSsoHandoffAuth } from "../middleware/auth";
+import type { AuthenticatedRequest } from "../middleware/auth";
+import { requireRole, requireSameTenant } from "../middleware/authorize";
+import { writeAuditLog } from "../lib/audit";
+import {
+  SsoError,
+  bindSsoSession,
+  finishOidcLogin,
+  finishSamlLogin,
+  getTenantSsoSettings,
+  publicSsoInfo,
+  samlMetadata,
+  ssoErrorRedirect,
+  startSsoLogin,
+  updateTenantSsoSettings,
+} from "../lib/sso";
+
+export const ssoRouter = express.Router();
+
+const tenantAdmin = [requireAuth, requireRole("agency_admin", "super_admin"), requireSameTenant()];
+
+function sendError(res: any, error: any, fallback: string) {
+  if (error instanceof SsoError) {
+    return res.status(error.status).json({ error: error.message, code: error.code });
+  }
+  console.error(`${fallback}:`, error);
+  res.status(500).json({ error: error.message || fallback });
+}
+
+function auditLogin(req: any, login: Awaited<ReturnType<typeof finishOidcLogin>>, protocol: string) {
+  void writeAuditLog(
+    {
+      tenantId: login.user.tenant_id,
+      userId: login.user.id,
+      entityType: "user",
+      entityId: login.user.id,
+      action: "sso_login",
+      metadata: { protocol, issuer: login.issuer, role: login.user.role, provisioned: login.created },
+    },
+    req
+  );
+}
+
+// ─── Session handoff ─────────────────────────────────────────────
+
+// Called by the app right after it opens the session from the SSO redirect:
+// { handoff }. Marks the session as SSO so SSO-only tenants accept it.
+ssoRouter.post("/session", requireSsoHandoffAuth, async (req: AuthenticatedRequest, res: any) => {
+  const { handoff } = req.body || {};
+  if (!handoff) return res.status(400).json({ error: "handoff is required", code: "missing_fields" });
+
+  try {
+    await bindSsoSession(String(handoff), req.auth!.userId, req.auth!.sessionId);
+    res.json({ ok: true });
+  } catch (error: any) {
+    sendError(res, error, "Failed to finish SSO sign-in");
+  }
+});
+
+// ─── Tenant settings ─────────────────────────────────────────────
+
+ssoRouter.get("/tenants/:tenantId/config", ...tenantAdmin, async (req: AuthenticatedRequest, res: any) => {
+  try {
+    res.json(await getTenantSsoSettings(req.params.tenantId));
+  } catch (error: any) {
+    sendError(res, error, "Failed to load SSO settings");
+  }
+});
+
+// { enabled?, enforced?, protocol?, oidc?, saml?, groups_attribute?,
+//   role_mapping?, default_role?, allowed_domains? }; omitted fields are kept
+ssoRouter.put("/tenants/:tenantId/config", ...tenantAdmin, async (req: AuthenticatedRequest, res: any) => {
+  try {
+    const settings = await updateTenantSsoSettings(req.params.tenantId, req.body || {}, req.auth!.role);
+
+    void writeAuditLog(
+      {
+        tenantId: req.params.tenantId,
+        userId: req.auth!.userId,
+        entityType: "tenant",
+        entityId: req.params.tenantId,
+        action: "updated",
+        metadata: {
+          sso: "configured",
+          enabled: settings.config?.enabled,
+          enforced: settings.enforced,
+          protocol: settings.config?.protocol,
+        },
+      },
+      req
+    );
+
+    res.json(settings);
+  } catch (error: any) {
+    sendError(res, error, "Failed to save SSO settings");
+  }
+});
+
+// ─── Login (no auth: these start and finish sign-in) ─────────────
+
+ssoRouter.get("/:subdomain", async (req: any, res: any) => {
+  try {
+    res.json(await publicSsoInfo(req.params.subdomain));
+  } catch (error: any) {
+    sendError(res, error, "Failed to load SSO settings");
+  }
+});
+
+ssoRouter.get("/:subdomain/start", async (req: any, res: any) => {
+  try {
+    res.redirect(302, await startSsoLogin(req.params.subdomain));
+  } catch (error: any) {
+    if (!(error instanceof SsoError)) console.error("SSO start error:", error);
+    res.redirect(302, ssoErrorRedirect(error));
+  }
+});
+
+ssoRouter.get("/:subdomain/oidc/callback", async (req: any, res: any) => {
+  try {
+    const login = await finishOidcLogin(req.params.subdomain, req.query);
+    auditLogin(req, login, "oidc");
+    res.redirect(302, login.redirectUrl);
+  } catch (error: any) {
+    if (!(error instanceof SsoError)) console.error("OIDC callback error:", error);
+    res.redirect(302, ssoErrorRedirect(error));
+  }
+});
+
+ssoRouter.post("/:subdomain/saml/acs", express.urlencoded({ extended: false }), async (req: any, res: any) => {
+  try {
+    const login = await finishSamlLogin(req.params.subdomain, req.body || {});
+    auditLogin(req, login, "saml");
+    res.redirect(303, login.redirectUrl);
+  } catch (error: any) {
+    if (!(error instanceof SsoError)) console.error("SAML ACS error:", error);
+    res.redirect(303, ssoErrorRedirect(error));
+  }
+});
+
+ssoRouter.get("/:subdomain/saml/metadata", async (req: any, res: any) => {
+  try {
+    res.type("application/xml").send(await samlMetadata(req.params.subdomain));
+  } catch (error: any) {
+    sendError(res, error, "Failed to build SAML metadata");
+  }
+});
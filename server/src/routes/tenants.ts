@@ -0,0 +1,307 @@
+import express from "express";
+import { requireAuth } from "../middleware/auth";
+import type { AuthenticatedRequest } from "../middleware/auth";
+import { requireRole, requireSameTenant } from "../middleware/authorize";
+import { supabaseAdmin } from "../lib/supabase";
+import { writeAuditLog } from "../lib/audit";
+import { issueTenantActivationCode } from "../lib/activationCodes";
+import { TenantSecurityError, getTenantSecuritySettings, setTenantIdleTimeout } from "../lib/tenantSecurity";
+import { PhiEncryptionError, rotateTenantKey, tenantEncryptionStatus } from "../lib/phiEncryption";
+import {
+  RETENTION_ENTITY_TYPES,
+  RetentionError,
+  getRetentionSettings,
+  listDeletedRecords,
+  listLegalHolds,
+  placeLegalHold,
+  releaseLegalHold,
+  updateRetentionSettings,
+} from "../lib/retention";
+
+export const tenantsRouter = express.Router();
+
+function sendError(res: any, error: any, fallback: string) {
+  if ((
+    error instanceof TenantSecurityError ||
+    error instanceof PhiEncryptionError ||
+    error instanceof RetentionError
+  )) {
+    return res.status(error.status).json({ error: error.message, code: error.code });
+  }
+  console.error(`${fallback}:`, error);
+  res.status(500).json({ error: error.message || fallback });
+}
+
+// Issue the code for creating a tenant's first agency admin. Any unused
+// earlier code stops working. The plaintext is returned only here.
+tenantsRouter.post(
+  "/:tenantId/activation-code",
+  requireAuth,
+  requireRole("super_admin"),
+  async (req: AuthenticatedRequest, res: any) => {
+    const { tenantId } = req.params;
+
+    try {
+      const { data: tenant, error: tenantError } = await supabaseAdmin
+        .from("tenants")
+        .select("id, name, subdomain, contact_email")
+        .eq("id", tenantId)
+        .maybeSingle();
+
+      if (tenantError) throw tenantError;
+      if (!tenant) return res.status(404).json({ error: "Tenant not found", code: "not_found" });
+
+      const { activation, activationCode } = await issueTenantActivationCode(tenant.id, req.auth!.userId);
+
+      void writeAuditLog(
+        {
+          tenantId: tenant.id,
+          userId: req.auth!.userId,
+          entityType: "tenant",
+          entityId: tenant.id,
+          action: "updated",
+          metadata: { activation_code: "issued", expires_at: activation.expires_at },
+        },
+        req
+      );
+
+      res.status(201).json({ tenant, activation_code: activationCode, expires_at: activation.expires_at });
+    } catch (error: any) {
+      console.error("Issue activation code error:", error);
+      res.status(500).json({ error: error.message || "Failed to issue activation code" });
+    }
+  }
+);
+
+// Security settings every member's app applies (idle timeout, MFA, SSO)
+tenantsRouter.get("/:tenantId/security", requireAuth, requireSameTenant(), async (req: AuthenticatedRequest, res: any) => {
+  try {
+    res.json(await getTenantSecuritySettings(req.params.tenantId));
+  } catch (error: any) {
+    sendError(res, error, "Failed to load security settings");
+  }
+});
+
+// Change the idle timeout ({ idle_timeout_minutes }). Takes effect the next
+// time each member signs in.
+tenantsRouter.put(
+  "/:tenantId/security",
+  requireAuth,
+  requireRole("agency_admin", "super_admin"),
+  requireSameTenant(),
+  async (req: AuthenticatedRequest, res: any) => {
+    const { tenantId } = req.params;
+
+    try {
+      const before = await getTenantSecuritySettings(tenantId);
+      const settings = await setTenantIdleTimeout(tenantId, req.body?.idle_timeout_minutes);
+      void writeAuditLog(
+        {
+          tenantId,
+          userId: req.auth!.userId,
+          entityType: "tenant",
+          entityId: tenantId,
+          action: "updated",
+          changes: {
+            idle_timeout_minutes: { from: before.idle_timeout_minutes, to: settings.idle_timeout_minutes },
+          },
+        },
+        req
+      );
+      res.json(settings);
+    } catch (error: any) {
+      sendError(res, error, "Failed to update security settings");
+    }
+  }
+);
+
+// PHI encryption keys (lib/phiEncryption.ts): versions and how many rows the
+// re-encryption job still has to move onto the active one
+tenantsRouter.get(
+  "/:tenantId/encryption",
+  requireAuth,
+  requireRole("super_admin"),
+  async (req: AuthenticatedRequest, res: any) => {
+    try {
+      res.json(await tenantEncryptionStatus(req.params.tenantId));
+    } catch (error: any) {
+      sendError(res, error, "Failed to load encryption status");
+    }
+  }
+);
+
+// Start using a new key version. Existing rows are re-encrypted in the
+// background; the old version is retired once none are left on it.
+tenantsRouter.post(
+  "/:tenantId/encryption/rotate",
+  requireAuth,
+  requireRole("super_admin"),
+  async (req: AuthenticatedRequest, res: any) => {
+    const { tenantId } = req.params;
+
+    try {
+      const version = await rotateTenantKey(tenantId);
+      void writeAuditLog(
+        {
+          tenantId,
+          userId: req.auth!.userId,
+          entityType: "tenant",
+          entityId: tenantId,
+          action: "updated",
+          changes: { encryption_key_version: version },
+          metadata: { encryption: "key_rotated" },
+        },
+        req
+      );
+      res.json(await tenantEncryptionStatus(tenantId));
+    } catch (error: any) {
+      sendError(res, error, "Failed to rotate encryption key");
+    }
+  }
+);
+
+// Retention policies and grace period (lib/retention.ts)
+tenantsRouter.get(
+  "/:tenantId/retention",
+  requireAuth,
+  requireRole("agency_admin", "super_admin"),
+  requireSameTenant(),
+  async (req: AuthenticatedRequest, res: any) => {
+    try {
+      res.json(await getRetentionSettings(req.params.tenantId));
+    } catch (error: any) {
+      sendError(res, error, "Failed to load retention settings");
+    }
+  }
+);
+
+// Change them ({ grace_days?, policies?: { archived_chart?, notification?,
+// audit_log? } }, days or null to keep forever). Applied on the next purge run.
+tenantsRouter.put(
+  "/:tenantId/retention",
+  requireAuth,
+  requireRole("agency_admin", "super_admin"),
+  requireSameTenant(),
+  async (req: AuthenticatedRequest, res: any) => {
+    const { tenantId } = req.params;
+
+    try {
+      const { before, after } = await updateRetentionSettings(tenantId, req.body ?? {}, req.auth!.userId);
+      const changes: Record<string, { from: number | null; to: number | null }> = {};
+      if (before.grace_days !== after.grace_days) {
+        changes.retention_grace_days = { from: before.grace_days, to: after.grace_days };
+      }
+      for (const type of RETENTION_ENTITY_TYPES) {
+        if (before.policies[type] !== after.policies[type]) {
+          changes[`retention_${type}_days`] = { from: before.policies[type], to: after.policies[type] };
+        }
+      }
+      if (Object.keys(changes).length > 0) {
+        void writeAuditLog(
+          {
+            tenantId,
+            userId: req.auth!.userId,
+            entityType: "tenant",
+            entityId: tenantId,
+            action: "updated",
+            changes,
+          },
+          req
+        );
+      }
+      res.json(after);
+    } catch (error: any) {
+      sendError(res, error, "Failed to update retention settings");
+    }
+  }
+);
+
+// Soft-deleted charts and documents still restorable, with their purge dates
+tenantsRouter.get(
+  "/:tenantId/retention/deleted",
+  requireAuth,
+  requireRole("agency_admin", "super_admin"),
+  requireSameTenant(),
+  async (req: AuthenticatedRequest, res: any) => {
+    try {
+      res.json(await listDeletedRecords(req.params.tenantId));
+    } catch (error: any) {
+      sendError(res, error, "Failed to load deleted records");
+    }
+  }
+);
+
+// Legal holds; ?include_released=true lists released ones too
+tenantsRouter.get(
+  "/:tenantId/legal-holds",
+  requireAuth,
+  requireRole("agency_admin", "super_admin"),
+  requireSameTenant(),
+  async (req: AuthenticatedRequest, res: any) => {
+    try {
+      const includeReleased = req.query.include_released === "true";
+      res.json({ holds: await listLegalHolds(req.params.tenantId, { includeReleased }) });
+    } catch (error: any) {
+      sendError(res, error, "Failed to load legal holds");
+    }
+  }
+);
+
+// Place a hold ({ scope: 'tenant' | 'patient', patient_id?, reason }). Nothing
+// it covers is soft-deleted or purged until it is released.
+tenantsRouter.post(
+  "/:tenantId/legal-holds",
+  requireAuth,
+  requireRole("agency_admin", "super_admin"),
+  requireSameTenant(),
+  async (req: AuthenticatedRequest, res: any) => {
+    const { tenantId } = req.params;
+
+    try {
+      const hold = await placeLegalHold(tenantId, req.body ?? {}, req.auth!.userId);
+      void writeAuditLog(
+        {
+          tenantId,
+          userId: req.auth!.userId,
+          entityType: "legal_hold",
+          entityId: hold.id,
+          action: "created",
+          metadata: { scope: hold.scope, patient_id: hold.patient_id, reason: hold.reason },
+        },
+        req
+      );
+      res.status(201).json(hold);
+    } catch (error: any) {
+      sendError(res, error, "Failed to place legal hold");
+    }
+  }
+);
+
+tenantsRouter.post(
+  "/:tenantId/legal-holds/:holdId/release",
+  requireAuth,
+  requireRole("agency_admin", "super_admin"),
+  requireSameTenant(),
+  async (req: AuthenticatedRequest, res: any) => {
+    const { tenantId, holdId } = req.params;
+
+    try {
+      const hold = await releaseLegalHold(tenantId, holdId, req.auth!.userId);
+      void writeAuditLog(
+        {
+          tenantId,
+          userId: req.auth!.userId,
+          entityType: "legal_hold",
+          entityId: hold.id,
+          action: "updated",
+          changes: { released_at: { from: null, to: hold.released_at } },
+          metadata: { scope: hold.scope, patient_id: hold.patient_id },
+        },
+        req
+      );
+      res.json(hold);
+    } catch (error: any) {
+      sendError(res, error, "Failed to release legal hold");
+    }
+  }
+);
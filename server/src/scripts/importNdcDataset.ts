@@ -0,0 +1,131 @@
+// Load or refresh the local NDC directory from the openFDA bulk download.
+//
+//   curl -LO https://download.open.fda.gov/drug/ndc/drug-ndc-0001-of-0001.json.zip
+//   unzip drug-ndc-0001-of-0001.json.zip
+//   npm run build && npm run import:ndc -- drug-ndc-0001-of-0001.json [--version 2026-10-01]
+//
+// Rows are upserted under the dataset version (the file's meta.last_updated by
+// default); rows left over from older versions are removed afterwards, so
+// re-running with a newer file is a refresh.
+import { readFileSync } from "fs";
+import { basename } from "path";
+import { supabaseAdmin } from "../lib/supabase";
+import { formatStrength, hyphenatedToNormalized } from "../lib/ndc";
+
+const BATCH_SIZE = 500;
+
+interface OpenFdaProduct {
+  product_ndc: string;
+  brand_name?: string;
+  generic_name?: string;
+  labeler_name?: string;
+  dosage_form?: string;
+  route?: string[];
+  active_ingredients?: { name: string; strength: string }[];
+  product_type?: string;
+  marketing_end_date?: string;
+  packaging?: { package_ndc: string; description?: string }[];
+}
+
+function parseArgs(argv: string[]) {
+  const file = argv.find((arg) => !arg.startsWith("--"));
+  const versionIndex = argv.indexOf("--version");
+  return { file, version: versionIndex >= 0 ? argv[versionIndex + 1] : undefined };
+}
+
+// openFDA dates are YYYYMMDD
+function toDate(value?: string) {
+  return value && /^\d{8}$/.test(value) ? `${value.slice(0, 4)}-${value.slice(4, 6)}-${value.slice(6, 8)}` : null;
+}
+
+async function upsertInBatches(table: string, rows: Record<string, any>[], onConflict: string) {
+  for (let i = 0; i < rows.length; i += BATCH_SIZE) {
+    const { error } = await supabaseAdmin.from(table).upsert(rows.slice(i, i + BATCH_SIZE), { onConflict });
+    if (error) throw new Error(`${table} batch ${i / BATCH_SIZE + 1}: ${error.message}`);
+    process.stdout.write(`\r${table}: ${Math.min(i + BATCH_SIZE, rows.length)}/${rows.length}`);
+  }
+  process.stdout.write("\n");
+}
+
+async function main() {
+  const { file, version: versionArg } = parseArgs(process.argv.slice(2));
+  if (!file) {
+    console.error("Usage: npm run import:ndc -- <drug-ndc.json> [--version <label>]");
+    process.exit(1);
+  }
+
+  const dataset = JSON.parse(readFileSync(file, "utf8"));
+  const version: string | undefined = versionArg || dataset.meta?.last_updated;
+  if (!version) throw new Error("No dataset version: pass --version or use a file with meta.last_updated");
+
+  const results: OpenFdaProduct[] = dataset.results || [];
+  const products = new Map<string, Record<string, any>>();
+  const packages = new Map<string, Record<string, any>>();
+
+  for (const p of results) {
+    const ndc9 = p.product_ndc ? hyphenatedToNormalized(p.product_ndc) : null;
+    if (!ndc9 || ndc9.length !== 9) continue;
+
+    products.set(p.product_ndc, {
+      product_ndc: p.product_ndc,
+      ndc9,
+      brand_name: p.brand_name || null,
+      generic_name: p.generic_name || null,
+      labeler_name: p.labeler_name || null,
+      dosage_form: p.dosage_form || null,
+      route: p.route || [],
+      strength: formatStrength(p.active_ingredients),
+      active_ingredients: p.active_ingredients || [],
+      product_type: p.product_type || null,
+      marketing_end_date: toDate(p.marketing_end_date),
+      dataset_version: version,
+      updated_at: new Date().toISOString(),
+    });
+
+    for (const pkg of p.packaging || []) {
+      const ndc11 = hyphenatedToNormalized(pkg.package_ndc);
+      if (!ndc11 || ndc11.length !== 11) continue;
+      packages.set(ndc11, {
+        ndc11,
+        package_ndc: pkg.package_ndc,
+        product_ndc: p.product_ndc,
+        description: pkg.description || null,
+        dataset_version: version,
+      });
+    }
+  }
+
+  console.log(`Importing NDC dataset ${version}: ${products.size} products, ${packages.size} packages`);
+
+  await upsertInBatches("ndc_products", Array.from(products.values()), "product_ndc");
+  await upsertInBatches("ndc_packages", Array.from(packages.values()), "ndc11");
+
+  // Drop anything the new dataset no longer lists (products cascade to packages)
+  const { error: packagesError } = await supabaseAdmin
+    .from("ndc_packages")
+    .delete()
+    .neq("dataset_version", version);
+  if (packagesError) throw packagesError;
+
+  const { count: removed, error: productsError } = await supabaseAdmin
+    .from("ndc_products")
+    .delete({ count: "exact" })
+    .neq("dataset_version", version);
+  if (productsError) throw productsError;
+
+  const { error: importError } = await supabaseAdmin.from("ndc_dataset_imports").insert({
+    dataset_version: version,
+    source: basename(file),
+    product_count: products.size,
+    package_count: packages.size,
+    removed_count: removed || 0,
+  });
+  if (importError) throw importError;
+
+  console.log(`Done. Removed ${removed || 0} products no longer in the dataset.`);
+}
+
+main().catch((error) => {
+  console.error("NDC import failed:", error.message || error);
+  process.exit(1);
+});
@@ -0,0 +1,140 @@
+// Local OpenID Connect provider for trying tenant SSO without a real IdP.
+//
+//   npm run mock-idp            # http://localhost:9090 (MOCK_IDP_PORT to change)
+//
+// Then save a tenant's SSO settings with protocol "oidc", issuer
+// http://localhost:9090 and client_id "luminous-local" (no secret), and start
+// a login from that tenant's subdomain. The authorize page asks for the email,
+// name and groups to sign in with, so role mapping can be tried quickly.
+// Keys live in memory; restarting the IdP invalidates nothing but open logins.
+import crypto from "crypto";
+import express from "express";
+import jwt from "jsonwebtoken";
+
+const PORT = Number(process.env.MOCK_IDP_PORT || 9090);
+const ISSUER = process.env.MOCK_IDP_ISSUER || `http://localhost:${PORT}`;
+const CODE_TTL_MS = 60 * 1000;
+
+const { privateKey, publicKey } = crypto.generateKeyPairSync("rsa", { modulusLength: 2048 });
+const kid = crypto.randomBytes(8).toString("hex");
+
+interface AuthorizationCode {
+  clientId: string;
+  redirectUri: string;
+  nonce: string;
+  codeChallenge: string;
+  claims: Record<string, any>;
+  expiresAt: number;
+}
+
+const codes = new Map<string, AuthorizationCode>();
+
+const escapeHtml = (value: string) => String(value).replace(/[&<>"']/g, (c) => `&#${c.charCodeAt(0)};`);
+
+const app = express();
+app.use(express.urlencoded({ extended: false }));
+
+app.get("/.well-known/openid-configuration", (_req, res) => {
+  res.json({
+    issuer: ISSUER,
+    authorization_endpoint: `${ISSUER}/authorize`,
+    token_endpoint: `${ISSUER}/token`,
+    jwks_uri: `${ISSUER}/jwks`,
+    response_types_supported: ["code"],
+    subject_types_supported: ["public"],
+    id_token_signing_alg_values_supported: ["RS256"],
+    code_challenge_methods_supported: ["S256"],
+  });
+});
+
+app.get("/jwks", (_req, res) => {
+  res.json({ keys: [{ ...publicKey.export({ format: "jwk" }), kid, use: "sig", alg: "RS256" }] });
+});
+
+// Sign-in form; the login request is carried through as hidden fields
+app.get("/authorize", (req, res) => {
+  const params = req.query as Record<string, string>;
+  if (params.response_type !== "code" || params.code_challenge_method !== "S256" || !params.code_challenge) {
+    return res.status(400).send("Only the authorization code flow with PKCE (S256) is supported");
+  }
+
+  const hidden = ["client_id", "redirect_uri", "state", "nonce", "code_challenge"]
+    .map((name) => `<input type="hidden" name="${name}" value="${escapeHtml(params[name] || "")}">`)
+    .join("");
+  res.send(`<!doctype html>
+<title>Mock IdP</title>
+<form method="post" style="font-family: sans-serif; max-width: 360px; margin: 4em auto; display: grid; gap: .75em">
+  <h2>Mock IdP sign-in</h2>
+  ${hidden}
+  <label>Email <input name="email" type="email" required style="width: 100%"></label>
+  <label>First name <input name="given_name" style="width: 100%"></label>
+  <label>Last name <input name="family_name" style="width: 100%"></label>
+  <label>Groups (comma separated) <input name="groups" placeholder="clinicians" style="width: 100%"></label>
+  <button type="submit">Sign in</button>
+</form>`);
+});
+
+app.post("/authorize", (req, res) => {
+  const form = req.body as Record<string, string>;
+  const email = String(form.email || "").trim().toLowerCase();
+  if (!email || !form.redirect_uri) return res.status(400).send("email and redirect_uri are required");
+
+  const code = crypto.randomBytes(24).toString("base64url");
+  codes.set(code, {
+    clientId: form.client_id,
+    redirectUri: form.redirect_uri,
+    nonce: form.nonce,
+    codeChallenge: form.code_challenge,
+    claims: {
+      sub: crypto.createHash("sha256").update(email).digest("hex").slice(0, 24),
+      email,
+      email_verified: true,
+      given_name: form.given_name || undefined,
+      family_name: form.family_name || undefined,
+      groups: String(form.groups || "")
+        .split(",")
+        .map((group) => group.trim())
+        .filter(Boolean),
+    },
+    expiresAt: Date.now() + CODE_TTL_MS,
+  });
+
+  const redirect = new URL(form.redirect_uri);
+  redirect.searchParams.set("code", code);
+  if (form.state) redirect.searchParams.set("state", form.state);
+  res.redirect(302, redirect.toString());
+});
+
+app.post("/token", (req, res) => {
+  const body = req.body as Record<string, string>;
+  const entry = codes.get(body.code);
+  codes.delete(body.code);
+
+  const basic = (req.headers.authorization || "").replace(/^Basic\s+/i, "");
+  const clientId = body.client_id || decodeURIComponent(Buffer.from(basic, "base64").toString().split(":")[0] || "");
+  const challenge = crypto.createHash("sha256").update(body.code_verifier || "").digest("base64url");
+
+  if (
+    body.grant_type !== "authorization_code" ||
+    !entry ||
+    entry.expiresAt < Date.now() ||
+    entry.clientId !== clientId ||
+    entry.redirectUri !== body.redirect_uri ||
+    entry.codeChallenge !== challenge
+  ) {
+    return res.status(400).json({ error: "invalid_grant" });
+  }
+
+  const idToken = jwt.sign({ ...entry.claims, nonce: entry.nonce }, privateKey, {
+    algorithm: "RS256",
+    keyid: kid,
+    issuer: ISSUER,
+    audience: entry.clientId,
+    expiresIn: "5m",
+  });
+  res.json({ token_type: "Bearer", id_token: idToken, access_token: crypto.randomBytes(24).toString("base64url"), expires_in: 300 });
+});
+
+app.listen(PORT, () => {
+  console.log(`Mock IdP running at ${ISSUER}`);
+});
@@ -1,6 +1,10 @@
-import React, { useState } from 'react';
+import React, { useCallback, useState } from 'react';
 import type { MedicationInfo } from './utils/ocrService';
+import type { AllergyInput } from './services/allergyService';
 import { AuthProvider } from './context/AuthContext';
+import type { IdleSignOut } from './context/AuthContext';
+import ImpersonationBanner from './components/ImpersonationBanner';
+import IdleTimeoutDialog from './components/IdleTimeoutDialog';
 
 // Auth Screens
 import LandingScreen from './screens/auth/LandingScreen';
@@ -84,6 +88,7 @@ export type Screen =
 
 export interface NavigationParams {
   role?: 'clinician' | 'agency-admin' | 'scheduler' | 'super-admin';
+  mfaMode?: 'challenge' | 'enroll';
   patientId?: string;
   chartId?: string;
   medicationId?: string;
@@ -119,6 +124,7 @@ export interface NavigationParams {
     state: string;
     zip_code: string;
     notes: string;
+    allergies?: Required<AllergyInput>[];
   }; // Added patient property
 }
 
@@ -126,6 +132,8 @@ export default function App() {
   const [currentScreen, setCurrentScreen] = useState<Screen>('Landing');
   const [params, setParams] = useState<NavigationParams>({});
   const [history, setHistory] = useState<{ screen: Screen; params: NavigationParams }[]>([]);
+  // Where an idle sign-out left someone, restored when the same user signs back in
+  const [resume, setResume] = useState<{ userId: string; screen: Screen; params: NavigationParams } | null>(null);
 
   const navigate = (screen: Screen, navigationParams: NavigationParams = {}) => {
     setHistory([...history, { screen: currentScreen, params }]);
@@ -144,6 +152,36 @@ export default function App() {
 
   const navigation = { navigate, goBack };
 
+  const returnToSuperAdmin = useCallback(() => {
+    setCurrentScreen('SuperAdminDashboard');
+    setParams({});
+    setHistory([]);
+  }, []);
+
+  const handleIdleSignOut = useCallback(
+    (signOut: IdleSignOut) => {
+      setResume({ userId: signOut.userId, screen: currentScreen, params });
+      setCurrentScreen('Landing');
+      setParams({});
+      setHistory([]);
+    },
+    [currentScreen, params]
+  );
+
+  // Runs once the login screens have navigated to the dashboard, which stays
+  // underneath the restored screen
+  const handleSignedIn = useCallback(
+    (userId: string) => {
+      if (!resume) return;
+      setResume(null);
+      if (resume.userId !== userId) return;
+      setHistory([{ screen: currentScreen, params: {} }]);
+      setCurrentScreen(resume.screen);
+      setParams(resume.params);
+    },
+    [resume, currentScreen]
+  );
+
   const renderScreen = () => {
     const screenProps = { navigation, route: { params } };
 
@@ -221,8 +259,10 @@ export default function App() {
 
   return (
     <AuthProvider>
-      <div className="h-screen w-full overflow-hidden bg-[#f8fafc]">
-        {renderScreen()}
+      <div className="h-screen w-full overflow-hidden bg-[#f8fafc] flex flex-col">
+        <ImpersonationBanner onEnded={returnToSuperAdmin} />
+        <IdleTimeoutDialog onSignedOut={handleIdleSignOut} onSignedIn={handleSignedIn} />
+        <div className="flex-1 min-h-0">{renderScreen()}</div>
       </div>
     </AuthProvider>
   );
@@ -0,0 +1,183 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { AlertTriangle, Monitor, Smartphone } from 'lucide-react';
+import { toast } from 'sonner';
+import { Badge } from './ui/badge';
+import { Button } from './ui/button';
+import { Card } from './ui/card';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from './ui/dialog';
+import {
+  fetchMySessions,
+  fetchUserSessions,
+  revokeAllUserSessions,
+  revokeMyOtherSessions,
+  revokeMySession,
+  revokeUserSession,
+} from '../services/sessionService';
+import type { LoginSession } from '../services/sessionService';
+
+interface Props {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // Another user's sessions (agency admin view); omit for the signed-in user
+  userId?: string;
+  userName?: string;
+  onSessionsChange?: (sessions: LoginSession[]) => void;
+}
+
+const isMobile = (session: LoginSession) => /iPhone|iPad|Android/.test(session.device || '');
+
+function formatLastSeen(iso: string) {
+  const minutes = Math.round((Date.now() - new Date(iso).getTime()) / 60000);
+  if (minutes < 2) return 'Active now';
+  if (minutes < 60) return `${minutes} minutes ago`;
+  const hours = Math.round(minutes / 60);
+  if (hours < 24) return `${hours} hour${hours !== 1 ? 's' : ''} ago`;
+  return new Date(iso).toLocaleDateString('en-US', { month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' });
+}
+
+export default function ActiveSessionsDialog({ open, onOpenChange, userId, userName, onSessionsChange }: Props) {
+  const [sessions, setSessions] = useState<LoginSession[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [revoking, setRevoking] = useState<string | null>(null);
+  const onSessionsChangeRef = useRef(onSessionsChange);
+  onSessionsChangeRef.current = onSessionsChange;
+
+  const load = useCallback(async () => {
+    try {
+      setLoading(true);
+      const next = userId ? await fetchUserSessions(userId) : await fetchMySessions();
+      setSessions(next);
+      onSessionsChangeRef.current?.(next);
+    } catch (error: any) {
+      console.error('Error loading sessions:', error);
+      toast.error(error.message || 'Failed to load sessions');
+    } finally {
+      setLoading(false);
+    }
+  }, [userId]);
+
+  useEffect(() => {
+    if (open) load();
+  }, [open, load]);
+
+  const handleRevoke = async (sessionId: string) => {
+    try {
+      setRevoking(sessionId);
+      if (userId) {
+        await revokeUserSession(userId, sessionId);
+      } else {
+        await revokeMySession(sessionId);
+      }
+      toast.success('Session revoked');
+      await load();
+    } catch (error: any) {
+      console.error('Error revoking session:', error);
+      toast.error(error.message || 'Failed to revoke session');
+    } finally {
+      setRevoking(null);
+    }
+  };
+
+  const handleRevokeAll = async () => {
+    try {
+      setRevoking('all');
+      const revoked = userId ? await revokeAllUserSessions(userId) : await revokeMyOtherSessions();
+      toast.success(
+        revoked.length === 0
+          ? 'No other sessions to revoke'
+          : `${revoked.length} session${revoked.length !== 1 ? 's' : ''} revoked`
+      );
+      await load();
+    } catch (error: any) {
+      console.error('Error revoking sessions:', error);
+      toast.error(error.message || 'Failed to revoke sessions');
+    } finally {
+      setRevoking(null);
+    }
+  };
+
+  const otherSessions = sessions.filter((session) => !session.current);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Active Sessions</DialogTitle>
+          <DialogDescription>
+            {userId
+              ? `Devices where ${userName || 'this user'} is signed in`
+              : "Manage devices where you're currently signed in"}
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-3 py-4 max-h-96 overflow-y-auto">
+          {loading && sessions.length === 0 ? (
+            <p className="text-sm text-[#64748b] text-center">Loading sessions…</p>
+          ) : sessions.length === 0 ? (
+            <p className="text-sm text-[#64748b] text-center">No active sessions</p>
+          ) : (
+            sessions.map((session) => {
+              const DeviceIcon = isMobile(session) ? Smartphone : Monitor;
+              return (
+                <Card key={session.session_id} className="p-4">
+                  <div className="flex items-start justify-between gap-4">
+                    <div className="flex items-start gap-3 flex-1">
+                      <div className="w-10 h-10 rounded-xl bg-[#DBEAFE] flex items-center justify-center flex-shrink-0">
+                        <DeviceIcon className="w-5 h-5 text-[#0966CC]" />
+                      </div>
+                      <div className="flex-1">
+                        <div className="flex items-center gap-2 mb-1">
+                          <p className="text-sm font-medium text-[#0f172a]">{session.device || 'Unknown device'}</p>
+                          {session.current && (
+                            <Badge variant="outline" className="border-[#10B981] text-[#10B981] text-xs h-5">
+                              Current
+                            </Badge>
+                          )}
+                        </div>
+                        {session.ip_address && <p className="text-xs text-[#64748b]">IP: {session.ip_address}</p>}
+                        <p className="text-xs text-[#64748b]">
+                          Signed in {new Date(session.created_at).toLocaleDateString()}
+                        </p>
+                        <p className="text-xs text-[#64748b]">{formatLastSeen(session.last_seen_at)}</p>
+                      </div>
+                    </div>
+                    {!session.current && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => handleRevoke(session.session_id)}
+                        disabled={revoking !== null}
+                        className="text-red-600 hover:text-red-700 hover:bg-red-50"
+                      >
+                        Revoke
+                      </Button>
+                    )}
+                  </div>
+                </Card>
+              );
+            })
+          )}
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Close
+          </Button>
+          <Button
+            variant="destructive"
+            onClick={handleRevokeAll}
+            disabled={otherSessions.length === 0 || revoking !== null}
+          >
+            <AlertTriangle className="w-4 h-4 mr-2" />
+            {userId ? 'Revoke All' : 'Revoke All Others'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,185 @@
+import React, { useEffect, useState } from 'react';
+import { ShieldAlert, ShieldCheck, AlertTriangle, OctagonAlert, CheckCircle2 } from 'lucide-react';
+import { Badge } from './ui/badge';
+import { Button } from './ui/button';
+import { Textarea } from './ui/textarea';
+import {
+  fetchAllergyConflicts,
+  overrideAllergyConflict,
+  type AllergyConflict,
+  type AllergyConflictReport,
+} from '../services/allergyService';
+
+interface Props {
+  chartId: string;
+  // Change to reload, e.g. after medications or allergies change
+  refreshKey?: string;
+  readOnly?: boolean;
+  onReportChange?: (report: AllergyConflictReport) => void;
+}
+
+const REASON_LABELS: Record<AllergyConflict['reason'], string> = {
+  same_drug: 'Same Drug',
+  same_class: 'Same Class',
+  cross_reactive: 'Cross-Reactive',
+};
+
+export default function AllergyConflictAlerts({ chartId, refreshKey, readOnly = false, onReportChange }: Props) {
+  const [report, setReport] = useState<AllergyConflictReport | null>(null);
+  const [notes, setNotes] = useState<Record<string, string>>({});
+  const [loading, setLoading] = useState(true);
+  const [overridingKey, setOverridingKey] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const applyReport = (next: AllergyConflictReport) => {
+    setReport(next);
+    onReportChange?.(next);
+  };
+
+  useEffect(() => {
+    const loadReport = async () => {
+      try {
+        setLoading(true);
+        setError(null);
+        applyReport(await fetchAllergyConflicts(chartId));
+      } catch (err: any) {
+        console.error('Error checking allergy conflicts:', err);
+        setError(err.message || 'Failed to check allergy conflicts');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadReport();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [chartId, refreshKey]);
+
+  const handleOverride = async (conflict: AllergyConflict) => {
+    const note = (notes[conflict.key] || '').trim();
+    if (!note) {
+      alert('Please explain why this medication is appropriate despite the allergy');
+      return;
+    }
+
+    try {
+      setOverridingKey(conflict.key);
+      setError(null);
+      applyReport(await overrideAllergyConflict(chartId, conflict, note));
+      setNotes((prev) => ({ ...prev, [conflict.key]: '' }));
+    } catch (err: any) {
+      console.error('Error overriding allergy conflict:', err);
+      setError(err.message || 'Failed to override allergy conflict');
+    } finally {
+      setOverridingKey(null);
+    }
+  };
+
+  if (loading && !report) {
+    return (
+      <div className="bg-white rounded-xl border border-[#e2e8f0] p-6">
+        <p className="text-sm text-[#64748b]">Checking medications against allergies...</p>
+      </div>
+    );
+  }
+
+  if (!report) {
+    return error ? (
+      <div className="bg-white rounded-xl border border-[#e2e8f0] p-6">
+        <p className="text-sm text-red-600">{error}</p>
+      </div>
+    ) : null;
+  }
+
+  return (
+    <div className="bg-white rounded-xl border border-[#e2e8f0] p-6">
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center gap-2">
+          <ShieldAlert className="w-5 h-5 text-[#64748b]" />
+          <h2 className="text-lg text-[#0f172a]">Allergy Alerts</h2>
+        </div>
+        {report.blocking > 0 ? (
+          <Badge className="bg-[#FEE2E2] text-[#DC2626] border-0">{report.blocking} blocking</Badge>
+        ) : report.warnings > 0 ? (
+          <Badge className="bg-[#FEF3C7] text-[#92400E] border-0">
+            {report.warnings} warning{report.warnings !== 1 ? 's' : ''}
+          </Badge>
+        ) : (
+          <Badge className="bg-[#D1FAE5] text-[#10B981] border-0">No conflicts</Badge>
+        )}
+      </div>
+
+      {report.conflicts.length === 0 ? (
+        <div className="flex items-center gap-2 text-sm text-[#10B981]">
+          <ShieldCheck className="w-4 h-4" />
+          <span>No medication conflicts with the patient's recorded allergies.</span>
+        </div>
+      ) : (
+        <div className="space-y-3">
+          {report.conflicts.map((c) => {
+            const blocking = c.level === 'blocking' && !c.override;
+            return (
+              <div
+                key={c.key}
+                className={`p-3 rounded-lg border ${
+                  blocking ? 'bg-[#FEF2F2] border-[#FECACA]' : 'bg-[#f8fafc] border-[#e2e8f0]'
+                }`}
+              >
+                <div className="flex items-start gap-2">
+                  {c.override ? (
+                    <CheckCircle2 className="w-4 h-4 text-[#10B981] flex-shrink-0 mt-0.5" />
+                  ) : c.level === 'blocking' ? (
+                    <OctagonAlert className="w-4 h-4 text-[#DC2626] flex-shrink-0 mt-0.5" />
+                  ) : (
+                    <AlertTriangle className="w-4 h-4 text-[#F59E0B] flex-shrink-0 mt-0.5" />
+                  )}
+                  <div className="flex-1 space-y-2">
+                    <div className="flex items-center gap-2 flex-wrap">
+                      <Badge
+                        className={
+                          c.level === 'blocking'
+                            ? 'bg-[#FEE2E2] text-[#DC2626] border-0'
+                            : 'bg-[#FEF3C7] text-[#92400E] border-0'
+                        }
+                      >
+                        {c.level === 'blocking' ? 'Blocking' : 'Warning'}
+                      </Badge>
+                      <Badge variant="outline">{REASON_LABELS[c.reason]}</Badge>
+                      <span className="text-sm text-[#0f172a]">{c.drug_name}</span>
+                    </div>
+                    <p className="text-sm text-[#64748b]">{c.message}</p>
+
+                    {c.override ? (
+                      <p className="text-xs text-[#059669]">
+                        Overridden {new Date(c.override.overridden_at).toLocaleString()}: {c.override.note}
+                      </p>
+                    ) : c.level === 'blocking' && !readOnly ? (
+                      <div className="space-y-2">
+                        <Textarea
+                          value={notes[c.key] || ''}
+                          onChange={(e) => setNotes((prev) => ({ ...prev, [c.key]: e.target.value }))}
+                          placeholder="Why is this medication appropriate? (e.g. tolerated since 2020, prescriber aware)"
+                          rows={2}
+                        />
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => handleOverride(c)}
+                          disabled={overridingKey === c.key}
+                          className="border-[#DC2626] text-[#DC2626] hover:bg-[#FEE2E2]"
+                        >
+                          {overridingKey === c.key ? 'Saving...' : 'Override'}
+                        </Button>
+                      </div>
+                    ) : null}
+                  </div>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {error && <p className="text-sm text-red-600 mt-3">{error}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,273 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { Activity, ChevronLeft, ChevronRight, Download, Search } from 'lucide-react';
+import { toast } from 'sonner';
+import { Badge } from './ui/badge';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from './ui/select';
+import { describeAuditActor, exportAuditLogs, searchAuditLogs } from '../services/auditService';
+import type { AuditLogEntry, AuditLogFilters, AuditLogPage } from '../services/auditService';
+
+interface Props {
+  // Filters the viewer cannot change, e.g. { chartId } for a chart timeline
+  scope?: AuditLogFilters;
+  // Offer an actor filter over these users
+  actors?: { id: string; name: string }[];
+  // Show which tenant each entry belongs to (super admins)
+  showTenant?: boolean;
+  pageSize?: number;
+}
+
+const ACTIONS = [
+  'created',
+  'updated',
+  'deleted',
+  'finalized',
+  'delivered',
+  'returned',
+  'exported',
+  'viewed',
+  'tenant_activated',
+  'access_denied',
+  'impersonation_started',
+  'impersonation_ended',
+  'sso_login',
+  'purged',
+  'merged',
+  'unmerged',
+];
+
+const ENTITY_TYPES = ['tenant', 'user', 'patient', 'chart', 'medication', 'document', 'export', 'legal_hold'];
+
+const ALL = 'all';
+
+const label = (value: string) => value.replace(/_/g, ' ');
+
+function summarize(entry: AuditLogEntry) {
+  const details = { ...(entry.changes || {}), ...(entry.metadata || {}) };
+  delete details.impersonation;
+  delete details.phi_access;
+  const text = Object.keys(details).length > 0 ? JSON.stringify(details) : '';
+  return text.length > 200 ? `${text.slice(0, 200)}…` : text;
+}
+
+// Searchable, paged audit log backed by GET /api/audit/logs, with CSV/JSON export
+export default function AuditLogViewer({ scope, actors, showTenant, pageSize = 25 }: Props) {
+  const [query, setQuery] = useState('');
+  const [appliedQuery, setAppliedQuery] = useState('');
+  const [action, setAction] = useState(ALL);
+  const [entityType, setEntityType] = useState(ALL);
+  const [actorId, setActorId] = useState(ALL);
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
+  const [page, setPage] = useState(1);
+  const [result, setResult] = useState<AuditLogPage | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [exporting, setExporting] = useState(false);
+
+  const scopeKey = JSON.stringify(scope || {});
+
+  // Any filter change starts over at the first page
+  const filterSetter = (setter: (value: string) => void) => (value: string) => {
+    setter(value);
+    setPage(1);
+  };
+
+  const currentFilters = useCallback((): AuditLogFilters => {
+    const filters: AuditLogFilters = { ...JSON.parse(scopeKey) };
+    if (action !== ALL) filters.actions = [action];
+    if (entityType !== ALL) filters.entityType = entityType;
+    if (actorId !== ALL) filters.userId = actorId;
+    // Date inputs are local days; `to` includes the whole day
+    if (from) filters.from = new Date(`${from}T00:00:00`).toISOString();
+    if (to) {
+      const end = new Date(`${to}T00:00:00`);
+      end.setDate(end.getDate() + 1);
+      filters.to = end.toISOString();
+    }
+    if (appliedQuery) filters.q = appliedQuery;
+    return filters;
+  }, [scopeKey, action, entityType, actorId, from, to, appliedQuery]);
+
+  const load = useCallback(async () => {
+    try {
+      setLoading(true);
+      setResult(await searchAuditLogs(currentFilters(), page, pageSize));
+    } catch (error: any) {
+      console.error('Error loading audit log:', error);
+      toast.error(error.message || 'Failed to load audit log');
+    } finally {
+      setLoading(false);
+    }
+  }, [currentFilters, page, pageSize]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const handleExport = async (format: 'csv' | 'json') => {
+    try {
+      setExporting(true);
+      await exportAuditLogs(currentFilters(), format);
+      toast.success('Audit log exported');
+    } catch (error: any) {
+      console.error('Error exporting audit log:', error);
+      toast.error(error.message || 'Failed to export audit log');
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  const logs = result?.logs || [];
+  // Exports are per tenant
+  const canExport = logs.length > 0 && !(showTenant && !scope?.tenantId);
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-col lg:flex-row gap-2">
+        <form
+          className="relative flex-1"
+          onSubmit={(event) => {
+            event.preventDefault();
+            filterSetter(setAppliedQuery)(query.trim());
+          }}
+        >
+          <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-[#94a3b8]" />
+          <Input
+            value={query}
+            onChange={(event) => setQuery(event.target.value)}
+            onBlur={() => query.trim() !== appliedQuery && filterSetter(setAppliedQuery)(query.trim())}
+            placeholder="Search entries…"
+            className="pl-9"
+          />
+        </form>
+        <Select value={action} onValueChange={filterSetter(setAction)}>
+          <SelectTrigger className="w-full lg:w-44">
+            <SelectValue placeholder="Action" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ALL}>All actions</SelectItem>
+            {ACTIONS.map((value) => (
+              <SelectItem key={value} value={value} className="capitalize">
+                {label(value)}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        {!scope?.entityType && !scope?.chartId && (
+          <Select value={entityType} onValueChange={filterSetter(setEntityType)}>
+            <SelectTrigger className="w-full lg:w-40">
+              <SelectValue placeholder="Entity" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL}>All entities</SelectItem>
+              {ENTITY_TYPES.map((value) => (
+                <SelectItem key={value} value={value} className="capitalize">
+                  {value}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
+        {actors && actors.length > 0 && (
+          <Select value={actorId} onValueChange={filterSetter(setActorId)}>
+            <SelectTrigger className="w-full lg:w-48">
+              <SelectValue placeholder="User" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL}>All users</SelectItem>
+              {actors.map((actor) => (
+                <SelectItem key={actor.id} value={actor.id}>
+                  {actor.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
+      </div>
+
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-2">
+        <div className="flex items-center gap-2 text-sm text-[#64748b]">
+          <Input type="date" value={from} onChange={(event) => filterSetter(setFrom)(event.target.value)} className="w-40" />
+          <span>to</span>
+          <Input type="date" value={to} onChange={(event) => filterSetter(setTo)(event.target.value)} className="w-40" />
+        </div>
+        <div className="flex gap-2">
+          <Button variant="outline" size="sm" onClick={() => handleExport('csv')} disabled={exporting || !canExport}>
+            <Download className="w-4 h-4 mr-2" />
+            CSV
+          </Button>
+          <Button variant="outline" size="sm" onClick={() => handleExport('json')} disabled={exporting || !canExport}>
+            <Download className="w-4 h-4 mr-2" />
+            JSON
+          </Button>
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        {loading && !result ? (
+          <p className="text-sm text-[#64748b] text-center py-8">Loading audit log…</p>
+        ) : logs.length === 0 ? (
+          <p className="text-sm text-[#64748b] text-center py-8">No audit entries found</p>
+        ) : (
+          logs.map((entry) => (
+            <div key={entry.id} className="flex items-start gap-3 p-3 bg-[#f8fafc] rounded-lg">
+              <Activity className="w-4 h-4 text-[#94a3b8] mt-1 shrink-0" />
+              <div className="flex-1 min-w-0">
+                <div className="flex items-center gap-2 flex-wrap">
+                  <span className="font-medium text-[#0f172a]">{describeAuditActor(entry)}</span>
+                  <span className="text-[#475569]">{label(entry.action)}</span>
+                  <Badge variant="outline" className="text-xs capitalize">
+                    {entry.entity_type}
+                  </Badge>
+                  {showTenant && entry.tenant?.name && (
+                    <Badge variant="outline" className="text-xs bg-blue-50">
+                      {entry.tenant.name}
+                    </Badge>
+                  )}
+                  {entry.metadata?.impersonation && (
+                    <Badge variant="outline" className="border-[#F59E0B] text-[#F59E0B] text-xs">
+                      Impersonated
+                    </Badge>
+                  )}
+                </div>
+                {summarize(entry) && <p className="text-sm text-[#64748b] mt-1 break-all">{summarize(entry)}</p>}
+                <p className="text-xs text-[#94a3b8] mt-1">
+                  {new Date(entry.created_at).toLocaleString()} · #{entry.seq}
+                  {entry.ip_address ? ` · ${entry.ip_address}` : ''}
+                </p>
+              </div>
+            </div>
+          ))
+        )}
+      </div>
+
+      {result && result.total_pages > 1 && (
+        <div className="flex items-center justify-between text-sm text-[#64748b]">
+          <span>
+            {result.total} entries · page {result.page} of {result.total_pages}
+          </span>
+          <div className="flex gap-2">
+            <Button variant="outline" size="sm" onClick={() => setPage(page - 1)} disabled={loading || page <= 1}>
+              <ChevronLeft className="w-4 h-4" />
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setPage(page + 1)}
+              disabled={loading || page >= result.total_pages}
+            >
+              <ChevronRight className="w-4 h-4" />
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
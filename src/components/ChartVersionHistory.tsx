@@ -0,0 +1,262 @@
+import React, { useEffect, useState } from 'react';
+import { History, GitCompare, Plus, Minus, Pencil } from 'lucide-react';
+import { Badge } from './ui/badge';
+import { Button } from './ui/button';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import {
+  fetchChartVersions,
+  diffChartVersions,
+  type ChartVersionSummary,
+  type ChartVersionDiff,
+  type FieldChange,
+} from '../services/chartVersionService';
+
+interface Props {
+  chartId: string;
+  // Change to reload, e.g. the chart status after a transition that may have created a version
+  refreshKey?: string;
+}
+
+const formatDateTime = (value: string) =>
+  new Date(value).toLocaleString('en-US', {
+    month: 'numeric',
+    day: 'numeric',
+    year: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+  });
+
+const formatValue = (value: any) => {
+  if (value === null || value === undefined || value === '') return '—';
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+};
+
+const formatField = (field: string) => field.replace(/_/g, ' ');
+
+const versionLabel = (v: ChartVersionSummary) =>
+  `v${v.version_number} · ${v.reason === 'delivered' ? 'Delivered' : 'Finalized'} · ${formatDateTime(v.created_at)}`;
+
+function FieldChanges({ changes }: { changes: FieldChange[] }) {
+  return (
+    <div className="space-y-1">
+      {changes.map((change) => (
+        <div key={change.field} className="grid grid-cols-3 gap-2 text-xs">
+          <span className="text-[#64748b] capitalize">{formatField(change.field)}</span>
+          <span className="text-[#DC2626] line-through break-words">{formatValue(change.before)}</span>
+          <span className="text-[#059669] break-words">{formatValue(change.after)}</span>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+export default function ChartVersionHistory({ chartId, refreshKey }: Props) {
+  const [versions, setVersions] = useState<ChartVersionSummary[]>([]);
+  const [fromId, setFromId] = useState<string>('');
+  const [toId, setToId] = useState<string>('');
+  const [diff, setDiff] = useState<ChartVersionDiff | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [comparing, setComparing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const loadVersions = async () => {
+      try {
+        setLoading(true);
+        setError(null);
+        const list = await fetchChartVersions(chartId);
+        setVersions(list);
+        // Default to comparing the two most recent versions
+        setToId(list[0]?.id || '');
+        setFromId(list[1]?.id || '');
+        setDiff(null);
+      } catch (err: any) {
+        console.error('Error loading chart versions:', err);
+        setError(err.message || 'Failed to load version history');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadVersions();
+  }, [chartId, refreshKey]);
+
+  const handleCompare = async () => {
+    if (!fromId || !toId) return;
+    try {
+      setComparing(true);
+      setError(null);
+      const result = await diffChartVersions(chartId, fromId, toId);
+      setDiff(result.diff);
+    } catch (err: any) {
+      console.error('Error comparing chart versions:', err);
+      setError(err.message || 'Failed to compare versions');
+    } finally {
+      setComparing(false);
+    }
+  };
+
+  const hasChanges =
+    diff &&
+    (diff.chart.length > 0 ||
+      diff.patient.length > 0 ||
+      diff.medications.added.length > 0 ||
+      diff.medications.removed.length > 0 ||
+      diff.medications.changed.length > 0 ||
+      diff.review_notes.added.length > 0 ||
+      diff.review_notes.removed.length > 0);
+
+  return (
+    <div className="bg-white rounded-xl border border-[#e2e8f0] p-6">
+      <div className="flex items-center gap-2 mb-4">
+        <History className="w-5 h-5 text-[#64748b]" />
+        <h2 className="text-lg text-[#0f172a]">Version History ({versions.length})</h2>
+      </div>
+
+      {loading ? (
+        <p className="text-sm text-[#64748b]">Loading versions...</p>
+      ) : versions.length === 0 ? (
+        <p className="text-sm text-[#64748b]">
+          No versions yet. A snapshot is saved each time this chart is finalized or delivered.
+        </p>
+      ) : (
+        <div className="space-y-4">
+          <div className="space-y-2">
+            {versions.map((v) => (
+              <div key={v.id} className="flex items-center justify-between p-3 bg-[#f8fafc] rounded-lg border border-[#e2e8f0]">
+                <div>
+                  <p className="text-sm text-[#0f172a]">
+                    Version {v.version_number}{' '}
+                    <Badge
+                      className={
+                        v.reason === 'delivered'
+                          ? 'bg-[#E0E7FF] text-[#4F46E5] border-[#C7D2FE]'
+                          : 'bg-[#FEF3C7] text-[#F59E0B] border-[#FDE68A]'
+                      }
+                    >
+                      {v.reason === 'delivered' ? 'Delivered' : 'Finalized'}
+                    </Badge>
+                  </p>
+                  <p className="text-xs text-[#94a3b8]">
+                    {formatDateTime(v.created_at)}
+                    {v.created_by_user && ` by ${v.created_by_user.first_name} ${v.created_by_user.last_name}`}
+                  </p>
+                </div>
+              </div>
+            ))}
+          </div>
+
+          {versions.length > 1 && (
+            <div className="space-y-3 pt-4 border-t border-[#e2e8f0]">
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                <Select value={fromId} onValueChange={(value) => { setFromId(value); setDiff(null); }}>
+                  <SelectTrigger className="w-full">
+                    <SelectValue placeholder="Compare from..." />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {versions.map((v) => (
+                      <SelectItem key={v.id} value={v.id}>{versionLabel(v)}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Select value={toId} onValueChange={(value) => { setToId(value); setDiff(null); }}>
+                  <SelectTrigger className="w-full">
+                    <SelectValue placeholder="Compare to..." />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {versions.map((v) => (
+                      <SelectItem key={v.id} value={v.id}>{versionLabel(v)}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <Button
+                variant="outline"
+                onClick={handleCompare}
+                disabled={!fromId || !toId || fromId === toId || comparing}
+                className="w-full"
+              >
+                <GitCompare className="w-4 h-4 mr-2" />
+                {comparing ? 'Comparing...' : 'Compare Versions'}
+              </Button>
+            </div>
+          )}
+
+          {diff && !hasChanges && (
+            <p className="text-sm text-[#64748b]">No differences between these versions.</p>
+          )}
+
+          {diff && hasChanges && (
+            <div className="space-y-4">
+              {diff.chart.length > 0 && (
+                <div>
+                  <h3 className="text-sm text-[#0f172a] mb-2">Chart</h3>
+                  <FieldChanges changes={diff.chart} />
+                </div>
+              )}
+
+              {diff.patient.length > 0 && (
+                <div>
+                  <h3 className="text-sm text-[#0f172a] mb-2">Patient</h3>
+                  <FieldChanges changes={diff.patient} />
+                </div>
+              )}
+
+              {(diff.medications.added.length > 0 ||
+                diff.medications.removed.length > 0 ||
+                diff.medications.changed.length > 0) && (
+                <div className="space-y-2">
+                  <h3 className="text-sm text-[#0f172a]">Medications</h3>
+                  {diff.medications.added.map((med) => (
+                    <div key={med.id} className="flex items-center gap-2 text-sm text-[#059669]">
+                      <Plus className="w-4 h-4" />
+                      {med.drug_name} {med.strength}
+                    </div>
+                  ))}
+                  {diff.medications.removed.map((med) => (
+                    <div key={med.id} className="flex items-center gap-2 text-sm text-[#DC2626]">
+                      <Minus className="w-4 h-4" />
+                      {med.drug_name} {med.strength}
+                    </div>
+                  ))}
+                  {diff.medications.changed.map((med) => (
+                    <div key={med.id} className="p-3 bg-[#f8fafc] rounded-lg border border-[#e2e8f0]">
+                      <div className="flex items-center gap-2 text-sm text-[#0f172a] mb-2">
+                        <Pencil className="w-4 h-4 text-[#F59E0B]" />
+                        {med.drug_name}
+                      </div>
+                      <FieldChanges changes={med.changes} />
+                    </div>
+                  ))}
+                </div>
+              )}
+
+              {(diff.review_notes.added.length > 0 || diff.review_notes.removed.length > 0) && (
+                <div className="space-y-2">
+                  <h3 className="text-sm text-[#0f172a]">Review Notes</h3>
+                  {diff.review_notes.added.map((note) => (
+                    <div key={note.id} className="flex items-start gap-2 text-sm text-[#059669]">
+                      <Plus className="w-4 h-4 flex-shrink-0 mt-0.5" />
+                      {note.note}
+                    </div>
+                  ))}
+                  {diff.review_notes.removed.map((note) => (
+                    <div key={note.id} className="flex items-start gap-2 text-sm text-[#DC2626]">
+                      <Minus className="w-4 h-4 flex-shrink-0 mt-0.5" />
+                      {note.note}
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          )}
+
+          {error && <p className="text-sm text-red-600">{error}</p>}
+        </div>
+      )}
+
+      {!loading && versions.length === 0 && error && <p className="text-sm text-red-600 mt-2">{error}</p>}
+    </div>
+  );
+}
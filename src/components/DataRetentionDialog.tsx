@@ -0,0 +1,422 @@
+import React, { useEffect, useState } from 'react';
+import { AlertTriangle, FileText, Gavel, RotateCcw, Users } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { Badge } from './ui/badge';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from './ui/tabs';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from './ui/dialog';
+import {
+  RETENTION_MIN_DAYS,
+  fetchDeletedRecords,
+  fetchLegalHolds,
+  fetchRetentionSettings,
+  placeLegalHold,
+  releaseLegalHold,
+  restoreChart,
+  restoreDocument,
+  saveRetentionSettings,
+} from '../services/retentionService';
+import type {
+  DeletedChart,
+  DeletedDocument,
+  LegalHold,
+  RetentionEntityType,
+  RetentionSettings,
+} from '../services/retentionService';
+import { fetchTenantPatients } from '../services/patientService';
+
+interface Props {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  tenantId: string;
+  onSaved?: (settings: RetentionSettings) => void;
+}
+
+const FOREVER = 'forever';
+const TENANT_WIDE = 'tenant';
+
+const GRACE_OPTIONS = [7, 14, 30, 60, 90, 180, 365];
+
+const POLICY_OPTIONS: Record<RetentionEntityType, number[]> = {
+  archived_chart: [365, 730, 1825, 2555, 3650],
+  notification: [7, 30, 90, 180, 365],
+  audit_log: [2190, 2555, 3650],
+};
+
+const POLICY_LABELS: Record<RetentionEntityType, { title: string; description: string }> = {
+  archived_chart: {
+    title: 'Archived charts',
+    description: 'Deleted this long after archiving, then purged after the grace period',
+  },
+  notification: { title: 'Notifications', description: 'Removed this long after they were sent' },
+  audit_log: { title: 'Audit log', description: 'Oldest entries removed first; at least six years' },
+};
+
+export function formatRetentionDays(days: number) {
+  if (days >= 365 && days % 365 === 0) {
+    const years = days / 365;
+    return `${years} year${years === 1 ? '' : 's'}`;
+  }
+  return `${days} day${days === 1 ? '' : 's'}`;
+}
+
+const formatDate = (value: string) => new Date(value).toLocaleDateString();
+
+export default function DataRetentionDialog({ open, onOpenChange, tenantId, onSaved }: Props) {
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [graceDays, setGraceDays] = useState(30);
+  const [policies, setPolicies] = useState<RetentionSettings['policies']>({
+    archived_chart: null,
+    notification: null,
+    audit_log: null,
+  });
+
+  const [holds, setHolds] = useState<LegalHold[]>([]);
+  const [patients, setPatients] = useState<{ id: string; first_name: string; last_name: string }[]>([]);
+  const [holdTarget, setHoldTarget] = useState(TENANT_WIDE);
+  const [holdReason, setHoldReason] = useState('');
+  const [placingHold, setPlacingHold] = useState(false);
+
+  const [deletedCharts, setDeletedCharts] = useState<DeletedChart[]>([]);
+  const [deletedDocuments, setDeletedDocuments] = useState<DeletedDocument[]>([]);
+  const [restoringId, setRestoringId] = useState<string | null>(null);
+
+  const loadDeleted = () =>
+    fetchDeletedRecords(tenantId).then((deleted) => {
+      setDeletedCharts(deleted.charts);
+      setDeletedDocuments(deleted.documents);
+    });
+
+  useEffect(() => {
+    if (!open) return;
+    setLoading(true);
+    Promise.all([
+      fetchRetentionSettings(tenantId).then((settings) => {
+        setGraceDays(settings.grace_days);
+        setPolicies(settings.policies);
+      }),
+      fetchLegalHolds(tenantId).then(setHolds),
+      loadDeleted(),
+    ])
+      .catch((error: any) => {
+        console.error('Error loading retention settings:', error);
+        toast.error(error.message || 'Failed to load retention settings');
+      })
+      .finally(() => setLoading(false));
+
+    fetchTenantPatients(tenantId)
+      .then(setPatients)
+      .catch((error) => console.error('Error loading patients:', error));
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [open, tenantId]);
+
+  const handleSave = async () => {
+    try {
+      setSaving(true);
+      const saved = await saveRetentionSettings(tenantId, { grace_days: graceDays, policies });
+      onSaved?.(saved);
+      toast.success('Retention settings saved');
+      onOpenChange(false);
+    } catch (error: any) {
+      console.error('Error saving retention settings:', error);
+      toast.error(error.message || 'Failed to save retention settings');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handlePlaceHold = async () => {
+    if (!holdReason.trim()) {
+      toast.error('Enter the reason for the hold');
+      return;
+    }
+    try {
+      setPlacingHold(true);
+      const hold = await placeLegalHold(
+        tenantId,
+        holdTarget === TENANT_WIDE ? { scope: 'tenant' } : { scope: 'patient', patient_id: holdTarget },
+        holdReason.trim()
+      );
+      setHolds((prev) => [hold, ...prev]);
+      setHoldReason('');
+      setHoldTarget(TENANT_WIDE);
+      toast.success('Legal hold placed');
+      void loadDeleted();
+    } catch (error: any) {
+      console.error('Error placing legal hold:', error);
+      toast.error(error.message || 'Failed to place legal hold');
+    } finally {
+      setPlacingHold(false);
+    }
+  };
+
+  const handleReleaseHold = async (hold: LegalHold) => {
+    try {
+      await releaseLegalHold(tenantId, hold.id);
+      setHolds((prev) => prev.filter((h) => h.id !== hold.id));
+      toast.success('Legal hold released');
+      void loadDeleted();
+    } catch (error: any) {
+      console.error('Error releasing legal hold:', error);
+      toast.error(error.message || 'Failed to release legal hold');
+    }
+  };
+
+  const handleRestore = async (kind: 'chart' | 'document', id: string) => {
+    try {
+      setRestoringId(id);
+      await (kind === 'chart' ? restoreChart(id) : restoreDocument(id));
+      toast.success(kind === 'chart' ? 'Chart restored' : 'Document restored');
+      await loadDeleted();
+    } catch (error: any) {
+      console.error(`Error restoring ${kind}:`, error);
+      toast.error(error.message || `Failed to restore ${kind}`);
+    } finally {
+      setRestoringId(null);
+    }
+  };
+
+  const holdLabel = (hold: LegalHold) =>
+    hold.scope === 'tenant'
+      ? 'All agency records'
+      : hold.patient
+        ? `${hold.patient.first_name} ${hold.patient.last_name}`
+        : 'Patient';
+
+  const purgeNote = (record: { purge_at: string; held: boolean }) =>
+    record.held ? 'On legal hold' : `Purged after ${formatDate(record.purge_at)}`;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[600px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Data Retention</DialogTitle>
+          <DialogDescription>
+            Choose how long records are kept. Deleted charts and documents can be restored until the grace period
+            ends; after that they are purged for good. Legal holds stop both.
+          </DialogDescription>
+        </DialogHeader>
+
+        {loading ? (
+          <p className="text-sm text-[#64748b] py-6 text-center">Loading…</p>
+        ) : (
+          <Tabs defaultValue="policies">
+            <TabsList className="grid w-full grid-cols-3">
+              <TabsTrigger value="policies">Policies</TabsTrigger>
+              <TabsTrigger value="holds">Legal holds{holds.length > 0 ? ` (${holds.length})` : ''}</TabsTrigger>
+              <TabsTrigger value="deleted">Recently deleted</TabsTrigger>
+            </TabsList>
+
+            <TabsContent value="policies" className="space-y-4 pt-2">
+              <div className="flex items-center justify-between gap-4">
+                <div>
+                  <Label>Grace period</Label>
+                  <p className="text-xs text-[#64748b] mt-1">How long deleted charts and documents stay restorable</p>
+                </div>
+                <Select value={String(graceDays)} onValueChange={(value) => setGraceDays(Number(value))}>
+                  <SelectTrigger className="w-36 flex-shrink-0">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {[...new Set([...GRACE_OPTIONS, graceDays])]
+                      .sort((a, b) => a - b)
+                      .map((days) => (
+                        <SelectItem key={days} value={String(days)}>
+                          {formatRetentionDays(days)}
+                        </SelectItem>
+                      ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              {(Object.keys(POLICY_LABELS) as RetentionEntityType[]).map((type) => {
+                const current = policies[type];
+                const options = [...new Set([...POLICY_OPTIONS[type], ...(current ? [current] : [])])]
+                  .filter((days) => days >= RETENTION_MIN_DAYS[type])
+                  .sort((a, b) => a - b);
+                return (
+                  <div key={type} className="flex items-center justify-between gap-4">
+                    <div>
+                      <Label>{POLICY_LABELS[type].title}</Label>
+                      <p className="text-xs text-[#64748b] mt-1">{POLICY_LABELS[type].description}</p>
+                    </div>
+                    <Select
+                      value={current === null ? FOREVER : String(current)}
+                      onValueChange={(value) =>
+                        setPolicies((prev) => ({ ...prev, [type]: value === FOREVER ? null : Number(value) }))
+                      }
+                    >
+                      <SelectTrigger className="w-36 flex-shrink-0">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={FOREVER}>Keep forever</SelectItem>
+                        {options.map((days) => (
+                          <SelectItem key={days} value={String(days)}>
+                            {formatRetentionDays(days)}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                );
+              })}
+
+              {holds.some((hold) => hold.scope === 'tenant') && (
+                <div className="flex gap-2 bg-[#FEF3C7] border border-[#FDE68A] rounded-xl p-3 text-xs text-[#92400E]">
+                  <AlertTriangle className="w-4 h-4 flex-shrink-0" />
+                  An agency-wide legal hold is active. Nothing is deleted or purged until it is released.
+                </div>
+              )}
+            </TabsContent>
+
+            <TabsContent value="holds" className="space-y-4 pt-2">
+              <div className="space-y-2">
+                <Label>Place a hold on</Label>
+                <Select value={holdTarget} onValueChange={setHoldTarget}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={TENANT_WIDE}>All agency records</SelectItem>
+                    {patients.map((patient) => (
+                      <SelectItem key={patient.id} value={patient.id}>
+                        {patient.last_name}, {patient.first_name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Input
+                  value={holdReason}
+                  onChange={(e) => setHoldReason(e.target.value)}
+                  placeholder="Reason, e.g. litigation or audit reference"
+                  maxLength={500}
+                />
+                <Button
+                  onClick={handlePlaceHold}
+                  disabled={placingHold}
+                  className="w-full bg-[#0966CC] hover:bg-[#075592] text-white"
+                >
+                  <Gavel className="w-4 h-4 mr-2" />
+                  {placingHold ? 'Placing...' : 'Place legal hold'}
+                </Button>
+              </div>
+
+              {holds.length === 0 ? (
+                <p className="text-sm text-[#64748b] text-center py-4">No active legal holds</p>
+              ) : (
+                <div className="space-y-2">
+                  {holds.map((hold) => (
+                    <div
+                      key={hold.id}
+                      className="flex items-center justify-between gap-3 border border-[#e2e8f0] rounded-xl p-3"
+                    >
+                      <div className="min-w-0">
+                        <div className="flex items-center gap-2">
+                          {hold.scope === 'tenant' && <Users className="w-4 h-4 text-[#64748b]" />}
+                          <p className="text-sm text-[#0f172a] truncate">{holdLabel(hold)}</p>
+                        </div>
+                        <p className="text-xs text-[#64748b] truncate">
+                          {hold.reason} · since {formatDate(hold.created_at)}
+                        </p>
+                      </div>
+                      <Button variant="outline" size="sm" onClick={() => handleReleaseHold(hold)}>
+                        Release
+                      </Button>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </TabsContent>
+
+            <TabsContent value="deleted" className="space-y-2 pt-2">
+              {deletedCharts.length === 0 && deletedDocuments.length === 0 ? (
+                <p className="text-sm text-[#64748b] text-center py-4">Nothing waiting to be purged</p>
+              ) : (
+                <>
+                  {deletedCharts.map((chart) => (
+                    <div
+                      key={chart.id}
+                      className="flex items-center justify-between gap-3 border border-[#e2e8f0] rounded-xl p-3"
+                    >
+                      <div className="min-w-0">
+                        <div className="flex items-center gap-2">
+                          <p className="text-sm text-[#0f172a] truncate">
+                            Chart —{' '}
+                            {chart.patient ? `${chart.patient.first_name} ${chart.patient.last_name}` : 'Unknown patient'}
+                          </p>
+                          <Badge variant="outline" className="text-xs h-5 capitalize">
+                            {chart.status.replace(/_/g, ' ')}
+                          </Badge>
+                        </div>
+                        <p className="text-xs text-[#64748b]">
+                          Deleted {formatDate(chart.deleted_at)} · {purgeNote(chart)}
+                        </p>
+                      </div>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => handleRestore('chart', chart.id)}
+                        disabled={restoringId === chart.id}
+                        className="text-[#0966CC]"
+                      >
+                        <RotateCcw className="w-4 h-4 mr-1" />
+                        Restore
+                      </Button>
+                    </div>
+                  ))}
+                  {deletedDocuments.map((document) => (
+                    <div
+                      key={document.id}
+                      className="flex items-center justify-between gap-3 border border-[#e2e8f0] rounded-xl p-3"
+                    >
+                      <div className="min-w-0">
+                        <div className="flex items-center gap-2">
+                          <FileText className="w-4 h-4 text-[#64748b] flex-shrink-0" />
+                          <p className="text-sm text-[#0f172a] truncate">{document.file_name}</p>
+                        </div>
+                        <p className="text-xs text-[#64748b]">
+                          Deleted {formatDate(document.deleted_at)} · {purgeNote(document)}
+                        </p>
+                      </div>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => handleRestore('document', document.id)}
+                        disabled={restoringId === document.id}
+                        className="text-[#0966CC]"
+                      >
+                        <RotateCcw className="w-4 h-4 mr-1" />
+                        Restore
+                      </Button>
+                    </div>
+                  ))}
+                </>
+              )}
+            </TabsContent>
+          </Tabs>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={saving || loading} className="bg-[#0966CC] hover:bg-[#075592] text-white">
+            {saving ? 'Saving...' : 'Save'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,87 @@
+import React, { useEffect, useRef, useState } from 'react';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from './ui/alert-dialog';
+import { useAuth } from '../context/AuthContext';
+import type { IdleSignOut } from '../context/AuthContext';
+
+interface Props {
+  // The idle timer ended the session; PHI cached on the device is already gone
+  onSignedOut: (signOut: IdleSignOut) => void;
+  // Someone authenticated (again), so the app can return them to where they were
+  onSignedIn: (userId: string) => void;
+}
+
+function formatRemaining(ms: number) {
+  const totalSeconds = Math.max(Math.ceil(ms / 1000), 0);
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes}:${String(seconds).padStart(2, '0')}`;
+}
+
+// Warns before the idle timeout in AuthContext signs the user out
+export default function IdleTimeoutDialog({ onSignedOut, onSignedIn }: Props) {
+  const { user, isAuthenticated, idleWarningUntil, staySignedIn, signOutIdle, idleSignOut } = useAuth();
+  const [now, setNow] = useState(Date.now());
+  const [signingOut, setSigningOut] = useState(false);
+  const handled = useRef<IdleSignOut | null>(null);
+
+  useEffect(() => {
+    if (!idleWarningUntil) return;
+    setNow(Date.now());
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [idleWarningUntil]);
+
+  useEffect(() => {
+    if (idleSignOut && handled.current !== idleSignOut) {
+      handled.current = idleSignOut;
+      setSigningOut(false);
+      onSignedOut(idleSignOut);
+    }
+  }, [idleSignOut, onSignedOut]);
+
+  const userId = isAuthenticated ? user?.id : undefined;
+  useEffect(() => {
+    if (userId) onSignedIn(userId);
+  }, [userId, onSignedIn]);
+
+  const handleSignOut = async () => {
+    setSigningOut(true);
+    await signOutIdle();
+  };
+
+  return (
+    <AlertDialog open={!!idleWarningUntil && isAuthenticated}>
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle>Are you still there?</AlertDialogTitle>
+          <AlertDialogDescription>
+            For patient privacy you will be signed out in{' '}
+            <strong className="text-[#0f172a]">{formatRemaining((idleWarningUntil || now) - now)}</strong>. Charts
+            saved on this device for offline use will be removed.
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+        <AlertDialogFooter>
+          <AlertDialogCancel className="h-12 rounded-xl" onClick={handleSignOut} disabled={signingOut}>
+            {signingOut ? 'Signing out…' : 'Sign out'}
+          </AlertDialogCancel>
+          <AlertDialogAction
+            className="h-12 rounded-xl bg-[#0966CC] hover:bg-[#0C4A6E]"
+            onClick={staySignedIn}
+            disabled={signingOut}
+          >
+            Stay signed in
+          </AlertDialogAction>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+}
@@ -0,0 +1,80 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Eye, ShieldAlert } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from './ui/button';
+import { useAuth } from '../context/AuthContext';
+
+interface Props {
+  // Called once the session is over, whether ended here or by expiry
+  onEnded: () => void;
+}
+
+function formatRemaining(ms: number) {
+  const totalSeconds = Math.max(Math.floor(ms / 1000), 0);
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes}:${String(seconds).padStart(2, '0')}`;
+}
+
+// Shown above every screen for as long as a super admin is impersonating a tenant
+export default function ImpersonationBanner({ onEnded }: Props) {
+  const { impersonation, endImpersonation } = useAuth();
+  const [now, setNow] = useState(Date.now());
+  const [ending, setEnding] = useState(false);
+  const wasActive = useRef(false);
+
+  useEffect(() => {
+    if (!impersonation) return;
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [impersonation]);
+
+  useEffect(() => {
+    if (impersonation) {
+      wasActive.current = true;
+    } else if (wasActive.current) {
+      wasActive.current = false;
+      toast.info('Impersonation session ended');
+      onEnded();
+    }
+  }, [impersonation, onEnded]);
+
+  if (!impersonation) return null;
+
+  const handleEnd = async () => {
+    setEnding(true);
+    await endImpersonation();
+    setEnding(false);
+  };
+
+  const readOnly = impersonation.mode === 'read_only';
+
+  return (
+    <div className="flex items-center justify-between gap-3 px-4 py-2 bg-[#B45309] text-white text-sm">
+      <div className="flex items-center gap-2 min-w-0">
+        <ShieldAlert className="w-4 h-4 flex-shrink-0" />
+        <span className="truncate">
+          Impersonating <strong>{impersonation.tenant_name}</strong>
+          {readOnly && (
+            <span className="inline-flex items-center gap-1 ml-2 px-2 py-0.5 rounded bg-white/20 text-xs">
+              <Eye className="w-3 h-3" />
+              Read-only
+            </span>
+          )}
+          <span className="ml-2 opacity-80">
+            · ends in {formatRemaining(new Date(impersonation.expires_at).getTime() - now)}
+          </span>
+        </span>
+      </div>
+      <Button
+        size="sm"
+        variant="outline"
+        onClick={handleEnd}
+        disabled={ending}
+        className="h-7 bg-transparent border-white text-white hover:bg-white/20 hover:text-white flex-shrink-0"
+      >
+        End Session
+      </Button>
+    </div>
+  );
+}
@@ -7,21 +7,11 @@ import {
   BarcodeFormat
 } from '@zxing/library';
 import { Camera, Upload, X, AlertCircle, Check } from 'lucide-react';
-import { lookupProductByUPC } from '../utils/ocrService';
+import { lookupMedicationByNDC, lookupProductByUPC } from '../utils/ocrService';
+import type { FDAMedicationData } from '../utils/ocrService';
 import { logInfo } from '../lib/logger';
 import { Button } from './ui/button';
 
-interface FDAMedicationData {
-  brand_name?: string;
-  generic_name?: string;
-  dosage_form?: string;
-  route?: string[];
-  active_ingredients?: Array<{
-    name: string;
-    strength: string;
-  }>;
-}
-
 export interface ScannedMedication {
   name: string;
   dosage: string;
@@ -272,7 +262,7 @@ export default function MedicationBarcodeScanner({
                 '✗ No FDA medication found and barcode is not retail format (UPC/EAN).'
               );
               setError(
-                'Medication not found in FDA database. This may be a non-NDC barcode.'
+                'Medication not found in the drug reference. This may be a non-NDC barcode.'
               );
             }
 
@@ -303,141 +293,25 @@ export default function MedicationBarcodeScanner({
     }
   };
 
-  const convertToNDCFormat = (code: string): string[] => {
-    const digits = code.replace(/\D/g, '');
-
-    addDebugLog(`Converting barcode to NDC format...`);
-    addDebugLog(`Original: "${code}"`);
-    addDebugLog(`Digits only: "${digits}" (${digits.length} digits)`);
-
-    const formats: string[] = [];
-
-    if (code.includes('-')) {
-      const segments = code.split('-');
-      if (segments.length >= 2) {
-        formats.push(`${segments[0]}-${segments[1]}`);
-      }
-    }
-
-    if (digits.length === 12) {
-      const ndc11 = digits.slice(1, 12);
-      const ndc10 = digits.slice(1, 11);
-      addDebugLog(`12-digit UPC-A detected, extracted NDC: ${ndc11}`);
-
-      formats.push(`${ndc11.slice(0, 4)}-${ndc11.slice(4, 8)}`);
-      formats.push(`${ndc11.slice(0, 5)}-${ndc11.slice(5, 8)}`);
-      formats.push(`${ndc11.slice(0, 5)}-${ndc11.slice(5, 9)}`);
-
-      formats.push(`${ndc10.slice(0, 4)}-${ndc10.slice(4, 8)}`);
-      formats.push(`${ndc10.slice(0, 5)}-${ndc10.slice(5, 8)}`);
-      formats.push(`${ndc10.slice(0, 5)}-${ndc10.slice(5, 9)}`);
-
-      formats.push(`0${ndc10.slice(0, 4)}-${ndc10.slice(4, 8)}`);
-      formats.push(`0${ndc10.slice(0, 3)}-${ndc10.slice(3, 7)}`);
-    }
-
-    if (digits.length === 11) {
-      addDebugLog(`11-digit code detected`);
-      formats.push(`${digits.slice(0, 4)}-${digits.slice(4, 8)}`);
-      formats.push(`${digits.slice(0, 5)}-${digits.slice(5, 8)}`);
-      formats.push(`${digits.slice(0, 5)}-${digits.slice(5, 9)}`);
-
-      const d10 = digits.slice(0, 10);
-      formats.push(`${d10.slice(0, 4)}-${d10.slice(4, 8)}`);
-      formats.push(`${d10.slice(0, 5)}-${d10.slice(5, 8)}`);
-    }
-
-    if (digits.length === 10) {
-      const padded = '0' + digits;
-      addDebugLog(`10-digit code, padding to: ${padded}`);
-      formats.push(`${padded.slice(0, 4)}-${padded.slice(4, 8)}`);
-      formats.push(`${padded.slice(0, 5)}-${padded.slice(5, 8)}`);
-      formats.push(`${padded.slice(0, 5)}-${padded.slice(5, 9)}`);
-      formats.push(`${digits.slice(0, 4)}-${digits.slice(4, 8)}`);
-      formats.push(`${digits.slice(0, 5)}-${digits.slice(5, 8)}`);
-    }
-
-    if (digits.length === 8) {
-      formats.push(`${digits.slice(0, 4)}-${digits.slice(4, 8)}`);
-    }
-    if (digits.length === 9) {
-      formats.push(`${digits.slice(0, 5)}-${digits.slice(5, 9)}`);
-    }
-
-    const noLeadingZeros = digits.replace(/^0+/, '');
-    if (noLeadingZeros.length >= 8) {
-      formats.push(
-        `${noLeadingZeros.slice(0, 4)}-${noLeadingZeros.slice(4, 8)}`
-      );
-      formats.push(
-        `${noLeadingZeros.slice(0, 5)}-${noLeadingZeros.slice(5, 8)}`
-      );
-    }
-
-    const uniqueFormats = [...new Set(formats)];
-    addDebugLog(
-      `Generated ${uniqueFormats.length} NDC format(s): ${uniqueFormats.join(
-        ', '
-      )}`
-    );
-
-    return uniqueFormats;
-  };
-
   const lookupMedication = async (code: string) => {
-    const possibleFormats = convertToNDCFormat(code);
-
-    addDebugLog(
-      `Starting FDA API lookup with ${possibleFormats.length} format(s)...`
-    );
-
-    for (let i = 0; i < possibleFormats.length; i++) {
-      const format = possibleFormats[i];
-      try {
-        addDebugLog(`[${i + 1}/${possibleFormats.length}] Trying: ${format}`);
-        const url = `https://api.fda.gov/drug/ndc.json?search=product_ndc:"${format}"&limit=1`;
-        addDebugLog(`API URL: ${url}`);
-
-        const response = await fetch(url);
+    addDebugLog(`Looking up "${code}" in the drug reference...`);
 
+    try {
+      const result = await lookupMedicationByNDC(code);
+      if (result) {
         addDebugLog(
-          `Response status: ${response.status} ${response.statusText}`
+          `✓ SUCCESS! Found medication: ${result.brand_name || result.generic_name} (NDC ${result.product_ndc})`
         );
-
-        if (response.ok) {
-          const data = await response.json();
-          addDebugLog(
-            `Response data: ${JSON.stringify(data).substring(0, 200)}...`
-          );
-
-          if (data.results && data.results.length > 0) {
-            addDebugLog(
-              `✓ SUCCESS! Found medication: ${
-                data.results[0].brand_name || data.results[0].generic_name
-              }`
-            );
-            setMedication(data.results[0]);
-            return data.results[0];
-          } else {
-            addDebugLog('✗ No results in response');
-          }
-        } else {
-          const errorText = await response.text();
-          addDebugLog(
-            `✗ API error: ${errorText.substring(0, 100)}`
-          );
-        }
-      } catch (err: any) {
-        addDebugLog(`✗ Request failed: ${err.message}`);
-        continue;
+        setMedication(result);
+        return result;
       }
+      addDebugLog('✗ No match in the drug reference');
+    } catch (err: any) {
+      addDebugLog(`✗ Drug reference lookup failed: ${err.message || err}`);
     }
 
-    addDebugLog(
-      '✗✗✗ ALL FORMATS FAILED - Medication not found in FDA database'
-    );
     setError(
-      'Medication not found in FDA database. This may not be an NDC barcode or the medication is not registered.'
+      'Medication not found in the drug reference. This may not be an NDC barcode or the medication is not registered.'
     );
     return null;
   };
@@ -769,7 +643,7 @@ export default function MedicationBarcodeScanner({
                     <div className="bg-amber-50 border border-amber-200 rounded-xl p-4">
                       <p className="text-xs text-amber-800">
                         <strong className="font-semibold">Note:</strong> This
-                        information is retrieved from the FDA database for
+                        information is taken from the FDA NDC directory for
                         reference. Please verify all details and complete
                         dosage and frequency information.
                       </p>
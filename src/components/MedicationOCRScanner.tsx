@@ -39,20 +39,27 @@ export default function MedicationOCRScanner({ onMedicationsScanned, onCancel, m
 
       // Define fields and colors
       const fieldsToHighlight = [
-        { field: 'Medication Name', text: med.name, color: '#0966CC' },
-        { field: 'Dosage', text: med.dosage, color: '#10B981' },
-        { field: 'Frequency', text: med.frequency, color: '#F59E0B' },
-        { field: 'Route', text: med.route, color: '#8B5CF6' },
-        { field: 'Quantity', text: med.quantity?.toString(), color: '#EC4899' },
-        { field: 'Instructions', text: med.instructions, color: '#F97316' },
-        { field: 'Prescriber', text: med.prescriber, color: '#06B6D4' },
-      ];
-
-      fieldsToHighlight.forEach(({ field, text, color }) => {
+        { field: 'Medication Name', key: 'name', text: med.name, color: '#0966CC' },
+        { field: 'Dosage', key: 'dosage', text: med.dosage, color: '#10B981' },
+        { field: 'Frequency', key: 'frequency', text: med.frequency, color: '#F59E0B' },
+        { field: 'Route', key: 'route', text: med.route, color: '#8B5CF6' },
+        { field: 'Quantity', key: 'quantity', text: med.quantity?.toString(), color: '#EC4899' },
+        { field: 'Instructions', key: null, text: med.instructions, color: '#F97316' },
+        { field: 'Prescriber', key: 'prescriber', text: med.prescriber, color: '#06B6D4' },
+      ] as const;
+
+      fieldsToHighlight.forEach(({ field, key, text, color }) => {
         if (text) {
           // Add to legend
           newAnnotations.push({ searchText: text, color, field });
-          
+
+          // Prefer the exact words the extractor read the value from
+          const sourceWords = key ? med.fields?.[key]?.words : undefined;
+          if (sourceWords && sourceWords.length > 0) {
+            sourceWords.forEach((word) => newBoxes.push({ bbox: word.bbox, color }));
+            return;
+          }
+
           // Find matching words
           const cleanSearchText = text.toLowerCase().replace(/[^a-z0-9]/g, '');
 
@@ -0,0 +1,175 @@
+import React, { useEffect, useState } from 'react';
+import { ClipboardCheck, CheckCircle2, AlertTriangle } from 'lucide-react';
+import { Badge } from './ui/badge';
+import { Button } from './ui/button';
+import { Textarea } from './ui/textarea';
+import {
+  fetchReconciliationReport,
+  resolveDiscrepancy,
+  type MedicationDiscrepancy,
+  type MedicationSource,
+  type ReconciliationReport,
+} from '../services/medicationReconciliationService';
+
+interface Props {
+  chartId: string;
+  // Change to reload, e.g. after medications are added, edited or removed
+  refreshKey?: string;
+  readOnly?: boolean;
+  onReportChange?: (report: ReconciliationReport) => void;
+}
+
+const TYPE_LABELS: Record<MedicationDiscrepancy['type'], string> = {
+  duplicate: 'Duplicate',
+  missing: 'Missing',
+  dose_mismatch: 'Dose Mismatch',
+  route_mismatch: 'Route Mismatch',
+};
+
+const SOURCE_LABELS: Record<MedicationSource, string> = {
+  bottle_scan: 'Bottle Scan',
+  pdf_import: 'PDF Import',
+  manual: 'Manual Entry',
+};
+
+export default function MedicationReconciliationReport({ chartId, refreshKey, readOnly = false, onReportChange }: Props) {
+  const [report, setReport] = useState<ReconciliationReport | null>(null);
+  const [notes, setNotes] = useState<Record<string, string>>({});
+  const [loading, setLoading] = useState(true);
+  const [resolvingKey, setResolvingKey] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const applyReport = (next: ReconciliationReport) => {
+    setReport(next);
+    onReportChange?.(next);
+  };
+
+  useEffect(() => {
+    const loadReport = async () => {
+      try {
+        setLoading(true);
+        setError(null);
+        applyReport(await fetchReconciliationReport(chartId));
+      } catch (err: any) {
+        console.error('Error loading reconciliation report:', err);
+        setError(err.message || 'Failed to load reconciliation report');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadReport();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [chartId, refreshKey]);
+
+  const handleResolve = async (discrepancy: MedicationDiscrepancy) => {
+    const note = (notes[discrepancy.key] || '').trim();
+    if (!note) {
+      alert('Please explain how this discrepancy was resolved');
+      return;
+    }
+
+    try {
+      setResolvingKey(discrepancy.key);
+      setError(null);
+      applyReport(await resolveDiscrepancy(chartId, discrepancy, note));
+      setNotes((prev) => ({ ...prev, [discrepancy.key]: '' }));
+    } catch (err: any) {
+      console.error('Error resolving discrepancy:', err);
+      setError(err.message || 'Failed to resolve discrepancy');
+    } finally {
+      setResolvingKey(null);
+    }
+  };
+
+  if (loading && !report) {
+    return (
+      <div className="bg-white rounded-xl border border-[#e2e8f0] p-6">
+        <p className="text-sm text-[#64748b]">Reconciling medications...</p>
+      </div>
+    );
+  }
+
+  if (!report) {
+    return error ? (
+      <div className="bg-white rounded-xl border border-[#e2e8f0] p-6">
+        <p className="text-sm text-red-600">{error}</p>
+      </div>
+    ) : null;
+  }
+
+  return (
+    <div className="bg-white rounded-xl border border-[#e2e8f0] p-6">
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center gap-2">
+          <ClipboardCheck className="w-5 h-5 text-[#64748b]" />
+          <h2 className="text-lg text-[#0f172a]">Medication Reconciliation</h2>
+        </div>
+        {report.unresolved > 0 ? (
+          <Badge className="bg-[#FEF3C7] text-[#92400E] border-0">{report.unresolved} to resolve</Badge>
+        ) : (
+          <Badge className="bg-[#D1FAE5] text-[#10B981] border-0">Reconciled</Badge>
+        )}
+      </div>
+
+      {report.sources.length > 0 && (
+        <p className="text-xs text-[#94a3b8] mb-4">
+          Sources: {report.sources.map((s) => SOURCE_LABELS[s]).join(', ')}
+        </p>
+      )}
+
+      {report.discrepancies.length === 0 ? (
+        <div className="flex items-center gap-2 text-sm text-[#10B981]">
+          <CheckCircle2 className="w-4 h-4" />
+          <span>No duplicates, missing items or dose mismatches found.</span>
+        </div>
+      ) : (
+        <div className="space-y-3">
+          {report.discrepancies.map((d) => (
+            <div key={d.key} className="p-3 bg-[#f8fafc] rounded-lg border border-[#e2e8f0]">
+              <div className="flex items-start gap-2">
+                {d.resolution ? (
+                  <CheckCircle2 className="w-4 h-4 text-[#10B981] flex-shrink-0 mt-0.5" />
+                ) : (
+                  <AlertTriangle className="w-4 h-4 text-[#F59E0B] flex-shrink-0 mt-0.5" />
+                )}
+                <div className="flex-1 space-y-2">
+                  <div className="flex items-center gap-2">
+                    <Badge variant="outline">{TYPE_LABELS[d.type]}</Badge>
+                    <span className="text-sm text-[#0f172a]">{d.drug_name}</span>
+                  </div>
+                  <p className="text-sm text-[#64748b]">{d.message}</p>
+
+                  {d.resolution ? (
+                    <p className="text-xs text-[#059669]">
+                      Resolved {new Date(d.resolution.resolved_at).toLocaleString()}: {d.resolution.note}
+                    </p>
+                  ) : !readOnly ? (
+                    <div className="space-y-2">
+                      <Textarea
+                        value={notes[d.key] || ''}
+                        onChange={(e) => setNotes((prev) => ({ ...prev, [d.key]: e.target.value }))}
+                        placeholder="How was this resolved? (e.g. duplicate removed, patient confirmed new dose)"
+                        rows={2}
+                      />
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => handleResolve(d)}
+                        disabled={resolvingKey === d.key}
+                      >
+                        {resolvingKey === d.key ? 'Saving...' : 'Mark Resolved'}
+                      </Button>
+                    </div>
+                  ) : null}
+                </div>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {error && <p className="text-sm text-red-600 mt-3">{error}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,141 @@
+import React, { useEffect, useState } from 'react';
+import { Copy, KeyRound } from 'lucide-react';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { confirmMfaEnrollment, startMfaEnrollment } from '../services/mfaService';
+import type { MfaEnrollment as Enrollment } from '../services/mfaService';
+
+interface Props {
+  // Called after the user has seen their recovery codes
+  onComplete: () => void;
+  onCancel?: () => void;
+}
+
+export function RecoveryCodeList({ codes }: { codes: string[] }) {
+  const copy = async () => {
+    try {
+      await navigator.clipboard.writeText(codes.join('\n'));
+    } catch {
+      // Clipboard unavailable (insecure context); codes stay on screen
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="grid grid-cols-2 gap-2 rounded-xl bg-[#f8fafc] border border-[#e2e8f0] p-4 font-mono text-sm text-[#0f172a]">
+        {codes.map((code) => (
+          <span key={code}>{code}</span>
+        ))}
+      </div>
+      <Button variant="outline" size="sm" onClick={copy} className="w-full">
+        <Copy className="w-4 h-4 mr-2" />
+        Copy codes
+      </Button>
+      <p className="text-xs text-[#64748b]">
+        Each code works once. Store them somewhere safe — they are the only way in if you lose your authenticator.
+      </p>
+    </div>
+  );
+}
+
+// Authenticator setup: scan the QR code, confirm a code, save recovery codes
+export default function MfaEnrollment({ onComplete, onCancel }: Props) {
+  const [enrollment, setEnrollment] = useState<Enrollment | null>(null);
+  const [code, setCode] = useState('');
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    startMfaEnrollment()
+      .then(setEnrollment)
+      .catch((err) => setError(err.message || 'Failed to start setup'))
+      .finally(() => setLoading(false));
+  }, []);
+
+  const handleConfirm = async () => {
+    try {
+      setLoading(true);
+      setError('');
+      setRecoveryCodes(await confirmMfaEnrollment(code.trim()));
+    } catch (err: any) {
+      setError(err.message || 'Verification failed');
+      setCode('');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  if (recoveryCodes) {
+    return (
+      <div className="space-y-4">
+        <div className="flex items-center gap-2 text-[#0f172a]">
+          <KeyRound className="w-5 h-5 text-[#10B981]" />
+          <p className="text-sm">Two-factor authentication is on. Save your recovery codes:</p>
+        </div>
+        <RecoveryCodeList codes={recoveryCodes} />
+        <Button onClick={onComplete} className="w-full bg-[#10B981] hover:bg-[#059669]">
+          I&apos;ve saved my codes
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      {enrollment ? (
+        <>
+          <img
+            src={enrollment.qr_code}
+            alt="Authenticator QR code"
+            className="w-48 h-48 mx-auto rounded-lg border border-[#e2e8f0]"
+          />
+          <div className="text-center">
+            <p className="text-xs text-[#64748b] mb-1">Can&apos;t scan? Enter this key in your app:</p>
+            <p className="font-mono text-sm text-[#0f172a] break-all">
+              {enrollment.secret.match(/.{1,4}/g)?.join(' ')}
+            </p>
+          </div>
+        </>
+      ) : (
+        <div className="w-48 h-48 bg-slate-100 rounded-lg mx-auto flex items-center justify-center">
+          <p className="text-sm text-slate-500">{loading ? 'Generating…' : 'Unavailable'}</p>
+        </div>
+      )}
+
+      <div className="space-y-2">
+        <Label htmlFor="mfa-enroll-code">Verification Code</Label>
+        <Input
+          id="mfa-enroll-code"
+          type="text"
+          inputMode="numeric"
+          autoComplete="one-time-code"
+          placeholder="Enter 6-digit code"
+          value={code}
+          onChange={(e) => setCode(e.target.value.replace(/\D/g, ''))}
+          onKeyDown={(e) => e.key === 'Enter' && code.length === 6 && handleConfirm()}
+          maxLength={6}
+          className="h-11 rounded-xl"
+        />
+      </div>
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      <div className="flex gap-2">
+        {onCancel && (
+          <Button variant="outline" onClick={onCancel} className="flex-1" disabled={loading}>
+            Cancel
+          </Button>
+        )}
+        <Button
+          onClick={handleConfirm}
+          disabled={!enrollment || code.length !== 6 || loading}
+          className="flex-1 bg-[#10B981] hover:bg-[#059669]"
+        >
+          Verify &amp; Enable
+        </Button>
+      </div>
+    </div>
+  );
+}
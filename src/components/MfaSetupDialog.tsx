@@ -0,0 +1,122 @@
+import React, { useState } from 'react';
+import { toast } from 'sonner';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from './ui/dialog';
+import MfaEnrollment, { RecoveryCodeList } from './MfaEnrollment';
+import { disableMfa, regenerateRecoveryCodes } from '../services/mfaService';
+
+interface Props {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  enabled: boolean;
+  onEnabledChange: (enabled: boolean) => void;
+}
+
+// Settings dialog: set up an authenticator, or (when enabled) turn it off or
+// issue new recovery codes. Both of those need a current code.
+export default function MfaSetupDialog({ open, onOpenChange, enabled, onEnabledChange }: Props) {
+  const [code, setCode] = useState('');
+  const [busy, setBusy] = useState(false);
+  const [newCodes, setNewCodes] = useState<string[] | null>(null);
+
+  const close = () => {
+    setCode('');
+    setNewCodes(null);
+    onOpenChange(false);
+  };
+
+  const handleDisable = async () => {
+    try {
+      setBusy(true);
+      await disableMfa(code.trim());
+      onEnabledChange(false);
+      toast.info('Two-factor authentication disabled');
+      close();
+    } catch (err: any) {
+      toast.error(err.message || 'Failed to disable two-factor authentication');
+      setCode('');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleRegenerate = async () => {
+    try {
+      setBusy(true);
+      setNewCodes(await regenerateRecoveryCodes(code.trim()));
+      setCode('');
+    } catch (err: any) {
+      toast.error(err.message || 'Failed to create recovery codes');
+      setCode('');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(next) => (next ? onOpenChange(true) : close())}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{enabled ? 'Two-Factor Authentication' : 'Enable Two-Factor Authentication'}</DialogTitle>
+          <DialogDescription>
+            {enabled
+              ? 'Enter a code from your authenticator app to make changes'
+              : 'Scan the QR code with your authenticator app'}
+          </DialogDescription>
+        </DialogHeader>
+
+        {!enabled ? (
+          open && (
+            <MfaEnrollment
+              onComplete={() => {
+                onEnabledChange(true);
+                toast.success('Two-factor authentication enabled');
+                close();
+              }}
+              onCancel={close}
+            />
+          )
+        ) : newCodes ? (
+          <div className="space-y-4">
+            <RecoveryCodeList codes={newCodes} />
+            <Button onClick={close} className="w-full">
+              Done
+            </Button>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="mfa-manage-code">Authenticator Code</Label>
+              <Input
+                id="mfa-manage-code"
+                type="text"
+                inputMode="numeric"
+                autoComplete="one-time-code"
+                placeholder="Enter 6-digit code"
+                value={code}
+                onChange={(e) => setCode(e.target.value.replace(/\D/g, ''))}
+                maxLength={6}
+                className="h-11 rounded-xl"
+              />
+            </div>
+            <div className="flex gap-2">
+              <Button variant="outline" onClick={handleRegenerate} disabled={code.length !== 6 || busy} className="flex-1">
+                New Recovery Codes
+              </Button>
+              <Button
+                variant="destructive"
+                onClick={handleDisable}
+                disabled={code.length !== 6 || busy}
+                className="flex-1"
+              >
+                Turn Off
+              </Button>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -62,7 +62,7 @@ export default function PDFScanner({ onPDFScanned, onCancel, modal = false }: Pr
         console.log(`📝 Page ${i + 1} OCR text:`, result.text);
         
         // Parse medications from this page
-        const parsedMeds = parseMultipleMedications(result.text);
+        const parsedMeds = parseMultipleMedications(result.text, result.words);
         console.log(`📦 Page ${i + 1}: Found ${parsedMeds.length} medication(s)`, parsedMeds);
         
         // Add to overall list
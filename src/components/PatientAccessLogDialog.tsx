@@ -0,0 +1,142 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { Eye, UserCheck } from 'lucide-react';
+import { toast } from 'sonner';
+import { Badge } from './ui/badge';
+import { Button } from './ui/button';
+import { Card } from './ui/card';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from './ui/dialog';
+import { fetchPatientAccessLog } from '../services/patientService';
+import type { PatientAccessEntry, PatientAccessReport } from '../services/patientService';
+
+interface Props {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  patientId: string;
+  patientName?: string;
+}
+
+const ENTITY_LABELS: Record<PatientAccessEntry['entity_type'], string> = {
+  patient: 'Patient record',
+  chart: 'Chart',
+  medication: 'Medication',
+  document: 'Document',
+};
+
+function userName(user: PatientAccessEntry['user']) {
+  if (!user) return 'Unknown user';
+  return `${user.first_name || ''} ${user.last_name || ''}`.trim() || user.email;
+}
+
+const formatTime = (iso: string) =>
+  new Date(iso).toLocaleString('en-US', { month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' });
+
+export default function PatientAccessLogDialog({ open, onOpenChange, patientId, patientName }: Props) {
+  const [report, setReport] = useState<PatientAccessReport | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  const load = useCallback(async () => {
+    try {
+      setLoading(true);
+      setReport(await fetchPatientAccessLog(patientId));
+    } catch (error: any) {
+      console.error('Error loading access log:', error);
+      toast.error(error.message || 'Failed to load access log');
+    } finally {
+      setLoading(false);
+    }
+  }, [patientId]);
+
+  useEffect(() => {
+    if (open) load();
+    else setReport(null);
+  }, [open, load]);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Access Log</DialogTitle>
+          <DialogDescription>
+            Who has viewed {patientName ? `${patientName}'s` : "this patient's"} records
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4 py-4 max-h-[28rem] overflow-y-auto">
+          {loading && !report ? (
+            <p className="text-sm text-[#64748b] text-center">Loading access log…</p>
+          ) : !report || report.accesses.length === 0 ? (
+            <p className="text-sm text-[#64748b] text-center">No recorded access</p>
+          ) : (
+            <>
+              <div className="space-y-2">
+                <h3 className="text-sm font-medium text-[#0f172a]">Accessed by</h3>
+                {report.users.map((entry) => (
+                  <Card key={entry.user_id} className="p-3">
+                    <div className="flex items-center justify-between gap-4">
+                      <div className="flex items-center gap-3">
+                        <div className="w-9 h-9 rounded-xl bg-[#DBEAFE] flex items-center justify-center flex-shrink-0">
+                          <UserCheck className="w-4 h-4 text-[#0966CC]" />
+                        </div>
+                        <div>
+                          <p className="text-sm font-medium text-[#0f172a]">{userName(entry.user)}</p>
+                          <p className="text-xs text-[#64748b] capitalize">
+                            {entry.user?.role?.replace('_', ' ') || 'Unknown role'}
+                          </p>
+                        </div>
+                      </div>
+                      <div className="text-right">
+                        <p className="text-sm text-[#0f172a]">
+                          {entry.views} view{entry.views !== 1 ? 's' : ''}
+                        </p>
+                        <p className="text-xs text-[#64748b]">Last {formatTime(entry.last_viewed_at)}</p>
+                      </div>
+                    </div>
+                  </Card>
+                ))}
+              </div>
+
+              <div className="space-y-2">
+                <h3 className="text-sm font-medium text-[#0f172a]">Recent access</h3>
+                {report.accesses.map((access) => (
+                  <div key={access.id} className="flex items-start justify-between gap-4 border-b border-[#e2e8f0] pb-2">
+                    <div className="flex items-start gap-2">
+                      <Eye className="w-4 h-4 text-[#64748b] mt-0.5" />
+                      <div>
+                        <p className="text-sm text-[#0f172a]">
+                          {userName(access.user)} viewed {ENTITY_LABELS[access.entity_type].toLowerCase()}
+                        </p>
+                        {access.ip_address && <p className="text-xs text-[#64748b]">IP: {access.ip_address}</p>}
+                      </div>
+                    </div>
+                    <div className="flex items-center gap-2 flex-shrink-0">
+                      {access.impersonation && (
+                        <Badge variant="outline" className="border-[#F59E0B] text-[#F59E0B] text-xs h-5">
+                          Impersonated
+                        </Badge>
+                      )}
+                      <span className="text-xs text-[#64748b]">{formatTime(access.created_at)}</span>
+                    </div>
+                  </div>
+                ))}
+                {report.truncated && (
+                  <p className="text-xs text-[#64748b] text-center">Showing the most recent entries only</p>
+                )}
+              </div>
+            </>
+          )}
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Close
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,242 @@
+import React, { useEffect, useState } from 'react';
+import { ShieldAlert, Plus, Trash2 } from 'lucide-react';
+import { Badge } from './ui/badge';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import {
+  ALLERGY_SEVERITY_LABELS,
+  ALLERGY_SOURCE_LABELS,
+  addPatientAllergy,
+  fetchPatientAllergies,
+  removePatientAllergy,
+  type AllergyInput,
+  type AllergySeverity,
+  type AllergySource,
+  type PatientAllergy,
+} from '../services/allergyService';
+
+interface Props {
+  patientId: string;
+  readOnly?: boolean;
+  // Called after the list loads or changes, e.g. to recheck chart medications
+  onChange?: (allergies: PatientAllergy[]) => void;
+}
+
+const SEVERITY_BADGES: Record<AllergySeverity, string> = {
+  severe: 'bg-[#FEE2E2] text-[#DC2626] border-0',
+  moderate: 'bg-[#FEF3C7] text-[#92400E] border-0',
+  mild: 'bg-[#E0F2FE] text-[#0966CC] border-0',
+  unknown: 'bg-[#f1f5f9] text-[#64748b] border-0',
+};
+
+const emptyAllergy: Required<AllergyInput> = {
+  allergen: '',
+  reaction: '',
+  severity: 'unknown',
+  source: 'patient_reported',
+};
+
+export default function PatientAllergyList({ patientId, readOnly = false, onChange }: Props) {
+  const [allergies, setAllergies] = useState<PatientAllergy[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [adding, setAdding] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [removingId, setRemovingId] = useState<string | null>(null);
+  const [draft, setDraft] = useState<Required<AllergyInput>>(emptyAllergy);
+
+  const applyAllergies = (next: PatientAllergy[]) => {
+    setAllergies(next);
+    onChange?.(next);
+  };
+
+  useEffect(() => {
+    const loadAllergies = async () => {
+      try {
+        setLoading(true);
+        setError(null);
+        applyAllergies(await fetchPatientAllergies(patientId));
+      } catch (err: any) {
+        console.error('Error loading allergies:', err);
+        setError(err.message || 'Failed to load allergies');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadAllergies();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [patientId]);
+
+  const handleAdd = async () => {
+    if (!draft.allergen.trim()) {
+      alert('Allergen is required');
+      return;
+    }
+
+    try {
+      setSaving(true);
+      setError(null);
+      const allergy = await addPatientAllergy(patientId, {
+        ...draft,
+        allergen: draft.allergen.trim(),
+        reaction: draft.reaction?.trim() || null,
+      });
+      applyAllergies([...allergies, allergy]);
+      setDraft(emptyAllergy);
+      setAdding(false);
+    } catch (err: any) {
+      console.error('Error adding allergy:', err);
+      setError(err.message || 'Failed to add allergy');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleRemove = async (allergy: PatientAllergy) => {
+    if (!window.confirm(`Remove the ${allergy.allergen} allergy from this patient?`)) return;
+
+    try {
+      setRemovingId(allergy.id);
+      setError(null);
+      await removePatientAllergy(patientId, allergy.id);
+      applyAllergies(allergies.filter((a) => a.id !== allergy.id));
+    } catch (err: any) {
+      console.error('Error removing allergy:', err);
+      setError(err.message || 'Failed to remove allergy');
+    } finally {
+      setRemovingId(null);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-xl border border-[#e2e8f0] p-6">
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center gap-2">
+          <ShieldAlert className="w-5 h-5 text-[#64748b]" />
+          <h2 className="text-lg text-[#0f172a]">Allergies</h2>
+        </div>
+        {!readOnly && !adding && (
+          <Button variant="outline" size="sm" onClick={() => setAdding(true)}>
+            <Plus className="w-4 h-4 mr-1" />
+            Add Allergy
+          </Button>
+        )}
+      </div>
+
+      {loading && allergies.length === 0 ? (
+        <p className="text-sm text-[#64748b]">Loading allergies...</p>
+      ) : allergies.length === 0 ? (
+        <p className="text-sm text-[#64748b]">No allergies recorded</p>
+      ) : (
+        <div className="space-y-2">
+          {allergies.map((allergy) => (
+            <div
+              key={allergy.id}
+              className="flex items-start justify-between gap-3 p-3 bg-[#f8fafc] rounded-lg border border-[#e2e8f0]"
+            >
+              <div className="space-y-1">
+                <div className="flex items-center gap-2">
+                  <span className="text-sm text-[#0f172a]">{allergy.allergen}</span>
+                  <Badge className={SEVERITY_BADGES[allergy.severity]}>{ALLERGY_SEVERITY_LABELS[allergy.severity]}</Badge>
+                </div>
+                <p className="text-xs text-[#64748b]">
+                  {allergy.reaction ? `${allergy.reaction} · ` : ''}
+                  {ALLERGY_SOURCE_LABELS[allergy.source]}
+                </p>
+              </div>
+              {!readOnly && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  title="Remove allergy"
+                  onClick={() => handleRemove(allergy)}
+                  disabled={removingId === allergy.id}
+                  className="h-7 w-7 text-red-500 hover:text-red-600 hover:bg-red-50"
+                >
+                  <Trash2 className="w-3.5 h-3.5" />
+                </Button>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {adding && (
+        <div className="mt-4 space-y-3 p-3 rounded-lg border border-[#e2e8f0]">
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+            <div>
+              <Label htmlFor="allergy-allergen">Allergen *</Label>
+              <Input
+                id="allergy-allergen"
+                value={draft.allergen}
+                onChange={(e) => setDraft({ ...draft, allergen: e.target.value })}
+                placeholder="e.g. Penicillin, Sulfa, Peanuts"
+                className="mt-1"
+              />
+            </div>
+            <div>
+              <Label htmlFor="allergy-reaction">Reaction</Label>
+              <Input
+                id="allergy-reaction"
+                value={draft.reaction || ''}
+                onChange={(e) => setDraft({ ...draft, reaction: e.target.value })}
+                placeholder="e.g. Hives, anaphylaxis"
+                className="mt-1"
+              />
+            </div>
+            <div>
+              <Label>Severity</Label>
+              <Select value={draft.severity} onValueChange={(value) => setDraft({ ...draft, severity: value as AllergySeverity })}>
+                <SelectTrigger className="mt-1">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(ALLERGY_SEVERITY_LABELS).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>
+                      {label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label>Source</Label>
+              <Select value={draft.source} onValueChange={(value) => setDraft({ ...draft, source: value as AllergySource })}>
+                <SelectTrigger className="mt-1">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(ALLERGY_SOURCE_LABELS).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>
+                      {label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          <div className="flex justify-end gap-2">
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => {
+                setAdding(false);
+                setDraft(emptyAllergy);
+              }}
+            >
+              Cancel
+            </Button>
+            <Button size="sm" onClick={handleAdd} disabled={saving} className="bg-[#0966CC] hover:bg-[#0C4A6E] text-white">
+              {saving ? 'Saving...' : 'Save Allergy'}
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {error && <p className="text-sm text-red-600 mt-3">{error}</p>}
+    </div>
+  );
+}
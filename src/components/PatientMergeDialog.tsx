@@ -0,0 +1,242 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { GitMerge, Undo2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { Badge } from './ui/badge';
+import { Button } from './ui/button';
+import { Card } from './ui/card';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from './ui/dialog';
+import {
+  fetchPatientDuplicates,
+  fetchPatientMerges,
+  mergePatients,
+  undoPatientMerge,
+} from '../services/patientService';
+import type { DuplicateCandidate, PatientMerge } from '../services/patientService';
+
+interface Props {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  patientId: string;
+  patientName?: string;
+  // Called after a merge or undo so the patient list can reload
+  onChanged?: () => void;
+}
+
+const personName = (person?: { first_name: string; last_name: string } | null) =>
+  person ? `${person.first_name || ''} ${person.last_name || ''}`.trim() : 'Unknown patient';
+
+const formatDate = (value?: string | null) =>
+  value
+    ? new Date(value.length === 10 ? `${value}T00:00:00` : value).toLocaleDateString('en-US', {
+        month: 'short',
+        day: 'numeric',
+        year: 'numeric',
+      })
+    : 'Not recorded';
+
+export default function PatientMergeDialog({ open, onOpenChange, patientId, patientName, onChanged }: Props) {
+  const [candidates, setCandidates] = useState<DuplicateCandidate[]>([]);
+  const [merges, setMerges] = useState<PatientMerge[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [reason, setReason] = useState('');
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    try {
+      setLoading(true);
+      const [duplicates, history] = await Promise.all([
+        fetchPatientDuplicates(patientId),
+        fetchPatientMerges(patientId),
+      ]);
+      setCandidates(duplicates);
+      setMerges(history);
+    } catch (error: any) {
+      console.error('Error loading duplicate patients:', error);
+      toast.error(error.message || 'Failed to load duplicate patients');
+    } finally {
+      setLoading(false);
+    }
+  }, [patientId]);
+
+  useEffect(() => {
+    if (open) load();
+    else {
+      setCandidates([]);
+      setMerges([]);
+      setReason('');
+    }
+  }, [open, load]);
+
+  const handleMerge = async (candidate: DuplicateCandidate) => {
+    const duplicateName = personName(candidate.patient);
+    const confirmed = window.confirm(
+      `Merge ${duplicateName} into ${patientName || 'this patient'}? Their charts, documents and medications ` +
+        'will move to this patient. The merge can be undone.'
+    );
+    if (!confirmed) return;
+
+    try {
+      setBusyId(candidate.patient.id);
+      const merge = await mergePatients(patientId, candidate.patient.id, reason.trim() || undefined);
+      toast.success(
+        `Merged ${duplicateName}: ${merge.chart_ids.length} chart${merge.chart_ids.length !== 1 ? 's' : ''} moved`
+      );
+      setReason('');
+      onChanged?.();
+      await load();
+    } catch (error: any) {
+      console.error('Error merging patients:', error);
+      toast.error(error.message || 'Failed to merge patients');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleUndo = async (merge: PatientMerge) => {
+    try {
+      setBusyId(merge.id);
+      await undoPatientMerge(merge.id);
+      toast.success(`Merge undone; ${personName(merge.merged)} is a separate patient again`);
+      onChanged?.();
+      await load();
+    } catch (error: any) {
+      console.error('Error undoing merge:', error);
+      toast.error(error.message || 'Failed to undo merge');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Duplicate Patients</DialogTitle>
+          <DialogDescription>
+            Patients that may be the same person as {patientName || 'this patient'}. Merging moves the
+            duplicate's charts here and hides the duplicate.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4 py-4 max-h-[28rem] overflow-y-auto">
+          {loading && candidates.length === 0 && merges.length === 0 ? (
+            <p className="text-sm text-[#64748b] text-center">Looking for duplicates…</p>
+          ) : (
+            <>
+              <div className="space-y-2">
+                <h3 className="text-sm font-medium text-[#0f172a]">Possible duplicates</h3>
+                {candidates.length === 0 ? (
+                  <p className="text-sm text-[#64748b]">No likely or possible duplicates found</p>
+                ) : (
+                  <>
+                    <div>
+                      <Label htmlFor="merge-reason">Reason (optional)</Label>
+                      <Input
+                        id="merge-reason"
+                        value={reason}
+                        onChange={(e) => setReason(e.target.value)}
+                        placeholder="e.g. Same patient registered twice with a nickname"
+                        className="mt-1"
+                      />
+                    </div>
+                    {candidates.map((candidate) => (
+                      <Card key={candidate.patient.id} className="p-3">
+                        <div className="flex items-start justify-between gap-4">
+                          <div className="min-w-0">
+                            <p className="text-sm font-medium text-[#0f172a]">{personName(candidate.patient)}</p>
+                            <p className="text-xs text-[#64748b]">
+                              DOB: {formatDate(candidate.patient.date_of_birth)}
+                              {candidate.patient.phone ? ` · ${candidate.patient.phone}` : ''} ·{' '}
+                              {candidate.patient.charts?.length || 0} chart
+                              {(candidate.patient.charts?.length || 0) !== 1 ? 's' : ''}
+                            </p>
+                            <p className="text-xs text-[#64748b] mt-1">{candidate.reasons.join(' · ')}</p>
+                          </div>
+                          <div className="flex flex-col items-end gap-2 flex-shrink-0">
+                            <Badge
+                              variant="outline"
+                              className={
+                                candidate.level === 'likely'
+                                  ? 'border-[#EF4444] text-[#EF4444]'
+                                  : 'border-[#F59E0B] text-[#F59E0B]'
+                              }
+                            >
+                              {candidate.level === 'likely' ? 'Likely' : 'Possible'} · {candidate.score}
+                            </Badge>
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              disabled={busyId !== null}
+                              onClick={() => handleMerge(candidate)}
+                            >
+                              <GitMerge className="w-4 h-4 mr-2" />
+                              {busyId === candidate.patient.id ? 'Merging...' : 'Merge into this patient'}
+                            </Button>
+                          </div>
+                        </div>
+                      </Card>
+                    ))}
+                  </>
+                )}
+              </div>
+
+              {merges.length > 0 && (
+                <div className="space-y-2">
+                  <h3 className="text-sm font-medium text-[#0f172a]">Merge history</h3>
+                  {merges.map((merge) => (
+                    <div
+                      key={merge.id}
+                      className="flex items-start justify-between gap-4 border-b border-[#e2e8f0] pb-2"
+                    >
+                      <div>
+                        <p className="text-sm text-[#0f172a]">
+                          {personName(merge.merged)} merged into {personName(merge.survivor)}
+                        </p>
+                        <p className="text-xs text-[#64748b]">
+                          {formatDate(merge.merged_at)} by {personName(merge.merged_by_user)} ·{' '}
+                          {merge.chart_ids.length} chart{merge.chart_ids.length !== 1 ? 's' : ''},{' '}
+                          {merge.document_count} document{merge.document_count !== 1 ? 's' : ''},{' '}
+                          {merge.medication_count} medication{merge.medication_count !== 1 ? 's' : ''}
+                        </p>
+                        {merge.reason && <p className="text-xs text-[#64748b]">Reason: {merge.reason}</p>}
+                      </div>
+                      {merge.undone_at ? (
+                        <Badge variant="outline" className="text-xs h-5 flex-shrink-0">
+                          Undone {formatDate(merge.undone_at)}
+                        </Badge>
+                      ) : (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          disabled={busyId !== null}
+                          onClick={() => handleUndo(merge)}
+                          className="flex-shrink-0"
+                        >
+                          <Undo2 className="w-4 h-4 mr-2" />
+                          {busyId === merge.id ? 'Undoing...' : 'Undo'}
+                        </Button>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              )}
+            </>
+          )}
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Close
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,323 @@
+import React, { useEffect, useState } from 'react';
+import { AlertTriangle, Copy } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { Switch } from './ui/switch';
+import { Textarea } from './ui/textarea';
+import { Separator } from './ui/separator';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from './ui/dialog';
+import { getTenantSsoConfig, saveTenantSsoConfig } from '../services/ssoService';
+import type { SsoProtocol, SsoRole, TenantSsoSettings } from '../services/ssoService';
+
+interface Props {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  tenantId: string;
+  // Only super admins may map groups to super_admin
+  canGrantSuperAdmin?: boolean;
+  onSaved?: (settings: TenantSsoSettings) => void;
+}
+
+const ROLE_LABELS: Record<SsoRole, string> = {
+  clinician: 'Clinician',
+  scheduler: 'Scheduler',
+  agency_admin: 'Agency Admin',
+  super_admin: 'Super Admin',
+};
+
+// "group = role" per line, as typed in the role mapping box
+function parseRoleMapping(text: string) {
+  const mapping: Record<string, SsoRole> = {};
+  for (const line of text.split('\n')) {
+    const [group, role] = line.split('=').map((part) => part.trim());
+    if (!group) continue;
+    if (!role || !(role in ROLE_LABELS)) {
+      throw new Error(`"${line.trim()}" must look like: group = ${Object.keys(ROLE_LABELS).join(' | ')}`);
+    }
+    mapping[group] = role as SsoRole;
+  }
+  return mapping;
+}
+
+export default function SsoSettingsDialog({ open, onOpenChange, tenantId, canGrantSuperAdmin, onSaved }: Props) {
+  const [settings, setSettings] = useState<TenantSsoSettings | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+
+  const [enabled, setEnabled] = useState(false);
+  const [enforced, setEnforced] = useState(false);
+  const [protocol, setProtocol] = useState<SsoProtocol>('oidc');
+  const [issuer, setIssuer] = useState('');
+  const [clientId, setClientId] = useState('');
+  const [clientSecret, setClientSecret] = useState('');
+  const [entryPoint, setEntryPoint] = useState('');
+  const [idpIssuer, setIdpIssuer] = useState('');
+  const [idpCert, setIdpCert] = useState('');
+  const [groupsAttribute, setGroupsAttribute] = useState('groups');
+  const [roleMapping, setRoleMapping] = useState('');
+  const [defaultRole, setDefaultRole] = useState<SsoRole | 'none'>('none');
+  const [allowedDomains, setAllowedDomains] = useState('');
+
+  useEffect(() => {
+    if (!open) return;
+    setLoading(true);
+    getTenantSsoConfig(tenantId)
+      .then((loaded) => {
+        const config = loaded.config;
+        setSettings(loaded);
+        setEnabled(!!config?.enabled);
+        setEnforced(loaded.enforced);
+        setProtocol(config?.protocol || 'oidc');
+        setIssuer(config?.oidc?.issuer || '');
+        setClientId(config?.oidc?.client_id || '');
+        setClientSecret('');
+        setEntryPoint(config?.saml?.entry_point || '');
+        setIdpIssuer(config?.saml?.idp_issuer || '');
+        setIdpCert(config?.saml?.idp_cert || '');
+        setGroupsAttribute(config?.groups_attribute || 'groups');
+        setRoleMapping(
+          Object.entries(config?.role_mapping || {})
+            .map(([group, role]) => `${group} = ${role}`)
+            .join('\n')
+        );
+        setDefaultRole(config?.default_role || 'none');
+        setAllowedDomains((config?.allowed_domains || []).join(', '));
+      })
+      .catch((error: any) => {
+        console.error('Error loading SSO settings:', error);
+        toast.error(error.message || 'Failed to load SSO settings');
+      })
+      .finally(() => setLoading(false));
+  }, [open, tenantId]);
+
+  const handleSave = async () => {
+    let mapping: Record<string, SsoRole>;
+    try {
+      mapping = parseRoleMapping(roleMapping);
+    } catch (error: any) {
+      toast.error(error.message);
+      return;
+    }
+
+    try {
+      setSaving(true);
+      const saved = await saveTenantSsoConfig(tenantId, {
+        enabled,
+        enforced: enabled && enforced,
+        protocol,
+        oidc: { issuer: issuer.trim(), client_id: clientId.trim(), ...(clientSecret ? { client_secret: clientSecret } : {}) },
+        saml: { entry_point: entryPoint.trim(), idp_issuer: idpIssuer.trim() || null, idp_cert: idpCert.trim() },
+        groups_attribute: groupsAttribute.trim() || 'groups',
+        role_mapping: mapping,
+        default_role: defaultRole === 'none' ? null : defaultRole,
+        allowed_domains: allowedDomains
+          .split(',')
+          .map((domain) => domain.trim().toLowerCase())
+          .filter(Boolean),
+      });
+      setSettings(saved);
+      setClientSecret('');
+      onSaved?.(saved);
+      toast.success('Single sign-on settings saved');
+      onOpenChange(false);
+    } catch (error: any) {
+      console.error('Error saving SSO settings:', error);
+      toast.error(error.message || 'Failed to save SSO settings');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const copy = (value: string) => {
+    void navigator.clipboard.writeText(value).then(() => toast.success('Copied'));
+  };
+
+  const sp = settings?.service_provider;
+  const spUrls = sp
+    ? protocol === 'oidc'
+      ? [['Redirect URI', sp.oidc_redirect_uri]]
+      : [
+          ['ACS URL', sp.saml_acs_url],
+          ['Entity ID / metadata', sp.saml_metadata_url],
+        ]
+    : [];
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[560px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Single Sign-On</DialogTitle>
+          <DialogDescription>
+            Let staff sign in through your identity provider. Accounts are created on first sign-in with a role
+            mapped from their IdP groups.
+          </DialogDescription>
+        </DialogHeader>
+
+        {loading ? (
+          <p className="text-sm text-[#64748b] py-6 text-center">Loading…</p>
+        ) : (
+          <div className="space-y-4">
+            <div className="flex items-center justify-between">
+              <Label htmlFor="sso-enabled">Enable single sign-on</Label>
+              <Switch id="sso-enabled" checked={enabled} onCheckedChange={setEnabled} />
+            </div>
+
+            <div>
+              <Label>Protocol</Label>
+              <Select value={protocol} onValueChange={(value) => setProtocol(value as SsoProtocol)}>
+                <SelectTrigger className="mt-2">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="oidc">OpenID Connect</SelectItem>
+                  <SelectItem value="saml">SAML 2.0</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+
+            {protocol === 'oidc' ? (
+              <>
+                <div>
+                  <Label htmlFor="sso-issuer">Issuer URL</Label>
+                  <Input id="sso-issuer" value={issuer} onChange={(e) => setIssuer(e.target.value)} placeholder="https://login.example.com" className="mt-2" />
+                </div>
+                <div>
+                  <Label htmlFor="sso-client-id">Client ID</Label>
+                  <Input id="sso-client-id" value={clientId} onChange={(e) => setClientId(e.target.value)} className="mt-2" />
+                </div>
+                <div>
+                  <Label htmlFor="sso-client-secret">Client secret</Label>
+                  <Input
+                    id="sso-client-secret"
+                    type="password"
+                    value={clientSecret}
+                    onChange={(e) => setClientSecret(e.target.value)}
+                    placeholder={settings?.config?.oidc?.has_client_secret ? 'Saved — leave blank to keep' : 'Optional for public clients'}
+                    className="mt-2"
+                  />
+                </div>
+              </>
+            ) : (
+              <>
+                <div>
+                  <Label htmlFor="sso-entry-point">IdP sign-in URL</Label>
+                  <Input id="sso-entry-point" value={entryPoint} onChange={(e) => setEntryPoint(e.target.value)} className="mt-2" />
+                </div>
+                <div>
+                  <Label htmlFor="sso-idp-issuer">IdP entity ID (optional)</Label>
+                  <Input id="sso-idp-issuer" value={idpIssuer} onChange={(e) => setIdpIssuer(e.target.value)} className="mt-2" />
+                </div>
+                <div>
+                  <Label htmlFor="sso-idp-cert">IdP signing certificate</Label>
+                  <Textarea
+                    id="sso-idp-cert"
+                    value={idpCert}
+                    onChange={(e) => setIdpCert(e.target.value)}
+                    placeholder="-----BEGIN CERTIFICATE-----"
+                    className="mt-2 font-mono text-xs"
+                    rows={4}
+                  />
+                </div>
+              </>
+            )}
+
+            {spUrls.length > 0 && (
+              <div className="bg-[#f8fafc] border border-[#e2e8f0] rounded-xl p-3 space-y-2">
+                <p className="text-xs text-[#64748b]">Give these to your identity provider:</p>
+                {spUrls.map(([label, value]) => (
+                  <div key={label} className="flex items-center gap-2">
+                    <span className="text-xs text-[#0f172a] w-36 flex-shrink-0">{label}</span>
+                    <code className="text-xs text-[#0f172a] truncate flex-1">{value}</code>
+                    <Button variant="ghost" size="sm" onClick={() => copy(value)} className="h-7 w-7 p-0">
+                      <Copy className="w-3 h-3" />
+                    </Button>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            <Separator />
+
+            <div>
+              <Label htmlFor="sso-groups-attribute">Groups claim / attribute</Label>
+              <Input id="sso-groups-attribute" value={groupsAttribute} onChange={(e) => setGroupsAttribute(e.target.value)} className="mt-2" />
+            </div>
+            <div>
+              <Label htmlFor="sso-role-mapping">Group to role mapping</Label>
+              <Textarea
+                id="sso-role-mapping"
+                value={roleMapping}
+                onChange={(e) => setRoleMapping(e.target.value)}
+                placeholder={'nurses = clinician\nfront-desk = scheduler\nit-admins = agency_admin'}
+                className="mt-2 font-mono text-xs"
+                rows={4}
+              />
+              <p className="text-xs text-[#64748b] mt-1">
+                One per line. The highest role wins when someone is in several groups.
+                {!canGrantSuperAdmin && ' super_admin can only be mapped by a super admin.'}
+              </p>
+            </div>
+            <div>
+              <Label>Role when no group matches</Label>
+              <Select value={defaultRole} onValueChange={(value) => setDefaultRole(value as SsoRole | 'none')}>
+                <SelectTrigger className="mt-2">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="none">No access</SelectItem>
+                  <SelectItem value="clinician">Clinician</SelectItem>
+                  <SelectItem value="scheduler">Scheduler</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label htmlFor="sso-domains">Allowed email domains (optional)</Label>
+              <Input
+                id="sso-domains"
+                value={allowedDomains}
+                onChange={(e) => setAllowedDomains(e.target.value)}
+                placeholder="agency.com, agency.org"
+                className="mt-2"
+              />
+            </div>
+
+            <Separator />
+
+            <div className="flex items-center justify-between">
+              <div>
+                <Label htmlFor="sso-enforced">Require single sign-on</Label>
+                <p className="text-xs text-[#64748b] mt-1">Password sign-in stops working for everyone but super admins</p>
+              </div>
+              <Switch id="sso-enforced" checked={enabled && enforced} onCheckedChange={setEnforced} disabled={!enabled} />
+            </div>
+            {enabled && enforced && !settings?.enforced && (
+              <div className="flex gap-2 bg-[#FEF3C7] border border-[#FDE68A] rounded-xl p-3 text-xs text-[#92400E]">
+                <AlertTriangle className="w-4 h-4 flex-shrink-0" />
+                Test an SSO sign-in before requiring it. Existing password sessions will be refused.
+              </div>
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={saving || loading} className="bg-[#0966CC] hover:bg-[#075592] text-white">
+            {saving ? 'Saving...' : 'Save'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
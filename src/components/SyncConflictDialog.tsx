@@ -0,0 +1,123 @@
+import React, { useState } from 'react';
+import { AlertTriangle } from 'lucide-react';
+import { Button } from './ui/button';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from './ui/dialog';
+import type { SyncConflict } from '../services/offlineSyncService';
+
+interface Props {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  conflicts: SyncConflict[];
+  onResolve: (conflictId: string, keep: 'mine' | 'server') => Promise<void>;
+}
+
+const COMPARED_FIELDS = ['drug_name', 'strength', 'route', 'frequency', 'prescriber', 'verified'];
+
+const ACTION_LABELS: Record<SyncConflict['mutation']['kind'], string> = {
+  insert_medication: 'Added medication',
+  update_medication: 'Edited medication',
+  delete_medication: 'Removed medication',
+};
+
+const formatValue = (value: any) => {
+  if (value === null || value === undefined || value === '') return '—';
+  if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+  return String(value);
+};
+
+const formatField = (field: string) => field.replace(/_/g, ' ');
+
+export default function SyncConflictDialog({ open, onOpenChange, conflicts, onResolve }: Props) {
+  const [resolvingId, setResolvingId] = useState<string | null>(null);
+
+  const handleResolve = async (conflictId: string, keep: 'mine' | 'server') => {
+    try {
+      setResolvingId(conflictId);
+      await onResolve(conflictId, keep);
+    } catch (err: any) {
+      console.error('Error resolving sync conflict:', err);
+      alert(err.message || 'Failed to resolve conflict');
+    } finally {
+      setResolvingId(null);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Offline Changes Need Review</DialogTitle>
+          <DialogDescription>
+            These changes were made while you were offline but conflict with updates saved on the server.
+          </DialogDescription>
+        </DialogHeader>
+
+        {conflicts.length === 0 ? (
+          <p className="text-sm text-[#64748b]">All conflicts are resolved.</p>
+        ) : (
+          <div className="space-y-4">
+            {conflicts.map((conflict) => {
+              const mine = conflict.mutation.payload || {};
+              const server = conflict.serverRow || {};
+              const fields = COMPARED_FIELDS.filter((f) => f in mine || f in server);
+              const canKeepMine = conflict.reason === 'modified';
+
+              return (
+                <div key={conflict.id} className="p-4 bg-[#f8fafc] rounded-lg border border-[#e2e8f0] space-y-3">
+                  <div className="flex items-start gap-2">
+                    <AlertTriangle className="w-4 h-4 text-[#F59E0B] flex-shrink-0 mt-0.5" />
+                    <div>
+                      <p className="text-sm text-[#0f172a]">
+                        {ACTION_LABELS[conflict.mutation.kind]}
+                        {(mine.drug_name || server.drug_name) && `: ${mine.drug_name || server.drug_name}`}
+                      </p>
+                      <p className="text-xs text-[#64748b]">{conflict.message}</p>
+                    </div>
+                  </div>
+
+                  {conflict.serverRow && conflict.mutation.kind === 'update_medication' && fields.length > 0 && (
+                    <div className="space-y-1">
+                      <div className="grid grid-cols-3 gap-2 text-xs text-[#94a3b8]">
+                        <span>Field</span>
+                        <span>Your change</span>
+                        <span>On server</span>
+                      </div>
+                      {fields.map((field) => (
+                        <div key={field} className="grid grid-cols-3 gap-2 text-xs">
+                          <span className="text-[#64748b] capitalize">{formatField(field)}</span>
+                          <span className="text-[#0966CC] break-words">{formatValue(mine[field])}</span>
+                          <span className="text-[#0f172a] break-words">{formatValue(server[field])}</span>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+
+                  <div className="flex gap-2">
+                    {canKeepMine && (
+                      <Button
+                        size="sm"
+                        onClick={() => handleResolve(conflict.id, 'mine')}
+                        disabled={resolvingId === conflict.id}
+                        className="bg-[#0966CC] hover:bg-[#0C4A6E] text-white"
+                      >
+                        Keep My Change
+                      </Button>
+                    )}
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => handleResolve(conflict.id, 'server')}
+                      disabled={resolvingId === conflict.id}
+                    >
+                      {canKeepMine ? 'Keep Server Version' : 'Discard My Change'}
+                    </Button>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,5 +1,13 @@
-import React, { createContext, useContext, useState, ReactNode } from 'react';
+import React, { createContext, useContext, useEffect, useState, ReactNode } from 'react';
 import { authService } from '../services/auth';
+import type { MfaPending } from '../services/auth';
+import { endImpersonation as endImpersonationSession } from '../services/superAdminService';
+import { getImpersonation, subscribeImpersonation } from '../lib/impersonation';
+import type { ActiveImpersonation } from '../lib/impersonation';
+import { clearLogs } from '../lib/logger';
+import { useIdleTimer } from '../hooks/useIdleTimer';
+import { clearOfflineData } from '../services/offlineSyncService';
+import { DEFAULT_IDLE_TIMEOUT_MINUTES, fetchTenantSecuritySettings } from '../services/tenantSecurityService';
 
 // User as defined in your working code
 interface User {
@@ -13,6 +21,17 @@ interface User {
   mfa_enabled: boolean;
   token?: string;
   agency_name?: string;
+  // Set while the session still owes its second factor (see MFAScreen)
+  mfa_pending?: MfaPending | null;
+}
+
+// Why and for whom the last session was ended by the idle timer
+export interface IdleSignOut {
+  userId: string;
+  minutes: number;
+  // Offline edits that could not be synced before the device was cleared
+  discarded: number;
+  at: string;
 }
 
 // Auth context type – merged:
@@ -23,8 +42,23 @@ interface AuthContextType {
   role: string | null;
   isAuthenticated: boolean;
   login: (email: string, password: string) => Promise<User>;
+  // Finishes the redirect back from the tenant's IdP (see ssoService)
+  loginWithSso: (tokenHash: string, handoff: string) => Promise<User>;
+  // Called by MFAScreen once the second factor is verified
+  completeMfa: () => void;
   logout: () => Promise<void>;
   error: string | null;
+  // While a super admin impersonates a tenant, `user` is presented as that
+  // tenant's agency admin and `impersonator` is the super admin's own record
+  impersonation: ActiveImpersonation | null;
+  impersonator: User | null;
+  endImpersonation: () => Promise<void>;
+  // Set (to the moment of sign-out) while the idle warning is showing
+  idleWarningUntil: number | null;
+  staySignedIn: () => void;
+  // Ends the session now, with the same cleanup as the idle timeout
+  signOutIdle: () => Promise<void>;
+  idleSignOut: IdleSignOut | null;
 }
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
@@ -33,23 +67,51 @@ export function AuthProvider({ children }: { children: ReactNode }) {
   const [user, setUser] = useState<User | null>(null);
   const [isAuthenticated, setIsAuthenticated] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [impersonation, setImpersonationState] = useState<ActiveImpersonation | null>(getImpersonation());
+  const [idleTimeoutMinutes, setIdleTimeoutMinutes] = useState(DEFAULT_IDLE_TIMEOUT_MINUTES);
+  const [idleSignOut, setIdleSignOut] = useState<IdleSignOut | null>(null);
 
-  // login function using authService (your working behavior)
-  const login = async (email: string, password: string) => {
+  useEffect(() => subscribeImpersonation(setImpersonationState), []);
+
+  // Sessions end on their own at expires_at
+  useEffect(() => {
+    if (!impersonation) return;
+    const remaining = new Date(impersonation.expires_at).getTime() - Date.now();
+    const timer = setTimeout(() => {
+      void endImpersonationSession(impersonation);
+    }, Math.max(remaining, 0));
+    return () => clearTimeout(timer);
+  }, [impersonation]);
+
+  const signIn = async (attempt: () => ReturnType<typeof authService.login>) => {
     try {
       setError(null);
-      const { user } = await authService.login({ email, password });
-      setUser(user);
-      setIsAuthenticated(true);
-      return user;
+      setIdleSignOut(null);
+      const { user, mfaPending } = await attempt();
+      const signedIn = { ...user, mfa_pending: mfaPending };
+      setUser(signedIn);
+      setIsAuthenticated(!mfaPending);
+      return signedIn;
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Authentication failed');
       throw err;
     }
   };
 
+  // login function using authService (your working behavior)
+  const login = (email: string, password: string) => signIn(() => authService.login({ email, password }));
+
+  const loginWithSso = (tokenHash: string, handoff: string) =>
+    signIn(() => authService.loginWithSso(tokenHash, handoff));
+
+  const completeMfa = () => {
+    setUser((current) => (current ? { ...current, mfa_enabled: true, mfa_pending: null } : current));
+    setIsAuthenticated(true);
+  };
+
   const logout = async () => {
     try {
+      if (getImpersonation()) await endImpersonationSession();
       await authService.logout();
       setUser(null);
       setIsAuthenticated(false);
@@ -60,15 +122,77 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     }
   };
 
+  // The timeout is the signed-in user's own tenant setting, also while impersonating
+  const tenantId = isAuthenticated ? user?.tenant_id : undefined;
+  useEffect(() => {
+    if (!tenantId) return;
+    let cancelled = false;
+    fetchTenantSecuritySettings(tenantId)
+      .then((settings) => !cancelled && setIdleTimeoutMinutes(settings.idle_timeout_minutes))
+      .catch((err) => {
+        console.error('Error loading idle timeout:', err);
+        if (!cancelled) setIdleTimeoutMinutes(DEFAULT_IDLE_TIMEOUT_MINUTES);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [tenantId]);
+
+  // Nothing cached on the device may outlive the session: offline charts and
+  // queued edits (after one last attempt to sync them) and the local log.
+  const signOutForInactivity = async () => {
+    const userId = user?.id;
+    let discarded = 0;
+    try {
+      ({ discarded } = await clearOfflineData());
+    } catch (err) {
+      console.error('Error clearing offline data:', err);
+    }
+    clearLogs();
+    try {
+      await logout();
+    } catch (err) {
+      // The local session is gone either way
+      console.error('Error signing out idle session:', err);
+      setUser(null);
+      setIsAuthenticated(false);
+    }
+    if (userId) {
+      setIdleSignOut({ userId, minutes: idleTimeoutMinutes, discarded, at: new Date().toISOString() });
+    }
+  };
+
+  const idleTimeoutMs = idleTimeoutMinutes * 60_000;
+  const { warningUntil: idleWarningUntil, stayActive: staySignedIn } = useIdleTimer({
+    enabled: isAuthenticated,
+    timeoutMs: idleTimeoutMs,
+    warningMs: Math.min(60_000, idleTimeoutMs / 4),
+    onTimeout: () => void signOutForInactivity(),
+  });
+
+  const effectiveUser =
+    user && impersonation
+      ? { ...user, tenant_id: impersonation.tenant_id, role: 'agency_admin', agency_name: impersonation.tenant_name }
+      : user;
+
   return (
     <AuthContext.Provider
       value={{
-        user,
-        role: user?.role ?? null, // <- added for compatibility with his code
+        user: effectiveUser,
+        role: effectiveUser?.role ?? null, // <- added for compatibility with his code
         isAuthenticated,
         login,
+        loginWithSso,
+        completeMfa,
         logout,
         error,
+        impersonation,
+        impersonator: impersonation ? user : null,
+        endImpersonation: () => endImpersonationSession(),
+        idleWarningUntil,
+        staySignedIn,
+        signOutIdle: signOutForInactivity,
+        idleSignOut,
       }}
     >
       {children}
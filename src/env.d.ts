@@ -4,6 +4,7 @@
 interface ImportMetaEnv {
   readonly VITE_SUPABASE_URL: string;
   readonly VITE_SUPABASE_ANON_KEY: string;
+  readonly VITE_SERVER_URL?: string;
   // add other VITE_ variables you expect to use
 }
 
@@ -0,0 +1,106 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+
+const ACTIVITY_EVENTS = ['pointerdown', 'pointermove', 'keydown', 'wheel', 'touchstart', 'scroll'] as const;
+
+// Activity in another tab of the app counts too
+const STORAGE_KEY = 'luminous-last-activity';
+
+// Ignore activity events closer together than this
+const ACTIVITY_THROTTLE_MS = 5000;
+const CHECK_INTERVAL_MS = 1000;
+
+interface Options {
+  enabled: boolean;
+  timeoutMs: number;
+  // How long before the timeout the warning starts
+  warningMs: number;
+  onTimeout: () => void;
+}
+
+function storedActivity() {
+  try {
+    return Number(localStorage.getItem(STORAGE_KEY)) || 0;
+  } catch {
+    return 0;
+  }
+}
+
+// Tracks user activity and fires onTimeout after timeoutMs without any.
+// `warningUntil` is set (to the moment of timeout) during the last warningMs;
+// activity in this tab no longer counts then, only an explicit `stayActive()`
+// here or activity in another tab does.
+export function useIdleTimer({ enabled, timeoutMs, warningMs, onTimeout }: Options) {
+  const [warningUntil, setWarningUntil] = useState<number | null>(null);
+  const lastActivity = useRef(Date.now());
+  const warning = useRef(false);
+  const onTimeoutRef = useRef(onTimeout);
+  onTimeoutRef.current = onTimeout;
+
+  const markActive = useCallback(() => {
+    const now = Date.now();
+    lastActivity.current = now;
+    try {
+      localStorage.setItem(STORAGE_KEY, String(now));
+    } catch {
+      // Private browsing: this tab still tracks its own activity
+    }
+  }, []);
+
+  const stayActive = useCallback(() => {
+    warning.current = false;
+    setWarningUntil(null);
+    markActive();
+  }, [markActive]);
+
+  useEffect(() => {
+    if (!enabled) {
+      warning.current = false;
+      setWarningUntil(null);
+      return;
+    }
+
+    markActive();
+
+    const handleActivity = () => {
+      if (warning.current) return;
+      if (Date.now() - lastActivity.current >= ACTIVITY_THROTTLE_MS) markActive();
+    };
+
+    const check = () => {
+      const stored = storedActivity();
+      // Someone kept working (or chose to stay signed in) in another tab
+      if (warning.current && stored > lastActivity.current) {
+        warning.current = false;
+        setWarningUntil(null);
+      }
+      const last = Math.max(lastActivity.current, warning.current ? 0 : stored);
+      const idleFor = Date.now() - last;
+
+      if (idleFor >= timeoutMs) {
+        window.clearInterval(interval);
+        warning.current = false;
+        setWarningUntil(null);
+        onTimeoutRef.current();
+      } else if (idleFor >= timeoutMs - warningMs) {
+        if (!warning.current) {
+          warning.current = true;
+          lastActivity.current = last;
+          setWarningUntil(last + timeoutMs);
+        }
+      }
+    };
+
+    ACTIVITY_EVENTS.forEach((name) => window.addEventListener(name, handleActivity, { passive: true }));
+    // Timers are throttled in background tabs; re-check as soon as the tab is visible again
+    document.addEventListener('visibilitychange', check);
+    const interval = window.setInterval(check, CHECK_INTERVAL_MS);
+
+    return () => {
+      ACTIVITY_EVENTS.forEach((name) => window.removeEventListener(name, handleActivity));
+      document.removeEventListener('visibilitychange', check);
+      window.clearInterval(interval);
+    };
+  }, [enabled, timeoutMs, warningMs, markActive]);
+
+  return { warningUntil, stayActive };
+}
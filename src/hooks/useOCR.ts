@@ -12,6 +12,21 @@ export interface UseOCRResult {
   reset: () => void;
 }
 
+/**
+ * Tie parsed fields to the image their word boxes are measured in. Only the
+ * preview (the photo, or a PDF's first page) is shown with highlights, so
+ * later PDF pages keep their field confidences but drop the boxes.
+ */
+function withSourceImage(med: Partial<MedicationInfo>, result: OCRResult, isPreview: boolean): Partial<MedicationInfo> {
+  if (!isPreview || !result.previewImageWidth || !result.previewImageHeight) {
+    const fields = Object.fromEntries(
+      Object.entries(med.fields || {}).map(([key, field]) => [key, { ...field!, words: [] }])
+    );
+    return { ...med, fields };
+  }
+  return { ...med, ocrImageSize: { width: result.previewImageWidth, height: result.previewImageHeight } };
+}
+
 /**
  * Custom hook for OCR medication scanning
  */
@@ -67,7 +82,8 @@ export function useOCR(): UseOCRResult {
           console.log(`📝 Page ${i + 1} OCR text:`, result.text);
           
           // Parse medications from this page
-          const parsedMeds = parseMultipleMedications(result.text);
+          const parsedMeds = parseMultipleMedications(result.text, result.words)
+            .map(med => withSourceImage(med, result, i === 0));
           console.log(`📦 Page ${i + 1}: Found ${parsedMeds.length} medication(s)`);
           
           // Add to overall list
@@ -86,7 +102,8 @@ export function useOCR(): UseOCRResult {
         console.log('📝 Raw OCR text:', result.text);
         
         // Parse medications from text
-        allMedications = parseMultipleMedications(result.text);
+        allMedications = parseMultipleMedications(result.text, result.words)
+          .map(med => withSourceImage(med, result, true));
         console.log(`📦 Parsed ${allMedications.length} medication(s)`);
         
         // Parse patient information
@@ -0,0 +1,69 @@
+import { useEffect, useState } from 'react';
+import { toast } from 'sonner';
+import {
+  getSyncState,
+  initializeOfflineSync,
+  replayQueue,
+  resolveConflict,
+  setOnline,
+  subscribeToSyncState,
+  type SyncState,
+} from '../services/offlineSyncService';
+
+// Tracks connectivity and the offline queue, and replays queued changes when
+// the connection comes back (and once on mount, for changes left over from a
+// previous session).
+export function useOfflineSync() {
+  const [syncState, setSyncState] = useState<SyncState>(getSyncState());
+
+  useEffect(() => {
+    const unsubscribe = subscribeToSyncState(setSyncState);
+
+    const sync = async (announce: boolean) => {
+      try {
+        const result = await replayQueue();
+        if (!announce) return;
+        if (result.conflicts > 0) {
+          toast.warning(`Back online - ${result.conflicts} change${result.conflicts === 1 ? '' : 's'} need your review`, {
+            duration: 5000,
+          });
+        } else if (result.synced > 0) {
+          toast.success(`Back online - Synced ${result.synced} change${result.synced === 1 ? '' : 's'}`, {
+            duration: 3000,
+          });
+        } else {
+          toast.success('Back online', { duration: 3000 });
+        }
+      } catch (err: any) {
+        toast.error(`Sync failed: ${err.message || 'Unknown error'}`);
+      }
+    };
+
+    const handleOnline = () => {
+      setOnline(true);
+      void sync(true);
+    };
+    const handleOffline = () => {
+      setOnline(false);
+    };
+
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+
+    void initializeOfflineSync().then(() => {
+      if (navigator.onLine) void sync(false);
+    });
+
+    return () => {
+      unsubscribe();
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
+    };
+  }, []);
+
+  return {
+    ...syncState,
+    syncNow: replayQueue,
+    resolveConflict,
+  };
+}
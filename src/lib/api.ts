@@ -0,0 +1,74 @@
+import { supabaseClient } from './supabase';
+import { getImpersonationToken, setImpersonation } from './impersonation';
+
+// Base URL of the Express API (see server/)
+export const API_BASE_URL = (import.meta.env.VITE_SERVER_URL || 'http://localhost:8080').replace(/\/+$/, '');
+
+export class ApiError extends Error {
+  status: number;
+  code?: string;
+  details?: any;
+
+  constructor(message: string, status: number, code?: string, details?: any) {
+    super(message);
+    this.name = 'ApiError';
+    this.status = status;
+    this.code = code;
+    this.details = details;
+  }
+}
+
+interface ApiRequestOptions {
+  method?: 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+  body?: unknown;
+  // Skip the Authorization header (public endpoints like activation)
+  anonymous?: boolean;
+  // Use the signed-in user's own token even while impersonating
+  asSelf?: boolean;
+  // 'blob' for file downloads; errors are still read as JSON
+  responseType?: 'json' | 'blob';
+}
+
+// Call the API with the current user's access token and unwrap { error } responses
+export async function apiRequest<T = any>(path: string, options: ApiRequestOptions = {}): Promise<T> {
+  const headers: Record<string, string> = {};
+
+  if (!options.anonymous) {
+    const { data: { session } } = await supabaseClient.auth.getSession();
+    if (!session) {
+      throw new ApiError('You are not signed in', 401, 'unauthenticated');
+    }
+    const impersonationToken = options.asSelf ? null : getImpersonationToken();
+    headers.Authorization = `Bearer ${impersonationToken || session.access_token}`;
+  }
+
+  if (options.body !== undefined) {
+    headers['Content-Type'] = 'application/json';
+  }
+
+  const response = await fetch(`${API_BASE_URL}${path}`, {
+    method: options.method || (options.body !== undefined ? 'POST' : 'GET'),
+    headers,
+    body: options.body !== undefined ? JSON.stringify(options.body) : undefined,
+  });
+
+  if (response.ok && options.responseType === 'blob') {
+    return (await response.blob()) as T;
+  }
+
+  const result = await response.json().catch(() => ({}));
+
+  if (!response.ok) {
+    const { error, code, ...details } = result || {};
+    // Signed out from another device or by an admin: drop the local session too
+    if (code === 'session_revoked') {
+      await supabaseClient.auth.signOut({ scope: 'local' }).catch(() => undefined);
+    }
+    if (code === 'impersonation_ended') {
+      setImpersonation(null);
+    }
+    throw new ApiError(error || `Request failed (${response.status})`, response.status, code, details);
+  }
+
+  return result as T;
+}
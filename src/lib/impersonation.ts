@@ -0,0 +1,41 @@
+// Active super-admin impersonation (server/src/routes/impersonation.ts).
+// While set, Supabase data requests and API calls use the impersonation token
+// instead of the signed-in session. Held in memory only, so a reload or a
+// new tab is back to the super admin's own access.
+
+export type ImpersonationMode = 'read_only' | 'read_write';
+
+export interface ActiveImpersonation {
+  id: string;
+  tenant_id: string;
+  tenant_name: string;
+  mode: ImpersonationMode;
+  reason: string;
+  expires_at: string;
+  token: string;
+}
+
+const listeners = new Set<(session: ActiveImpersonation | null) => void>();
+let current: ActiveImpersonation | null = null;
+
+export function getImpersonation() {
+  return current;
+}
+
+// Expired tokens are never sent; the server would refuse them anyway
+export function getImpersonationToken() {
+  if (!current || new Date(current.expires_at).getTime() <= Date.now()) return null;
+  return current.token;
+}
+
+export function setImpersonation(session: ActiveImpersonation | null) {
+  current = session;
+  listeners.forEach((listener) => listener(session));
+}
+
+export function subscribeImpersonation(listener: (session: ActiveImpersonation | null) => void) {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
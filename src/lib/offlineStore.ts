@@ -0,0 +1,89 @@
+// Minimal promise wrapper around IndexedDB for the offline clinician mode.
+// localStorage is too small for scanned label images, so everything offline
+// lives here instead.
+
+const DB_NAME = 'luminous-offline';
+const DB_VERSION = 1;
+
+export type OfflineStoreName =
+  | 'charts'      // chartId -> cached chart, patient and medications
+  | 'lists'       // cache key -> cached list responses (e.g. the dashboard patient list)
+  | 'images'      // medicationId -> scanned label image (data URL)
+  | 'queue'       // queued mutations, replayed in key order
+  | 'conflicts';  // mutations the server rejected as conflicting
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error('IndexedDB is not available in this browser'));
+      return;
+    }
+
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      for (const name of ['charts', 'lists', 'images', 'conflicts']) {
+        if (!db.objectStoreNames.contains(name)) db.createObjectStore(name);
+      }
+      if (!db.objectStoreNames.contains('queue')) {
+        db.createObjectStore('queue', { keyPath: 'seq', autoIncrement: true });
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      dbPromise = null;
+      reject(request.error);
+    };
+  });
+
+  return dbPromise;
+}
+
+function run<T>(
+  storeName: OfflineStoreName,
+  mode: IDBTransactionMode,
+  operation: (store: IDBObjectStore) => IDBRequest
+): Promise<T> {
+  return openDatabase().then(
+    (db) =>
+      new Promise<T>((resolve, reject) => {
+        const tx = db.transaction(storeName, mode);
+        const request = operation(tx.objectStore(storeName));
+        tx.oncomplete = () => resolve(request.result as T);
+        tx.onerror = () => reject(tx.error);
+        tx.onabort = () => reject(tx.error);
+      })
+  );
+}
+
+export function getItem<T>(storeName: OfflineStoreName, key: IDBValidKey) {
+  return run<T | undefined>(storeName, 'readonly', (store) => store.get(key));
+}
+
+// Stores without a keyPath need a key; 'queue' generates its own
+export function putItem<T>(storeName: OfflineStoreName, value: T, key?: IDBValidKey) {
+  return run<IDBValidKey>(storeName, 'readwrite', (store) =>
+    key === undefined ? store.put(value) : store.put(value, key)
+  );
+}
+
+export function deleteItem(storeName: OfflineStoreName, key: IDBValidKey) {
+  return run<undefined>(storeName, 'readwrite', (store) => store.delete(key));
+}
+
+export function getAllItems<T>(storeName: OfflineStoreName) {
+  return run<T[]>(storeName, 'readonly', (store) => store.getAll());
+}
+
+export function getAllKeys(storeName: OfflineStoreName) {
+  return run<IDBValidKey[]>(storeName, 'readonly', (store) => store.getAllKeys());
+}
+
+export function clearStore(storeName: OfflineStoreName) {
+  return run<undefined>(storeName, 'readwrite', (store) => store.clear());
+}
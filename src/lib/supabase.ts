@@ -1,4 +1,5 @@
 import { createClient } from '@supabase/supabase-js';
+import { getImpersonationToken } from './impersonation';
 
 const supabaseUrl = import.meta.env.VITE_SUPABASE_URL ?? '';
 const supabaseAnonKey = import.meta.env.VITE_SUPABASE_ANON_KEY ?? '';
@@ -7,5 +8,19 @@ if (!supabaseUrl || !supabaseAnonKey) {
   throw new Error('Missing Supabase environment variables');
 }
 
+// Data requests made while impersonating carry the impersonation token;
+// auth endpoints keep using the super admin's own session.
+const impersonationAwareFetch: typeof fetch = (input, init) => {
+  const token = getImpersonationToken();
+  const url = typeof input === 'string' ? input : input instanceof URL ? input.href : input.url;
+  if (!token || url.includes('/auth/v1/')) return fetch(input, init);
+
+  const headers = new Headers(init?.headers);
+  headers.set('Authorization', `Bearer ${token}`);
+  return fetch(input, { ...init, headers });
+};
+
 // v2 - Cache bust for GitHub Pages deployment
-export const supabaseClient = createClient(supabaseUrl, supabaseAnonKey);
\ No newline at end of file
+export const supabaseClient = createClient(supabaseUrl, supabaseAnonKey, {
+  global: { fetch: impersonationAwareFetch },
+});
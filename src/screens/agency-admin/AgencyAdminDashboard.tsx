@@ -110,6 +110,7 @@ import jsPDF from 'jspdf';
 import ClinicianDetailView from './ClinicianDetailView';
 import AgencyPatientsView from './AgencyPatientsView';
 import AgencyUsersView from './AgencyUsersView';
+import AuditLogViewer from '../../components/AuditLogViewer';
 import {
   fetchAllChartsForAdmin,
   fetchAllUsers,
@@ -365,6 +366,7 @@ export default function AgencyAdminDashboard({ navigation }: Props) {
   const [charts, setCharts] = useState<any[]>([]);
   const [patients, setPatients] = useState<any[]>([]);
   const [users, setUsers] = useState<any[]>([]);
+  const [auditTrailChart, setAuditTrailChart] = useState<{ id: string; patientName: string } | null>(null);
   const [tenantName, setTenantName] = useState('Loading...');
   const [loading, setLoading] = useState(true);
   const [stats, setStats] = useState({
@@ -749,7 +751,8 @@ export default function AgencyAdminDashboard({ navigation }: Props) {
   };
 
   const handleViewAuditLog = (chartId: string) => {
-    toast.info('Audit log view coming soon');
+    const chart = transformedCharts.find(c => c.id === chartId);
+    setAuditTrailChart({ id: chartId, patientName: chart?.patientName || '' });
   };
 
   const getFilteredCharts = () => {
@@ -2614,6 +2617,25 @@ export default function AgencyAdminDashboard({ navigation }: Props) {
           </DialogContent>
         </Dialog>
 
+        {/* Chart Audit Trail Dialog */}
+        <Dialog open={!!auditTrailChart} onOpenChange={(open) => !open && setAuditTrailChart(null)}>
+          <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+            <DialogHeader>
+              <DialogTitle>Audit Trail</DialogTitle>
+              <DialogDescription>
+                Everything recorded for {auditTrailChart?.patientName ? `${auditTrailChart.patientName}'s chart` : 'this chart'}, including its medications and documents
+              </DialogDescription>
+            </DialogHeader>
+            {auditTrailChart && (
+              <AuditLogViewer
+                scope={{ chartId: auditTrailChart.id }}
+                actors={users.map((u) => ({ id: u.id, name: `${u.first_name} ${u.last_name}` }))}
+                pageSize={15}
+              />
+            )}
+          </DialogContent>
+        </Dialog>
+
         {/* Password Change Dialog */}
         <Dialog open={showPasswordDialog} onOpenChange={setShowPasswordDialog}>
           <DialogContent>
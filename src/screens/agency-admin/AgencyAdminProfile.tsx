@@ -58,6 +58,9 @@ import {
   TooltipTrigger,
 } from '../../components/ui/tooltip';
 import { Screen, NavigationParams } from '../../App';
+import MfaSetupDialog from '../../components/MfaSetupDialog';
+import ActiveSessionsDialog from '../../components/ActiveSessionsDialog';
+import { fetchMySessions } from '../../services/sessionService';
 import { toast } from 'sonner';
 
 interface Props {
@@ -67,21 +70,13 @@ interface Props {
   };
 }
 
-interface LoginSession {
-  id: string;
-  device: string;
-  location: string;
-  ip: string;
-  lastActive: string;
-  current: boolean;
-}
-
 export default function AgencyAdminProfile({ navigation }: Props) {
   const { user } = useAuth();
   const [mfaEnabled, setMfaEnabled] = useState(false);
   const [showPasswordDialog, setShowPasswordDialog] = useState(false);
   const [showMFADialog, setShowMFADialog] = useState(false);
   const [showDevicesDialog, setShowDevicesDialog] = useState(false);
+  const [sessionCount, setSessionCount] = useState<number | null>(null);
   const [showAgencyDialog, setShowAgencyDialog] = useState(false);
   const [loading, setLoading] = useState(true);
   const [saving, setSaving] = useState(false);
@@ -96,6 +91,12 @@ export default function AgencyAdminProfile({ navigation }: Props) {
     }
   }, [user]);
 
+  useEffect(() => {
+    fetchMySessions()
+      .then((sessions) => setSessionCount(sessions.length))
+      .catch((error) => console.error('Error loading sessions:', error));
+  }, []);
+
   const loadProfileData = async () => {
     if (!user?.id || !user?.tenant_id) return;
     
@@ -162,33 +163,6 @@ export default function AgencyAdminProfile({ navigation }: Props) {
     { name: 'System configuration', granted: false },
   ];
 
-  const loginSessions: LoginSession[] = [
-    {
-      id: '1',
-      device: 'Chrome on Windows',
-      location: 'Phoenix, AZ',
-      ip: '192.168.1.1',
-      lastActive: 'Active now',
-      current: true,
-    },
-    {
-      id: '2',
-      device: 'Safari on iPhone',
-      location: 'Phoenix, AZ',
-      ip: '192.168.1.45',
-      lastActive: '2 hours ago',
-      current: false,
-    },
-    {
-      id: '3',
-      device: 'Chrome on MacBook',
-      location: 'Scottsdale, AZ',
-      ip: '10.0.0.23',
-      lastActive: 'Yesterday',
-      current: false,
-    },
-  ];
-
   const handleAvatarUpload = () => {
     toast.success('Avatar upload feature coming soon');
   };
@@ -208,25 +182,10 @@ export default function AgencyAdminProfile({ navigation }: Props) {
     }
   };
 
-  const handleToggleMFA = async (enabled: boolean) => {
-    if (!user?.id) return;
-    
-    try {
-      if (enabled) {
-        setShowMFADialog(true);
-      } else {
-        await userProfileService.updateMFASettings(user.id, false);
-        setMfaEnabled(false);
-        toast.info('Two-factor authentication disabled');
-      }
-    } catch (error) {
-      console.error('Error toggling MFA:', error);
-      toast.error('Failed to update MFA settings');
-    }
-  };
-
-  const handleRevokeSession = (sessionId: string) => {
-    toast.success('Session revoked successfully');
+  // Either direction goes through the dialog: enabling needs enrollment,
+  // disabling needs a current code
+  const handleToggleMFA = () => {
+    setShowMFADialog(true);
   };
 
   return (
@@ -474,7 +433,9 @@ export default function AgencyAdminProfile({ navigation }: Props) {
                   </div>
                   <div>
                     <p className="text-sm text-[#0f172a] mb-1">Active Sessions</p>
-                    <p className="text-xs text-[#64748b]">{loginSessions.length} devices signed in</p>
+                    <p className="text-xs text-[#64748b]">{sessionCount === null
+                        ? 'Devices where you are signed in'
+                        : `${sessionCount} device${sessionCount !== 1 ? 's' : ''} signed in`}</p>
                   </div>
                 </div>
                 <Button
@@ -695,106 +656,19 @@ export default function AgencyAdminProfile({ navigation }: Props) {
       </Dialog>
 
       {/* MFA Setup Dialog */}
-      <Dialog open={showMFADialog} onOpenChange={setShowMFADialog}>
-        <DialogContent>
-          <DialogHeader>
-            <DialogTitle>Enable Two-Factor Authentication</DialogTitle>
-            <DialogDescription>
-              Scan the QR code with your authenticator app
-            </DialogDescription>
-          </DialogHeader>
-          <div className="space-y-4 py-4">
-            <div className="w-48 h-48 bg-slate-100 rounded-lg mx-auto flex items-center justify-center">
-              <p className="text-sm text-slate-500">QR Code Here</p>
-            </div>
-            <div className="space-y-2">
-              <label className="text-sm font-medium text-[#0f172a]">Verification Code</label>
-              <input
-                type="text"
-                className="w-full h-10 px-3 rounded-lg border border-slate-300 focus:outline-none focus:ring-2 focus:ring-[#10B981]"
-                placeholder="Enter 6-digit code"
-              />
-            </div>
-          </div>
-          <DialogFooter>
-            <Button variant="outline" onClick={() => setShowMFADialog(false)}>
-              Cancel
-            </Button>
-            <Button
-              className="bg-[#10B981] hover:bg-[#059669]"
-              onClick={() => {
-                setShowMFADialog(false);
-                toast.success('Two-factor authentication enabled');
-              }}
-            >
-              Verify & Enable
-            </Button>
-          </DialogFooter>
-        </DialogContent>
-      </Dialog>
+      <MfaSetupDialog
+        open={showMFADialog}
+        onOpenChange={setShowMFADialog}
+        enabled={mfaEnabled}
+        onEnabledChange={setMfaEnabled}
+      />
 
       {/* Active Devices Dialog */}
-      <Dialog open={showDevicesDialog} onOpenChange={setShowDevicesDialog}>
-        <DialogContent className="max-w-2xl">
-          <DialogHeader>
-            <DialogTitle>Active Sessions</DialogTitle>
-            <DialogDescription>
-              Manage devices where you're currently signed in
-            </DialogDescription>
-          </DialogHeader>
-          <div className="space-y-3 py-4 max-h-96 overflow-y-auto">
-            {loginSessions.map((session) => (
-              <Card key={session.id} className="p-4">
-                <div className="flex items-start justify-between gap-4">
-                  <div className="flex items-start gap-3 flex-1">
-                    <div className="w-10 h-10 rounded-xl bg-[#DBEAFE] flex items-center justify-center flex-shrink-0">
-                      <Monitor className="w-5 h-5 text-[#0966CC]" />
-                    </div>
-                    <div className="flex-1">
-                      <div className="flex items-center gap-2 mb-1">
-                        <p className="text-sm font-medium text-[#0f172a]">{session.device}</p>
-                        {session.current && (
-                          <Badge variant="outline" className="border-[#10B981] text-[#10B981] text-xs h-5">
-                            Current
-                          </Badge>
-                        )}
-                      </div>
-                      <p className="text-xs text-[#64748b]">📍 {session.location}</p>
-                      <p className="text-xs text-[#64748b]">IP: {session.ip}</p>
-                      <p className="text-xs text-[#64748b]">{session.lastActive}</p>
-                    </div>
-                  </div>
-                  {!session.current && (
-                    <Button
-                      variant="ghost"
-                      size="sm"
-                      onClick={() => handleRevokeSession(session.id)}
-                      className="text-red-600 hover:text-red-700 hover:bg-red-50"
-                    >
-                      Revoke
-                    </Button>
-                  )}
-                </div>
-              </Card>
-            ))}
-          </div>
-          <DialogFooter>
-            <Button variant="outline" onClick={() => setShowDevicesDialog(false)}>
-              Close
-            </Button>
-            <Button
-              variant="destructive"
-              onClick={() => {
-                toast.success('All other sessions revoked');
-                setShowDevicesDialog(false);
-              }}
-            >
-              <AlertTriangle className="w-4 h-4 mr-2" />
-              Revoke All Others
-            </Button>
-          </DialogFooter>
-        </DialogContent>
-      </Dialog>
+      <ActiveSessionsDialog
+        open={showDevicesDialog}
+        onOpenChange={setShowDevicesDialog}
+        onSessionsChange={(sessions) => setSessionCount(sessions.length)}
+      />
 
       {/* Agency Details Dialog */}
       <Dialog open={showAgencyDialog} onOpenChange={setShowAgencyDialog}>
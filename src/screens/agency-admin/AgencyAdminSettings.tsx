@@ -22,6 +22,9 @@ import {
   Settings as SettingsIcon,
   Download,
   FileSpreadsheet,
+  KeyRound,
+  Timer,
+  Archive,
 } from 'lucide-react';
 import { Button } from '../../components/ui/button';
 import { Input } from '../../components/ui/input';
@@ -38,9 +41,33 @@ import {
   DialogHeader,
   DialogTitle,
 } from '../../components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '../../components/ui/select';
 import { Screen, NavigationParams } from '../../App';
+import MfaSetupDialog from '../../components/MfaSetupDialog';
+import ActiveSessionsDialog from '../../components/ActiveSessionsDialog';
+import SsoSettingsDialog from '../../components/SsoSettingsDialog';
+import DataRetentionDialog from '../../components/DataRetentionDialog';
+import { getTenantSsoConfig } from '../../services/ssoService';
+import type { TenantSsoSettings } from '../../services/ssoService';
+import { fetchMySessions } from '../../services/sessionService';
+import { getMfaStatus, setTenantMfaPolicy } from '../../services/mfaService';
+import { fetchTenantSecuritySettings, setTenantIdleTimeout } from '../../services/tenantSecurityService';
 import { toast } from 'sonner';
 
+const IDLE_TIMEOUT_OPTIONS = [5, 10, 15, 30, 60, 120, 240, 480];
+
+function formatMinutes(minutes: number) {
+  if (minutes < 60) return `${minutes} minutes`;
+  const hours = minutes / 60;
+  return `${hours} hour${hours === 1 ? '' : 's'}`;
+}
+
 interface Props {
   navigation: {
     navigate: (screen: Screen, params?: NavigationParams) => void;
@@ -53,7 +80,15 @@ export default function AgencyAdminSettings({ navigation }: Props) {
   const [isChangePasswordModalOpen, setIsChangePasswordModalOpen] = useState(false);
   const [mfaEnabled, setMfaEnabled] = useState(false);
   const [showMFADialog, setShowMFADialog] = useState(false);
+  const [tenantRequiresMfa, setTenantRequiresMfa] = useState(false);
+  const [savingMfaPolicy, setSavingMfaPolicy] = useState(false);
   const [showDevicesDialog, setShowDevicesDialog] = useState(false);
+  const [sessionCount, setSessionCount] = useState<number | null>(null);
+  const [showSsoDialog, setShowSsoDialog] = useState(false);
+  const [ssoSettings, setSsoSettings] = useState<TenantSsoSettings | null>(null);
+  const [idleTimeoutMinutes, setIdleTimeoutMinutes] = useState<number | null>(null);
+  const [savingIdleTimeout, setSavingIdleTimeout] = useState(false);
+  const [showRetentionDialog, setShowRetentionDialog] = useState(false);
   const [saving, setSaving] = useState(false);
   const [passwordData, setPasswordData] = useState({
     currentPassword: '',
@@ -67,6 +102,32 @@ export default function AgencyAdminSettings({ navigation }: Props) {
     }
   }, [user]);
 
+  useEffect(() => {
+    fetchMySessions()
+      .then((sessions) => setSessionCount(sessions.length))
+      .catch((error) => console.error('Error loading sessions:', error));
+  }, []);
+
+  useEffect(() => {
+    getMfaStatus()
+      .then((status) => setTenantRequiresMfa(status.required_by_tenant))
+      .catch((error) => console.error('Error loading MFA status:', error));
+  }, []);
+
+  useEffect(() => {
+    if (!user?.tenant_id) return;
+    getTenantSsoConfig(user.tenant_id)
+      .then(setSsoSettings)
+      .catch((error) => console.error('Error loading SSO settings:', error));
+  }, [user?.tenant_id]);
+
+  useEffect(() => {
+    if (!user?.tenant_id) return;
+    fetchTenantSecuritySettings(user.tenant_id)
+      .then((settings) => setIdleTimeoutMinutes(settings.idle_timeout_minutes))
+      .catch((error) => console.error('Error loading security settings:', error));
+  }, [user?.tenant_id]);
+
   const profileData = {
     lastPasswordChange: '30 days ago',
     lastLogin: 'Phoenix, AZ',
@@ -83,33 +144,6 @@ export default function AgencyAdminSettings({ navigation }: Props) {
     { name: 'System configuration', granted: false, action: null },
   ];
 
-  const loginSessions = [
-    {
-      id: '1',
-      device: 'Chrome on Windows',
-      location: 'Phoenix, AZ',
-      ip: '192.168.1.1',
-      lastActive: 'Active now',
-      current: true,
-    },
-    {
-      id: '2',
-      device: 'Safari on iPhone',
-      location: 'Phoenix, AZ',
-      ip: '192.168.1.45',
-      lastActive: '2 hours ago',
-      current: false,
-    },
-    {
-      id: '3',
-      device: 'Chrome on MacBook',
-      location: 'Scottsdale, AZ',
-      ip: '10.0.0.23',
-      lastActive: 'Yesterday',
-      current: false,
-    },
-  ];
-
   const handleChangePassword = async () => {
     if (!user?.id) return;
     
@@ -143,25 +177,45 @@ export default function AgencyAdminSettings({ navigation }: Props) {
     }
   };
 
-  const handleToggleMFA = async (enabled: boolean) => {
-    if (!user?.id) return;
-    
+  const handleToggleTenantMfa = async (required: boolean) => {
+    if (!user?.tenant_id) return;
+    if (required && !mfaEnabled) {
+      toast.error('Set up two-factor authentication on your own account first');
+      return;
+    }
+
     try {
-      if (enabled) {
-        setShowMFADialog(true);
-      } else {
-        await userProfileService.updateMFASettings(user.id, false);
-        setMfaEnabled(false);
-        toast.info('Two-factor authentication disabled');
-      }
-    } catch (error) {
-      console.error('Error toggling MFA:', error);
-      toast.error('Failed to update MFA settings');
+      setSavingMfaPolicy(true);
+      const policy = await setTenantMfaPolicy(user.tenant_id, required);
+      setTenantRequiresMfa(policy.require_mfa);
+      toast.success(required ? 'Two-factor authentication is now required for all staff' : 'Two-factor requirement removed');
+    } catch (error: any) {
+      console.error('Error updating MFA policy:', error);
+      toast.error(error.message || 'Failed to update MFA policy');
+    } finally {
+      setSavingMfaPolicy(false);
     }
   };
 
-  const handleRevokeSession = (sessionId: string) => {
-    toast.success('Session revoked successfully');
+  const handleChangeIdleTimeout = async (value: string) => {
+    if (!user?.tenant_id) return;
+    try {
+      setSavingIdleTimeout(true);
+      const settings = await setTenantIdleTimeout(user.tenant_id, Number(value));
+      setIdleTimeoutMinutes(settings.idle_timeout_minutes);
+      toast.success(`Staff will be signed out after ${formatMinutes(settings.idle_timeout_minutes)} of inactivity`);
+    } catch (error: any) {
+      console.error('Error updating idle timeout:', error);
+      toast.error(error.message || 'Failed to update automatic sign-out');
+    } finally {
+      setSavingIdleTimeout(false);
+    }
+  };
+
+  // Either direction goes through the dialog: enabling needs enrollment,
+  // disabling needs a current code
+  const handleToggleMFA = () => {
+    setShowMFADialog(true);
   };
 
   const ToggleSwitch = ({ enabled, onToggle }: { enabled: boolean; onToggle: () => void }) => (
@@ -276,6 +330,127 @@ export default function AgencyAdminSettings({ navigation }: Props) {
 
               <Separator />
 
+              {/* Tenant MFA Policy */}
+              <div className="flex items-center justify-between">
+                <div className="flex items-start gap-3">
+                  <div className="w-10 h-10 rounded-xl bg-[#DBEAFE] flex items-center justify-center flex-shrink-0">
+                    <Shield className="w-5 h-5 text-[#0966CC]" />
+                  </div>
+                  <div>
+                    <p className="text-sm text-[#0f172a] mb-1">Require Two-Factor for All Staff</p>
+                    <p className="text-xs text-[#64748b]">
+                      {tenantRequiresMfa
+                        ? 'Everyone in your agency must verify with an authenticator app'
+                        : 'Staff without two-factor will be asked to set it up at sign-in'}
+                    </p>
+                  </div>
+                </div>
+                <Switch
+                  checked={tenantRequiresMfa}
+                  onCheckedChange={handleToggleTenantMfa}
+                  disabled={savingMfaPolicy}
+                  className="data-[state=checked]:bg-[#0966CC]"
+                />
+              </div>
+
+              <Separator />
+
+              {/* Single Sign-On */}
+              <div className="flex items-center justify-between">
+                <div className="flex items-start gap-3">
+                  <div className="w-10 h-10 rounded-xl bg-[#E0F2FE] flex items-center justify-center flex-shrink-0">
+                    <KeyRound className="w-5 h-5 text-[#0284C7]" />
+                  </div>
+                  <div>
+                    <div className="flex items-center gap-2 mb-1">
+                      <p className="text-sm text-[#0f172a]">Single Sign-On</p>
+                      {ssoSettings?.enforced && (
+                        <Badge variant="outline" className="border-[#0284C7] text-[#0284C7] text-xs h-5">
+                          Required
+                        </Badge>
+                      )}
+                    </div>
+                    <p className="text-xs text-[#64748b]">
+                      {ssoSettings?.config?.enabled
+                        ? `Staff sign in through your ${ssoSettings.config.protocol.toUpperCase()} identity provider`
+                        : 'Sign in through your own identity provider'}
+                    </p>
+                  </div>
+                </div>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => setShowSsoDialog(true)}
+                  className="text-[#0284C7] hover:text-[#0369A1] hover:bg-[#E0F2FE]"
+                >
+                  Configure
+                </Button>
+              </div>
+
+              <Separator />
+
+              {/* Idle Timeout */}
+              <div className="flex items-center justify-between gap-4">
+                <div className="flex items-start gap-3">
+                  <div className="w-10 h-10 rounded-xl bg-[#FCE7F3] flex items-center justify-center flex-shrink-0">
+                    <Timer className="w-5 h-5 text-[#DB2777]" />
+                  </div>
+                  <div>
+                    <p className="text-sm text-[#0f172a] mb-1">Automatic Sign-Out</p>
+                    <p className="text-xs text-[#64748b]">
+                      Inactive staff are signed out and offline charts are removed from their device. Takes effect
+                      at each user's next sign-in.
+                    </p>
+                  </div>
+                </div>
+                <Select
+                  value={idleTimeoutMinutes ? String(idleTimeoutMinutes) : undefined}
+                  onValueChange={handleChangeIdleTimeout}
+                  disabled={idleTimeoutMinutes === null || savingIdleTimeout}
+                >
+                  <SelectTrigger className="w-36 flex-shrink-0">
+                    <SelectValue placeholder="Loading…" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {/* Keep a value set outside these options selectable */}
+                    {[...new Set([...IDLE_TIMEOUT_OPTIONS, ...(idleTimeoutMinutes ? [idleTimeoutMinutes] : [])])]
+                      .sort((a, b) => a - b)
+                      .map((minutes) => (
+                        <SelectItem key={minutes} value={String(minutes)}>
+                          {formatMinutes(minutes)}
+                        </SelectItem>
+                      ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <Separator />
+
+              {/* Data Retention */}
+              <div className="flex items-center justify-between">
+                <div className="flex items-start gap-3">
+                  <div className="w-10 h-10 rounded-xl bg-[#EDE9FE] flex items-center justify-center flex-shrink-0">
+                    <Archive className="w-5 h-5 text-[#7C3AED]" />
+                  </div>
+                  <div>
+                    <p className="text-sm text-[#0f172a] mb-1">Data Retention</p>
+                    <p className="text-xs text-[#64748b]">
+                      How long records are kept, legal holds, and restoring deleted charts and documents
+                    </p>
+                  </div>
+                </div>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => setShowRetentionDialog(true)}
+                  className="text-[#7C3AED] hover:text-[#6D28D9] hover:bg-[#EDE9FE]"
+                >
+                  Configure
+                </Button>
+              </div>
+
+              <Separator />
+
               {/* Last Login */}
               <div className="flex items-start gap-3">
                 <div className="w-10 h-10 rounded-xl bg-[#FEF3C7] flex items-center justify-center flex-shrink-0">
@@ -298,7 +473,9 @@ export default function AgencyAdminSettings({ navigation }: Props) {
                   </div>
                   <div>
                     <p className="text-sm text-[#0f172a] mb-1">Active Sessions</p>
-                    <p className="text-xs text-[#64748b]">{loginSessions.length} devices signed in</p>
+                    <p className="text-xs text-[#64748b]">{sessionCount === null
+                        ? 'Devices where you are signed in'
+                        : `${sessionCount} device${sessionCount !== 1 ? 's' : ''} signed in`}</p>
                   </div>
                 </div>
                 <Button
@@ -450,106 +627,39 @@ export default function AgencyAdminSettings({ navigation }: Props) {
       </Dialog>
 
       {/* MFA Setup Dialog */}
-      <Dialog open={showMFADialog} onOpenChange={setShowMFADialog}>
-        <DialogContent>
-          <DialogHeader>
-            <DialogTitle>Enable Two-Factor Authentication</DialogTitle>
-            <DialogDescription>
-              Scan the QR code with your authenticator app
-            </DialogDescription>
-          </DialogHeader>
-          <div className="space-y-4 py-4">
-            <div className="w-48 h-48 bg-slate-100 rounded-lg mx-auto flex items-center justify-center">
-              <p className="text-sm text-slate-500">QR Code Here</p>
-            </div>
-            <div className="space-y-2">
-              <label className="text-sm font-medium text-[#0f172a]">Verification Code</label>
-              <input
-                type="text"
-                className="w-full h-10 px-3 rounded-lg border border-slate-300 focus:outline-none focus:ring-2 focus:ring-[#10B981]"
-                placeholder="Enter 6-digit code"
-              />
-            </div>
-          </div>
-          <DialogFooter>
-            <Button variant="outline" onClick={() => setShowMFADialog(false)}>
-              Cancel
-            </Button>
-            <Button
-              className="bg-[#10B981] hover:bg-[#059669]"
-              onClick={() => {
-                setShowMFADialog(false);
-                toast.success('Two-factor authentication enabled');
-              }}
-            >
-              Verify & Enable
-            </Button>
-          </DialogFooter>
-        </DialogContent>
-      </Dialog>
+      <MfaSetupDialog
+        open={showMFADialog}
+        onOpenChange={setShowMFADialog}
+        enabled={mfaEnabled}
+        onEnabledChange={setMfaEnabled}
+      />
 
       {/* Active Devices Dialog */}
-      <Dialog open={showDevicesDialog} onOpenChange={setShowDevicesDialog}>
-        <DialogContent className="max-w-2xl">
-          <DialogHeader>
-            <DialogTitle>Active Sessions</DialogTitle>
-            <DialogDescription>
-              Manage devices where you're currently signed in
-            </DialogDescription>
-          </DialogHeader>
-          <div className="space-y-3 py-4 max-h-96 overflow-y-auto">
-            {loginSessions.map((session) => (
-              <Card key={session.id} className="p-4">
-                <div className="flex items-start justify-between gap-4">
-                  <div className="flex items-start gap-3 flex-1">
-                    <div className="w-10 h-10 rounded-xl bg-[#DBEAFE] flex items-center justify-center flex-shrink-0">
-                      <Monitor className="w-5 h-5 text-[#0966CC]" />
-                    </div>
-                    <div className="flex-1">
-                      <div className="flex items-center gap-2 mb-1">
-                        <p className="text-sm font-medium text-[#0f172a]">{session.device}</p>
-                        {session.current && (
-                          <Badge variant="outline" className="border-[#10B981] text-[#10B981] text-xs h-5">
-                            Current
-                          </Badge>
-                        )}
-                      </div>
-                      <p className="text-xs text-[#64748b]">📍 {session.location}</p>
-                      <p className="text-xs text-[#64748b]">IP: {session.ip}</p>
-                      <p className="text-xs text-[#64748b]">{session.lastActive}</p>
-                    </div>
-                  </div>
-                  {!session.current && (
-                    <Button
-                      variant="ghost"
-                      size="sm"
-                      onClick={() => handleRevokeSession(session.id)}
-                      className="text-red-600 hover:text-red-700 hover:bg-red-50"
-                    >
-                      Revoke
-                    </Button>
-                  )}
-                </div>
-              </Card>
-            ))}
-          </div>
-          <DialogFooter>
-            <Button variant="outline" onClick={() => setShowDevicesDialog(false)}>
-              Close
-            </Button>
-            <Button
-              variant="destructive"
-              onClick={() => {
-                toast.success('All other sessions revoked');
-                setShowDevicesDialog(false);
-              }}
-            >
-              <AlertTriangle className="w-4 h-4 mr-2" />
-              Revoke All Others
-            </Button>
-          </DialogFooter>
-        </DialogContent>
-      </Dialog>
+      <ActiveSessionsDialog
+        open={showDevicesDialog}
+        onOpenChange={setShowDevicesDialog}
+        onSessionsChange={(sessions) => setSessionCount(sessions.length)}
+      />
+
+      {/* Single Sign-On Dialog */}
+      {user?.tenant_id && (
+        <SsoSettingsDialog
+          open={showSsoDialog}
+          onOpenChange={setShowSsoDialog}
+          tenantId={user.tenant_id}
+          canGrantSuperAdmin={user.role === 'super_admin'}
+          onSaved={setSsoSettings}
+        />
+      )}
+
+      {/* Data Retention Dialog */}
+      {user?.tenant_id && (
+        <DataRetentionDialog
+          open={showRetentionDialog}
+          onOpenChange={setShowRetentionDialog}
+          tenantId={user.tenant_id}
+        />
+      )}
     </div>
   );
 }
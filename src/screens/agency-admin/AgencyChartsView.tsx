@@ -193,7 +193,7 @@ export default function AgencyChartsView({ navigation }: Props) {
 
     try {
       setApprovingChartId(chartId);
-      await approveChart(chartId, user.id);
+      await approveChart(chartId);
       toast.success('Chart approved and locked successfully');
       // Optionally refresh the charts list or update local state
     } catch (error: any) {
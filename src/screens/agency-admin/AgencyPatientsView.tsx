@@ -17,6 +17,9 @@ import {
   Check,
   X,
   RefreshCw,
+  History,
+  Download,
+  GitMerge,
 } from 'lucide-react';
 import { Avatar, AvatarFallback } from '../../components/ui/avatar';
 import { Badge } from '../../components/ui/badge';
@@ -42,9 +45,12 @@ import {
 import { toast } from 'sonner';
 import { fetchAllPatients, fetchAllUsers } from '../../services/agencyAdminService';
 import { createPatient, createChart } from '../../services/schedulerService';
+import { downloadPatientExport, lookupPatients, updatePatientRecord } from '../../services/patientService';
 import { useAuth } from '../../context/AuthContext';
 import { getSignedDocumentUrl } from '../../services/documentService';
 import { supabaseClient } from '../../lib/supabase';
+import PatientAccessLogDialog from '../../components/PatientAccessLogDialog';
+import PatientMergeDialog from '../../components/PatientMergeDialog';
 
 interface Props {
   // Props can be added as needed
@@ -133,6 +139,9 @@ export default function AgencyPatientsView({}: Props) {
   const [signedUrl, setSignedUrl] = useState<string>('');
   const [loadingSignedUrl, setLoadingSignedUrl] = useState(false);
   const [isAssignClinicianModalOpen, setIsAssignClinicianModalOpen] = useState(false);
+  const [accessLogPatient, setAccessLogPatient] = useState<Patient | null>(null);
+  const [exportingPatientId, setExportingPatientId] = useState<string | null>(null);
+  const [mergePatient, setMergePatient] = useState<Patient | null>(null);
   const [selectedClinicianId, setSelectedClinicianId] = useState('');
   const [isEditPatientModalOpen, setIsEditPatientModalOpen] = useState(false);
   const [editPatient, setEditPatient] = useState({
@@ -255,25 +264,12 @@ export default function AgencyPatientsView({}: Props) {
     
     try {
       // Check if patient already exists
-      const { data: existingPatients, error: searchError } = await supabaseClient
-        .from('patients')
-        .select(`
-          id, 
-          first_name, 
-          last_name, 
-          date_of_birth,
-          charts (
-            id,
-            status,
-            created_at
-          )
-        `)
-        .eq('tenant_id', user.tenant_id)
-        .eq('first_name', newPatient.firstName)
-        .eq('last_name', newPatient.lastName)
-        .eq('date_of_birth', newPatient.dob);
-
-      if (searchError) {
+      let existingPatients;
+      try {
+        existingPatients = await lookupPatients(user.tenant_id, newPatient.firstName, newPatient.lastName, newPatient.dob, {
+          includeCharts: true,
+        });
+      } catch (searchError) {
         console.error('Error searching for existing patient:', searchError);
         toast.error('Failed to check for existing patient');
         return;
@@ -307,19 +303,12 @@ export default function AgencyPatientsView({}: Props) {
           zip_code: newPatient.zipCode || undefined,
           phone: newPatient.phone || undefined,
           email: newPatient.email || undefined,
+          assigned_clinician_id: newPatient.assignedClinician || undefined,
         };
         
-        const createdPatient = await createPatient(patientData, user.tenant_id, user.id);
+        const createdPatient = await createPatient(patientData, user.tenant_id);
         patientId = createdPatient.id;
         isNewPatient = true;
-        
-        // If a clinician was assigned, update the patient
-        if (newPatient.assignedClinician) {
-          await supabaseClient
-            .from('patients')
-            .update({ assigned_clinician_id: newPatient.assignedClinician })
-            .eq('id', patientId);
-        }
       }
       
       // Create a chart for the patient
@@ -377,6 +366,19 @@ export default function AgencyPatientsView({}: Props) {
     handleViewDocument(patient.documents[0]);
   };
 
+  const handleExportPatient = async (patient: Patient) => {
+    setExportingPatientId(patient.id);
+    try {
+      await downloadPatientExport(patient.id, patient.name);
+      toast.success('Patient record exported');
+    } catch (error: any) {
+      console.error('Error exporting patient record:', error);
+      toast.error(error.message || 'Failed to export patient record');
+    } finally {
+      setExportingPatientId(null);
+    }
+  };
+
   const handleViewDocument = async (doc: Document) => {
     setViewingDocument(doc);
     setIsViewDocModalOpen(true);
@@ -384,7 +386,7 @@ export default function AgencyPatientsView({}: Props) {
     
     try {
       if (doc.file_url) {
-        const url = await getSignedDocumentUrl(doc.file_url);
+        const url = await getSignedDocumentUrl(doc.id);
         setSignedUrl(url);
       } else {
         toast.error('Document URL not available');
@@ -392,7 +394,8 @@ export default function AgencyPatientsView({}: Props) {
       }
     } catch (error) {
       console.error('Error getting signed URL:', error);
-      setSignedUrl(doc.file_url || '');
+      toast.error(error instanceof Error ? error.message : 'Could not open document');
+      setSignedUrl('');
     } finally {
       setLoadingSignedUrl(false);
     }
@@ -477,7 +480,7 @@ export default function AgencyPatientsView({}: Props) {
     }
     
     try {
-      const updateData: any = {
+      await updatePatientRecord(editPatient.id, {
         first_name: editPatient.firstName,
         last_name: editPatient.lastName,
         date_of_birth: editPatient.dob,
@@ -489,14 +492,7 @@ export default function AgencyPatientsView({}: Props) {
         phone: editPatient.phone || null,
         email: editPatient.email || null,
         assigned_clinician_id: editPatient.assignedClinician || null,
-      };
-      
-      const { error } = await supabaseClient
-        .from('patients')
-        .update(updateData)
-        .eq('id', editPatient.id);
-      
-      if (error) throw error;
+      });
       
       toast.success(`Patient "${editPatient.firstName} ${editPatient.lastName}" updated successfully`);
       setIsEditPatientModalOpen(false);
@@ -700,6 +696,34 @@ export default function AgencyPatientsView({}: Props) {
                     <Edit className="w-4 h-4 mr-2" />
                     Edit
                   </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setAccessLogPatient(patient)}
+                    className="border-[#64748b] text-[#64748b] hover:bg-[#f8fafc]"
+                  >
+                    <History className="w-4 h-4 mr-2" />
+                    Access Log
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => handleExportPatient(patient)}
+                    disabled={exportingPatientId === patient.id}
+                    className="border-[#64748b] text-[#64748b] hover:bg-[#f8fafc]"
+                  >
+                    <Download className="w-4 h-4 mr-2" />
+                    {exportingPatientId === patient.id ? 'Exporting...' : 'Export Record'}
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setMergePatient(patient)}
+                    className="border-[#64748b] text-[#64748b] hover:bg-[#f8fafc]"
+                  >
+                    <GitMerge className="w-4 h-4 mr-2" />
+                    Duplicates
+                  </Button>
                 </div>
               </div>
             </Card>
@@ -716,6 +740,25 @@ export default function AgencyPatientsView({}: Props) {
         </Card>
       )}
 
+      {accessLogPatient && (
+        <PatientAccessLogDialog
+          open={!!accessLogPatient}
+          onOpenChange={(open) => !open && setAccessLogPatient(null)}
+          patientId={accessLogPatient.id}
+          patientName={accessLogPatient.name}
+        />
+      )}
+
+      {mergePatient && (
+        <PatientMergeDialog
+          open={!!mergePatient}
+          onOpenChange={(open) => !open && setMergePatient(null)}
+          patientId={mergePatient.id}
+          patientName={mergePatient.name}
+          onChanged={loadData}
+        />
+      )}
+
       {/* Add Patient Modal */}
       <Dialog open={isAddPatientModalOpen} onOpenChange={setIsAddPatientModalOpen}>
         <DialogContent className="max-w-2xl">
@@ -17,9 +17,9 @@ import {
   EyeOff,
   Shield,
   Ban,
-  Send,
   Clock,
   AlertCircle,
+  Monitor,
 } from 'lucide-react';
 import { Avatar, AvatarFallback } from '../../components/ui/avatar';
 import { Badge } from '../../components/ui/badge';
@@ -53,6 +53,7 @@ import {
   revokeInvitation,
 } from '../../services/agencyAdminService';
 import { useAuth } from '../../context/AuthContext';
+import ActiveSessionsDialog from '../../components/ActiveSessionsDialog';
 import {
   AlertDialog,
   AlertDialogAction,
@@ -89,8 +90,6 @@ interface InvitationData {
   first_name: string;
   last_name: string;
   role: 'clinician' | 'scheduler';
-  activation_code: string;
-  activation_link: string;
   phone_number?: string;
   occupation?: string;
   status: 'pending' | 'activated' | 'expired' | 'revoked';
@@ -106,6 +105,7 @@ interface InvitationData {
 
 export default function AgencyUsersView({}: Props) {
   const { user } = useAuth();
+  const [sessionsUser, setSessionsUser] = useState<{ id: string; name: string } | null>(null);
   const [searchQuery, setSearchQuery] = useState('');
   const [filterRole, setFilterRole] = useState<'all' | 'clinician' | 'scheduler'>('all');
   const [filterStatus, setFilterStatus] = useState<'all' | 'active' | 'inactive' | 'pending'>('all');
@@ -114,6 +114,8 @@ export default function AgencyUsersView({}: Props) {
   const [generatedActivationCode, setGeneratedActivationCode] = useState('');
   const [generatedActivationLink, setGeneratedActivationLink] = useState('');
   const [showActivationCode, setShowActivationCode] = useState(false);
+  // Codes are stored hashed, so a resent code can only be shown right after it is issued
+  const [reissuedCode, setReissuedCode] = useState<{ name: string; code: string; link: string } | null>(null);
   const [selectedUserId, setSelectedUserId] = useState<string | null>(null);
   const [isDeactivateDialogOpen, setIsDeactivateDialogOpen] = useState(false);
   const [newUser, setNewUser] = useState({
@@ -170,7 +172,7 @@ export default function AgencyUsersView({}: Props) {
       type: 'user' as const,
     })),
     ...invitations
-      .filter(inv => inv.status === 'pending')
+      .filter(inv => inv.status === 'pending' || inv.status === 'expired')
       .map(inv => ({
         id: inv.id,
         name: `${inv.first_name} ${inv.last_name}`,
@@ -178,12 +180,11 @@ export default function AgencyUsersView({}: Props) {
         phone: inv.phone_number,
         occupation: inv.occupation,
         role: inv.role,
-        activationCode: inv.activation_code,
-        activationLink: inv.activation_link,
         isActivated: false,
         isActive: true,
         createdDate: inv.created_at,
         expiresAt: inv.expires_at,
+        invitationStatus: inv.status,
         assignedCharts: 0,
         type: 'invitation' as const,
       })),
@@ -224,7 +225,6 @@ export default function AgencyUsersView({}: Props) {
         last_name: newUser.lastName,
         role: selectedUserRole,
         tenant_id: user.tenant_id,
-        created_by: user.id,
         phone_number: newUser.phone || undefined,
         occupation: newUser.occupation || undefined,
       });
@@ -235,6 +235,9 @@ export default function AgencyUsersView({}: Props) {
       
       const userName = `${newUser.firstName} ${newUser.lastName}`;
       toast.success(`${selectedUserRole === 'clinician' ? 'Clinician' : 'Scheduler'} "${userName}" invited successfully`);
+      if (!result.email_delivery?.delivered) {
+        toast.info('The invitation email was not sent. Share the code or link below with them directly.');
+      }
       
       // Reload data
       await loadData();
@@ -284,11 +287,16 @@ export default function AgencyUsersView({}: Props) {
   const handleResendInvitation = async (invitationId: string, userName: string) => {
     try {
       const updated = await resendInvitation(invitationId);
-      toast.success(`New activation code generated for ${userName}`);
+      setReissuedCode({ name: userName, code: updated.activation_code, link: updated.activation_link });
+      toast.success(
+        updated.email_delivery?.delivered
+          ? `New activation code emailed to ${userName}`
+          : `New activation code generated for ${userName}`
+      );
       await loadData();
-    } catch (error) {
+    } catch (error: any) {
       console.error('Error resending invitation:', error);
-      toast.error('Failed to regenerate activation code');
+      toast.error(error.message || 'Failed to regenerate activation code');
     }
   };
 
@@ -297,9 +305,9 @@ export default function AgencyUsersView({}: Props) {
       await revokeInvitation(invitationId);
       toast.success(`Invitation for ${userName} has been revoked`);
       await loadData();
-    } catch (error) {
+    } catch (error: any) {
       console.error('Error revoking invitation:', error);
-      toast.error('Failed to revoke invitation');
+      toast.error(error.message || 'Failed to revoke invitation');
     }
   };
 
@@ -526,45 +534,26 @@ export default function AgencyUsersView({}: Props) {
                   </div>
 
                   {/* Activation Code Section - Only for pending invitations */}
-                  {!item.isActivated && item.type === 'invitation' && 'activationCode' in item && (
+                  {!item.isActivated && item.type === 'invitation' && (
                     <div className="mt-4 p-3 bg-[#f8fafc] rounded-lg border border-[#e2e8f0]">
                       <div className="flex items-center justify-between gap-3 mb-2">
                         <div className="flex items-center gap-2 flex-1">
                           <Key className="w-4 h-4 text-[#64748b]" />
-                          <span className="text-sm text-[#64748b]">Activation Code:</span>
-                          <code className="text-sm bg-white px-2 py-1 rounded border border-[#e2e8f0]">
-                            {item.activationCode}
-                          </code>
-                        </div>
-                        <div className="flex gap-2">
-                          <Button
-                            variant="ghost"
-                            size="sm"
-                            onClick={() => handleCopyActivationCode(item.activationCode!)}
-                            className="h-8"
-                            title="Copy code"
-                          >
-                            <Copy className="w-4 h-4" />
-                          </Button>
-                          <Button
-                            variant="ghost"
-                            size="sm"
-                            onClick={() => handleCopyActivationLink(item.activationLink!)}
-                            className="h-8 text-[#0966CC] hover:text-[#075985] hover:bg-[#DBEAFE]"
-                            title="Copy link"
-                          >
-                            <Send className="w-4 h-4" />
-                          </Button>
-                          <Button
-                            variant="ghost"
-                            size="sm"
-                            onClick={() => handleResendInvitation(item.id, item.name)}
-                            className="h-8 text-[#10B981] hover:text-[#059669] hover:bg-[#D1FAE5]"
-                            title="Resend invitation"
-                          >
-                            <RefreshCw className="w-4 h-4" />
-                          </Button>
+                          <span className="text-sm text-[#64748b]">
+                            {'invitationStatus' in item && item.invitationStatus === 'expired'
+                              ? 'Invitation expired. Resend to issue a new code.'
+                              : 'Activation code sent. Resend to issue a new one.'}
+                          </span>
                         </div>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => handleResendInvitation(item.id, item.name)}
+                          className="h-8 text-[#10B981] hover:text-[#059669] hover:bg-[#D1FAE5]"
+                          title="Resend invitation"
+                        >
+                          <RefreshCw className="w-4 h-4" />
+                        </Button>
                       </div>
                       {'expiresAt' in item && (
                         <p className="text-xs text-[#64748b]">
@@ -592,6 +581,15 @@ export default function AgencyUsersView({}: Props) {
                           <><CheckCircle2 className="w-4 h-4 mr-2" />Reactivate</>
                         )}
                       </Button>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => setSessionsUser({ id: item.id, name: item.name })}
+                        className="border-[#0966CC] text-[#0966CC] hover:bg-[#DBEAFE]"
+                      >
+                        <Monitor className="w-4 h-4 mr-2" />
+                        Sessions
+                      </Button>
                     </div>
                   )}
 
@@ -778,6 +776,59 @@ export default function AgencyUsersView({}: Props) {
         </DialogContent>
       </Dialog>
 
+      {/* Reissued Activation Code Dialog */}
+      <Dialog open={reissuedCode !== null} onOpenChange={(open) => !open && setReissuedCode(null)}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>New Activation Code</DialogTitle>
+            <DialogDescription>
+              Share this with {reissuedCode?.name}. The previous code no longer works, and this one
+              cannot be shown again after you close this dialog.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4 py-2">
+            <div className="flex items-center justify-center gap-3">
+              <code className="text-xl bg-white px-4 py-3 rounded-lg border-2 border-[#10B981] text-[#0f172a]">
+                {reissuedCode?.code}
+              </code>
+              <Button
+                variant="outline"
+                onClick={() => reissuedCode && handleCopyActivationCode(reissuedCode.code)}
+                className="border-[#10B981] text-[#10B981] hover:bg-[#D1FAE5]"
+              >
+                <Copy className="w-4 h-4 mr-2" />
+                Copy Code
+              </Button>
+            </div>
+            <div className="flex items-center gap-2">
+              <Input value={reissuedCode?.link || ''} readOnly className="text-sm" />
+              <Button
+                variant="outline"
+                onClick={() => reissuedCode && handleCopyActivationLink(reissuedCode.link)}
+                className="border-[#10B981] text-[#10B981] hover:bg-[#D1FAE5] shrink-0"
+              >
+                <Copy className="w-4 h-4 mr-2" />
+                Copy Link
+              </Button>
+            </div>
+            <p className="text-xs text-[#64748b]">Invitation expires in 7 days.</p>
+          </div>
+          <DialogFooter>
+            <Button className="bg-[#10B981] hover:bg-[#059669]" onClick={() => setReissuedCode(null)}>
+              Done
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* User Sessions Dialog */}
+      <ActiveSessionsDialog
+        open={sessionsUser !== null}
+        onOpenChange={(open) => !open && setSessionsUser(null)}
+        userId={sessionsUser?.id}
+        userName={sessionsUser?.name}
+      />
+
       {/* Deactivate User Confirmation Dialog */}
       <AlertDialog open={isDeactivateDialogOpen} onOpenChange={setIsDeactivateDialogOpen}>
         <AlertDialogContent>
@@ -22,11 +22,14 @@ import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigge
 import { Label } from '../../components/ui/label';
 import { Textarea } from '../../components/ui/textarea';
 import { Screen, NavigationParams } from '../../App';
-import { supabaseClient } from '../../lib/supabase';
+import { fetchChart, fetchChartDocuments, fetchChartMedications } from '../../services/chartService';
 import { approveChart, rejectChart } from '../../services/agencyAdminService';
+import { transitionChart } from '../../services/chartLifecycleService';
 import { useAuth } from '../../context/AuthContext';
 import { toast } from 'sonner';
 import { Toaster } from '../../components/ui/sonner';
+import ChartVersionHistory from '../../components/ChartVersionHistory';
+import AuditLogViewer from '../../components/AuditLogViewer';
 
 interface Props {
   navigation: {
@@ -111,44 +114,20 @@ export default function ChartDetailView({ navigation, route }: Props) {
   }, [chartId]);
 
   const loadChartData = async () => {
+    if (!chartId) return;
     try {
       setLoading(true);
       setError(null);
 
-      // Fetch chart data
-      const { data: chart, error: chartError } = await supabaseClient
-        .from('charts')
-        .select(`
-          *,
-          patient:patients(first_name, last_name, date_of_birth),
-          created_by_user:users!charts_created_by_fkey(first_name, last_name),
-          finalized_by_user:users!charts_finalized_by_fkey(first_name, last_name)
-        `)
-        .eq('id', chartId)
-        .single();
-
-      if (chartError) throw chartError;
-      setChartData(chart);
-
-      // Fetch medications
-      const { data: meds, error: medsError } = await supabaseClient
-        .from('medications')
-        .select('*')
-        .eq('chart_id', chartId)
-        .order('created_at', { ascending: true });
-
-      if (medsError) throw medsError;
-      setMedications(meds || []);
-
-      // Fetch documents
-      const { data: docs, error: docsError } = await supabaseClient
-        .from('documents')
-        .select('*')
-        .eq('chart_id', chartId)
-        .order('created_at', { ascending: false });
-
-      if (docsError) throw docsError;
-      setDocuments(docs || []);
+      // Read through the API, which logs the access
+      const [chart, meds, docs] = await Promise.all([
+        fetchChart(chartId),
+        fetchChartMedications<Medication>(chartId),
+        fetchChartDocuments<ChartDocument>(chartId),
+      ]);
+      setChartData(chart as ChartData);
+      setMedications(meds);
+      setDocuments(docs);
 
     } catch (err: any) {
       console.error('Error loading chart data:', err);
@@ -166,7 +145,7 @@ export default function ChartDetailView({ navigation, route }: Props) {
 
     try {
       setIsApproving(true);
-      await approveChart(chartId, user.id);
+      await approveChart(chartId, reviewNotes.trim() || undefined);
       setShowApprovalModal(false);
       setReviewNotes('');
       toast.success('Chart approved and locked successfully!');
@@ -193,7 +172,7 @@ export default function ChartDetailView({ navigation, route }: Props) {
 
     try {
       setIsRejecting(true);
-      await rejectChart(chartId, reviewNotes, user.id);
+      await rejectChart(chartId, reviewNotes);
       setShowReverificationModal(false);
       setReviewNotes('');
       toast.success('Chart returned to clinician for changes');
@@ -216,12 +195,7 @@ export default function ChartDetailView({ navigation, route }: Props) {
     if (!chartId) return;
 
     try {
-      const { error } = await supabaseClient
-        .from('charts')
-        .update({ status: 'archived' })
-        .eq('id', chartId);
-
-      if (error) throw error;
+      await transitionChart(chartId, 'archive');
 
       setShowArchiveConfirmation(false);
       alert('Chart archived successfully');
@@ -240,12 +214,7 @@ export default function ChartDetailView({ navigation, route }: Props) {
     if (!chartId) return;
 
     try {
-      const { error } = await supabaseClient
-        .from('charts')
-        .update({ status: 'active' })
-        .eq('id', chartId);
-
-      if (error) throw error;
+      await transitionChart(chartId, 'unarchive');
 
       setShowUnarchiveConfirmation(false);
       alert('Chart restored to Active status');
@@ -264,16 +233,7 @@ export default function ChartDetailView({ navigation, route }: Props) {
     if (!chartId) return;
 
     try {
-      const { error } = await supabaseClient
-        .from('charts')
-        .update({ 
-          status: 'active',
-          finalized_at: null,
-          finalized_by: null
-        })
-        .eq('id', chartId);
-
-      if (error) throw error;
+      await transitionChart(chartId, 'unlock');
 
       setShowUnlockConfirmation(false);
       alert('Chart unlocked successfully');
@@ -574,6 +534,17 @@ export default function ChartDetailView({ navigation, route }: Props) {
             )}
           </div>
 
+          {/* Version History */}
+          {chartId && <ChartVersionHistory chartId={chartId} refreshKey={chartStatus} />}
+
+          {/* Audit Timeline */}
+          {chartId && (
+            <div className="bg-white rounded-xl border border-[#e2e8f0] p-6 space-y-4">
+              <h3 className="text-lg text-[#0f172a]">Audit Timeline</h3>
+              <AuditLogViewer scope={{ chartId }} pageSize={10} />
+            </div>
+          )}
+
           {/* Review Actions */}
           {isReviewMode && canApprove && !isLocked && (
             <div className="bg-white rounded-xl border border-[#e2e8f0] p-6 space-y-4">
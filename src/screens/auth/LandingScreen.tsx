@@ -1,10 +1,12 @@
-import React, { useState } from 'react';
-import { Activity, LogIn, Mail, Lock } from 'lucide-react';
+import React, { useEffect, useState } from 'react';
+import { Activity, LogIn, Mail, Lock, Building2, KeyRound } from 'lucide-react';
 import { Screen, NavigationParams } from '../../App';
 import { useAuth } from '../../context/AuthContext';
 import { Button } from '../../components/ui/button';
 import { Input } from '../../components/ui/input';
 import { Label } from '../../components/ui/label';
+import { getTenantSso, readSsoRedirect, ssoStartUrl, tenantSubdomainFromHost } from '../../services/ssoService';
+import type { TenantSsoInfo } from '../../services/ssoService';
 
 interface Props {
   navigation: {
@@ -14,11 +16,60 @@ interface Props {
 }
 
 export default function LandingScreen({ navigation }: Props) {
-  const { login, user } = useAuth(); // <-- Only call useAuth() here
+  const { login, loginWithSso, user, idleSignOut } = useAuth(); // <-- Only call useAuth() here
   const [email, setEmail] = useState('');
   const [password, setPassword] = useState('');
   const [error, setError] = useState('');
   const [isLoading, setIsLoading] = useState(false);
+  // SSO starts from the tenant subdomain: taken from the host when the app is
+  // served on <tenant>.<domain>, otherwise typed in
+  const [ssoSubdomain, setSsoSubdomain] = useState(tenantSubdomainFromHost() || '');
+  const [showSso, setShowSso] = useState(!!tenantSubdomainFromHost());
+  const [tenantSso, setTenantSso] = useState<TenantSsoInfo | null>(null);
+
+  const goToDashboard = (loggedInUser: { role: string; mfa_pending?: 'challenge' | 'enroll' | null }) => {
+    if (loggedInUser.mfa_pending) {
+      navigation.navigate('MFA', { mfaMode: loggedInUser.mfa_pending });
+      return;
+    }
+    // The navigation will be handled based on the user's role from the database
+    const dashboardRoutes: { [key: string]: Screen } = {
+      'clinician': 'ClinicianDashboard',
+      'agency_admin': 'AgencyAdminDashboard',
+      'scheduler': 'SchedulerDashboard',
+      'super_admin': 'SuperAdminDashboard'
+    };
+    if (loggedInUser && dashboardRoutes[loggedInUser.role]) {
+      navigation.navigate(dashboardRoutes[loggedInUser.role]);
+    } else {
+      setError('Unable to determine user role');
+    }
+  };
+
+  // Coming back from the IdP
+  useEffect(() => {
+    const redirect = readSsoRedirect();
+    if (!redirect) return;
+    if (redirect.kind === 'error') {
+      setShowSso(true);
+      setError(redirect.message);
+      return;
+    }
+
+    setIsLoading(true);
+    loginWithSso(redirect.tokenHash, redirect.handoff)
+      .then(goToDashboard)
+      .catch((err) => setError(err instanceof Error ? err.message : 'Single sign-on failed. Please try again.'))
+      .finally(() => setIsLoading(false));
+  }, []);
+
+  useEffect(() => {
+    const subdomain = tenantSubdomainFromHost();
+    if (!subdomain) return;
+    getTenantSso(subdomain)
+      .then(setTenantSso)
+      .catch(() => setTenantSso(null));
+  }, []);
 
   const handleLogin = async () => {
     setError('');
@@ -33,18 +84,7 @@ export default function LandingScreen({ navigation }: Props) {
 
     try {
       const loggedInUser = await login(email, password);
-      // The navigation will be handled based on the user's role from the database
-      const dashboardRoutes: { [key: string]: Screen } = {
-        'clinician': 'ClinicianDashboard',
-        'agency_admin': 'AgencyAdminDashboard',
-        'scheduler': 'SchedulerDashboard',
-        'super_admin': 'SuperAdminDashboard'
-      };
-      if (loggedInUser && dashboardRoutes[loggedInUser.role]) {
-        navigation.navigate(dashboardRoutes[loggedInUser.role]);
-      } else {
-        setError('Unable to determine user role');
-      }
+      goToDashboard(loggedInUser);
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Login failed. Please check your credentials.');
     } finally {
@@ -52,6 +92,29 @@ export default function LandingScreen({ navigation }: Props) {
     }
   };
 
+  const handleSsoLogin = async () => {
+    const subdomain = ssoSubdomain.trim().toLowerCase();
+    setError('');
+    if (!subdomain) {
+      setError('Enter your organization\'s subdomain');
+      return;
+    }
+
+    setIsLoading(true);
+    try {
+      const info = await getTenantSso(subdomain);
+      if (!info.enabled) {
+        setError(`${info.tenant_name} does not use single sign-on. Sign in with your email and password.`);
+        setIsLoading(false);
+        return;
+      }
+      window.location.assign(ssoStartUrl(subdomain));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Organization not found');
+      setIsLoading(false);
+    }
+  };
+
   const handleKeyPress = (e: React.KeyboardEvent) => {
     if (e.key === 'Enter') {
       handleLogin();
@@ -89,6 +152,15 @@ export default function LandingScreen({ navigation }: Props) {
             </div>
 
             <div className="space-y-4">
+              {idleSignOut && (
+                <div className="bg-[#FEF3C7] border border-[#FDE68A] text-[#92400E] px-4 py-3 rounded-xl text-sm">
+                  You were signed out after {idleSignOut.minutes} minutes of inactivity. Sign in again to continue
+                  where you left off.
+                  {idleSignOut.discarded > 0 &&
+                    ` ${idleSignOut.discarded} offline change${idleSignOut.discarded === 1 ? '' : 's'} could not be synced and ${idleSignOut.discarded === 1 ? 'was' : 'were'} removed from this device.`}
+                </div>
+              )}
+
               <div>
                 <Label htmlFor="email" className="text-[#0f172a]">Email Address</Label>
                 <div className="relative mt-2">
@@ -145,6 +217,51 @@ export default function LandingScreen({ navigation }: Props) {
                 )}
               </Button>
 
+              {/* Single sign-on */}
+              <div className="border-t border-[#e2e8f0] pt-4 space-y-3">
+                {showSso ? (
+                  <>
+                    {tenantSso?.enforced && (
+                      <p className="text-xs text-[#64748b]">
+                        {tenantSso.tenant_name} requires single sign-on.
+                      </p>
+                    )}
+                    {!tenantSubdomainFromHost() && (
+                      <div>
+                        <Label htmlFor="sso-subdomain" className="text-[#0f172a]">Organization</Label>
+                        <div className="relative mt-2">
+                          <Building2 className="absolute left-4 top-1/2 -translate-y-1/2 w-5 h-5 text-[#94a3b8]" />
+                          <Input
+                            id="sso-subdomain"
+                            value={ssoSubdomain}
+                            onChange={(e) => setSsoSubdomain(e.target.value)}
+                            onKeyPress={(e) => e.key === 'Enter' && handleSsoLogin()}
+                            placeholder="your-agency"
+                            className="pl-12 h-12 rounded-xl border-2 border-[#e2e8f0] focus:border-[#0966CC]"
+                          />
+                        </div>
+                      </div>
+                    )}
+                    <Button
+                      onClick={handleSsoLogin}
+                      disabled={isLoading}
+                      variant="outline"
+                      className="w-full h-12 rounded-xl border-2 border-[#0966CC] text-[#0966CC]"
+                    >
+                      <KeyRound className="w-5 h-5 mr-2" />
+                      {tenantSso?.enabled ? `Sign in with ${tenantSso.tenant_name} SSO` : 'Continue with SSO'}
+                    </Button>
+                  </>
+                ) : (
+                  <button
+                    onClick={() => setShowSso(true)}
+                    className="w-full text-sm text-[#0966CC] hover:underline"
+                  >
+                    Sign in with SSO
+                  </button>
+                )}
+              </div>
+
               {/* Additional Links */}
               <div className="flex items-center justify-between text-sm">
                 <button
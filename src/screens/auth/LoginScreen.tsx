@@ -85,6 +85,11 @@ export default function LoginScreen({ navigation, route }: Props) {
       // login returns the user object (from AuthContext/authService)
       const user = await login(email, password);
 
+      if (user.mfa_pending) {
+        navigation.navigate('MFA', { mfaMode: user.mfa_pending });
+        return;
+      }
+
       const dashboardScreens = {
         clinician: 'ClinicianDashboard',
         agency_admin: 'AgencyAdminDashboard',
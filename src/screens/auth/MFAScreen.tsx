@@ -3,6 +3,9 @@ import { Shield, ArrowLeft } from 'lucide-react';
 import { Input } from '../../components/ui/input';
 import { Label } from '../../components/ui/label';
 import { Button } from '../../components/ui/button';
+import MfaEnrollment from '../../components/MfaEnrollment';
+import { useAuth } from '../../context/AuthContext';
+import { verifyMfa } from '../../services/mfaService';
 import { Screen, NavigationParams } from '../../App';
 
 interface Props {
@@ -15,43 +18,56 @@ interface Props {
   };
 }
 
+const DASHBOARDS: Record<string, Screen> = {
+  clinician: 'ClinicianDashboard',
+  agency_admin: 'AgencyAdminDashboard',
+  scheduler: 'SchedulerDashboard',
+  super_admin: 'SuperAdminDashboard',
+};
+
 export default function MFAScreen({ navigation, route }: Props) {
-  const { role } = route.params;
+  const { user, completeMfa, logout } = useAuth();
+  const mode = route.params.mfaMode || user?.mfa_pending || 'challenge';
   const [code, setCode] = useState('');
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState('');
 
-  const handleVerify = () => {
-    if (!role) {
-      alert('User role is missing');
+  const finish = () => {
+    const dashboard = user ? DASHBOARDS[user.role] : undefined;
+    if (!dashboard) {
+      setError('Unknown user role');
       return;
     }
+    completeMfa();
+    navigation.navigate(dashboard);
+  };
 
-    // TODO: Verify the MFA code with backend using `code`
-    // For now, just navigate based on role
-    switch (role) {
-      case 'clinician':
-        navigation.navigate('ClinicianDashboard');
-        break;
-      case 'agency-admin':
-        navigation.navigate('AgencyAdminDashboard');
-        break;
-      case 'scheduler':
-        navigation.navigate('SchedulerDashboard');
-        break;
-      case 'super-admin':
-        navigation.navigate('SuperAdminDashboard');
-        break;
-      default:
-        // optional: show an error if role is unknown
-        alert('Unknown user role');
-        break;
+  const handleVerify = async () => {
+    try {
+      setIsLoading(true);
+      setError('');
+      await verifyMfa(useRecoveryCode ? { recoveryCode: code.trim() } : { code: code.trim() });
+      finish();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Verification failed');
+      setCode('');
+    } finally {
+      setIsLoading(false);
     }
   };
 
+  // Leaving MFA abandons the half-finished sign-in
+  const handleBack = async () => {
+    await logout().catch(() => undefined);
+    navigation.goBack();
+  };
+
   return (
     <div className="h-full overflow-y-auto bg-white">
       <div className="p-6 space-y-6">
         <button
-          onClick={() => navigation.goBack()}
+          onClick={handleBack}
           className="w-10 h-10 rounded-xl bg-[#f8fafc] hover:bg-[#f1f5f9] flex items-center justify-center transition-colors"
         >
           <ArrowLeft className="w-5 h-5 text-[#64748b]" />
@@ -63,38 +79,61 @@ export default function MFAScreen({ navigation, route }: Props) {
           </div>
           <h1 className="text-2xl text-[#0f172a] mb-2">Two-Factor Authentication</h1>
           <p className="text-[#64748b] px-4">
-            Enter the 6-digit code from your authenticator app
+            {mode === 'enroll'
+              ? 'Your organization requires two-factor authentication. Scan this QR code with an authenticator app to continue.'
+              : useRecoveryCode
+                ? 'Enter one of your recovery codes'
+                : 'Enter the 6-digit code from your authenticator app'}
           </p>
         </div>
 
-        <div className="space-y-4">
-          <div>
-            <Label htmlFor="code">Verification Code</Label>
-            <Input
-              id="code"
-              type="text"
-              placeholder="000000"
-              value={code}
-              onChange={(e) => setCode(e.target.value)}
-              maxLength={6}
-              className="mt-2 h-12 rounded-xl border-2 border-[#e2e8f0] bg-[#f8fafc] text-center text-lg tracking-widest"
-            />
-          </div>
+        {mode === 'enroll' ? (
+          <MfaEnrollment onComplete={finish} />
+        ) : (
+          <div className="space-y-4">
+            <div>
+              <Label htmlFor="code">{useRecoveryCode ? 'Recovery Code' : 'Verification Code'}</Label>
+              <Input
+                id="code"
+                type="text"
+                inputMode={useRecoveryCode ? 'text' : 'numeric'}
+                autoComplete="one-time-code"
+                placeholder={useRecoveryCode ? 'xxxxx-xxxxx' : '000000'}
+                value={code}
+                onChange={(e) => setCode(useRecoveryCode ? e.target.value : e.target.value.replace(/\D/g, ''))}
+                onKeyDown={(e) => e.key === 'Enter' && code && handleVerify()}
+                maxLength={useRecoveryCode ? 11 : 6}
+                className="mt-2 h-12 rounded-xl border-2 border-[#e2e8f0] bg-[#f8fafc] text-center text-lg tracking-widest"
+              />
+            </div>
+
+            {error && <p className="text-sm text-red-600 text-center">{error}</p>}
 
-          <Button
-            onClick={handleVerify}
-            className="w-full h-12 rounded-xl bg-gradient-to-r from-[#0966CC] to-[#0C4A6E] text-white hover:opacity-90"
-          >
-            Verify Code
-          </Button>
+            <Button
+              onClick={handleVerify}
+              disabled={!code || isLoading}
+              className="w-full h-12 rounded-xl bg-gradient-to-r from-[#0966CC] to-[#0C4A6E] text-white hover:opacity-90"
+            >
+              {isLoading ? 'Verifying…' : 'Verify Code'}
+            </Button>
 
-          <div className="text-center">
-            <p className="text-sm text-[#64748b]">
-              Didn&apos;t receive a code?{' '}
-              <button className="text-[#0966CC] hover:underline">Resend</button>
-            </p>
+            <div className="text-center">
+              <p className="text-sm text-[#64748b]">
+                {useRecoveryCode ? 'Have your authenticator?' : 'Lost access to your authenticator?'}{' '}
+                <button
+                  className="text-[#0966CC] hover:underline"
+                  onClick={() => {
+                    setUseRecoveryCode(!useRecoveryCode);
+                    setCode('');
+                    setError('');
+                  }}
+                >
+                  {useRecoveryCode ? 'Use a verification code' : 'Use a recovery code'}
+                </button>
+              </p>
+            </div>
           </div>
-        </div>
+        )}
       </div>
     </div>
   );
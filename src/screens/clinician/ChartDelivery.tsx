@@ -9,6 +9,7 @@ import { Label } from '../../components/ui/label';
 import { Screen, NavigationParams } from '../../App';
 import { supabaseClient } from '../../lib/supabase';
 import { useAuth } from '../../context/AuthContext';
+import { transitionChart } from '../../services/chartLifecycleService';
 import jsPDF from 'jspdf';
 
 
@@ -403,30 +404,14 @@ export default function ChartDelivery({ navigation, route }: Props) {
       else if (selectedMethods.fax) deliveredVia = 'fax';
       else if (selectedMethods.print) deliveredVia = 'print';
 
-      const payload: any = {
-        status: 'pending_review',
-        finalized_at: new Date().toISOString(),
-        finalized_by: user.id,
-      };
-
-      const { error } = await supabaseClient
-        .from('charts')
-        .update(payload)
-        .eq('id', chartId);
-
-      if (error) {
-        console.error('Error finalizing chart:', error);
-        alert(`Failed to finalize chart: ${error.message || 'Unknown error'}`);
-        return;
-      }
-
-      // Optional: add an audit log entry later if you want audit trail
+      // The API sets status, finalized_at/finalized_by and the audit entry
+      await transitionChart(chartId, 'finalize');
 
       alert('Chart has been sent for agency admin approval');
       navigation.navigate('ClinicianDashboard');
     } catch (err: any) {
-      console.error('Unexpected error finalizing chart:', err);
-      alert('Unexpected error while finalizing chart');
+      console.error('Error finalizing chart:', err);
+      alert(`Failed to finalize chart: ${err.message || 'Unknown error'}`);
     }
   };
 
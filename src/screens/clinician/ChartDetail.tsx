@@ -26,6 +26,7 @@ import {
   LockOpen,
   Trash2,
   User,
+  WifiOff,
 } from 'lucide-react';
 import { Badge } from '../../components/ui/badge';
 import { Button } from '../../components/ui/button';
@@ -44,7 +45,24 @@ import { useEffect, useRef, useCallback } from 'react';
 import { uploadDocument, deleteDocument, getSignedDocumentUrl } from '../../services/documentService';
 import MedicationBarcodeScanner, { ScannedMedication } from '../../components/MedicationBarcodeScanner';
 import MedicationOCRScanner from '../../components/MedicationOCRScanner';
+import { buildOcrProvenance } from '../../utils/ocrService';
 import type { MedicationInfo } from '../../utils/ocrService';
+import { transitionChart } from '../../services/chartLifecycleService';
+import { fetchChart, fetchChartDocuments, fetchChartMedications } from '../../services/chartService';
+import MedicationReconciliationReport from '../../components/MedicationReconciliationReport';
+import PatientAllergyList from '../../components/PatientAllergyList';
+import AllergyConflictAlerts from '../../components/AllergyConflictAlerts';
+import { checkMedicationAllergies } from '../../services/allergyService';
+import { medicationSourceForScanType, type MedicationSource } from '../../services/medicationReconciliationService';
+import {
+  cacheChart,
+  deleteMedication as deleteMedicationOffline,
+  getCachedChart,
+  insertMedication,
+  isOnline as isNetworkOnline,
+  type CachedMedication,
+} from '../../services/offlineSyncService';
+import { useOfflineSync } from '../../hooks/useOfflineSync';
 
 
 
@@ -68,6 +86,10 @@ interface Medication {
   scannedDate: string;
   confidence: number;
   isVerified: boolean;
+  // For offline conflict detection
+  updatedAt: string | null;
+  // Saved on this device only, waiting to sync
+  pending?: boolean;
 }
 interface Patient {
   first_name: string;
@@ -87,7 +109,7 @@ interface DocumentRow {
   file_name: string;
   file_type: string;
   file_url: string;
-  chart_id: string;
+  chart_id: string | null;
   tenant_id: string;
   created_at: string;
 }
@@ -114,6 +136,20 @@ const mapChartStatus = (
   }
 };
 
+const mapMedicationRow = (m: CachedMedication): Medication => ({
+  id: m.id,
+  drugName: m.drug_name,
+  strength: m.strength || '',
+  route: m.route || '',
+  frequency: m.frequency || '',
+  prescriber: m.prescriber || '',
+  scannedDate: m.scanned_on ? new Date(m.scanned_on).toLocaleDateString() : '',
+  confidence: m.ocr_confidence != null ? Math.round(Number(m.ocr_confidence) * 100) : 0,
+  isVerified: m.verified,
+  updatedAt: m.updated_at ?? null,
+  pending: m.pending,
+});
+
 
 export default function ChartDetail({ navigation, route }: Props) {
   const [showDeliveryModal, setShowDeliveryModal] = useState(false);
@@ -148,7 +184,7 @@ export default function ChartDetail({ navigation, route }: Props) {
   const [reviewNotes, setReviewNotes] = useState<any[]>([]);
   const [loadingReviewNotes, setLoadingReviewNotes] = useState(false);
 
-  const { patientId, chartId, prefillMedications } = route.params;
+  const { patientId, chartId, prefillMedications, scanType } = route.params;
   const { user } = useAuth();
 
 const [patient, setPatient] = useState<Patient>({
@@ -171,14 +207,8 @@ const fileInputRef = useRef<HTMLInputElement | null>(null);
     setLoadingDocs(true);
     setDocsError(null);
     try {
-      const { data: docs, error: docsError } = await supabaseClient
-        .from('documents')
-        .select('*')
-        .eq('chart_id', chartId)
-        .order('created_at', { ascending: false});
-
-      if (docsError) throw docsError;
-      setDocuments(docs || []);
+      const docs = await fetchChartDocuments<DocumentRow>(chartId);
+      setDocuments(docs);
     } catch (error: any) {
       setDocsError(error.message || 'Failed to load documents');
     } finally {
@@ -219,11 +249,13 @@ const fileInputRef = useRef<HTMLInputElement | null>(null);
     setLoadingSignedUrl(true);
     
     try {
-      const url = await getSignedDocumentUrl(doc.file_url);
+      const url = await getSignedDocumentUrl(doc.id);
       setSignedUrl(url);
     } catch (error) {
       console.error('Error getting signed URL:', error);
-      setSignedUrl(doc.file_url); // Fallback to original URL
+      setSignedUrl('');
+      setIsViewModalOpen(false);
+      alert(error instanceof Error ? error.message : 'Could not open document');
     } finally {
       setLoadingSignedUrl(false);
     }
@@ -243,6 +275,15 @@ const fileInputRef = useRef<HTMLInputElement | null>(null);
   const isLocked = chartStatus === 'Delivered (Locked)' || chartStatus === 'Pending Review';
 
   const [deletingMedicationId, setDeletingMedicationId] = useState<string | null>(null);
+  const [unresolvedDiscrepancies, setUnresolvedDiscrepancies] = useState(0);
+  const [blockingAllergyConflicts, setBlockingAllergyConflicts] = useState(0);
+  const [allergiesKey, setAllergiesKey] = useState('');
+  const offlineSync = useOfflineSync();
+
+  // Reload the reconciliation report whenever the medication list changes
+  const reconciliationKey = medications
+    .map((med) => `${med.id}:${med.drugName}:${med.strength}:${med.route}`)
+    .join('|');
   
   // Calculate verification progress
   const verifiedCount = medications.filter(med => med.isVerified).length;
@@ -271,31 +312,37 @@ const fileInputRef = useRef<HTMLInputElement | null>(null);
       try {
         if (!chartId || !patientId) return;
 
-        // 1) Patient
-        const { data: patientRow, error: patientError } = await supabaseClient
-          .from('patients')
-          .select('first_name, last_name, date_of_birth')
-          .eq('id', patientId)
-          .single();
+        // Offline: show the copy cached on the last online visit
+        if (!isNetworkOnline()) {
+          const cached = await getCachedChart(chartId);
+          if (!cached) throw new Error('You are offline and this chart has not been saved on this device yet');
+
+          setPatient(prev => ({
+            ...prev,
+            first_name: cached.patient?.first_name ?? '',
+            last_name: cached.patient?.last_name ?? '',
+            dob: cached.patient?.date_of_birth ?? '',
+          }));
+          setChartStatus(mapChartStatus(cached.status));
+          setMedications(cached.medications.map(mapMedicationRow));
+          setLoadError(null);
+          return;
+        }
 
-        if (patientError) throw patientError;
+        // 1) Chart and patient (read through the API, which logs the access)
+        const chartRow = await fetchChart(chartId);
+        const patientRow = {
+          first_name: chartRow.patient?.first_name ?? '',
+          last_name: chartRow.patient?.last_name ?? '',
+          date_of_birth: chartRow.patient?.date_of_birth ?? null,
+        };
 
         setPatient(prev => ({
-  ...prev,
-      first_name: patientRow.first_name,
-      last_name: patientRow.last_name,
-      dob: patientRow.date_of_birth ?? '',
-      }));
-
-
-        // 2) Chart meta (status etc.)
-        const { data: chartRow, error: chartError } = await supabaseClient
-          .from('charts')
-          .select('status')
-          .eq('id', chartId)
-          .single();
-
-        if (chartError) throw chartError;
+          ...prev,
+          first_name: patientRow.first_name,
+          last_name: patientRow.last_name,
+          dob: patientRow.date_of_birth ?? '',
+        }));
 
         setChartStatus(mapChartStatus(chartRow.status));
 
@@ -307,27 +354,13 @@ const fileInputRef = useRef<HTMLInputElement | null>(null);
           loadReviewNotes();
         }
 
-        // 3) Medications
-        const { data: medsRows, error: medsError } = await supabaseClient
-          .from('medications')
-          .select('id, drug_name, strength, route, frequency, prescriber, scanned_on, ocr_confidence, verified')
-          .eq('chart_id', chartId);
-
-        if (medsError) throw medsError;
-
-        const mappedMeds: Medication[] = (medsRows || []).map((m) => ({
-          id: m.id,
-          drugName: m.drug_name,
-          strength: m.strength || '',
-          route: m.route || '',
-          frequency: m.frequency || '',
-          prescriber: m.prescriber || '',
-          scannedDate: m.scanned_on
-            ? new Date(m.scanned_on).toLocaleDateString()
-            : '',
-          confidence: m.ocr_confidence != null ? Math.round(Number(m.ocr_confidence) * 100) : 0,
-          isVerified: m.verified,
-        }));
+        // 2) Medications
+        const medsRows = await fetchChartMedications<CachedMedication>(chartId);
+        const mappedMeds: Medication[] = medsRows.map(mapMedicationRow);
+
+        // Keep a copy on this device for offline visits
+        void cacheChart({ chartId, status: chartRow.status, patient: patientRow, medications: medsRows })
+          .catch((err) => console.error('Failed to cache chart:', err));
 
         setMedications(mappedMeds);
         setLoadError(null);
@@ -342,14 +375,14 @@ const fileInputRef = useRef<HTMLInputElement | null>(null);
     };
 
     loadChartData();
-  }, [chartId, patientId, prefillMedications]);
+  }, [chartId, patientId, prefillMedications, offlineSync.lastAppliedAt]);
 
   useEffect(() => {
     const addPrefills = async () => {
       if (!prefillMedications || !Array.isArray(prefillMedications)) return;
       for (const med of prefillMedications) {
         try {
-          await saveScannedMedication(med as any);
+          await saveScannedMedication(med as any, medicationSourceForScanType(scanType));
         } catch (e) {
           console.error('Failed to save prefilled medication', e);
         }
@@ -381,57 +414,52 @@ const fileInputRef = useRef<HTMLInputElement | null>(null);
     return;
   }
 
+  // Warn before saving a drug the patient is allergic to; the chart's allergy
+  // alerts still hold up finalizing if it is added anyway
+  if (patientId && isNetworkOnline()) {
+    try {
+      const conflicts = await checkMedicationAllergies(patientId, newMedDrugName.trim());
+      const blocking = conflicts.filter((c) => c.level === 'blocking');
+      if (
+        blocking.length > 0 &&
+        !window.confirm(
+          `Allergy conflict:\n\n${blocking.map((c) => c.message).join('\n')}\n\nAdd this medication anyway?`
+        )
+      ) {
+        return;
+      }
+    } catch (err) {
+      console.error('Error checking medication against allergies:', err);
+    }
+  }
+
   try {
     setSavingMedication(true);
     console.log('Inserting medication from modal…');
 
-    const { data, error } = await supabaseClient
-      .from('medications')
-      .insert([
-        {
-          chart_id: chartId,
-          tenant_id: user.tenant_id,
-          drug_name: newMedDrugName.trim(),
-          strength: newMedStrength || null,
-          route: newMedRoute || null,
-          frequency: newMedFrequency || null,
-          prescriber: newMedPrescriber || null,
-          instructions: null,
-          notes: null,
-          scanned_on: newMedScannedOn
-            ? new Date(newMedScannedOn).toISOString()
-            : null,
-          ocr_confidence: 0.9,     // 0–1 range
-          verified: false,         // start unverified
-          changed_after_verify: false,
-        },
-      ])
-      .select('*')
-      .single();
-
-    console.log('Insert result:', data, error);
-
-    if (error) throw error;
+    const data = await insertMedication({
+      chart_id: chartId,
+      tenant_id: user.tenant_id,
+      drug_name: newMedDrugName.trim(),
+      strength: newMedStrength || null,
+      route: newMedRoute || null,
+      frequency: newMedFrequency || null,
+      prescriber: newMedPrescriber || null,
+      instructions: null,
+      notes: null,
+      scanned_on: newMedScannedOn
+        ? new Date(newMedScannedOn).toISOString()
+        : null,
+      ocr_confidence: 0.9,     // 0–1 range
+      verified: false,         // start unverified
+      changed_after_verify: false,
+      source: 'manual',
+    });
+
+    console.log('Insert result:', data);
 
     // Update local list so it shows immediately
-    setMedications((prev) => [
-      ...prev,
-      {
-        id: data.id,
-        drugName: data.drug_name,
-        strength: data.strength || '',
-        route: data.route || '',
-        frequency: data.frequency || '',
-        prescriber: data.prescriber || '',
-        scannedDate: data.scanned_on
-          ? new Date(data.scanned_on).toLocaleDateString()
-          : '',
-        confidence: data.ocr_confidence != null
-          ? Math.round(Number(data.ocr_confidence) * 100)
-          : 0,
-        isVerified: data.verified,
-      },
-    ]);
+    setMedications((prev) => [...prev, mapMedicationRow(data)]);
 
     // Clear form & close modal
     setNewMedDrugName('');
@@ -450,7 +478,10 @@ const fileInputRef = useRef<HTMLInputElement | null>(null);
 };
 
   // Save a scanned medication directly to the DB and update local state
-  const saveScannedMedication = async (med: Partial<MedicationInfo> | ScannedMedication) => {
+  const saveScannedMedication = async (
+    med: Partial<MedicationInfo> | ScannedMedication,
+    source: MedicationSource = 'bottle_scan'
+  ) => {
     if (!chartId || !user?.tenant_id) {
       alert('Missing chart or tenant information');
       return;
@@ -482,31 +513,15 @@ const fileInputRef = useRef<HTMLInputElement | null>(null);
         verified: false,
         changed_after_verify: false,
         scanned_image: (med as any).image || null, // Store the base64 image
+        ocr_fields: buildOcrProvenance(med as Partial<MedicationInfo>),
+        source,
       };
 
 
-      const { data, error } = await supabaseClient
-        .from('medications')
-        .insert([payload])
-        .select('*')
-        .single();
-
-      if (error) throw error;
+      // Queued with its image on this device when offline
+      const data = await insertMedication(payload);
 
-      setMedications((prev) => [
-        ...prev,
-        {
-          id: data.id,
-          drugName: data.drug_name,
-          strength: data.strength || '',
-          route: data.route || '',
-          frequency: data.frequency || '',
-          prescriber: data.prescriber || '',
-          scannedDate: data.scanned_on ? new Date(data.scanned_on).toLocaleDateString() : '',
-          confidence: data.ocr_confidence != null ? Math.round(Number(data.ocr_confidence) * 100) : 0,
-          isVerified: data.verified,
-        },
-      ]);
+      setMedications((prev) => [...prev, mapMedicationRow(data)]);
 
       // Close any scanner UI
       setShowBarcodeScanner(false);
@@ -544,7 +559,7 @@ const fileInputRef = useRef<HTMLInputElement | null>(null);
   };
 
   const handleDeleteMedication = async (medId: string) => {
-  if (isLocked) return;
+  if (isLocked || !chartId) return;
 
   const confirmDelete = window.confirm('Are you sure you want to remove this medication from the chart?');
   if (!confirmDelete) return;
@@ -552,12 +567,8 @@ const fileInputRef = useRef<HTMLInputElement | null>(null);
   try {
     setDeletingMedicationId(medId);
 
-    const { error } = await supabaseClient
-      .from('medications')
-      .delete()
-      .eq('id', medId);
-
-    if (error) throw error;
+    const med = medications.find((m) => m.id === medId);
+    await deleteMedicationOffline(chartId, medId, med?.updatedAt ?? null);
 
     // Update local state so UI reflects the change immediately
     setMedications((prev) => prev.filter((m) => m.id !== medId));
@@ -575,6 +586,18 @@ const fileInputRef = useRef<HTMLInputElement | null>(null);
       alert('Please verify all medications before proceeding to chart summary.');
       return;
     }
+    if (!offlineSync.online || medications.some((med) => med.pending)) {
+      alert('Please reconnect and let your offline changes sync before finalizing.');
+      return;
+    }
+    if (unresolvedDiscrepancies > 0) {
+      alert('Please resolve all medication reconciliation discrepancies before finalizing.');
+      return;
+    }
+    if (blockingAllergyConflicts > 0) {
+      alert('Please review all blocking allergy conflicts before finalizing.');
+      return;
+    }
 
     navigation.navigate('ChartSummary', {
       patientId,
@@ -627,7 +650,7 @@ const handleFileSelected = async (file: File) => {
     if (isLocked) return;
     try {
       setLoadingDocs(true);
-      await deleteDocument(doc.id, doc.file_url);
+      await deleteDocument(doc.id);
       setDocuments((prev) => prev.filter((d) => d.id !== doc.id));
     } catch (err: any) {
       console.error('Delete failed:', err);
@@ -693,18 +716,11 @@ const handleFileSelected = async (file: File) => {
     }
 
     try {
-      // Persist the unlocked status to the database
-      const { data, error } = await supabaseClient
-        .from('charts')
-        .update({ status: 'active' })
-        .eq('id', chartId)
-        .select()
-        .single();
-
-      if (error) throw error;
+      // Persist the unlocked status through the chart lifecycle API
+      const { chart } = await transitionChart(chartId, 'unlock');
 
       // Update local UI state
-      setChartStatus(mapChartStatus(data.status));
+      setChartStatus(mapChartStatus(chart.status));
       alert('Chart unlocked successfully');
     } catch (err: any) {
       console.error('Failed to unlock chart:', err);
@@ -801,6 +817,22 @@ const handleFileSelected = async (file: File) => {
               <span className="text-[#64748b]">DOB {patient.dob}</span>
             </div>
 
+            {/* Offline banner */}
+            {!offlineSync.online && (
+              <div className="bg-amber-50 border-2 border-amber-100 rounded-xl p-4 flex items-start gap-3">
+                <div className="w-8 h-8 rounded-lg bg-amber-100 flex items-center justify-center flex-shrink-0">
+                  <WifiOff className="w-4 h-4 text-amber-700" />
+                </div>
+                <div className="text-slate-700">
+                  <p className="text-sm font-medium">You are offline</p>
+                  <p className="text-xs text-slate-600">
+                    Showing the copy saved on this device. Medication changes are saved here and sync when you reconnect
+                    {offlineSync.pending > 0 && ` (${offlineSync.pending} pending)`}.
+                  </p>
+                </div>
+              </div>
+            )}
+
             {/* Locked banner */}
             {isLocked && (
               <div className="bg-sky-50 border-2 border-sky-100 rounded-xl p-4 flex items-start gap-3">
@@ -953,6 +985,9 @@ const handleFileSelected = async (file: File) => {
                         <div className="flex-1">
                           <div className="flex items-center gap-3 mb-2">
                             <h3 className="text-[#0f172a]">{med.drugName} {med.strength}</h3>
+                            {med.pending && (
+                              <Badge className="bg-[#FEF3C7] text-[#92400E] border-0">Pending sync</Badge>
+                            )}
                             <Tooltip>
                               <TooltipTrigger asChild>
                                 <div className="flex items-center gap-1.5">
@@ -1027,6 +1062,35 @@ const handleFileSelected = async (file: File) => {
               </div>
             </div>
 
+            {/* Medication Reconciliation */}
+            {chartId && totalCount > 0 && offlineSync.online && (
+              <MedicationReconciliationReport
+                chartId={chartId}
+                refreshKey={reconciliationKey}
+                readOnly={isLocked}
+                onReportChange={(report) => setUnresolvedDiscrepancies(report.unresolved)}
+              />
+            )}
+
+            {/* Allergies */}
+            {patientId && offlineSync.online && (
+              <PatientAllergyList
+                patientId={patientId}
+                readOnly={isLocked}
+                onChange={(allergies) =>
+                  setAllergiesKey(allergies.map((a) => `${a.id}:${a.allergen}:${a.severity}:${a.reaction}`).join('|'))
+                }
+              />
+            )}
+            {chartId && totalCount > 0 && offlineSync.online && (
+              <AllergyConflictAlerts
+                chartId={chartId}
+                refreshKey={`${reconciliationKey}#${allergiesKey}`}
+                readOnly={isLocked}
+                onReportChange={(report) => setBlockingAllergyConflicts(report.blocking)}
+              />
+            )}
+
             {/* Attached Documents */}
             <div className="bg-white rounded-2xl shadow-sm p-6">
               <div className="flex items-center justify-between mb-3">
@@ -1186,6 +1250,7 @@ const handleFileSelected = async (file: File) => {
                 </Button>
                 <Button
                   onClick={handleFinalize}
+                  disabled={unresolvedDiscrepancies > 0 || blockingAllergyConflicts > 0}
                   className="flex-1 h-12 bg-green-600 hover:bg-green-700 text-white"
                 >
                   <CheckCircle2 className="w-4 h-4 mr-2" />
@@ -52,6 +52,7 @@ import {
   ArrowDown,
   FileUp,
   ClipboardCheck,
+  AlertTriangle,
 } from 'lucide-react';
 import { Avatar, AvatarFallback } from '../../components/ui/avatar';
 import { Badge } from '../../components/ui/badge';
@@ -77,6 +78,9 @@ import PatientSelectionModal from '../../components/PatientSelectionModal';
 import MedicationBarcodeScanner, { ScannedMedication } from '../../components/MedicationBarcodeScanner';
 import MedicationOCRScanner from '../../components/MedicationOCRScanner';
 import PDFScanner from '../../components/PDFScanner';
+import SyncConflictDialog from '../../components/SyncConflictDialog';
+import { useOfflineSync } from '../../hooks/useOfflineSync';
+import { cacheList, getCachedList, isOnline as isNetworkOnline } from '../../services/offlineSyncService';
 import type { MedicationInfo } from '../../utils/ocrService';
 
 // Time formatting utility for healthcare-friendly display
@@ -221,7 +225,16 @@ export default function ClinicianDashboard({ navigation, route }: Props) {
           setIsPatientsLoading(false);
           return;
         }
-        const data = await fetchPatientsForClinician(clinicianId);
+        // Offline: fall back to the list cached on the last online load
+        const cacheKey = `clinician-patients:${clinicianId}`;
+        let data: any[] | null | undefined;
+        if (isNetworkOnline()) {
+          data = await fetchPatientsForClinician(clinicianId);
+          void cacheList(cacheKey, data).catch((err) => console.error('Failed to cache patients:', err));
+        } else {
+          data = await getCachedList<any[]>(cacheKey);
+          if (!data) throw new Error('You are offline and this list has not been saved on this device yet');
+        }
 
 // Map the data to match the Patient interface
 const mappedData: Patient[] = (data || []).map((patient: any) => ({
@@ -270,13 +283,15 @@ setPatients(mappedData);
   const [sortBy, setSortBy] = useState<SortOption>('newest');
   const [filterStatus, setFilterStatus] = useState<FilterStatus>('all');
   const [isRefreshing, setIsRefreshing] = useState(false);
-  const [isOnline, setIsOnline] = useState(true);
   const [touchStart, setTouchStart] = useState<number | null>(null);
   const [activeFilterChip, setActiveFilterChip] = useState<FilterStatus | null>(null);
   const [isLoading, setIsLoading] = useState(false);
   const [hasError, setHasError] = useState(false);
-  const [lastSyncTime, setLastSyncTime] = useState(new Date());
-  const [syncStatus, setSyncStatus] = useState<'synced' | 'syncing' | 'offline'>('synced');
+  const offlineSync = useOfflineSync();
+  const isOnline = offlineSync.online;
+  const syncStatus: 'synced' | 'syncing' | 'offline' = !isOnline ? 'offline' : offlineSync.syncing ? 'syncing' : 'synced';
+  const [showSyncConflicts, setShowSyncConflicts] = useState(false);
+  const pendingLabel = `${offlineSync.pending} pending change${offlineSync.pending === 1 ? '' : 's'}`;
   const [showReviewBanner, setShowReviewBanner] = useState(false);
   const [isEditDialogOpen, setIsEditDialogOpen] = useState(false);
   const [editedEmail, setEditedEmail] = useState('anna.clinician@luminous.com');
@@ -339,29 +354,6 @@ setPatients(mappedData);
   const activeCount = patients.reduce((sum, p) => sum + (p.charts?.filter(c => c.status === 'Active').length || 0), 0);
   const verifiedReadyCount = patients.reduce((sum, p) => sum + (p.charts?.filter(c => c.status === 'Verified Ready').length || 0), 0);
 
-  // Online/Offline detection
-  useEffect(() => {
-    const handleOnline = () => {
-      setIsOnline(true);
-      setSyncStatus('synced');
-      toast.success('Back online - Synced successfully', {
-        duration: 3000,
-      });
-    };
-    const handleOffline = () => {
-      setIsOnline(false);
-      setSyncStatus('offline');
-    };
-
-    window.addEventListener('online', handleOnline);
-    window.addEventListener('offline', handleOffline);
-
-    return () => {
-      window.removeEventListener('online', handleOnline);
-      window.removeEventListener('offline', handleOffline);
-    };
-  }, []);
-
   // Show review banner if needed
   useEffect(() => {
     if (needsReverificationCount > 0) {
@@ -973,6 +965,7 @@ setPatients(mappedData);
                 patientId: p.id,
                 chartId: p.charts[0]?.id,
                 prefillMedications: scannedForSelection,
+                scanType: scanTypeForSelection,
               });
             }
           }}
@@ -1006,10 +999,23 @@ setPatients(mappedData);
       {/* Sync Status - Streamlined */}
       <div className="flex items-center justify-end" aria-live="polite" role="status">
         <div className="flex items-center gap-2">
+          {offlineSync.conflicts.length > 0 && (
+            <button
+              onClick={() => setShowSyncConflicts(true)}
+              className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg bg-[#FEF3C7] text-[#92400E]"
+            >
+              <AlertTriangle className="w-3.5 h-3.5" />
+              <span className="text-sm font-medium">{offlineSync.conflicts.length} to review</span>
+            </button>
+          )}
           {syncStatus === 'synced' ? (
             <div className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg bg-[#D1FAE5] text-[#047857]">
               <CheckCircle className="w-3.5 h-3.5" />
-              <span className="text-sm font-medium">Synced just now</span>
+              <span className="text-sm font-medium">
+                {offlineSync.lastSyncedAt
+                  ? `Synced ${new Date(offlineSync.lastSyncedAt).toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' })}`
+                  : 'Synced'}
+              </span>
             </div>
           ) : syncStatus === 'syncing' ? (
             <div className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg bg-[#DBEAFE] text-[#0369A1]">
@@ -1019,7 +1025,7 @@ setPatients(mappedData);
           ) : (
             <div className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg bg-[#FEE2E2] text-[#991B1B]">
               <WifiOff className="w-3.5 h-3.5" />
-              <span className="text-sm font-medium">Offline • 3 pending uploads</span>
+              <span className="text-sm font-medium">Offline • {pendingLabel}</span>
             </div>
           )}
         </div>
@@ -1319,6 +1325,15 @@ setPatients(mappedData);
 
           {/* Sync Status Indicator */}
           <div className="flex items-center gap-2">
+            {offlineSync.conflicts.length > 0 && (
+              <button
+                onClick={() => setShowSyncConflicts(true)}
+                className="flex items-center gap-1.5 text-amber-700 text-sm"
+              >
+                <AlertTriangle className="w-4 h-4" />
+                <span>{offlineSync.conflicts.length} to review</span>
+              </button>
+            )}
             {syncStatus === 'synced' ? (
               <div className="flex items-center gap-1.5 text-emerald-700 text-sm">
                 <CheckCircle className="w-4 h-4" />
@@ -1332,7 +1347,7 @@ setPatients(mappedData);
             ) : (
               <div className="flex items-center gap-1.5 text-amber-700 text-sm">
                 <WifiOff className="w-4 h-4" />
-                <span>Offline • 3 pending uploads</span>
+                <span>Offline • {pendingLabel}</span>
               </div>
             )}
           </div>
@@ -2674,6 +2689,12 @@ return (
         </main>
       </div>
       <Toaster position="top-right" />
+      <SyncConflictDialog
+        open={showSyncConflicts}
+        onOpenChange={setShowSyncConflicts}
+        conflicts={offlineSync.conflicts}
+        onResolve={offlineSync.resolveConflict}
+      />
 
       {/* Edit Profile Dialog */}
       <Dialog open={isEditDialogOpen} onOpenChange={setIsEditDialogOpen}>
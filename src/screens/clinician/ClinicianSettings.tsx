@@ -34,6 +34,9 @@ import {
   DialogHeader,
   DialogTitle,
 } from '../../components/ui/dialog';
+import MfaSetupDialog from '../../components/MfaSetupDialog';
+import ActiveSessionsDialog from '../../components/ActiveSessionsDialog';
+import { fetchMySessions } from '../../services/sessionService';
 import { toast } from 'sonner';
 
 interface Props {
@@ -49,6 +52,7 @@ export default function ClinicianSettings({ navigation }: Props) {
   const [showPasswordDialog, setShowPasswordDialog] = useState(false);
   const [showMFADialog, setShowMFADialog] = useState(false);
   const [showDevicesDialog, setShowDevicesDialog] = useState(false);
+  const [sessionCount, setSessionCount] = useState<number | null>(null);
   const [saving, setSaving] = useState(false);
   const [passwordData, setPasswordData] = useState({
     currentPassword: '',
@@ -62,39 +66,18 @@ export default function ClinicianSettings({ navigation }: Props) {
     }
   }, [user]);
 
+  useEffect(() => {
+    fetchMySessions()
+      .then((sessions) => setSessionCount(sessions.length))
+      .catch((error) => console.error('Error loading sessions:', error));
+  }, []);
+
   const profileData = {
     lastPasswordChange: '30 days ago',
     lastLogin: 'Phoenix, AZ',
     lastLoginTime: user?.last_login ? new Date(user.last_login).toLocaleString() : 'Never',
   };
 
-  const loginSessions = [
-    {
-      id: '1',
-      device: 'Chrome on Windows',
-      location: 'Phoenix, AZ',
-      ip: '192.168.1.1',
-      lastActive: 'Active now',
-      current: true,
-    },
-    {
-      id: '2',
-      device: 'Safari on iPhone',
-      location: 'Phoenix, AZ',
-      ip: '192.168.1.45',
-      lastActive: '2 hours ago',
-      current: false,
-    },
-    {
-      id: '3',
-      device: 'Chrome on MacBook',
-      location: 'Scottsdale, AZ',
-      ip: '10.0.0.23',
-      lastActive: 'Yesterday',
-      current: false,
-    },
-  ];
-
   const handleChangePassword = async () => {
     if (!user?.id) return;
     
@@ -128,25 +111,10 @@ export default function ClinicianSettings({ navigation }: Props) {
     }
   };
 
-  const handleToggleMFA = async (enabled: boolean) => {
-    if (!user?.id) return;
-    
-    try {
-      if (enabled) {
-        setShowMFADialog(true);
-      } else {
-        await userProfileService.updateMFASettings(user.id, false);
-        setMfaEnabled(false);
-        toast.info('Two-factor authentication disabled');
-      }
-    } catch (error) {
-      console.error('Error toggling MFA:', error);
-      toast.error('Failed to update MFA settings');
-    }
-  };
-
-  const handleRevokeSession = (sessionId: string) => {
-    toast.success('Session revoked successfully');
+  // Either direction goes through the dialog: enabling needs enrollment,
+  // disabling needs a current code
+  const handleToggleMFA = () => {
+    setShowMFADialog(true);
   };
 
   return (
@@ -334,7 +302,9 @@ export default function ClinicianSettings({ navigation }: Props) {
                   </div>
                   <div>
                     <p className="text-sm text-[#0f172a] mb-1">Active Sessions</p>
-                    <p className="text-xs text-[#64748b]">{loginSessions.length} devices signed in</p>
+                    <p className="text-xs text-[#64748b]">{sessionCount === null
+                        ? 'Devices where you are signed in'
+                        : `${sessionCount} device${sessionCount !== 1 ? 's' : ''} signed in`}</p>
                   </div>
                 </div>
                 <Button
@@ -413,107 +383,19 @@ export default function ClinicianSettings({ navigation }: Props) {
       </Dialog>
 
       {/* MFA Setup Dialog */}
-      <Dialog open={showMFADialog} onOpenChange={setShowMFADialog}>
-        <DialogContent>
-          <DialogHeader>
-            <DialogTitle>Enable Two-Factor Authentication</DialogTitle>
-            <DialogDescription>
-              Scan the QR code with your authenticator app
-            </DialogDescription>
-          </DialogHeader>
-          <div className="space-y-4 py-4">
-            <div className="w-48 h-48 bg-slate-100 rounded-lg mx-auto flex items-center justify-center">
-              <p className="text-sm text-slate-500">QR Code Here</p>
-            </div>
-            <div className="space-y-2">
-              <Label htmlFor="verification-code">Verification Code</Label>
-              <Input
-                id="verification-code"
-                type="text"
-                placeholder="Enter 6-digit code"
-                className="h-11 rounded-xl"
-              />
-            </div>
-          </div>
-          <DialogFooter>
-            <Button variant="outline" onClick={() => setShowMFADialog(false)}>
-              Cancel
-            </Button>
-            <Button
-              className="bg-[#10B981] hover:bg-[#059669]"
-              onClick={() => {
-                setShowMFADialog(false);
-                toast.success('Two-factor authentication enabled');
-              }}
-            >
-              Verify & Enable
-            </Button>
-          </DialogFooter>
-        </DialogContent>
-      </Dialog>
+      <MfaSetupDialog
+        open={showMFADialog}
+        onOpenChange={setShowMFADialog}
+        enabled={mfaEnabled}
+        onEnabledChange={setMfaEnabled}
+      />
 
       {/* Active Devices Dialog */}
-      <Dialog open={showDevicesDialog} onOpenChange={setShowDevicesDialog}>
-        <DialogContent className="max-w-2xl">
-          <DialogHeader>
-            <DialogTitle>Active Sessions</DialogTitle>
-            <DialogDescription>
-              Manage devices where you're currently signed in
-            </DialogDescription>
-          </DialogHeader>
-          <div className="space-y-3 py-4 max-h-96 overflow-y-auto">
-            {loginSessions.map((session) => (
-              <Card key={session.id} className="p-4">
-                <div className="flex items-start justify-between gap-4">
-                  <div className="flex items-start gap-3 flex-1">
-                    <div className="w-10 h-10 rounded-xl bg-[#DBEAFE] flex items-center justify-center flex-shrink-0">
-                      <Monitor className="w-5 h-5 text-[#0966CC]" />
-                    </div>
-                    <div className="flex-1">
-                      <div className="flex items-center gap-2 mb-1">
-                        <p className="text-sm font-medium text-[#0f172a]">{session.device}</p>
-                        {session.current && (
-                          <Badge variant="outline" className="border-[#10B981] text-[#10B981] text-xs h-5">
-                            Current
-                          </Badge>
-                        )}
-                      </div>
-                      <p className="text-xs text-[#64748b]">📍 {session.location}</p>
-                      <p className="text-xs text-[#64748b]">IP: {session.ip}</p>
-                      <p className="text-xs text-[#64748b]">{session.lastActive}</p>
-                    </div>
-                  </div>
-                  {!session.current && (
-                    <Button
-                      variant="ghost"
-                      size="sm"
-                      onClick={() => handleRevokeSession(session.id)}
-                      className="text-red-600 hover:text-red-700 hover:bg-red-50"
-                    >
-                      Revoke
-                    </Button>
-                  )}
-                </div>
-              </Card>
-            ))}
-          </div>
-          <DialogFooter>
-            <Button variant="outline" onClick={() => setShowDevicesDialog(false)}>
-              Close
-            </Button>
-            <Button
-              variant="destructive"
-              onClick={() => {
-                toast.success('All other sessions revoked');
-                setShowDevicesDialog(false);
-              }}
-            >
-              <AlertTriangle className="w-4 h-4 mr-2" />
-              Revoke All Others
-            </Button>
-          </DialogFooter>
-        </DialogContent>
-      </Dialog>
+      <ActiveSessionsDialog
+        open={showDevicesDialog}
+        onOpenChange={setShowDevicesDialog}
+        onSessionsChange={(sessions) => setSessionCount(sessions.length)}
+      />
     </div>
   );
 }
@@ -7,6 +7,16 @@ import { Badge } from '../../components/ui/badge';
 import { Screen, NavigationParams } from '../../App';
 import { supabaseClient } from '../../lib/supabase';
 import { useAuth } from '../../context/AuthContext';
+import { fetchMedicationImage } from '../../services/chartService';
+import { checkMedicationAllergies, type MedicationAllergyConflict } from '../../services/allergyService';
+import {
+  getCachedChart,
+  getCachedImage,
+  insertMedication,
+  isOnline,
+  updateMedication,
+} from '../../services/offlineSyncService';
+import type { FieldExtraction, MedicationField, MedicationOcrProvenance } from '../../utils/ocrService';
 
 
 interface Props {
@@ -22,7 +32,43 @@ interface Props {
 interface FieldVerification {
   value: string;
   isVerified: boolean;
-  confidence: number;
+  // null when the value was typed rather than read from the scan
+  confidence: number | null;
+  // OCR words the value was read from (medications.ocr_fields)
+  source: FieldExtraction | null;
+}
+
+type VerificationFieldKey = 'drugName' | 'strength' | 'medicationRoute' | 'frequency' | 'prescriber';
+
+// Extractor field behind each form field, and its highlight color (same
+// palette as the OCR scanner's legend)
+const FIELD_SOURCES: Record<VerificationFieldKey, { ocrField: MedicationField; color: string }> = {
+  drugName: { ocrField: 'name', color: '#0966CC' },
+  strength: { ocrField: 'dosage', color: '#10B981' },
+  medicationRoute: { ocrField: 'route', color: '#8B5CF6' },
+  frequency: { ocrField: 'frequency', color: '#F59E0B' },
+  prescriber: { ocrField: 'prescriber', color: '#06B6D4' },
+};
+
+const emptyField = (): FieldVerification => ({ value: '', isVerified: false, confidence: null, source: null });
+
+const sameValue = (a: string, b: string) =>
+  a.toLowerCase().replace(/\s+/g, ' ').trim() === b.toLowerCase().replace(/\s+/g, ' ').trim();
+
+// Per-field confidence from the scan when the stored value is still the one
+// that was read; otherwise the row's overall OCR confidence, if any
+function fieldFromRow(
+  value: string,
+  verified: boolean,
+  provenance: MedicationOcrProvenance | null,
+  ocrField: MedicationField,
+  rowConfidence: number | null
+): FieldVerification {
+  const extracted = provenance?.fields?.[ocrField];
+  if (extracted && sameValue(extracted.value, value)) {
+    return { value, isVerified: verified, confidence: extracted.confidence, source: extracted };
+  }
+  return { value, isVerified: verified, confidence: rowConfidence, source: null };
 }
 
 export default function MedicationVerification({ navigation, route }: Props) {
@@ -32,40 +78,25 @@ export default function MedicationVerification({ navigation, route }: Props) {
 
   const { user } = useAuth();
 
-    const [drugName, setDrugName] = useState<FieldVerification>({
-    value: '',
-    isVerified: false,
-    confidence: 90,
-  });
-
-  const [strength, setStrength] = useState<FieldVerification>({
-    value: '',
-    isVerified: false,
-    confidence: 85,
-  });
-
-  const [medicationRoute, setMedicationRoute] = useState<FieldVerification>({
-    value: '',
-    isVerified: false,
-    confidence: 90,
-  });
-
-  const [frequency, setFrequency] = useState<FieldVerification>({
-    value: '',
-    isVerified: false,
-    confidence: 80,
-  });
-
-  const [prescriber, setPrescriber] = useState<FieldVerification>({
-    value: '',
-    isVerified: false,
-    confidence: 80,
-  });
+  const [drugName, setDrugName] = useState<FieldVerification>(emptyField);
+  const [strength, setStrength] = useState<FieldVerification>(emptyField);
+  const [medicationRoute, setMedicationRoute] = useState<FieldVerification>(emptyField);
+  const [frequency, setFrequency] = useState<FieldVerification>(emptyField);
+  const [prescriber, setPrescriber] = useState<FieldVerification>(emptyField);
+
+  // Overall OCR confidence (0–1) as stored; kept as-is on save
+  const [ocrConfidence, setOcrConfidence] = useState<number | null>(null);
+  // Pixel space the source word boxes are measured in
+  const [ocrImage, setOcrImage] = useState<MedicationOcrProvenance['image']>(null);
+  const [activeField, setActiveField] = useState<VerificationFieldKey | null>(null);
 
   const [scannedDate, setScannedDate] = useState<string>('');
   const [scannedImage, setScannedImage] = useState<string | null>(null);
+  // Server version the edit starts from, so offline edits can detect conflicts
+  const [baseUpdatedAt, setBaseUpdatedAt] = useState<string | null>(null);
   const [loading, setLoading] = useState(false);
   const [loadError, setLoadError] = useState<string | null>(null);
+  const [allergyConflicts, setAllergyConflicts] = useState<MedicationAllergyConflict[]>([]);
 
     useEffect(() => {
     const loadMedication = async () => {
@@ -76,50 +107,47 @@ export default function MedicationVerification({ navigation, route }: Props) {
 
       try {
         setLoading(true);
-        const { data, error } = await supabaseClient
-          .from('medications')
-          .select('drug_name, strength, route, frequency, prescriber, scanned_on, ocr_confidence, verified, scanned_image')
-          .eq('id', medicationId)
-          .single();
-
-        if (error) throw error;
+        let data: any;
+        if (isOnline()) {
+          const { data: row, error } = await supabaseClient
+            .from('medications')
+            .select('chart_id, drug_name, strength, route, frequency, prescriber, scanned_on, ocr_confidence, ocr_fields, verified, updated_at')
+            .eq('id', medicationId)
+            .single();
+
+          if (error) throw error;
+          // Label images are stored encrypted; the API decrypts them
+          const image = await fetchMedicationImage(row.chart_id, medicationId);
+          data = { ...row, scanned_image: image || (await getCachedImage(medicationId)) || null };
+        } else {
+          // Offline: use the copy cached with the chart
+          const cached = chartId ? await getCachedChart(chartId) : undefined;
+          const med = cached?.medications.find((m) => m.id === medicationId);
+          if (!med) throw new Error('You are offline and this medication has not been saved on this device yet');
+          data = { ...med, scanned_image: (await getCachedImage(medicationId)) || null };
+        }
         if (!data) return;
 
         const confidencePct = data.ocr_confidence != null
           ? Math.round(Number(data.ocr_confidence) * 100)
-          : 90;
-
-        setDrugName({
-          value: data.drug_name ?? '',
-          isVerified: !!data.verified,
-          confidence: confidencePct,
-        });
-        setStrength({
-          value: data.strength ?? '',
-          isVerified: !!data.verified,
-          confidence: confidencePct,
-        });
-        setMedicationRoute({
-          value: data.route ?? '',
-          isVerified: !!data.verified,
-          confidence: confidencePct,
-        });
-        setFrequency({
-          value: data.frequency ?? '',
-          isVerified: !!data.verified,
-          confidence: confidencePct,
-        });
-        setPrescriber({
-          value: data.prescriber ?? '',
-          isVerified: !!data.verified,
-          confidence: confidencePct,
-        });
+          : null;
+        const provenance: MedicationOcrProvenance | null = data.ocr_fields ?? null;
+        const verified = !!data.verified;
+
+        setDrugName(fieldFromRow(data.drug_name ?? '', verified, provenance, 'name', confidencePct));
+        setStrength(fieldFromRow(data.strength ?? '', verified, provenance, 'dosage', confidencePct));
+        setMedicationRoute(fieldFromRow(data.route ?? '', verified, provenance, 'route', confidencePct));
+        setFrequency(fieldFromRow(data.frequency ?? '', verified, provenance, 'frequency', confidencePct));
+        setPrescriber(fieldFromRow(data.prescriber ?? '', verified, provenance, 'prescriber', confidencePct));
+        setOcrConfidence(data.ocr_confidence != null ? Number(data.ocr_confidence) : null);
+        setOcrImage(provenance?.image ?? null);
         setScannedDate(
           data.scanned_on
             ? new Date(data.scanned_on).toLocaleString()
             : ''
         );
         setScannedImage(data.scanned_image || null);
+        setBaseUpdatedAt(data.updated_at ?? null);
         setLoadError(null);
       } catch (err: any) {
         console.error('Error loading medication', err);
@@ -132,6 +160,51 @@ export default function MedicationVerification({ navigation, route }: Props) {
     loadMedication();
   }, [medicationId]);
 
+  // Check the drug against the patient's allergies as it is read or typed
+  useEffect(() => {
+    const name = drugName.value.trim();
+    if (!patientId || !name || !isOnline()) {
+      setAllergyConflicts([]);
+      return;
+    }
+
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      try {
+        const conflicts = await checkMedicationAllergies(patientId, name);
+        if (!cancelled) setAllergyConflicts(conflicts);
+      } catch (err) {
+        console.error('Error checking medication against allergies', err);
+      }
+    }, 400);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [patientId, drugName.value]);
+
+
+  // Typing over a scanned value means it no longer came from the scan
+  const editedField = (current: FieldVerification, value: string): FieldVerification =>
+    current.source && sameValue(current.source.value, value)
+      ? { ...current, value, isVerified: false }
+      : { value, isVerified: false, confidence: null, source: null };
+
+  const fieldStates: Record<VerificationFieldKey, FieldVerification> = {
+    drugName,
+    strength,
+    medicationRoute,
+    frequency,
+    prescriber,
+  };
+  const sourceBoxes = (Object.keys(fieldStates) as VerificationFieldKey[]).flatMap((field) =>
+    (fieldStates[field].source?.words || []).map((word) => ({
+      field,
+      bbox: word.bbox,
+      color: FIELD_SOURCES[field].color,
+    }))
+  );
 
   const allFieldsVerified = drugName.isVerified && strength.isVerified && medicationRoute.isVerified && frequency.isVerified && prescriber.isVerified;
 
@@ -164,6 +237,15 @@ export default function MedicationVerification({ navigation, route }: Props) {
     alert('Please verify all fields before saving');
     return;
   }
+  const blockingConflicts = allergyConflicts.filter((c) => c.level === 'blocking');
+  if (
+    blockingConflicts.length > 0 &&
+    !window.confirm(
+      `Allergy conflict:\n\n${blockingConflicts.map((c) => c.message).join('\n')}\n\nSave this medication anyway?`
+    )
+  ) {
+    return;
+  }
 
   try {
     setLoading(true);
@@ -186,35 +268,18 @@ export default function MedicationVerification({ navigation, route }: Props) {
         ? new Date(scannedDate).toISOString()
         : null,
       // store as 0–1 in DB
-      ocr_confidence: 0.9,
+      ocr_confidence: ocrConfidence,
       verified: true,
       changed_after_verify: false,
-      scanned_image: scannedImage || null, // Preserve the scanned image
     };
 
-    let finalMedicationId = medicationId;
-
+    // Both are queued on this device when offline
     if (medicationId) {
-      // EDIT: update existing row
-      const { data, error } = await supabaseClient
-        .from('medications')
-        .update(basePayload)
-        .eq('id', medicationId)
-        .select('id')
-        .single();
-
-      if (error) throw error;
-      finalMedicationId = data.id;
+      // EDIT: update existing row (the scanned image stays as it is)
+      await updateMedication(chartId, medicationId, basePayload, baseUpdatedAt);
     } else {
       // CREATE: insert new row
-      const { data, error } = await supabaseClient
-        .from('medications')
-        .insert([basePayload])
-        .select('id')
-        .single();
-
-      if (error) throw error;
-      finalMedicationId = data.id;
+      await insertMedication({ ...basePayload, scanned_image: scannedImage || null });
     }
 
     // After saving & marking as verified, go back to the chart detail flow
@@ -242,28 +307,45 @@ export default function MedicationVerification({ navigation, route }: Props) {
     onVerify 
   }: { 
     label: string; 
-    field: string; 
+    field: VerificationFieldKey; 
     value: string; 
     isVerified: boolean; 
-    confidence: number; 
+    confidence: number | null; 
     onChange: (val: string) => void; 
     onVerify: () => void; 
   }) => (
-    <div>
+    <div
+      onMouseEnter={() => setActiveField(field)}
+      onMouseLeave={() => setActiveField((current) => (current === field ? null : current))}
+    >
       <div className="flex items-center justify-between mb-2">
-        <Label htmlFor={field}>{label}</Label>
+        <Label htmlFor={field} className="flex items-center gap-2">
+          {ocrImage && (
+            <span
+              className="inline-block w-2.5 h-2.5 rounded-full"
+              style={{ backgroundColor: FIELD_SOURCES[field].color }}
+            />
+          )}
+          {label}
+        </Label>
         <div className="flex items-center gap-2">
-          <Badge
-            className={
-              confidence >= 90
-                ? 'bg-[#D1FAE5] text-[#10B981] border-[#A7F3D0]'
-                : confidence >= 75
-                ? 'bg-[#FEF3C7] text-[#F59E0B] border-[#FDE68A]'
-                : 'bg-[#FEE2E2] text-[#DC2626] border-[#FECACA]'
-            }
-          >
-            {confidence}% confidence
-          </Badge>
+          {confidence === null ? (
+            <Badge className="bg-[#f1f5f9] text-[#64748b] border-[#e2e8f0]">
+              Entered manually
+            </Badge>
+          ) : (
+            <Badge
+              className={
+                confidence >= 90
+                  ? 'bg-[#D1FAE5] text-[#10B981] border-[#A7F3D0]'
+                  : confidence >= 75
+                  ? 'bg-[#FEF3C7] text-[#F59E0B] border-[#FDE68A]'
+                  : 'bg-[#FEE2E2] text-[#DC2626] border-[#FECACA]'
+              }
+            >
+              {confidence}% confidence
+            </Badge>
+          )}
           {isVerified && (
             <Badge className="bg-[#D1FAE5] text-[#10B981] border-[#A7F3D0]">
               <CheckCircle2 className="w-3 h-3 mr-1" />
@@ -277,6 +359,7 @@ export default function MedicationVerification({ navigation, route }: Props) {
           id={field}
           value={value}
           onChange={(e) => onChange(e.target.value)}
+          onFocus={() => setActiveField(field)}
           className="flex-1 h-12 rounded-xl border-2 border-[#e2e8f0] bg-[#f8fafc]"
         />
         {!isVerified && (
@@ -343,12 +426,32 @@ export default function MedicationVerification({ navigation, route }: Props) {
               </Badge>
             </div>
             {scannedImage ? (
-              <div className="rounded-xl border-2 border-[#e2e8f0] overflow-hidden bg-[#f8fafc]">
+              <div className="relative rounded-xl border-2 border-[#e2e8f0] overflow-hidden bg-[#f8fafc]">
                 <img
                   src={scannedImage}
                   alt="Scanned medication"
-                  className="w-full h-auto"
+                  className="w-full h-auto block"
                 />
+                {/* Where each value was read; the hovered or focused field stands out */}
+                {ocrImage && (
+                  <div className="absolute inset-0 pointer-events-none">
+                    {sourceBoxes.map((box, idx) => (
+                      <span
+                        key={idx}
+                        className="absolute border-2 rounded-sm transition-opacity"
+                        style={{
+                          left: `${(box.bbox.x0 / ocrImage.width) * 100}%`,
+                          top: `${(box.bbox.y0 / ocrImage.height) * 100}%`,
+                          width: `${((box.bbox.x1 - box.bbox.x0) / ocrImage.width) * 100}%`,
+                          height: `${((box.bbox.y1 - box.bbox.y0) / ocrImage.height) * 100}%`,
+                          borderColor: box.color,
+                          backgroundColor: box.color + '33',
+                          opacity: !activeField || activeField === box.field ? 1 : 0.25,
+                        }}
+                      />
+                    ))}
+                  </div>
+                )}
               </div>
             ) : (
               <div className="aspect-video bg-[#f8fafc] rounded-xl border-2 border-dashed border-[#e2e8f0] flex items-center justify-center">
@@ -370,17 +473,34 @@ export default function MedicationVerification({ navigation, route }: Props) {
                 value={drugName.value}
                 isVerified={drugName.isVerified}
                 confidence={drugName.confidence}
-                onChange={(val) => setDrugName({ ...drugName, value: val, isVerified: false })}
+                onChange={(val) => setDrugName(editedField(drugName, val))}
                 onVerify={() => handleVerifyField('drugName')}
               />
 
+              {allergyConflicts.map((conflict) => (
+                <div
+                  key={conflict.allergy_id}
+                  className={`flex items-start gap-2 p-3 rounded-lg border ${
+                    conflict.level === 'blocking'
+                      ? 'bg-[#FEF2F2] border-[#FECACA] text-[#991B1B]'
+                      : 'bg-[#FFFBEB] border-[#FDE68A] text-[#92400E]'
+                  }`}
+                >
+                  <AlertTriangle className="w-4 h-4 flex-shrink-0 mt-0.5" />
+                  <p className="text-sm">
+                    {conflict.level === 'blocking' ? 'Allergy conflict: ' : 'Allergy warning: '}
+                    {conflict.message}
+                  </p>
+                </div>
+              ))}
+
               <VerificationField
                 label="Strength"
                 field="strength"
                 value={strength.value}
                 isVerified={strength.isVerified}
                 confidence={strength.confidence}
-                onChange={(val) => setStrength({ ...strength, value: val, isVerified: false })}
+                onChange={(val) => setStrength(editedField(strength, val))}
                 onVerify={() => handleVerifyField('strength')}
               />
 
@@ -390,7 +510,7 @@ export default function MedicationVerification({ navigation, route }: Props) {
                 value={medicationRoute.value}
                 isVerified={medicationRoute.isVerified}
                 confidence={medicationRoute.confidence}
-                onChange={(val) => setMedicationRoute({ ...medicationRoute, value: val, isVerified: false })}
+                onChange={(val) => setMedicationRoute(editedField(medicationRoute, val))}
                 onVerify={() => handleVerifyField('medicationRoute')}
               />
 
@@ -400,7 +520,7 @@ export default function MedicationVerification({ navigation, route }: Props) {
                 value={frequency.value}
                 isVerified={frequency.isVerified}
                 confidence={frequency.confidence}
-                onChange={(val) => setFrequency({ ...frequency, value: val, isVerified: false })}
+                onChange={(val) => setFrequency(editedField(frequency, val))}
                 onVerify={() => handleVerifyField('frequency')}
               />
 
@@ -410,7 +530,7 @@ export default function MedicationVerification({ navigation, route }: Props) {
                 value={prescriber.value}
                 isVerified={prescriber.isVerified}
                 confidence={prescriber.confidence}
-                onChange={(val) => setPrescriber({ ...prescriber, value: val, isVerified: false })}
+                onChange={(val) => setPrescriber(editedField(prescriber, val))}
                 onVerify={() => handleVerifyField('prescriber')}
               />
             </div>
@@ -7,7 +7,7 @@ import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent,
 import { Input } from '../../components/ui/input';
 import { Label } from '../../components/ui/label';
 import { Screen, NavigationParams } from '../../App';
-import { supabaseClient } from '../../lib/supabase';
+import { fetchPatient } from '../../services/patientService';
 
 
 interface Props {
@@ -30,12 +30,7 @@ export default function MedicationVerificationDelivery({ navigation, route }: Pr
     const loadPatient = async () => {
       if (!patientId) return;
       try {
-        const { data, error } = await supabaseClient
-          .from('patients')
-          .select('first_name, last_name, date_of_birth')
-          .eq('id', patientId)
-          .single();
-        if (error) throw error;
+        const data = await fetchPatient(patientId);
         if (!data) return;
 
         setPatientName(`${data.first_name} ${data.last_name}`);
@@ -4,7 +4,7 @@ import { Button } from '../../components/ui/button';
 import { Badge } from '../../components/ui/badge';
 import { Separator } from '../../components/ui/separator';
 import { Screen, NavigationParams } from '../../App';
-import { supabaseClient } from '../../lib/supabase';
+import { fetchPatient } from '../../services/patientService';
 
 interface Props {
   navigation: {
@@ -26,12 +26,7 @@ export default function MedicationVerificationSummary({ navigation, route }: Pro
     const loadPatient = async () => {
       if (!patientId) return;
       try {
-        const { data, error } = await supabaseClient
-          .from('patients')
-          .select('first_name, last_name, date_of_birth')
-          .eq('id', patientId)
-          .single();
-        if (error) throw error;
+        const data = await fetchPatient(patientId);
         if (!data) return;
 
         setPatientName(`${data.first_name} ${data.last_name}`);
@@ -1,5 +1,5 @@
 import React, { useState, useEffect, useRef } from 'react';
-import { ArrowLeft, User, Calendar as CalendarIcon, Phone, MapPin, FileText, ChevronRight, Check, Circle, Save, FileDown, X } from 'lucide-react';
+import { ArrowLeft, User, Calendar as CalendarIcon, Phone, MapPin, FileText, ChevronRight, Check, Circle, Save, FileDown, X, Plus, ShieldAlert } from 'lucide-react';
 import { Input } from '../../components/ui/input';
 import { Label } from '../../components/ui/label';
 import { Button } from '../../components/ui/button';
@@ -11,6 +11,13 @@ import { useAuth } from '../../context/AuthContext';
 import MedicationOCRScanner from '../../components/MedicationOCRScanner';
 import PDFScanner from '../../components/PDFScanner';
 import { PatientInfo, MedicationInfo } from '../../utils/ocrService';
+import {
+  ALLERGY_SEVERITY_LABELS,
+  ALLERGY_SOURCE_LABELS,
+  type AllergyInput,
+  type AllergySeverity,
+  type AllergySource,
+} from '../../services/allergyService';
 
 // US States list
 const US_STATES = [
@@ -152,6 +159,12 @@ export default function NewPatientChart({ navigation, route }: Props) {
   const [state, setState] = useState(parsedAddress.state);
   const [zipCode, setZipCode] = useState(parsedAddress.zip);
   const [notes, setNotes] = useState('');
+  // Saved against the patient once the chart is created (NewPatientChartReview)
+  const [allergies, setAllergies] = useState<Required<AllergyInput>[]>([]);
+  const [allergen, setAllergen] = useState('');
+  const [allergyReaction, setAllergyReaction] = useState('');
+  const [allergySeverity, setAllergySeverity] = useState<AllergySeverity>('unknown');
+  const [allergySource, setAllergySource] = useState<AllergySource>('patient_reported');
   const [errors, setErrors] = useState<Record<string, string>>({});
   const [touched, setTouched] = useState<Record<string, boolean>>({});
   const [showScanBanner, setShowScanBanner] = useState(!!prefillData);
@@ -202,6 +215,22 @@ export default function NewPatientChart({ navigation, route }: Props) {
     return Object.keys(newErrors).length === 0;
   };
 
+  const handleAddAllergy = () => {
+    if (!allergen.trim()) return;
+    setAllergies([
+      ...allergies,
+      {
+        allergen: allergen.trim(),
+        reaction: allergyReaction.trim() || null,
+        severity: allergySeverity,
+        source: allergySource,
+      },
+    ]);
+    setAllergen('');
+    setAllergyReaction('');
+    setAllergySeverity('unknown');
+  };
+
   const handleSaveAndContinue = () => {
     if (validateForm()) {
       // Prepare attachments array - combine existing attachments with any new scanned PDF
@@ -225,7 +254,8 @@ export default function NewPatientChart({ navigation, route }: Props) {
           city,
           state,
           zip_code: zipCode,
-          notes
+          notes,
+          allergies
         },
         scannedMedications: scannedPDFMedications.length > 0 ? scannedPDFMedications : scannedMedications,
         scanType,
@@ -545,6 +575,103 @@ export default function NewPatientChart({ navigation, route }: Props) {
               </div>
             </div>
 
+            {/* Allergies Section */}
+            <div className="pt-6 pb-6 px-6 border-t border-slate-200 space-y-5">
+              <h3 className="text-sm font-semibold text-slate-700 uppercase tracking-wide flex items-center gap-2">
+                <ShieldAlert className="w-4 h-4" />
+                Allergies
+              </h3>
+
+              {allergies.length > 0 && (
+                <div className="space-y-2">
+                  {allergies.map((allergy, index) => (
+                    <div
+                      key={`${allergy.allergen}-${index}`}
+                      className="flex items-center justify-between gap-3 p-3 rounded-xl border-2 border-slate-200 bg-slate-50"
+                    >
+                      <div>
+                        <p className="text-slate-900">
+                          {allergy.allergen}
+                          <span className="text-xs text-slate-500 ml-2">{ALLERGY_SEVERITY_LABELS[allergy.severity]}</span>
+                        </p>
+                        <p className="text-xs text-slate-500">
+                          {allergy.reaction ? `${allergy.reaction} · ` : ''}
+                          {ALLERGY_SOURCE_LABELS[allergy.source]}
+                        </p>
+                      </div>
+                      <button
+                        type="button"
+                        onClick={() => setAllergies(allergies.filter((_, i) => i !== index))}
+                        className="p-1 text-slate-400 hover:text-red-500"
+                        aria-label={`Remove ${allergy.allergen} allergy`}
+                      >
+                        <X className="w-4 h-4" />
+                      </button>
+                    </div>
+                  ))}
+                </div>
+              )}
+
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                <div>
+                  <Label htmlFor="allergen" className="text-slate-700">Allergen</Label>
+                  <Input
+                    id="allergen"
+                    value={allergen}
+                    onChange={(e) => setAllergen(e.target.value)}
+                    placeholder="e.g. Penicillin, Sulfa, Peanuts"
+                    className="mt-2 h-12 rounded-xl border-2 border-slate-200 bg-slate-50 focus:ring-sky-200"
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="allergyReaction" className="text-slate-700">Reaction</Label>
+                  <Input
+                    id="allergyReaction"
+                    value={allergyReaction}
+                    onChange={(e) => setAllergyReaction(e.target.value)}
+                    placeholder="e.g. Hives, anaphylaxis"
+                    className="mt-2 h-12 rounded-xl border-2 border-slate-200 bg-slate-50 focus:ring-sky-200"
+                  />
+                </div>
+                <div>
+                  <Label className="text-slate-700">Severity</Label>
+                  <Select value={allergySeverity} onValueChange={(value) => setAllergySeverity(value as AllergySeverity)}>
+                    <SelectTrigger className="mt-2 h-12 rounded-xl border-2 border-slate-200 bg-slate-50">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {Object.entries(ALLERGY_SEVERITY_LABELS).map(([value, label]) => (
+                        <SelectItem key={value} value={value}>{label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div>
+                  <Label className="text-slate-700">Source</Label>
+                  <Select value={allergySource} onValueChange={(value) => setAllergySource(value as AllergySource)}>
+                    <SelectTrigger className="mt-2 h-12 rounded-xl border-2 border-slate-200 bg-slate-50">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {Object.entries(ALLERGY_SOURCE_LABELS).map(([value, label]) => (
+                        <SelectItem key={value} value={value}>{label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+              <Button
+                type="button"
+                variant="outline"
+                onClick={handleAddAllergy}
+                disabled={!allergen.trim()}
+                className="h-10 rounded-xl border-2 border-slate-300"
+              >
+                <Plus className="w-4 h-4 mr-2" />
+                Add Allergy
+              </Button>
+            </div>
+
             {/* Notes Section */}
             <div className="pt-6 pb-6 px-6 border-t border-slate-200 space-y-5">
               <h3 className="text-sm font-semibold text-slate-700 uppercase tracking-wide">Additional Notes</h3>
@@ -555,7 +682,7 @@ export default function NewPatientChart({ navigation, route }: Props) {
                   id="notes"
                   value={notes}
                   onChange={(e) => setNotes(e.target.value)}
-                  placeholder="Optional notes about this patient (e.g., special considerations, allergies, communication preferences)..."
+                  placeholder="Optional notes about this patient (e.g., special considerations, communication preferences)..."
                   className="mt-2 min-h-[120px] rounded-xl border-2 border-slate-200 bg-slate-50 focus:ring-sky-200 resize-none"
                 />
                 <p className="text-xs text-slate-500 mt-1.5">Optional field for additional context</p>
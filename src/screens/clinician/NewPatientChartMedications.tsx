@@ -8,7 +8,9 @@ import { Screen, NavigationParams } from '../../App';
 import { Paperclip } from 'lucide-react';
 import MedicationBarcodeScanner, { ScannedMedication } from '../../components/MedicationBarcodeScanner';
 import MedicationOCRScanner from '../../components/MedicationOCRScanner';
-import { MedicationInfo } from '../../utils/ocrService';
+import { MedicationInfo, buildOcrProvenance } from '../../utils/ocrService';
+import type { MedicationOcrProvenance } from '../../utils/ocrService';
+import { medicationSourceForScanType, type MedicationSource } from '../../services/medicationReconciliationService';
 
 interface Props {
   navigation: {
@@ -26,6 +28,8 @@ interface Medication {
   dosage: string;
   frequency: string;
   route: string;
+  source: MedicationSource;
+  ocrFields?: MedicationOcrProvenance | null;
 }
 
 const ROUTES = ['Oral', 'Topical', 'Inhalation', 'Injection', 'IV', 'Sublingual', 'Rectal', 'Transdermal'];
@@ -39,6 +43,8 @@ export default function NewPatientChartMedications({ navigation, route }: Props)
   const [medications, setMedications] = useState<Medication[]>(
     scannedMedications.map((med: any, index: number) => ({
       id: `scanned-${index}`,
+      source: medicationSourceForScanType(scanType),
+      ocrFields: buildOcrProvenance(med),
       ...med
     }))
   );
@@ -100,6 +106,7 @@ export default function NewPatientChartMedications({ navigation, route }: Props)
       dosage: med.dosage,
       frequency: med.frequency,
       route: med.route,
+      source: 'bottle_scan',
     }));
     setMedications([...medications, ...newMeds]);
     setShowBarcodeScanner(false);
@@ -112,6 +119,8 @@ export default function NewPatientChartMedications({ navigation, route }: Props)
       dosage: med.dosage || '',
       frequency: med.frequency || '',
       route: med.route || '',
+      source: 'bottle_scan',
+      ocrFields: buildOcrProvenance(med),
     }));
     setMedications([...medications, ...newMeds]);
     setShowOCRScanner(false);
@@ -125,6 +134,7 @@ export default function NewPatientChartMedications({ navigation, route }: Props)
         dosage,
         frequency,
         route: medRoute,
+        source: 'manual',
       };
       setMedications([...medications, newMed]);
       resetForm();
@@ -1,10 +1,20 @@
 import React from 'react';
-import { ArrowLeft, User, MapPin, Phone, Calendar, Pill, ChevronRight, Check, Save, X } from 'lucide-react';
+import { ArrowLeft, User, MapPin, Phone, Calendar, Pill, ChevronRight, Check, Save, X, ShieldAlert } from 'lucide-react';
 import { Button } from '../../components/ui/button';
 import { Screen, NavigationParams } from '../../App';
 import { supabaseClient } from '../../lib/supabase';
 import { useAuth } from '../../context/AuthContext';
 import { uploadDocument } from '../../services/documentService';
+import { createPatientRecord, lookupPatients } from '../../services/patientService';
+import {
+  ALLERGY_SEVERITY_LABELS,
+  ALLERGY_SOURCE_LABELS,
+  addPatientAllergy,
+  fetchPatientAllergies,
+  type AllergyInput,
+} from '../../services/allergyService';
+import type { MedicationSource } from '../../services/medicationReconciliationService';
+import type { MedicationOcrProvenance } from '../../utils/ocrService';
 
 const scanTypeToSource = (
   scanType?: string
@@ -41,6 +51,8 @@ interface Medication {
   dosage: string;
   frequency: string;
   route: string;
+  source?: MedicationSource;
+  ocrFields?: MedicationOcrProvenance | null;
 }
 
 export default function NewPatientChartReview({ navigation, route }: Props) {
@@ -60,6 +72,7 @@ export default function NewPatientChartReview({ navigation, route }: Props) {
   state: string;
   zip_code: string;
   notes: string;
+  allergies?: Required<AllergyInput>[];
 } = route.params?.patient || {
   first_name: '',
   last_name: '',
@@ -74,6 +87,23 @@ export default function NewPatientChartReview({ navigation, route }: Props) {
 };
   const medications: Medication[] = route.params?.medications || [];
   const attachments: File[] = route.params?.attachments || [];
+  const allergies = patient.allergies || [];
+
+  // Record the allergies entered in step 1, skipping any the patient already has
+  const saveAllergies = async (patientId: string) => {
+    if (allergies.length === 0) return;
+    try {
+      const existing = await fetchPatientAllergies(patientId);
+      const known = new Set(existing.map((a) => a.allergen.trim().toLowerCase()));
+      for (const allergy of allergies) {
+        if (known.has(allergy.allergen.trim().toLowerCase())) continue;
+        await addPatientAllergy(patientId, allergy);
+      }
+    } catch (err) {
+      console.error('Error saving allergies:', err);
+      alert('Some allergies could not be saved. Please add them from the chart.');
+    }
+  };
 
 
   const handleGoBack = () => {
@@ -99,26 +129,12 @@ export default function NewPatientChartReview({ navigation, route }: Props) {
 
     try {
       // 1) Check if patient already exists (by first name, last name, and DOB)
-      const { data: existingPatients, error: searchError } = await supabaseClient
-        .from('patients')
-        .select(`
-          id, 
-          first_name, 
-          last_name, 
-          date_of_birth,
-          charts (
-            id,
-            status,
-            created_at,
-            medication_count
-          )
-        `)
-        .eq('tenant_id', user.tenant_id)
-        .eq('first_name', patient.first_name)
-        .eq('last_name', patient.last_name)
-        .eq('date_of_birth', patient.dob);
-
-      if (searchError) {
+      let existingPatients;
+      try {
+        existingPatients = await lookupPatients(user.tenant_id, patient.first_name, patient.last_name, patient.dob, {
+          includeCharts: true,
+        });
+      } catch (searchError) {
         console.error('Error searching for existing patient:', searchError);
         alert('Failed to check for existing patient. Please try again.');
         return;
@@ -143,6 +159,7 @@ export default function NewPatientChartReview({ navigation, route }: Props) {
           
           // Navigate to existing chart instead of creating new one
           alert(`This patient already has an existing chart. You will be redirected to add medications to that chart.`);
+          await saveAllergies(patientId);
           
           navigation.navigate('ChartDetail', {
             chartId: chartId,
@@ -154,10 +171,9 @@ export default function NewPatientChartReview({ navigation, route }: Props) {
         console.log(`Using existing patient (no chart yet): ${patient.first_name} ${patient.last_name} (ID: ${patientId})`);
       } else {
         // Create new patient
-        const { data: patientRow, error: patientError } = await supabaseClient
-          .from('patients')
-          .insert({
-            tenant_id: user.tenant_id,
+        let patientRow;
+        try {
+          patientRow = await createPatientRecord({
             first_name: patient.first_name,
             last_name: patient.last_name,
             date_of_birth: patient.dob,
@@ -167,13 +183,9 @@ export default function NewPatientChartReview({ navigation, route }: Props) {
             state: patient.state || null,
             zip_code: patient.zip_code || null,
             phone: patient.phone || null,
-            created_by: user.id,
             assigned_clinician_id: user.id,
-          })
-          .select('id')
-          .single();
-
-        if (patientError || !patientRow) {
+          });
+        } catch (patientError) {
           console.error('Error inserting patient:', patientError);
           alert('Failed to save patient. Please try again.');
           return;
@@ -208,6 +220,8 @@ export default function NewPatientChartReview({ navigation, route }: Props) {
 
       chartId = chartRow.id as string;
       console.log(`Created new chart (ID: ${chartId}) for patient ${patientId}`);
+
+      await saveAllergies(patientId);
       
       //insert medications
       if (medications.length > 0) {
@@ -223,8 +237,10 @@ export default function NewPatientChartReview({ navigation, route }: Props) {
         notes: null,
         scanned_on: new Date().toISOString(),
         ocr_confidence: null,
+        ocr_fields: med.ocrFields || null,
         verified: false,              // they still need to verify in ChartDetail
         changed_after_verify: false,
+        source: med.source || 'manual',
       }));
 
       const { error: medsError } = await supabaseClient
@@ -382,6 +398,32 @@ export default function NewPatientChartReview({ navigation, route }: Props) {
                   <p className="text-slate-700 bg-slate-50 rounded-lg p-4">{patient.notes}</p>
                 </div>
               )}
+
+              {/* Allergies */}
+              <div className="pt-4 border-t border-slate-200">
+                <p className="text-xs text-slate-500 uppercase tracking-wide mb-2 flex items-center gap-1.5">
+                  <ShieldAlert className="w-3.5 h-3.5" />
+                  Allergies
+                </p>
+                {allergies.length === 0 ? (
+                  <p className="text-slate-500 text-sm">No allergies entered</p>
+                ) : (
+                  <div className="space-y-2">
+                    {allergies.map((allergy, index) => (
+                      <div key={`${allergy.allergen}-${index}`} className="bg-slate-50 rounded-lg px-4 py-2">
+                        <p className="text-slate-900">
+                          {allergy.allergen}
+                          <span className="text-xs text-slate-500 ml-2">{ALLERGY_SEVERITY_LABELS[allergy.severity]}</span>
+                        </p>
+                        <p className="text-xs text-slate-500">
+                          {allergy.reaction ? `${allergy.reaction} · ` : ''}
+                          {ALLERGY_SOURCE_LABELS[allergy.source]}
+                        </p>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
             </div>
           </div>
 
@@ -772,6 +772,7 @@ export default function PatientChartList({ navigation }: Props) {
                 patientId: p.id,
                 chartId: p.charts[0]?.id,
                 prefillMedications: scannedForSelection,
+                scanType: scanTypeForSelection,
               });
             }
           }}
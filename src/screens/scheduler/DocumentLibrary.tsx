@@ -13,6 +13,7 @@ import {
   X,
   Upload,
   Plus,
+  RefreshCw,
 } from 'lucide-react';
 import { Badge } from '../../components/ui/badge';
 import { Input } from '../../components/ui/input';
@@ -41,6 +42,7 @@ import {
   deleteDocument,
   getDocumentStats,
   getSignedDocumentUrl,
+  requestDocumentOcr,
   DocumentWithChart,
 } from '../../services/documentService';
 import { searchPatients } from '../../services/schedulerService';
@@ -69,6 +71,17 @@ export default function DocumentLibrary({ onClose }: Props) {
     loadStats();
   }, [user?.tenant_id]);
 
+  // OCR runs on the server; poll while any document is still queued
+  const hasOcrInFlight = documents.some(doc => ['pending', 'processing'].includes(doc.ocr_status || ''));
+  useEffect(() => {
+    if (!hasOcrInFlight) return;
+    const interval = setInterval(() => {
+      refreshDocuments();
+      loadStats();
+    }, 10000);
+    return () => clearInterval(interval);
+  }, [hasOcrInFlight, user?.tenant_id]);
+
   const loadDocuments = async () => {
     if (!user?.tenant_id) return;
     
@@ -84,6 +97,17 @@ export default function DocumentLibrary({ onClose }: Props) {
     }
   };
 
+  // Background refresh without the loading state
+  const refreshDocuments = async () => {
+    if (!user?.tenant_id) return;
+
+    try {
+      setDocuments(await fetchAllDocuments(user.tenant_id));
+    } catch (error) {
+      console.error('Error refreshing documents:', error);
+    }
+  };
+
   const loadStats = async () => {
     if (!user?.tenant_id) return;
     
@@ -101,11 +125,12 @@ export default function DocumentLibrary({ onClose }: Props) {
     setLoadingSignedUrl(true);
     
     try {
-      const url = await getSignedDocumentUrl(doc.file_url);
+      const url = await getSignedDocumentUrl(doc.id);
       setSignedUrl(url);
     } catch (error) {
       console.error('Error getting signed URL:', error);
-      setSignedUrl(doc.file_url); // Fallback to original URL
+      toast.error(error instanceof Error ? error.message : 'Could not open document');
+      setSignedUrl('');
     } finally {
       setLoadingSignedUrl(false);
     }
@@ -127,11 +152,23 @@ export default function DocumentLibrary({ onClose }: Props) {
     }
   };
 
+  const handleRetryOcr = async (doc: DocumentWithChart) => {
+    try {
+      await requestDocumentOcr(doc.id);
+      toast.success('OCR queued');
+      refreshDocuments();
+      loadStats();
+    } catch (error: any) {
+      console.error('Error queueing OCR:', error);
+      toast.error(error.message || 'Failed to queue OCR');
+    }
+  };
+
   const handleDelete = async () => {
     if (!selectedDocument) return;
 
     try {
-      await deleteDocument(selectedDocument.id, selectedDocument.file_url);
+      await deleteDocument(selectedDocument.id);
       toast.success('Document deleted successfully');
       setIsDeleteModalOpen(false);
       setSelectedDocument(null);
@@ -332,6 +369,18 @@ export default function DocumentLibrary({ onClose }: Props) {
                     View
                   </Button>
                   
+                  {doc.ocr_status === 'failed' && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => handleRetryOcr(doc)}
+                      className="border-[#E0F2FE] text-[#0966CC] hover:bg-[#F0F9FF]"
+                    >
+                      <RefreshCw className="w-4 h-4 mr-2" />
+                      Retry OCR
+                    </Button>
+                  )}
+
                   {!doc.chart_id && (
                     <Button
                       variant="outline"
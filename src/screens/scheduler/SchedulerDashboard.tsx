@@ -78,12 +78,15 @@ import {
   fetchUnassignedCharts,
   fetchClinicians,
   createPatientWithChart,
+  CreatePatientWithChartOptions,
   assignChart,
   reassignChart,
   getDashboardStats,
   ChartWithPatient,
   Clinician as ClinicianType,
+  Patient as SchedulerPatient,
 } from '../../services/schedulerService';
+import type { DuplicateCandidate } from '../../services/patientService';
 import { getDocumentStats } from '../../services/documentService';
 import { transformChartsForUI, UIChart } from '../../utils/chartTransformers';
 
@@ -125,6 +128,8 @@ export default function SchedulerDashboard({ navigation }: Props) {
   const [selectedChart, setSelectedChart] = useState<UIChart | null>(null);
   const [selectedClinician, setSelectedClinician] = useState('');
   const [creating, setCreating] = useState(false);
+  // Similar existing patients found while creating a chart
+  const [possibleDuplicates, setPossibleDuplicates] = useState<DuplicateCandidate<SchedulerPatient>[]>([]);
   const [uploadMethod, setUploadMethod] = useState<'camera' | 'file' | null>(null);
   const [pendingFiles, setPendingFiles] = useState<File[]>([]);
   const [uploading, setUploading] = useState(false);
@@ -187,7 +192,7 @@ export default function SchedulerDashboard({ navigation }: Props) {
     setIsDrawerOpen(false);
   };
 
-  const handleCreateChart = async () => {
+  const handleCreateChart = async (options: CreatePatientWithChartOptions = {}) => {
     if (!newChart.first_name || !newChart.last_name || !newChart.date_of_birth) {
       toast.error('Please fill in required fields (First Name, Last Name, Date of Birth)');
       return;
@@ -200,7 +205,13 @@ export default function SchedulerDashboard({ navigation }: Props) {
 
     try {
       setCreating(true);
-      const result = await createPatientWithChart(newChart, user.tenant_id, user.id);
+      const result = await createPatientWithChart(newChart, user.tenant_id, user.id, options);
+
+      if ('possibleDuplicates' in result) {
+        setPossibleDuplicates(result.possibleDuplicates ?? []);
+        return;
+      }
+      setPossibleDuplicates([]);
       
       if (result.existingChartFound) {
         toast.error(`Patient ${result.patient.first_name} ${result.patient.last_name} already has a chart. Each patient can only have one chart.`);
@@ -1719,7 +1730,8 @@ export default function SchedulerDashboard({ navigation }: Props) {
               Cancel
             </Button>
             <Button
-              onClick={handleCreateChart}
+              onClick={() => handleCreateChart()}
+              disabled={creating}
               className="bg-[#F59E0B] hover:bg-[#D97706] text-white"
             >
               <Plus className="w-4 h-4 mr-2" />
@@ -1729,6 +1741,83 @@ export default function SchedulerDashboard({ navigation }: Props) {
         </DialogContent>
       </Dialog>
 
+      {/* Possible Duplicate Patient Modal */}
+      <Dialog
+        open={possibleDuplicates.length > 0}
+        onOpenChange={(open) => {
+          if (!open) setPossibleDuplicates([]);
+        }}
+      >
+        <DialogContent className="sm:max-w-[560px]">
+          <DialogHeader>
+            <DialogTitle className="flex items-center gap-2">
+              <AlertCircle className="w-5 h-5 text-[#F59E0B]" />
+              Possible Duplicate Patient
+            </DialogTitle>
+            <DialogDescription>
+              {newChart.first_name} {newChart.last_name} may already be a patient. Use an existing patient
+              if it is the same person, so their charts stay in one record.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-3 py-2 max-h-[50vh] overflow-y-auto">
+            {possibleDuplicates.map(({ patient, score, level, reasons }) => (
+              <div key={patient.id} className="border-2 border-[#e2e8f0] rounded-xl p-4">
+                <div className="flex items-start justify-between gap-3">
+                  <div className="min-w-0">
+                    <p className="text-[#0f172a] font-medium">
+                      {patient.first_name} {patient.last_name}
+                    </p>
+                    <p className="text-sm text-[#64748b]">
+                      DOB:{' '}
+                      {patient.date_of_birth
+                        ? new Date(`${patient.date_of_birth}T00:00:00`).toLocaleDateString('en-US', {
+                            month: 'short',
+                            day: 'numeric',
+                            year: 'numeric',
+                          })
+                        : 'Not recorded'}
+                      {patient.phone ? ` · ${patient.phone}` : ''}
+                    </p>
+                    {patient.address_line1 && <p className="text-sm text-[#64748b]">{patient.address_line1}</p>}
+                  </div>
+                  <Badge
+                    className={
+                      level === 'likely'
+                        ? 'bg-red-100 text-red-700 border-red-200'
+                        : 'bg-amber-100 text-amber-700 border-amber-200'
+                    }
+                  >
+                    {level === 'likely' ? 'Likely match' : 'Possible match'} · {score}
+                  </Badge>
+                </div>
+                <p className="text-xs text-[#64748b] mt-2">{reasons.join(' · ')}</p>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className="mt-3"
+                  disabled={creating}
+                  onClick={() => handleCreateChart({ existingPatient: patient })}
+                >
+                  Use this patient
+                </Button>
+              </div>
+            ))}
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setPossibleDuplicates([])}>
+              Back
+            </Button>
+            <Button
+              onClick={() => handleCreateChart({ allowPossibleDuplicates: true })}
+              disabled={creating}
+              className="bg-[#F59E0B] hover:bg-[#D97706] text-white"
+            >
+              Create new patient anyway
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
       {/* Assign Chart Modal */}
       <Dialog open={isAssignModalOpen} onOpenChange={setIsAssignModalOpen}>
         <DialogContent className="sm:max-w-[500px]">
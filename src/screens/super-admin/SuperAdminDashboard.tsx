@@ -1,6 +1,6 @@
 import React, { useState, useEffect, useCallback } from 'react';
 import { 
-  Building2, Plus, LogOut, Menu, User, Settings, AlertTriangle, Users, FileText, Activity, 
+  Building2, Plus, LogOut, Menu, User, Settings, AlertTriangle, Users, FileText, 
   Shield, Zap, MoreVertical, Search, Filter, CheckCircle2, Clock, Download, 
   Eye, Mail, X, ChevronRight, BarChart3, Database, Upload, CheckCircle, XCircle,
   Ban, PlayCircle, History, Key, RefreshCw, TrendingUp, AlertCircle
@@ -43,6 +43,7 @@ import { toast } from 'sonner';
 import { Toaster } from '../../components/ui/sonner';
 import { Screen, NavigationParams } from '../../App';
 import { useAuth } from '../../context/AuthContext';
+import AuditLogViewer from '../../components/AuditLogViewer';
 import {
   fetchAllTenants,
   createTenant,
@@ -53,11 +54,11 @@ import {
   updateFeatureFlags,
   uploadBAADocument,
   fetchBAADocuments,
-  fetchAuditLogs,
+  verifyAuditChain,
   getSuperAdminStats,
   impersonateTenant,
   type BAADocument,
-  type AuditLog,
+  type AuditChainReport,
 } from '../../services/superAdminService';
 
 interface Props {
@@ -101,7 +102,10 @@ export default function SuperAdminDashboard({ navigation }: Props) {
   const [tenants, setTenants] = useState<TenantData[]>([]);
   const [selectedTenant, setSelectedTenant] = useState<TenantData | null>(null);
   const [baaDocuments, setBAADocuments] = useState<BAADocument[]>([]);
-  const [auditLogs, setAuditLogs] = useState<AuditLog[]>([]);
+  const [auditTenantId, setAuditTenantId] = useState('all');
+  const [chainTenantId, setChainTenantId] = useState('');
+  const [chainReport, setChainReport] = useState<AuditChainReport | null>(null);
+  const [verifyingChain, setVerifyingChain] = useState(false);
   const [loading, setLoading] = useState(true);
   const [stats, setStats] = useState({
     totalTenants: 0,
@@ -145,6 +149,8 @@ export default function SuperAdminDashboard({ navigation }: Props) {
   const [baaExpiresAt, setBAAExpiresAt] = useState('');
   const [suspendReason, setSuspendReason] = useState('');
   const [impersonateReason, setImpersonateReason] = useState('');
+  const [impersonateMinutes, setImpersonateMinutes] = useState(30);
+  const [impersonateAllowChanges, setImpersonateAllowChanges] = useState(false);
   const [testMode, setTestMode] = useState(false);
   const [deleteConfirmText, setDeleteConfirmText] = useState('');
 
@@ -156,15 +162,13 @@ export default function SuperAdminDashboard({ navigation }: Props) {
   const loadData = useCallback(async () => {
     setLoading(true);
     try {
-      const [tenantsData, statsData, auditData] = await Promise.all([
+      const [tenantsData, statsData] = await Promise.all([
         fetchAllTenants(),
         getSuperAdminStats(),
-        fetchAuditLogs({ limit: 100 }).catch(() => []), // Don't fail if audit logs unavailable
       ]);
 
       setTenants(tenantsData as TenantData[]);
       setStats(statsData);
-      setAuditLogs(auditData);
     } catch (error) {
       console.error('Error loading super admin data:', error);
       toast.error('Failed to load some dashboard data. Check console for details.');
@@ -298,6 +302,25 @@ export default function SuperAdminDashboard({ navigation }: Props) {
     }
   };
 
+  const handleVerifyChain = async () => {
+    if (!chainTenantId) return;
+    try {
+      setVerifyingChain(true);
+      const report = await verifyAuditChain(chainTenantId);
+      setChainReport(report);
+      if (report.valid) {
+        toast.success(`Audit log intact (${report.entries} entries)`);
+      } else {
+        toast.error(`Audit log integrity check failed: ${report.breaks.length} problem(s) found`);
+      }
+    } catch (error: any) {
+      console.error('Error verifying audit log:', error);
+      toast.error(error.message || 'Failed to verify audit log');
+    } finally {
+      setVerifyingChain(false);
+    }
+  };
+
   const handleImpersonate = async () => {
     if (!impersonateReason.trim() || !selectedTenant) {
       toast.error('Please provide a reason for impersonation');
@@ -305,14 +328,18 @@ export default function SuperAdminDashboard({ navigation }: Props) {
     }
     
     try {
-      await impersonateTenant(selectedTenant.id, impersonateReason);
+      await impersonateTenant(selectedTenant.id, impersonateReason, {
+        mode: impersonateAllowChanges ? 'read_write' : 'read_only',
+        minutes: impersonateMinutes,
+      });
       toast.success(`Impersonating ${selectedTenant.name} - logged to audit`);
       setIsImpersonateOpen(false);
       setImpersonateReason('');
+      setImpersonateAllowChanges(false);
       setSelectedTenant(null);
-      loadData();
-    } catch (error) {
-      toast.error('Failed to start impersonation');
+      navigation.navigate('AgencyAdminDashboard');
+    } catch (error: any) {
+      toast.error(error.message || 'Failed to start impersonation');
     }
   };
 
@@ -781,42 +808,93 @@ export default function SuperAdminDashboard({ navigation }: Props) {
         {activeTab === 'audit' && (
           <div className="space-y-6 max-w-7xl mx-auto">
             <Card className="p-6">
-              <h3 className="text-lg font-semibold text-slate-900 mb-4 flex items-center gap-2">
-                <History className="w-5 h-5" />
-                Recent Audit Logs
+              <h3 className="text-lg font-semibold text-slate-900 mb-1 flex items-center gap-2">
+                <Shield className="w-5 h-5" />
+                Audit Log Integrity
               </h3>
-              <div className="space-y-3">
-                {auditLogs.length === 0 ? (
-                  <p className="text-center text-slate-500 py-8">No audit logs found</p>
-                ) : (
-                  auditLogs.map((log) => (
-                    <div key={log.id} className="flex items-start gap-3 p-3 bg-slate-50 rounded-lg">
-                      <Activity className="w-4 h-4 text-slate-400 mt-1 shrink-0" />
-                      <div className="flex-1 min-w-0">
-                        <div className="flex items-center gap-2 flex-wrap">
-                          <span className="font-medium text-slate-900">{log.user_name}</span>
-                          <span className="text-slate-600">{log.action}</span>
-                          <Badge variant="outline" className="text-xs">
-                            {log.entity_type}
-                          </Badge>
-                          {log.tenant_name && (
-                            <Badge variant="outline" className="text-xs bg-blue-50">
-                              {log.tenant_name}
-                            </Badge>
-                          )}
-                        </div>
-                        <p className="text-sm text-slate-600 mt-1">
-                          {log.changes && typeof log.changes === 'object' ? JSON.stringify(log.changes) : ''}
-                          {log.metadata && typeof log.metadata === 'object' ? JSON.stringify(log.metadata) : ''}
-                        </p>
-                        <p className="text-xs text-slate-400 mt-1">
-                          {new Date(log.created_at).toLocaleString()}
-                        </p>
-                      </div>
-                    </div>
-                  ))
-                )}
+              <p className="text-sm text-slate-600 mb-4">
+                Each tenant's entries are hash-chained. Verifying detects removed, edited or missing entries.
+              </p>
+              <div className="flex flex-col sm:flex-row gap-3">
+                <Select
+                  value={chainTenantId}
+                  onValueChange={(value) => {
+                    setChainTenantId(value);
+                    setChainReport(null);
+                  }}
+                >
+                  <SelectTrigger className="w-full sm:w-64">
+                    <SelectValue placeholder="Select tenant" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {tenants.map((tenant) => (
+                      <SelectItem key={tenant.id} value={tenant.id}>
+                        {tenant.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Button onClick={handleVerifyChain} disabled={!chainTenantId || verifyingChain}>
+                  <RefreshCw className={`w-4 h-4 mr-2 ${verifyingChain ? 'animate-spin' : ''}`} />
+                  {verifyingChain ? 'Verifying…' : 'Verify'}
+                </Button>
               </div>
+              {chainReport && (
+                <div
+                  className={`mt-4 p-3 rounded-lg text-sm ${
+                    chainReport.valid ? 'bg-green-50 text-green-800' : 'bg-red-50 text-red-800'
+                  }`}
+                >
+                  <div className="flex items-center gap-2 font-medium">
+                    {chainReport.valid ? <CheckCircle2 className="w-4 h-4" /> : <XCircle className="w-4 h-4" />}
+                    {chainReport.valid
+                      ? `Intact: ${chainReport.entries} entries verified`
+                      : `Broken: ${chainReport.breaks.length} problem(s) in ${chainReport.entries} entries`}
+                  </div>
+                  {chainReport.breaks.length > 0 && (
+                    <ul className="mt-2 space-y-1 text-xs">
+                      {chainReport.breaks.map((entry, index) => (
+                        <li key={`${entry.seq}-${entry.problem}-${index}`}>
+                          #{entry.seq} {entry.problem.replace('_', ' ')}
+                          {entry.missing ? ` (${entry.missing} missing)` : ''}
+                          {entry.id ? ` · ${entry.id}` : ''}
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                  <p className="text-xs mt-2 opacity-75">
+                    Checked {new Date(chainReport.verified_at).toLocaleString()}
+                    {chainReport.purged_through_seq > 0 &&
+                      ` · entries up to #${chainReport.purged_through_seq} removed under the retention policy`}
+                  </p>
+                </div>
+              )}
+            </Card>
+            <Card className="p-6">
+              <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 mb-4">
+                <h3 className="text-lg font-semibold text-slate-900 flex items-center gap-2">
+                  <History className="w-5 h-5" />
+                  Audit Logs
+                </h3>
+                <Select value={auditTenantId} onValueChange={setAuditTenantId}>
+                  <SelectTrigger className="w-full sm:w-64">
+                    <SelectValue placeholder="Tenant" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All tenants</SelectItem>
+                    {tenants.map((tenant) => (
+                      <SelectItem key={tenant.id} value={tenant.id}>
+                        {tenant.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <AuditLogViewer
+                key={auditTenantId}
+                scope={auditTenantId === 'all' ? undefined : { tenantId: auditTenantId }}
+                showTenant
+              />
             </Card>
           </div>
         )}
@@ -1097,6 +1175,30 @@ export default function SuperAdminDashboard({ navigation }: Props) {
               placeholder="Support ticket #12345, investigating bug, etc."
               rows={3}
             />
+            <div className="mt-4 space-y-2">
+              <Label htmlFor="impersonate-duration">Session Length</Label>
+              <Select value={String(impersonateMinutes)} onValueChange={(value) => setImpersonateMinutes(Number(value))}>
+                <SelectTrigger id="impersonate-duration">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="15">15 minutes</SelectItem>
+                  <SelectItem value="30">30 minutes</SelectItem>
+                  <SelectItem value="60">60 minutes</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="mt-4 flex items-center justify-between">
+              <div>
+                <Label htmlFor="impersonate-write">Allow changes</Label>
+                <p className="text-xs text-[#64748b]">Sessions are read-only unless this is on</p>
+              </div>
+              <Switch
+                id="impersonate-write"
+                checked={impersonateAllowChanges}
+                onCheckedChange={setImpersonateAllowChanges}
+              />
+            </div>
           </div>
           <DialogFooter>
             <Button variant="outline" onClick={() => setIsImpersonateOpen(false)}>
@@ -1222,7 +1324,8 @@ export default function SuperAdminDashboard({ navigation }: Props) {
             <div className="bg-blue-50 border border-blue-200 rounded-lg p-4">
               <p className="text-sm text-blue-900">
                 <strong>Next Steps:</strong> Send this activation link and code to the tenant administrator. 
-                They will use it to create their admin account and access the system.
+                They will use it to create their admin account and access the system. The code is not stored
+                and cannot be shown again once this dialog is closed.
               </p>
             </div>
           </div>
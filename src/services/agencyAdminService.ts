@@ -1,4 +1,7 @@
 import { supabaseClient } from '../lib/supabase';
+import { apiRequest } from '../lib/api';
+import { transitionChart } from './chartLifecycleService';
+import { fetchTenantPatients, withPatientPhi } from './patientService';
 
 // Types
 export interface ChartReviewNote {
@@ -80,6 +83,7 @@ export async function fetchAllChartsForAdmin(tenantId: string) {
     .order('created_at', { ascending: false });
 
   if (error) throw error;
+  await withPatientPhi((data || []).map((chart: any) => chart.patient));
 
   // Get medication and document counts for each chart
   const chartsWithCounts = await Promise.all(
@@ -172,97 +176,23 @@ export async function getChartReviewNotes(chartId: string) {
   return data || [];
 }
 
-// Approve a chart (finalize it)
-export async function approveChart(chartId: string, reviewerId: string) {
-  // First, validate the chart can be approved
-  const { data: chart, error: fetchError } = await supabaseClient
-    .from('charts')
-    .select('*, medications:medications(count)')
-    .eq('id', chartId)
-    .single();
-
-  if (fetchError) throw fetchError;
-  
-  // Validate chart state
-  if (!chart) {
-    throw new Error('Chart not found');
-  }
-  
-  // Check if chart already has finalized_at and finalized_by
-  // If not, this might be a chart that was never properly finalized by clinician
-  if (!chart.finalized_at || !chart.finalized_by) {
-    throw new Error('Chart must be finalized by a clinician before it can be approved');
-  }
-
-  // Update chart status to delivered and lock it
-  // Keep the original finalized_at/finalized_by from clinician, don't override
-  const updatePayload: any = {
-    status: 'delivered_locked',
-    awaiting_clinician_review: false,
-    delivered_by: reviewerId,
-  };
-
-  // Set first_delivered_at if not already set (required by charts_delivered_check constraint)
-  if (!chart.first_delivered_at) {
-    updatePayload.first_delivered_at = new Date().toISOString();
-  }
-
-  const { data, error } = await supabaseClient
-    .from('charts')
-    .update(updatePayload)
-    .eq('id', chartId)
-    .select()
-    .single();
-
-  if (error) throw error;
-
-  // Add approval note
-  await addChartReviewNote(chartId, 'Chart approved and finalized.', reviewerId);
-
-  return data;
+// Approve a chart (deliver and lock it). The API checks that a clinician
+// finalized it first and records the approval note.
+export async function approveChart(chartId: string, notes?: string) {
+  const { chart } = await transitionChart(chartId, 'approve', notes);
+  return chart;
 }
 
-// Reject a chart and send back to clinician (needs reverification)
-export async function rejectChart(chartId: string, notes: string, reviewerId: string) {
-  // Add review note with rejection reason
-  await addChartReviewNote(chartId, notes, reviewerId);
-
-  // Update chart status to needs_reverification and unlock it
-  const { data, error } = await supabaseClient
-    .from('charts')
-    .update({
-      status: 'needs_reverification',
-      awaiting_clinician_review: true,
-      finalized_at: null, // Unlock the chart
-      finalized_by: null,
-    })
-    .eq('id', chartId)
-    .select()
-    .single();
-
-  if (error) throw error;
-  
-  return data;
+// Reject a chart and send back to clinician (needs reverification, unlocked)
+export async function rejectChart(chartId: string, notes: string) {
+  const { chart } = await transitionChart(chartId, 'reject', notes);
+  return chart;
 }
 
-// Request changes to a chart
-export async function requestChartChanges(chartId: string, notes: string, reviewerId: string) {
-  // Add review note
-  await addChartReviewNote(chartId, notes, reviewerId);
-
-  // Update chart status
-  const { data, error } = await supabaseClient
-    .from('charts')
-    .update({
-      status: 'needs_reverification',
-      awaiting_clinician_review: true,
-    })
-    .eq('id', chartId)
-    .select()
-    .single();
-
-  if (error) throw error;
-  return data;
+// Request changes to a chart (keeps the clinician's finalization)
+export async function requestChartChanges(chartId: string, notes: string) {
+  const { chart } = await transitionChart(chartId, 'request_changes', notes);
+  return chart;
 }
 
 // Toggle user active status
@@ -405,6 +335,7 @@ export async function getChartForReview(chartId: string) {
     .single();
 
   if (error) throw error;
+  await withPatientPhi([data.patient]);
 
   // Get medications, documents, and review notes
   const [
@@ -459,103 +390,21 @@ export async function reassignChartToClinician(chartId: string, newClinicianId:
   return data;
 }
 
-// Bulk approve charts
-export async function bulkApproveCharts(chartIds: string[], reviewerId: string) {
-  const { data, error } = await supabaseClient
-    .from('charts')
-    .update({
-      status: 'delivered_locked',
-      finalized_at: new Date().toISOString(),
-      finalized_by: reviewerId,
-    })
-    .in('id', chartIds)
-    .select();
-
-  if (error) throw error;
-  return data;
+// Bulk approve charts (each one must pass the same checks as approveChart)
+export async function bulkApproveCharts(chartIds: string[]) {
+  return Promise.all(chartIds.map((chartId) => approveChart(chartId)));
 }
 
 // Archive chart
-export async function archiveChart(chartId: string, adminId: string) {
-  const { data, error } = await supabaseClient
-    .from('charts')
-    .update({
-      status: 'archived',
-      updated_at: new Date().toISOString(),
-    })
-    .eq('id', chartId)
-    .select()
-    .single();
-
-  if (error) throw error;
-  return data;
+export async function archiveChart(chartId: string) {
+  const { chart } = await transitionChart(chartId, 'archive');
+  return chart;
 }
 
 // Fetch all patients for agency admin
 export async function fetchAllPatients(tenantId: string) {
   try {
-    // Fetch patients with explicit foreign key relationship
-    const { data, error } = await supabaseClient
-      .from('patients')
-      .select(`
-        *,
-        assigned_clinician:users!patients_assigned_clinician_id_fkey (
-          id,
-          first_name,
-          last_name,
-          role
-        )
-      `)
-      .eq('tenant_id', tenantId)
-      .order('created_at', { ascending: false });
-
-    if (error) {
-      console.error('Supabase error fetching patients:', error);
-      throw error;
-    }
-    
-    // Fetch related charts and documents separately
-    const patientsWithRelations = await Promise.all(
-      (data || []).map(async (patient) => {
-        try {
-          // Get charts for this patient
-          const chartsResult = await supabaseClient
-            .from('charts')
-            .select('id, status')
-            .eq('patient_id', patient.id);
-          
-          const charts = chartsResult.data || [];
-          const chartIds = charts.map(c => c.id);
-          
-          // Get documents for all charts of this patient
-          let documents: any[] = [];
-          if (chartIds.length > 0) {
-            const docsResult = await supabaseClient
-              .from('documents')
-              .select('id, file_name, file_type, file_url, created_at')
-              .in('chart_id', chartIds);
-            
-            documents = docsResult.data || [];
-          }
-          
-          return {
-            ...patient,
-            charts,
-            documents,
-          };
-        } catch (err) {
-          console.warn(`Error fetching relations for patient ${patient.id}:`, err);
-          return {
-            ...patient,
-            charts: [],
-            documents: [],
-          };
-        }
-      })
-    );
-    
-    console.log('Fetched patients with relations:', patientsWithRelations);
-    return patientsWithRelations;
+    return await fetchTenantPatients(tenantId);
   } catch (error) {
     console.error('Error in fetchAllPatients:', error);
     throw error;
@@ -582,6 +431,7 @@ export async function fetchClinicianDetails(clinicianId: string) {
       .order('created_at', { ascending: false });
 
     if (patientsError) throw patientsError;
+    await withPatientPhi(patients || []);
 
     // Fetch charts for each patient to get counts and last chart date
     const patientsWithCharts = await Promise.all(
@@ -671,54 +521,45 @@ export async function fetchClinicianDetails(clinicianId: string) {
   }
 }
 
-// Generate unique activation code
-function generateActivationCode(): string {
-  const timestamp = Date.now().toString(36).toUpperCase();
-  const random1 = Math.random().toString(36).substring(2, 6).toUpperCase();
-  const random2 = Math.random().toString(36).substring(2, 6).toUpperCase();
-  return `ACTV-${timestamp}-${random1}${random2}`;
+// Link that pre-fills the activation screen with a code
+export function activationLinkFor(activationCode: string) {
+  return `${window.location.origin}/activate?code=${encodeURIComponent(activationCode)}`;
 }
 
-// Create user invitation
+export interface InvitationDelivery {
+  delivered: boolean;
+  transport?: string;
+  error?: string;
+}
+
+interface IssuedInvitationResponse {
+  invitation: any;
+  activation_code: string;
+  email: InvitationDelivery;
+}
+
+const withActivationDetails = ({ invitation, activation_code, email }: IssuedInvitationResponse) => ({
+  ...invitation,
+  activation_code,
+  activation_link: activationLinkFor(activation_code),
+  email_delivery: email,
+});
+
+// Create user invitation. The server checks the email is not already in use,
+// generates the code (storing only its hash) and emails the invitee; this
+// response is the one place the code can be shown.
 export async function createUserInvitation(invitationData: {
   email: string;
   first_name: string;
   last_name: string;
   role: 'clinician' | 'scheduler';
   tenant_id: string;
-  created_by: string;
   phone_number?: string;
   occupation?: string;
 }) {
   try {
-    const activationCode = generateActivationCode();
-    const activationLink = `${window.location.origin}/activate?code=${activationCode}`;
-    
-    const { data, error } = await supabaseClient
-      .from('user_invitations')
-      .insert({
-        email: invitationData.email,
-        first_name: invitationData.first_name,
-        last_name: invitationData.last_name,
-        role: invitationData.role,
-        tenant_id: invitationData.tenant_id,
-        created_by: invitationData.created_by,
-        phone_number: invitationData.phone_number,
-        occupation: invitationData.occupation,
-        activation_code: activationCode,
-        activation_link: activationLink,
-        status: 'pending',
-      })
-      .select()
-      .single();
-
-    if (error) throw error;
-
-    return {
-      ...data,
-      activation_code: activationCode,
-      activation_link: activationLink,
-    };
+    const result = await apiRequest<IssuedInvitationResponse>('/api/invitations', { body: invitationData });
+    return withActivationDetails(result);
   } catch (error) {
     console.error('Error creating user invitation:', error);
     throw error;
@@ -728,61 +569,16 @@ export async function createUserInvitation(invitationData: {
 // Get all invitations for a tenant
 export async function fetchUserInvitations(tenantId: string) {
   try {
-    const { data, error } = await supabaseClient
-      .from('user_invitations')
-      .select(`
-        *,
-        created_by_user:users!user_invitations_created_by_fkey (
-          first_name,
-          last_name,
-          email
-        )
-      `)
-      .eq('tenant_id', tenantId)
-      .order('created_at', { ascending: false });
-
-    if (error) throw error;
-    return data || [];
+    const { invitations } = await apiRequest<{ invitations: any[] }>(
+      `/api/invitations?tenant_id=${encodeURIComponent(tenantId)}`
+    );
+    return invitations;
   } catch (error) {
     console.error('Error fetching invitations:', error);
     throw error;
   }
 }
 
-// Verify activation code
-export async function verifyActivationCode(activationCode: string) {
-  try {
-    const { data, error } = await supabaseClient
-      .from('user_invitations')
-      .select('*')
-      .eq('activation_code', activationCode)
-      .eq('status', 'pending')
-      .single();
-
-    if (error) {
-      if (error.code === 'PGRST116') {
-        throw new Error('Invalid or expired activation code');
-      }
-      throw error;
-    }
-
-    // Check if expired
-    if (new Date(data.expires_at) < new Date()) {
-      await supabaseClient
-        .from('user_invitations')
-        .update({ status: 'expired' })
-        .eq('id', data.id);
-      
-      throw new Error('Activation code has expired');
-    }
-
-    return data;
-  } catch (error) {
-    console.error('Error verifying activation code:', error);
-    throw error;
-  }
-}
-
 // Complete user activation (called during signup)
 export async function activateUserAccount(
   activationCode: string,
@@ -841,41 +637,23 @@ export async function activateUserAccount(
 // Revoke/cancel invitation
 export async function revokeInvitation(invitationId: string) {
   try {
-    const { data, error } = await supabaseClient
-      .from('user_invitations')
-      .update({ status: 'revoked' })
-      .eq('id', invitationId)
-      .select()
-      .single();
-
-    if (error) throw error;
-    return data;
+    const { invitation } = await apiRequest<{ invitation: any }>(`/api/invitations/${invitationId}/revoke`, {
+      method: 'POST',
+    });
+    return invitation;
   } catch (error) {
     console.error('Error revoking invitation:', error);
     throw error;
   }
 }
 
-// Resend invitation (regenerate code)
+// Resend invitation with a fresh code (the previous one stops working)
 export async function resendInvitation(invitationId: string) {
   try {
-    const activationCode = generateActivationCode();
-    const activationLink = `${window.location.origin}/activate?code=${activationCode}`;
-    
-    const { data, error } = await supabaseClient
-      .from('user_invitations')
-      .update({
-        activation_code: activationCode,
-        activation_link: activationLink,
-        status: 'pending',
-        expires_at: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000).toISOString(), // 7 days
-      })
-      .eq('id', invitationId)
-      .select()
-      .single();
-
-    if (error) throw error;
-    return data;
+    const result = await apiRequest<IssuedInvitationResponse>(`/api/invitations/${invitationId}/resend`, {
+      method: 'POST',
+    });
+    return withActivationDetails(result);
   } catch (error) {
     console.error('Error resending invitation:', error);
     throw error;
@@ -0,0 +1,127 @@
+import { apiRequest } from '../lib/api';
+
+// Patient allergies are stored and checked by the API: each chart's
+// medications are compared with the patient's allergies using a bundled
+// drug-class ruleset (server/src/lib/allergyConflicts.ts). Blocking conflicts
+// hold up finalizing and approval until a clinician overrides them.
+export type AllergySeverity = 'mild' | 'moderate' | 'severe' | 'unknown';
+
+export type AllergySource = 'patient_reported' | 'caregiver_reported' | 'medical_record' | 'clinician_observed';
+
+export const ALLERGY_SEVERITY_LABELS: Record<AllergySeverity, string> = {
+  mild: 'Mild',
+  moderate: 'Moderate',
+  severe: 'Severe',
+  unknown: 'Unknown',
+};
+
+export const ALLERGY_SOURCE_LABELS: Record<AllergySource, string> = {
+  patient_reported: 'Patient reported',
+  caregiver_reported: 'Caregiver reported',
+  medical_record: 'Medical record',
+  clinician_observed: 'Clinician observed',
+};
+
+export interface AllergyInput {
+  allergen: string;
+  reaction?: string | null;
+  severity?: AllergySeverity;
+  source?: AllergySource;
+}
+
+export interface PatientAllergy {
+  id: string;
+  patient_id: string;
+  allergen: string;
+  reaction: string | null;
+  severity: AllergySeverity;
+  source: AllergySource;
+  created_at: string;
+  updated_at: string;
+  created_by_user: { first_name: string; last_name: string } | null;
+}
+
+export type AllergyConflictLevel = 'blocking' | 'warning';
+
+export interface AllergyConflict {
+  key: string;
+  level: AllergyConflictLevel;
+  reason: 'same_drug' | 'same_class' | 'cross_reactive';
+  allergy_id: string;
+  allergen: string;
+  drug_name: string;
+  drug_class: string | null;
+  message: string;
+  medication_ids: string[];
+  fingerprint: string;
+  override: {
+    note: string;
+    overridden_by: string | null;
+    overridden_at: string;
+  } | null;
+}
+
+export interface AllergyConflictReport {
+  rules_version: string;
+  conflicts: AllergyConflict[];
+  // Blocking conflicts nobody has overridden
+  blocking: number;
+  warnings: number;
+}
+
+// A conflict for a medication that has not been saved yet
+export type MedicationAllergyConflict = Omit<AllergyConflict, 'key' | 'fingerprint' | 'medication_ids' | 'override'>;
+
+const allergiesPath = (patientId: string) => `/api/patients/${encodeURIComponent(patientId)}/allergies`;
+
+export async function fetchPatientAllergies(patientId: string) {
+  const { allergies } = await apiRequest<{ allergies: PatientAllergy[] }>(allergiesPath(patientId));
+  return allergies;
+}
+
+export async function addPatientAllergy(patientId: string, input: AllergyInput) {
+  const { allergy } = await apiRequest<{ allergy: PatientAllergy }>(allergiesPath(patientId), {
+    method: 'POST',
+    body: input,
+  });
+  return allergy;
+}
+
+export async function updatePatientAllergy(patientId: string, allergyId: string, changes: Partial<AllergyInput>) {
+  const { allergy } = await apiRequest<{ allergy: PatientAllergy }>(
+    `${allergiesPath(patientId)}/${encodeURIComponent(allergyId)}`,
+    { method: 'PATCH', body: changes }
+  );
+  return allergy;
+}
+
+export async function removePatientAllergy(patientId: string, allergyId: string) {
+  await apiRequest(`${allergiesPath(patientId)}/${encodeURIComponent(allergyId)}`, { method: 'DELETE' });
+}
+
+// Check a drug against the patient's allergies before it is saved
+export async function checkMedicationAllergies(patientId: string, drugName: string) {
+  const { conflicts } = await apiRequest<{ conflicts: MedicationAllergyConflict[] }>(
+    `${allergiesPath(patientId)}/check`,
+    { method: 'POST', body: { drug_name: drugName } }
+  );
+  return conflicts;
+}
+
+export async function fetchAllergyConflicts(chartId: string) {
+  const { report } = await apiRequest<{ report: AllergyConflictReport }>(
+    `/api/charts/${encodeURIComponent(chartId)}/allergy-conflicts`
+  );
+  return report;
+}
+
+export async function overrideAllergyConflict(chartId: string, conflict: AllergyConflict, note: string) {
+  const { report } = await apiRequest<{ report: AllergyConflictReport }>(
+    `/api/charts/${encodeURIComponent(chartId)}/allergy-conflicts/override`,
+    {
+      method: 'POST',
+      body: { key: conflict.key, fingerprint: conflict.fingerprint, note },
+    }
+  );
+  return report;
+}
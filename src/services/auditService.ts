@@ -0,0 +1,83 @@
+import { apiRequest } from '../lib/api';
+
+export interface AuditLogEntry {
+  id: string;
+  seq: number;
+  tenant_id: string;
+  // null for entries written by scheduled jobs
+  user_id: string | null;
+  entity_type: string;
+  entity_id: string;
+  action: string;
+  changes: Record<string, any> | null;
+  metadata: Record<string, any> | null;
+  ip_address: string | null;
+  user_agent: string | null;
+  created_at: string;
+  hash: string;
+  user: { first_name: string; last_name: string; email: string; role: string } | null;
+  tenant: { name: string } | null;
+}
+
+export interface AuditLogFilters {
+  // Super admins only; agency admins always search their own tenant
+  tenantId?: string;
+  userId?: string;
+  entityType?: string;
+  entityId?: string;
+  // The chart plus entries about its medications and documents
+  chartId?: string;
+  actions?: string[];
+  from?: string;
+  to?: string;
+  q?: string;
+}
+
+export interface AuditLogPage {
+  logs: AuditLogEntry[];
+  page: number;
+  page_size: number;
+  total: number;
+  total_pages: number;
+}
+
+function filterParams(filters: AuditLogFilters) {
+  const params = new URLSearchParams();
+  if (filters.tenantId) params.set('tenant_id', filters.tenantId);
+  if (filters.userId) params.set('user_id', filters.userId);
+  if (filters.entityType) params.set('entity_type', filters.entityType);
+  if (filters.entityId) params.set('entity_id', filters.entityId);
+  if (filters.chartId) params.set('chart_id', filters.chartId);
+  if (filters.actions?.length) params.set('action', filters.actions.join(','));
+  if (filters.from) params.set('from', filters.from);
+  if (filters.to) params.set('to', filters.to);
+  if (filters.q) params.set('q', filters.q);
+  return params;
+}
+
+export function searchAuditLogs(filters: AuditLogFilters = {}, page = 1, pageSize = 50) {
+  const params = filterParams(filters);
+  params.set('page', String(page));
+  params.set('page_size', String(pageSize));
+  return apiRequest<AuditLogPage>(`/api/audit/logs?${params}`, { asSelf: true });
+}
+
+// Download every matching entry (up to 50,000) as a CSV or JSON file
+export async function exportAuditLogs(filters: AuditLogFilters, format: 'csv' | 'json' = 'csv') {
+  const params = filterParams(filters);
+  params.set('format', format);
+  const blob = await apiRequest<Blob>(`/api/audit/logs/export?${params}`, { asSelf: true, responseType: 'blob' });
+
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = `audit-log-${new Date().toISOString().split('T')[0]}.${format}`;
+  a.click();
+  URL.revokeObjectURL(url);
+}
+
+export function describeAuditActor(entry: AuditLogEntry) {
+  if (!entry.user_id) return 'System';
+  if (!entry.user) return 'Unknown user';
+  return `${entry.user.first_name || ''} ${entry.user.last_name || ''}`.trim() || entry.user.email;
+}
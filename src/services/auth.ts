@@ -1,4 +1,7 @@
 import { supabaseClient } from '../lib/supabase';
+import { ApiError } from '../lib/api';
+import { getMfaStatus } from './mfaService';
+import { bindSsoSession } from './ssoService';
 
 interface LoginCredentials {
   email: string;
@@ -16,6 +19,27 @@ interface User {
   mfa_enabled: boolean;
 }
 
+// Second factor still owed by a password-authenticated session
+export type MfaPending = 'challenge' | 'enroll';
+
+// The session is not usable until the second factor passes
+async function pendingMfa(): Promise<MfaPending | null> {
+  try {
+    const mfa = await getMfaStatus();
+    if (mfa.required && !mfa.session_verified) {
+      return mfa.enrolled ? 'challenge' : 'enroll';
+    }
+    return null;
+  } catch (err) {
+    await supabaseClient.auth.signOut();
+    if (err instanceof ApiError && err.code === 'sso_required') {
+      throw new Error('Your organization requires single sign-on. Use "Sign in with SSO" instead.');
+    }
+    console.error('MFA status check failed:', err);
+    throw new Error('Could not check two-factor authentication. Please try again.');
+  }
+}
+
 export const authService = {
   async login({ email, password }: LoginCredentials) {
     try {
@@ -65,17 +89,49 @@ export const authService = {
       }
       if (!user.active) throw new Error('Account is not active');
 
+      const mfaPending = await pendingMfa();
+
       return {
         user: {
           ...user,
           token: authData.session.access_token
-        }
+        },
+        mfaPending
       };
     } catch (error) {
       throw error;
     }
   },
 
+  // Finish an SSO login: open the session from the one-time token the API
+  // put in the redirect, then mark it as an SSO session
+  async loginWithSso(tokenHash: string, handoff: string) {
+    const { data, error } = await supabaseClient.auth.verifyOtp({ token_hash: tokenHash, type: 'magiclink' });
+    if (error || !data.session || !data.user) {
+      throw new Error('This sign-in link has expired. Please start again.');
+    }
+
+    try {
+      await bindSsoSession(handoff);
+    } catch (err) {
+      await supabaseClient.auth.signOut();
+      throw err;
+    }
+
+    const { data: user, error: userError } = await supabaseClient
+      .from('users')
+      .select('*')
+      .eq('id', data.user.id)
+      .maybeSingle();
+    if (userError || !user) {
+      await supabaseClient.auth.signOut();
+      throw new Error('Could not fetch user profile');
+    }
+
+    const mfaPending = await pendingMfa();
+    return { user: { ...(user as User), token: data.session.access_token }, mfaPending };
+  },
+
   async logout() {
     const { error } = await supabaseClient.auth.signOut();
     if (error) throw error;
@@ -0,0 +1,34 @@
+import { apiRequest } from '../lib/api';
+import type { Chart } from './schedulerService';
+
+// Chart status changes are owned by the API, which enforces the lifecycle
+// (server/src/lib/chartStateMachine.ts) and audits every transition.
+export type ChartAction =
+  | 'verify'
+  | 'finalize'
+  | 'approve'
+  | 'reject'
+  | 'request_changes'
+  | 'unlock'
+  | 'archive'
+  | 'unarchive'
+  | 'unassign';
+
+export interface ChartTransitionResult {
+  chart: Chart & Record<string, any>;
+  actions: ChartAction[];
+}
+
+export async function transitionChart(chartId: string, action: ChartAction, notes?: string) {
+  return apiRequest<ChartTransitionResult>(
+    `/api/charts/${encodeURIComponent(chartId)}/${action.replace('_', '-')}`,
+    { method: 'POST', body: { notes } }
+  );
+}
+
+// Current status and the actions the signed-in user may take on a chart
+export async function fetchChartActions(chartId: string) {
+  return apiRequest<{ status: Chart['status']; actions: ChartAction[] }>(
+    `/api/charts/${encodeURIComponent(chartId)}/transitions`
+  );
+}
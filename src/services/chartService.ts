@@ -0,0 +1,54 @@
+import { apiRequest } from '../lib/api';
+
+// Chart reads go through the API so each one lands in the PHI access log
+// (server/src/lib/phiAccess.ts).
+export interface ChartRecord {
+  id: string;
+  tenant_id: string;
+  patient_id: string;
+  status: string;
+  source: string;
+  created_at: string;
+  created_by: string;
+  finalized_at: string | null;
+  finalized_by: string | null;
+  patient: { id: string; first_name: string; last_name: string; date_of_birth: string | null } | null;
+  created_by_user: { first_name: string; last_name: string } | null;
+  finalized_by_user: { first_name: string; last_name: string } | null;
+  [column: string]: any;
+}
+
+export async function fetchChart(chartId: string) {
+  const { chart } = await apiRequest<{ chart: ChartRecord }>(`/api/charts/${encodeURIComponent(chartId)}`);
+  return chart;
+}
+
+// Oldest first; scanned images are not included
+export async function fetchChartMedications<T = Record<string, any>>(chartId: string) {
+  const { medications } = await apiRequest<{ medications: T[] }>(
+    `/api/charts/${encodeURIComponent(chartId)}/medications`
+  );
+  return medications;
+}
+
+// Scanned label images are stored encrypted and go through these two
+export async function fetchMedicationImage(chartId: string, medicationId: string) {
+  const { image } = await apiRequest<{ image: string | null }>(
+    `/api/charts/${encodeURIComponent(chartId)}/medications/${encodeURIComponent(medicationId)}/image`
+  );
+  return image;
+}
+
+// image: a data:image/ URL, or null to clear it
+export async function saveMedicationImage(chartId: string, medicationId: string, image: string | null) {
+  await apiRequest<{ ok: true }>(
+    `/api/charts/${encodeURIComponent(chartId)}/medications/${encodeURIComponent(medicationId)}/image`,
+    { method: 'PUT', body: { image } }
+  );
+}
+
+// Newest first
+export async function fetchChartDocuments<T = Record<string, any>>(chartId: string) {
+  const { documents } = await apiRequest<{ documents: T[] }>(`/api/charts/${encodeURIComponent(chartId)}/documents`);
+  return documents;
+}
@@ -0,0 +1,69 @@
+import { apiRequest } from '../lib/api';
+
+// Types
+export interface ChartVersionSummary {
+  id: string;
+  chart_id: string;
+  version_number: number;
+  reason: 'finalized' | 'delivered';
+  chart_status: string;
+  created_at: string;
+  created_by: string | null;
+  created_by_user?: {
+    first_name: string;
+    last_name: string;
+  } | null;
+}
+
+export interface ChartVersion extends ChartVersionSummary {
+  snapshot: {
+    chart: Record<string, any>;
+    patient: Record<string, any> | null;
+    medications: Record<string, any>[];
+    review_notes: Record<string, any>[];
+  };
+}
+
+export interface FieldChange {
+  field: string;
+  before: any;
+  after: any;
+}
+
+export interface ChartVersionDiff {
+  chart: FieldChange[];
+  patient: FieldChange[];
+  medications: {
+    added: Record<string, any>[];
+    removed: Record<string, any>[];
+    changed: { id: string; drug_name: string; changes: FieldChange[] }[];
+  };
+  review_notes: {
+    added: Record<string, any>[];
+    removed: Record<string, any>[];
+  };
+}
+
+// List snapshots taken at each finalization and delivery, newest first
+export async function fetchChartVersions(chartId: string) {
+  const { versions } = await apiRequest<{ versions: ChartVersionSummary[] }>(
+    `/api/charts/${encodeURIComponent(chartId)}/versions`
+  );
+  return versions;
+}
+
+// Get one full snapshot
+export async function fetchChartVersion(chartId: string, versionId: string) {
+  const { version } = await apiRequest<{ version: ChartVersion }>(
+    `/api/charts/${encodeURIComponent(chartId)}/versions/${encodeURIComponent(versionId)}`
+  );
+  return version;
+}
+
+// Diff two snapshots of the same chart
+export async function diffChartVersions(chartId: string, fromVersionId: string, toVersionId: string) {
+  const params = new URLSearchParams({ from: fromVersionId, to: toVersionId });
+  return apiRequest<{ from: ChartVersionSummary; to: ChartVersionSummary; diff: ChartVersionDiff }>(
+    `/api/charts/${encodeURIComponent(chartId)}/versions/diff?${params.toString()}`
+  );
+}
@@ -1,17 +1,56 @@
 import { supabaseClient } from "../lib/supabase";
+import { apiRequest } from "../lib/api";
+import { withPatientPhi } from "./patientService";
 
 // Types
 export interface Document {
   id: string;
-  chart_id: string;
+  chart_id: string | null;
   tenant_id: string;
   file_name: string;
   file_type: string;
   file_url: string;
   created_at: string;
   uploaded_by: string | null;
-  ocr_status?: 'pending' | 'processing' | 'completed' | 'failed' | null;
+  ocr_status?: OcrStatus | null;
   ocr_text?: string;
+  ocr_confidence?: number | null;
+  ocr_page_count?: number | null;
+  ocr_error?: string | null;
+  ocr_completed_at?: string | null;
+}
+
+export type OcrStatus = 'pending' | 'processing' | 'completed' | 'failed';
+
+// Word boxes are in page pixels of the rendered page (PDFs at 2x scale)
+export interface OcrWord {
+  page: number;
+  text: string;
+  confidence: number;
+  bbox: { x0: number; y0: number; x1: number; y1: number };
+}
+
+export interface OcrJob {
+  id: string;
+  document_id: string;
+  status: OcrStatus;
+  attempts: number;
+  max_attempts: number;
+  run_after: string;
+  last_error: string | null;
+  created_at: string;
+  completed_at: string | null;
+}
+
+export interface DocumentOcrResult {
+  ocr_status: OcrStatus | null;
+  ocr_text: string | null;
+  ocr_words: OcrWord[] | null;
+  ocr_confidence: number | null;
+  ocr_page_count: number | null;
+  ocr_error: string | null;
+  ocr_completed_at: string | null;
+  job: OcrJob | null;
 }
 
 export interface DocumentWithChart extends Document {
@@ -26,42 +65,39 @@ export interface DocumentWithChart extends Document {
   };
 }
 
-// Helper to derive the storage path from a public URL
-function getStoragePathFromPublicUrl(publicUrl: string): string | null {
-  // Supabase public URL looks like:
-  // https://<project>.supabase.co/storage/v1/object/public/chart-documents/<path>
-  const marker = "/storage/v1/object/public/chart-documents/";
-  const idx = publicUrl.indexOf(marker);
-  if (idx === -1) return null;
-  return publicUrl.substring(idx + marker.length);
+function isOcrCandidate(file: File) {
+  return file.type.includes('image') || file.type.includes('pdf');
 }
 
-// Get a signed URL for viewing a document (valid for 1 hour)
-export async function getSignedDocumentUrl(fileUrl: string): Promise<string> {
-  const storagePath = getStoragePathFromPublicUrl(fileUrl);
-  
-  if (!storagePath) {
-    console.warn('Could not extract storage path, returning original URL');
-    return fileUrl;
-  }
-
-  try {
-    const { data, error } = await supabaseClient.storage
-      .from('chart-documents')
-      .createSignedUrl(storagePath, 3600); // 1 hour expiry
+// Queue server-side OCR (server/src/lib/ocrWorker.ts); also retries a failed run
+export async function requestDocumentOcr(documentId: string) {
+  const { job } = await apiRequest<{ job: OcrJob }>(`/api/documents/${documentId}/ocr`, { method: 'POST' });
+  return job;
+}
 
-    if (error) {
-      console.error('Error creating signed URL:', error);
-      return fileUrl; // Fallback to original URL
-    }
+export async function fetchDocumentOcr(documentId: string) {
+  return apiRequest<DocumentOcrResult>(`/api/documents/${documentId}/ocr`);
+}
 
-    return data.signedUrl;
+// The upload itself has succeeded by now; a document whose job could not be
+// queued stays pending and can be retried from the document library.
+async function enqueueOcrAfterUpload(doc: Document) {
+  try {
+    await requestDocumentOcr(doc.id);
   } catch (err) {
-    console.error('Exception creating signed URL:', err);
-    return fileUrl; // Fallback to original URL
+    console.error('Failed to queue OCR for document', doc.id, err);
   }
 }
 
+// Get a signed URL for viewing a document (valid for 1 hour). Issued by the
+// API, which logs the view.
+export async function getSignedDocumentUrl(documentId: string): Promise<string> {
+  const { url } = await apiRequest<{ url: string; expires_in: number }>(
+    `/api/documents/${encodeURIComponent(documentId)}/url`
+  );
+  return url;
+}
+
 export async function uploadDocument(
   file: File, 
   chartId: string, 
@@ -95,33 +131,26 @@ export async function uploadDocument(
       file_type: file.type,
       file_url: fileUrl,
       uploaded_by: uploadedBy,
-      ocr_status: file.type.includes('image') || file.type.includes('pdf') ? 'pending' : null,
+      ocr_status: isOcrCandidate(file) ? 'pending' : null,
     })
     .select()
     .single();
 
   if (docError) throw docError;
+  if (isOcrCandidate(file)) await enqueueOcrAfterUpload(docRow as Document);
   return docRow as Document;
 }
 
 // Upload document without assigning to a chart yet (for scheduler workflow)
-// NOTE: This function will NOT work with the current schema since chart_id is NOT NULL
-// You need to either:
-// 1. Change chart_id to allow NULL: ALTER TABLE documents ALTER COLUMN chart_id DROP NOT NULL;
-// 2. Create a special "unassigned" chart and use that as placeholder
 export async function uploadUnassignedDocument(
   file: File,
   tenantId: string,
   uploadedBy: string | null
 ) {
-  throw new Error('Cannot upload unassigned documents - chart_id is required in schema. Please attach to a chart or modify schema to allow NULL chart_id.');
-  
-  // Original code kept for reference:
-  /*
   const fileExt = file.name.split('.').pop();
   const path = `${tenantId}/unassigned/${crypto.randomUUID()}.${fileExt}`;
 
-  const { data: uploadData, error: uploadError } = await supabaseClient.storage
+  const { error: uploadError } = await supabaseClient.storage
     .from("chart-documents")
     .upload(path, file);
 
@@ -136,20 +165,20 @@ export async function uploadUnassignedDocument(
   const { data: docRow, error: docError } = await supabaseClient
     .from("documents")
     .insert({
-      chart_id: null, // This will fail with NOT NULL constraint
+      chart_id: null,
       tenant_id: tenantId,
       file_name: file.name,
       file_type: file.type,
       file_url: fileUrl,
       uploaded_by: uploadedBy,
-      ocr_status: file.type.includes('image') || file.type.includes('pdf') ? 'pending' : null,
+      ocr_status: isOcrCandidate(file) ? 'pending' : null,
     })
     .select()
     .single();
 
   if (docError) throw docError;
+  if (isOcrCandidate(file)) await enqueueOcrAfterUpload(docRow as Document);
   return docRow as Document;
-  */
 }
 
 // Attach an unassigned document to a chart
@@ -197,18 +226,18 @@ export async function fetchAllDocuments(tenantId: string) {
       patient: doc.charts.patients
     } : undefined
   }));
+  await withPatientPhi(transformed.map((doc) => doc.chart?.patient));
   
   return transformed as DocumentWithChart[];
 }
 
-// Fetch unassigned documents (not attached to any chart) - Note: Since chart_id is NOT NULL in schema, this may not apply
+// Fetch unassigned documents (not attached to any chart)
 export async function fetchUnassignedDocuments(tenantId: string) {
-  // If chart_id is NOT NULL in your schema, you may need to create a dummy/unassigned chart
-  // or change the schema to allow NULL chart_id values
   const { data, error } = await supabaseClient
     .from("documents")
     .select("*")
     .eq("tenant_id", tenantId)
+    .is("chart_id", null)
     .order("created_at", { ascending: false });
 
   if (error) {
@@ -233,22 +262,10 @@ export async function fetchDocumentsForChart(chartId: string) {
   return data as DocumentWithChart[];
 }
 
-export async function deleteDocument(docId: string, fileUrl: string) {
-  // Best-effort storage cleanup using path derived from public URL
-  const storagePath = getStoragePathFromPublicUrl(fileUrl);
-  if (storagePath) {
-    await supabaseClient.storage
-      .from("chart-documents")
-      .remove([storagePath]);
-    // We intentionally ignore storage errors here to not block DB cleanup.
-  }
-
-  const { error } = await supabaseClient
-    .from("documents")
-    .delete()
-    .eq("id", docId);
-
-  if (error) throw error;
+// Soft delete through the API: the document is hidden straight away and its
+// file is removed by the retention job once the tenant's grace period passes
+export async function deleteDocument(docId: string) {
+  await apiRequest(`/api/documents/${docId}`, { method: 'DELETE' });
   return { success: true } as const;
 }
 
@@ -0,0 +1,58 @@
+import { ApiError, apiRequest } from '../lib/api';
+import { cacheList, getCachedList, isOnline } from './offlineSyncService';
+
+// Barcode lookups go to the API's local NDC directory
+// (server/src/lib/drugReference.ts) instead of api.fda.gov. Hits are kept in
+// the offline store so a bottle scanned once resolves again without network.
+export interface DrugProduct {
+  product_ndc: string;
+  package_ndc: string | null;
+  package_description: string | null;
+  brand_name: string | null;
+  generic_name: string | null;
+  labeler_name: string | null;
+  dosage_form: string | null;
+  route: string[];
+  strength: string | null;
+  active_ingredients: { name: string; strength: string }[];
+}
+
+export interface BarcodeMatch {
+  product: DrugProduct;
+  matched: string;
+  level: 'package' | 'product';
+}
+
+export interface DrugDataset {
+  dataset_version: string;
+  source: string | null;
+  product_count: number;
+  package_count: number;
+  removed_count: number;
+  imported_at: string;
+}
+
+const cacheKey = (code: string) => `ndc:${code.trim()}`;
+
+export async function lookupBarcode(code: string): Promise<BarcodeMatch | null> {
+  const cached = await getCachedList<BarcodeMatch>(cacheKey(code)).catch(() => undefined);
+  if (!isOnline()) return cached || null;
+
+  try {
+    const match = await apiRequest<BarcodeMatch>(`/api/drugs/barcode/${encodeURIComponent(code.trim())}`);
+    await cacheList(cacheKey(code), match).catch(() => undefined);
+    return match;
+  } catch (error) {
+    if (error instanceof ApiError && (error.code === 'not_found' || error.code === 'invalid_barcode')) {
+      return null;
+    }
+    // Network failure mid-scan: fall back to an earlier hit if there is one
+    if (cached) return cached;
+    throw error;
+  }
+}
+
+export async function fetchDrugDataset(): Promise<DrugDataset | null> {
+  const { dataset } = await apiRequest<{ dataset: DrugDataset | null }>('/api/drugs/dataset');
+  return dataset;
+}
@@ -0,0 +1,54 @@
+import { apiRequest } from '../lib/api';
+
+// Reconciliation of a chart's medication lists is computed by the API
+// (server/src/lib/medicationReconciliation.ts); finalization is refused
+// while any discrepancy is unresolved.
+export type MedicationSource = 'bottle_scan' | 'pdf_import' | 'manual';
+
+export type DiscrepancyType = 'duplicate' | 'missing' | 'dose_mismatch' | 'route_mismatch';
+
+export interface MedicationDiscrepancy {
+  key: string;
+  type: DiscrepancyType;
+  drug_name: string;
+  message: string;
+  medication_ids: string[];
+  details: Record<string, any>;
+  fingerprint: string;
+  resolution: {
+    note: string;
+    resolved_by: string | null;
+    resolved_at: string;
+  } | null;
+}
+
+export interface ReconciliationReport {
+  sources: MedicationSource[];
+  discrepancies: MedicationDiscrepancy[];
+  unresolved: number;
+}
+
+// Map the scan type chosen in the capture sheet to the medication source
+export function medicationSourceForScanType(scanType?: string): MedicationSource {
+  if (scanType === 'Import PDF') return 'pdf_import';
+  if (scanType === 'Barcode Scan' || scanType === 'Barcode' || scanType === 'Bottle OCR') return 'bottle_scan';
+  return 'manual';
+}
+
+export async function fetchReconciliationReport(chartId: string) {
+  const { report } = await apiRequest<{ report: ReconciliationReport }>(
+    `/api/charts/${encodeURIComponent(chartId)}/reconciliation`
+  );
+  return report;
+}
+
+export async function resolveDiscrepancy(chartId: string, discrepancy: MedicationDiscrepancy, note: string) {
+  const { report } = await apiRequest<{ report: ReconciliationReport }>(
+    `/api/charts/${encodeURIComponent(chartId)}/reconciliation/resolve`,
+    {
+      method: 'POST',
+      body: { key: discrepancy.key, fingerprint: discrepancy.fingerprint, note },
+    }
+  );
+  return report;
+}
@@ -0,0 +1,58 @@
+import { apiRequest } from '../lib/api';
+
+// TOTP second factor (server/src/routes/mfa.ts). After the password step the
+// Supabase session exists but the API and PHI tables refuse it until
+// verifyMfa (or confirmMfaEnrollment) marks it verified.
+export interface MfaStatus {
+  enrolled: boolean;
+  required: boolean;
+  required_by_tenant: boolean;
+  session_verified: boolean;
+  recovery_codes_remaining: number;
+}
+
+export interface MfaEnrollment {
+  secret: string;
+  otpauth_url: string;
+  qr_code: string; // data: URL of the otpauth QR code
+}
+
+export function getMfaStatus(): Promise<MfaStatus> {
+  return apiRequest<MfaStatus>('/api/mfa/status');
+}
+
+export function startMfaEnrollment(): Promise<MfaEnrollment> {
+  return apiRequest<MfaEnrollment>('/api/mfa/enroll', { method: 'POST' });
+}
+
+// Returns the recovery codes; they are only ever shown here
+export async function confirmMfaEnrollment(code: string): Promise<string[]> {
+  const { recovery_codes } = await apiRequest<{ recovery_codes: string[] }>('/api/mfa/enroll/verify', {
+    body: { code },
+  });
+  return recovery_codes;
+}
+
+export function verifyMfa(input: { code: string } | { recoveryCode: string }) {
+  return apiRequest<{ verified: true; method: 'totp' | 'recovery_code' }>('/api/mfa/verify', {
+    body: 'code' in input ? { code: input.code } : { recovery_code: input.recoveryCode },
+  });
+}
+
+export async function regenerateRecoveryCodes(code: string): Promise<string[]> {
+  const { recovery_codes } = await apiRequest<{ recovery_codes: string[] }>('/api/mfa/recovery-codes', {
+    body: { code },
+  });
+  return recovery_codes;
+}
+
+export async function disableMfa(code: string): Promise<void> {
+  await apiRequest('/api/mfa/disable', { body: { code } });
+}
+
+export function setTenantMfaPolicy(tenantId: string, required: boolean) {
+  return apiRequest<{ tenant_id: string; require_mfa: boolean }>(
+    `/api/mfa/tenants/${encodeURIComponent(tenantId)}/policy`,
+    { method: 'PUT', body: { required } }
+  );
+}
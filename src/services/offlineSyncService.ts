@@ -0,0 +1,524 @@
+import { supabaseClient } from '../lib/supabase';
+import { getItem, putItem, deleteItem, getAllItems, clearStore } from '../lib/offlineStore';
+import type { OfflineStoreName } from '../lib/offlineStore';
+import { saveMedicationImage } from './chartService';
+
+// Offline clinician mode. Charts and medications are cached in IndexedDB when
+// loaded online; medication edits made without a connection are queued and
+// replayed in order on reconnect. Each queued update/delete carries the
+// medication's updated_at from when the edit started, so a row changed on the
+// server in the meantime becomes a conflict for the clinician to resolve
+// instead of being silently overwritten.
+
+export interface CachedMedication {
+  id: string;
+  chart_id: string;
+  tenant_id: string;
+  drug_name: string;
+  strength: string | null;
+  route: string | null;
+  frequency: string | null;
+  prescriber: string | null;
+  instructions: string | null;
+  notes: string | null;
+  scanned_on: string | null;
+  ocr_confidence: number | null;
+  verified: boolean;
+  changed_after_verify: boolean;
+  source?: string;
+  updated_at?: string | null;
+  // Set while the change only exists on this device
+  pending?: boolean;
+}
+
+export interface CachedChart {
+  chartId: string;
+  status: string;
+  patient: { first_name: string; last_name: string; date_of_birth: string | null } | null;
+  medications: CachedMedication[];
+  cachedAt: string;
+}
+
+export type MutationKind = 'insert_medication' | 'update_medication' | 'delete_medication';
+
+export interface QueuedMutation {
+  seq?: number;
+  id: string;
+  kind: MutationKind;
+  chartId: string;
+  medicationId: string;
+  payload?: Record<string, any>;
+  // Server updated_at the edit was based on; null for inserts
+  baseUpdatedAt: string | null;
+  queuedAt: string;
+}
+
+export interface SyncConflict {
+  id: string;
+  mutation: QueuedMutation;
+  reason: 'modified' | 'deleted' | 'locked' | 'rejected';
+  message: string;
+  serverRow: Record<string, any> | null;
+  detectedAt: string;
+}
+
+export interface SyncState {
+  online: boolean;
+  syncing: boolean;
+  pending: number;
+  conflicts: SyncConflict[];
+  lastSyncedAt: string | null;
+  // Last time a replay changed server data; screens reload when this moves
+  lastAppliedAt: string | null;
+  lastError: string | null;
+}
+
+export interface SyncResult {
+  synced: number;
+  conflicts: number;
+  remaining: number;
+}
+
+// Columns cached for each medication. scanned_image is kept in the images store
+// and sent to the server separately (it is stored encrypted).
+const MEDICATION_COLUMNS =
+  'id, chart_id, tenant_id, drug_name, strength, route, frequency, prescriber, instructions, notes, scanned_on, ocr_confidence, verified, changed_after_verify, source, updated_at';
+
+let state: SyncState = {
+  online: typeof navigator === 'undefined' ? true : navigator.onLine,
+  syncing: false,
+  pending: 0,
+  conflicts: [],
+  lastSyncedAt: null,
+  lastAppliedAt: null,
+  lastError: null,
+};
+
+const listeners = new Set<(state: SyncState) => void>();
+let replayInFlight: Promise<SyncResult> | null = null;
+
+function setState(patch: Partial<SyncState>) {
+  state = { ...state, ...patch };
+  listeners.forEach((listener) => listener(state));
+}
+
+export function getSyncState() {
+  return state;
+}
+
+export function subscribeToSyncState(listener: (state: SyncState) => void) {
+  listeners.add(listener);
+  listener(state);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+export function isOnline() {
+  return typeof navigator === 'undefined' ? true : navigator.onLine;
+}
+
+export function setOnline(online: boolean) {
+  setState({ online });
+}
+
+function isNetworkError(error: any) {
+  const message = String(error?.message || error || '');
+  return !isOnline() || /failed to fetch|networkerror|network request failed|load failed/i.test(message);
+}
+
+async function refreshCounts() {
+  const [queue, conflicts] = await Promise.all([
+    getAllItems<QueuedMutation>('queue'),
+    getAllItems<SyncConflict>('conflicts'),
+  ]);
+  setState({
+    pending: queue.length,
+    conflicts: conflicts.sort((a, b) => a.detectedAt.localeCompare(b.detectedAt)),
+  });
+}
+
+// Load queue and conflict counts persisted from a previous session
+export async function initializeOfflineSync() {
+  try {
+    await refreshCounts();
+  } catch (err) {
+    console.error('Failed to read offline queue:', err);
+  }
+}
+
+// ─── Cache ───────────────────────────────────────────────────────
+
+export function cacheChart(entry: Omit<CachedChart, 'cachedAt'>) {
+  return putItem<CachedChart>('charts', { ...entry, cachedAt: new Date().toISOString() }, entry.chartId);
+}
+
+export function getCachedChart(chartId: string) {
+  return getItem<CachedChart>('charts', chartId);
+}
+
+export function cacheList<T>(key: string, data: T) {
+  return putItem('lists', { data, cachedAt: new Date().toISOString() }, key);
+}
+
+export async function getCachedList<T>(key: string) {
+  const entry = await getItem<{ data: T; cachedAt: string }>('lists', key);
+  return entry?.data;
+}
+
+export function cacheImage(medicationId: string, dataUrl: string) {
+  return putItem('images', dataUrl, medicationId);
+}
+
+export function getCachedImage(medicationId: string) {
+  return getItem<string>('images', medicationId);
+}
+
+// Apply a change to the cached copy so the offline UI reflects it
+async function updateCachedChart(chartId: string, update: (meds: CachedMedication[]) => CachedMedication[]) {
+  const cached = await getCachedChart(chartId);
+  if (!cached) return;
+  await putItem<CachedChart>('charts', { ...cached, medications: update(cached.medications) }, chartId);
+}
+
+export async function fetchMedicationsForCache(chartId: string) {
+  const { data, error } = await supabaseClient
+    .from('medications')
+    .select(MEDICATION_COLUMNS)
+    .eq('chart_id', chartId);
+
+  if (error) throw error;
+  return (data || []) as CachedMedication[];
+}
+
+// Re-read the chart's medications from the server into the cache
+export async function refreshCachedChart(chartId: string) {
+  const cached = await getCachedChart(chartId);
+  if (!cached) return;
+
+  const medications = await fetchMedicationsForCache(chartId);
+  await putItem<CachedChart>('charts', { ...cached, medications, cachedAt: new Date().toISOString() }, chartId);
+}
+
+// ─── Writes ──────────────────────────────────────────────────────
+
+async function enqueue(mutation: Omit<QueuedMutation, 'id' | 'queuedAt'>) {
+  const queued: QueuedMutation = { ...mutation, id: crypto.randomUUID(), queuedAt: new Date().toISOString() };
+  await putItem('queue', queued);
+  await refreshCounts();
+  return queued;
+}
+
+// Insert a medication, or queue it if there is no connection. The id is
+// generated here so a replayed insert is idempotent.
+export async function insertMedication(payload: Record<string, any>): Promise<CachedMedication> {
+  const { scanned_image: image, ...row } = payload;
+  const record = { id: crypto.randomUUID(), ...row } as CachedMedication & Record<string, any>;
+
+  if (image) await cacheImage(record.id, image);
+
+  if (isOnline()) {
+    const { data, error } = await supabaseClient
+      .from('medications')
+      .insert([record])
+      .select(MEDICATION_COLUMNS)
+      .single();
+
+    if (!error) {
+      await updateCachedChart(record.chart_id, (meds) => [...meds, data as CachedMedication]);
+      if (image) {
+        try {
+          await saveMedicationImage(record.chart_id, record.id, image);
+        } catch (imageError) {
+          if (!isNetworkError(imageError)) throw imageError;
+          // Replaying the insert is a no-op for the row and retries the image
+          await enqueue({
+            kind: 'insert_medication',
+            chartId: record.chart_id,
+            medicationId: record.id,
+            payload: record,
+            baseUpdatedAt: null,
+          });
+        }
+      }
+      return data as CachedMedication;
+    }
+    if (!isNetworkError(error)) throw error;
+  }
+
+  await enqueue({
+    kind: 'insert_medication',
+    chartId: record.chart_id,
+    medicationId: record.id,
+    payload: record,
+    baseUpdatedAt: null,
+  });
+  const pendingRecord = { ...record, pending: true };
+  await updateCachedChart(record.chart_id, (meds) => [...meds, pendingRecord]);
+  return pendingRecord;
+}
+
+export async function updateMedication(
+  chartId: string,
+  medicationId: string,
+  patch: Record<string, any>,
+  baseUpdatedAt: string | null
+): Promise<void> {
+  const { scanned_image: image, ...changes } = patch;
+  if (image) await cacheImage(medicationId, image);
+
+  if (isOnline()) {
+    const { error } = await supabaseClient.from('medications').update(changes).eq('id', medicationId);
+    if (!error) {
+      await updateCachedChart(chartId, (meds) => meds.map((m) => (m.id === medicationId ? { ...m, ...changes } : m)));
+      if (image) await saveMedicationImage(chartId, medicationId, image);
+      return;
+    }
+    if (!isNetworkError(error)) throw error;
+  }
+
+  await enqueue({ kind: 'update_medication', chartId, medicationId, payload: changes, baseUpdatedAt });
+  await updateCachedChart(chartId, (meds) =>
+    meds.map((m) => (m.id === medicationId ? { ...m, ...changes, pending: true } : m))
+  );
+}
+
+export async function deleteMedication(chartId: string, medicationId: string, baseUpdatedAt: string | null) {
+  if (isOnline()) {
+    const { error } = await supabaseClient.from('medications').delete().eq('id', medicationId);
+    if (!error) {
+      await updateCachedChart(chartId, (meds) => meds.filter((m) => m.id !== medicationId));
+      await deleteItem('images', medicationId);
+      return;
+    }
+    if (!isNetworkError(error)) throw error;
+  }
+
+  // A medication that was only ever queued never needs to reach the server
+  const queue = await getAllItems<QueuedMutation>('queue');
+  const queuedInsert = queue.find((m) => m.kind === 'insert_medication' && m.medicationId === medicationId);
+  if (queuedInsert) {
+    for (const m of queue.filter((q) => q.medicationId === medicationId)) {
+      await deleteItem('queue', m.seq!);
+    }
+    await deleteItem('images', medicationId);
+    await refreshCounts();
+  } else {
+    await enqueue({ kind: 'delete_medication', chartId, medicationId, baseUpdatedAt });
+  }
+  await updateCachedChart(chartId, (meds) => meds.filter((m) => m.id !== medicationId));
+}
+
+// ─── Replay ──────────────────────────────────────────────────────
+
+type ReplayOutcome = 'applied' | 'conflict' | 'network';
+
+async function recordConflict(
+  mutation: QueuedMutation,
+  reason: SyncConflict['reason'],
+  message: string,
+  serverRow: Record<string, any> | null
+) {
+  const conflict: SyncConflict = {
+    id: mutation.id,
+    mutation,
+    reason,
+    message,
+    serverRow,
+    detectedAt: new Date().toISOString(),
+  };
+  await putItem('conflicts', conflict, conflict.id);
+}
+
+function conflictForError(error: any): { reason: SyncConflict['reason']; message: string } {
+  if (error?.code === '42501') {
+    return { reason: 'locked', message: 'The chart was locked or archived before this change could be saved.' };
+  }
+  return { reason: 'rejected', message: error?.message || 'The server rejected this change.' };
+}
+
+async function applyMutation(mutation: QueuedMutation, force = false): Promise<ReplayOutcome> {
+  if (mutation.kind === 'insert_medication') {
+    const { error } = await supabaseClient
+      .from('medications')
+      .upsert([mutation.payload], { onConflict: 'id', ignoreDuplicates: true });
+
+    if (error) {
+      if (isNetworkError(error)) return 'network';
+      const { reason, message } = conflictForError(error);
+      await recordConflict(mutation, reason, message, null);
+      return 'conflict';
+    }
+
+    const image = await getCachedImage(mutation.medicationId);
+    if (!image) return 'applied';
+    try {
+      await saveMedicationImage(mutation.chartId, mutation.medicationId, image);
+      return 'applied';
+    } catch (imageError) {
+      if (isNetworkError(imageError)) return 'network';
+      const { reason, message } = conflictForError(imageError);
+      await recordConflict(mutation, reason, message, null);
+      return 'conflict';
+    }
+  }
+
+  const { data: serverRow, error: readError } = await supabaseClient
+    .from('medications')
+    .select(MEDICATION_COLUMNS)
+    .eq('id', mutation.medicationId)
+    .maybeSingle();
+
+  if (readError) {
+    if (isNetworkError(readError)) return 'network';
+    const { reason, message } = conflictForError(readError);
+    await recordConflict(mutation, reason, message, null);
+    return 'conflict';
+  }
+
+  if (!serverRow) {
+    // Deleting something already gone is not a conflict
+    if (mutation.kind === 'delete_medication') return 'applied';
+    await recordConflict(mutation, 'deleted', 'This medication was removed on the server while you were offline.', null);
+    return 'conflict';
+  }
+
+  const changedOnServer =
+    mutation.baseUpdatedAt !== null && (serverRow as any).updated_at !== mutation.baseUpdatedAt;
+  if (changedOnServer && !force) {
+    await recordConflict(mutation, 'modified', 'This medication was changed by someone else while you were offline.', serverRow);
+    return 'conflict';
+  }
+
+  let query;
+  if (mutation.kind === 'delete_medication') {
+    query = supabaseClient.from('medications').delete().eq('id', mutation.medicationId);
+  } else {
+    // The image was sent with the insert; edits made offline do not change it
+    query = supabaseClient.from('medications').update(mutation.payload).eq('id', mutation.medicationId);
+  }
+
+  // Compare-and-set on updated_at so a change landing between the read and
+  // the write is still caught
+  const { data: written, error } = await query
+    .eq('updated_at', (serverRow as any).updated_at)
+    .select('id');
+
+  if (error) {
+    if (isNetworkError(error)) return 'network';
+    const { reason, message } = conflictForError(error);
+    await recordConflict(mutation, reason, message, serverRow);
+    return 'conflict';
+  }
+  if (!written || written.length === 0) {
+    await recordConflict(mutation, 'modified', 'This medication was changed by someone else while you were offline.', serverRow);
+    return 'conflict';
+  }
+  return 'applied';
+}
+
+async function replay(): Promise<SyncResult> {
+  const queue = (await getAllItems<QueuedMutation>('queue')).sort((a, b) => (a.seq || 0) - (b.seq || 0));
+  const touchedCharts = new Set<string>();
+  let synced = 0;
+  let conflicts = 0;
+
+  for (const mutation of queue) {
+    const outcome = await applyMutation(mutation);
+    if (outcome === 'network') break;
+
+    await deleteItem('queue', mutation.seq!);
+    touchedCharts.add(mutation.chartId);
+    if (outcome === 'applied') synced++;
+    else conflicts++;
+  }
+
+  for (const chartId of touchedCharts) {
+    await refreshCachedChart(chartId).catch((err) => console.error('Failed to refresh cached chart:', err));
+  }
+
+  await refreshCounts();
+  return { synced, conflicts, remaining: state.pending };
+}
+
+// Replay queued changes. Concurrent callers share one run.
+export function replayQueue(): Promise<SyncResult> {
+  if (replayInFlight) return replayInFlight;
+  if (!isOnline()) return Promise.resolve({ synced: 0, conflicts: 0, remaining: state.pending });
+
+  setState({ syncing: true, lastError: null });
+  replayInFlight = replay()
+    .then((result) => {
+      const now = new Date().toISOString();
+      setState({ lastSyncedAt: now, ...(result.synced + result.conflicts > 0 ? { lastAppliedAt: now } : {}) });
+      return result;
+    })
+    .catch((err) => {
+      console.error('Offline queue replay failed:', err);
+      setState({ lastError: err.message || 'Sync failed' });
+      throw err;
+    })
+    .finally(() => {
+      replayInFlight = null;
+      setState({ syncing: false });
+    });
+
+  return replayInFlight;
+}
+
+// 'mine' re-applies the offline change over the server version; 'server'
+// discards it and keeps what is on the server. Only edits that raced another
+// edit can be kept; deleted rows and locked charts can only be discarded.
+export async function resolveConflict(conflictId: string, keep: 'mine' | 'server') {
+  const conflict = await getItem<SyncConflict>('conflicts', conflictId);
+  if (!conflict) return;
+
+  if (keep === 'mine') {
+    if (conflict.reason !== 'modified') {
+      throw new Error('This change can no longer be applied and can only be discarded.');
+    }
+
+    await deleteItem('conflicts', conflictId);
+    const outcome = await applyMutation(conflict.mutation, true);
+    if (outcome === 'network') {
+      await putItem('conflicts', conflict, conflictId);
+      throw new Error('You are offline. Try again once you are connected.');
+    }
+  } else {
+    await deleteItem('conflicts', conflictId);
+  }
+
+  await refreshCachedChart(conflict.mutation.chartId).catch((err) =>
+    console.error('Failed to refresh cached chart:', err)
+  );
+  await refreshCounts();
+  setState({ lastAppliedAt: new Date().toISOString() });
+}
+
+// ─── Sign-out ────────────────────────────────────────────────────
+
+const OFFLINE_STORES: OfflineStoreName[] = ['charts', 'lists', 'images', 'queue', 'conflicts'];
+
+// How long a sign-out waits for queued changes to reach the server
+const FLUSH_TIMEOUT_MS = 10000;
+
+// Remove every patient record cached on this device, e.g. when a shared
+// device is signed out for inactivity. Queued changes are sent first if
+// there is a connection; whatever could not be sent is discarded with the
+// rest, and the number discarded is returned.
+export async function clearOfflineData(): Promise<{ discarded: number }> {
+  if (state.pending > 0 && isOnline()) {
+    await Promise.race([
+      replayQueue().catch((err) => console.error('Sync before sign-out failed:', err)),
+      new Promise((resolve) => setTimeout(resolve, FLUSH_TIMEOUT_MS)),
+    ]);
+  }
+
+  const [queue, conflicts] = await Promise.all([
+    getAllItems<QueuedMutation>('queue'),
+    getAllItems<SyncConflict>('conflicts'),
+  ]);
+  await Promise.all(OFFLINE_STORES.map((name) => clearStore(name)));
+  setState({ pending: 0, conflicts: [], lastError: null });
+  return { discarded: queue.length + conflicts.length };
+}
@@ -1,4 +1,150 @@
 import { supabaseClient } from '../lib/supabase';
+import { apiRequest } from '../lib/api';
+
+export interface PatientAccessEntry {
+  id: string;
+  user_id: string;
+  entity_type: 'patient' | 'chart' | 'medication' | 'document';
+  entity_id: string;
+  created_at: string;
+  ip_address: string | null;
+  user_agent: string | null;
+  path: string | null;
+  impersonation: { session_id: string; actor_user_id: string } | null;
+  user: { first_name: string; last_name: string; email: string; role: string } | null;
+}
+
+export interface PatientAccessReport {
+  accesses: PatientAccessEntry[];
+  users: {
+    user_id: string;
+    user: PatientAccessEntry['user'];
+    views: number;
+    first_viewed_at: string;
+    last_viewed_at: string;
+  }[];
+  // More entries exist than were returned
+  truncated: boolean;
+}
+
+export interface DuplicateCandidate<T = any> {
+  patient: T & { charts?: { id: string; status: string; created_at: string }[] };
+  // 0-100; 'likely' from 80, 'possible' from 60
+  score: number;
+  level: 'likely' | 'possible';
+  reasons: string[];
+}
+
+export interface PatientMerge {
+  id: string;
+  tenant_id: string;
+  survivor_id: string;
+  merged_id: string;
+  chart_ids: string[];
+  document_count: number;
+  medication_count: number;
+  match_score: number | null;
+  reason: string | null;
+  merged_at: string;
+  undone_at: string | null;
+  survivor?: { id: string; first_name: string; last_name: string } | null;
+  merged?: { id: string; first_name: string; last_name: string } | null;
+  merged_by_user?: { first_name: string; last_name: string } | null;
+  undone_by_user?: { first_name: string; last_name: string } | null;
+}
+
+// Date of birth, address lines, phone and email are stored encrypted
+// (server/src/lib/phiEncryption.ts): patients are created and changed
+// through the API, and those fields read through it. Reading the table
+// directly still gives names and everything else.
+export const PATIENT_PHI_FIELDS = ['date_of_birth', 'address_line1', 'address_line2', 'phone', 'email'] as const;
+
+export interface PatientInput {
+  first_name?: string;
+  last_name?: string;
+  date_of_birth?: string | null;
+  address_line1?: string | null;
+  address_line2?: string | null;
+  city?: string | null;
+  state?: string | null;
+  zip_code?: string | null;
+  phone?: string | null;
+  email?: string | null;
+  assigned_clinician_id?: string | null;
+}
+
+// The API caps one request at this many patients
+const PHI_BATCH_SIZE = 200;
+
+export async function createPatientRecord<T = any>(
+  input: PatientInput & { first_name: string; last_name: string },
+  tenantId?: string
+) {
+  const { patient } = await apiRequest<{ patient: T }>('/api/patients', {
+    method: 'POST',
+    body: { ...input, ...(tenantId ? { tenant_id: tenantId } : {}) },
+  });
+  return patient;
+}
+
+export async function fetchPatient<T = any>(patientId: string) {
+  const { patient } = await apiRequest<{ patient: T }>(`/api/patients/${encodeURIComponent(patientId)}`);
+  return patient;
+}
+
+export async function updatePatientRecord<T = any>(patientId: string, changes: PatientInput) {
+  const { patient } = await apiRequest<{ patient: T }>(`/api/patients/${encodeURIComponent(patientId)}`, {
+    method: 'PATCH',
+    body: changes,
+  });
+  return patient;
+}
+
+// Exact match on name + date of birth (case and extra spaces ignored)
+export async function lookupPatients<T = any>(
+  tenantId: string,
+  firstName: string,
+  lastName: string,
+  dateOfBirth: string,
+  options: { includeCharts?: boolean } = {}
+) {
+  const params = new URLSearchParams({
+    tenant_id: tenantId,
+    first_name: firstName,
+    last_name: lastName,
+    date_of_birth: dateOfBirth,
+  });
+  if (options.includeCharts) params.set('include', 'charts');
+  const { patients } = await apiRequest<{ patients: T[] }>(`/api/patients/lookup?${params}`);
+  return patients;
+}
+
+// Name contains the text, or date of birth equals it (YYYY-MM-DD or MM/DD/YYYY)
+export async function searchPatientRecords<T = any>(tenantId: string, query: string) {
+  const params = new URLSearchParams({ tenant_id: tenantId, q: query });
+  const { patients } = await apiRequest<{ patients: T[] }>(`/api/patients/search?${params}`);
+  return patients;
+}
+
+// Fill in the encrypted fields of patients read from the table directly,
+// e.g. nested under charts. Updates the records in place and returns them.
+export async function withPatientPhi<T extends { id: string } | null | undefined>(patients: T[]) {
+  const ids = [...new Set(patients.filter(Boolean).map((patient) => patient!.id))];
+
+  for (let start = 0; start < ids.length; start += PHI_BATCH_SIZE) {
+    const batch = ids.slice(start, start + PHI_BATCH_SIZE);
+    const { patients: details } = await apiRequest<{ patients: ({ id: string } & Record<string, any>)[] }>(
+      `/api/patients/phi?ids=${batch.map(encodeURIComponent).join(',')}`
+    );
+    const byId = new Map(details.map((detail) => [detail.id, detail]));
+    for (const patient of patients) {
+      const detail = patient && byId.get(patient.id);
+      if (!detail) continue;
+      for (const field of PATIENT_PHI_FIELDS) (patient as Record<string, any>)[field] = detail[field] ?? null;
+    }
+  }
+  return patients;
+}
 
 export async function fetchPatientsForClinician(clinicianId: string) {
   const { data, error } = await supabaseClient
@@ -27,5 +173,91 @@ export async function fetchPatientsForClinician(clinicianId: string) {
   if (error) {
     throw error;
   }
-  return data;
+  return withPatientPhi(data || []);
+}
+
+// A tenant's patients with assigned clinician, charts and documents. Read
+// through the API so the access is logged.
+export async function fetchTenantPatients(tenantId: string) {
+  const { patients } = await apiRequest<{ patients: any[] }>(
+    `/api/patients?tenant_id=${encodeURIComponent(tenantId)}`
+  );
+  return patients;
+}
+
+// Who has viewed this patient's records (agency admins)
+export function fetchPatientAccessLog(patientId: string, filters: { since?: string; until?: string } = {}) {
+  const params = new URLSearchParams();
+  if (filters.since) params.set('since', filters.since);
+  if (filters.until) params.set('until', filters.until);
+  const query = params.toString();
+  return apiRequest<PatientAccessReport>(
+    `/api/patients/${encodeURIComponent(patientId)}/access-log${query ? `?${query}` : ''}`
+  );
+}
+
+// Right-of-access bundle (agency admins): a zip with the whole record as PDF
+// and JSON, scanned label images and document files. Each download is audited.
+export async function downloadPatientExport(patientId: string, patientName: string) {
+  const blob = await apiRequest<Blob>(`/api/patients/${encodeURIComponent(patientId)}/export`, {
+    responseType: 'blob',
+  });
+
+  const stem = patientName.trim().replace(/[^A-Za-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'patient';
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = `patient-record-${stem}-${new Date().toISOString().split('T')[0]}.zip`;
+  a.click();
+  URL.revokeObjectURL(url);
+}
+
+// Existing patients that may be the person about to be created (names that
+// sound or are spelled alike, nicknames, a mistyped date of birth, the same
+// phone or address), best first
+export async function findPossibleDuplicates<T = any>(
+  input: Pick<PatientInput, 'date_of_birth' | 'phone' | 'address_line1' | 'zip_code'> & {
+    first_name: string;
+    last_name: string;
+  },
+  tenantId?: string
+) {
+  const { candidates } = await apiRequest<{ candidates: DuplicateCandidate<T>[] }>('/api/patients/duplicates', {
+    method: 'POST',
+    body: { ...input, ...(tenantId ? { tenant_id: tenantId } : {}) },
+  });
+  return candidates;
+}
+
+// Likely and possible duplicates of an existing patient (agency admins)
+export async function fetchPatientDuplicates<T = any>(patientId: string) {
+  const { candidates } = await apiRequest<{ candidates: DuplicateCandidate<T>[] }>(
+    `/api/patients/${encodeURIComponent(patientId)}/duplicates`
+  );
+  return candidates;
+}
+
+// Move the duplicate's charts, documents and medications onto the surviving
+// patient and hide the duplicate; undoPatientMerge reverses it
+export async function mergePatients(survivorId: string, mergedId: string, reason?: string) {
+  const { merge } = await apiRequest<{ merge: PatientMerge }>(
+    `/api/patients/${encodeURIComponent(survivorId)}/merge`,
+    { method: 'POST', body: { merged_patient_id: mergedId, reason: reason || null } }
+  );
+  return merge;
+}
+
+export async function fetchPatientMerges(patientId: string) {
+  const { merges } = await apiRequest<{ merges: PatientMerge[] }>(
+    `/api/patients/${encodeURIComponent(patientId)}/merges`
+  );
+  return merges;
+}
+
+export async function undoPatientMerge(mergeId: string) {
+  const { merge } = await apiRequest<{ merge: PatientMerge }>(
+    `/api/patients/merges/${encodeURIComponent(mergeId)}/undo`,
+    { method: 'POST' }
+  );
+  return merge;
 }
@@ -0,0 +1,109 @@
+import { apiRequest } from '../lib/api';
+
+// Per-tenant data retention (server/src/lib/retention.ts). Deleted charts and
+// documents stay restorable for the grace period; a scheduled job then purges
+// them, and removes archived charts, notifications and audit entries older
+// than the tenant's policies. Legal holds stop all of it.
+export type RetentionEntityType = 'archived_chart' | 'notification' | 'audit_log';
+
+export interface RetentionSettings {
+  tenant_id: string;
+  grace_days: number;
+  // Days each kind of record is kept; null keeps it forever
+  policies: Record<RetentionEntityType, number | null>;
+}
+
+// Shortest policy the server accepts for each kind (audit entries: six years)
+export const RETENTION_MIN_DAYS: Record<RetentionEntityType, number> = {
+  archived_chart: 365,
+  notification: 7,
+  audit_log: 2190,
+};
+
+export interface LegalHold {
+  id: string;
+  tenant_id: string;
+  scope: 'tenant' | 'patient';
+  patient_id: string | null;
+  reason: string;
+  created_by: string | null;
+  created_at: string;
+  released_by: string | null;
+  released_at: string | null;
+  patient?: { first_name: string; last_name: string } | null;
+}
+
+export interface DeletedChart {
+  id: string;
+  patient_id: string;
+  status: string;
+  deleted_at: string;
+  deleted_by: string | null;
+  patient: { first_name: string; last_name: string } | null;
+  purge_at: string;
+  held: boolean;
+}
+
+export interface DeletedDocument {
+  id: string;
+  chart_id: string | null;
+  file_name: string;
+  file_type: string;
+  deleted_at: string;
+  deleted_by: string | null;
+  purge_at: string;
+  held: boolean;
+}
+
+const tenantPath = (tenantId: string) => `/api/tenants/${encodeURIComponent(tenantId)}`;
+
+export function fetchRetentionSettings(tenantId: string) {
+  return apiRequest<RetentionSettings>(`${tenantPath(tenantId)}/retention`);
+}
+
+export function saveRetentionSettings(
+  tenantId: string,
+  settings: { grace_days?: number; policies?: Partial<Record<RetentionEntityType, number | null>> }
+) {
+  return apiRequest<RetentionSettings>(`${tenantPath(tenantId)}/retention`, { method: 'PUT', body: settings });
+}
+
+export function fetchDeletedRecords(tenantId: string) {
+  return apiRequest<{ grace_days: number; charts: DeletedChart[]; documents: DeletedDocument[] }>(
+    `${tenantPath(tenantId)}/retention/deleted`
+  );
+}
+
+export async function fetchLegalHolds(tenantId: string) {
+  const { holds } = await apiRequest<{ holds: LegalHold[] }>(`${tenantPath(tenantId)}/legal-holds`);
+  return holds;
+}
+
+export function placeLegalHold(
+  tenantId: string,
+  hold: { scope: 'tenant' } | { scope: 'patient'; patient_id: string },
+  reason: string
+) {
+  return apiRequest<LegalHold>(`${tenantPath(tenantId)}/legal-holds`, {
+    method: 'POST',
+    body: { ...hold, reason },
+  });
+}
+
+export function releaseLegalHold(tenantId: string, holdId: string) {
+  return apiRequest<LegalHold>(`${tenantPath(tenantId)}/legal-holds/${encodeURIComponent(holdId)}/release`, {
+    method: 'POST',
+  });
+}
+
+export function restoreChart(chartId: string) {
+  return apiRequest<{ id: string; restored: boolean }>(`/api/charts/${encodeURIComponent(chartId)}/restore`, {
+    method: 'POST',
+  });
+}
+
+export function restoreDocument(documentId: string) {
+  return apiRequest<{ id: string; restored: boolean }>(`/api/documents/${encodeURIComponent(documentId)}/restore`, {
+    method: 'POST',
+  });
+}
@@ -1,4 +1,13 @@
 import { supabaseClient } from '../lib/supabase';
+import { transitionChart } from './chartLifecycleService';
+import {
+  DuplicateCandidate,
+  createPatientRecord,
+  findPossibleDuplicates,
+  lookupPatients,
+  searchPatientRecords,
+  withPatientPhi,
+} from './patientService';
 
 // Types
 export interface Patient {
@@ -22,7 +31,7 @@ export interface Patient {
 export interface Chart {
   id: string;
   patient_id: string;
-  status: 'active' | 'verified_ready' | 'needs_reverification' | 'delivered_locked' | 'archived';
+  status: 'active' | 'verified_ready' | 'pending_review' | 'needs_reverification' | 'delivered_locked' | 'archived';
   source: 'bottle_scan' | 'pdf_import' | 'image_upload' | 'empty_chart';
   created_at: string;
   created_by: string;
@@ -63,6 +72,7 @@ export interface CreatePatientData {
   zip_code?: string;
   phone?: string;
   email?: string;
+  assigned_clinician_id?: string;
 }
 
 export interface CreateChartData {
@@ -80,7 +90,7 @@ export async function fetchAllPatients(tenantId: string) {
     .order('created_at', { ascending: false });
 
   if (error) throw error;
-  return data as Patient[];
+  return (await withPatientPhi(data || [])) as Patient[];
 }
 
 // Fetch all charts in the scheduler's tenant with patient info
@@ -119,6 +129,7 @@ export async function fetchAllCharts(tenantId: string, includeArchived: boolean
   const { data, error } = await query.order('created_at', { ascending: false });
 
   if (error) throw error;
+  await withPatientPhi((data || []).map((chart: any) => chart.patient));
 
   // Get medication and document counts separately for each chart
   const chartsWithCounts = await Promise.all(
@@ -167,6 +178,7 @@ export async function fetchUnassignedCharts(tenantId: string) {
     .order('created_at', { ascending: true });
 
   if (error) throw error;
+  await withPatientPhi((data || []).map((chart: any) => chart.patient));
 
   // Get document counts separately
   const chartsWithCounts = await Promise.all(
@@ -242,27 +254,10 @@ export async function findExistingPatientWithChart(
   dateOfBirth: string,
   tenantId: string
 ) {
-  const { data, error } = await supabaseClient
-    .from('patients')
-    .select(`
-      *,
-      charts (
-        id,
-        status,
-        source,
-        created_at,
-        created_by,
-        medication_count
-      )
-    `)
-    .eq('tenant_id', tenantId)
-    .eq('first_name', firstName)
-    .eq('last_name', lastName)
-    .eq('date_of_birth', dateOfBirth)
-    .maybeSingle();
-
-  if (error) throw error;
-  return data as (Patient & { charts?: any[] }) | null;
+  const [patient] = await lookupPatients<Patient & { charts?: any[] }>(tenantId, firstName, lastName, dateOfBirth, {
+    includeCharts: true,
+  });
+  return patient ?? null;
 }
 
 // Find existing patient by name and DOB
@@ -272,33 +267,13 @@ export async function findExistingPatient(
   dateOfBirth: string,
   tenantId: string
 ) {
-  const { data, error } = await supabaseClient
-    .from('patients')
-    .select('*')
-    .eq('tenant_id', tenantId)
-    .eq('first_name', firstName)
-    .eq('last_name', lastName)
-    .eq('date_of_birth', dateOfBirth)
-    .maybeSingle();
-
-  if (error) throw error;
-  return data as Patient | null;
+  const [patient] = await lookupPatients<Patient>(tenantId, firstName, lastName, dateOfBirth);
+  return patient ?? null;
 }
 
-// Create a new patient
-export async function createPatient(patientData: CreatePatientData, tenantId: string, createdBy: string) {
-  const { data, error } = await supabaseClient
-    .from('patients')
-    .insert({
-      ...patientData,
-      tenant_id: tenantId,
-      created_by: createdBy,
-    })
-    .select()
-    .single();
-
-  if (error) throw error;
-  return data as Patient;
+// Create a new patient (the API records the caller as its creator)
+export async function createPatient(patientData: CreatePatientData, tenantId: string) {
+  return createPatientRecord<Patient>(patientData, tenantId);
 }
 
 // Create a new chart
@@ -330,23 +305,44 @@ export async function createChart(chartData: CreateChartData, tenantId: string,
     .single();
 
   if (error) throw error;
+  await withPatientPhi([data.patient]);
   return data as ChartWithPatient;
 }
 
+export interface CreatePatientWithChartOptions {
+  // A patient the scheduler picked from possibleDuplicates
+  existingPatient?: Patient & { charts?: any[] };
+  // Create a new patient even though similar patients exist
+  allowPossibleDuplicates?: boolean;
+}
+
 // Create a patient and empty chart in one transaction
-// If patient already exists with a chart, returns existing chart
+// If patient already exists with a chart, returns existing chart. Without an
+// exact match, patients that may be the same person come back as
+// possibleDuplicates (nothing is created) until the scheduler picks one or
+// passes allowPossibleDuplicates.
 export async function createPatientWithChart(
   patientData: CreatePatientData,
   tenantId: string,
-  createdBy: string
+  createdBy: string,
+  options: CreatePatientWithChartOptions = {}
 ) {
   // Check if patient already exists with their charts
-  const existingPatientWithChart = await findExistingPatientWithChart(
-    patientData.first_name,
-    patientData.last_name,
-    patientData.date_of_birth,
-    tenantId
-  );
+  const existingPatientWithChart =
+    options.existingPatient ??
+    (await findExistingPatientWithChart(
+      patientData.first_name,
+      patientData.last_name,
+      patientData.date_of_birth,
+      tenantId
+    ));
+
+  if (!existingPatientWithChart && !options.allowPossibleDuplicates) {
+    const possibleDuplicates = await findPossibleDuplicates<Patient>(patientData, tenantId);
+    if (possibleDuplicates.length > 0) {
+      return { possibleDuplicates: possibleDuplicates as DuplicateCandidate<Patient>[] };
+    }
+  }
 
   if (existingPatientWithChart && existingPatientWithChart.charts && existingPatientWithChart.charts.length > 0) {
     // Patient already has a chart - return existing patient and chart
@@ -376,6 +372,7 @@ export async function createPatientWithChart(
       .single();
 
     if (chartError) throw chartError;
+    await withPatientPhi([fullChart.patient]);
 
     return { 
       patient: existingPatientWithChart as Patient, 
@@ -394,7 +391,7 @@ export async function createPatientWithChart(
     console.log(`Using existing patient (no chart): ${patient.first_name} ${patient.last_name} (ID: ${patient.id})`);
   } else {
     // Create new patient
-    patient = await createPatient(patientData, tenantId, createdBy);
+    patient = await createPatient(patientData, tenantId);
     isNewPatient = true;
     console.log(`Created new patient: ${patient.first_name} ${patient.last_name} (ID: ${patient.id})`);
   }
@@ -477,6 +474,7 @@ export async function assignChart(chartId: string, clinicianId: string) {
     .single();
 
   if (error) throw error;
+  await withPatientPhi([data.patient]);
   return data as ChartWithPatient;
 }
 
@@ -485,35 +483,10 @@ export async function reassignChart(chartId: string, newClinicianId: string) {
   return assignChart(chartId, newClinicianId);
 }
 
-// Unassign a chart from a clinician
+// Unassign a chart from a clinician (the API clears the chart's review flag
+// and the patient's assigned clinician together)
 export async function unassignChart(chartId: string) {
-  // Get the chart to get patient_id
-  const { data: chart, error: chartError } = await supabaseClient
-    .from('charts')
-    .select('patient_id')
-    .eq('id', chartId)
-    .single();
-
-  if (chartError) throw chartError;
-
-  // Update chart
-  const { error: updateChartError } = await supabaseClient
-    .from('charts')
-    .update({
-      awaiting_clinician_review: false,
-      status: 'active',
-    })
-    .eq('id', chartId);
-
-  if (updateChartError) throw updateChartError;
-
-  // Update patient to remove clinician assignment
-  const { error: updatePatientError } = await supabaseClient
-    .from('patients')
-    .update({ assigned_clinician_id: null })
-    .eq('id', chart.patient_id);
-
-  if (updatePatientError) throw updatePatientError;
+  await transitionChart(chartId, 'unassign');
 
   // Fetch and return the updated chart
   const { data, error } = await supabaseClient
@@ -531,6 +504,7 @@ export async function unassignChart(chartId: string) {
     .single();
 
   if (error) throw error;
+  await withPatientPhi([data.patient]);
   return data as ChartWithPatient;
 }
 
@@ -598,18 +572,9 @@ export async function getDashboardStats(tenantId: string) {
   };
 }
 
-// Search patients by name
+// Search patients by name, or by date of birth
 export async function searchPatients(tenantId: string, searchQuery: string) {
-  const { data, error } = await supabaseClient
-    .from('patients')
-    .select('*')
-    .eq('tenant_id', tenantId)
-    .or(`first_name.ilike.%${searchQuery}%,last_name.ilike.%${searchQuery}%`)
-    .order('last_name', { ascending: true })
-    .limit(10);
-
-  if (error) throw error;
-  return data as Patient[];
+  return searchPatientRecords<Patient>(tenantId, searchQuery);
 }
 
 // Get chart details with documents
@@ -643,6 +608,7 @@ export async function getChartWithDocuments(chartId: string) {
     .single();
 
   if (error) throw error;
+  await withPatientPhi([data.patient]);
 
   // Get documents and medications separately
   const [{ data: documents }, { data: medications }] = await Promise.all([
@@ -0,0 +1,50 @@
+import { apiRequest } from '../lib/api';
+
+// Signed-in devices (server/src/routes/sessions.ts). A revoked session's
+// token is refused by the API on its next request.
+export interface LoginSession {
+  session_id: string;
+  device: string | null;
+  user_agent: string | null;
+  ip_address: string | null;
+  created_at: string;
+  last_seen_at: string;
+  current?: boolean;
+}
+
+export async function fetchMySessions(): Promise<LoginSession[]> {
+  const { sessions } = await apiRequest<{ sessions: LoginSession[] }>('/api/sessions');
+  return sessions;
+}
+
+export async function revokeMySession(sessionId: string): Promise<void> {
+  await apiRequest(`/api/sessions/${encodeURIComponent(sessionId)}`, { method: 'DELETE' });
+}
+
+export async function revokeMyOtherSessions(): Promise<string[]> {
+  const { revoked } = await apiRequest<{ revoked: string[] }>('/api/sessions/revoke-all', { body: {} });
+  return revoked;
+}
+
+// Agency admins, for users in their tenant
+export async function fetchUserSessions(userId: string): Promise<LoginSession[]> {
+  const { sessions } = await apiRequest<{ sessions: LoginSession[] }>(
+    `/api/sessions/users/${encodeURIComponent(userId)}`
+  );
+  return sessions;
+}
+
+export async function revokeUserSession(userId: string, sessionId: string): Promise<void> {
+  await apiRequest(
+    `/api/sessions/users/${encodeURIComponent(userId)}/${encodeURIComponent(sessionId)}`,
+    { method: 'DELETE' }
+  );
+}
+
+export async function revokeAllUserSessions(userId: string): Promise<string[]> {
+  const { revoked } = await apiRequest<{ revoked: string[] }>(
+    `/api/sessions/users/${encodeURIComponent(userId)}/revoke-all`,
+    { body: {} }
+  );
+  return revoked;
+}
@@ -0,0 +1,104 @@
+import { apiRequest, API_BASE_URL } from '../lib/api';
+
+// Tenant single sign-on (server/src/routes/sso.ts). The browser goes to
+// /api/sso/:subdomain/start, through the tenant's IdP, and comes back to the
+// app with a one-time token in the URL fragment (readSsoRedirect), which
+// authService.loginWithSso turns into a session.
+export type SsoProtocol = 'oidc' | 'saml';
+export type SsoRole = 'clinician' | 'scheduler' | 'agency_admin' | 'super_admin';
+
+export interface TenantSsoInfo {
+  tenant_name: string;
+  subdomain: string;
+  enabled: boolean;
+  protocol: SsoProtocol | null;
+  enforced: boolean;
+}
+
+export interface TenantSsoConfig {
+  enabled: boolean;
+  protocol: SsoProtocol;
+  oidc?: { issuer: string; client_id: string; scopes?: string; has_client_secret: boolean };
+  saml?: { entry_point: string; idp_issuer?: string | null; idp_cert: string };
+  groups_attribute?: string;
+  role_mapping: Record<string, SsoRole>;
+  default_role?: SsoRole | null;
+  allowed_domains?: string[];
+}
+
+export interface TenantSsoSettings {
+  tenant_id: string;
+  enforced: boolean;
+  config: TenantSsoConfig | null;
+  service_provider: {
+    oidc_redirect_uri: string;
+    saml_acs_url: string;
+    saml_entity_id: string;
+    saml_metadata_url: string;
+  };
+}
+
+// Omitted fields keep their saved value; client_secret: null clears it
+export interface TenantSsoSettingsInput {
+  enabled?: boolean;
+  enforced?: boolean;
+  protocol?: SsoProtocol;
+  oidc?: { issuer?: string; client_id?: string; client_secret?: string | null; scopes?: string };
+  saml?: { entry_point?: string; idp_issuer?: string | null; idp_cert?: string };
+  groups_attribute?: string;
+  role_mapping?: Record<string, SsoRole>;
+  default_role?: SsoRole | null;
+  allowed_domains?: string[];
+}
+
+export type SsoRedirect =
+  | { kind: 'success'; tokenHash: string; handoff: string }
+  | { kind: 'error'; code: string; message: string };
+
+// "acme" on acme.luminousrehab.com; null on localhost and bare domains
+export function tenantSubdomainFromHost(hostname: string = window.location.hostname): string | null {
+  const labels = hostname.split('.');
+  if (labels.length < 3 || /^\d+$/.test(labels[labels.length - 1]) || labels[0] === 'www') return null;
+  return labels[0].toLowerCase();
+}
+
+export function getTenantSso(subdomain: string): Promise<TenantSsoInfo> {
+  return apiRequest<TenantSsoInfo>(`/api/sso/${encodeURIComponent(subdomain)}`, { anonymous: true });
+}
+
+export function ssoStartUrl(subdomain: string) {
+  return `${API_BASE_URL}/api/sso/${encodeURIComponent(subdomain)}/start`;
+}
+
+// Read and clear the result the API left in the URL fragment after SSO
+export function readSsoRedirect(): SsoRedirect | null {
+  const params = new URLSearchParams(window.location.hash.replace(/^#/, ''));
+  const tokenHash = params.get('sso_token_hash');
+  const handoff = params.get('sso_handoff');
+  const errorCode = params.get('sso_error');
+  if (!tokenHash && !errorCode) return null;
+
+  window.history.replaceState(null, '', window.location.pathname + window.location.search);
+
+  if (tokenHash && handoff) return { kind: 'success', tokenHash, handoff };
+  return {
+    kind: 'error',
+    code: errorCode || 'sso_failed',
+    message: params.get('sso_message') || 'Single sign-on failed. Please try again.',
+  };
+}
+
+export function bindSsoSession(handoff: string) {
+  return apiRequest<{ ok: true }>('/api/sso/session', { body: { handoff } });
+}
+
+export function getTenantSsoConfig(tenantId: string): Promise<TenantSsoSettings> {
+  return apiRequest<TenantSsoSettings>(`/api/sso/tenants/${encodeURIComponent(tenantId)}/config`);
+}
+
+export function saveTenantSsoConfig(tenantId: string, input: TenantSsoSettingsInput): Promise<TenantSsoSettings> {
+  return apiRequest<TenantSsoSettings>(`/api/sso/tenants/${encodeURIComponent(tenantId)}/config`, {
+    method: 'PUT',
+    body: input,
+  });
+}
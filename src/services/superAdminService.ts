@@ -1,4 +1,7 @@
 import { supabaseClient } from '../lib/supabase';
+import { apiRequest } from '../lib/api';
+import { getImpersonation, setImpersonation } from '../lib/impersonation';
+import type { ActiveImpersonation, ImpersonationMode } from '../lib/impersonation';
 
 export interface Tenant {
   id: string;
@@ -40,22 +43,6 @@ export interface BAADocument {
   created_at: string;
 }
 
-export interface AuditLog {
-  id: string;
-  tenant_id: string;
-  user_id: string;
-  user_name?: string; // Computed from join
-  tenant_name?: string; // Computed from join
-  entity_type: string;
-  entity_id: string;
-  action: string;
-  changes?: any;
-  metadata?: any;
-  ip_address?: string;
-  user_agent?: string;
-  created_at: string;
-}
-
 // Fetch all tenants with stats
 export async function fetchAllTenants() {
   try {
@@ -406,57 +393,18 @@ export async function uploadBAADocument(
 
     console.log('Tenant updated successfully:', tenant);
 
-    // Generate activation code and link
-    const activationCode = Math.random().toString(36).substring(2, 10).toUpperCase();
-    const activationLink = `${window.location.origin}/activate?tenant=${tenant.subdomain}&code=${activationCode}`;
-    
-    // Store activation code in tenant metadata
+    // The server generates the admin activation code and keeps only its hash,
+    // so it can be shown to the super admin this once
+    let activationCode: string;
     try {
-      // First, get existing metadata
-      const { data: existingTenant } = await supabaseClient
-        .from('tenants')
-        .select('metadata')
-        .eq('id', tenantId)
-        .single();
-
-      const currentMetadata = (existingTenant?.metadata as any) || {};
-      
-      const { error: metadataError } = await supabaseClient
-        .from('tenants')
-        .update({
-          metadata: { 
-            ...currentMetadata,
-            activation_code: activationCode, 
-            activation_sent_at: new Date().toISOString() 
-          }
-        })
-        .eq('id', tenantId);
-
-      if (metadataError) {
-        console.error('Failed to store activation code:', metadataError);
-        // If metadata column doesn't exist, continue without it
-        // The activation will still work but admin will need to manually share details
-      } else {
-        console.log('Activation code stored successfully');
-      }
-      
-      // TODO: Send email via your email service
-      // For now, just log it
-      console.log('Activation email should be sent to:', tenant.contact_email);
-      console.log('Activation link:', activationLink);
-      console.log('Activation code:', activationCode);
-      
-      // You would call your email service here:
-      // await sendActivationEmail({
-      //   to: tenant.contact_email,
-      //   tenantName: tenant.name,
-      //   activationLink,
-      //   activationCode,
-      // });
-    } catch (emailError) {
-      console.error('Failed to store activation code:', emailError);
-      // Don't throw - tenant is still activated even if this fails
+      ({ activationCode } = await issueTenantActivationCode(tenantId));
+    } catch (activationError: any) {
+      throw new Error(`BAA saved, but the activation code could not be issued: ${activationError.message}`);
     }
+    const activationLink = `${window.location.origin}/activate?tenant=${tenant.subdomain}&code=${encodeURIComponent(activationCode)}`;
+
+    // TODO: Send email via your email service
+    console.log('Activation email should be sent to:', tenant.contact_email);
 
     await logAuditEvent({
       tenant_id: tenantId,
@@ -482,6 +430,15 @@ export async function uploadBAADocument(
   }
 }
 
+// Issue a new admin activation code for a tenant; any unused earlier code stops working
+export async function issueTenantActivationCode(tenantId: string) {
+  const result = await apiRequest<{ activation_code: string; expires_at: string }>(
+    `/api/tenants/${tenantId}/activation-code`,
+    { method: 'POST', asSelf: true }
+  );
+  return { activationCode: result.activation_code, expiresAt: result.expires_at };
+}
+
 // Fetch BAA documents for a tenant
 export async function fetchBAADocuments(tenantId: string) {
   try {
@@ -499,78 +456,8 @@ export async function fetchBAADocuments(tenantId: string) {
   }
 }
 
-// Fetch audit logs
-export async function fetchAuditLogs(filters?: {
-  tenantId?: string;
-  action?: string;
-  entityType?: string;
-  dateFrom?: string;
-  dateTo?: string;
-  limit?: number;
-}) {
-  try {
-    let query = supabaseClient
-      .from('audit_logs')
-      .select(`
-        *,
-        user:users!audit_logs_user_id_fkey(first_name, last_name, email),
-        tenant:tenants!audit_logs_tenant_id_fkey(name)
-      `)
-      .order('created_at', { ascending: false });
-
-    if (filters?.tenantId) {
-      query = query.eq('tenant_id', filters.tenantId);
-    }
-
-    if (filters?.action) {
-      query = query.eq('action', filters.action);
-    }
-
-    if (filters?.entityType) {
-      query = query.eq('entity_type', filters.entityType);
-    }
-
-    if (filters?.dateFrom) {
-      query = query.gte('created_at', filters.dateFrom);
-    }
-
-    if (filters?.dateTo) {
-      query = query.lte('created_at', filters.dateTo);
-    }
-
-    if (filters?.limit) {
-      query = query.limit(filters.limit);
-    }
-
-    const { data, error } = await query;
-
-    if (error) {
-      console.warn('Error fetching audit logs:', error);
-      return []; // Return empty array on error
-    }
-
-    return (data || []).map((log: any) => ({
-      id: log.id,
-      tenant_id: log.tenant_id,
-      user_id: log.user_id,
-      user_name: log.user ? `${log.user.first_name} ${log.user.last_name}` : 'Unknown User',
-      tenant_name: log.tenant?.name || 'Unknown Tenant',
-      action: log.action,
-      entity_type: log.entity_type,
-      entity_id: log.entity_id,
-      changes: log.changes,
-      metadata: log.metadata,
-      ip_address: log.ip_address,
-      user_agent: log.user_agent,
-      created_at: log.created_at,
-    }));
-  } catch (error) {
-    console.warn('Error fetching audit logs:', error);
-    return []; // Don't crash the dashboard
-  }
-}
-
-// Log audit event
+// Log audit event. Failures are thrown: the change being audited has already
+// been applied, so callers must not report success without its audit entry.
 export async function logAuditEvent(event: {
   tenant_id: string;
   action: 'created' | 'updated' | 'deleted' | 'finalized' | 'delivered' | 'returned' | 'exported' | 'viewed';
@@ -579,28 +466,53 @@ export async function logAuditEvent(event: {
   changes?: any;
   metadata?: any;
 }) {
-  try {
-    // Get current user from session
-    const { data: { user } } = await supabaseClient.auth.getUser();
-
-    if (!user) return;
-
-    await supabaseClient.from('audit_logs').insert({
-      tenant_id: event.tenant_id,
-      user_id: user.id,
-      action: event.action,
-      entity_type: event.entity_type,
-      entity_id: event.entity_id,
-      changes: event.changes || null,
-      metadata: event.metadata || null,
-      created_at: new Date().toISOString(),
-    });
-  } catch (error) {
-    console.warn('Audit logging failed:', error);
-    // Don't throw - audit logging should not break functionality
+  // Get current user from session
+  const { data: { user } } = await supabaseClient.auth.getUser();
+
+  if (!user) throw new Error('Audit logging failed: not signed in');
+
+  // created_at and the hash chain columns are set by the database
+  const { error } = await supabaseClient.from('audit_logs').insert({
+    tenant_id: event.tenant_id,
+    user_id: user.id,
+    action: event.action,
+    entity_type: event.entity_type,
+    entity_id: event.entity_id,
+    changes: event.changes || null,
+    metadata: event.metadata || null,
+  });
+
+  if (error) {
+    console.error('Audit logging failed:', error);
+    throw new Error(`Audit logging failed: ${error.message}`);
   }
 }
 
+export interface AuditChainReport {
+  tenant_id: string;
+  valid: boolean;
+  entries: number;
+  head_seq: number;
+  head_hash: string | null;
+  // Entries up to here were removed under the tenant's retention policy
+  purged_through_seq: number;
+  breaks: {
+    seq: number;
+    id: string | null;
+    problem: 'gap' | 'broken_link' | 'hash_mismatch' | 'head_mismatch';
+    missing?: number;
+    head_seq?: number;
+  }[];
+  verified_at: string;
+}
+
+// Check a tenant's audit log hash chain for removed or altered entries
+export function verifyAuditChain(tenantId: string) {
+  return apiRequest<AuditChainReport>(`/api/audit/verify?tenant_id=${encodeURIComponent(tenantId)}`, {
+    asSelf: true,
+  });
+}
+
 // Get super admin stats
 export async function getSuperAdminStats() {
   try {
@@ -644,23 +556,49 @@ export async function getSuperAdminStats() {
   }
 }
 
-// Impersonate tenant user (for support)
-export async function impersonateTenant(tenantId: string, reason: string) {
+// Impersonate a tenant (for support). Starts a time-boxed session on the API,
+// which audits it, and switches data access to the returned token.
+export async function impersonateTenant(
+  tenantId: string,
+  reason: string,
+  options: { mode?: ImpersonationMode; minutes?: number } = {}
+): Promise<ActiveImpersonation> {
   try {
-    // Log the impersonation
-    await logAuditEvent({
-      tenant_id: tenantId,
-      action: 'viewed',
-      entity_type: 'tenant',
-      entity_id: tenantId,
-      metadata: { impersonation: true, reason },
+    const { session, tenant, token } = await apiRequest<{
+      session: { id: string; tenant_id: string; mode: ImpersonationMode; reason: string; expires_at: string };
+      tenant: { id: string; name: string };
+      token: string;
+    }>('/api/impersonation', {
+      body: { tenant_id: tenantId, reason, mode: options.mode, minutes: options.minutes },
+      asSelf: true,
     });
 
-    // In a real implementation, this would create a special session token
-    // For now, just return success
-    return { success: true, tenantId, reason };
+    const active: ActiveImpersonation = {
+      id: session.id,
+      tenant_id: session.tenant_id,
+      tenant_name: tenant.name,
+      mode: session.mode,
+      reason: session.reason,
+      expires_at: session.expires_at,
+      token,
+    };
+    setImpersonation(active);
+    return active;
   } catch (error) {
     console.error('Error impersonating tenant:', error);
     throw error;
   }
 }
+
+// End the active impersonation session (also used when it runs out)
+export async function endImpersonation(active: ActiveImpersonation | null = getImpersonation()): Promise<void> {
+  setImpersonation(null);
+  if (!active) return;
+
+  try {
+    await apiRequest(`/api/impersonation/${encodeURIComponent(active.id)}/end`, { method: 'POST', asSelf: true });
+  } catch (error) {
+    // The token is already dropped locally and expires on its own
+    console.error('Error ending impersonation:', error);
+  }
+}
@@ -0,0 +1,25 @@
+import { apiRequest } from '../lib/api';
+
+export interface TenantSecuritySettings {
+  tenant_id: string;
+  // Minutes of inactivity before the app signs the user out
+  idle_timeout_minutes: number;
+  require_mfa: boolean;
+  sso_enforced: boolean;
+}
+
+// Used when the tenant's settings cannot be loaded
+export const DEFAULT_IDLE_TIMEOUT_MINUTES = 15;
+
+export function fetchTenantSecuritySettings(tenantId: string) {
+  return apiRequest<TenantSecuritySettings>(`/api/tenants/${encodeURIComponent(tenantId)}/security`, {
+    asSelf: true,
+  });
+}
+
+export function setTenantIdleTimeout(tenantId: string, minutes: number) {
+  return apiRequest<TenantSecuritySettings>(`/api/tenants/${encodeURIComponent(tenantId)}/security`, {
+    method: 'PUT',
+    body: { idle_timeout_minutes: minutes },
+  });
+}
@@ -128,26 +128,6 @@ export const userProfileService = {
     }
   },
 
-  /**
-   * Toggle MFA for user
-   */
-  async updateMFASettings(userId: string, enabled: boolean): Promise<void> {
-    try {
-      const { error } = await supabaseClient
-        .from('users')
-        .update({ mfa_enabled: enabled })
-        .eq('id', userId);
-
-      if (error) {
-        console.error('Error updating MFA settings:', error);
-        throw new Error('Failed to update MFA settings');
-      }
-    } catch (error) {
-      console.error('Exception in updateMFASettings:', error);
-      throw error;
-    }
-  },
-
   /**
    * Get user statistics (charts, patients, etc.)
    */
@@ -1,6 +1,7 @@
 // OCR Service for Web using Tesseract.js
 import Tesseract from 'tesseract.js';
 import * as pdfjsLib from 'pdfjs-dist';
+import { lookupBarcode } from '../services/drugReferenceService';
 
 // Configure PDF.js worker - use local worker file from public folder
 // This avoids issues with dynamic imports and CDN loading
@@ -19,11 +20,33 @@ export interface OCRResult {
   isBlurry?: boolean;
   rotationCorrected?: boolean;
   preprocessingStrategy?: string;
-  words?: Array<{
-    text: string;
-    bbox: { x0: number; y0: number; x1: number; y1: number };
-    confidence: number;
-  }>;
+  words?: OCRWord[];
+}
+
+export interface OCRWord {
+  text: string;
+  bbox: { x0: number; y0: number; x1: number; y1: number };
+  confidence: number;
+}
+
+// Fields the extractor reports per-field confidence and source words for
+export type MedicationField = 'name' | 'dosage' | 'frequency' | 'route' | 'prescriber' | 'quantity' | 'refills';
+
+export const MEDICATION_FIELDS: MedicationField[] = ['name', 'dosage', 'frequency', 'route', 'prescriber', 'quantity', 'refills'];
+
+export interface FieldExtraction {
+  value: string;
+  // 0-100: reliability of the pattern that matched, scaled by Tesseract's
+  // confidence in the words the value was read from
+  confidence: number;
+  // Source words, in OCR image pixels (empty if they could not be located)
+  words: OCRWord[];
+}
+
+// Stored on medications.ocr_fields so verification can show where each value came from
+export interface MedicationOcrProvenance {
+  image: { width: number; height: number } | null;
+  fields: Partial<Record<MedicationField, FieldExtraction>>;
 }
 
 export interface MedicationInfo {
@@ -37,6 +60,8 @@ export interface MedicationInfo {
   instructions: string;
   confidence: number;
   image?: string; // base64 data URL of scanned image
+  fields?: Partial<Record<MedicationField, FieldExtraction>>;
+  ocrImageSize?: { width: number; height: number }; // pixel space of fields[].words
 }
 
 export interface PatientInfo {
@@ -515,14 +540,104 @@ function isCommonFalsePositive(text: string, currentMed: Partial<MedicationInfo>
 }
 
 
+// How a field was matched: pattern reliability (0-1) and the text it matched,
+// used to find the value's words on the page
+interface FieldHit {
+  weight: number;
+  context?: string;
+}
+
+const normalizeWordText = (text: string) => text.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+/**
+ * Find the run of consecutive OCR words that spells out `snippet`
+ * (ignoring case, spacing and punctuation, so "500 mg" matches "500mg,")
+ */
+function findWordRun(snippet: string, words: OCRWord[]): OCRWord[] | null {
+  const target = normalizeWordText(snippet);
+  if (!target) return null;
+
+  for (let i = 0; i < words.length; i++) {
+    const first = normalizeWordText(words[i].text);
+    if (!first) continue;
+    if (first.includes(target)) return [words[i]];
+    if (!target.startsWith(first)) continue;
+
+    let joined = first;
+    for (let j = i + 1; j < words.length; j++) {
+      const token = normalizeWordText(words[j].text);
+      if (!token) continue;
+      joined += token;
+      if (joined.startsWith(target)) return words.slice(i, j + 1);
+      if (!target.startsWith(joined)) break;
+    }
+  }
+  return null;
+}
+
+/**
+ * Per-field confidence and source words. The value is looked up inside the
+ * text its pattern matched first, so "30" in "Qty: 30" is not taken from a date.
+ */
+function extractFieldProvenance(
+  medication: Partial<MedicationInfo>,
+  hits: Partial<Record<MedicationField, FieldHit>>,
+  words?: OCRWord[]
+): Partial<Record<MedicationField, FieldExtraction>> {
+  const fields: Partial<Record<MedicationField, FieldExtraction>> = {};
+
+  for (const field of MEDICATION_FIELDS) {
+    const value = medication[field];
+    const hit = hits[field];
+    if (!value || !hit) continue;
+
+    let sourceWords: OCRWord[] = [];
+    if (words && words.length > 0) {
+      const contextRun = hit.context ? findWordRun(hit.context, words) : null;
+      sourceWords = (contextRun && findWordRun(value, contextRun)) || findWordRun(value, words) || [];
+    }
+
+    let confidence: number;
+    if (sourceWords.length > 0) {
+      const ocrConfidence = sourceWords.reduce((sum, w) => sum + w.confidence, 0) / sourceWords.length;
+      confidence = hit.weight * ocrConfidence;
+    } else {
+      // No words to check against: pattern reliability alone, halved when
+      // the words exist but the value could not be found among them
+      confidence = hit.weight * (words && words.length > 0 ? 50 : 100);
+    }
+
+    fields[field] = { value, confidence: Math.round(confidence), words: sourceWords };
+  }
+
+  return fields;
+}
+
 /**
- * Parse a SINGLE medication from text
+ * Provenance to store with a scanned medication (null for manual entries)
  */
-export function parseMedicationFromText(text: string): Partial<MedicationInfo> {
+export function buildOcrProvenance(med: Partial<MedicationInfo>): MedicationOcrProvenance | null {
+  if (!med.fields || Object.keys(med.fields).length === 0) return null;
+  if (med.ocrImageSize) return { image: med.ocrImageSize, fields: med.fields };
+
+  // Boxes are meaningless without the image they were measured in
+  const fields: Partial<Record<MedicationField, FieldExtraction>> = {};
+  for (const [key, field] of Object.entries(med.fields) as [MedicationField, FieldExtraction][]) {
+    fields[key] = { ...field, words: [] };
+  }
+  return { image: null, fields };
+}
+
+/**
+ * Parse a SINGLE medication from text. Pass the OCR words to get source
+ * regions for each field.
+ */
+export function parseMedicationFromText(text: string, words?: OCRWord[]): Partial<MedicationInfo> {
   // Normalize text for easier parsing: keep newlines but normalize spaces
   const normalizedText = text.replace(/\r\n/g, '\n');
   const lines = normalizedText.split('\n').map(line => line.trim()).filter(Boolean);
   const medication: Partial<MedicationInfo> = {};
+  const hits: Partial<Record<MedicationField, FieldHit>> = {};
 
   if (OCR_DEBUG) {
     console.log('🔍 Parsing OCR text for single medication...');
@@ -542,6 +657,7 @@ export function parseMedicationFromText(text: string): Partial<MedicationInfo> {
       const number = match[1] || match[0].match(/\d+(?:\.\d+)?/)?.[0];
       const unit = match[0].match(/mg|mcg|g|ml|units?/i)?.[0];
       medication.dosage = `${number} ${unit}`;
+      hits.dosage = { weight: pattern === dosagePatterns[0] ? 0.95 : 0.9, context: match[0] };
       break;
     }
   }
@@ -559,10 +675,13 @@ export function parseMedicationFromText(text: string): Partial<MedicationInfo> {
   // We replace newlines with spaces for regex search to handle "TWO TIMES \n A DAY"
   const textSingleLine = text.replace(/\n/g, ' ');
 
+  const frequencyWeights = [0.95, 0.85, 0.75];
+
   for (const pattern of frequencyPatterns) {
     const match = textSingleLine.match(pattern);
     if (match) {
       medication.frequency = match[0].trim();
+      hits.frequency = { weight: frequencyWeights[frequencyPatterns.indexOf(pattern)] };
       break;
     }
   }
@@ -578,6 +697,7 @@ export function parseMedicationFromText(text: string): Partial<MedicationInfo> {
     if (match) {
       // If we have a capture group 1, use it (for "by mouth"), otherwise use match[0]
       medication.route = match[1] || match[0].trim();
+      hits.route = { weight: pattern === routePatterns[0] ? 0.95 : 0.85 };
       break;
     }
   }
@@ -590,6 +710,8 @@ export function parseMedicationFromText(text: string): Partial<MedicationInfo> {
     /Prescriber:\s*([A-Za-z\s\.]+)/i,
   ];
 
+  const prescriberWeights = [0.9, 0.7, 0.85, 0.95];
+
   for (const pattern of prescriberPatterns) {
     // Create a global regex to find all matches
     const globalPattern = new RegExp(pattern.source, pattern.flags + (pattern.flags.includes('g') ? '' : 'g'));
@@ -608,6 +730,7 @@ export function parseMedicationFromText(text: string): Partial<MedicationInfo> {
       } else {
         medication.prescriber = match[0].trim();
       }
+      hits.prescriber = { weight: prescriberWeights[prescriberPatterns.indexOf(pattern)] };
       // If we found a valid one, stop searching this pattern and other patterns? 
       // Usually we want the first VALID one.
       break;
@@ -619,11 +742,13 @@ export function parseMedicationFromText(text: string): Partial<MedicationInfo> {
   const quantityMatch = text.match(/(?:qty|quantity)\s*:?\s*(\d+)/i);
   if (quantityMatch) {
     medication.quantity = quantityMatch[1];
+    hits.quantity = { weight: 0.95, context: quantityMatch[0] };
   } else {
     // Fallback: look for "30 Tablets" or similar standalone if not found
     const looseQtyMatch = text.match(/^(\d+)\s+(?:tablets|capsules|pills)/im);
     if (looseQtyMatch) {
       medication.quantity = looseQtyMatch[1];
+      hits.quantity = { weight: 0.7, context: looseQtyMatch[0] };
     }
   }
 
@@ -631,6 +756,7 @@ export function parseMedicationFromText(text: string): Partial<MedicationInfo> {
   const refillsMatch = text.match(/(?:refills?|no refills)\s*:?\s*(\d+|remaining)/i);
   if (refillsMatch) {
     medication.refills = refillsMatch[1];
+    hits.refills = { weight: 0.9, context: refillsMatch[0] };
   }
 
   // 7. Instructions - Improved to capture full sentences across lines
@@ -654,6 +780,7 @@ export function parseMedicationFromText(text: string): Partial<MedicationInfo> {
     // Validate it's not a common false positive
     if (!isCommonFalsePositive(candidateName, medication)) {
       medication.name = candidateName;
+      hits.name = { weight: 0.85 };
       if (OCR_DEBUG) console.log(`✅ Found medication name with mixed case pattern: "${medication.name}"`);
     }
   }
@@ -673,6 +800,7 @@ export function parseMedicationFromText(text: string): Partial<MedicationInfo> {
         if (OCR_DEBUG) console.log(`  Strategy B: Potential name on same line as dosage: "${potentialName}"`);
         if (!isCommonFalsePositive(potentialName, medication)) {
           medication.name = potentialName;
+          hits.name = { weight: 0.8, context: line };
           if (OCR_DEBUG) console.log(`✅ Found medication name on same line as dosage: "${medication.name}"`);
         } else if (OCR_DEBUG) {
           console.log(`  Strategy B: Rejected "${potentialName}" as false positive.`);
@@ -683,6 +811,7 @@ export function parseMedicationFromText(text: string): Partial<MedicationInfo> {
         if (OCR_DEBUG) console.log(`  Strategy B: Potential name on previous line: "${prevLine}"`);
         if (prevLine.length > 3 && !isCommonFalsePositive(prevLine, medication)) {
           medication.name = prevLine;
+          hits.name = { weight: 0.7, context: prevLine };
           if (OCR_DEBUG) console.log(`✅ Found medication name on previous line: "${medication.name}"`);
         } else if (OCR_DEBUG) {
           console.log(`  Strategy B: Rejected "${prevLine}" as false positive.`);
@@ -742,6 +871,8 @@ export function parseMedicationFromText(text: string): Partial<MedicationInfo> {
       // Clean up "TABLET" etc from name
       // Use \b to ensure we don't match inside words, and handle start of string
       medication.name = bestCandidate.replace(/\b(?:TABLETS?|CAPSULES?|Pills)\b.*/i, '').replace(/,\s*$/, '').trim();
+      // Line-scoring heuristic: least reliable way to find the name
+      hits.name = { weight: 0.6, context: bestCandidate };
     }
   }
 
@@ -749,9 +880,12 @@ export function parseMedicationFromText(text: string): Partial<MedicationInfo> {
     const commonlyKnownMatch = text.match(/commonly\s+known\s+as\s+([A-Za-z]+)/i);
     if (commonlyKnownMatch) {
       medication.name = commonlyKnownMatch[1];
+      hits.name = { weight: 0.75, context: commonlyKnownMatch[0] };
     }
   }
 
+  medication.fields = extractFieldProvenance(medication, hits, words);
+
   if (OCR_DEBUG) {
     console.log('✅ Parsed medication:', medication);
   }
@@ -762,7 +896,7 @@ export function parseMedicationFromText(text: string): Partial<MedicationInfo> {
 /**
  * Parse multiple medications from text
  */
-export function parseMultipleMedications(text: string): Partial<MedicationInfo>[] {
+export function parseMultipleMedications(text: string, words?: OCRWord[]): Partial<MedicationInfo>[] {
   const hasMultipleRxNumbers = (text.match(/Rx\s*[:#]?\s*\d{5,}/gi) || []).length > 1;
   const hasBulletPoints = /^[\*•]\s/m.test(text);
   const hasNumberedList = /^\d+\.\s+[A-Z]/m.test(text);
@@ -771,7 +905,7 @@ export function parseMultipleMedications(text: string): Partial<MedicationInfo>[
     if (OCR_DEBUG) {
       console.log('📋 Detected SINGLE medication label - parsing as ONE entry');
     }
-    const singleMed = parseMedicationFromText(text);
+    const singleMed = parseMedicationFromText(text, words);
     
     if (singleMed.name || singleMed.dosage || singleMed.frequency) {
       return [singleMed];
@@ -789,7 +923,7 @@ export function parseMultipleMedications(text: string): Partial<MedicationInfo>[
   sections.forEach(section => {
     const trimmed = section.trim();
     if (trimmed.length > 20) {
-      const med = parseMedicationFromText(trimmed);
+      const med = parseMedicationFromText(trimmed, words);
       if (med.name && (med.dosage || med.frequency || med.route)) {
         medications.push(med);
       }
@@ -803,7 +937,7 @@ export function parseMultipleMedications(text: string): Partial<MedicationInfo>[
   if (OCR_DEBUG) {
     console.log('📋 No multiple medications found, treating as single');
   }
-  return [parseMedicationFromText(text)];
+  return [parseMedicationFromText(text, words)];
 }
 
 /**
@@ -1003,84 +1137,22 @@ export interface UPCProductData {
 }
 
 /**
- * Convert barcode to possible NDC formats
- */
-export function convertToNDCFormat(code: string): string[] {
-  const digits = code.replace(/\D/g, '');
-  const formats: string[] = [];
-  
-  if (code.includes('-')) {
-    const segments = code.split('-');
-    if (segments.length >= 2) {
-      formats.push(`${segments[0]}-${segments[1]}`);
-    }
-    if (segments.length >= 3) {
-      formats.push(code);
-    }
-  }
-  
-  if (digits.length === 11) {
-    formats.push(`${digits.slice(0, 4)}-${digits.slice(4, 8)}-${digits.slice(8, 10)}`);
-    formats.push(`${digits.slice(0, 4)}-${digits.slice(4, 8)}`);
-    formats.push(`${digits.slice(0, 5)}-${digits.slice(5, 8)}-${digits.slice(8, 10)}`);
-    formats.push(`${digits.slice(0, 5)}-${digits.slice(5, 8)}`);
-    formats.push(`${digits.slice(0, 5)}-${digits.slice(5, 9)}-${digits.slice(9, 10)}`);
-    formats.push(`${digits.slice(0, 5)}-${digits.slice(5, 9)}`);
-  }
-  
-  if (digits.length === 10) {
-    const padded = '0' + digits;
-    formats.push(`${padded.slice(0, 4)}-${padded.slice(4, 8)}-${padded.slice(8, 10)}`);
-    formats.push(`${padded.slice(0, 5)}-${padded.slice(5, 8)}-${padded.slice(8, 10)}`);
-  }
-  
-  if (digits.length === 8) {
-    formats.push(`${digits.slice(0, 4)}-${digits.slice(4, 8)}`);
-  }
-  if (digits.length === 9) {
-    formats.push(`${digits.slice(0, 5)}-${digits.slice(5, 9)}`);
-  }
-  
-  const noLeadingZeros = digits.replace(/^0+/, '');
-  if (noLeadingZeros.length === 8) {
-    formats.push(`${noLeadingZeros.slice(0, 4)}-${noLeadingZeros.slice(4, 8)}`);
-    formats.push(`${noLeadingZeros.slice(0, 5)}-${noLeadingZeros.slice(5, 8)}`);
-  }
-  
-  return [...new Set(formats)];
-}
-
-/**
- * Lookup medication information from FDA API using NDC code
+ * Lookup medication information for a scanned barcode or typed NDC in the
+ * local drug reference (see src/services/drugReferenceService.ts)
  */
 export async function lookupMedicationByNDC(code: string): Promise<FDAMedicationData | null> {
-  const possibleFormats = convertToNDCFormat(code);
-  
-  console.log('🔍 Searching for barcode:', code);
-  console.log('📋 Trying NDC formats:', possibleFormats);
-  
-  for (const format of possibleFormats) {
-    try {
-      console.log(`🔎 Attempting format: ${format}`);
-      const response = await fetch(
-        `https://api.fda.gov/drug/ndc.json?search=product_ndc:"${format}"&limit=1`
-      );
-      
-      if (response.ok) {
-        const data = await response.json();
-        if (data.results && data.results.length > 0) {
-          console.log('✅ Found medication with format:', format);
-          return data.results[0] as FDAMedicationData;
-        }
-      }
-    } catch (err) {
-      console.log(`❌ Format ${format} failed:`, err);
-      continue;
-    }
-  }
-  
-  console.log('❌ No medication found for any format');
-  return null;
+  const match = await lookupBarcode(code);
+  if (!match) return null;
+
+  const { product } = match;
+  return {
+    brand_name: product.brand_name || undefined,
+    generic_name: product.generic_name || undefined,
+    dosage_form: product.dosage_form || undefined,
+    route: product.route,
+    active_ingredients: product.active_ingredients,
+    product_ndc: product.product_ndc,
+  };
 }
 
 /**